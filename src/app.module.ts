@@ -23,6 +23,7 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { CacheModule } from '@nestjs/cache-manager';
 import * as redisStore from 'cache-manager-redis-store';
 import { BullModule } from '@nestjs/bull';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { MailerModule } from './modules/mailer/mailer.module';
 import { InvoicesModule } from './modules/invoices/invoices.module';
@@ -42,9 +43,13 @@ import { CheckInOutModule } from './modules/checkinout/checkinout.module';
 import { IncidentsModule } from './modules/incidents/incidents.module';
 import { HealthModule } from './modules/health/health.module';
 import { CalendarModule } from './modules/calendar/calendar.module';
+import { JobsModule } from './modules/jobs/jobs.module';
+import { LedgerModule } from './modules/ledger/ledger.module';
+import { DEFAULT_JOB_OPTIONS } from './modules/jobs/jobs.constants';
 import { APP_GUARD } from '@nestjs/core';
 import { RolesGuard } from './common/guards/roles.guard';
 import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
+import { SchoolAccessGuard } from './common/guards/school-access.guard';
 
 
 
@@ -77,13 +82,14 @@ import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
         port: configService.get('REDIS_PORT'),
         password: configService.get('REDIS_PASSWORD'),
       },
+      defaultJobOptions: DEFAULT_JOB_OPTIONS,
     }),
-  }), ThrottlerModule.forRoot([
+  }), EventEmitterModule.forRoot(), ThrottlerModule.forRoot([
     {
       ttl: 60000, // 60 seconds
       limit: 10, // 10 requests per minute
     },
-  ]), AuthModule, LeadsModule, PaymentsModule, EnrollmentModule, EmailModule, AiModule, CampaignsModule, AnalyticsModule, UsersModule, SchoolsModule, ClassesModule, MediaModule, NotificationsModule, MailerModule, InvoicesModule, StudentsModule, FormsModule, TeachersModule, CommunicationsModule, TasksModule, ReportsModule, BlogsModule, WaitlistModule, DashboardModule, ParentDashboardModule, ParentRegistrationModule, SettingsModule, CheckInOutModule, IncidentsModule, HealthModule, CalendarModule],
+  ]), AuthModule, LeadsModule, PaymentsModule, EnrollmentModule, EmailModule, AiModule, CampaignsModule, AnalyticsModule, UsersModule, SchoolsModule, ClassesModule, MediaModule, NotificationsModule, MailerModule, InvoicesModule, StudentsModule, FormsModule, TeachersModule, CommunicationsModule, TasksModule, ReportsModule, BlogsModule, WaitlistModule, DashboardModule, ParentDashboardModule, ParentRegistrationModule, SettingsModule, CheckInOutModule, IncidentsModule, HealthModule, CalendarModule, JobsModule, LedgerModule],
   controllers: [AppController],
   providers: [AppService, {
     provide: APP_GUARD,
@@ -92,6 +98,10 @@ import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
     {
       provide: APP_GUARD,
       useClass: RolesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: SchoolAccessGuard,
     },],
 })
 export class AppModule { }
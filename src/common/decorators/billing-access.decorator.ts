@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const BILLING_ACCESS_KEY = 'billingAccess';
+
+export type BillingAccessFilter = (request: Request) => boolean;
+
+/**
+ * Keeps a route open to staff of a school whose access was disabled for
+ * an unpaid subscription, so they can sign in and pay. With a filter only
+ * the requests it accepts are kept open.
+ */
+export const BillingAccess = (filter?: BillingAccessFilter) =>
+  SetMetadata(BILLING_ACCESS_KEY, filter ?? true);
@@ -0,0 +1,27 @@
+import { SetMetadata } from '@nestjs/common';
+import type { EntityTarget, ObjectLiteral } from 'typeorm';
+
+export const SCHOOL_RESOURCE_KEY = 'schoolResource';
+
+export interface SchoolResourceOptions {
+  entity: EntityTarget<ObjectLiteral>;
+  /** Route parameter holding the resource ID */
+  param: string;
+  /** Property of the entity holding its school */
+  schoolProperty: string;
+}
+
+/**
+ * Names the entity a route's ID parameter refers to, so the school access
+ * guard checks the school that owns the resource rather than the user's
+ * own school. Routes without the parameter are not affected.
+ */
+export const SchoolResource = (
+  entity: EntityTarget<ObjectLiteral>,
+  options: { param?: string; schoolProperty?: string } = {},
+) =>
+  SetMetadata(SCHOOL_RESOURCE_KEY, {
+    entity,
+    param: options.param ?? 'id',
+    schoolProperty: options.schoolProperty ?? 'schoolId',
+  } satisfies SchoolResourceOptions);
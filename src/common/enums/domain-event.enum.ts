@@ -0,0 +1,21 @@
+/**
+ * Names of in-process domain events published through the event emitter.
+ * Payloads are described in common/interfaces/domain-event.interface.ts.
+ */
+export enum DomainEvent {
+  LEAD_CREATED = 'lead.created',
+  LEAD_STATUS_CHANGED = 'lead.status_changed',
+  LEAD_SCORE_UPDATED = 'lead.score_updated',
+  LEAD_TOUR_SCHEDULED = 'lead.tour_scheduled',
+  WAITLIST_ADDED = 'waitlist.added',
+  WAITLIST_OFFER_SENT = 'waitlist.offer_sent',
+  ENROLLMENT_COMPLETED = 'enrollment.completed',
+  CLASS_SEAT_OPENED = 'class.seat_opened',
+  EMAIL_TRACKED = 'email.tracked',
+  INVOICE_CREATED = 'invoice.created',
+  INVOICE_PAID = 'invoice.paid',
+  /** The amount or status of an invoice changed, or it was deleted */
+  INVOICE_UPDATED = 'invoice.updated',
+  INVOICE_LATE_FEE_ADDED = 'invoice.late_fee_added',
+  REFUND_PROCESSED = 'refund.processed',
+}
@@ -0,0 +1,11 @@
+/**
+ * Engagement and delivery events recorded for a sent email
+ */
+export enum EmailTrackingEvent {
+  DELIVERED = 'delivered',
+  OPENED = 'opened',
+  CLICKED = 'clicked',
+  BOUNCED = 'bounced',
+  COMPLAINED = 'complained',
+  UNSUBSCRIBED = 'unsubscribed',
+}
@@ -14,7 +14,36 @@ export enum EmailType {
   DOCUMENT_REMINDER = 'document_reminder',
   INVOICE_REMINDER = 'invoice_reminder',
   STAFF_INVITATION = 'staff_invitation',
+  WAITLIST_OFFER = 'waitlist_offer',
+  MARKETING = 'marketing',
 }
 
+/**
+ * Preference categories shown to recipients. Transactional emails are always
+ * sent; the other categories can be turned off per school.
+ */
+export enum EmailCategory {
+  TRANSACTIONAL = 'transactional',
+  REMINDERS = 'reminders',
+  NOTIFICATIONS = 'notifications',
+  MARKETING = 'marketing',
+}
+
+export const EMAIL_TYPE_CATEGORIES: Record<EmailType, EmailCategory> = {
+  [EmailType.WELCOME]: EmailCategory.TRANSACTIONAL,
+  [EmailType.PAYMENT_INVOICE]: EmailCategory.TRANSACTIONAL,
+  [EmailType.PAYMENT_CONFIRMATION]: EmailCategory.TRANSACTIONAL,
+  [EmailType.PAYMENT_FAILURE]: EmailCategory.TRANSACTIONAL,
+  [EmailType.SYSTEM_ALERT]: EmailCategory.TRANSACTIONAL,
+  [EmailType.STAFF_INVITATION]: EmailCategory.TRANSACTIONAL,
+  [EmailType.WAITLIST_OFFER]: EmailCategory.TRANSACTIONAL,
+  [EmailType.PAYMENT_REMINDER]: EmailCategory.REMINDERS,
+  [EmailType.DOCUMENT_REMINDER]: EmailCategory.REMINDERS,
+  [EmailType.INVOICE_REMINDER]: EmailCategory.REMINDERS,
+  [EmailType.ACTIVITY_NOTIFICATION]: EmailCategory.NOTIFICATIONS,
+  [EmailType.LEAD_NOTIFICATION]: EmailCategory.NOTIFICATIONS,
+  [EmailType.MARKETING]: EmailCategory.MARKETING,
+};
+
 
 
@@ -0,0 +1,14 @@
+/**
+ * How a lead got its assigned staff member (leads.assignment_method).
+ * The automatic methods double as the per-school assignment strategy;
+ * MANUAL as a strategy turns auto-assignment off.
+ */
+export enum LeadAssignmentMethod {
+  MANUAL = 'manual',
+  /** Next staff member in assignment order */
+  ROUND_ROBIN = 'round_robin',
+  /** Round robin, but each member takes up to maxLeadsPerCycle leads per cycle */
+  WEIGHTED = 'weighted',
+  /** Staff member with the fewest open leads */
+  LEAST_LOADED = 'least_loaded',
+}
@@ -0,0 +1,314 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DataSource } from 'typeorm';
+import { AuthUser } from '../../modules/auth/interfaces/auth-user.interface';
+import { AppRole } from '../enums/app-role.enum';
+import { BILLING_ACCESS_KEY } from '../decorators/billing-access.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { SCHOOL_RESOURCE_KEY } from '../decorators/school-resource.decorator';
+import { SchoolAccessGuard } from './school-access.guard';
+
+const ACTIVE_SCHOOL = '11111111-1111-4111-8111-111111111111';
+const DISABLED_SCHOOL = '22222222-2222-4222-8222-222222222222';
+const OTHER_SCHOOL = '33333333-3333-4333-8333-333333333333';
+const RESOURCE_ID = '44444444-4444-4444-8444-444444444444';
+
+class Invoice {}
+
+function makeUser(
+  roles: [AppRole, string | null][],
+  schoolId: string | null = null,
+): AuthUser {
+  return {
+    id: 'user-1',
+    email: 'staff@example.com',
+    roles: roles.map(([role, roleSchoolId], index) => ({
+      id: `role-${index}`,
+      role,
+      schoolId: roleSchoolId,
+      createdAt: '2026-01-01T00:00:00.000Z',
+    })),
+    primaryRole: roles[0]?.[0] ?? AppRole.PARENT,
+    schoolId,
+  };
+}
+
+interface Scenario {
+  user?: AuthUser;
+  metadata?: Record<string, unknown>;
+  params?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+  /** Schools the user works at, keyed by ID to whether access is disabled */
+  schools?: Record<string, boolean>;
+  /** School of the resource a @SchoolResource() route looks up */
+  resourceSchoolId?: string | null;
+}
+
+describe('SchoolAccessGuard', () => {
+  const getMany = jest.fn();
+  const getRawOne = jest.fn();
+  const getRepository = jest.fn();
+
+  function run(scenario: Scenario): Promise<boolean> {
+    const metadata = scenario.metadata ?? {};
+    const reflector = {
+      getAllAndOverride: (key: string) => metadata[key],
+    } as unknown as Reflector;
+
+    const queryBuilder = {
+      select: () => queryBuilder,
+      where: () => queryBuilder,
+      orWhere: () => queryBuilder,
+      getMany,
+      getRawOne,
+    };
+    getRepository.mockReturnValue({ createQueryBuilder: () => queryBuilder });
+    getMany.mockResolvedValue(
+      Object.entries(scenario.schools ?? {}).map(([id, accessDisabled]) => ({
+        id,
+        accessDisabled,
+      })),
+    );
+    getRawOne.mockResolvedValue(
+      scenario.resourceSchoolId === undefined
+        ? undefined
+        : { schoolId: scenario.resourceSchoolId },
+    );
+
+    const request = {
+      user: scenario.user,
+      params: scenario.params ?? {},
+      query: scenario.query ?? {},
+      body: scenario.body ?? {},
+    };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => run,
+      getClass: () => SchoolAccessGuard,
+    } as unknown as ExecutionContext;
+
+    const guard = new SchoolAccessGuard(reflector, {
+      getRepository,
+    } as unknown as DataSource);
+    return guard.canActivate(context);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const owner = makeUser(
+    [[AppRole.SCHOOL_OWNER, DISABLED_SCHOOL]],
+    DISABLED_SCHOOL,
+  );
+  const twoSchoolAdmin = makeUser(
+    [
+      [AppRole.SCHOOL_ADMIN, ACTIVE_SCHOOL],
+      [AppRole.SCHOOL_ADMIN, DISABLED_SCHOOL],
+    ],
+    ACTIVE_SCHOOL,
+  );
+  const staffParent = makeUser(
+    [
+      [AppRole.TEACHER, DISABLED_SCHOOL],
+      [AppRole.PARENT, null],
+    ],
+    DISABLED_SCHOOL,
+  );
+
+  it.each<[string, Scenario, boolean]>([
+    ['requests without a user', {}, true],
+    ['parents', { user: makeUser([[AppRole.PARENT, null]]) }, true],
+    [
+      'super admins',
+      {
+        user: makeUser([[AppRole.SUPER_ADMIN, null]]),
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+    [
+      'public routes',
+      {
+        user: owner,
+        metadata: { isPublic: true },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+    [
+      '@BillingAccess() routes',
+      {
+        user: owner,
+        metadata: { [BILLING_ACCESS_KEY]: true },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+    [
+      '@BillingAccess() routes whose filter rejects the request',
+      {
+        user: owner,
+        metadata: { [BILLING_ACCESS_KEY]: () => false },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'staff of an active school',
+      { user: owner, schools: { [DISABLED_SCHOOL]: false } },
+      true,
+    ],
+    [
+      'staff of a disabled school',
+      { user: owner, schools: { [DISABLED_SCHOOL]: true } },
+      false,
+    ],
+    [
+      'staff who are parents on parent-only routes',
+      {
+        user: staffParent,
+        metadata: { [ROLES_KEY]: [AppRole.PARENT] },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+    [
+      'staff who are parents on staff routes',
+      {
+        user: staffParent,
+        metadata: { [ROLES_KEY]: [AppRole.PARENT, AppRole.TEACHER] },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'staff without the parent role on parent-only routes',
+      {
+        user: owner,
+        metadata: { [ROLES_KEY]: [AppRole.PARENT] },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'a requested school of the user that is active',
+      {
+        user: makeUser(
+          [
+            [AppRole.SCHOOL_ADMIN, ACTIVE_SCHOOL],
+            [AppRole.SCHOOL_ADMIN, DISABLED_SCHOOL],
+          ],
+          DISABLED_SCHOOL,
+        ),
+        query: { schoolId: ACTIVE_SCHOOL },
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+    [
+      'a requested school of the user that is disabled',
+      {
+        user: twoSchoolAdmin,
+        body: { schoolId: DISABLED_SCHOOL },
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'a requested school the user has no part in',
+      {
+        user: owner,
+        query: { schoolId: OTHER_SCHOOL },
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'a resource of a disabled school',
+      {
+        user: twoSchoolAdmin,
+        metadata: {
+          [SCHOOL_RESOURCE_KEY]: {
+            entity: Invoice,
+            param: 'id',
+            schoolProperty: 'schoolId',
+          },
+        },
+        params: { id: RESOURCE_ID },
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+        resourceSchoolId: DISABLED_SCHOOL,
+      },
+      false,
+    ],
+    [
+      'a resource of an active school',
+      {
+        user: makeUser(
+          [
+            [AppRole.SCHOOL_ADMIN, ACTIVE_SCHOOL],
+            [AppRole.SCHOOL_ADMIN, DISABLED_SCHOOL],
+          ],
+          DISABLED_SCHOOL,
+        ),
+        metadata: {
+          [SCHOOL_RESOURCE_KEY]: {
+            entity: Invoice,
+            param: 'id',
+            schoolProperty: 'schoolId',
+          },
+        },
+        params: { id: RESOURCE_ID },
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+        resourceSchoolId: ACTIVE_SCHOOL,
+      },
+      true,
+    ],
+    [
+      'staff with no school when all their schools are disabled',
+      {
+        user: makeUser([[AppRole.SCHOOL_OWNER, null]]),
+        schools: { [DISABLED_SCHOOL]: true },
+      },
+      false,
+    ],
+    [
+      'staff with no school when one of their schools is active',
+      {
+        user: makeUser([[AppRole.SCHOOL_OWNER, null]]),
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+      },
+      true,
+    ],
+  ])('handles %s', async (_name, scenario, allowed) => {
+    if (allowed) {
+      await expect(run(scenario)).resolves.toBe(true);
+    } else {
+      await expect(run(scenario)).rejects.toBeInstanceOf(ForbiddenException);
+    }
+  });
+
+  it('leaves malformed resource IDs to the route', async () => {
+    await expect(
+      run({
+        user: twoSchoolAdmin,
+        metadata: {
+          [SCHOOL_RESOURCE_KEY]: {
+            entity: Invoice,
+            param: 'id',
+            schoolProperty: 'schoolId',
+          },
+        },
+        params: { id: 'not-a-uuid' },
+        schools: { [ACTIVE_SCHOOL]: false, [DISABLED_SCHOOL]: true },
+      }),
+    ).resolves.toBe(true);
+    expect(getRawOne).not.toHaveBeenCalled();
+  });
+
+  it('does not look up schools for users without staff roles', async () => {
+    await run({ user: makeUser([[AppRole.PARENT, null]]) });
+    expect(getRepository).not.toHaveBeenCalled();
+  });
+});
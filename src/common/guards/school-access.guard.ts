@@ -0,0 +1,172 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { isUUID } from 'class-validator';
+import { DataSource } from 'typeorm';
+import { AuthUser } from '../../modules/auth/interfaces/auth-user.interface';
+import { SchoolEntity } from '../../modules/schools/entities/school.entity';
+import { AppRole } from '../enums/app-role.enum';
+import {
+  BILLING_ACCESS_KEY,
+  BillingAccessFilter,
+} from '../decorators/billing-access.decorator';
+import {
+  SCHOOL_RESOURCE_KEY,
+  SchoolResourceOptions,
+} from '../decorators/school-resource.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+const STAFF_ROLES = [
+  AppRole.SCHOOL_OWNER,
+  AppRole.SCHOOL_ADMIN,
+  AppRole.ADMISSIONS_STAFF,
+  AppRole.TEACHER,
+];
+
+/**
+ * Blocks staff of a school whose access was disabled for an unpaid
+ * subscription, except on routes marked with @BillingAccess(). The school
+ * a request is for is the school of the resource a @SchoolResource() route
+ * acts on, else the schoolId it names when that is one of the user's
+ * schools, else the user's school; a request for no school is blocked when
+ * every school the user works at is disabled. Parents, including staff who
+ * are also parents on parent-only routes, and super admins are never
+ * blocked.
+ */
+@Injectable()
+export class SchoolAccessGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthUser }>();
+    const billingAccess = this.reflector.getAllAndOverride<
+      boolean | BillingAccessFilter | undefined
+    >(BILLING_ACCESS_KEY, [context.getHandler(), context.getClass()]);
+    const exempt =
+      typeof billingAccess === 'function'
+        ? billingAccess(request)
+        : !!billingAccess;
+    const isPublic = this.reflector.getAllAndOverride<boolean>('isPublic', [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (exempt || isPublic) {
+      return true;
+    }
+
+    const user = request.user;
+    if (!user || user.roles.some((role) => role.role === AppRole.SUPER_ADMIN)) {
+      return true;
+    }
+
+    const staffRoles = user.roles.filter((role) =>
+      STAFF_ROLES.includes(role.role),
+    );
+    if (staffRoles.length === 0) {
+      return true;
+    }
+
+    // A parent's own pages stay open when they also work at the school
+    const requiredRoles = this.reflector.getAllAndOverride<
+      AppRole[] | undefined
+    >(ROLES_KEY, [context.getHandler(), context.getClass()]);
+    if (
+      requiredRoles?.length &&
+      requiredRoles.every((role) => role === AppRole.PARENT) &&
+      user.roles.some((role) => role.role === AppRole.PARENT)
+    ) {
+      return true;
+    }
+
+    const schoolIds = new Set<string>();
+    if (user.schoolId) {
+      schoolIds.add(user.schoolId);
+    }
+    staffRoles.forEach((role) => {
+      if (role.schoolId) {
+        schoolIds.add(role.schoolId);
+      }
+    });
+
+    const query = this.dataSource
+      .getRepository(SchoolEntity)
+      .createQueryBuilder('school')
+      .select(['school.id', 'school.accessDisabled'])
+      .where('school.owner_id = :userId', { userId: user.id });
+    if (schoolIds.size > 0) {
+      query.orWhere('school.id IN (:...schoolIds)', {
+        schoolIds: [...schoolIds],
+      });
+    }
+    const schools = await query.getMany();
+    const disabled = new Set(
+      schools
+        .filter((school) => school.accessDisabled)
+        .map((school) => school.id),
+    );
+    if (disabled.size === 0) {
+      return true;
+    }
+
+    // A schoolId the user has no part in cannot lift the lockout, since
+    // most routes ignore it and act on the user's own school
+    const requested = this.findSchoolId(request);
+    const target =
+      (await this.findResourceSchoolId(context, request)) ??
+      (requested && schools.some((school) => school.id === requested)
+        ? requested
+        : user.schoolId);
+    const blocked = target
+      ? disabled.has(target)
+      : disabled.size === schools.length;
+    if (blocked) {
+      throw new ForbiddenException(
+        'Access to this school is disabled until its subscription is paid',
+      );
+    }
+    return true;
+  }
+
+  /**
+   * School of the resource named by the route's ID parameter, on routes
+   * marked with @SchoolResource()
+   */
+  private async findResourceSchoolId(
+    context: ExecutionContext,
+    request: Request,
+  ): Promise<string | null> {
+    const resource = this.reflector.getAllAndOverride<
+      SchoolResourceOptions | undefined
+    >(SCHOOL_RESOURCE_KEY, [context.getHandler(), context.getClass()]);
+    const id = resource ? request.params?.[resource.param] : undefined;
+    // Malformed IDs are left to the route's validation
+    if (!resource || !id || !isUUID(id)) {
+      return null;
+    }
+
+    const row = await this.dataSource
+      .getRepository(resource.entity)
+      .createQueryBuilder('resource')
+      .select(`resource.${resource.schoolProperty}`, 'schoolId')
+      .where('resource.id = :id', { id })
+      .getRawOne<{ schoolId: string | null }>();
+    return row?.schoolId ?? null;
+  }
+
+  private findSchoolId(request: Request): string | null {
+    const body = request.body as { schoolId?: unknown } | undefined;
+    const value: unknown =
+      request.params?.schoolId ?? request.query?.schoolId ?? body?.schoolId;
+    return typeof value === 'string' && value ? value : null;
+  }
+}
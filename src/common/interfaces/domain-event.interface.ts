@@ -0,0 +1,67 @@
+import { EmailTrackingEvent } from '../enums/email-tracking-event.enum';
+
+export interface LeadEventPayload {
+  leadId: string;
+  schoolId: string;
+  /** User who caused the event; null for public forms and background jobs */
+  userId?: string | null;
+}
+
+export interface LeadStatusChangedEvent extends LeadEventPayload {
+  previousStatus: string | null;
+  status: string;
+}
+
+export interface LeadScoreUpdatedEvent extends LeadEventPayload {
+  previousScore: number | null;
+  score: number | null;
+}
+
+export interface LeadTourScheduledEvent extends LeadEventPayload {
+  tourDate: Date;
+}
+
+export interface WaitlistEvent extends LeadEventPayload {
+  waitlistId: string;
+  program: string;
+}
+
+export interface EnrollmentCompletedEvent extends LeadEventPayload {
+  enrollmentId: string | null;
+}
+
+export interface ClassSeatOpenedEvent {
+  classId: string;
+  schoolId: string;
+  reason: 'withdrawal' | 'enrollment_count' | 'offer_declined';
+}
+
+export interface EmailTrackedEvent {
+  emailLogId: string;
+  event: EmailTrackingEvent;
+  occurredAt: Date;
+  recipientEmail: string;
+  schoolId: string | null;
+  /** Metadata the email was sent with, e.g. campaignId and leadId for campaign emails */
+  metadata: Record<string, any>;
+  /** Bounce or complaint reason reported by the provider */
+  reason?: string | null;
+}
+
+export interface InvoiceEvent {
+  invoiceId: string;
+  schoolId: string;
+  /** Invoice for invoices, LeadInvoice for lead_invoices */
+  source: 'invoice' | 'lead_invoice';
+  userId?: string | null;
+}
+
+export interface RefundProcessedEvent {
+  refundId: string;
+  schoolId: string;
+  invoiceId: string;
+  source: InvoiceEvent['source'];
+  /** Amount refunded, in cents */
+  amount: number;
+  userId?: string | null;
+}
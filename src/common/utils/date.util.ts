@@ -0,0 +1,27 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** UTC midnight of a date column value, which arrives as a string or a Date */
+export function toUtcDay(value: Date | string): number {
+  if (typeof value === 'string') {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  }
+  return Date.UTC(
+    value.getUTCFullYear(),
+    value.getUTCMonth(),
+    value.getUTCDate(),
+  );
+}
+
+/** YYYY-MM-DD of a date value or of a UTC midnight timestamp */
+export function toDateKey(value: Date | string | number): string {
+  return new Date(typeof value === 'number' ? value : toUtcDay(value))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** TypeORM writes date columns from the local date parts of a Date */
+export function toColumnDate(dateKey: string): Date {
+  const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
@@ -10,6 +10,9 @@ export default registerAs('app', () => ({
    */
   apiPrefix: process.env.API_PREFIX || 'api',
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:8080',
+  /** Public URL of this API, used for links that must reach the backend (e.g. email tracking) */
+  apiUrl:
+    process.env.API_URL || `http://localhost:${process.env.PORT || '3001'}`,
   corsOrigins: process.env.CORS_ORIGINS?.split(',') || [
     'http://localhost:5173',
     'http://localhost:3000',
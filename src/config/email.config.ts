@@ -9,4 +9,9 @@ export default registerAs('email', () => ({
   // Development/Test: onboarding@resend.dev (Resend test domain)
   fromEmail: process.env.EMAIL_FROM || 'notifications@notifications.mypreschoolpro.com',
   fromName: process.env.EMAIL_FROM_NAME || 'MyPreschoolPro',
+  // Signing secret of the Resend webhook (whsec_...)
+  resendWebhookSecret: process.env.RESEND_WEBHOOK_SECRET,
+  // Signs open/click tracking URLs; falls back to the JWT secret
+  trackingSecret: process.env.EMAIL_TRACKING_SECRET,
+  trackingEnabled: process.env.EMAIL_TRACKING_ENABLED !== 'false',
 }));
\ No newline at end of file
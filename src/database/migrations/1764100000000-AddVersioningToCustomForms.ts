@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVersioningToCustomForms1764100000000
+  implements MigrationInterface
+{
+  name = 'AddVersioningToCustomForms1764100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "custom_forms"
+      ADD COLUMN IF NOT EXISTS "version" integer NOT NULL DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS "parent_form_id" uuid NULL,
+      ADD COLUMN IF NOT EXISTS "published_at" timestamptz NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_custom_forms_parent_form_id"
+      ON "custom_forms" ("parent_form_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "idx_custom_forms_parent_form_id"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "custom_forms"
+      DROP COLUMN IF EXISTS "published_at",
+      DROP COLUMN IF EXISTS "parent_form_id",
+      DROP COLUMN IF EXISTS "version"
+    `);
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLeadMappingToCustomForms1764200000000
+  implements MigrationInterface
+{
+  name = 'AddLeadMappingToCustomForms1764200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "custom_forms"
+      ADD COLUMN IF NOT EXISTS "lead_field_mapping" jsonb NOT NULL DEFAULT '{}'
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "custom_form_submissions"
+      ADD COLUMN IF NOT EXISTS "lead_id" uuid NULL
+    `);
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint WHERE conname = 'fk_custom_form_submissions_lead'
+        ) THEN
+          ALTER TABLE "custom_form_submissions"
+          ADD CONSTRAINT "fk_custom_form_submissions_lead"
+          FOREIGN KEY ("lead_id") REFERENCES "leads"("id") ON DELETE SET NULL;
+        END IF;
+      END $$;
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_custom_form_submissions_lead_id"
+      ON "custom_form_submissions" ("lead_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "idx_custom_form_submissions_lead_id"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "custom_form_submissions"
+      DROP CONSTRAINT IF EXISTS "fk_custom_form_submissions_lead",
+      DROP COLUMN IF EXISTS "lead_id"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "custom_forms"
+      DROP COLUMN IF EXISTS "lead_field_mapping"
+    `);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCampaignDeliveryIndexes1764300000000
+  implements MigrationInterface
+{
+  name = 'AddCampaignDeliveryIndexes1764300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_campaign_queue_due"
+      ON "campaign_queue" ("status", "scheduled_for")
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "uq_campaign_recipients_campaign_lead_channel"
+      ON "campaign_recipients" ("campaign_id", "lead_id", "channel")
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "uq_campaign_results_campaign_channel"
+      ON "campaign_results" ("campaign_id", "channel")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "uq_campaign_results_campaign_channel"
+    `);
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "uq_campaign_recipients_campaign_lead_channel"
+    `);
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "idx_campaign_queue_due"
+    `);
+  }
+}
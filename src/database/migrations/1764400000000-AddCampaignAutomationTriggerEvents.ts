@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const NEW_TRIGGER_EVENTS = [
+  'lead_status_changed',
+  'tour_scheduled',
+  'waitlist_offer_sent',
+];
+
+export class AddCampaignAutomationTriggerEvents1764400000000
+  implements MigrationInterface
+{
+  name = 'AddCampaignAutomationTriggerEvents1764400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The enum type was created outside TypeORM, so look its name up from the column
+    for (const value of NEW_TRIGGER_EVENTS) {
+      await queryRunner.query(`
+        DO $$
+        DECLARE
+          enum_name text;
+        BEGIN
+          SELECT udt_name INTO enum_name
+          FROM information_schema.columns
+          WHERE table_name = 'campaign_automation'
+            AND column_name = 'trigger_event'
+            AND data_type = 'USER-DEFINED';
+
+          IF enum_name IS NOT NULL THEN
+            EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', enum_name, '${value}');
+          END IF;
+        END $$;
+      `);
+    }
+  }
+
+  public async down(): Promise<void> {
+    // Postgres cannot drop enum values; the extra values are left in place
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailLogResendIdIndex1764500000000
+  implements MigrationInterface
+{
+  name = 'AddEmailLogResendIdIndex1764500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Provider webhooks look the email log up by the Resend email ID
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS "idx_email_logs_resend_id"
+      ON "email_logs" (("metadata"->>'resend_id'))
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX IF EXISTS "idx_email_logs_resend_id"
+    `);
+  }
+}
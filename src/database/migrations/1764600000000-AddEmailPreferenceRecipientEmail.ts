@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailPreferenceRecipientEmail1764600000000
+  implements MigrationInterface
+{
+  name = 'AddEmailPreferenceRecipientEmail1764600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Preferences set through an unsubscribe link belong to an address, not a user
+    await queryRunner.query(`
+      ALTER TABLE email_preferences
+        ADD COLUMN IF NOT EXISTS email varchar(255),
+        ALTER COLUMN user_id DROP NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_email_preferences_email
+        ON email_preferences (email, school_id)
+        WHERE email IS NOT NULL
+    `);
+
+    // The enum type was created outside TypeORM, so look its name up from the column
+    for (const table of ['email_preferences', 'email_logs']) {
+      await queryRunner.query(`
+        DO $$
+        DECLARE
+          enum_name text;
+        BEGIN
+          SELECT udt_name INTO enum_name
+          FROM information_schema.columns
+          WHERE table_name = '${table}'
+            AND column_name = 'email_type'
+            AND data_type = 'USER-DEFINED';
+
+          IF enum_name IS NOT NULL THEN
+            EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', enum_name, 'marketing');
+          END IF;
+        END $$;
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_email_preferences_email`);
+    await queryRunner.query(
+      `DELETE FROM email_preferences WHERE user_id IS NULL`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE email_preferences
+        ALTER COLUMN user_id SET NOT NULL,
+        DROP COLUMN IF EXISTS email
+    `);
+    // Postgres cannot drop enum values; 'marketing' is left in place
+  }
+}
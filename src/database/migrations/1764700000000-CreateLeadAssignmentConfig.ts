@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLeadAssignmentConfig1764700000000
+  implements MigrationInterface
+{
+  name = 'CreateLeadAssignmentConfig1764700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS lead_assignment_config (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL UNIQUE REFERENCES schools(id) ON DELETE CASCADE,
+        strategy varchar(50) NOT NULL DEFAULT 'manual',
+        cycle_started_at timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_staff_assignment_rotation_school
+        ON staff_assignment_rotation (school_id, assignment_order)
+    `);
+    // Least-loaded assignment counts open leads per staff member
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_leads_assigned_to_status
+        ON leads (assigned_to, lead_status)
+        WHERE assigned_to IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_leads_assigned_to_status`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_staff_assignment_rotation_school`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS lead_assignment_config`);
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWaitlistOfferTracking1764800000000
+  implements MigrationInterface
+{
+  name = 'AddWaitlistOfferTracking1764800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The expiry job scans outstanding offers by expiry time
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_enrollment_queue_offer_expiry
+        ON enrollment_queue (offer_expires_at)
+        WHERE status = 'offered'
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_enrollment_queue_class_status
+        ON enrollment_queue (class_id, status)
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_automation_config_school_program
+        ON waitlist_automation_config (school_id, program)
+    `);
+
+    // The enum type was created outside TypeORM, so look its name up from the column
+    for (const table of ['email_preferences', 'email_logs']) {
+      await queryRunner.query(`
+        DO $$
+        DECLARE
+          enum_name text;
+        BEGIN
+          SELECT udt_name INTO enum_name
+          FROM information_schema.columns
+          WHERE table_name = '${table}'
+            AND column_name = 'email_type'
+            AND data_type = 'USER-DEFINED';
+
+          IF enum_name IS NOT NULL THEN
+            EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', enum_name, 'waitlist_offer');
+          END IF;
+        END $$;
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_waitlist_automation_config_school_program`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_enrollment_queue_class_status`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_enrollment_queue_offer_expiry`,
+    );
+    // Postgres cannot drop enum values; 'waitlist_offer' is left in place
+  }
+}
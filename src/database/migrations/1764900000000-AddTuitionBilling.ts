@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTuitionBilling1764900000000 implements MigrationInterface {
+  name = 'AddTuitionBilling1764900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'enrollment_billing_cycle_enum') THEN
+          CREATE TYPE enrollment_billing_cycle_enum AS ENUM ('weekly', 'biweekly', 'monthly');
+        END IF;
+      END $$;
+    `);
+    await queryRunner.query(`
+      ALTER TABLE enrollment
+        ADD COLUMN IF NOT EXISTS billing_cycle enrollment_billing_cycle_enum NOT NULL DEFAULT 'monthly'
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE invoices
+        ADD COLUMN IF NOT EXISTS enrollment_id uuid REFERENCES enrollment(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS billing_period_start date,
+        ADD COLUMN IF NOT EXISTS billing_period_end date
+    `);
+    // Scheduled billing runs have no acting user
+    await queryRunner.query(
+      `ALTER TABLE invoices ALTER COLUMN created_by DROP NOT NULL`,
+    );
+    // One tuition invoice per enrollment and period keeps re-runs from double-billing
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_enrollment_billing_period
+        ON invoices (enrollment_id, billing_period_start)
+        WHERE enrollment_id IS NOT NULL AND billing_period_start IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_invoices_enrollment_billing_period`,
+    );
+    // created_by stays nullable: generated invoices have no creator to restore
+    await queryRunner.query(`
+      ALTER TABLE invoices
+        DROP COLUMN IF EXISTS billing_period_end,
+        DROP COLUMN IF EXISTS billing_period_start,
+        DROP COLUMN IF EXISTS enrollment_id
+    `);
+    await queryRunner.query(
+      `ALTER TABLE enrollment DROP COLUMN IF EXISTS billing_cycle`,
+    );
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS enrollment_billing_cycle_enum`,
+    );
+  }
+}
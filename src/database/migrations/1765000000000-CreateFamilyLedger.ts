@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateFamilyLedger1765000000000 implements MigrationInterface {
+  name = 'CreateFamilyLedger1765000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS family_accounts (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        parent_email varchar(255) NOT NULL,
+        parent_id uuid,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (school_id, parent_email)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS family_ledger_entries (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        family_account_id uuid NOT NULL REFERENCES family_accounts(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        entry_type varchar(50) NOT NULL,
+        debit_account varchar(50) NOT NULL,
+        credit_account varchar(50) NOT NULL,
+        amount integer NOT NULL CHECK (amount > 0),
+        description text NOT NULL,
+        source_type varchar(50),
+        source_id uuid,
+        effective_at timestamptz NOT NULL DEFAULT now(),
+        created_by uuid,
+        metadata jsonb,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_family_ledger_entries_account_effective
+        ON family_ledger_entries (family_account_id, effective_at)
+    `);
+    // Posting a source document twice is a no-op
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_family_ledger_entries_source
+        ON family_ledger_entries (entry_type, source_type, source_id)
+        WHERE source_id IS NOT NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS family_ledger_entries`);
+    await queryRunner.query(`DROP TABLE IF EXISTS family_accounts`);
+  }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLateFeesAndDunning1765100000000 implements MigrationInterface {
+  name = 'AddLateFeesAndDunning1765100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS late_fee_policies (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL UNIQUE REFERENCES schools(id) ON DELETE CASCADE,
+        late_fees_enabled boolean NOT NULL DEFAULT false,
+        fee_type varchar(20) NOT NULL DEFAULT 'flat',
+        flat_amount integer NOT NULL DEFAULT 0,
+        percentage numeric(5,2) NOT NULL DEFAULT 0,
+        grace_days integer NOT NULL DEFAULT 0,
+        max_fee_amount integer,
+        dunning_enabled boolean NOT NULL DEFAULT false,
+        dunning_schedule jsonb NOT NULL DEFAULT '[]',
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS invoice_dunning_notices (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        family_account_id uuid REFERENCES family_accounts(id) ON DELETE SET NULL,
+        level varchar(20) NOT NULL,
+        days_overdue integer NOT NULL,
+        recipient_email varchar(255),
+        amount_due integer NOT NULL,
+        delivered boolean NOT NULL DEFAULT false,
+        account_flagged boolean NOT NULL DEFAULT false,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (invoice_id, days_overdue)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_invoice_dunning_notices_school_created
+        ON invoice_dunning_notices (school_id, created_at)
+    `);
+    await queryRunner.query(`
+      ALTER TABLE family_accounts
+        ADD COLUMN IF NOT EXISTS flagged_at timestamptz,
+        ADD COLUMN IF NOT EXISTS flag_reason text
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE family_accounts
+        DROP COLUMN IF EXISTS flag_reason,
+        DROP COLUMN IF EXISTS flagged_at
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS invoice_dunning_notices`);
+    await queryRunner.query(`DROP TABLE IF EXISTS late_fee_policies`);
+  }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDiscountRules1765200000000 implements MigrationInterface {
+  name = 'CreateDiscountRules1765200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS discount_rules (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        name varchar(255) NOT NULL,
+        rule_type varchar(20) NOT NULL,
+        value_type varchar(20) NOT NULL DEFAULT 'percentage',
+        percentage numeric(5,2) NOT NULL DEFAULT 0,
+        flat_amount integer NOT NULL DEFAULT 0,
+        active boolean NOT NULL DEFAULT true,
+        stackable boolean NOT NULL DEFAULT true,
+        programs jsonb,
+        sibling_position integer,
+        min_programs integer,
+        promo_code varchar(50),
+        max_redemptions integer,
+        valid_from date,
+        valid_until date,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_discount_rules_school_active
+        ON discount_rules (school_id, active)
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_discount_rules_school_promo_code
+        ON discount_rules (school_id, promo_code)
+        WHERE promo_code IS NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS discount_redemptions (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        discount_rule_id uuid NOT NULL REFERENCES discount_rules(id) ON DELETE CASCADE,
+        enrollment_id uuid NOT NULL REFERENCES enrollment(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        redeemed_by uuid,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (discount_rule_id, enrollment_id)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_discount_redemptions_enrollment
+        ON discount_redemptions (enrollment_id)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS discount_redemptions`);
+    await queryRunner.query(`DROP TABLE IF EXISTS discount_rules`);
+  }
+}
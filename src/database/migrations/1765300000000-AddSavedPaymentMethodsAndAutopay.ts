@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSavedPaymentMethodsAndAutopay1765300000000
+  implements MigrationInterface
+{
+  name = 'AddSavedPaymentMethodsAndAutopay1765300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS saved_payment_methods (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+        provider varchar(20) NOT NULL,
+        provider_customer_id varchar(255) NOT NULL,
+        provider_payment_method_id varchar(255) NOT NULL,
+        brand varchar(50),
+        last4 varchar(4),
+        exp_month integer,
+        exp_year integer,
+        is_default boolean NOT NULL DEFAULT false,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (user_id, provider, provider_payment_method_id)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS uq_saved_payment_methods_default
+        ON saved_payment_methods (user_id)
+        WHERE is_default
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS autopay_enrollments (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        email varchar(255) NOT NULL,
+        payment_method_id uuid REFERENCES saved_payment_methods(id) ON DELETE SET NULL,
+        active boolean NOT NULL DEFAULT true,
+        enrolled_at timestamptz NOT NULL DEFAULT now(),
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (user_id, school_id)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS autopay_attempts (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        autopay_enrollment_id uuid NOT NULL REFERENCES autopay_enrollments(id) ON DELETE CASCADE,
+        payment_method_id uuid REFERENCES saved_payment_methods(id) ON DELETE SET NULL,
+        attempt integer NOT NULL,
+        amount integer NOT NULL,
+        status varchar(20) NOT NULL DEFAULT 'processing',
+        transaction_id uuid,
+        error_message text,
+        next_retry_at timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (invoice_id, attempt)
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_autopay_attempts_school_created
+        ON autopay_attempts (school_id, created_at)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS autopay_attempts`);
+    await queryRunner.query(`DROP TABLE IF EXISTS autopay_enrollments`);
+    await queryRunner.query(`DROP TABLE IF EXISTS saved_payment_methods`);
+  }
+}
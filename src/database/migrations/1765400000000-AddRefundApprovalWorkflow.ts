@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefundApprovalWorkflow1765400000000
+  implements MigrationInterface
+{
+  name = 'AddRefundApprovalWorkflow1765400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE refunds
+        ADD COLUMN IF NOT EXISTS school_id uuid REFERENCES schools(id) ON DELETE CASCADE,
+        ADD COLUMN IF NOT EXISTS invoice_id uuid,
+        ADD COLUMN IF NOT EXISTS invoice_source varchar(20),
+        ADD COLUMN IF NOT EXISTS provider varchar(20),
+        ADD COLUMN IF NOT EXISTS processed_at timestamptz,
+        ADD COLUMN IF NOT EXISTS review_note text,
+        ADD COLUMN IF NOT EXISTS error_message text
+    `);
+    // Requests have no provider refund until they are approved
+    await queryRunner.query(`
+      ALTER TABLE refunds ALTER COLUMN stripe_refund_id DROP NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_refunds_school_status
+        ON refunds (school_id, status)
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_refunds_transaction
+        ON refunds (transaction_id)
+    `);
+
+    // The enum type was created outside TypeORM, so look its name up from the column
+    for (const value of ['approved', 'rejected']) {
+      await queryRunner.query(`
+        DO $$
+        DECLARE
+          enum_name text;
+        BEGIN
+          SELECT udt_name INTO enum_name
+          FROM information_schema.columns
+          WHERE table_name = 'refunds'
+            AND column_name = 'status'
+            AND data_type = 'USER-DEFINED';
+
+          IF enum_name IS NOT NULL THEN
+            EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', enum_name, '${value}');
+          END IF;
+        END $$;
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_refunds_transaction`);
+    await queryRunner.query(`DROP INDEX IF EXISTS idx_refunds_school_status`);
+    await queryRunner.query(`
+      ALTER TABLE refunds
+        DROP COLUMN IF EXISTS error_message,
+        DROP COLUMN IF EXISTS review_note,
+        DROP COLUMN IF EXISTS processed_at,
+        DROP COLUMN IF EXISTS provider,
+        DROP COLUMN IF EXISTS invoice_source,
+        DROP COLUMN IF EXISTS invoice_id,
+        DROP COLUMN IF EXISTS school_id
+    `);
+    // Postgres cannot drop enum values; 'approved' and 'rejected' are left in place
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePaymentWebhookEvents1765500000000
+  implements MigrationInterface
+{
+  name = 'CreatePaymentWebhookEvents1765500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payment_webhook_events (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider varchar(20) NOT NULL,
+        event_id varchar(255) NOT NULL,
+        event_type varchar(100) NOT NULL,
+        object_id varchar(255),
+        occurred_at timestamptz NOT NULL,
+        status varchar(20) NOT NULL DEFAULT 'pending',
+        attempts integer NOT NULL DEFAULT 0,
+        last_error text,
+        processed_at timestamptz,
+        payload jsonb NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (provider, event_id)
+      )
+    `);
+    // Ordering checks look up the latest events for the same payment
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_object
+        ON payment_webhook_events (provider, object_id, occurred_at)
+        WHERE object_id IS NOT NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status_created
+        ON payment_webhook_events (status, created_at)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS payment_webhook_events`);
+  }
+}
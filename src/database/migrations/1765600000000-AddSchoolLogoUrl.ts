@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSchoolLogoUrl1765600000000 implements MigrationInterface {
+  name = 'AddSchoolLogoUrl1765600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE schools ADD COLUMN IF NOT EXISTS logo_url text
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE schools DROP COLUMN IF EXISTS logo_url
+    `);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaxStatements1765700000000 implements MigrationInterface {
+  name = 'CreateTaxStatements1765700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE schools ADD COLUMN IF NOT EXISTS tax_id text`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS tax_statements (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        year integer NOT NULL,
+        parent_email varchar(255) NOT NULL,
+        parent_id uuid,
+        parent_name varchar(255),
+        total_amount integer NOT NULL,
+        children jsonb NOT NULL DEFAULT '[]',
+        lines jsonb NOT NULL DEFAULT '[]',
+        emailed_at timestamptz,
+        email_error text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (school_id, year, parent_email)
+      )
+    `);
+    // Parents look up their statements by email
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_tax_statements_parent_email
+        ON tax_statements (parent_email, year)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS tax_statements`);
+    await queryRunner.query(`ALTER TABLE schools DROP COLUMN IF EXISTS tax_id`);
+  }
+}
@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePayerBilling1765800000000 implements MigrationInterface {
+  name = 'CreatePayerBilling1765800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payer_accounts (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        name varchar(255) NOT NULL,
+        payer_type varchar(20) NOT NULL,
+        contact_name varchar(255),
+        email varchar(255),
+        phone varchar(50),
+        address text,
+        provider_number varchar(100),
+        payment_terms_days integer NOT NULL DEFAULT 30,
+        active boolean NOT NULL DEFAULT true,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_payer_accounts_school
+        ON payer_accounts (school_id)
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS enrollment_payers (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        payer_account_id uuid NOT NULL REFERENCES payer_accounts(id) ON DELETE CASCADE,
+        enrollment_id uuid NOT NULL REFERENCES enrollment(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL,
+        split_type varchar(20) NOT NULL,
+        percentage decimal(5,2) NOT NULL DEFAULT 0,
+        fixed_amount integer NOT NULL DEFAULT 0,
+        authorization_number varchar(100),
+        active boolean NOT NULL DEFAULT true,
+        valid_from date,
+        valid_until date,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    // Tuition billing looks up the payers of each enrollment it invoices
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_enrollment_payers_enrollment
+        ON enrollment_payers (enrollment_id)
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payer_invoices (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_number varchar(100) NOT NULL UNIQUE,
+        payer_account_id uuid NOT NULL REFERENCES payer_accounts(id) ON DELETE CASCADE,
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        period_start date NOT NULL,
+        period_end date NOT NULL,
+        amount integer NOT NULL,
+        paid_amount integer NOT NULL DEFAULT 0,
+        status varchar(20) NOT NULL DEFAULT 'pending',
+        due_date date NOT NULL,
+        payment_date timestamptz,
+        payment_reference varchar(255),
+        notes text,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (payer_account_id, period_start)
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS payer_charges (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        payer_account_id uuid NOT NULL REFERENCES payer_accounts(id) ON DELETE CASCADE,
+        enrollment_payer_id uuid NOT NULL,
+        enrollment_id uuid NOT NULL,
+        school_id uuid NOT NULL,
+        invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+        payer_invoice_id uuid REFERENCES payer_invoices(id) ON DELETE SET NULL,
+        period_start date NOT NULL,
+        period_end date NOT NULL,
+        amount integer NOT NULL,
+        child_name varchar(255),
+        program varchar(255) NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (invoice_id, enrollment_payer_id)
+      )
+    `);
+    // Payer invoice generation scans the unbilled charges of a month
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_payer_charges_unbilled
+        ON payer_charges (school_id, period_start)
+        WHERE payer_invoice_id IS NULL
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_payer_charges_payer_invoice
+        ON payer_charges (payer_invoice_id)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS payer_charges`);
+    await queryRunner.query(`DROP TABLE IF EXISTS payer_invoices`);
+    await queryRunner.query(`DROP TABLE IF EXISTS enrollment_payers`);
+    await queryRunner.query(`DROP TABLE IF EXISTS payer_accounts`);
+  }
+}
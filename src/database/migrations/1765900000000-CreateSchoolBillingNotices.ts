@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSchoolBillingNotices1765900000000
+  implements MigrationInterface
+{
+  name = 'CreateSchoolBillingNotices1765900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS school_billing_notices (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        school_id uuid NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+        due_date timestamptz NOT NULL,
+        level varchar(20) NOT NULL,
+        days_overdue integer NOT NULL,
+        recipient_email varchar(255),
+        amount_due integer NOT NULL,
+        delivered boolean NOT NULL DEFAULT false,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now(),
+        UNIQUE (school_id, due_date, level)
+      )
+    `);
+    // The daily dunning run looks for schools past their due date
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_schools_next_payment_due
+        ON schools (next_payment_due)
+        WHERE access_disabled = false
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_schools_next_payment_due`,
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS school_billing_notices`);
+  }
+}
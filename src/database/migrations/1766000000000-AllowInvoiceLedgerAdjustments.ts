@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AllowInvoiceLedgerAdjustments1766000000000
+  implements MigrationInterface
+{
+  name = 'AllowInvoiceLedgerAdjustments1766000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // An invoice edited more than once gets an adjustment for every edit
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_family_ledger_entries_source`,
+    );
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_family_ledger_entries_source
+        ON family_ledger_entries (entry_type, source_type, source_id)
+        WHERE source_id IS NOT NULL AND source_type <> 'invoice_adjustment'
+    `);
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_family_ledger_entries_source_id
+        ON family_ledger_entries (source_id)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM family_ledger_entries WHERE source_type = 'invoice_adjustment'`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_family_ledger_entries_source_id`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS idx_family_ledger_entries_source`,
+    );
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_family_ledger_entries_source
+        ON family_ledger_entries (entry_type, source_type, source_id)
+        WHERE source_id IS NOT NULL
+    `);
+  }
+}
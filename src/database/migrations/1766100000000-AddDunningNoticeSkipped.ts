@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDunningNoticeSkipped1766100000000
+  implements MigrationInterface
+{
+  name = 'AddDunningNoticeSkipped1766100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE invoice_dunning_notices
+        ADD COLUMN IF NOT EXISTS skipped boolean NOT NULL DEFAULT false
+    `);
+    // Undelivered steps without a recipient were waiting on a parent email
+    await queryRunner.query(`
+      UPDATE invoice_dunning_notices
+        SET skipped = true
+        WHERE delivered = false AND recipient_email IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE invoice_dunning_notices DROP COLUMN IF EXISTS skipped`,
+    );
+  }
+}
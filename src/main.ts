@@ -9,6 +9,8 @@ import helmet from 'helmet';
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
+    // Webhook signature checks need the unparsed request body
+    rawBody: true,
   });
 
   const configService = app.get(ConfigService);
@@ -289,6 +289,11 @@ export class AnalyticsController {
           campaign_id: { type: 'string' },
           campaign_name: { type: 'string' },
           total_sent: { type: 'number' },
+          total_opened: { type: 'number' },
+          total_clicked: { type: 'number' },
+          total_bounced: { type: 'number' },
+          open_rate: { type: 'number' },
+          click_rate: { type: 'number' },
           leads_generated: { type: 'number' },
           waitlist_conversions: { type: 'number' },
           enrollment_conversions: { type: 'number' },
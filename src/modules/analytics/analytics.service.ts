@@ -51,6 +51,11 @@ export interface CampaignConversionData {
   campaign_id: string;
   campaign_name: string;
   total_sent: number;
+  total_opened: number;
+  total_clicked: number;
+  total_bounced: number;
+  open_rate: number;
+  click_rate: number;
   leads_generated: number;
   waitlist_conversions: number;
   enrollment_conversions: number;
@@ -806,35 +811,43 @@ Return ONLY valid JSON in this exact structure:
         relations: ['lead'],
       });
 
-      const totalSent = recipients.length;
-      const leadsGenerated = recipients.filter((r) => r.lead).length;
+      // Only recipients the campaign actually reached count as sent
+      const sentRecipients = recipients.filter((r) => r.sentAt);
+      const totalSent = sentRecipients.length;
+      const totalOpened = sentRecipients.filter((r) => r.openedAt).length;
+      const totalClicked = sentRecipients.filter((r) => r.clickedAt).length;
+      const totalBounced = sentRecipients.filter((r) => r.bouncedAt).length;
+      const leadsGenerated = sentRecipients.filter((r) => r.lead).length;
+      const leadIds = sentRecipients.map((r) => r.leadId);
 
       // Count waitlist conversions (leads that went to waitlist after campaign)
-      const waitlistConversions = await this.waitlistRepository
-        .createQueryBuilder('waitlist')
-        .innerJoin('waitlist.lead', 'lead')
-        .where('waitlist.schoolId = :schoolId', { schoolId })
-        .andWhere('lead.id IN (:...leadIds)', {
-          leadIds: recipients.map((r) => r.leadId),
-        })
-        .andWhere('waitlist.createdAt >= :campaignSentAt', {
-          campaignSentAt: campaign.sentAt || campaign.createdAt,
-        })
-        .getCount();
+      const waitlistConversions = leadIds.length
+        ? await this.waitlistRepository
+            .createQueryBuilder('waitlist')
+            .innerJoin('waitlist.lead', 'lead')
+            .where('waitlist.schoolId = :schoolId', { schoolId })
+            .andWhere('lead.id IN (:...leadIds)', { leadIds })
+            .andWhere('waitlist.createdAt >= :campaignSentAt', {
+              campaignSentAt: campaign.sentAt || campaign.createdAt,
+            })
+            .getCount()
+        : 0;
 
       // Count enrollment conversions
-      const enrollmentConversions = await this.enrollmentRepository
-        .createQueryBuilder('enrollment')
-        .innerJoin('enrollment.lead', 'lead')
-        .where('enrollment.schoolId = :schoolId', { schoolId })
-        .andWhere('lead.id IN (:...leadIds)', {
-          leadIds: recipients.map((r) => r.leadId),
-        })
-        .andWhere('enrollment.createdAt >= :campaignSentAt', {
-          campaignSentAt: campaign.sentAt || campaign.createdAt,
-        })
-        .getCount();
+      const enrollmentConversions = leadIds.length
+        ? await this.enrollmentRepository
+            .createQueryBuilder('enrollment')
+            .innerJoin('enrollment.lead', 'lead')
+            .where('enrollment.schoolId = :schoolId', { schoolId })
+            .andWhere('lead.id IN (:...leadIds)', { leadIds })
+            .andWhere('enrollment.createdAt >= :campaignSentAt', {
+              campaignSentAt: campaign.sentAt || campaign.createdAt,
+            })
+            .getCount()
+        : 0;
 
+      const openRate = totalSent > 0 ? (totalOpened / totalSent) * 100 : 0;
+      const clickRate = totalSent > 0 ? (totalClicked / totalSent) * 100 : 0;
       const leadConversionRate =
         totalSent > 0 ? (leadsGenerated / totalSent) * 100 : 0;
       const waitlistConversionRate =
@@ -848,6 +861,11 @@ Return ONLY valid JSON in this exact structure:
         campaign_id: campaign.id,
         campaign_name: campaign.name,
         total_sent: totalSent,
+        total_opened: totalOpened,
+        total_clicked: totalClicked,
+        total_bounced: totalBounced,
+        open_rate: openRate,
+        click_rate: clickRate,
         leads_generated: leadsGenerated,
         waitlist_conversions: waitlistConversions,
         enrollment_conversions: enrollmentConversions,
@@ -22,6 +22,7 @@ import { AuthService } from './auth.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { Public } from '../../common/decorators/public.decorator';
+import { BillingAccess } from '../../common/decorators/billing-access.decorator';
 import type { AuthUser } from './interfaces/auth-user.interface';
 import { UserResponseDto } from './dto/user-response.dto';
 import { RegisterDto } from './dto/register.dto';
@@ -29,6 +30,7 @@ import { LoginDto } from './dto/login.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
 
 @ApiTags('Authentication')
+@BillingAccess()
 @Controller('auth')
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
@@ -0,0 +1,43 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { BlogsService } from './blogs.service';
+import {
+  BLOG_PUBLISHING_QUEUE,
+  PUBLISH_SCHEDULED_BLOGS_JOB,
+} from './blogs.constants';
+
+const PUBLISH_CRON = '* * * * *';
+
+/**
+ * Publishes scheduled blogs at the start of every minute
+ */
+@Processor(BLOG_PUBLISHING_QUEUE)
+export class BlogPublishingProcessor implements OnModuleInit {
+  private readonly logger = new Logger(BlogPublishingProcessor.name);
+
+  constructor(
+    @InjectQueue(BLOG_PUBLISHING_QUEUE)
+    private readonly publishingQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly blogsService: BlogsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.publishingQueue,
+      PUBLISH_SCHEDULED_BLOGS_JOB,
+      { cron: PUBLISH_CRON },
+    );
+  }
+
+  @Process(PUBLISH_SCHEDULED_BLOGS_JOB)
+  async publishScheduled(): Promise<{ publishedCount: number }> {
+    const { publishedCount } = await this.blogsService.publishScheduledBlogs();
+    if (publishedCount > 0) {
+      this.logger.log(`Published ${publishedCount} scheduled blogs`);
+    }
+    return { publishedCount };
+  }
+}
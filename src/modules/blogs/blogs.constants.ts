@@ -0,0 +1,4 @@
+export const BLOG_PUBLISHING_QUEUE = 'blog-publishing';
+
+/** Repeatable job that publishes scheduled blogs whose publish time has come */
+export const PUBLISH_SCHEDULED_BLOGS_JOB = 'publish-scheduled-blogs';
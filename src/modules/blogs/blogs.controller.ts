@@ -322,7 +322,7 @@ export class BlogsController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Publish scheduled blogs',
-    description: 'Publish all scheduled blogs that are ready. Only admins can trigger this.',
+    description: 'Publish all scheduled blogs that are ready now instead of waiting for the scheduled job, which runs every minute. Only admins can trigger this.',
   })
   @ApiResponse({
     status: 200,
@@ -1,15 +1,19 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { Blog } from './entities/blog.entity';
 import { BlogsService } from './blogs.service';
 import { BlogsController } from './blogs.controller';
+import { BlogPublishingProcessor } from './blog-publishing.processor';
+import { BLOG_PUBLISHING_QUEUE } from './blogs.constants';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Blog])],
+  imports: [
+    TypeOrmModule.forFeature([Blog]),
+    BullModule.registerQueue({ name: BLOG_PUBLISHING_QUEUE }),
+  ],
   controllers: [BlogsController],
-  providers: [BlogsService],
+  providers: [BlogsService, BlogPublishingProcessor],
   exports: [BlogsService],
 })
 export class BlogsModule {}
-
-
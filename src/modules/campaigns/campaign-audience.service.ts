@@ -0,0 +1,292 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Brackets,
+  Repository,
+  SelectQueryBuilder,
+  WhereExpressionBuilder,
+} from 'typeorm';
+import { Campaign } from './entities/campaign.entity';
+import { CampaignSegment } from './entities/campaign-segment.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import {
+  NumberRange,
+  SegmentCriteria,
+} from './interfaces/segment-criteria.interface';
+
+export interface AudiencePreview {
+  total: number;
+  withEmail: number;
+  sample: LeadEntity[];
+}
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? [value] : [];
+};
+
+const toRange = (value: unknown): NumberRange => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const { min, max } = value as Record<string, unknown>;
+  return {
+    min: typeof min === 'number' && Number.isFinite(min) ? min : undefined,
+    max: typeof max === 'number' && Number.isFinite(max) ? max : undefined,
+  };
+};
+
+/**
+ * Resolves the leads a campaign is sent to from its segments. Conditions within
+ * a segment are combined with AND, segments with OR. Without segments the
+ * campaign's targetAudience is read as a single segment.
+ */
+@Injectable()
+export class CampaignAudienceService {
+  constructor(
+    @InjectRepository(CampaignSegment)
+    private readonly segmentRepository: Repository<CampaignSegment>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+  ) {}
+
+  async resolveLeads(campaign: Campaign): Promise<LeadEntity[]> {
+    const criteriaList = await this.getCampaignCriteria(campaign);
+    return this.buildQuery(campaign.schoolId, criteriaList)
+      .orderBy('lead.created_at', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Count the leads matching the given criteria (or the campaign's saved segments)
+   * and return a sample of them
+   */
+  async preview(
+    campaign: Campaign,
+    criteria?: SegmentCriteria,
+    sampleSize = 10,
+  ): Promise<AudiencePreview> {
+    const criteriaList = criteria
+      ? [criteria]
+      : await this.getCampaignCriteria(campaign);
+
+    const total = await this.buildQuery(
+      campaign.schoolId,
+      criteriaList,
+    ).getCount();
+    const withEmail = await this.buildQuery(campaign.schoolId, criteriaList)
+      .andWhere("COALESCE(lead.parent_email, '') <> ''")
+      .getCount();
+    const sample = sampleSize
+      ? await this.buildQuery(campaign.schoolId, criteriaList)
+          .orderBy('lead.created_at', 'DESC')
+          .take(sampleSize)
+          .getMany()
+      : [];
+
+    return { total, withEmail, sample };
+  }
+
+  /**
+   * Whether a single lead currently meets the criteria
+   */
+  async matchesLead(
+    schoolId: string,
+    leadId: string,
+    criteria: SegmentCriteria,
+  ): Promise<boolean> {
+    const count = await this.buildQuery(schoolId, [criteria])
+      .andWhere('lead.id = :leadId', { leadId })
+      .getCount();
+    return count > 0;
+  }
+
+  private async getCampaignCriteria(
+    campaign: Campaign,
+  ): Promise<SegmentCriteria[]> {
+    const segments = await this.segmentRepository.find({
+      where: { campaignId: campaign.id },
+      order: { createdAt: 'ASC' },
+    });
+
+    return segments.length
+      ? segments.map((segment) => segment.segmentCriteria ?? {})
+      : [campaign.targetAudience ?? {}];
+  }
+
+  private buildQuery(
+    schoolId: string,
+    criteriaList: SegmentCriteria[],
+  ): SelectQueryBuilder<LeadEntity> {
+    const queryBuilder = this.leadRepository
+      .createQueryBuilder('lead')
+      .where('lead.school_id = :schoolId', { schoolId });
+
+    queryBuilder.andWhere(
+      new Brackets((audience) => {
+        criteriaList.forEach((criteria, index) => {
+          audience.orWhere(
+            new Brackets((segment) =>
+              this.applyCriteria(segment, criteria, `s${index}`),
+            ),
+          );
+        });
+      }),
+    );
+
+    return queryBuilder;
+  }
+
+  private applyCriteria(
+    where: WhereExpressionBuilder,
+    criteria: SegmentCriteria,
+    prefix: string,
+  ): void {
+    where.where('1 = 1');
+
+    this.applyList(
+      where,
+      'lead.lead_status',
+      criteria.leadStatuses,
+      `${prefix}Status`,
+    );
+    this.applyList(
+      where,
+      'lead.lead_source_new',
+      criteria.leadSources,
+      `${prefix}Source`,
+    );
+    this.applyList(
+      where,
+      'lead.program',
+      criteria.programs,
+      `${prefix}Program`,
+    );
+    this.applyRange(
+      where,
+      'COALESCE(lead.lead_score, 0)',
+      criteria.leadScore,
+      `${prefix}Score`,
+    );
+
+    const zipCodes = toList(criteria.zipCodes);
+    if (zipCodes.length) {
+      where.andWhere(
+        new Brackets((zip) => {
+          zipCodes.forEach((zipCode, index) => {
+            const parameter = `${prefix}Zip${index}`;
+            if (zipCode.endsWith('*')) {
+              zip.orWhere(`lead.zip_code LIKE :${parameter}`, {
+                [parameter]: `${zipCode.slice(0, -1).replace(/[%_]/g, '')}%`,
+              });
+            } else {
+              zip.orWhere(`lead.zip_code = :${parameter}`, {
+                [parameter]: zipCode,
+              });
+            }
+          });
+        }),
+      );
+    }
+
+    // Age in whole months: older than min months and younger than max + 1 months
+    const age = toRange(criteria.childAgeMonths);
+    if (age.min !== undefined) {
+      where.andWhere(
+        `lead.child_birthdate <= CURRENT_DATE - make_interval(months => :${prefix}AgeMin)`,
+        { [`${prefix}AgeMin`]: Math.floor(age.min) },
+      );
+    }
+    if (age.max !== undefined) {
+      where.andWhere(
+        `lead.child_birthdate > CURRENT_DATE - make_interval(months => :${prefix}AgeMax)`,
+        { [`${prefix}AgeMax`]: Math.floor(age.max) + 1 },
+      );
+    }
+
+    const inactivity = toRange(criteria.daysSinceLastActivity);
+    const lastActivity = 'COALESCE(lead.last_activity_at, lead.created_at)';
+    if (inactivity.min !== undefined) {
+      where.andWhere(
+        `${lastActivity} <= NOW() - make_interval(days => :${prefix}IdleMin)`,
+        { [`${prefix}IdleMin`]: Math.floor(inactivity.min) },
+      );
+    }
+    if (inactivity.max !== undefined) {
+      where.andWhere(
+        `${lastActivity} > NOW() - make_interval(days => :${prefix}IdleMax)`,
+        { [`${prefix}IdleMax`]: Math.floor(inactivity.max) + 1 },
+      );
+    }
+
+    const enrollmentStatuses = toList(criteria.enrollmentStatuses);
+    if (enrollmentStatuses.length) {
+      where.andWhere(
+        `EXISTS (SELECT 1 FROM enrollment e WHERE e.lead_id = lead.id AND e.status IN (:...${prefix}Enrollment))`,
+        { [`${prefix}Enrollment`]: enrollmentStatuses },
+      );
+    }
+
+    const waitlistStatuses = toList(criteria.waitlistStatuses);
+    const position = toRange(criteria.waitlistPosition);
+    if (
+      waitlistStatuses.length ||
+      position.min !== undefined ||
+      position.max !== undefined
+    ) {
+      const conditions = ['w.lead_id = lead.id'];
+      const parameters: Record<string, unknown> = {};
+      if (waitlistStatuses.length) {
+        conditions.push(`w.status IN (:...${prefix}Waitlist)`);
+        parameters[`${prefix}Waitlist`] = waitlistStatuses;
+      }
+      if (position.min !== undefined) {
+        conditions.push(`w.waitlist_position >= :${prefix}PositionMin`);
+        parameters[`${prefix}PositionMin`] = position.min;
+      }
+      if (position.max !== undefined) {
+        conditions.push(`w.waitlist_position <= :${prefix}PositionMax`);
+        parameters[`${prefix}PositionMax`] = position.max;
+      }
+      where.andWhere(
+        `EXISTS (SELECT 1 FROM waitlist w WHERE ${conditions.join(' AND ')})`,
+        parameters,
+      );
+    }
+  }
+
+  private applyList(
+    where: WhereExpressionBuilder,
+    column: string,
+    value: unknown,
+    parameter: string,
+  ): void {
+    const values = toList(value);
+    if (values.length) {
+      where.andWhere(`${column} IN (:...${parameter})`, {
+        [parameter]: values,
+      });
+    }
+  }
+
+  private applyRange(
+    where: WhereExpressionBuilder,
+    expression: string,
+    value: unknown,
+    parameter: string,
+  ): void {
+    const range = toRange(value);
+    if (range.min !== undefined) {
+      where.andWhere(`${expression} >= :${parameter}Min`, {
+        [`${parameter}Min`]: range.min,
+      });
+    }
+    if (range.max !== undefined) {
+      where.andWhere(`${expression} <= :${parameter}Max`, {
+        [`${parameter}Max`]: range.max,
+      });
+    }
+  }
+}
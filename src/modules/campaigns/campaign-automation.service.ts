@@ -0,0 +1,317 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import {
+  CampaignAutomation,
+  CampaignTriggerEvent,
+} from './entities/campaign-automation.entity';
+import { Campaign } from './entities/campaign.entity';
+import { CampaignAuditLog } from './entities/campaign-audit-log.entity';
+import { CampaignAudienceService } from './campaign-audience.service';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import { CreateCampaignAutomationDto } from './dto/create-campaign-automation.dto';
+import { UpdateCampaignAutomationDto } from './dto/update-campaign-automation.dto';
+import { AutomationTriggerConditions } from './interfaces/automation-trigger-conditions.interface';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { CampaignStatus } from '../../common/enums/campaign-status.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type {
+  EnrollmentCompletedEvent,
+  LeadEventPayload,
+  LeadScoreUpdatedEvent,
+  LeadStatusChangedEvent,
+  LeadTourScheduledEvent,
+  WaitlistEvent,
+} from '../../common/interfaces/domain-event.interface';
+
+// Templates in these statuses do not send automated messages
+const HALTED_STATUSES = [CampaignStatus.PAUSED, CampaignStatus.CANCELLED];
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Manages campaign automations and fires them from domain events: when a
+ * matching lead event arrives, the template campaign is queued for that lead
+ * after the automation's delay.
+ */
+@Injectable()
+export class CampaignAutomationService {
+  private readonly logger = new Logger(CampaignAutomationService.name);
+
+  constructor(
+    @InjectRepository(CampaignAutomation)
+    private readonly automationRepository: Repository<CampaignAutomation>,
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(CampaignAuditLog)
+    private readonly auditLogRepository: Repository<CampaignAuditLog>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    private readonly audienceService: CampaignAudienceService,
+    private readonly dispatchService: CampaignDispatchService,
+  ) {}
+
+  async findAll(schoolId?: string): Promise<CampaignAutomation[]> {
+    return this.automationRepository.find({
+      where: schoolId ? { schoolId } : {},
+      relations: ['campaignTemplate'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string): Promise<CampaignAutomation> {
+    const automation = await this.automationRepository.findOne({
+      where: { id },
+      relations: ['campaignTemplate'],
+    });
+
+    if (!automation) {
+      throw new NotFoundException(
+        `Campaign automation with ID "${id}" not found`,
+      );
+    }
+
+    return automation;
+  }
+
+  async create(dto: CreateCampaignAutomationDto): Promise<CampaignAutomation> {
+    await this.ensureTemplateInSchool(dto.campaignTemplateId, dto.schoolId);
+
+    const automation = this.automationRepository.create({
+      schoolId: dto.schoolId,
+      name: dto.name,
+      triggerEvent: dto.triggerEvent,
+      triggerConditions: dto.triggerConditions ?? {},
+      campaignTemplateId: dto.campaignTemplateId,
+      delayHours: dto.delayHours ?? 0,
+      isActive: dto.isActive ?? true,
+    });
+
+    const saved = await this.automationRepository.save(automation);
+    return this.findOne(saved.id);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateCampaignAutomationDto,
+  ): Promise<CampaignAutomation> {
+    const automation = await this.findOne(id);
+
+    if (dto.campaignTemplateId !== undefined) {
+      await this.ensureTemplateInSchool(
+        dto.campaignTemplateId,
+        automation.schoolId,
+      );
+    }
+
+    Object.assign(automation, dto);
+    // Drop the loaded relation so the new template ID is saved
+    delete (automation as Partial<CampaignAutomation>).campaignTemplate;
+
+    await this.automationRepository.save(automation);
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const automation = await this.findOne(id);
+    await this.automationRepository.remove(automation);
+  }
+
+  @OnEvent(DomainEvent.LEAD_CREATED, { async: true })
+  async handleLeadCreated(event: LeadEventPayload): Promise<void> {
+    await this.fire(CampaignTriggerEvent.LEAD_CREATED, event);
+  }
+
+  @OnEvent(DomainEvent.LEAD_STATUS_CHANGED, { async: true })
+  async handleLeadStatusChanged(event: LeadStatusChangedEvent): Promise<void> {
+    await this.fire(CampaignTriggerEvent.LEAD_STATUS_CHANGED, event, {
+      previousStatus: event.previousStatus,
+      status: event.status,
+    });
+  }
+
+  @OnEvent(DomainEvent.LEAD_SCORE_UPDATED, { async: true })
+  async handleLeadScoreUpdated(event: LeadScoreUpdatedEvent): Promise<void> {
+    await this.fire(CampaignTriggerEvent.LEAD_SCORE_UPDATED, event, {
+      previousScore: event.previousScore,
+      score: event.score,
+    });
+  }
+
+  @OnEvent(DomainEvent.LEAD_TOUR_SCHEDULED, { async: true })
+  async handleTourScheduled(event: LeadTourScheduledEvent): Promise<void> {
+    await this.fire(CampaignTriggerEvent.TOUR_SCHEDULED, event, {
+      tourDate: event.tourDate,
+    });
+  }
+
+  @OnEvent(DomainEvent.WAITLIST_ADDED, { async: true })
+  async handleWaitlistAdded(event: WaitlistEvent): Promise<void> {
+    await this.fire(CampaignTriggerEvent.WAITLIST_ADDED, event, {
+      waitlistId: event.waitlistId,
+      program: event.program,
+    });
+  }
+
+  @OnEvent(DomainEvent.WAITLIST_OFFER_SENT, { async: true })
+  async handleWaitlistOfferSent(event: WaitlistEvent): Promise<void> {
+    await this.fire(CampaignTriggerEvent.WAITLIST_OFFER_SENT, event, {
+      waitlistId: event.waitlistId,
+      program: event.program,
+    });
+  }
+
+  @OnEvent(DomainEvent.ENROLLMENT_COMPLETED, { async: true })
+  async handleEnrollmentCompleted(
+    event: EnrollmentCompletedEvent,
+  ): Promise<void> {
+    await this.fire(CampaignTriggerEvent.ENROLLMENT_COMPLETED, event, {
+      enrollmentId: event.enrollmentId,
+    });
+  }
+
+  /**
+   * Run every active automation for the trigger in the lead's school.
+   * Errors are logged so a failing automation never breaks the lead change that caused it.
+   */
+  private async fire(
+    triggerEvent: CampaignTriggerEvent,
+    event: LeadEventPayload,
+    details: Record<string, unknown> = {},
+  ): Promise<void> {
+    try {
+      const automations = await this.automationRepository.find({
+        where: { schoolId: event.schoolId, triggerEvent, isActive: true },
+        relations: ['campaignTemplate', 'campaignTemplate.school'],
+      });
+      if (!automations.length) {
+        return;
+      }
+
+      const lead = await this.leadRepository.findOne({
+        where: { id: event.leadId },
+      });
+      if (!lead) {
+        return;
+      }
+
+      for (const automation of automations) {
+        try {
+          await this.runAutomation(automation, lead, event, details);
+        } catch (error) {
+          this.logger.error(
+            `Automation ${automation.id} failed for lead ${lead.id}: ${(error as Error).message}`,
+            (error as Error).stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to run ${triggerEvent} automations for lead ${event.leadId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  private async runAutomation(
+    automation: CampaignAutomation,
+    lead: LeadEntity,
+    event: LeadEventPayload,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    const template = automation.campaignTemplate;
+    if (!template) {
+      this.logger.warn(
+        `Automation ${automation.id} has no campaign template and was skipped`,
+      );
+      return;
+    }
+    if (HALTED_STATUSES.includes(template.status)) {
+      return;
+    }
+
+    const { fromStatuses, ...criteria } = (automation.triggerConditions ??
+      {}) as AutomationTriggerConditions;
+    if (
+      fromStatuses?.length &&
+      !fromStatuses.some((status) => status === details.previousStatus)
+    ) {
+      return;
+    }
+    if (
+      !(await this.audienceService.matchesLead(
+        automation.schoolId,
+        lead.id,
+        criteria,
+      ))
+    ) {
+      return;
+    }
+
+    const sendAt = new Date(
+      Date.now() + Math.max(0, automation.delayHours) * MS_PER_HOUR,
+    );
+    const queued = await this.dispatchService.enqueueForLead(
+      template,
+      lead,
+      sendAt,
+    );
+
+    // A template only delivers while active, e.g. a draft becomes active on its first firing
+    if (queued.length && template.status !== CampaignStatus.ACTIVE) {
+      await this.campaignRepository.update(template.id, {
+        status: CampaignStatus.ACTIVE,
+      });
+      template.status = CampaignStatus.ACTIVE;
+    }
+
+    await this.auditLogRepository.save(
+      this.auditLogRepository.create({
+        campaignId: template.id,
+        userId: event.userId ?? null,
+        actionType: 'automation_fired',
+        oldData: null,
+        newData: null,
+        metadata: {
+          automationId: automation.id,
+          automationName: automation.name,
+          triggerEvent: automation.triggerEvent,
+          leadId: lead.id,
+          delayHours: automation.delayHours,
+          scheduledFor: queued[0]?.scheduledFor ?? null,
+          queuedCount: queued.length,
+          ...details,
+        },
+      }),
+    );
+
+    this.logger.log(
+      `Automation ${automation.id} queued ${queued.length} messages for lead ${lead.id}`,
+    );
+  }
+
+  private async ensureTemplateInSchool(
+    campaignId: string,
+    schoolId: string,
+  ): Promise<void> {
+    const template = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Campaign with ID "${campaignId}" not found`);
+    }
+
+    if (template.schoolId !== schoolId) {
+      throw new BadRequestException(
+        'The template campaign must belong to the same school as the automation',
+      );
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CampaignAutomationService } from './campaign-automation.service';
+import { CampaignAutomation } from './entities/campaign-automation.entity';
+import { CreateCampaignAutomationDto } from './dto/create-campaign-automation.dto';
+import { UpdateCampaignAutomationDto } from './dto/update-campaign-automation.dto';
+import { CampaignAutomationResponseDto } from './dto/campaign-response.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Campaign Automations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(CampaignAutomation)
+@Controller('campaign-automations')
+export class CampaignAutomationsController {
+  constructor(
+    private readonly campaignAutomationService: CampaignAutomationService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException('You can only manage your own school');
+    }
+  }
+
+  @Post()
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Create a campaign automation',
+    description:
+      'Send a template campaign to a lead after a delay whenever the trigger event happens and the lead matches the trigger conditions.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Automation created successfully',
+    type: CampaignAutomationResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or template from another school',
+  })
+  @ApiNotFoundResponse({ description: 'Template campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async create(
+    @Body() createCampaignAutomationDto: CreateCampaignAutomationDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignAutomationResponseDto> {
+    await this.ensureUserCanManageSchool(
+      user,
+      createCampaignAutomationDto.schoolId,
+    );
+
+    const automation = await this.campaignAutomationService.create(
+      createCampaignAutomationDto,
+    );
+    return this.mapToResponseDto(automation);
+  }
+
+  @Get()
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'List campaign automations',
+    description:
+      'List the automations of a school. Super admins may omit schoolId to list every school.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'School ID (required unless super admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Automations retrieved successfully',
+    type: [CampaignAutomationResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findAll(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<{ data: CampaignAutomationResponseDto[]; total: number }> {
+    const isSuperAdmin = user.primaryRole === AppRole.SUPER_ADMIN;
+    const filterSchoolId =
+      schoolId ?? (isSuperAdmin ? undefined : (user.schoolId ?? undefined));
+    if (!isSuperAdmin) {
+      await this.ensureUserCanManageSchool(user, filterSchoolId);
+    }
+
+    const automations =
+      await this.campaignAutomationService.findAll(filterSchoolId);
+    return {
+      data: automations.map((automation) => this.mapToResponseDto(automation)),
+      total: automations.length,
+    };
+  }
+
+  @Get(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({ summary: 'Get a campaign automation by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Automation ID',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Automation retrieved successfully',
+    type: CampaignAutomationResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Automation not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignAutomationResponseDto> {
+    const automation = await this.campaignAutomationService.findOne(id);
+    await this.ensureUserCanManageSchool(user, automation.schoolId);
+    return this.mapToResponseDto(automation);
+  }
+
+  @Patch(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Update a campaign automation',
+    description:
+      'Change the trigger, conditions, template or delay, or switch the automation on or off. Messages already queued are not changed.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Automation ID',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Automation updated successfully',
+    type: CampaignAutomationResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid input' })
+  @ApiNotFoundResponse({ description: 'Automation or template not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateCampaignAutomationDto: UpdateCampaignAutomationDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignAutomationResponseDto> {
+    const automation = await this.campaignAutomationService.findOne(id);
+    await this.ensureUserCanManageSchool(user, automation.schoolId);
+
+    const updated = await this.campaignAutomationService.update(
+      id,
+      updateCampaignAutomationDto,
+    );
+    return this.mapToResponseDto(updated);
+  }
+
+  @Delete(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a campaign automation',
+    description: 'Messages already queued by the automation are still sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Automation ID',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Automation deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Automation not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const automation = await this.campaignAutomationService.findOne(id);
+    await this.ensureUserCanManageSchool(user, automation.schoolId);
+    await this.campaignAutomationService.remove(id);
+  }
+
+  private mapToResponseDto(
+    automation: CampaignAutomation,
+  ): CampaignAutomationResponseDto {
+    return {
+      id: automation.id,
+      schoolId: automation.schoolId,
+      name: automation.name,
+      triggerEvent: automation.triggerEvent,
+      triggerConditions: automation.triggerConditions ?? {},
+      campaignTemplateId: automation.campaignTemplateId,
+      campaignTemplateName: automation.campaignTemplate?.name ?? null,
+      delayHours: automation.delayHours,
+      isActive: automation.isActive,
+      createdAt: automation.createdAt.toISOString(),
+      updatedAt: automation.updatedAt.toISOString(),
+    };
+  }
+}
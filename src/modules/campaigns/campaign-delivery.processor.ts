@@ -0,0 +1,43 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import {
+  CAMPAIGN_DELIVERY_QUEUE,
+  PROCESS_DUE_MESSAGES_JOB,
+} from './campaigns.constants';
+
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Delivers due campaign messages every minute, and on demand when a campaign is sent
+ */
+@Processor(CAMPAIGN_DELIVERY_QUEUE)
+export class CampaignDeliveryProcessor implements OnModuleInit {
+  private readonly logger = new Logger(CampaignDeliveryProcessor.name);
+
+  constructor(
+    @InjectQueue(CAMPAIGN_DELIVERY_QUEUE)
+    private readonly deliveryQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly campaignDispatchService: CampaignDispatchService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.deliveryQueue,
+      PROCESS_DUE_MESSAGES_JOB,
+      { every: POLL_INTERVAL_MS },
+    );
+  }
+
+  @Process(PROCESS_DUE_MESSAGES_JOB)
+  async processDueMessages(): Promise<{ processed: number }> {
+    const processed = await this.campaignDispatchService.processDueMessages();
+    if (processed > 0) {
+      this.logger.log(`Processed ${processed} campaign messages`);
+    }
+    return { processed };
+  }
+}
@@ -0,0 +1,827 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { DataSource, In, IsNull, Repository } from 'typeorm';
+import { Campaign } from './entities/campaign.entity';
+import { CampaignMessage } from './entities/campaign-message.entity';
+import { CampaignRecipient } from './entities/campaign-recipient.entity';
+import { CampaignQueue, QueueStatus } from './entities/campaign-queue.entity';
+import {
+  CampaignDeliveryLog,
+  DeliveryStatus,
+} from './entities/campaign-delivery-log.entity';
+import { CampaignErrorLog } from './entities/campaign-error-log.entity';
+import { CampaignResult } from './entities/campaign-result.entity';
+import { CampaignScheduleConfig } from './entities/campaign-schedule-config.entity';
+import { CampaignAuditLog } from './entities/campaign-audit-log.entity';
+import { CampaignAutomation } from './entities/campaign-automation.entity';
+import { CampaignAudienceService } from './campaign-audience.service';
+import {
+  CAMPAIGN_DELIVERY_QUEUE,
+  PROCESS_DUE_MESSAGES_JOB,
+} from './campaigns.constants';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { MailerService } from '../mailer/mailer.service';
+import { CampaignStatus } from '../../common/enums/campaign-status.enum';
+import { CommunicationChannel } from '../../common/enums/communication-channel.enum';
+import { EmailType } from '../../common/enums/email-type.enum';
+
+type ScheduleSettings = Pick<
+  CampaignScheduleConfig,
+  | 'sendImmediately'
+  | 'scheduledTime'
+  | 'timeZone'
+  | 'batchSize'
+  | 'batchIntervalMinutes'
+  | 'respectQuietHours'
+  | 'quietHoursStart'
+  | 'quietHoursEnd'
+>;
+
+interface ChannelSendResult {
+  success: boolean;
+  skipped?: boolean;
+  retryable?: boolean;
+  error?: string;
+}
+
+export interface CampaignSendSummary {
+  campaignId: string;
+  status: CampaignStatus;
+  recipientCount: number;
+  queuedCount: number;
+  skippedCount: number;
+  firstSendAt: Date | null;
+  lastSendAt: Date | null;
+}
+
+const DEFAULT_SCHEDULE: ScheduleSettings = {
+  sendImmediately: false,
+  scheduledTime: null,
+  timeZone: 'UTC',
+  batchSize: 100,
+  batchIntervalMinutes: 5,
+  respectQuietHours: true,
+  quietHoursStart: '22:00:00',
+  quietHoursEnd: '08:00:00',
+};
+
+const SENDABLE_STATUSES = [
+  CampaignStatus.DRAFT,
+  CampaignStatus.SCHEDULED,
+  CampaignStatus.PAUSED,
+];
+
+// Campaigns in these statuses have their due queue items delivered
+const DELIVERING_STATUSES = [CampaignStatus.SCHEDULED, CampaignStatus.ACTIVE];
+
+const PROCESS_LIMIT = 100;
+const RETRY_BASE_DELAY_MINUTES = 5;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Sends campaigns: expands the audience into recipients and queue items,
+ * then delivers due queue items in batches with retries.
+ */
+@Injectable()
+export class CampaignDispatchService {
+  private readonly logger = new Logger(CampaignDispatchService.name);
+
+  constructor(
+    @InjectRepository(Campaign)
+    private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(CampaignMessage)
+    private readonly messageRepository: Repository<CampaignMessage>,
+    @InjectRepository(CampaignRecipient)
+    private readonly recipientRepository: Repository<CampaignRecipient>,
+    @InjectRepository(CampaignQueue)
+    private readonly queueRepository: Repository<CampaignQueue>,
+    @InjectRepository(CampaignDeliveryLog)
+    private readonly deliveryLogRepository: Repository<CampaignDeliveryLog>,
+    @InjectRepository(CampaignErrorLog)
+    private readonly errorLogRepository: Repository<CampaignErrorLog>,
+    @InjectRepository(CampaignResult)
+    private readonly resultRepository: Repository<CampaignResult>,
+    @InjectRepository(CampaignScheduleConfig)
+    private readonly scheduleConfigRepository: Repository<CampaignScheduleConfig>,
+    @InjectRepository(CampaignAuditLog)
+    private readonly auditLogRepository: Repository<CampaignAuditLog>,
+    @InjectRepository(CampaignAutomation)
+    private readonly automationRepository: Repository<CampaignAutomation>,
+    @InjectQueue(CAMPAIGN_DELIVERY_QUEUE)
+    private readonly deliveryQueue: Queue,
+    private readonly audienceService: CampaignAudienceService,
+    private readonly mailerService: MailerService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Build recipients and queue items for a campaign. Items are spread over
+   * batches and moved out of the school's quiet hours.
+   */
+  async send(campaignId: string, userId: string): Promise<CampaignSendSummary> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+      relations: ['school', 'messages'],
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${campaignId}" not found`);
+    }
+
+    if (!SENDABLE_STATUSES.includes(campaign.status)) {
+      throw new BadRequestException(
+        `Campaign is ${campaign.status} and cannot be sent`,
+      );
+    }
+
+    const channels = campaign.communicationChannels ?? [];
+    const messages = (campaign.messages || []).filter(
+      (message) => !channels.length || channels.includes(message.channel),
+    );
+    if (!messages.length) {
+      throw new BadRequestException(
+        'Add a message for at least one campaign channel before sending',
+      );
+    }
+
+    const alreadySent = await this.recipientRepository.count({
+      where: { campaignId },
+    });
+    if (alreadySent > 0) {
+      throw new BadRequestException('Campaign has already been sent');
+    }
+
+    const settings = await this.getScheduleSettings(campaignId);
+    const leads = await this.audienceService.resolveLeads(campaign);
+
+    const now = new Date();
+    const requestedStart = settings.sendImmediately
+      ? now
+      : (settings.scheduledTime ?? campaign.scheduledAt ?? now);
+    const startAt = requestedStart > now ? requestedStart : now;
+
+    const recipients: CampaignRecipient[] = [];
+    const queueItems: CampaignQueue[] = [];
+    let skippedCount = 0;
+
+    const recipientKeys = new Set<string>();
+
+    for (const message of messages) {
+      for (const lead of leads) {
+        if (!this.hasAddress(lead, message.channel)) {
+          skippedCount++;
+          continue;
+        }
+
+        const recipientKey = `${lead.id}:${message.channel}`;
+        if (!recipientKeys.has(recipientKey)) {
+          recipientKeys.add(recipientKey);
+          recipients.push(
+            this.recipientRepository.create({
+              campaignId,
+              leadId: lead.id,
+              channel: message.channel,
+            }),
+          );
+        }
+
+        const batch = Math.floor(queueItems.length / settings.batchSize);
+        const batchStart = new Date(
+          startAt.getTime() + batch * settings.batchIntervalMinutes * 60_000,
+        );
+
+        queueItems.push(
+          this.queueRepository.create({
+            campaignId,
+            messageId: message.id,
+            recipientEmail: lead.parentEmail ?? '',
+            recipientData: this.buildRecipientData(lead, campaign),
+            scheduledFor: this.nextAllowedSendTime(batchStart, settings),
+            status: QueueStatus.PENDING,
+          }),
+        );
+      }
+    }
+
+    if (!queueItems.length) {
+      throw new BadRequestException(
+        'No leads in the campaign audience have a contact address for its channels',
+      );
+    }
+
+    const status =
+      startAt > now ? CampaignStatus.SCHEDULED : CampaignStatus.ACTIVE;
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.save(recipients, { chunk: 500 });
+      await manager.save(queueItems, { chunk: 500 });
+      await manager.update(Campaign, campaignId, {
+        status,
+        scheduledAt: startAt,
+      });
+      await manager.save(
+        manager.create(CampaignAuditLog, {
+          campaignId,
+          userId,
+          actionType: 'send_started',
+          oldData: { status: campaign.status },
+          newData: { status },
+          metadata: {
+            recipientCount: recipients.length,
+            queuedCount: queueItems.length,
+            skippedCount,
+          },
+        }),
+      );
+    });
+
+    this.logger.log(
+      `Queued ${queueItems.length} messages for campaign ${campaignId} (${skippedCount} leads without a contact address skipped)`,
+    );
+
+    if (status === CampaignStatus.ACTIVE) {
+      this.requestProcessing();
+    }
+
+    const sendTimes = queueItems.map((item) => item.scheduledFor.getTime());
+
+    return {
+      campaignId,
+      status,
+      recipientCount: recipients.length,
+      queuedCount: queueItems.length,
+      skippedCount,
+      firstSendAt: sendTimes.length ? new Date(Math.min(...sendTimes)) : null,
+      lastSendAt: sendTimes.length ? new Date(Math.max(...sendTimes)) : null,
+    };
+  }
+
+  /**
+   * Queue a campaign's messages for one lead, e.g. when an automation fires.
+   * Channels the lead was already queued for on this campaign are skipped.
+   * The campaign must be loaded with its school.
+   */
+  async enqueueForLead(
+    campaign: Campaign,
+    lead: LeadEntity,
+    sendAt: Date,
+  ): Promise<CampaignQueue[]> {
+    const channels = campaign.communicationChannels ?? [];
+    const messages = await this.messageRepository.find({
+      where: { campaignId: campaign.id },
+      order: { createdAt: 'ASC' },
+    });
+    const existing = await this.recipientRepository.find({
+      where: { campaignId: campaign.id, leadId: lead.id },
+    });
+    const queuedChannels = new Set(
+      existing.map((recipient) => recipient.channel),
+    );
+
+    const settings = await this.getScheduleSettings(campaign.id);
+    const scheduledFor = this.nextAllowedSendTime(sendAt, settings);
+
+    const recipients: CampaignRecipient[] = [];
+    const queueItems: CampaignQueue[] = [];
+
+    for (const message of messages) {
+      if (
+        (channels.length && !channels.includes(message.channel)) ||
+        queuedChannels.has(message.channel) ||
+        !this.hasAddress(lead, message.channel)
+      ) {
+        continue;
+      }
+      queuedChannels.add(message.channel);
+
+      recipients.push(
+        this.recipientRepository.create({
+          campaignId: campaign.id,
+          leadId: lead.id,
+          channel: message.channel,
+        }),
+      );
+      queueItems.push(
+        this.queueRepository.create({
+          campaignId: campaign.id,
+          messageId: message.id,
+          recipientEmail: lead.parentEmail ?? '',
+          recipientData: this.buildRecipientData(lead, campaign),
+          scheduledFor,
+          status: QueueStatus.PENDING,
+        }),
+      );
+    }
+
+    if (!queueItems.length) {
+      return [];
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.save(recipients);
+      await manager.save(queueItems);
+    });
+
+    if (scheduledFor <= new Date()) {
+      this.requestProcessing();
+    }
+
+    return queueItems;
+  }
+
+  /**
+   * Cancel a campaign and every message still waiting to be sent
+   */
+  async cancel(campaignId: string, userId: string): Promise<void> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${campaignId}" not found`);
+    }
+
+    if (
+      campaign.status === CampaignStatus.COMPLETED ||
+      campaign.status === CampaignStatus.CANCELLED
+    ) {
+      throw new BadRequestException(`Campaign is already ${campaign.status}`);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const result = await manager.update(
+        CampaignQueue,
+        { campaignId, status: QueueStatus.PENDING },
+        { status: QueueStatus.CANCELLED },
+      );
+      await manager.update(Campaign, campaignId, {
+        status: CampaignStatus.CANCELLED,
+      });
+      await manager.save(
+        manager.create(CampaignAuditLog, {
+          campaignId,
+          userId,
+          actionType: 'send_cancelled',
+          oldData: { status: campaign.status },
+          newData: { status: CampaignStatus.CANCELLED },
+          metadata: { cancelledCount: result.affected ?? 0 },
+        }),
+      );
+    });
+  }
+
+  /**
+   * Deliver queue items that are due. Safe to run from several workers at once.
+   */
+  async processDueMessages(limit = PROCESS_LIMIT): Promise<number> {
+    const items = await this.claimDueItems(limit);
+    if (!items.length) {
+      return 0;
+    }
+
+    const settingsByCampaign = new Map<string, ScheduleSettings>();
+    for (const item of items) {
+      if (!settingsByCampaign.has(item.campaignId)) {
+        settingsByCampaign.set(
+          item.campaignId,
+          await this.getScheduleSettings(item.campaignId),
+        );
+      }
+      await this.deliver(item, settingsByCampaign.get(item.campaignId)!);
+    }
+
+    for (const campaignId of settingsByCampaign.keys()) {
+      await this.completeIfFinished(campaignId);
+    }
+
+    return items.length;
+  }
+
+  /**
+   * Recalculate per-channel totals for a campaign from its recipients
+   */
+  async refreshResults(campaignId: string): Promise<void> {
+    const rows = await this.recipientRepository
+      .createQueryBuilder('recipient')
+      .select('recipient.channel', 'channel')
+      .addSelect('COUNT(recipient.sent_at)', 'sent')
+      .addSelect('COUNT(recipient.delivered_at)', 'delivered')
+      .addSelect('COUNT(recipient.opened_at)', 'opened')
+      .addSelect('COUNT(recipient.clicked_at)', 'clicked')
+      .addSelect('COUNT(recipient.converted_at)', 'converted')
+      .addSelect('COUNT(recipient.bounced_at)', 'bounced')
+      .addSelect('COUNT(recipient.unsubscribed_at)', 'unsubscribed')
+      .where('recipient.campaign_id = :campaignId', { campaignId })
+      .groupBy('recipient.channel')
+      .getRawMany<Record<string, string>>();
+
+    for (const row of rows) {
+      const channel = row.channel as CommunicationChannel;
+      const result =
+        (await this.resultRepository.findOne({
+          where: { campaignId, channel },
+        })) ?? this.resultRepository.create({ campaignId, channel });
+
+      Object.assign(result, {
+        totalSent: Number(row.sent),
+        totalDelivered: Number(row.delivered),
+        totalOpened: Number(row.opened),
+        totalClicked: Number(row.clicked),
+        totalConverted: Number(row.converted),
+        bounceCount: Number(row.bounced),
+        unsubscribeCount: Number(row.unsubscribed),
+      });
+      await this.resultRepository.save(result);
+    }
+  }
+
+  /**
+   * Ask the worker to look for due messages now instead of on its next tick
+   */
+  private requestProcessing(): void {
+    this.deliveryQueue
+      .add(PROCESS_DUE_MESSAGES_JOB, {}, { removeOnComplete: true })
+      .catch((error: Error) =>
+        this.logger.warn(
+          `Could not enqueue campaign delivery run: ${error.message}`,
+        ),
+      );
+  }
+
+  private async claimDueItems(limit: number): Promise<CampaignQueue[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const items = await manager
+        .getRepository(CampaignQueue)
+        .createQueryBuilder('queue')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .where('queue.status = :status', { status: QueueStatus.PENDING })
+        .andWhere('queue.scheduled_for <= :now', { now: new Date() })
+        .andWhere(
+          'queue.campaign_id IN (SELECT id FROM campaigns WHERE status IN (:...campaignStatuses))',
+          { campaignStatuses: DELIVERING_STATUSES },
+        )
+        .orderBy('queue.priority', 'ASC')
+        .addOrderBy('queue.scheduled_for', 'ASC')
+        .limit(limit)
+        .getMany();
+
+      if (items.length) {
+        await manager.update(
+          CampaignQueue,
+          { id: In(items.map((item) => item.id)) },
+          { status: QueueStatus.PROCESSING },
+        );
+      }
+
+      return items;
+    });
+  }
+
+  private async deliver(
+    item: CampaignQueue,
+    settings: ScheduleSettings,
+  ): Promise<void> {
+    const now = new Date();
+    const allowedAt = this.nextAllowedSendTime(now, settings);
+    if (allowedAt > now) {
+      await this.queueRepository.update(item.id, {
+        status: QueueStatus.PENDING,
+        scheduledFor: allowedAt,
+      });
+      return;
+    }
+
+    const message = await this.messageRepository.findOne({
+      where: { id: item.messageId },
+      relations: ['campaign'],
+    });
+
+    let result: ChannelSendResult;
+    if (!message) {
+      result = {
+        success: false,
+        retryable: false,
+        error: 'Campaign message no longer exists',
+      };
+    } else {
+      try {
+        result = await this.sendThroughChannel(message, item);
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    const attempts = item.attempts + 1;
+    const channel = message?.channel ?? CommunicationChannel.EMAIL;
+    const leadId = item.recipientData?.leadId as string | undefined;
+
+    if (result.success) {
+      await this.queueRepository.update(item.id, {
+        status: QueueStatus.SENT,
+        attempts,
+        sentAt: now,
+        errorMessage: null,
+      });
+      if (leadId) {
+        await this.recipientRepository.update(
+          { campaignId: item.campaignId, leadId, channel },
+          { sentAt: now, errorMessage: null },
+        );
+      }
+      await this.logDelivery(item, channel, DeliveryStatus.SENT);
+      await this.campaignRepository.increment(
+        { id: item.campaignId },
+        'sentCount',
+        1,
+      );
+      await this.campaignRepository.update(
+        { id: item.campaignId, sentAt: IsNull() },
+        { sentAt: now },
+      );
+      await this.campaignRepository.update(
+        { id: item.campaignId, status: CampaignStatus.SCHEDULED },
+        { status: CampaignStatus.ACTIVE },
+      );
+      return;
+    }
+
+    if (result.skipped) {
+      await this.queueRepository.update(item.id, {
+        status: QueueStatus.CANCELLED,
+        attempts,
+        errorMessage: result.error ?? 'Skipped',
+      });
+      return;
+    }
+
+    if (result.retryable !== false && attempts < item.maxAttempts) {
+      const delayMinutes = RETRY_BASE_DELAY_MINUTES * 2 ** (attempts - 1);
+      await this.queueRepository.update(item.id, {
+        status: QueueStatus.PENDING,
+        attempts,
+        errorMessage: result.error ?? null,
+        scheduledFor: new Date(now.getTime() + delayMinutes * 60_000),
+      });
+      return;
+    }
+
+    await this.queueRepository.update(item.id, {
+      status: QueueStatus.FAILED,
+      attempts,
+      errorMessage: result.error ?? null,
+    });
+    if (leadId) {
+      await this.recipientRepository.update(
+        { campaignId: item.campaignId, leadId, channel },
+        { errorMessage: result.error ?? null },
+      );
+    }
+    await this.logDelivery(item, channel, DeliveryStatus.FAILED, result.error);
+    await this.errorLogRepository.save(
+      this.errorLogRepository.create({
+        campaignId: item.campaignId,
+        errorType: 'delivery_failed',
+        errorMessage: result.error ?? 'Delivery failed',
+        errorDetails: {
+          queueItemId: item.id,
+          messageId: item.messageId,
+          channel,
+          attempts,
+          recipientEmail: item.recipientEmail,
+        },
+      }),
+    );
+    await this.campaignRepository.increment(
+      { id: item.campaignId },
+      'failedCount',
+      1,
+    );
+  }
+
+  private async sendThroughChannel(
+    message: CampaignMessage,
+    item: CampaignQueue,
+  ): Promise<ChannelSendResult> {
+    const data = item.recipientData ?? {};
+
+    switch (message.channel) {
+      case CommunicationChannel.EMAIL: {
+        const result = await this.mailerService.sendEmail({
+          to: item.recipientEmail,
+          subject: this.render(message.subject || message.campaign.name, data),
+          html: this.render(message.content, data, true),
+          emailType: EmailType.MARKETING,
+          schoolId: message.campaign.schoolId,
+          metadata: {
+            campaignId: item.campaignId,
+            campaignQueueId: item.id,
+            campaignMessageId: message.id,
+            leadId: data.leadId as string | undefined,
+          },
+        });
+
+        if (result.skipped) {
+          return { success: false, skipped: true, error: result.reason };
+        }
+        return { success: result.success, error: result.error };
+      }
+      default:
+        return {
+          success: false,
+          retryable: false,
+          error: `No delivery provider is configured for ${message.channel} messages`,
+        };
+    }
+  }
+
+  private async completeIfFinished(campaignId: string): Promise<void> {
+    const remaining = await this.queueRepository.count({
+      where: {
+        campaignId,
+        status: In([QueueStatus.PENDING, QueueStatus.PROCESSING]),
+      },
+    });
+    if (remaining > 0) {
+      return;
+    }
+
+    // Automation templates keep receiving recipients, so they stay active
+    const automations = await this.automationRepository.count({
+      where: { campaignTemplateId: campaignId, isActive: true },
+    });
+    if (automations > 0) {
+      await this.refreshResults(campaignId);
+      return;
+    }
+
+    const result = await this.campaignRepository.update(
+      { id: campaignId, status: In(DELIVERING_STATUSES) },
+      { status: CampaignStatus.COMPLETED, completedAt: new Date() },
+    );
+    if (!result.affected) {
+      return;
+    }
+
+    await this.refreshResults(campaignId);
+    await this.auditLogRepository.save(
+      this.auditLogRepository.create({
+        campaignId,
+        userId: null,
+        actionType: 'send_completed',
+        oldData: null,
+        newData: { status: CampaignStatus.COMPLETED },
+        metadata: {},
+      }),
+    );
+    this.logger.log(`Campaign ${campaignId} finished sending`);
+  }
+
+  private async logDelivery(
+    item: CampaignQueue,
+    channel: CommunicationChannel,
+    status: DeliveryStatus,
+    errorMessage?: string,
+  ): Promise<void> {
+    await this.deliveryLogRepository.save(
+      this.deliveryLogRepository.create({
+        campaignId: item.campaignId,
+        messageId: item.messageId,
+        recipientEmail: item.recipientEmail,
+        channel,
+        status,
+        errorMessage: errorMessage ?? null,
+      }),
+    );
+  }
+
+  private async getScheduleSettings(
+    campaignId: string,
+  ): Promise<ScheduleSettings> {
+    const config = await this.scheduleConfigRepository.findOne({
+      where: { campaignId },
+    });
+
+    const settings = { ...DEFAULT_SCHEDULE, ...(config ?? {}) };
+    settings.batchSize = Math.max(1, settings.batchSize);
+    settings.batchIntervalMinutes = Math.max(0, settings.batchIntervalMinutes);
+    return settings;
+  }
+
+  /**
+   * Return the given time, or the end of quiet hours in the campaign's time zone
+   * when the time falls inside them.
+   */
+  private nextAllowedSendTime(date: Date, settings: ScheduleSettings): Date {
+    if (!settings.respectQuietHours) {
+      return date;
+    }
+
+    const start = this.parseTimeOfDay(settings.quietHoursStart);
+    const end = this.parseTimeOfDay(settings.quietHoursEnd);
+    if (start === null || end === null || start === end) {
+      return date;
+    }
+
+    const local = this.getLocalMinutes(date, settings.timeZone);
+    const inQuietHours =
+      start < end
+        ? local >= start && local < end
+        : local >= start || local < end;
+    if (!inQuietHours) {
+      return date;
+    }
+
+    const minutesUntilEnd = (end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const allowedAt = new Date(date.getTime() + minutesUntilEnd * 60_000);
+    allowedAt.setUTCSeconds(0, 0);
+    return allowedAt;
+  }
+
+  private getLocalMinutes(date: Date, timeZone: string): number {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+    } catch {
+      this.logger.warn(`Unknown time zone "${timeZone}", using UTC`);
+      return date.getUTCHours() * 60 + date.getUTCMinutes();
+    }
+
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value);
+    return hour * 60 + minute;
+  }
+
+  private parseTimeOfDay(value: string | null | undefined): number | null {
+    const match = /^(\d{1,2}):(\d{2})/.exec(value ?? '');
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+  }
+
+  private hasAddress(lead: LeadEntity, channel: CommunicationChannel): boolean {
+    switch (channel) {
+      case CommunicationChannel.EMAIL:
+        return !!lead.parentEmail;
+      case CommunicationChannel.SMS:
+        return !!lead.parentPhone;
+      default:
+        return true;
+    }
+  }
+
+  private buildRecipientData(
+    lead: LeadEntity,
+    campaign: Campaign,
+  ): Record<string, unknown> {
+    return {
+      leadId: lead.id,
+      parentName: lead.parentName,
+      parentEmail: lead.parentEmail,
+      parentPhone: lead.parentPhone,
+      childName: lead.childName,
+      program: lead.program,
+      schoolName: campaign.school?.name ?? '',
+    };
+  }
+
+  /**
+   * Replace {{placeholder}} tokens with recipient values
+   */
+  private render(
+    template: string,
+    data: Record<string, unknown>,
+    escapeHtml = false,
+  ): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+      const value = data[key];
+      const text =
+        typeof value === 'string' || typeof value === 'number'
+          ? String(value)
+          : '';
+      return escapeHtml ? this.escapeHtml(text) : text;
+    });
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { IsNull, Repository } from 'typeorm';
+import { CampaignRecipient } from './entities/campaign-recipient.entity';
+import {
+  CampaignDeliveryLog,
+  DeliveryStatus,
+} from './entities/campaign-delivery-log.entity';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import { CommunicationChannel } from '../../common/enums/communication-channel.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import { EmailTrackingEvent } from '../../common/enums/email-tracking-event.enum';
+import type { EmailTrackedEvent } from '../../common/interfaces/domain-event.interface';
+
+type RecipientTimestamp =
+  | 'deliveredAt'
+  | 'openedAt'
+  | 'clickedAt'
+  | 'bouncedAt'
+  | 'unsubscribedAt';
+
+// A spam complaint is treated as an unsubscribe
+const RECIPIENT_COLUMNS: Record<EmailTrackingEvent, RecipientTimestamp> = {
+  [EmailTrackingEvent.DELIVERED]: 'deliveredAt',
+  [EmailTrackingEvent.OPENED]: 'openedAt',
+  [EmailTrackingEvent.CLICKED]: 'clickedAt',
+  [EmailTrackingEvent.BOUNCED]: 'bouncedAt',
+  [EmailTrackingEvent.COMPLAINED]: 'unsubscribedAt',
+  [EmailTrackingEvent.UNSUBSCRIBED]: 'unsubscribedAt',
+};
+
+const DELIVERY_STATUSES: Partial<Record<EmailTrackingEvent, DeliveryStatus>> = {
+  [EmailTrackingEvent.DELIVERED]: DeliveryStatus.DELIVERED,
+  [EmailTrackingEvent.OPENED]: DeliveryStatus.OPENED,
+  [EmailTrackingEvent.CLICKED]: DeliveryStatus.CLICKED,
+  [EmailTrackingEvent.BOUNCED]: DeliveryStatus.BOUNCED,
+};
+
+/**
+ * Applies email tracking events to campaign recipients and keeps the
+ * per-channel CampaignResult totals up to date
+ */
+@Injectable()
+export class CampaignEngagementService {
+  private readonly logger = new Logger(CampaignEngagementService.name);
+
+  constructor(
+    @InjectRepository(CampaignRecipient)
+    private readonly recipientRepository: Repository<CampaignRecipient>,
+    @InjectRepository(CampaignDeliveryLog)
+    private readonly deliveryLogRepository: Repository<CampaignDeliveryLog>,
+    private readonly dispatchService: CampaignDispatchService,
+  ) {}
+
+  @OnEvent(DomainEvent.EMAIL_TRACKED, { async: true })
+  async handleEmailTracked(event: EmailTrackedEvent): Promise<void> {
+    const campaignId = event.metadata?.campaignId as string | undefined;
+    const leadId = event.metadata?.leadId as string | undefined;
+    if (!campaignId || !leadId) {
+      return;
+    }
+
+    try {
+      const updated = await this.stampRecipient(campaignId, leadId, event);
+      if (!updated) {
+        return;
+      }
+
+      const status = DELIVERY_STATUSES[event.event];
+      const messageId = event.metadata.campaignMessageId as string | undefined;
+      if (status && messageId) {
+        await this.deliveryLogRepository.save(
+          this.deliveryLogRepository.create({
+            campaignId,
+            messageId,
+            recipientEmail: event.recipientEmail,
+            channel: CommunicationChannel.EMAIL,
+            status,
+            deliveredAt:
+              event.event === EmailTrackingEvent.DELIVERED
+                ? event.occurredAt
+                : null,
+            openedAt:
+              event.event === EmailTrackingEvent.OPENED
+                ? event.occurredAt
+                : null,
+            clickedAt:
+              event.event === EmailTrackingEvent.CLICKED
+                ? event.occurredAt
+                : null,
+            errorMessage: event.reason ?? null,
+          }),
+        );
+      }
+
+      await this.dispatchService.refreshResults(campaignId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply ${event.event} to campaign ${campaignId}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Set the recipient timestamp for the event the first time it happens.
+   * Returns whether anything changed.
+   */
+  private async stampRecipient(
+    campaignId: string,
+    leadId: string,
+    event: EmailTrackedEvent,
+  ): Promise<boolean> {
+    const where = {
+      campaignId,
+      leadId,
+      channel: CommunicationChannel.EMAIL,
+    };
+    const column = RECIPIENT_COLUMNS[event.event];
+
+    const result = await this.recipientRepository.update(
+      { ...where, [column]: IsNull() },
+      {
+        [column]: event.occurredAt,
+        ...(event.event === EmailTrackingEvent.BOUNCED
+          ? { errorMessage: event.reason ?? 'Bounced' }
+          : {}),
+      },
+    );
+
+    // A click implies the email was opened even if the pixel was blocked
+    if (event.event === EmailTrackingEvent.CLICKED) {
+      await this.recipientRepository.update(
+        { ...where, openedAt: IsNull() },
+        { openedAt: event.occurredAt },
+      );
+    }
+
+    return !!result.affected;
+  }
+}
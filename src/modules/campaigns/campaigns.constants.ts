@@ -0,0 +1,4 @@
+export const CAMPAIGN_DELIVERY_QUEUE = 'campaign-delivery';
+
+/** Repeatable job that delivers queued campaign messages whose send time has come */
+export const PROCESS_DUE_MESSAGES_JOB = 'process-due-messages';
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Body,
   Patch,
   Param,
@@ -29,11 +30,29 @@ import {
 import { CampaignsService } from './campaigns.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
-import { CampaignResponseDto } from './dto/campaign-response.dto';
+import {
+  CampaignResponseDto,
+  CampaignMessageResponseDto,
+  CampaignScheduleResponseDto,
+  CampaignSendResponseDto,
+  CampaignSegmentResponseDto,
+  SegmentPreviewResponseDto,
+} from './dto/campaign-response.dto';
+import { CreateCampaignSegmentDto } from './dto/create-campaign-segment.dto';
+import { UpdateCampaignSegmentDto } from './dto/update-campaign-segment.dto';
+import { PreviewSegmentDto } from './dto/preview-segment.dto';
+import { CampaignAudienceService } from './campaign-audience.service';
+import { CampaignSegment } from './entities/campaign-segment.entity';
+import { SetCampaignMessagesDto } from './dto/set-campaign-messages.dto';
+import { UpdateCampaignScheduleDto } from './dto/update-campaign-schedule.dto';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import { CampaignMessage } from './entities/campaign-message.entity';
+import { CampaignScheduleConfig } from './entities/campaign-schedule-config.entity';
 import { CampaignStatus } from '../../common/enums/campaign-status.enum';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -46,10 +65,13 @@ import { SchoolEntity } from '../schools/entities/school.entity';
 @ApiTags('Campaigns')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(Campaign)
 @Controller('campaigns')
 export class CampaignsController {
   constructor(
     private readonly campaignsService: CampaignsService,
+    private readonly campaignDispatchService: CampaignDispatchService,
+    private readonly campaignAudienceService: CampaignAudienceService,
     @InjectRepository(SchoolEntity)
     private readonly schoolRepository: Repository<SchoolEntity>,
   ) { }
@@ -278,6 +300,471 @@ export class CampaignsController {
     return this.mapToResponseDto(updatedCampaign);
   }
 
+  @Get(':id/messages')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get campaign messages',
+    description:
+      'Retrieve the message content configured for each channel of a campaign.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign messages retrieved successfully',
+    type: [CampaignMessageResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async findMessages(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignMessageResponseDto[]> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const messages = await this.campaignsService.findMessages(id);
+    return messages.map((message) => this.mapMessageToResponseDto(message));
+  }
+
+  @Put(':id/messages')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Set campaign messages',
+    description:
+      'Replace the campaign messages, one per channel. Not allowed once the campaign has been sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign messages saved successfully',
+    type: [CampaignMessageResponseDto],
+  })
+  @ApiBadRequestResponse({
+    description: 'Duplicate channel or campaign already sent',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async setMessages(
+    @Param('id') id: string,
+    @Body() setCampaignMessagesDto: SetCampaignMessagesDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignMessageResponseDto[]> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const messages = await this.campaignsService.setMessages(
+      id,
+      setCampaignMessagesDto.messages,
+    );
+    return messages.map((message) => this.mapMessageToResponseDto(message));
+  }
+
+  @Get(':id/segments')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get campaign segments',
+    description:
+      'Retrieve the audience segments of a campaign. A lead is in the audience when it matches any segment.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Segments retrieved successfully',
+    type: [CampaignSegmentResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async findSegments(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignSegmentResponseDto[]> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const segments = await this.campaignsService.findSegments(id);
+    return segments.map((segment) => this.mapSegmentToResponseDto(segment));
+  }
+
+  @Post(':id/segments')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Add a campaign segment',
+    description:
+      'Add an audience segment. Every condition in the segment must match: lead status, source, program, lead score, zip codes, child age, days since last activity, enrollment status and waitlist status or position.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Segment created successfully',
+    type: CampaignSegmentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid criteria or campaign already sent',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async createSegment(
+    @Param('id') id: string,
+    @Body() createCampaignSegmentDto: CreateCampaignSegmentDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignSegmentResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const segment = await this.campaignsService.createSegment(
+      id,
+      createCampaignSegmentDto,
+    );
+    return this.mapSegmentToResponseDto(segment);
+  }
+
+  @Post(':id/segments/preview')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a campaign audience',
+    description:
+      "Count the leads matching the given criteria, or the campaign's saved segments when no criteria are given, and return a sample of recipients.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audience preview',
+    type: SegmentPreviewResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid criteria' })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async previewSegment(
+    @Param('id') id: string,
+    @Body() previewSegmentDto: PreviewSegmentDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<SegmentPreviewResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const preview = await this.campaignAudienceService.preview(
+      campaign,
+      previewSegmentDto.criteria,
+      previewSegmentDto.sampleSize ?? 10,
+    );
+
+    return {
+      matchCount: preview.total,
+      emailableCount: preview.withEmail,
+      sample: preview.sample.map((lead) => ({
+        leadId: lead.id,
+        parentName: lead.parentName,
+        parentEmail: lead.parentEmail,
+        childName: lead.childName,
+        program: lead.program,
+        leadStatus: lead.leadStatus,
+        leadScore: lead.leadScore,
+      })),
+    };
+  }
+
+  @Put(':id/segments/:segmentId')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Update a campaign segment',
+    description:
+      'Update the label or criteria of a segment. Not allowed once the campaign has been sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'segmentId',
+    description: 'Segment ID',
+    example: '123e4567-e89b-12d3-a456-426614174020',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Segment updated successfully',
+    type: CampaignSegmentResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid criteria or campaign already sent',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign or segment not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async updateSegment(
+    @Param('id') id: string,
+    @Param('segmentId') segmentId: string,
+    @Body() updateCampaignSegmentDto: UpdateCampaignSegmentDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignSegmentResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const segment = await this.campaignsService.updateSegment(
+      id,
+      segmentId,
+      updateCampaignSegmentDto,
+    );
+    return this.mapSegmentToResponseDto(segment);
+  }
+
+  @Delete(':id/segments/:segmentId')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a campaign segment',
+    description:
+      'Remove a segment from the campaign audience. Not allowed once the campaign has been sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'segmentId',
+    description: 'Segment ID',
+    example: '123e4567-e89b-12d3-a456-426614174020',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Segment deleted successfully',
+  })
+  @ApiBadRequestResponse({ description: 'Campaign already sent' })
+  @ApiNotFoundResponse({ description: 'Campaign or segment not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async removeSegment(
+    @Param('id') id: string,
+    @Param('segmentId') segmentId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+    await this.campaignsService.removeSegment(id, segmentId);
+  }
+
+  @Get(':id/schedule')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get campaign delivery schedule',
+    description:
+      'Retrieve batching and quiet hours settings used when the campaign is sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Schedule retrieved successfully',
+    type: CampaignScheduleResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async getSchedule(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignScheduleResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const config = await this.campaignsService.getScheduleConfig(id);
+    return this.mapScheduleToResponseDto(config);
+  }
+
+  @Put(':id/schedule')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Update campaign delivery schedule',
+    description:
+      'Set start time, batch size, batch interval and quiet hours. Not allowed once the campaign has been sent.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Schedule updated successfully',
+    type: CampaignScheduleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or campaign already sent',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async updateSchedule(
+    @Param('id') id: string,
+    @Body() updateCampaignScheduleDto: UpdateCampaignScheduleDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignScheduleResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const config = await this.campaignsService.updateScheduleConfig(
+      id,
+      updateCampaignScheduleDto,
+    );
+    return this.mapScheduleToResponseDto(config);
+  }
+
+  @Post(':id/send')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send a campaign',
+    description:
+      'Resolve the campaign audience into recipients and queue their messages. Delivery runs in the background in batches, outside quiet hours, with retries.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign queued for delivery',
+    type: CampaignSendResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Campaign has no messages, no reachable recipients or was already sent',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async send(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignSendResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    const summary = await this.campaignDispatchService.send(id, user.id);
+    return {
+      ...summary,
+      firstSendAt: summary.firstSendAt?.toISOString() || null,
+      lastSendAt: summary.lastSendAt?.toISOString() || null,
+    };
+  }
+
+  @Post(':id/cancel')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a campaign',
+    description:
+      'Cancel a campaign and every message that has not been delivered yet.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaign cancelled successfully',
+    type: CampaignResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Campaign is already completed or cancelled',
+  })
+  @ApiNotFoundResponse({ description: 'Campaign not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async cancel(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<CampaignResponseDto> {
+    const campaign = await this.campaignsService.findOne(id);
+    await this.campaignsService.ensureUserCanManageCampaign(campaign, user);
+
+    await this.campaignDispatchService.cancel(id, user.id);
+    return this.mapToResponseDto(await this.campaignsService.findOne(id));
+  }
+
   @Delete(':id')
   @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.ADMISSIONS_STAFF, AppRole.SCHOOL_OWNER)
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -332,5 +819,42 @@ export class CampaignsController {
       updatedAt: campaign.updatedAt.toISOString(),
     };
   }
-}
 
+  private mapMessageToResponseDto(
+    message: CampaignMessage,
+  ): CampaignMessageResponseDto {
+    return {
+      id: message.id,
+      channel: message.channel,
+      subject: message.subject,
+      content: message.content,
+      templateId: message.templateId,
+    };
+  }
+
+  private mapSegmentToResponseDto(
+    segment: CampaignSegment,
+  ): CampaignSegmentResponseDto {
+    return {
+      id: segment.id,
+      segmentType: segment.segmentType,
+      segmentCriteria: segment.segmentCriteria,
+      createdAt: segment.createdAt.toISOString(),
+    };
+  }
+
+  private mapScheduleToResponseDto(
+    config: CampaignScheduleConfig,
+  ): CampaignScheduleResponseDto {
+    return {
+      sendImmediately: config.sendImmediately,
+      scheduledTime: config.scheduledTime?.toISOString() || null,
+      timeZone: config.timeZone,
+      batchSize: config.batchSize,
+      batchIntervalMinutes: config.batchIntervalMinutes,
+      respectQuietHours: config.respectQuietHours,
+      quietHoursStart: config.quietHoursStart,
+      quietHoursEnd: config.quietHoursEnd,
+    };
+  }
+}
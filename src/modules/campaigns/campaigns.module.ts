@@ -12,7 +12,17 @@ import { CampaignResult } from './entities/campaign-result.entity';
 import { CampaignSegment } from './entities/campaign-segment.entity';
 import { CampaignScheduleConfig } from './entities/campaign-schedule-config.entity';
 import { CampaignsController } from './campaigns.controller';
+import { CampaignAutomationsController } from './campaign-automations.controller';
 import { CampaignsService } from './campaigns.service';
+import { CampaignDispatchService } from './campaign-dispatch.service';
+import { CampaignAudienceService } from './campaign-audience.service';
+import { CampaignAutomationService } from './campaign-automation.service';
+import { CampaignEngagementService } from './campaign-engagement.service';
+import { CampaignDeliveryProcessor } from './campaign-delivery.processor';
+import { CAMPAIGN_DELIVERY_QUEUE } from './campaigns.constants';
+import { BullModule } from '@nestjs/bull';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { MailerModule } from '../mailer/mailer.module';
 
 import { SchoolEntity } from '../schools/entities/school.entity';
 
@@ -31,10 +41,20 @@ import { SchoolEntity } from '../schools/entities/school.entity';
       CampaignSegment,
       CampaignScheduleConfig,
       SchoolEntity,
+      LeadEntity,
     ]),
+    BullModule.registerQueue({ name: CAMPAIGN_DELIVERY_QUEUE }),
+    MailerModule,
   ],
-  controllers: [CampaignsController],
-  providers: [CampaignsService],
-  exports: [CampaignsService],
+  controllers: [CampaignsController, CampaignAutomationsController],
+  providers: [
+    CampaignsService,
+    CampaignDispatchService,
+    CampaignAudienceService,
+    CampaignAutomationService,
+    CampaignEngagementService,
+    CampaignDeliveryProcessor,
+  ],
+  exports: [CampaignsService, CampaignDispatchService],
 })
 export class CampaignsModule { }
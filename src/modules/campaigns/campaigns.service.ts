@@ -1,9 +1,23 @@
-import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In } from 'typeorm';
+import { Repository, DataSource } from 'typeorm';
 import { Campaign } from './entities/campaign.entity';
+import { CampaignMessage } from './entities/campaign-message.entity';
+import { CampaignScheduleConfig } from './entities/campaign-schedule-config.entity';
+import { CampaignQueue } from './entities/campaign-queue.entity';
+import { CampaignSegment } from './entities/campaign-segment.entity';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import { CampaignMessageDto } from './dto/set-campaign-messages.dto';
+import { UpdateCampaignScheduleDto } from './dto/update-campaign-schedule.dto';
+import { CreateCampaignSegmentDto } from './dto/create-campaign-segment.dto';
+import { UpdateCampaignSegmentDto } from './dto/update-campaign-segment.dto';
 import { CampaignStatus } from '../../common/enums/campaign-status.enum';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
 import { AppRole } from '../../common/enums/app-role.enum';
@@ -23,6 +37,15 @@ export class CampaignsService {
   constructor(
     @InjectRepository(Campaign)
     private readonly campaignRepository: Repository<Campaign>,
+    @InjectRepository(CampaignMessage)
+    private readonly messageRepository: Repository<CampaignMessage>,
+    @InjectRepository(CampaignScheduleConfig)
+    private readonly scheduleConfigRepository: Repository<CampaignScheduleConfig>,
+    @InjectRepository(CampaignQueue)
+    private readonly queueRepository: Repository<CampaignQueue>,
+    @InjectRepository(CampaignSegment)
+    private readonly segmentRepository: Repository<CampaignSegment>,
+    private readonly dataSource: DataSource,
   ) {}
 
   async create(createCampaignDto: CreateCampaignDto, userId: string): Promise<Campaign> {
@@ -101,6 +124,142 @@ export class CampaignsService {
     await this.campaignRepository.remove(campaign);
   }
 
+  async findMessages(campaignId: string): Promise<CampaignMessage[]> {
+    return this.messageRepository.find({
+      where: { campaignId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Replace the campaign's messages. Each channel can have one message.
+   */
+  async setMessages(
+    campaignId: string,
+    messages: CampaignMessageDto[],
+  ): Promise<CampaignMessage[]> {
+    const campaign = await this.findOne(campaignId);
+    await this.ensureNotSent(campaign);
+
+    const channels = new Set(messages.map((message) => message.channel));
+    if (channels.size !== messages.length) {
+      throw new BadRequestException('Each channel can only have one message');
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(CampaignMessage, { campaignId });
+      await manager.save(
+        messages.map((message) =>
+          manager.create(CampaignMessage, {
+            campaignId,
+            channel: message.channel,
+            subject: message.subject ?? null,
+            content: message.content,
+            templateId: message.templateId ?? null,
+          }),
+        ),
+      );
+    });
+
+    return this.findMessages(campaignId);
+  }
+
+  /**
+   * Get the delivery schedule, falling back to defaults when none has been saved
+   */
+  async getScheduleConfig(campaignId: string): Promise<CampaignScheduleConfig> {
+    await this.findOne(campaignId);
+
+    const config = await this.scheduleConfigRepository.findOne({
+      where: { campaignId },
+    });
+    return (
+      config ??
+      this.scheduleConfigRepository.create({
+        campaignId,
+        sendImmediately: false,
+        scheduledTime: null,
+        timeZone: 'UTC',
+        recurring: false,
+        recurringPattern: null,
+        batchSize: 100,
+        batchIntervalMinutes: 5,
+        respectQuietHours: true,
+        quietHoursStart: '22:00:00',
+        quietHoursEnd: '08:00:00',
+      })
+    );
+  }
+
+  async updateScheduleConfig(
+    campaignId: string,
+    dto: UpdateCampaignScheduleDto,
+  ): Promise<CampaignScheduleConfig> {
+    const campaign = await this.findOne(campaignId);
+    await this.ensureNotSent(campaign);
+
+    const config = await this.getScheduleConfig(campaignId);
+    Object.assign(config, {
+      ...dto,
+      scheduledTime:
+        dto.scheduledTime !== undefined
+          ? new Date(dto.scheduledTime)
+          : config.scheduledTime,
+    });
+
+    return this.scheduleConfigRepository.save(config);
+  }
+
+  async findSegments(campaignId: string): Promise<CampaignSegment[]> {
+    return this.segmentRepository.find({
+      where: { campaignId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async createSegment(
+    campaignId: string,
+    dto: CreateCampaignSegmentDto,
+  ): Promise<CampaignSegment> {
+    const campaign = await this.findOne(campaignId);
+    await this.ensureNotSent(campaign);
+
+    const segment = this.segmentRepository.create({
+      campaignId,
+      segmentType: dto.segmentType ?? 'criteria',
+      segmentCriteria: { ...dto.criteria },
+    });
+
+    return this.segmentRepository.save(segment);
+  }
+
+  async updateSegment(
+    campaignId: string,
+    segmentId: string,
+    dto: UpdateCampaignSegmentDto,
+  ): Promise<CampaignSegment> {
+    const campaign = await this.findOne(campaignId);
+    await this.ensureNotSent(campaign);
+
+    const segment = await this.findSegment(campaignId, segmentId);
+    if (dto.segmentType !== undefined) {
+      segment.segmentType = dto.segmentType;
+    }
+    if (dto.criteria !== undefined) {
+      segment.segmentCriteria = { ...dto.criteria };
+    }
+
+    return this.segmentRepository.save(segment);
+  }
+
+  async removeSegment(campaignId: string, segmentId: string): Promise<void> {
+    const campaign = await this.findOne(campaignId);
+    await this.ensureNotSent(campaign);
+
+    const segment = await this.findSegment(campaignId, segmentId);
+    await this.segmentRepository.remove(segment);
+  }
+
   async ensureUserCanManageCampaign(campaign: Campaign, user: AuthUser): Promise<void> {
     if (user.primaryRole === AppRole.SUPER_ADMIN) {
       return;
@@ -143,5 +302,32 @@ export class CampaignsService {
       throw new ForbiddenException('You can only manage campaigns for your assigned school');
     }
   }
+
+  private async findSegment(
+    campaignId: string,
+    segmentId: string,
+  ): Promise<CampaignSegment> {
+    const segment = await this.segmentRepository.findOne({
+      where: { id: segmentId, campaignId },
+    });
+    if (!segment) {
+      throw new NotFoundException(`Segment with ID "${segmentId}" not found`);
+    }
+    return segment;
+  }
+
+  /**
+   * Audience, messages and schedule are fixed once a campaign has been queued for delivery
+   */
+  private async ensureNotSent(campaign: Campaign): Promise<void> {
+    const queued = await this.queueRepository.count({
+      where: { campaignId: campaign.id },
+    });
+    if (queued > 0) {
+      throw new BadRequestException(
+        'Campaign has already been sent and can no longer be changed',
+      );
+    }
+  }
 }
 
@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { CampaignStatus } from '../../../common/enums/campaign-status.enum';
 import { CommunicationChannel } from '../../../common/enums/communication-channel.enum';
+import { CampaignTriggerEvent } from '../entities/campaign-automation.entity';
 
 export class CampaignResponseDto {
   @ApiProperty({
@@ -126,3 +127,248 @@ export class CampaignResponseDto {
   updatedAt: string;
 }
 
+export class CampaignMessageResponseDto {
+  @ApiProperty({
+    description: 'Message ID',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Channel',
+    enum: CommunicationChannel,
+    example: CommunicationChannel.EMAIL,
+  })
+  channel: CommunicationChannel;
+
+  @ApiPropertyOptional({
+    description: 'Subject',
+    example: 'Summer spots are open at {{schoolName}}',
+  })
+  subject: string | null;
+
+  @ApiProperty({
+    description: 'Message body',
+    example:
+      '<p>Hi {{parentName}}, we would love to welcome {{childName}}.</p>',
+  })
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Template ID',
+    example: null,
+  })
+  templateId: string | null;
+}
+
+export class CampaignScheduleResponseDto {
+  @ApiProperty({
+    description: 'Send as soon as the campaign is sent',
+    example: false,
+  })
+  sendImmediately: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Scheduled start time',
+    example: '2024-06-01T15:00:00Z',
+  })
+  scheduledTime: string | null;
+
+  @ApiProperty({
+    description: 'Time zone used for quiet hours',
+    example: 'America/Chicago',
+  })
+  timeZone: string;
+
+  @ApiProperty({ description: 'Messages per batch', example: 100 })
+  batchSize: number;
+
+  @ApiProperty({ description: 'Minutes between batches', example: 5 })
+  batchIntervalMinutes: number;
+
+  @ApiProperty({
+    description: 'Whether quiet hours are respected',
+    example: true,
+  })
+  respectQuietHours: boolean;
+
+  @ApiProperty({ description: 'Quiet hours start', example: '22:00:00' })
+  quietHoursStart: string;
+
+  @ApiProperty({ description: 'Quiet hours end', example: '08:00:00' })
+  quietHoursEnd: string;
+}
+
+export class CampaignSendResponseDto {
+  @ApiProperty({
+    description: 'Campaign ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  campaignId: string;
+
+  @ApiProperty({
+    description: 'Campaign status after queuing',
+    enum: CampaignStatus,
+    example: CampaignStatus.ACTIVE,
+  })
+  status: CampaignStatus;
+
+  @ApiProperty({ description: 'Recipients created', example: 150 })
+  recipientCount: number;
+
+  @ApiProperty({ description: 'Messages queued for delivery', example: 150 })
+  queuedCount: number;
+
+  @ApiProperty({
+    description: 'Leads skipped because they have no address for a channel',
+    example: 3,
+  })
+  skippedCount: number;
+
+  @ApiPropertyOptional({
+    description: 'When the first batch goes out',
+    example: '2024-06-01T15:00:00Z',
+  })
+  firstSendAt: string | null;
+
+  @ApiPropertyOptional({
+    description: 'When the last batch goes out',
+    example: '2024-06-01T15:05:00Z',
+  })
+  lastSendAt: string | null;
+}
+
+export class CampaignSegmentResponseDto {
+  @ApiProperty({
+    description: 'Segment ID',
+    example: '123e4567-e89b-12d3-a456-426614174020',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Segment label',
+    example: 'toddler_waitlist',
+  })
+  segmentType: string;
+
+  @ApiProperty({
+    description: 'Segment criteria',
+    example: {
+      waitlistStatuses: ['waitlisted'],
+      childAgeMonths: { min: 12, max: 35 },
+    },
+  })
+  segmentCriteria: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Created at timestamp',
+    example: '2024-05-01T10:00:00Z',
+  })
+  createdAt: string;
+}
+
+export class SegmentPreviewRecipientDto {
+  @ApiProperty({
+    description: 'Lead ID',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  leadId: string;
+
+  @ApiProperty({ description: 'Parent name', example: 'Jane Doe' })
+  parentName: string;
+
+  @ApiProperty({ description: 'Parent email', example: 'jane@example.com' })
+  parentEmail: string;
+
+  @ApiProperty({ description: 'Child name', example: 'Sam Doe' })
+  childName: string;
+
+  @ApiPropertyOptional({
+    description: 'Program of interest',
+    example: 'Toddler',
+  })
+  program: string | null;
+
+  @ApiProperty({ description: 'Lead status', example: 'waitlisted' })
+  leadStatus: string;
+
+  @ApiPropertyOptional({ description: 'Lead score', example: 72 })
+  leadScore: number | null;
+}
+
+export class SegmentPreviewResponseDto {
+  @ApiProperty({ description: 'Number of matching leads', example: 42 })
+  matchCount: number;
+
+  @ApiProperty({
+    description: 'Matching leads with an email address',
+    example: 40,
+  })
+  emailableCount: number;
+
+  @ApiProperty({
+    description: 'Sample of matching leads, newest first',
+    type: [SegmentPreviewRecipientDto],
+  })
+  sample: SegmentPreviewRecipientDto[];
+}
+
+export class CampaignAutomationResponseDto {
+  @ApiProperty({
+    description: 'Automation ID',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Automation name', example: 'Tour follow-up' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Event that fires the automation',
+    enum: CampaignTriggerEvent,
+    example: CampaignTriggerEvent.TOUR_SCHEDULED,
+  })
+  triggerEvent: CampaignTriggerEvent;
+
+  @ApiProperty({
+    description: 'Conditions the lead must meet when the event fires',
+    example: { leadStatuses: ['toured'] },
+  })
+  triggerConditions: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Campaign whose messages are sent',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  campaignTemplateId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Template campaign name',
+    example: 'Tour thank-you',
+  })
+  campaignTemplateName: string | null;
+
+  @ApiProperty({ description: 'Hours to wait before sending', example: 24 })
+  delayHours: number;
+
+  @ApiProperty({ description: 'Whether the automation fires', example: true })
+  isActive: boolean;
+
+  @ApiProperty({
+    description: 'Created at timestamp',
+    example: '2024-05-01T10:00:00Z',
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Updated at timestamp',
+    example: '2024-05-01T10:00:00Z',
+  })
+  updatedAt: string;
+}
@@ -0,0 +1,108 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SegmentCriteriaDto } from './segment-criteria.dto';
+import { CampaignTriggerEvent } from '../entities/campaign-automation.entity';
+import { LeadStatus } from '../../leads/entities/lead.entity';
+import { AutomationTriggerConditions } from '../interfaces/automation-trigger-conditions.interface';
+
+export class AutomationTriggerConditionsDto
+  extends SegmentCriteriaDto
+  implements AutomationTriggerConditions
+{
+  @ApiPropertyOptional({
+    description:
+      'Only fire when the lead moved from one of these statuses (lead_status_changed only)',
+    enum: LeadStatus,
+    isArray: true,
+    example: [LeadStatus.CONTACTED],
+  })
+  @IsArray()
+  @IsEnum(LeadStatus, { each: true })
+  @IsOptional()
+  fromStatuses?: LeadStatus[];
+}
+
+export class CreateCampaignAutomationDto {
+  @ApiProperty({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Automation name',
+    example: 'Tour follow-up',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'Event that fires the automation',
+    enum: CampaignTriggerEvent,
+    example: CampaignTriggerEvent.TOUR_SCHEDULED,
+  })
+  @IsEnum(CampaignTriggerEvent)
+  triggerEvent: CampaignTriggerEvent;
+
+  @ApiPropertyOptional({
+    description: 'Conditions the lead must meet when the event fires',
+    type: AutomationTriggerConditionsDto,
+    example: {
+      leadStatuses: ['toured'],
+      fromStatuses: ['contacted'],
+      programs: ['Preschool'],
+    },
+  })
+  @ValidateNested()
+  @Type(() => AutomationTriggerConditionsDto)
+  @IsOptional()
+  triggerConditions?: AutomationTriggerConditionsDto;
+
+  @ApiProperty({
+    description: 'Campaign whose messages are sent to the lead',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsNotEmpty()
+  campaignTemplateId: string;
+
+  @ApiPropertyOptional({
+    description: 'Hours to wait after the event before sending',
+    default: 0,
+    minimum: 0,
+    maximum: 8760,
+    example: 24,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(8760)
+  @IsOptional()
+  delayHours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the automation fires',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
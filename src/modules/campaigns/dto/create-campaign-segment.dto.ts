@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { SegmentCriteriaDto } from './segment-criteria.dto';
+
+export class CreateCampaignSegmentDto {
+  @ApiPropertyOptional({
+    description: 'Short label for the segment',
+    example: 'toddler_waitlist',
+    default: 'criteria',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  segmentType?: string;
+
+  @ApiProperty({
+    description: 'Conditions a lead must meet to be in the segment',
+    type: SegmentCriteriaDto,
+    example: {
+      waitlistStatuses: ['waitlisted'],
+      childAgeMonths: { min: 12, max: 35 },
+      zipCodes: ['60614', '60657'],
+    },
+  })
+  @ValidateNested()
+  @Type(() => SegmentCriteriaDto)
+  criteria: SegmentCriteriaDto;
+}
@@ -40,8 +40,9 @@ export class CreateCampaignDto {
   status?: CampaignStatus;
 
   @ApiPropertyOptional({
-    description: 'Target audience criteria (JSON object)',
-    example: { ageGroup: 'toddler', program: 'preschool' },
+    description:
+      'Audience criteria in the segment criteria format, used when the campaign has no segments',
+    example: { programs: ['Preschool'], childAgeMonths: { min: 36, max: 59 } },
   })
   @IsOptional()
   targetAudience?: Record<string, any>;
@@ -0,0 +1,29 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min, ValidateNested } from 'class-validator';
+import { SegmentCriteriaDto } from './segment-criteria.dto';
+
+export class PreviewSegmentDto {
+  @ApiPropertyOptional({
+    description:
+      "Criteria to preview. When omitted, the campaign's saved segments are previewed.",
+    type: SegmentCriteriaDto,
+  })
+  @ValidateNested()
+  @Type(() => SegmentCriteriaDto)
+  @IsOptional()
+  criteria?: SegmentCriteriaDto;
+
+  @ApiPropertyOptional({
+    description: 'Number of sample recipients to return',
+    example: 10,
+    default: 10,
+    minimum: 0,
+    maximum: 50,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  @IsOptional()
+  sampleSize?: number;
+}
@@ -0,0 +1,156 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { LeadSource, LeadStatus } from '../../leads/entities/lead.entity';
+import { EnrollmentStatus } from '../../enrollment/entities/enrollment.entity';
+import { LeadStatusType } from '../../../common/enums/lead-status-type.enum';
+import {
+  NumberRange,
+  SegmentCriteria,
+} from '../interfaces/segment-criteria.interface';
+
+export class NumberRangeDto implements NumberRange {
+  @ApiPropertyOptional({ description: 'Minimum (inclusive)', example: 12 })
+  @IsNumber()
+  @IsOptional()
+  min?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum (inclusive)', example: 36 })
+  @IsNumber()
+  @IsOptional()
+  max?: number;
+}
+
+export class WholeNumberRangeDto implements NumberRange {
+  @ApiPropertyOptional({ description: 'Minimum (inclusive)', example: 1 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  min?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum (inclusive)', example: 10 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  max?: number;
+}
+
+export class SegmentCriteriaDto implements SegmentCriteria {
+  @ApiPropertyOptional({
+    description: 'Lead statuses to include',
+    enum: LeadStatus,
+    isArray: true,
+    example: [LeadStatus.WAITLISTED],
+  })
+  @IsArray()
+  @IsEnum(LeadStatus, { each: true })
+  @IsOptional()
+  leadStatuses?: LeadStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Lead sources to include',
+    enum: LeadSource,
+    isArray: true,
+    example: [LeadSource.WEBSITE, LeadSource.REFERRAL],
+  })
+  @IsArray()
+  @IsEnum(LeadSource, { each: true })
+  @IsOptional()
+  leadSources?: LeadSource[];
+
+  @ApiPropertyOptional({
+    description: 'Programs of interest',
+    type: [String],
+    example: ['Toddler', 'Preschool'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  programs?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Lead score range',
+    type: NumberRangeDto,
+    example: { min: 50 },
+  })
+  @ValidateNested()
+  @Type(() => NumberRangeDto)
+  @IsOptional()
+  leadScore?: NumberRangeDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Zip codes. End an entry with * to match a prefix, e.g. "606*" for every 606xx zip code.',
+    type: [String],
+    example: ['60614', '60657', '606*'],
+  })
+  @IsArray()
+  @Matches(/^[A-Za-z0-9 -]+\*?$/, {
+    each: true,
+    message: 'each zip code must be alphanumeric, optionally ending in *',
+  })
+  @IsOptional()
+  zipCodes?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Child age in whole months, computed from the birthdate',
+    type: WholeNumberRangeDto,
+    example: { min: 12, max: 35 },
+  })
+  @ValidateNested()
+  @Type(() => WholeNumberRangeDto)
+  @IsOptional()
+  childAgeMonths?: WholeNumberRangeDto;
+
+  @ApiPropertyOptional({
+    description: 'Days since the last recorded lead activity',
+    type: WholeNumberRangeDto,
+    example: { min: 14 },
+  })
+  @ValidateNested()
+  @Type(() => WholeNumberRangeDto)
+  @IsOptional()
+  daysSinceLastActivity?: WholeNumberRangeDto;
+
+  @ApiPropertyOptional({
+    description: 'Lead has an enrollment in one of these statuses',
+    enum: EnrollmentStatus,
+    isArray: true,
+    example: [EnrollmentStatus.ACTIVE],
+  })
+  @IsArray()
+  @IsEnum(EnrollmentStatus, { each: true })
+  @IsOptional()
+  enrollmentStatuses?: EnrollmentStatus[];
+
+  @ApiPropertyOptional({
+    description: 'Lead has a waitlist entry in one of these statuses',
+    enum: LeadStatusType,
+    isArray: true,
+    example: [LeadStatusType.WAITLISTED],
+  })
+  @IsArray()
+  @IsEnum(LeadStatusType, { each: true })
+  @IsOptional()
+  waitlistStatuses?: LeadStatusType[];
+
+  @ApiPropertyOptional({
+    description: 'Lead has a waitlist entry within this position range',
+    type: WholeNumberRangeDto,
+    example: { max: 10 },
+  })
+  @ValidateNested()
+  @Type(() => WholeNumberRangeDto)
+  @IsOptional()
+  waitlistPosition?: WholeNumberRangeDto;
+}
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { CommunicationChannel } from '../../../common/enums/communication-channel.enum';
+
+export class CampaignMessageDto {
+  @ApiProperty({
+    description: 'Channel the message is sent on',
+    enum: CommunicationChannel,
+    example: CommunicationChannel.EMAIL,
+  })
+  @IsEnum(CommunicationChannel)
+  channel: CommunicationChannel;
+
+  @ApiPropertyOptional({
+    description:
+      'Email subject. Supports {{parentName}}, {{childName}}, {{program}} and {{schoolName}} placeholders.',
+    example: 'Summer spots are open at {{schoolName}}',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  subject?: string;
+
+  @ApiProperty({
+    description:
+      'Message body (HTML for email). Supports the same placeholders as the subject.',
+    example:
+      '<p>Hi {{parentName}}, we would love to welcome {{childName}} this summer.</p>',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Template the message was created from',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsOptional()
+  templateId?: string;
+}
+
+export class SetCampaignMessagesDto {
+  @ApiProperty({
+    description: 'One message per channel. Replaces the existing messages.',
+    type: [CampaignMessageDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CampaignMessageDto)
+  messages: CampaignMessageDto[];
+}
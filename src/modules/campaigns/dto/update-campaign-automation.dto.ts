@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCampaignAutomationDto } from './create-campaign-automation.dto';
+
+export class UpdateCampaignAutomationDto extends PartialType(
+  OmitType(CreateCampaignAutomationDto, ['schoolId'] as const),
+) {}
@@ -0,0 +1,86 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+export class UpdateCampaignScheduleDto {
+  @ApiPropertyOptional({
+    description: 'Start sending as soon as the campaign is sent',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  sendImmediately?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'When to start sending (ISO 8601)',
+    example: '2024-06-01T15:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  scheduledTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone used for quiet hours',
+    example: 'America/Chicago',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timeZone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Messages sent per batch',
+    example: 100,
+    minimum: 1,
+    maximum: 5000,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  @IsOptional()
+  batchSize?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes between batches',
+    example: 5,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  @IsOptional()
+  batchIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Hold messages that fall inside quiet hours until they end',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  respectQuietHours?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Quiet hours start (HH:mm, local time)',
+    example: '21:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'quietHoursStart must be HH:mm' })
+  @IsOptional()
+  quietHoursStart?: string;
+
+  @ApiPropertyOptional({
+    description: 'Quiet hours end (HH:mm, local time)',
+    example: '08:00',
+  })
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'quietHoursEnd must be HH:mm' })
+  @IsOptional()
+  quietHoursEnd?: string;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateCampaignSegmentDto } from './create-campaign-segment.dto';
+
+export class UpdateCampaignSegmentDto extends PartialType(
+  CreateCampaignSegmentDto,
+) {}
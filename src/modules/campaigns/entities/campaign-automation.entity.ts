@@ -5,8 +5,11 @@ import { Campaign } from './campaign.entity';
 
 export enum CampaignTriggerEvent {
   LEAD_CREATED = 'lead_created',
+  LEAD_STATUS_CHANGED = 'lead_status_changed',
   LEAD_SCORE_UPDATED = 'lead_score_updated',
+  TOUR_SCHEDULED = 'tour_scheduled',
   WAITLIST_ADDED = 'waitlist_added',
+  WAITLIST_OFFER_SENT = 'waitlist_offer_sent',
   ENROLLMENT_COMPLETED = 'enrollment_completed',
 }
 
@@ -0,0 +1,11 @@
+import { LeadStatus } from '../../leads/entities/lead.entity';
+import { SegmentCriteria } from './segment-criteria.interface';
+
+/**
+ * Stored in CampaignAutomation.triggerConditions. The lead must match the
+ * segment criteria at the moment the trigger event fires.
+ */
+export interface AutomationTriggerConditions extends SegmentCriteria {
+  /** lead_status_changed only: the status the lead moved from */
+  fromStatuses?: LeadStatus[];
+}
@@ -0,0 +1,32 @@
+import { LeadSource, LeadStatus } from '../../leads/entities/lead.entity';
+import { EnrollmentStatus } from '../../enrollment/entities/enrollment.entity';
+import { LeadStatusType } from '../../../common/enums/lead-status-type.enum';
+
+/** Inclusive numeric range; either bound may be omitted */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Campaign segment definition stored in CampaignSegment.segmentCriteria.
+ * All given conditions must match; a campaign's segments are combined with OR.
+ */
+export interface SegmentCriteria {
+  leadStatuses?: LeadStatus[];
+  leadSources?: LeadSource[];
+  programs?: string[];
+  leadScore?: NumberRange;
+  /** Exact zip codes, or prefixes ending in "*" (e.g. "606*") */
+  zipCodes?: string[];
+  /** Child age in whole months, computed from childBirthdate */
+  childAgeMonths?: NumberRange;
+  /** Days since lastActivityAt (createdAt when there has been no activity) */
+  daysSinceLastActivity?: NumberRange;
+  /** Lead has an enrollment in one of these statuses */
+  enrollmentStatuses?: EnrollmentStatus[];
+  /** Lead has a waitlist entry in one of these statuses */
+  waitlistStatuses?: LeadStatusType[];
+  /** Lead has a waitlist entry within this position range */
+  waitlistPosition?: NumberRange;
+}
@@ -35,6 +35,7 @@ import { ClassEntity, ClassStatus } from './entities/class.entity';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -46,6 +47,7 @@ import { SchoolEntity } from '../schools/entities/school.entity';
 @ApiTags('Classes')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(ClassEntity)
 @Controller('classes')
 export class ClassesController {
   constructor(
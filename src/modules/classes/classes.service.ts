@@ -8,11 +8,14 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ClassEntity, ClassStatus } from './entities/class.entity';
 import { CreateClassDto } from './dto/create-class.dto';
 import { UpdateClassDto } from './dto/update-class.dto';
 import { EnrollmentService } from '../enrollment/enrollment.service';
 import { EnrollmentStatus } from '../enrollment/entities/enrollment.entity';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import { ClassSeatOpenedEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class ClassesService {
@@ -23,6 +26,7 @@ export class ClassesService {
     private readonly classRepository: Repository<ClassEntity>,
     @Inject(forwardRef(() => EnrollmentService))
     private readonly enrollmentService: EnrollmentService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   /**
@@ -216,7 +220,20 @@ export class ClassesService {
     });
 
     classEntity.currentEnrollment = enrollments.total;
-    return this.classRepository.save(classEntity);
+    const savedClass = await this.classRepository.save(classEntity);
+
+    // Free seats go to the waitlist when the program has automatic progression on
+    if (
+      savedClass.capacity != null &&
+      enrollments.total < savedClass.capacity
+    ) {
+      this.eventEmitter.emit(DomainEvent.CLASS_SEAT_OPENED, {
+        classId: savedClass.id,
+        schoolId: savedClass.schoolId,
+        reason: 'enrollment_count',
+      } satisfies ClassSeatOpenedEvent);
+    }
+    return savedClass;
   }
 
   /**
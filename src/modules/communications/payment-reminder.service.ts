@@ -2,7 +2,7 @@ import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nest
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { NotificationTemplate } from './entities/notification-template.entity';
-import { Notification } from './entities/notification.entity';
+import { Notification, NotificationType } from './entities/notification.entity';
 import { LeadEntity } from '../leads/entities/lead.entity';
 import { ProfileEntity } from '../users/entities/profile.entity';
 import { SchoolEntity, SchoolSubscriptionStatus } from '../schools/entities/school.entity';
@@ -10,6 +10,41 @@ import { MailerService } from '../mailer/mailer.service';
 import { SendPaymentReminderDto } from './dto/send-payment-reminder.dto';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
 import { AppRole } from '../../common/enums/app-role.enum';
+import { DunningLevel } from '../invoices/entities/late-fee-policy.entity';
+
+export interface OverdueInvoiceReminder {
+  recipientEmail: string;
+  schoolId: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  amountDue: number; // Amount in cents
+  dueDate: string;
+  daysOverdue: number;
+  level: DunningLevel;
+}
+
+/** Used when a school has no template for the dunning level */
+const DEFAULT_OVERDUE_REMINDERS: Record<
+  DunningLevel,
+  { subject: string; content: string }
+> = {
+  [DunningLevel.REMINDER]: {
+    subject:
+      'Payment reminder: invoice {{invoice_number}} from {{school_name}}',
+    content:
+      '<p>Hi {{parent_name}},</p><p>This is a friendly reminder that invoice {{invoice_number}} for {{amount}} was due on {{due_date}}. If you have already paid, please disregard this message.</p><p>{{school_name}}</p>',
+  },
+  [DunningLevel.WARNING]: {
+    subject: 'Overdue: invoice {{invoice_number}} from {{school_name}}',
+    content:
+      '<p>Hi {{parent_name}},</p><p>Invoice {{invoice_number}} for {{amount}} is now {{days_overdue}} days overdue. Please make a payment as soon as possible or contact us to arrange one.</p><p>{{school_name}}</p>',
+  },
+  [DunningLevel.FINAL]: {
+    subject: 'Final notice: invoice {{invoice_number}} from {{school_name}}',
+    content:
+      '<p>Hi {{parent_name}},</p><p>Invoice {{invoice_number}} for {{amount}} is {{days_overdue}} days overdue. This is our final notice. Please pay the balance or contact the school office right away.</p><p>{{school_name}}</p>',
+  },
+};
 
 @Injectable()
 export class PaymentReminderService {
@@ -208,6 +243,91 @@ export class PaymentReminderService {
     return { success: true, notificationsSent };
   }
 
+  /**
+   * Send one dunning reminder for an overdue invoice. Uses the school's
+   * active `payment_reminder_<level>` template, then the general
+   * `payment_reminder` template, then built-in wording for the level.
+   */
+  async sendOverdueInvoiceReminder(
+    reminder: OverdueInvoiceReminder,
+  ): Promise<boolean> {
+    const [levelTemplate, generalTemplate, school, profile] = await Promise.all(
+      [
+        this.notificationTemplateRepository.findOne({
+          where: { type: `payment_reminder_${reminder.level}`, active: true },
+        }),
+        this.notificationTemplateRepository.findOne({
+          where: { type: 'payment_reminder', active: true },
+        }),
+        this.schoolRepository.findOne({
+          where: { id: reminder.schoolId },
+          select: ['id', 'name'],
+        }),
+        this.profileRepository
+          .createQueryBuilder('profile')
+          .select(['profile.id', 'profile.firstName', 'profile.lastName'])
+          .where('LOWER(profile.email) = LOWER(:email)', {
+            email: reminder.recipientEmail,
+          })
+          .getOne(),
+      ],
+    );
+
+    const template =
+      levelTemplate ??
+      generalTemplate ??
+      DEFAULT_OVERDUE_REMINDERS[reminder.level];
+    const parentName = [profile?.firstName, profile?.lastName]
+      .filter(Boolean)
+      .join(' ');
+    const variables = {
+      parent_name: parentName || 'Parent',
+      amount: `$${(reminder.amountDue / 100).toFixed(2)}`,
+      due_date: reminder.dueDate,
+      days_overdue: String(reminder.daysOverdue),
+      invoice_number: reminder.invoiceNumber,
+      school_name: school?.name || 'PreSchool Pro',
+    };
+    const subject = this.replaceVariables(template.subject, variables);
+    const content = this.replaceVariables(template.content, variables);
+
+    const result = await this.mailerService.sendEmail({
+      to: reminder.recipientEmail,
+      subject,
+      html: content,
+      emailType: 'payment_reminder',
+      userId: profile?.id,
+      schoolId: reminder.schoolId,
+      metadata: {
+        invoiceId: reminder.invoiceId,
+        amount: reminder.amountDue,
+        dueDate: reminder.dueDate,
+        dunningLevel: reminder.level,
+      },
+    });
+
+    if (!result.success) {
+      this.logger.error(
+        `Failed to send ${reminder.level} reminder for invoice ${reminder.invoiceNumber} to ${reminder.recipientEmail}: ${result.error ?? result.reason}`,
+      );
+      return false;
+    }
+
+    if (profile) {
+      await this.notificationRepository.save(
+        this.notificationRepository.create({
+          userId: profile.id,
+          type: NotificationType.PAYMENT_REMINDER,
+          title: subject,
+          message: content,
+          read: false,
+        }),
+      );
+    }
+
+    return true;
+  }
+
   /**
    * Replace template variables
    */
@@ -4,8 +4,12 @@ import { EmailType } from '../../../common/enums/email-type.enum';
 
 @Entity('email_preferences')
 export class EmailPreference extends BaseEntity {
-  @Column({ name: 'user_id', type: 'uuid' })
-  userId: string;
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId: string | null;
+
+  // Set for recipients without an account (e.g. leads), stored lowercased
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
 
   @Column({ name: 'school_id', type: 'uuid', nullable: true })
   schoolId: string | null;
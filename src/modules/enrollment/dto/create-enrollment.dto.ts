@@ -1,6 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsUUID, IsNotEmpty, IsString, MaxLength, IsEnum, IsOptional, IsDateString, IsNumber, Min } from 'class-validator';
-import { EnrollmentStatus } from '../entities/enrollment.entity';
+import { BillingCycle, EnrollmentStatus } from '../entities/enrollment.entity';
 
 export class CreateEnrollmentDto {
   @ApiProperty({
@@ -58,7 +58,7 @@ export class CreateEnrollmentDto {
   endDate?: string;
 
   @ApiPropertyOptional({
-    description: 'Tuition amount',
+    description: 'Tuition amount invoiced every billing cycle',
     example: 1200.0,
     type: Number,
   })
@@ -67,6 +67,15 @@ export class CreateEnrollmentDto {
   @Min(0)
   tuitionAmount?: number;
 
+  @ApiPropertyOptional({
+    description: 'How often tuition is invoiced',
+    enum: BillingCycle,
+    default: BillingCycle.MONTHLY,
+  })
+  @IsEnum(BillingCycle)
+  @IsOptional()
+  billingCycle?: BillingCycle;
+
   @ApiPropertyOptional({
     description: 'Registration fee',
     example: 150.0,
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { EnrollmentStatus } from '../entities/enrollment.entity';
+import { BillingCycle, EnrollmentStatus } from '../entities/enrollment.entity';
 
 export class EnrollmentResponseDto {
   @ApiProperty({
@@ -48,12 +48,19 @@ export class EnrollmentResponseDto {
   endDate: Date | null;
 
   @ApiPropertyOptional({
-    description: 'Tuition amount',
+    description: 'Tuition amount invoiced every billing cycle',
     example: 1200.0,
     nullable: true,
   })
   tuitionAmount: number | null;
 
+  @ApiProperty({
+    description: 'How often tuition is invoiced',
+    enum: BillingCycle,
+    example: BillingCycle.MONTHLY,
+  })
+  billingCycle: BillingCycle;
+
   @ApiPropertyOptional({
     description: 'Registration fee',
     example: 150.0,
@@ -0,0 +1,187 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { EnrollmentQueueStatus } from '../entities/enrollment-queue.entity';
+import { WaitlistPriorityCriteria } from '../interfaces/waitlist-priority-criteria.interface';
+
+export class WaitlistPriorityCriteriaDto implements WaitlistPriorityCriteria {
+  @ApiPropertyOptional({
+    description: 'Hours a family has to accept an offer',
+    default: 48,
+    example: 72,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  @IsOptional()
+  offerExpiryHours?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only offer seats to families who paid the waitlist fee',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  requirePaidDeposit?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Registration fee in dollars collected when a family accepts an offer',
+    default: 0,
+    example: 150,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  registrationFee?: number;
+}
+
+export class UpsertWaitlistAutomationConfigDto {
+  @ApiProperty({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Program the config applies to (matches the class program)',
+    example: 'Preschool',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  program: string;
+
+  @ApiPropertyOptional({
+    description: 'Offer open seats automatically',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  autoProgressionEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minimum lead score a family needs to receive an offer',
+    default: 0,
+    example: 40,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  minScoreThreshold?: number;
+
+  @ApiPropertyOptional({
+    description: 'Offer expiry and eligibility rules',
+    type: WaitlistPriorityCriteriaDto,
+  })
+  @ValidateNested()
+  @Type(() => WaitlistPriorityCriteriaDto)
+  @IsOptional()
+  priorityCriteria?: WaitlistPriorityCriteriaDto;
+
+  @ApiPropertyOptional({
+    description: 'Email the family when a seat is offered',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notificationEnabled?: boolean;
+}
+
+export class WaitlistAutomationConfigResponseDto {
+  @ApiProperty({ description: 'Config ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Program', example: 'Preschool' })
+  program: string;
+
+  @ApiProperty({ description: 'Offer open seats automatically' })
+  autoProgressionEnabled: boolean;
+
+  @ApiProperty({ description: 'Minimum lead score', example: 40 })
+  minScoreThreshold: number;
+
+  @ApiProperty({
+    description: 'Offer expiry and eligibility rules',
+    type: WaitlistPriorityCriteriaDto,
+  })
+  priorityCriteria: WaitlistPriorityCriteriaDto;
+
+  @ApiProperty({ description: 'Email the family when a seat is offered' })
+  notificationEnabled: boolean;
+
+  @ApiProperty({ description: 'Created at', example: '2024-01-15T10:30:00Z' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Updated at', example: '2024-01-15T10:30:00Z' })
+  updatedAt: string;
+}
+
+export class WaitlistOfferResponseDto {
+  @ApiProperty({ description: 'Enrollment queue entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Lead ID' })
+  leadId: string;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiPropertyOptional({ description: 'Parent name', nullable: true })
+  parentName: string | null;
+
+  @ApiProperty({ description: 'Class ID' })
+  classId: string;
+
+  @ApiPropertyOptional({ description: 'Class name', nullable: true })
+  className: string | null;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Waitlist position when offered', example: 1 })
+  queuePosition: number;
+
+  @ApiProperty({ description: 'Priority score when offered', example: 50 })
+  priorityScore: number;
+
+  @ApiProperty({ description: 'Offer status', enum: EnrollmentQueueStatus })
+  status: EnrollmentQueueStatus;
+
+  @ApiPropertyOptional({
+    description: 'When the offer was made',
+    nullable: true,
+  })
+  offerDate: string | null;
+
+  @ApiPropertyOptional({ description: 'When the offer lapses', nullable: true })
+  offerExpiresAt: string | null;
+
+  @ApiPropertyOptional({ description: 'Notes', nullable: true })
+  notes: string | null;
+}
+
+export class WaitlistProgressionResponseDto {
+  @ApiProperty({ description: 'Offers made', example: 1 })
+  offersSent: number;
+
+  @ApiProperty({ description: 'Offers expired', example: 0 })
+  offersExpired: number;
+}
@@ -0,0 +1,3 @@
+export const WAITLIST_OFFERS_QUEUE = 'waitlist-offers';
+
+export const EXPIRE_WAITLIST_OFFERS_JOB = 'expire-waitlist-offers';
@@ -43,6 +43,7 @@ import { SchoolEntity } from '../schools/entities/school.entity';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -52,6 +53,7 @@ import { Repository } from 'typeorm';
 @ApiTags('Enrollments')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(EnrollmentEntity)
 @Controller('enrollments')
 export class EnrollmentController {
   constructor(
@@ -808,6 +810,7 @@ export class EnrollmentController {
       notes: enrollment.notes,
       tuitionAmount: enrollment.tuitionAmount,
       registrationFee: enrollment.registrationFee,
+      billingCycle: enrollment.billingCycle,
       createdAt: enrollment.createdAt,
       updatedAt: enrollment.updatedAt,
     };
@@ -1,17 +1,24 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { EnrollmentService } from './enrollment.service';
 import { EnrollmentController } from './enrollment.controller';
+import { WaitlistProgressionService } from './waitlist-progression.service';
+import { WaitlistOfferProcessor } from './waitlist-offer.processor';
+import { WaitlistAutomationController } from './waitlist-automation.controller';
 import { EnrollmentEntity } from './entities/enrollment.entity';
 import { WaitlistAutomationConfig } from './entities/waitlist-automation-config.entity';
 import { Waitlist } from './entities/waitlist.entity';
 import { EnrollmentQueue } from './entities/enrollment-queue.entity';
 import { EnrollmentPacketTracking } from './entities/enrollment-packet-tracking.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
+import { ClassEntity } from '../classes/entities/class.entity';
 import { LeadsModule } from '../leads/leads.module';
 import { ClassesModule } from '../classes/classes.module';
 import { MediaModule } from '../media/media.module';
 import { MailerModule } from '../mailer/mailer.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { WAITLIST_OFFERS_QUEUE } from './enrollment.constants';
 
 @Module({
   imports: [
@@ -22,14 +29,21 @@ import { MailerModule } from '../mailer/mailer.module';
       EnrollmentQueue,
       EnrollmentPacketTracking,
       SchoolEntity,
+      ClassEntity,
     ]),
     LeadsModule,
     MediaModule,
     MailerModule,
+    WaitlistModule,
     forwardRef(() => ClassesModule),
+    BullModule.registerQueue({ name: WAITLIST_OFFERS_QUEUE }),
   ],
-  controllers: [EnrollmentController],
-  providers: [EnrollmentService],
-  exports: [EnrollmentService],
+  controllers: [EnrollmentController, WaitlistAutomationController],
+  providers: [
+    EnrollmentService,
+    WaitlistProgressionService,
+    WaitlistOfferProcessor,
+  ],
+  exports: [EnrollmentService, WaitlistProgressionService],
 })
 export class EnrollmentModule {}
@@ -6,7 +6,8 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { EnrollmentEntity, EnrollmentStatus } from './entities/enrollment.entity';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BillingCycle, EnrollmentEntity, EnrollmentStatus } from './entities/enrollment.entity';
 import { CreateEnrollmentDto } from './dto/create-enrollment.dto';
 import { UpdateEnrollmentDto } from './dto/update-enrollment.dto';
 import { SendEnrollmentPacketDto } from './dto/send-enrollment-packet.dto';
@@ -14,6 +15,8 @@ import { LeadsService } from '../leads/leads.service';
 import { S3Service } from '../media/s3.service';
 import { MailerService } from '../mailer/mailer.service';
 import { EnrollmentPacketTracking, PacketTrackingStatus } from './entities/enrollment-packet-tracking.entity';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import { ClassSeatOpenedEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class EnrollmentService {
@@ -27,6 +30,7 @@ export class EnrollmentService {
     private readonly leadsService: LeadsService,
     private readonly s3Service: S3Service,
     private readonly mailerService: MailerService,
+    private readonly eventEmitter: EventEmitter2,
   ) { }
 
   /**
@@ -44,6 +48,7 @@ export class EnrollmentService {
       endDate: createEnrollmentDto.endDate ? new Date(createEnrollmentDto.endDate) : null,
       tuitionAmount: createEnrollmentDto.tuitionAmount ?? null,
       registrationFee: createEnrollmentDto.registrationFee ?? null,
+      billingCycle: createEnrollmentDto.billingCycle ?? BillingCycle.MONTHLY,
       status: createEnrollmentDto.status || EnrollmentStatus.ACTIVE,
       notes: createEnrollmentDto.notes ?? null,
     });
@@ -231,6 +236,7 @@ export class EnrollmentService {
     this.logger.log(`Updating enrollment ${id} status to ${status}`);
 
     const enrollment = await this.findOne(id);
+    const previousStatus = enrollment.status;
     enrollment.status = status;
 
     if (endDate) {
@@ -245,7 +251,21 @@ export class EnrollmentService {
       enrollment.endDate = new Date();
     }
 
-    return this.enrollmentRepository.save(enrollment);
+    const savedEnrollment = await this.enrollmentRepository.save(enrollment);
+
+    // A withdrawal frees the child's seat for the class waitlist
+    if (
+      status === EnrollmentStatus.WITHDRAWN &&
+      previousStatus === EnrollmentStatus.ACTIVE &&
+      savedEnrollment.classId
+    ) {
+      this.eventEmitter.emit(DomainEvent.CLASS_SEAT_OPENED, {
+        classId: savedEnrollment.classId,
+        schoolId: savedEnrollment.schoolId,
+        reason: 'withdrawal',
+      } satisfies ClassSeatOpenedEvent);
+    }
+    return savedEnrollment;
   }
 
   /**
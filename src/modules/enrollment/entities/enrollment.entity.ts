@@ -12,6 +12,12 @@ export enum EnrollmentStatus {
   WITHDRAWN = 'withdrawn',
 }
 
+export enum BillingCycle {
+  WEEKLY = 'weekly',
+  BIWEEKLY = 'biweekly',
+  MONTHLY = 'monthly',
+}
+
 @Entity({ name: 'enrollment' })
 export class EnrollmentEntity extends BaseEntity {
   @Column({ type: 'uuid', nullable: false, name: 'lead_id' })
@@ -50,6 +56,15 @@ export class EnrollmentEntity extends BaseEntity {
   @Column({ type: 'numeric', precision: 10, scale: 2, name: 'registration_fee', nullable: true })
   registrationFee: number | null;
 
+  // tuitionAmount is invoiced once per cycle
+  @Column({
+    type: 'enum',
+    enum: BillingCycle,
+    default: BillingCycle.MONTHLY,
+    name: 'billing_cycle',
+  })
+  billingCycle: BillingCycle;
+
   @Column({
     type: 'enum',
     enum: EnrollmentStatus,
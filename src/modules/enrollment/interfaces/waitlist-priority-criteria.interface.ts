@@ -0,0 +1,16 @@
+/**
+ * Shape of WaitlistAutomationConfig.priorityCriteria
+ */
+export interface WaitlistPriorityCriteria {
+  /** Hours a family has to accept an offer (default 48) */
+  offerExpiryHours?: number;
+  /** Only offer seats to families who paid the waitlist fee */
+  requirePaidDeposit?: boolean;
+  /** Registration fee in dollars collected when a family accepts an offer */
+  registrationFee?: number;
+}
+
+export interface WaitlistProgressionResult {
+  offersSent: number;
+  offersExpired: number;
+}
@@ -0,0 +1,316 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WaitlistProgressionService } from './waitlist-progression.service';
+import { WaitlistAutomationConfig } from './entities/waitlist-automation-config.entity';
+import {
+  EnrollmentQueue,
+  EnrollmentQueueStatus,
+} from './entities/enrollment-queue.entity';
+import {
+  UpsertWaitlistAutomationConfigDto,
+  WaitlistAutomationConfigResponseDto,
+  WaitlistOfferResponseDto,
+  WaitlistProgressionResponseDto,
+} from './dto/waitlist-automation.dto';
+import { WaitlistPriorityCriteria } from './interfaces/waitlist-priority-criteria.interface';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { ClassEntity } from '../classes/entities/class.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Waitlist Automation')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('waitlist-automation')
+export class WaitlistAutomationController {
+  constructor(
+    private readonly waitlistProgressionService: WaitlistProgressionService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectRepository(ClassEntity)
+    private readonly classRepository: Repository<ClassEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException('You can only manage your own school');
+    }
+  }
+
+  @Get('configs')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'List waitlist automation configs',
+    description:
+      'One config per program controls whether open seats are offered automatically, who is eligible and how long an offer lasts.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'School ID (required unless super admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Configs retrieved successfully',
+    type: [WaitlistAutomationConfigResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findConfigs(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<{ data: WaitlistAutomationConfigResponseDto[]; total: number }> {
+    const isSuperAdmin = user.primaryRole === AppRole.SUPER_ADMIN;
+    const filterSchoolId =
+      schoolId ?? (isSuperAdmin ? undefined : (user.schoolId ?? undefined));
+    if (!isSuperAdmin) {
+      await this.ensureUserCanManageSchool(user, filterSchoolId);
+    }
+
+    const configs =
+      await this.waitlistProgressionService.findConfigs(filterSchoolId);
+    return {
+      data: configs.map((config) => this.mapConfigToResponseDto(config)),
+      total: configs.length,
+    };
+  }
+
+  @Put('configs')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Create or update a waitlist automation config',
+    description:
+      'Upsert the config of a school program. Omitted fields keep their current value.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Config saved successfully',
+    type: WaitlistAutomationConfigResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid input' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async upsertConfig(
+    @Body() upsertDto: UpsertWaitlistAutomationConfigDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistAutomationConfigResponseDto> {
+    await this.ensureUserCanManageSchool(user, upsertDto.schoolId);
+
+    const config =
+      await this.waitlistProgressionService.upsertConfig(upsertDto);
+    return this.mapConfigToResponseDto(config);
+  }
+
+  @Delete('configs/:id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a waitlist automation config',
+    description:
+      'Turns automatic offers off for the program. Outstanding offers still expire.',
+  })
+  @ApiParam({ name: 'id', description: 'Config ID' })
+  @ApiResponse({ status: 204, description: 'Config deleted successfully' })
+  @ApiNotFoundResponse({ description: 'Config not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async removeConfig(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const config = await this.waitlistProgressionService.findConfig(id);
+    await this.ensureUserCanManageSchool(user, config.schoolId);
+    await this.waitlistProgressionService.removeConfig(id);
+  }
+
+  @Get('offers')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'List seat offers',
+    description:
+      'Seat offers made to waitlisted families, newest first (at most 500).',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'School ID (required unless super admin)',
+  })
+  @ApiQuery({ name: 'classId', required: false, type: String })
+  @ApiQuery({ name: 'status', required: false, enum: EnrollmentQueueStatus })
+  @ApiResponse({
+    status: 200,
+    description: 'Offers retrieved successfully',
+    type: [WaitlistOfferResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findOffers(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+    @Query('classId') classId?: string,
+    @Query('status') status?: EnrollmentQueueStatus,
+  ): Promise<{ data: WaitlistOfferResponseDto[]; total: number }> {
+    const isSuperAdmin = user.primaryRole === AppRole.SUPER_ADMIN;
+    const filterSchoolId =
+      schoolId ?? (isSuperAdmin ? undefined : (user.schoolId ?? undefined));
+    if (!isSuperAdmin) {
+      await this.ensureUserCanManageSchool(user, filterSchoolId);
+    }
+    if (status && !Object.values(EnrollmentQueueStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status "${status}"`);
+    }
+
+    const offers = await this.waitlistProgressionService.findOffers({
+      schoolId: filterSchoolId,
+      classId,
+      status,
+    });
+    return {
+      data: offers.map((offer) => this.mapOfferToResponseDto(offer)),
+      total: offers.length,
+    };
+  }
+
+  @Post('classes/:classId/progress')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Offer open seats of a class now',
+    description:
+      "Offer every open seat of the class to the next eligible waitlisted families using the program's config.",
+  })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Waitlist progressed successfully',
+    type: WaitlistProgressionResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Class not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async progressClass(
+    @Param('classId') classId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistProgressionResponseDto> {
+    const classEntity = await this.classRepository.findOne({
+      where: { id: classId },
+      select: ['id', 'schoolId'],
+    });
+    if (!classEntity) {
+      throw new NotFoundException(`Class with ID "${classId}" not found`);
+    }
+    await this.ensureUserCanManageSchool(user, classEntity.schoolId);
+
+    return this.waitlistProgressionService.progressClass(classId);
+  }
+
+  private mapConfigToResponseDto(
+    config: WaitlistAutomationConfig,
+  ): WaitlistAutomationConfigResponseDto {
+    return {
+      id: config.id,
+      schoolId: config.schoolId,
+      program: config.program,
+      autoProgressionEnabled: config.autoProgressionEnabled,
+      minScoreThreshold: config.minScoreThreshold,
+      priorityCriteria: (config.priorityCriteria ??
+        {}) as WaitlistPriorityCriteria,
+      notificationEnabled: config.notificationEnabled,
+      createdAt: config.createdAt.toISOString(),
+      updatedAt: config.updatedAt.toISOString(),
+    };
+  }
+
+  private mapOfferToResponseDto(
+    offer: EnrollmentQueue,
+  ): WaitlistOfferResponseDto {
+    return {
+      id: offer.id,
+      leadId: offer.leadId,
+      childName: offer.lead?.childName ?? null,
+      parentName: offer.lead?.parentName ?? null,
+      classId: offer.classId,
+      className: offer.class?.name ?? null,
+      schoolId: offer.schoolId,
+      queuePosition: offer.queuePosition,
+      priorityScore: offer.priorityScore,
+      status: offer.status,
+      offerDate: offer.offerDate?.toISOString() ?? null,
+      offerExpiresAt: offer.offerExpiresAt?.toISOString() ?? null,
+      notes: offer.notes,
+    };
+  }
+}
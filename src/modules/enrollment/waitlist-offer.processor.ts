@@ -0,0 +1,46 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { WaitlistProgressionService } from './waitlist-progression.service';
+import { WaitlistProgressionResult } from './interfaces/waitlist-priority-criteria.interface';
+import {
+  EXPIRE_WAITLIST_OFFERS_JOB,
+  WAITLIST_OFFERS_QUEUE,
+} from './enrollment.constants';
+
+const POLL_INTERVAL_MS = 5 * 60_000;
+
+/**
+ * Expires lapsed waitlist offers every five minutes and rolls their seats on
+ */
+@Processor(WAITLIST_OFFERS_QUEUE)
+export class WaitlistOfferProcessor implements OnModuleInit {
+  private readonly logger = new Logger(WaitlistOfferProcessor.name);
+
+  constructor(
+    @InjectQueue(WAITLIST_OFFERS_QUEUE)
+    private readonly offersQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly waitlistProgressionService: WaitlistProgressionService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.offersQueue,
+      EXPIRE_WAITLIST_OFFERS_JOB,
+      { every: POLL_INTERVAL_MS },
+    );
+  }
+
+  @Process(EXPIRE_WAITLIST_OFFERS_JOB)
+  async expireOffers(): Promise<WaitlistProgressionResult> {
+    const result = await this.waitlistProgressionService.expireOffers();
+    if (result.offersExpired > 0) {
+      this.logger.log(
+        `Expired ${result.offersExpired} waitlist offers and made ${result.offersSent} new ones`,
+      );
+    }
+    return result;
+  }
+}
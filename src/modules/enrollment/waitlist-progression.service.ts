@@ -0,0 +1,537 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { DataSource, EntityManager, LessThan, Repository } from 'typeorm';
+import { Waitlist } from './entities/waitlist.entity';
+import { WaitlistAutomationConfig } from './entities/waitlist-automation-config.entity';
+import {
+  EnrollmentQueue,
+  EnrollmentQueueStatus,
+} from './entities/enrollment-queue.entity';
+import {
+  EnrollmentEntity,
+  EnrollmentStatus,
+} from './entities/enrollment.entity';
+import {
+  WaitlistPriorityCriteria,
+  WaitlistProgressionResult,
+} from './interfaces/waitlist-priority-criteria.interface';
+import { UpsertWaitlistAutomationConfigDto } from './dto/waitlist-automation.dto';
+import { ClassEntity, ClassStatus } from '../classes/entities/class.entity';
+import { LeadStatus } from '../leads/entities/lead.entity';
+import { LeadsService } from '../leads/leads.service';
+import { MailerService } from '../mailer/mailer.service';
+import { WaitlistOfferResponseService } from '../waitlist/waitlist-offer-response.service';
+import { LeadStatusType } from '../../common/enums/lead-status-type.enum';
+import { EmailType } from '../../common/enums/email-type.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type {
+  ClassSeatOpenedEvent,
+  WaitlistEvent,
+} from '../../common/interfaces/domain-event.interface';
+
+const DEFAULT_OFFER_EXPIRY_HOURS = 48;
+const MS_PER_HOUR = 60 * 60_000;
+const EXPIRY_BATCH_SIZE = 200;
+
+interface SeatOffer {
+  entry: Waitlist;
+  queueEntry: EnrollmentQueue;
+  classEntity: ClassEntity;
+  config: WaitlistAutomationConfig;
+}
+
+/**
+ * Offers open class seats to waitlisted families. When a seat opens the next
+ * eligible family (by priority, then waitlist position) gets a timed offer;
+ * offers that lapse are expired by a scheduled job and the seat rolls on to
+ * the next family. EnrollmentQueue records every offer made for a class.
+ */
+@Injectable()
+export class WaitlistProgressionService {
+  private readonly logger = new Logger(WaitlistProgressionService.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    @InjectRepository(WaitlistAutomationConfig)
+    private readonly configRepository: Repository<WaitlistAutomationConfig>,
+    @InjectRepository(EnrollmentQueue)
+    private readonly queueRepository: Repository<EnrollmentQueue>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    private readonly dataSource: DataSource,
+    private readonly leadsService: LeadsService,
+    private readonly mailerService: MailerService,
+    private readonly waitlistOfferResponseService: WaitlistOfferResponseService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {
+    this.frontendUrl = (
+      this.configService.get<string>('app.frontendUrl') ||
+      this.configService.get<string>('APP_URL', 'http://localhost:5173')
+    ).replace(/\/+$/, '');
+  }
+
+  async findConfigs(schoolId?: string): Promise<WaitlistAutomationConfig[]> {
+    return this.configRepository.find({
+      where: schoolId ? { schoolId } : {},
+      order: { program: 'ASC' },
+    });
+  }
+
+  async findConfig(id: string): Promise<WaitlistAutomationConfig> {
+    const config = await this.configRepository.findOne({ where: { id } });
+
+    if (!config) {
+      throw new NotFoundException(
+        `Waitlist automation config with ID "${id}" not found`,
+      );
+    }
+
+    return config;
+  }
+
+  /**
+   * Create or update the config of a school program
+   */
+  async upsertConfig(
+    dto: UpsertWaitlistAutomationConfigDto,
+  ): Promise<WaitlistAutomationConfig> {
+    const config =
+      (await this.configRepository.findOne({
+        where: { schoolId: dto.schoolId, program: dto.program },
+      })) ??
+      this.configRepository.create({
+        schoolId: dto.schoolId,
+        program: dto.program,
+        autoProgressionEnabled: true,
+        minScoreThreshold: 0,
+        priorityCriteria: {},
+        notificationEnabled: true,
+      });
+
+    if (dto.autoProgressionEnabled !== undefined) {
+      config.autoProgressionEnabled = dto.autoProgressionEnabled;
+    }
+    if (dto.minScoreThreshold !== undefined) {
+      config.minScoreThreshold = dto.minScoreThreshold;
+    }
+    if (dto.notificationEnabled !== undefined) {
+      config.notificationEnabled = dto.notificationEnabled;
+    }
+    if (dto.priorityCriteria !== undefined) {
+      config.priorityCriteria = {
+        ...(config.priorityCriteria ?? {}),
+        ...dto.priorityCriteria,
+      };
+    }
+
+    return this.configRepository.save(config);
+  }
+
+  async removeConfig(id: string): Promise<void> {
+    const config = await this.findConfig(id);
+    await this.configRepository.remove(config);
+  }
+
+  async findOffers(options: {
+    schoolId?: string;
+    classId?: string;
+    status?: EnrollmentQueueStatus;
+  }): Promise<EnrollmentQueue[]> {
+    const queryBuilder = this.queueRepository
+      .createQueryBuilder('queue')
+      .leftJoinAndSelect('queue.lead', 'lead')
+      .leftJoinAndSelect('queue.class', 'class')
+      .orderBy('queue.created_at', 'DESC')
+      .take(500);
+
+    if (options.schoolId) {
+      queryBuilder.andWhere('queue.school_id = :schoolId', {
+        schoolId: options.schoolId,
+      });
+    }
+    if (options.classId) {
+      queryBuilder.andWhere('queue.class_id = :classId', {
+        classId: options.classId,
+      });
+    }
+    if (options.status) {
+      queryBuilder.andWhere('queue.status = :status', {
+        status: options.status,
+      });
+    }
+
+    return queryBuilder.getMany();
+  }
+
+  @OnEvent(DomainEvent.CLASS_SEAT_OPENED, { async: true })
+  async handleSeatOpened(event: ClassSeatOpenedEvent): Promise<void> {
+    try {
+      await this.progressClass(event.classId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to progress the waitlist of class ${event.classId} after ${event.reason}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Offer every open seat of the class to the next eligible families.
+   * Safe to call repeatedly: outstanding offers hold their seat.
+   */
+  async progressClass(classId: string): Promise<WaitlistProgressionResult> {
+    const offers = await this.dataSource.transaction(async (manager) => {
+      // Locking the class serializes progression so a seat is offered once
+      const classEntity = await manager.findOne(ClassEntity, {
+        where: { id: classId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!classEntity) {
+        throw new NotFoundException(`Class with ID "${classId}" not found`);
+      }
+      if (!classEntity.program) {
+        return [];
+      }
+
+      const config = await manager.findOne(WaitlistAutomationConfig, {
+        where: {
+          schoolId: classEntity.schoolId,
+          program: classEntity.program,
+        },
+      });
+      if (!config?.autoProgressionEnabled) {
+        return [];
+      }
+
+      const made: SeatOffer[] = [];
+      let openSeats = await this.countOpenSeats(manager, classEntity);
+      while (openSeats > 0) {
+        const entry = await this.findNextCandidate(
+          manager,
+          classEntity,
+          config,
+        );
+        if (!entry) {
+          break;
+        }
+        made.push(await this.makeOffer(manager, entry, classEntity, config));
+        openSeats--;
+      }
+      return made;
+    });
+
+    for (const offer of offers) {
+      await this.announceOffer(offer);
+    }
+
+    return { offersSent: offers.length, offersExpired: 0 };
+  }
+
+  /**
+   * Expire lapsed offers and roll their seats on to the next families.
+   * Called by the scheduled job.
+   */
+  async expireOffers(): Promise<WaitlistProgressionResult> {
+    const lapsed = await this.queueRepository.find({
+      where: {
+        status: EnrollmentQueueStatus.OFFERED,
+        offerExpiresAt: LessThan(new Date()),
+      },
+      order: { offerExpiresAt: 'ASC' },
+      take: EXPIRY_BATCH_SIZE,
+    });
+
+    const classIds = new Set<string>();
+    let offersExpired = 0;
+    for (const queueEntry of lapsed) {
+      try {
+        if (await this.expireOffer(queueEntry)) {
+          offersExpired++;
+        }
+        classIds.add(queueEntry.classId);
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire waitlist offer ${queueEntry.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    let offersSent = 0;
+    for (const classId of classIds) {
+      try {
+        offersSent += (await this.progressClass(classId)).offersSent;
+      } catch (error) {
+        this.logger.error(
+          `Failed to progress the waitlist of class ${classId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return { offersSent, offersExpired };
+  }
+
+  /**
+   * Returns false when the family enrolled before the offer lapsed
+   */
+  private async expireOffer(queueEntry: EnrollmentQueue): Promise<boolean> {
+    const enrolled = await this.enrollmentRepository.count({
+      where: {
+        leadId: queueEntry.leadId,
+        classId: queueEntry.classId,
+        status: EnrollmentStatus.ACTIVE,
+      },
+    });
+
+    if (enrolled > 0) {
+      await this.queueRepository.update(queueEntry.id, {
+        status: EnrollmentQueueStatus.ENROLLED,
+      });
+      return false;
+    }
+
+    const waitlistEntry = await this.dataSource.transaction(async (manager) => {
+      await manager.update(EnrollmentQueue, queueEntry.id, {
+        status: EnrollmentQueueStatus.EXPIRED,
+      });
+
+      // The family keeps its place for other classes of the program
+      const entry = await manager.findOne(Waitlist, {
+        where: { leadId: queueEntry.leadId, schoolId: queueEntry.schoolId },
+      });
+      if (entry?.status === LeadStatusType.OFFER_SENT) {
+        entry.status = LeadStatusType.WAITLISTED;
+        entry.offerDate = null;
+        entry.offerExpiresAt = null;
+        await manager.save(entry);
+      }
+      return entry;
+    });
+
+    if (waitlistEntry) {
+      await this.updateLeadStatus(queueEntry.leadId, LeadStatus.WAITLISTED);
+    }
+    return true;
+  }
+
+  /**
+   * Capacity minus active enrollments and offers that still hold a seat
+   */
+  private async countOpenSeats(
+    manager: EntityManager,
+    classEntity: ClassEntity,
+  ): Promise<number> {
+    if (
+      classEntity.capacity == null ||
+      classEntity.status === ClassStatus.CLOSED
+    ) {
+      return 0;
+    }
+
+    const enrolled = await manager.count(EnrollmentEntity, {
+      where: { classId: classEntity.id, status: EnrollmentStatus.ACTIVE },
+    });
+    const pendingOffers = await manager
+      .createQueryBuilder(EnrollmentQueue, 'queue')
+      .where('queue.class_id = :classId', { classId: classEntity.id })
+      .andWhere('queue.status = :offered', {
+        offered: EnrollmentQueueStatus.OFFERED,
+      })
+      // An accepted offer is already counted as an enrollment
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM enrollment e
+          WHERE e.lead_id = queue.lead_id
+            AND e.class_id = queue.class_id
+            AND e.status = :active
+        )`,
+        { active: EnrollmentStatus.ACTIVE },
+      )
+      .getCount();
+
+    return Math.max(0, classEntity.capacity - enrolled - pendingOffers);
+  }
+
+  /**
+   * Highest priority waitlisted family of the class's program that has no
+   * outstanding offer, has not let an offer for this class lapse, is not
+   * enrolled and meets the config's score and deposit requirements
+   */
+  private async findNextCandidate(
+    manager: EntityManager,
+    classEntity: ClassEntity,
+    config: WaitlistAutomationConfig,
+  ): Promise<Waitlist | null> {
+    const criteria = (config.priorityCriteria ??
+      {}) as WaitlistPriorityCriteria;
+
+    const queryBuilder = manager
+      .createQueryBuilder(Waitlist, 'waitlist')
+      .innerJoinAndSelect('waitlist.lead', 'lead')
+      .where('waitlist.school_id = :schoolId', {
+        schoolId: classEntity.schoolId,
+      })
+      .andWhere('waitlist.status = :waitlisted', {
+        waitlisted: LeadStatusType.WAITLISTED,
+      })
+      .andWhere(
+        '(waitlist.class_id = :classId OR (waitlist.class_id IS NULL AND waitlist.program = :program))',
+        { classId: classEntity.id, program: classEntity.program },
+      )
+      .andWhere('COALESCE(lead.lead_score, 0) >= :minScore', {
+        minScore: config.minScoreThreshold ?? 0,
+      })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM enrollment_queue q
+          WHERE q.lead_id = waitlist.lead_id
+            AND (q.status = :offered
+              OR (q.class_id = :classId AND q.status IN (:...closedOffers)))
+        )`,
+        {
+          offered: EnrollmentQueueStatus.OFFERED,
+          closedOffers: [
+            EnrollmentQueueStatus.DECLINED,
+            EnrollmentQueueStatus.EXPIRED,
+          ],
+        },
+      )
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM enrollment e
+          WHERE e.lead_id = waitlist.lead_id AND e.status = :active
+        )`,
+        { active: EnrollmentStatus.ACTIVE },
+      );
+
+    if (criteria.requirePaidDeposit) {
+      queryBuilder.andWhere('waitlist.payment_status = :paid', {
+        paid: 'paid',
+      });
+    }
+
+    return queryBuilder
+      .orderBy('waitlist.priority_score', 'DESC')
+      .addOrderBy('waitlist.waitlist_position', 'ASC')
+      .addOrderBy('waitlist.created_at', 'ASC')
+      .getOne();
+  }
+
+  private async makeOffer(
+    manager: EntityManager,
+    entry: Waitlist,
+    classEntity: ClassEntity,
+    config: WaitlistAutomationConfig,
+  ): Promise<SeatOffer> {
+    const criteria = (config.priorityCriteria ??
+      {}) as WaitlistPriorityCriteria;
+    const offerDate = new Date();
+    const offerExpiresAt = new Date(
+      offerDate.getTime() +
+        (criteria.offerExpiryHours ?? DEFAULT_OFFER_EXPIRY_HOURS) * MS_PER_HOUR,
+    );
+
+    const queueEntry = await manager.save(
+      manager.create(EnrollmentQueue, {
+        leadId: entry.leadId,
+        classId: classEntity.id,
+        schoolId: classEntity.schoolId,
+        queuePosition: entry.waitlistPosition,
+        priorityScore: entry.priorityScore,
+        status: EnrollmentQueueStatus.OFFERED,
+        offerDate,
+        offerExpiresAt,
+        notes: 'Offered automatically when a seat opened',
+      }),
+    );
+
+    entry.status = LeadStatusType.OFFER_SENT;
+    entry.offerDate = offerDate;
+    entry.offerExpiresAt = offerExpiresAt;
+    await manager.save(entry);
+
+    this.logger.log(
+      `Offered a seat in class ${classEntity.id} to lead ${entry.leadId} until ${offerExpiresAt.toISOString()}`,
+    );
+    return { entry, queueEntry, classEntity, config };
+  }
+
+  /**
+   * Side effects of an offer, run after it is committed
+   */
+  private async announceOffer(offer: SeatOffer): Promise<void> {
+    const { entry, classEntity, config, queueEntry } = offer;
+
+    await this.updateLeadStatus(entry.leadId, LeadStatus.OFFER_SENT);
+    this.eventEmitter.emit(DomainEvent.WAITLIST_OFFER_SENT, {
+      leadId: entry.leadId,
+      schoolId: entry.schoolId,
+      waitlistId: entry.id,
+      program: entry.program,
+    } satisfies WaitlistEvent);
+
+    if (!config.notificationEnabled || !entry.lead?.parentEmail) {
+      return;
+    }
+
+    const result = await this.mailerService.sendEmail({
+      to: entry.lead.parentEmail,
+      subject: `A seat is available for ${entry.lead.childName || 'your child'}`,
+      html: this.getOfferEmailHTML(offer),
+      emailType: EmailType.WAITLIST_OFFER,
+      schoolId: entry.schoolId,
+      metadata: {
+        leadId: entry.leadId,
+        waitlistId: entry.id,
+        enrollmentQueueId: queueEntry.id,
+        classId: classEntity.id,
+      },
+    });
+    if (!result.success && !result.skipped) {
+      this.logger.warn(
+        `Failed to email the seat offer to lead ${entry.leadId}: ${result.error ?? 'unknown error'}`,
+      );
+    }
+  }
+
+  private async updateLeadStatus(
+    leadId: string,
+    status: LeadStatus,
+  ): Promise<void> {
+    try {
+      await this.leadsService.updateStatus(leadId, status);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to set lead ${leadId} to ${status}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private getOfferEmailHTML({
+    entry,
+    classEntity,
+    queueEntry,
+  }: SeatOffer): string {
+    const childName = entry.lead?.childName || 'your child';
+    const offerLink =
+      this.waitlistOfferResponseService.createOfferLink(queueEntry.id) ??
+      `${this.frontendUrl}/login`;
+    const expiresAt = queueEntry.offerExpiresAt?.toLocaleString('en-US', {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: 'UTC',
+    });
+
+    return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1f2937;">
+        <h2 style="color: #2563eb;">Good news, ${entry.lead?.parentName || 'there'}!</h2>
+        <p>A seat has opened in <strong>${classEntity.name}</strong> (${entry.program}) and ${childName} is next on the waitlist.</p>
+        <p>The seat is held for you until <strong>${expiresAt} UTC</strong>. After that it is offered to the next family.</p>
+        <p style="margin: 24px 0;">
+          <a href="${offerLink}" style="background: #2563eb; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Accept or decline the offer</a>
+        </p>
+      </div>
+    `;
+  }
+}
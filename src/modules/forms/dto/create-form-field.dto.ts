@@ -0,0 +1,112 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { FormFieldType } from '../../../common/enums/form-field-type.enum';
+
+export class CreateFormFieldDto {
+  @ApiProperty({
+    description:
+      'Machine name of the field, used as the key in submission data',
+    example: 'has_allergies',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/^[a-zA-Z][a-zA-Z0-9_]*$/, {
+    message:
+      'fieldName must start with a letter and contain only letters, numbers and underscores',
+  })
+  fieldName: string;
+
+  @ApiProperty({
+    description: 'Label displayed to the person filling in the form',
+    example: 'Does your child have any allergies?',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  fieldLabel: string;
+
+  @ApiProperty({
+    description: 'Field type',
+    enum: FormFieldType,
+    example: FormFieldType.RADIO,
+  })
+  @IsEnum(FormFieldType)
+  fieldType: FormFieldType;
+
+  @ApiPropertyOptional({
+    description:
+      'Options for select, multiselect and radio fields. Either plain strings or { label, value } objects. Add a numeric price to use the option in sum calculations.',
+    example: [
+      { label: 'Yes', value: 'yes' },
+      { label: 'No', value: 'no' },
+    ],
+  })
+  @IsArray()
+  @IsOptional()
+  fieldOptions?: any[];
+
+  @ApiPropertyOptional({
+    description: 'Whether a value is required',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isRequired?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Display order. Defaults to the end of the form.',
+    example: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  fieldOrder?: number;
+
+  @ApiPropertyOptional({
+    description: 'Placeholder text',
+    example: 'List any known allergies',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  placeholder?: string;
+
+  @ApiPropertyOptional({
+    description: 'Help text shown below the field',
+    example: 'Include food, medication and environmental allergies.',
+  })
+  @IsString()
+  @IsOptional()
+  helpText?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Validation rules: minLength, maxLength, pattern, patternMessage, min, max, integer, minDate, maxDate, minSelections, maxSelections, allowedExtensions. ' +
+      'Logic rules: page (1-based), showIf (condition), skipLogic ([{ when, skipToPage }]) and calculation ({ type: "age", field } or { type: "sum", fields }). ' +
+      'A condition is { field, operator, value } or { all: [...] } / { any: [...] }. ' +
+      'A pattern is at most 200 characters, may not repeat a group that is itself repeated (like (a+)+), and is only checked against answers of up to 1000 characters.',
+    example: {
+      maxLength: 500,
+      showIf: { field: 'has_allergies', operator: 'equals', value: 'yes' },
+    },
+  })
+  @IsObject()
+  @IsOptional()
+  validationRules?: Record<string, any>;
+}
@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { CreateFormFieldDto } from './create-form-field.dto';
+
+export class CreateFormDto {
+  @ApiPropertyOptional({
+    description:
+      'School ID. Omit to create a platform-wide template (super admins only).',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({
+    description: 'Form name',
+    example: 'Allergy Information',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  formName: string;
+
+  @ApiPropertyOptional({
+    description: 'Form description',
+    example:
+      'Tell us about any allergies so our staff can keep your child safe.',
+  })
+  @IsString()
+  @IsOptional()
+  formDescription?: string;
+
+  @ApiProperty({
+    description: 'Form type, e.g. intake, allergy, permission_slip',
+    example: 'allergy',
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  formType: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the form can be viewed and submitted without signing in once published',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isPublic?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Initial field definitions',
+    type: [CreateFormFieldDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateFormFieldDto)
+  @IsOptional()
+  fields?: CreateFormFieldDto[];
+}
@@ -0,0 +1,228 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FormFieldType } from '../../../common/enums/form-field-type.enum';
+import { FormStatus } from '../../../common/enums/form-status.enum';
+
+export class FormFieldResponseDto {
+  @ApiProperty({
+    description: 'Field ID',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Machine name of the field',
+    example: 'has_allergies',
+  })
+  fieldName: string;
+
+  @ApiProperty({
+    description: 'Field label',
+    example: 'Does your child have any allergies?',
+  })
+  fieldLabel: string;
+
+  @ApiProperty({
+    description: 'Field type',
+    enum: FormFieldType,
+    example: FormFieldType.RADIO,
+  })
+  fieldType: FormFieldType;
+
+  @ApiProperty({
+    description: 'Field options',
+    example: [
+      { label: 'Yes', value: 'yes' },
+      { label: 'No', value: 'no' },
+    ],
+  })
+  fieldOptions: any[];
+
+  @ApiProperty({
+    description: 'Whether a value is required',
+    example: true,
+  })
+  isRequired: boolean;
+
+  @ApiProperty({
+    description: 'Display order',
+    example: 0,
+  })
+  fieldOrder: number;
+
+  @ApiPropertyOptional({
+    description: 'Placeholder text',
+    example: 'List any known allergies',
+  })
+  placeholder: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Help text',
+    example: 'Include food, medication and environmental allergies.',
+  })
+  helpText: string | null;
+
+  @ApiProperty({
+    description: 'Validation rules',
+    example: { maxLength: 500 },
+  })
+  validationRules: Record<string, any>;
+}
+
+export class PublicFormResponseDto {
+  @ApiProperty({
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  schoolId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'School name',
+    example: 'ABC Preschool',
+  })
+  schoolName?: string;
+
+  @ApiProperty({
+    description: 'Form name',
+    example: 'Allergy Information',
+  })
+  formName: string;
+
+  @ApiPropertyOptional({
+    description: 'Form description',
+    example:
+      'Tell us about any allergies so our staff can keep your child safe.',
+  })
+  formDescription: string | null;
+
+  @ApiProperty({
+    description: 'Form type',
+    example: 'allergy',
+  })
+  formType: string;
+
+  @ApiProperty({
+    description: 'Form version',
+    example: 1,
+  })
+  version: number;
+
+  @ApiProperty({
+    description: 'Fields in display order',
+    type: [FormFieldResponseDto],
+  })
+  fields: FormFieldResponseDto[];
+}
+
+export class FormResponseDto extends PublicFormResponseDto {
+  @ApiProperty({
+    description: 'Form status',
+    enum: FormStatus,
+    example: FormStatus.ACTIVE,
+  })
+  status: FormStatus;
+
+  @ApiProperty({
+    description: 'Whether the form is publicly accessible once published',
+    example: true,
+  })
+  isPublic: boolean;
+
+  @ApiPropertyOptional({
+    description: 'ID of the first version of this form, null for the original',
+    example: null,
+  })
+  parentFormId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Publish date',
+    example: '2024-01-15T10:30:00Z',
+  })
+  publishedAt: string | null;
+
+  @ApiProperty({
+    description:
+      'Field name to lead column mapping used to create or update leads from submissions',
+    example: { parent_name: 'parentName', tour_time: 'customFields.tourTime' },
+  })
+  leadFieldMapping: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Created by user ID',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  createdBy: string;
+
+  @ApiProperty({
+    description: 'Creation date',
+    example: '2024-01-15T10:30:00Z',
+  })
+  createdAt: string;
+
+  @ApiProperty({
+    description: 'Last update date',
+    example: '2024-01-15T10:30:00Z',
+  })
+  updatedAt: string;
+}
+
+export class FormSubmissionResponseDto {
+  @ApiProperty({
+    description: 'Submission ID',
+    example: '123e4567-e89b-12d3-a456-426614174020',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  formId: string;
+
+  @ApiProperty({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  schoolId: string;
+
+  @ApiPropertyOptional({
+    description: 'Submitting user ID, null for anonymous public submissions',
+    example: null,
+  })
+  submittedBy: string | null;
+
+  @ApiProperty({
+    description: 'Validated submission values keyed by field name',
+    example: { has_allergies: 'yes', allergy_details: 'Peanuts' },
+  })
+  submissionData: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Submitter email',
+    example: 'parent@example.com',
+  })
+  submitterEmail: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Submitter name',
+    example: 'Jane Doe',
+  })
+  submitterName: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Lead created or updated from this submission',
+    example: '123e4567-e89b-12d3-a456-426614174030',
+  })
+  leadId: string | null;
+
+  @ApiProperty({
+    description: 'Submission date',
+    example: '2024-01-15T10:30:00Z',
+  })
+  submittedAt: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderFormFieldsDto {
+  @ApiProperty({
+    description: 'Every field ID of the form, in the desired display order',
+    example: [
+      '123e4567-e89b-12d3-a456-426614174010',
+      '123e4567-e89b-12d3-a456-426614174011',
+    ],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID(undefined, { each: true })
+  fieldIds: string[];
+}
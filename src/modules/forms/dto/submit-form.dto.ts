@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class SubmitFormDto {
+  @ApiProperty({
+    description: 'Submitted values keyed by field name',
+    example: { has_allergies: 'yes', allergy_details: 'Peanuts' },
+  })
+  @IsObject()
+  @IsNotEmpty()
+  data: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Email of the person submitting the form',
+    example: 'parent@example.com',
+  })
+  @IsEmail()
+  @IsOptional()
+  submitterEmail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of the person submitting the form',
+    example: 'Jane Doe',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  submitterName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "School the submission belongs to. Only used for platform-wide template forms; must be one of the signed-in user's schools and defaults to the user's school.",
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
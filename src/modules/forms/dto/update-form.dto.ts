@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateFormDto } from './create-form.dto';
+
+export class UpdateFormDto extends PartialType(
+  OmitType(CreateFormDto, ['schoolId', 'fields'] as const),
+) {}
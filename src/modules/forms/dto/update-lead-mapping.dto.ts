@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsObject } from 'class-validator';
+import { LEAD_MAPPING_COLUMNS } from '../form-lead-mapping.service';
+
+export class UpdateLeadMappingDto {
+  @ApiProperty({
+    description: `Form field name to lead column mapping. Targets are one of ${LEAD_MAPPING_COLUMNS.join(', ')}, or "customFields.<key>" to store the value in the lead's custom fields. An empty object turns lead syncing off.`,
+    example: {
+      parent_name: 'parentName',
+      parent_email: 'parentEmail',
+      child_dob: 'childBirthdate',
+      zip: 'zipCode',
+      program_choice: 'program',
+      tour_time: 'customFields.tourTime',
+    },
+  })
+  @IsObject()
+  mapping: Record<string, string>;
+}
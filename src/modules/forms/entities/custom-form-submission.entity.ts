@@ -2,6 +2,7 @@ import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
 import { BaseEntity } from '../../../common/entities/base.entity';
 import { CustomForm } from './custom-form.entity';
 import { SchoolEntity } from '../../schools/entities/school.entity';
+import { LeadEntity } from '../../leads/entities/lead.entity';
 
 @Entity('custom_form_submissions')
 export class CustomFormSubmission extends BaseEntity {
@@ -26,6 +27,9 @@ export class CustomFormSubmission extends BaseEntity {
   @Column({ name: 'submitter_name', type: 'varchar', length: 255, nullable: true })
   submitterName: string | null;
 
+  @Column({ name: 'lead_id', type: 'uuid', nullable: true })
+  leadId: string | null;
+
   // Relations
   @ManyToOne(() => CustomForm, (form) => form.submissions, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'form_id' })
@@ -34,6 +38,10 @@ export class CustomFormSubmission extends BaseEntity {
   @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'school_id' })
   school: SchoolEntity;
+
+  @ManyToOne(() => LeadEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'lead_id' })
+  lead: LeadEntity | null;
 }
 
 
@@ -32,6 +32,18 @@ export class CustomForm extends BaseEntity {
   @Column({ name: 'created_by', type: 'uuid' })
   createdBy: string;
 
+  @Column({ type: 'integer', default: 1 })
+  version: number;
+
+  @Column({ name: 'parent_form_id', type: 'uuid', nullable: true })
+  parentFormId: string | null;
+
+  @Column({ name: 'published_at', type: 'timestamptz', nullable: true })
+  publishedAt: Date | null;
+
+  @Column({ name: 'lead_field_mapping', type: 'jsonb', default: {} })
+  leadFieldMapping: Record<string, string>;
+
   // Relations
   @ManyToOne(() => SchoolEntity, { nullable: true })
   @JoinColumn({ name: 'school_id' })
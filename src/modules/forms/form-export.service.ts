@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Workbook } from 'exceljs';
+import { CustomForm } from './entities/custom-form.entity';
+import { CustomFormSubmission } from './entities/custom-form-submission.entity';
+
+export type FormExportFormat = 'csv' | 'xlsx';
+
+export interface FormExportFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface ExportColumn {
+  header: string;
+  value: (submission: CustomFormSubmission) => unknown;
+}
+
+const CONTENT_TYPES: Record<FormExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Exports form submissions as CSV or XLSX with one column per form field
+ */
+@Injectable()
+export class FormExportService {
+  constructor(
+    @InjectRepository(CustomFormSubmission)
+    private readonly submissionRepository: Repository<CustomFormSubmission>,
+  ) {}
+
+  async exportSubmissions(
+    form: CustomForm,
+    format: FormExportFormat,
+  ): Promise<FormExportFile> {
+    const submissions = await this.submissionRepository.find({
+      where: { formId: form.id },
+      order: { submittedAt: 'ASC' },
+    });
+
+    const columns = this.buildColumns(form);
+    const rows = submissions.map((submission) =>
+      columns.map((column) => this.formatCell(column.value(submission))),
+    );
+    const headers = columns.map((column) => column.header);
+
+    const buffer =
+      format === 'xlsx'
+        ? await this.toXlsx(form, headers, rows)
+        : this.toCsv(headers, rows);
+
+    return {
+      buffer,
+      contentType: CONTENT_TYPES[format],
+      fileName: `${this.slugify(form.formName)}-v${form.version}-submissions.${format}`,
+    };
+  }
+
+  private buildColumns(form: CustomForm): ExportColumn[] {
+    const fields = [...(form.fields || [])].sort(
+      (a, b) => a.fieldOrder - b.fieldOrder,
+    );
+
+    return [
+      { header: 'Submission ID', value: (submission) => submission.id },
+      {
+        header: 'Submitted At',
+        value: (submission) => submission.submittedAt,
+      },
+      {
+        header: 'Submitter Name',
+        value: (submission) => submission.submitterName,
+      },
+      {
+        header: 'Submitter Email',
+        value: (submission) => submission.submitterEmail,
+      },
+      ...fields.map<ExportColumn>((field) => ({
+        header: field.fieldLabel || field.fieldName,
+        value: (submission): unknown =>
+          submission.submissionData?.[field.fieldName],
+      })),
+    ];
+  }
+
+  private formatCell(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.formatCell(item)).join('; ');
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    if (typeof value === 'object') {
+      const url = (value as { url?: unknown }).url;
+      return typeof url === 'string' ? url : JSON.stringify(value);
+    }
+    return String(value as string | number);
+  }
+
+  private toCsv(headers: string[], rows: string[][]): Buffer {
+    const lines = [headers, ...rows].map((row) =>
+      row.map((cell) => this.escapeCsv(cell)).join(','),
+    );
+    // BOM so Excel opens the file as UTF-8
+    return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+  }
+
+  private async toXlsx(
+    form: CustomForm,
+    headers: string[],
+    rows: string[][],
+  ): Promise<Buffer> {
+    const workbook = new Workbook();
+    const worksheet = workbook.addWorksheet(
+      form.formName.replace(/[*?:\\/[\]]/g, ' ').slice(0, 31) || 'Submissions',
+    );
+
+    worksheet.addRow(headers).font = { bold: true };
+    rows.forEach((row) =>
+      worksheet.addRow(row.map((cell) => this.guardFormula(cell))),
+    );
+    worksheet.columns.forEach((column, index) => {
+      column.width = Math.min(Math.max(headers[index].length + 2, 12), 50);
+    });
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  private escapeCsv(value: string): string {
+    const guarded = this.guardFormula(value);
+    return /[",\r\n]/.test(guarded)
+      ? `"${guarded.replace(/"/g, '""')}"`
+      : guarded;
+  }
+
+  private guardFormula(value: string): string {
+    return FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix))
+      ? `'${value}`
+      : value;
+  }
+
+  private slugify(value: string): string {
+    return (
+      value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'form'
+    );
+  }
+}
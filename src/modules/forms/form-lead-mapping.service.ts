@@ -0,0 +1,150 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FormFieldType } from '../../common/enums/form-field-type.enum';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { FormFieldDefinition } from './interfaces/form-rules.interface';
+
+/** Lead columns a form field can be mapped onto */
+export const LEAD_MAPPING_COLUMNS = [
+  'parentName',
+  'parentEmail',
+  'parentPhone',
+  'secondaryContactName',
+  'secondaryContactPhone',
+  'childName',
+  'childBirthdate',
+  'program',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'emergencyContactName',
+  'emergencyContactPhone',
+  'medicalNotes',
+  'notes',
+] as const;
+
+export type LeadMappingColumn = (typeof LEAD_MAPPING_COLUMNS)[number];
+
+const CUSTOM_FIELDS_PREFIX = 'customFields.';
+const CUSTOM_FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+export interface SubmitterDetails {
+  submitterEmail?: string | null;
+  submitterName?: string | null;
+}
+
+/**
+ * Translates custom form submissions into lead column values using the
+ * form's leadFieldMapping (field name -> lead column or `customFields.<key>`).
+ */
+@Injectable()
+export class FormLeadMappingService {
+  /**
+   * Check that every mapped field exists and every target is a known lead column
+   */
+  validateMapping(
+    fields: Pick<FormFieldDefinition, 'fieldName' | 'fieldType'>[],
+    mapping: Record<string, string>,
+  ): void {
+    const fieldsByName = new Map(
+      fields.map((field) => [field.fieldName, field]),
+    );
+    const usedTargets = new Set<string>();
+
+    for (const [fieldName, target] of Object.entries(mapping)) {
+      const field = fieldsByName.get(fieldName);
+      if (!field) {
+        throw new BadRequestException(
+          `Mapped field "${fieldName}" does not exist on this form`,
+        );
+      }
+
+      if (typeof target !== 'string' || !this.isValidTarget(target)) {
+        throw new BadRequestException(
+          `Field "${fieldName}" maps to an unknown lead column "${String(target)}"`,
+        );
+      }
+
+      if (usedTargets.has(target)) {
+        throw new BadRequestException(
+          `Lead column "${target}" is mapped more than once`,
+        );
+      }
+      usedTargets.add(target);
+
+      if (
+        target === 'childBirthdate' &&
+        field.fieldType !== FormFieldType.DATE
+      ) {
+        throw new BadRequestException(
+          `Field "${fieldName}" must be a date field to map onto childBirthdate`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Build lead values from validated submission data. The submitter's email and
+   * name fill in parentEmail and parentName when those are not mapped.
+   */
+  toLeadValues(
+    mapping: Record<string, string>,
+    submissionData: Record<string, unknown>,
+    submitter: SubmitterDetails = {},
+  ): Partial<LeadEntity> {
+    const values: Partial<Record<LeadMappingColumn, unknown>> = {};
+    const customFields: Record<string, unknown> = {};
+
+    for (const [fieldName, target] of Object.entries(mapping)) {
+      const value = submissionData[fieldName];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      if (target.startsWith(CUSTOM_FIELDS_PREFIX)) {
+        customFields[target.slice(CUSTOM_FIELDS_PREFIX.length)] = value;
+      } else if (target === 'childBirthdate') {
+        values.childBirthdate = new Date(value as string);
+      } else {
+        values[target as LeadMappingColumn] = this.toText(value);
+      }
+    }
+
+    if (!values.parentEmail && submitter.submitterEmail) {
+      values.parentEmail = submitter.submitterEmail;
+    }
+    if (!values.parentName && submitter.submitterName) {
+      values.parentName = submitter.submitterName;
+    }
+
+    const leadValues = values as Partial<LeadEntity>;
+    if (Object.keys(customFields).length) {
+      leadValues.customFields = customFields;
+    }
+
+    return leadValues;
+  }
+
+  private isValidTarget(target: string): boolean {
+    if (target.startsWith(CUSTOM_FIELDS_PREFIX)) {
+      return CUSTOM_FIELD_KEY_PATTERN.test(
+        target.slice(CUSTOM_FIELDS_PREFIX.length),
+      );
+    }
+    return (LEAD_MAPPING_COLUMNS as readonly string[]).includes(target);
+  }
+
+  private toText(value: unknown): string {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toText(item)).join(', ');
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    if (value !== null && typeof value === 'object') {
+      const url = (value as { url?: unknown }).url;
+      return typeof url === 'string' ? url : JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
@@ -0,0 +1,499 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FormFieldType } from '../../common/enums/form-field-type.enum';
+import {
+  ConditionGroup,
+  ConditionOperator,
+  FieldCalculation,
+  FieldValidationRules,
+  FormCondition,
+  FormFieldDefinition,
+} from './interfaces/form-rules.interface';
+
+const CONDITION_OPERATORS: ConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'greater_than',
+  'less_than',
+  'is_empty',
+  'is_not_empty',
+];
+
+/**
+ * Evaluates show/hide conditions, page skip logic and calculated fields
+ * defined in CustomFormField.validationRules.
+ */
+@Injectable()
+export class FormLogicService {
+  /**
+   * Check the shape of a field's logic rules before it is saved
+   */
+  validateLogicDefinition(field: FormFieldDefinition): void {
+    const rules = this.getRules(field);
+
+    if (
+      rules.page !== undefined &&
+      (!Number.isInteger(rules.page) || rules.page < 1)
+    ) {
+      throw new BadRequestException(
+        `Field "${field.fieldName}" page must be a positive whole number`,
+      );
+    }
+
+    if (rules.showIf !== undefined) {
+      this.validateConditionShape(field.fieldName, rules.showIf);
+    }
+
+    if (rules.skipLogic !== undefined) {
+      if (!Array.isArray(rules.skipLogic)) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" skipLogic must be a list of rules`,
+        );
+      }
+      for (const rule of rules.skipLogic) {
+        this.validateConditionShape(field.fieldName, rule?.when);
+        const target = rule.skipToPage;
+        if (target !== 'end' && (!Number.isInteger(target) || target < 1)) {
+          throw new BadRequestException(
+            `Field "${field.fieldName}" skipToPage must be a page number or "end"`,
+          );
+        }
+      }
+    }
+
+    if (rules.calculation !== undefined) {
+      this.validateCalculationShape(field, rules.calculation);
+    }
+  }
+
+  /**
+   * Check that logic rules only reference fields and pages that exist on the form
+   */
+  validateFormLogic(fields: FormFieldDefinition[]): void {
+    const fieldsByName = new Map(
+      fields.map((field) => [field.fieldName, field]),
+    );
+    const pages = new Set(fields.map((field) => this.getPage(field)));
+
+    const ensureExists = (owner: string, name: string, allowSelf = false) => {
+      if (name === owner && !allowSelf) {
+        throw new BadRequestException(
+          `Field "${owner}" cannot reference itself`,
+        );
+      }
+      if (!fieldsByName.has(name)) {
+        throw new BadRequestException(
+          `Field "${owner}" references unknown field "${name}"`,
+        );
+      }
+    };
+
+    for (const field of fields) {
+      const rules = this.getRules(field);
+
+      if (rules.showIf) {
+        this.collectConditionFields(rules.showIf).forEach((name) =>
+          ensureExists(field.fieldName, name),
+        );
+      }
+
+      for (const rule of rules.skipLogic || []) {
+        this.collectConditionFields(rule.when).forEach((name) =>
+          ensureExists(field.fieldName, name, true),
+        );
+        if (rule.skipToPage !== 'end') {
+          if (rule.skipToPage <= this.getPage(field)) {
+            throw new BadRequestException(
+              `Field "${field.fieldName}" can only skip forward to a later page`,
+            );
+          }
+          if (!pages.has(rule.skipToPage)) {
+            throw new BadRequestException(
+              `Field "${field.fieldName}" skips to page ${rule.skipToPage}, which has no fields`,
+            );
+          }
+        }
+      }
+
+      if (rules.calculation) {
+        const sources =
+          rules.calculation.type === 'age'
+            ? [rules.calculation.field]
+            : rules.calculation.fields;
+        sources.forEach((name) => ensureExists(field.fieldName, name));
+
+        if (
+          rules.calculation.type === 'age' &&
+          fieldsByName.get(rules.calculation.field)?.fieldType !==
+            FormFieldType.DATE
+        ) {
+          throw new BadRequestException(
+            `Field "${field.fieldName}" can only calculate age from a date field`,
+          );
+        }
+      }
+    }
+  }
+
+  getPage(field: FormFieldDefinition): number {
+    return this.getRules(field).page ?? 1;
+  }
+
+  isCalculated(field: FormFieldDefinition): boolean {
+    return this.getRules(field).calculation !== undefined;
+  }
+
+  /**
+   * Walk the pages in order, following skip rules, and return the pages the respondent sees
+   */
+  resolveVisitedPages(
+    fields: FormFieldDefinition[],
+    values: Record<string, unknown>,
+  ): Set<number> {
+    const pages = Array.from(
+      new Set(fields.map((field) => this.getPage(field))),
+    ).sort((a, b) => a - b);
+    const visited = new Set<number>();
+
+    let index = 0;
+    while (index < pages.length) {
+      const page = pages[index];
+      visited.add(page);
+
+      const skipRule = fields
+        .filter((field) => this.getPage(field) === page)
+        .flatMap((field) => this.getRules(field).skipLogic || [])
+        .find((rule) => this.evaluate(rule.when, values));
+
+      if (!skipRule) {
+        index += 1;
+      } else if (skipRule.skipToPage === 'end') {
+        break;
+      } else {
+        const target = skipRule.skipToPage;
+        const nextIndex = pages.findIndex((candidate) => candidate >= target);
+        index = nextIndex > index ? nextIndex : pages.length;
+      }
+    }
+
+    return visited;
+  }
+
+  /**
+   * Whether the field's showIf condition passes. Fields without one are always shown.
+   */
+  isVisible(
+    field: FormFieldDefinition,
+    values: Record<string, unknown>,
+  ): boolean {
+    const condition = this.getRules(field).showIf;
+    return condition ? this.evaluate(condition, values) : true;
+  }
+
+  evaluate(condition: FormCondition, values: Record<string, unknown>): boolean {
+    if (this.isConditionGroup(condition)) {
+      const allPass = (condition.all || []).every((child) =>
+        this.evaluate(child, values),
+      );
+      const anyPass =
+        !condition.any?.length ||
+        condition.any.some((child) => this.evaluate(child, values));
+      return allPass && anyPass;
+    }
+
+    const actual = values[condition.field];
+    const expected = condition.value;
+
+    switch (condition.operator) {
+      case 'is_empty':
+        return this.isEmptyValue(actual);
+      case 'is_not_empty':
+        return !this.isEmptyValue(actual);
+      case 'equals':
+        return this.matches(actual, expected);
+      case 'not_equals':
+        return !this.matches(actual, expected);
+      case 'in':
+        return (
+          Array.isArray(expected) &&
+          expected.some((item) => this.matches(actual, item))
+        );
+      case 'not_in':
+        return (
+          !Array.isArray(expected) ||
+          !expected.some((item) => this.matches(actual, item))
+        );
+      case 'contains':
+        return Array.isArray(actual)
+          ? actual.some((item) => this.matches(item, expected))
+          : typeof actual === 'string' &&
+              typeof expected === 'string' &&
+              actual.toLowerCase().includes(expected.toLowerCase());
+      case 'greater_than':
+        return this.compare(actual, expected) > 0;
+      case 'less_than':
+        return this.compare(actual, expected) < 0;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Compute a calculated field from already validated values.
+   * Returns null when a source value is missing.
+   */
+  calculate(
+    field: FormFieldDefinition,
+    fields: FormFieldDefinition[],
+    values: Record<string, unknown>,
+  ): number | null {
+    const calculation = this.getRules(field).calculation;
+    if (!calculation) {
+      return null;
+    }
+
+    if (calculation.type === 'age') {
+      return this.calculateAge(calculation, values);
+    }
+
+    const fieldsByName = new Map(fields.map((item) => [item.fieldName, item]));
+    let total = calculation.base ?? 0;
+    for (const name of calculation.fields) {
+      const source = fieldsByName.get(name);
+      if (source) {
+        total += this.numericContribution(source, values[name]);
+      }
+    }
+
+    return Math.round(total * 100) / 100;
+  }
+
+  private calculateAge(
+    calculation: Extract<FieldCalculation, { type: 'age' }>,
+    values: Record<string, unknown>,
+  ): number | null {
+    const raw = values[calculation.field];
+    if (typeof raw !== 'string') {
+      return null;
+    }
+
+    const birthDate = new Date(raw);
+    const asOf = calculation.asOf ? new Date(calculation.asOf) : new Date();
+    if (Number.isNaN(birthDate.getTime()) || Number.isNaN(asOf.getTime())) {
+      return null;
+    }
+
+    let months =
+      (asOf.getUTCFullYear() - birthDate.getUTCFullYear()) * 12 +
+      (asOf.getUTCMonth() - birthDate.getUTCMonth());
+    if (asOf.getUTCDate() < birthDate.getUTCDate()) {
+      months -= 1;
+    }
+    months = Math.max(months, 0);
+
+    return calculation.unit === 'months' ? months : Math.floor(months / 12);
+  }
+
+  private numericContribution(
+    field: FormFieldDefinition,
+    value: unknown,
+  ): number {
+    if (this.isEmptyValue(value)) {
+      return 0;
+    }
+
+    const options = (field.fieldOptions || []) as unknown[];
+    const priceOf = (selected: unknown): number => {
+      const option = options.find(
+        (candidate) =>
+          candidate !== null &&
+          typeof candidate === 'object' &&
+          this.matches((candidate as { value?: unknown }).value, selected),
+      ) as { price?: unknown } | undefined;
+      return typeof option?.price === 'number' ? option.price : 0;
+    };
+
+    switch (field.fieldType) {
+      case FormFieldType.SELECT:
+      case FormFieldType.RADIO:
+        return priceOf(value);
+      case FormFieldType.MULTISELECT:
+        return Array.isArray(value)
+          ? (value as unknown[]).reduce<number>(
+              (sum, item) => sum + priceOf(item),
+              0,
+            )
+          : 0;
+      case FormFieldType.CHECKBOX: {
+        // A ticked checkbox adds the price of its first option, e.g. [{ price: 25 }]
+        const first = options[0] as { price?: unknown } | undefined;
+        return value === true && typeof first?.price === 'number'
+          ? first.price
+          : 0;
+      }
+      default: {
+        const number = typeof value === 'number' ? value : Number(value);
+        return Number.isFinite(number) ? number : 0;
+      }
+    }
+  }
+
+  private validateConditionShape(owner: string, condition: unknown): void {
+    if (condition === null || typeof condition !== 'object') {
+      throw new BadRequestException(
+        `Field "${owner}" has an invalid condition`,
+      );
+    }
+
+    const group = condition as { all?: unknown; any?: unknown };
+    if ('all' in group || 'any' in group) {
+      for (const key of ['all', 'any'] as const) {
+        const children = group[key];
+        if (children === undefined) {
+          continue;
+        }
+        if (!Array.isArray(children) || !children.length) {
+          throw new BadRequestException(
+            `Field "${owner}" condition "${key}" must be a non-empty list`,
+          );
+        }
+        children.forEach((child) => this.validateConditionShape(owner, child));
+      }
+      return;
+    }
+
+    const { field, operator } = condition as {
+      field?: unknown;
+      operator?: unknown;
+    };
+    if (typeof field !== 'string' || !field) {
+      throw new BadRequestException(
+        `Field "${owner}" condition must name a field`,
+      );
+    }
+    if (!CONDITION_OPERATORS.includes(operator as ConditionOperator)) {
+      throw new BadRequestException(
+        `Field "${owner}" condition operator must be one of: ${CONDITION_OPERATORS.join(', ')}`,
+      );
+    }
+  }
+
+  private validateCalculationShape(
+    field: FormFieldDefinition,
+    calculation: unknown,
+  ): void {
+    const owner = field.fieldName;
+    if (field.fieldType !== FormFieldType.NUMBER) {
+      throw new BadRequestException(
+        `Calculated field "${owner}" must be a number field`,
+      );
+    }
+
+    const {
+      type,
+      field: source,
+      fields,
+      unit,
+    } = (calculation || {}) as {
+      type?: unknown;
+      field?: unknown;
+      fields?: unknown;
+      unit?: unknown;
+    };
+
+    if (type === 'age') {
+      if (typeof source !== 'string' || !source) {
+        throw new BadRequestException(
+          `Calculated field "${owner}" must name the date field to calculate age from`,
+        );
+      }
+      if (unit !== undefined && unit !== 'years' && unit !== 'months') {
+        throw new BadRequestException(
+          `Calculated field "${owner}" unit must be "years" or "months"`,
+        );
+      }
+      return;
+    }
+
+    if (type === 'sum') {
+      if (
+        !Array.isArray(fields) ||
+        !fields.length ||
+        !fields.every((name) => typeof name === 'string')
+      ) {
+        throw new BadRequestException(
+          `Calculated field "${owner}" must list the fields to add up`,
+        );
+      }
+      return;
+    }
+
+    throw new BadRequestException(
+      `Calculated field "${owner}" type must be "age" or "sum"`,
+    );
+  }
+
+  private collectConditionFields(condition: FormCondition): string[] {
+    if (this.isConditionGroup(condition)) {
+      return [...(condition.all || []), ...(condition.any || [])].flatMap(
+        (child) => this.collectConditionFields(child),
+      );
+    }
+    return [condition.field];
+  }
+
+  private isConditionGroup(
+    condition: FormCondition,
+  ): condition is ConditionGroup {
+    return 'all' in condition || 'any' in condition;
+  }
+
+  private matches(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(actual)) {
+      return actual.some((item) => this.matches(item, expected));
+    }
+    if (this.isEmptyValue(actual)) {
+      return this.isEmptyValue(expected);
+    }
+    return this.toComparable(actual) === this.toComparable(expected);
+  }
+
+  private compare(actual: unknown, expected: unknown): number {
+    const left = Number(actual);
+    const right = Number(expected);
+    if (
+      this.isEmptyValue(actual) ||
+      !Number.isFinite(left) ||
+      !Number.isFinite(right)
+    ) {
+      return NaN;
+    }
+    return left - right;
+  }
+
+  private toComparable(value: unknown): string {
+    if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return String(value).trim().toLowerCase();
+    }
+    return JSON.stringify(value ?? null);
+  }
+
+  private isEmptyValue(value: unknown): boolean {
+    return (
+      value === undefined ||
+      value === null ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  private getRules(field: FormFieldDefinition): FieldValidationRules {
+    return (field.validationRules || {}) as FieldValidationRules;
+  }
+}
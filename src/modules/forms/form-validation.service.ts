@@ -0,0 +1,552 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FormFieldType } from '../../common/enums/form-field-type.enum';
+import { CustomFormField } from './entities/custom-form-field.entity';
+import { FormLogicService } from './form-logic.service';
+import {
+  FieldValidationRules,
+  FormFieldDefinition as FieldDefinition,
+} from './interfaces/form-rules.interface';
+
+export interface FormFieldError {
+  field: string;
+  message: string;
+}
+
+type NormalizedValue = { value: unknown } | { error: string };
+
+const OPTION_FIELD_TYPES = [
+  FormFieldType.SELECT,
+  FormFieldType.MULTISELECT,
+  FormFieldType.RADIO,
+];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Admin patterns run against public input, so both are kept short */
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+/**
+ * Whether a quantified group repeats something that is itself repeated,
+ * like (a+)+ or (\w*)*, which can take exponential time to backtrack
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [];
+  const isRepeat = (char: string | undefined) =>
+    char === '*' || char === '+' || char === '{';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false;
+      if (repeatsInside && isRepeat(pattern[i + 1])) {
+        return true;
+      }
+      if (groups.length && (repeatsInside || isRepeat(pattern[i + 1]))) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (isRepeat(char) && groups.length) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Validates custom form field definitions and submissions against them.
+ */
+@Injectable()
+export class FormValidationService {
+  constructor(private readonly formLogicService: FormLogicService) {}
+
+  /**
+   * Check that a field definition is usable before it is saved
+   */
+  validateFieldDefinition(field: FieldDefinition): void {
+    const rules = this.getRules(field);
+
+    if (OPTION_FIELD_TYPES.includes(field.fieldType)) {
+      const values = this.getOptionValues(field);
+      if (!values.length) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" requires at least one option`,
+        );
+      }
+      if (new Set(values).size !== values.length) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" has duplicate option values`,
+        );
+      }
+    }
+
+    if (rules.pattern !== undefined) {
+      try {
+        new RegExp(rules.pattern);
+      } catch {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" has an invalid pattern`,
+        );
+      }
+      if (rules.pattern.length > MAX_PATTERN_LENGTH) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" pattern must be at most ${MAX_PATTERN_LENGTH} characters`,
+        );
+      }
+      if (hasNestedQuantifier(rules.pattern)) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" pattern repeats a group that is itself repeated, which can make checking slow`,
+        );
+      }
+    }
+
+    const ranges: Array<
+      [keyof FieldValidationRules, keyof FieldValidationRules]
+    > = [
+      ['minLength', 'maxLength'],
+      ['min', 'max'],
+      ['minSelections', 'maxSelections'],
+    ];
+    for (const [minKey, maxKey] of ranges) {
+      const min = rules[minKey];
+      const max = rules[maxKey];
+      if (min !== undefined && typeof min !== 'number') {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" rule ${minKey} must be a number`,
+        );
+      }
+      if (max !== undefined && typeof max !== 'number') {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" rule ${maxKey} must be a number`,
+        );
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" rule ${minKey} cannot exceed ${maxKey}`,
+        );
+      }
+    }
+
+    for (const key of ['minDate', 'maxDate'] as const) {
+      if (rules[key] !== undefined && !this.resolveDateRule(rules[key])) {
+        throw new BadRequestException(
+          `Field "${field.fieldName}" rule ${key} must be a date or "today"`,
+        );
+      }
+    }
+
+    this.formLogicService.validateLogicDefinition(field);
+  }
+
+  /**
+   * Check cross-field logic (conditions, skip targets, calculations) for a whole form
+   */
+  validateFormDefinition(fields: FieldDefinition[]): void {
+    this.formLogicService.validateFormLogic(fields);
+  }
+
+  /**
+   * Validate submitted values against the form fields.
+   * Fields hidden by showIf or skipped pages are ignored, calculated fields are
+   * computed server-side, and unknown keys are dropped.
+   * Returns the normalized values keyed by field name.
+   */
+  validateSubmission(
+    fields: FieldDefinition[],
+    data: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const errors: FormFieldError[] = [];
+    const values: Record<string, unknown> = {};
+
+    // Conditions are evaluated against what the respondent entered, with
+    // calculated values filled in so rules like "age greater_than 4" work
+    const context: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (!this.formLogicService.isCalculated(field)) {
+        context[field.fieldName] = data?.[field.fieldName];
+      }
+    }
+    for (const field of fields) {
+      if (this.formLogicService.isCalculated(field)) {
+        context[field.fieldName] = this.formLogicService.calculate(
+          field,
+          fields,
+          context,
+        );
+      }
+    }
+
+    const visitedPages = this.formLogicService.resolveVisitedPages(
+      fields,
+      context,
+    );
+    const calculatedFields: FieldDefinition[] = [];
+
+    for (const field of fields) {
+      const visible =
+        visitedPages.has(this.formLogicService.getPage(field)) &&
+        this.formLogicService.isVisible(field, context);
+
+      if (!visible) {
+        // Hidden answers must not influence later conditions or be stored
+        delete context[field.fieldName];
+        continue;
+      }
+
+      if (this.formLogicService.isCalculated(field)) {
+        calculatedFields.push(field);
+        continue;
+      }
+
+      const raw = data?.[field.fieldName];
+
+      if (this.isEmpty(field, raw)) {
+        if (field.isRequired) {
+          errors.push({
+            field: field.fieldName,
+            message: `${field.fieldLabel} is required`,
+          });
+        }
+        continue;
+      }
+
+      const result = this.normalizeValue(field, raw);
+      if ('error' in result) {
+        errors.push({ field: field.fieldName, message: result.error });
+        continue;
+      }
+
+      values[field.fieldName] = result.value;
+      context[field.fieldName] = result.value;
+    }
+
+    if (errors.length) {
+      throw new BadRequestException({
+        message: 'Form submission is invalid',
+        errors,
+      });
+    }
+
+    for (const field of calculatedFields) {
+      const value = this.formLogicService.calculate(field, fields, values);
+      if (value !== null) {
+        values[field.fieldName] = value;
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Extract option values from fieldOptions (plain values or { label, value } objects)
+   */
+  getOptionValues(field: Pick<CustomFormField, 'fieldOptions'>): string[] {
+    return ((field.fieldOptions || []) as unknown[])
+      .map((option) =>
+        option !== null && typeof option === 'object'
+          ? (option as { value?: unknown }).value
+          : option,
+      )
+      .filter(
+        (value): value is string | number | boolean =>
+          typeof value === 'string' ||
+          typeof value === 'number' ||
+          typeof value === 'boolean',
+      )
+      .map((value) => String(value));
+  }
+
+  private getRules(
+    field: Pick<FieldDefinition, 'validationRules'>,
+  ): FieldValidationRules {
+    return (field.validationRules || {}) as FieldValidationRules;
+  }
+
+  private isEmpty(field: FieldDefinition, value: unknown): boolean {
+    if (value === undefined || value === null) {
+      return true;
+    }
+    if (typeof value === 'string') {
+      return value.trim() === '';
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0;
+    }
+    // An unticked checkbox does not satisfy a required checkbox (e.g. consent)
+    if (field.fieldType === FormFieldType.CHECKBOX) {
+      return value === false || value === 'false';
+    }
+    return false;
+  }
+
+  private normalizeValue(
+    field: FieldDefinition,
+    value: unknown,
+  ): NormalizedValue {
+    const rules = this.getRules(field);
+    const label = field.fieldLabel;
+
+    switch (field.fieldType) {
+      case FormFieldType.TEXT:
+      case FormFieldType.TEXTAREA:
+        return this.normalizeText(label, value, rules);
+
+      case FormFieldType.EMAIL: {
+        const result = this.normalizeText(label, value, rules);
+        if ('value' in result && !EMAIL_PATTERN.test(result.value as string)) {
+          return { error: `${label} must be a valid email address` };
+        }
+        return result;
+      }
+
+      case FormFieldType.PHONE: {
+        const result = this.normalizeText(label, value, rules);
+        if ('error' in result) {
+          return result;
+        }
+        const phone = result.value as string;
+        const digits = phone.replace(/\D/g, '');
+        if (
+          !PHONE_PATTERN.test(phone) ||
+          digits.length < 7 ||
+          digits.length > 15
+        ) {
+          return { error: `${label} must be a valid phone number` };
+        }
+        return result;
+      }
+
+      case FormFieldType.DATE:
+        return this.normalizeDate(label, value, rules);
+
+      case FormFieldType.NUMBER:
+        return this.normalizeNumber(label, value, rules);
+
+      case FormFieldType.SELECT:
+      case FormFieldType.RADIO: {
+        const options = this.getOptionValues(field);
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          return { error: `${label} must be one of: ${options.join(', ')}` };
+        }
+        const selected = String(value);
+        if (!options.includes(selected)) {
+          return { error: `${label} must be one of: ${options.join(', ')}` };
+        }
+        return { value: selected };
+      }
+
+      case FormFieldType.MULTISELECT:
+        return this.normalizeMultiselect(field, value, rules);
+
+      case FormFieldType.CHECKBOX:
+        if (value === true || value === 'true') {
+          return { value: true };
+        }
+        if (value === false || value === 'false') {
+          return { value: false };
+        }
+        return { error: `${label} must be true or false` };
+
+      case FormFieldType.FILE:
+        return this.normalizeFile(label, value, rules);
+
+      default:
+        return { value };
+    }
+  }
+
+  private normalizeText(
+    label: string,
+    value: unknown,
+    rules: FieldValidationRules,
+  ): NormalizedValue {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return { error: `${label} must be text` };
+    }
+
+    const text = String(value).trim();
+
+    if (rules.minLength !== undefined && text.length < rules.minLength) {
+      return {
+        error: `${label} must be at least ${rules.minLength} characters`,
+      };
+    }
+    if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+      return {
+        error: `${label} must be at most ${rules.maxLength} characters`,
+      };
+    }
+    if (rules.pattern !== undefined && text.length > MAX_PATTERN_INPUT_LENGTH) {
+      return {
+        error: `${label} must be at most ${MAX_PATTERN_INPUT_LENGTH} characters`,
+      };
+    }
+    if (rules.pattern !== undefined && !new RegExp(rules.pattern).test(text)) {
+      return {
+        error: rules.patternMessage || `${label} is not in the expected format`,
+      };
+    }
+
+    return { value: text };
+  }
+
+  private normalizeDate(
+    label: string,
+    value: unknown,
+    rules: FieldValidationRules,
+  ): NormalizedValue {
+    if (typeof value !== 'string') {
+      return { error: `${label} must be a date` };
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return { error: `${label} must be a valid date` };
+    }
+
+    const minDate = this.resolveDateRule(rules.minDate);
+    if (minDate && date < minDate) {
+      return {
+        error: `${label} must be on or after ${minDate.toISOString().slice(0, 10)}`,
+      };
+    }
+    const maxDate = this.resolveDateRule(rules.maxDate, true);
+    if (maxDate && date > maxDate) {
+      return {
+        error: `${label} must be on or before ${maxDate.toISOString().slice(0, 10)}`,
+      };
+    }
+
+    return {
+      value: DATE_ONLY_PATTERN.test(value) ? value : date.toISOString(),
+    };
+  }
+
+  private normalizeNumber(
+    label: string,
+    value: unknown,
+    rules: FieldValidationRules,
+  ): NormalizedValue {
+    const number =
+      typeof value === 'number'
+        ? value
+        : typeof value === 'string'
+          ? Number(value.trim())
+          : NaN;
+
+    if (!Number.isFinite(number)) {
+      return { error: `${label} must be a number` };
+    }
+    if (rules.integer && !Number.isInteger(number)) {
+      return { error: `${label} must be a whole number` };
+    }
+    if (rules.min !== undefined && number < rules.min) {
+      return { error: `${label} must be at least ${rules.min}` };
+    }
+    if (rules.max !== undefined && number > rules.max) {
+      return { error: `${label} must be at most ${rules.max}` };
+    }
+
+    return { value: number };
+  }
+
+  private normalizeMultiselect(
+    field: FieldDefinition,
+    value: unknown,
+    rules: FieldValidationRules,
+  ): NormalizedValue {
+    const label = field.fieldLabel;
+    if (!Array.isArray(value)) {
+      return { error: `${label} must be a list of options` };
+    }
+
+    const options = this.getOptionValues(field);
+    const selected = Array.from(new Set(value.map((item) => String(item))));
+    const invalid = selected.filter((item) => !options.includes(item));
+    if (invalid.length) {
+      return {
+        error: `${label} contains invalid options: ${invalid.join(', ')}`,
+      };
+    }
+    if (
+      rules.minSelections !== undefined &&
+      selected.length < rules.minSelections
+    ) {
+      return {
+        error: `${label} requires at least ${rules.minSelections} selections`,
+      };
+    }
+    if (
+      rules.maxSelections !== undefined &&
+      selected.length > rules.maxSelections
+    ) {
+      return {
+        error: `${label} allows at most ${rules.maxSelections} selections`,
+      };
+    }
+
+    return { value: selected };
+  }
+
+  private normalizeFile(
+    label: string,
+    value: unknown,
+    rules: FieldValidationRules,
+  ): NormalizedValue {
+    const file =
+      value !== null && typeof value === 'object'
+        ? (value as { url?: unknown; name?: unknown })
+        : null;
+    const url = typeof value === 'string' ? value : file?.url;
+    if (typeof url !== 'string' || !url.trim()) {
+      return { error: `${label} must be an uploaded file URL` };
+    }
+    const fileName = typeof file?.name === 'string' ? file.name : null;
+
+    const allowedExtensions = rules.allowedExtensions;
+    if (allowedExtensions?.length) {
+      const name = fileName || url.split('?')[0];
+      const extension = name.split('.').pop()?.toLowerCase();
+      if (
+        !extension ||
+        !allowedExtensions.map((ext) => ext.toLowerCase()).includes(extension)
+      ) {
+        return {
+          error: `${label} must be one of: ${allowedExtensions.join(', ')}`,
+        };
+      }
+    }
+
+    return {
+      value: typeof value === 'string' ? url : { url, name: fileName },
+    };
+  }
+
+  private resolveDateRule(rule: unknown, endOfDay = false): Date | null {
+    if (typeof rule !== 'string') {
+      return null;
+    }
+    if (rule === 'today') {
+      const today = new Date();
+      if (endOfDay) {
+        today.setUTCHours(23, 59, 59, 999);
+      } else {
+        today.setUTCHours(0, 0, 0, 0);
+      }
+      return today;
+    }
+    const date = new Date(rule);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+}
@@ -0,0 +1,1052 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+  ParseUUIDPipe,
+  BadRequestException,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+  ApiUnauthorizedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiBadRequestResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FormsService } from './forms.service';
+import { FormExportService, FormExportFormat } from './form-export.service';
+import { CreateFormDto } from './dto/create-form.dto';
+import { UpdateFormDto } from './dto/update-form.dto';
+import { CreateFormFieldDto } from './dto/create-form-field.dto';
+import { UpdateFormFieldDto } from './dto/update-form-field.dto';
+import { ReorderFormFieldsDto } from './dto/reorder-form-fields.dto';
+import { SubmitFormDto } from './dto/submit-form.dto';
+import { UpdateLeadMappingDto } from './dto/update-lead-mapping.dto';
+import {
+  FormFieldResponseDto,
+  FormResponseDto,
+  FormSubmissionResponseDto,
+  PublicFormResponseDto,
+} from './dto/form-response.dto';
+import { CustomForm } from './entities/custom-form.entity';
+import { CustomFormField } from './entities/custom-form-field.entity';
+import { CustomFormSubmission } from './entities/custom-form-submission.entity';
+import { FormStatus } from '../../common/enums/form-status.enum';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { SchoolEntity } from '../schools/entities/school.entity';
+
+@ApiTags('Forms')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(CustomForm)
+@Controller('forms')
+export class FormsController {
+  constructor(
+    private readonly formsService: FormsService,
+    private readonly formExportService: FormExportService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string | null,
+  ): Promise<void> {
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    // Platform-wide templates can only be managed by super admins
+    if (!schoolId) {
+      throw new ForbiddenException(
+        'Only super admins can manage template forms',
+      );
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage forms for your own school',
+      );
+    }
+  }
+
+  private async ensureUserCanViewSubmissions(
+    user: AuthUser,
+    form: CustomForm,
+  ): Promise<void> {
+    if (form.schoolId) {
+      await this.ensureUserCanManageSchool(user, form.schoolId);
+    } else if (user.primaryRole !== AppRole.SUPER_ADMIN) {
+      throw new ForbiddenException(
+        'Template form submissions can only be viewed by super admins',
+      );
+    }
+  }
+
+  private async resolveAccessibleSchoolIds(user: AuthUser): Promise<string[]> {
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    if (user.primaryRole === AppRole.SCHOOL_OWNER) {
+      const ownedSchools = await this.schoolRepository.find({
+        where: { ownerId: user.id },
+        select: ['id'],
+      });
+      ownedSchools.forEach((school) => accessible.add(school.id));
+    }
+
+    return Array.from(accessible);
+  }
+
+  /**
+   * The school a signed-in user's submission belongs to. Non-public forms
+   * only take submissions from members of the form's school; template
+   * submissions go to a school of the user.
+   */
+  private async resolveSubmissionSchoolId(
+    user: AuthUser,
+    form: CustomForm,
+    requestedSchoolId?: string,
+  ): Promise<string | undefined> {
+    const isSuperAdmin = user.primaryRole === AppRole.SUPER_ADMIN;
+
+    if (form.schoolId) {
+      if (!form.isPublic && !isSuperAdmin) {
+        const accessible = await this.resolveAccessibleSchoolIds(user);
+        if (!accessible.includes(form.schoolId)) {
+          throw new ForbiddenException(
+            'You can only submit forms of your own school',
+          );
+        }
+      }
+      return form.schoolId;
+    }
+
+    if (isSuperAdmin) {
+      return requestedSchoolId;
+    }
+
+    const schoolId = requestedSchoolId ?? user.schoolId ?? undefined;
+    if (schoolId) {
+      const accessible = await this.resolveAccessibleSchoolIds(user);
+      if (!accessible.includes(schoolId)) {
+        throw new ForbiddenException(
+          'You can only submit forms for your own school',
+        );
+      }
+    }
+    return schoolId;
+  }
+
+  @Post()
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Create a form',
+    description:
+      'Create a draft custom form (intake, allergy, permission slip, ...) with optional initial fields.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Form created successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid form or field definition' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async create(
+    @Body() createFormDto: CreateFormDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    await this.ensureUserCanManageSchool(user, createFormDto.schoolId);
+
+    const form = await this.formsService.create(createFormDto, user.id);
+    return this.mapToResponseDto(form);
+  }
+
+  @Get()
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get forms',
+    description:
+      "List forms. Super admins see all forms; other staff see their schools' forms plus platform templates.",
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'Filter by school ID',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: FormStatus,
+    description: 'Filter by form status',
+  })
+  @ApiQuery({
+    name: 'formType',
+    required: false,
+    type: String,
+    description: 'Filter by form type',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of results',
+    example: 100,
+  })
+  @ApiQuery({
+    name: 'offset',
+    required: false,
+    type: Number,
+    description: 'Number of results to skip',
+    example: 0,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of forms retrieved successfully',
+    type: [FormResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async findAll(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+    @Query('status') status?: FormStatus,
+    @Query('formType') formType?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ): Promise<{ data: FormResponseDto[]; total: number }> {
+    let schoolIds: string[] | undefined;
+    let includeTemplates = false;
+
+    if (schoolId) {
+      await this.ensureUserCanManageSchool(user, schoolId);
+      schoolIds = [schoolId];
+    } else if (user.primaryRole !== AppRole.SUPER_ADMIN) {
+      schoolIds = await this.resolveAccessibleSchoolIds(user);
+      includeTemplates = true;
+    }
+
+    const result = await this.formsService.findAll({
+      schoolIds,
+      includeTemplates,
+      status,
+      formType,
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+
+    return {
+      data: result.data.map((form) => this.mapToResponseDto(form)),
+      total: result.total,
+    };
+  }
+
+  @Get('public/:id')
+  @Public()
+  @ApiOperation({
+    summary: 'Render a public form',
+    description:
+      'Retrieve a published public form with its fields. No authentication required.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Form retrieved successfully',
+    type: PublicFormResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Form not found or not public' })
+  async findPublic(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<PublicFormResponseDto> {
+    const form = await this.formsService.findPublicForm(id);
+    return this.mapToPublicResponseDto(form);
+  }
+
+  @Post('public/:id/submissions')
+  @Public()
+  @ApiOperation({
+    summary: 'Submit a public form',
+    description:
+      "Submit a published public form. Values are validated against the form's field definitions.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Submission recorded successfully',
+    type: FormSubmissionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Submission failed validation or the form is a template',
+  })
+  @ApiNotFoundResponse({ description: 'Form not found or not public' })
+  async submitPublic(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() submitFormDto: SubmitFormDto,
+  ): Promise<FormSubmissionResponseDto> {
+    const submission = await this.formsService.submit(id, submitFormDto, {
+      requirePublic: true,
+    });
+    return this.mapSubmissionToResponseDto(submission);
+  }
+
+  @Get(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+    AppRole.TEACHER,
+    AppRole.PARENT,
+  )
+  @ApiOperation({
+    summary: 'Get a form by ID',
+    description:
+      'Retrieve a form with its fields. Parents and teachers can only load active forms that are public or belong to their school.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Form retrieved successfully',
+    type: FormResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+
+    if (
+      user.primaryRole === AppRole.PARENT ||
+      user.primaryRole === AppRole.TEACHER
+    ) {
+      if (form.status !== FormStatus.ACTIVE) {
+        throw new ForbiddenException('This form is not available');
+      }
+      if (form.schoolId && !form.isPublic) {
+        const accessible = await this.resolveAccessibleSchoolIds(user);
+        if (!accessible.includes(form.schoolId)) {
+          throw new ForbiddenException('This form is not available');
+        }
+      }
+    } else if (form.schoolId) {
+      await this.ensureUserCanManageSchool(user, form.schoolId);
+    }
+
+    return this.mapToResponseDto(form);
+  }
+
+  @Get(':id/versions')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get form versions',
+    description: 'List every version of a form, oldest first.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of any version of the form',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions retrieved successfully',
+    type: [FormResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async findVersions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto[]> {
+    const form = await this.formsService.findOne(id);
+    if (form.schoolId) {
+      await this.ensureUserCanManageSchool(user, form.schoolId);
+    }
+
+    const versions = await this.formsService.findVersions(id);
+    return versions.map((version) => this.mapToResponseDto(version));
+  }
+
+  @Post(':id/versions')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Create a new form version',
+    description:
+      'Copy a form and its fields into a new draft version. The current version keeps accepting submissions until the new one is published.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the version to copy',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Draft version created successfully',
+    type: FormResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async createVersion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const version = await this.formsService.createVersion(id, user.id);
+    return this.mapToResponseDto(version);
+  }
+
+  @Patch(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Update a form',
+    description:
+      'Update form details. Only drafts can be changed, except for the isPublic flag.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Form updated successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Form is not a draft' })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateFormDto: UpdateFormDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const updatedForm = await this.formsService.update(id, updateFormDto);
+    return this.mapToResponseDto(updatedForm);
+  }
+
+  @Put(':id/lead-mapping')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Set lead field mapping',
+    description:
+      'Map form fields onto lead columns or lead custom fields. Each submission then creates a lead, or updates the existing lead with the same parent email (and child name, when mapped) in the school.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lead mapping updated successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Unknown field or lead column in the mapping',
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async updateLeadMapping(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateLeadMappingDto: UpdateLeadMappingDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const updatedForm = await this.formsService.updateLeadMapping(
+      id,
+      updateLeadMappingDto.mapping,
+    );
+    return this.mapToResponseDto(updatedForm);
+  }
+
+  @Post(':id/publish')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Publish a form',
+    description:
+      'Publish a draft form. Any previously active version of the same form is archived.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Form published successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Form is not a draft or has no fields',
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async publish(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const publishedForm = await this.formsService.publish(id);
+    return this.mapToResponseDto(publishedForm);
+  }
+
+  @Post(':id/archive')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Archive a form',
+    description: 'Archive a form so it no longer accepts submissions.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Form archived successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Form is already archived' })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async archive(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const archivedForm = await this.formsService.archive(id);
+    return this.mapToResponseDto(archivedForm);
+  }
+
+  @Delete(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a form',
+    description:
+      'Delete a form that has no submissions. Forms with submissions must be archived instead.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Form deleted successfully',
+  })
+  @ApiBadRequestResponse({ description: 'Form has submissions' })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+    await this.formsService.remove(id);
+  }
+
+  @Post(':id/fields')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Add a field',
+    description:
+      'Add a field to a draft form. Without fieldOrder the field is appended at the end.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Field added successfully',
+    type: FormFieldResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid field definition or form is not a draft',
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async addField(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createFieldDto: CreateFormFieldDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormFieldResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const field = await this.formsService.addField(id, createFieldDto);
+    return this.mapFieldToResponseDto(field);
+  }
+
+  @Put(':id/fields/order')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Reorder fields',
+    description: "Set the display order of a draft form's fields.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Fields reordered successfully',
+    type: FormResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Field list does not match the form' })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async reorderFields(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() reorderDto: ReorderFormFieldsDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const reorderedForm = await this.formsService.reorderFields(
+      id,
+      reorderDto.fieldIds,
+    );
+    return this.mapToResponseDto(reorderedForm);
+  }
+
+  @Patch(':id/fields/:fieldId')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Update a field',
+    description: 'Update a field on a draft form.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'fieldId',
+    description: 'Field ID',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Field updated successfully',
+    type: FormFieldResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid field definition or form is not a draft',
+  })
+  @ApiNotFoundResponse({ description: 'Form or field not found' })
+  async updateField(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('fieldId', ParseUUIDPipe) fieldId: string,
+    @Body() updateFieldDto: UpdateFormFieldDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormFieldResponseDto> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+
+    const field = await this.formsService.updateField(
+      id,
+      fieldId,
+      updateFieldDto,
+    );
+    return this.mapFieldToResponseDto(field);
+  }
+
+  @Delete(':id/fields/:fieldId')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a field',
+    description: 'Remove a field from a draft form.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiParam({
+    name: 'fieldId',
+    description: 'Field ID',
+    example: '123e4567-e89b-12d3-a456-426614174010',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Field removed successfully',
+  })
+  @ApiBadRequestResponse({ description: 'Form is not a draft' })
+  @ApiNotFoundResponse({ description: 'Form or field not found' })
+  async removeField(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('fieldId', ParseUUIDPipe) fieldId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, form.schoolId);
+    await this.formsService.removeField(id, fieldId);
+  }
+
+  @Post(':id/submissions')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+    AppRole.TEACHER,
+    AppRole.PARENT,
+  )
+  @ApiOperation({
+    summary: 'Submit a form',
+    description:
+      "Submit an active form as the signed-in user. Values are validated against the form's field definitions.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Submission recorded successfully',
+    type: FormSubmissionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Submission failed validation or form is not active',
+  })
+  @ApiForbiddenResponse({
+    description: 'Form belongs to a school the user is not a member of',
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async submit(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() submitFormDto: SubmitFormDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FormSubmissionResponseDto> {
+    const form = await this.formsService.findOne(id);
+    const schoolId = await this.resolveSubmissionSchoolId(
+      user,
+      form,
+      submitFormDto.schoolId,
+    );
+    const submission = await this.formsService.submit(
+      id,
+      {
+        ...submitFormDto,
+        submitterEmail: submitFormDto.submitterEmail ?? user.email,
+        schoolId,
+      },
+      { submittedBy: user.id },
+    );
+    return this.mapSubmissionToResponseDto(submission);
+  }
+
+  @Get(':id/submissions/export')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Export form submissions',
+    description:
+      'Download all submissions of a form as CSV or XLSX, with one column per form field.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: ['csv', 'xlsx'],
+    description: 'File format (defaults to csv)',
+    example: 'xlsx',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Submissions file',
+  })
+  @ApiBadRequestResponse({ description: 'Unsupported export format' })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async exportSubmissions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('format') format: string = 'csv',
+  ): Promise<StreamableFile> {
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new BadRequestException('format must be one of: csv, xlsx');
+    }
+
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanViewSubmissions(user, form);
+
+    const file = await this.formExportService.exportSubmissions(
+      form,
+      format as FormExportFormat,
+    );
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+      length: file.buffer.length,
+    });
+  }
+
+  @Get(':id/submissions')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Get form submissions',
+    description: 'List submissions for a form, newest first.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Form ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Maximum number of results',
+    example: 100,
+  })
+  @ApiQuery({
+    name: 'offset',
+    required: false,
+    type: Number,
+    description: 'Number of results to skip',
+    example: 0,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Submissions retrieved successfully',
+    type: [FormSubmissionResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Form not found' })
+  async findSubmissions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ): Promise<{ data: FormSubmissionResponseDto[]; total: number }> {
+    const form = await this.formsService.findOne(id);
+    await this.ensureUserCanViewSubmissions(user, form);
+
+    const result = await this.formsService.findSubmissions(id, {
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+    });
+
+    return {
+      data: result.data.map((submission) =>
+        this.mapSubmissionToResponseDto(submission),
+      ),
+      total: result.total,
+    };
+  }
+
+  /**
+   * Map entity to public response DTO
+   */
+  private mapToPublicResponseDto(form: CustomForm): PublicFormResponseDto {
+    return {
+      id: form.id,
+      schoolId: form.schoolId,
+      schoolName: form.school?.name,
+      formName: form.formName,
+      formDescription: form.formDescription,
+      formType: form.formType,
+      version: form.version,
+      fields: (form.fields || []).map((field) =>
+        this.mapFieldToResponseDto(field),
+      ),
+    };
+  }
+
+  /**
+   * Map entity to response DTO
+   */
+  private mapToResponseDto(form: CustomForm): FormResponseDto {
+    return {
+      ...this.mapToPublicResponseDto(form),
+      status: form.status,
+      isPublic: form.isPublic,
+      parentFormId: form.parentFormId,
+      publishedAt: form.publishedAt?.toISOString() || null,
+      leadFieldMapping: form.leadFieldMapping ?? {},
+      createdBy: form.createdBy,
+      createdAt: form.createdAt.toISOString(),
+      updatedAt: form.updatedAt.toISOString(),
+    };
+  }
+
+  private mapFieldToResponseDto(field: CustomFormField): FormFieldResponseDto {
+    return {
+      id: field.id,
+      fieldName: field.fieldName,
+      fieldLabel: field.fieldLabel,
+      fieldType: field.fieldType,
+      fieldOptions: field.fieldOptions,
+      isRequired: field.isRequired,
+      fieldOrder: field.fieldOrder,
+      placeholder: field.placeholder,
+      helpText: field.helpText,
+      validationRules: field.validationRules,
+    };
+  }
+
+  private mapSubmissionToResponseDto(
+    submission: CustomFormSubmission,
+  ): FormSubmissionResponseDto {
+    return {
+      id: submission.id,
+      formId: submission.formId,
+      schoolId: submission.schoolId,
+      submittedBy: submission.submittedBy,
+      submissionData: submission.submissionData,
+      submitterEmail: submission.submitterEmail,
+      submitterName: submission.submitterName,
+      leadId: submission.leadId,
+      submittedAt: submission.submittedAt.toISOString(),
+    };
+  }
+}
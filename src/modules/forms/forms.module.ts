@@ -3,13 +3,33 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { CustomForm } from './entities/custom-form.entity';
 import { CustomFormField } from './entities/custom-form-field.entity';
 import { CustomFormSubmission } from './entities/custom-form-submission.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { FormsService } from './forms.service';
+import { FormsController } from './forms.controller';
+import { FormValidationService } from './form-validation.service';
+import { FormLogicService } from './form-logic.service';
+import { FormLeadMappingService } from './form-lead-mapping.service';
+import { FormExportService } from './form-export.service';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([CustomForm, CustomFormField, CustomFormSubmission])],
-  controllers: [],
-  providers: [],
-  exports: [],
+  imports: [
+    TypeOrmModule.forFeature([
+      CustomForm,
+      CustomFormField,
+      CustomFormSubmission,
+      SchoolEntity,
+    ]),
+    LeadsModule,
+  ],
+  controllers: [FormsController],
+  providers: [
+    FormsService,
+    FormValidationService,
+    FormLogicService,
+    FormLeadMappingService,
+    FormExportService,
+  ],
+  exports: [FormsService, FormValidationService],
 })
 export class FormsModule {}
-
-
@@ -0,0 +1,624 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { CustomForm } from './entities/custom-form.entity';
+import { CustomFormField } from './entities/custom-form-field.entity';
+import { CustomFormSubmission } from './entities/custom-form-submission.entity';
+import { CreateFormDto } from './dto/create-form.dto';
+import { UpdateFormDto } from './dto/update-form.dto';
+import { CreateFormFieldDto } from './dto/create-form-field.dto';
+import { UpdateFormFieldDto } from './dto/update-form-field.dto';
+import { SubmitFormDto } from './dto/submit-form.dto';
+import { FormStatus } from '../../common/enums/form-status.enum';
+import { FormValidationService } from './form-validation.service';
+import { FormLeadMappingService } from './form-lead-mapping.service';
+import { LeadsService } from '../leads/leads.service';
+
+interface FindFormsOptions {
+  schoolIds?: string[];
+  status?: FormStatus;
+  formType?: string;
+  includeTemplates?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+type FormFieldDefinition = Pick<
+  CustomFormField,
+  | 'fieldName'
+  | 'fieldLabel'
+  | 'fieldType'
+  | 'fieldOptions'
+  | 'isRequired'
+  | 'fieldOrder'
+  | 'placeholder'
+  | 'helpText'
+  | 'validationRules'
+>;
+
+interface SubmitFormOptions {
+  submittedBy?: string | null;
+  requirePublic?: boolean;
+}
+
+@Injectable()
+export class FormsService {
+  private readonly logger = new Logger(FormsService.name);
+
+  constructor(
+    @InjectRepository(CustomForm)
+    private readonly formRepository: Repository<CustomForm>,
+    @InjectRepository(CustomFormField)
+    private readonly fieldRepository: Repository<CustomFormField>,
+    @InjectRepository(CustomFormSubmission)
+    private readonly submissionRepository: Repository<CustomFormSubmission>,
+    private readonly formValidationService: FormValidationService,
+    private readonly formLeadMappingService: FormLeadMappingService,
+    private readonly leadsService: LeadsService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Create a draft form, optionally with its initial fields
+   */
+  async create(
+    createFormDto: CreateFormDto,
+    userId: string,
+  ): Promise<CustomForm> {
+    const { fields = [], ...formData } = createFormDto;
+
+    this.ensureUniqueFieldNames(fields.map((field) => field.fieldName));
+    fields.forEach((field) =>
+      this.formValidationService.validateFieldDefinition(
+        this.toFieldDefinition(field),
+      ),
+    );
+
+    const formId = await this.dataSource.transaction(async (manager) => {
+      const form = await manager.save(
+        manager.create(CustomForm, {
+          ...formData,
+          schoolId: formData.schoolId ?? null,
+          formDescription: formData.formDescription ?? null,
+          isPublic: formData.isPublic ?? false,
+          status: FormStatus.DRAFT,
+          version: 1,
+          parentFormId: null,
+          createdBy: userId,
+        }),
+      );
+
+      if (fields.length) {
+        await manager.save(
+          fields.map((field, index) =>
+            manager.create(CustomFormField, {
+              ...this.toFieldDefinition(field),
+              formId: form.id,
+              fieldOrder: field.fieldOrder ?? index,
+            }),
+          ),
+        );
+      }
+
+      return form.id;
+    });
+
+    return this.findOne(formId);
+  }
+
+  /**
+   * List forms with optional filters
+   */
+  async findAll(
+    options: FindFormsOptions,
+  ): Promise<{ data: CustomForm[]; total: number }> {
+    const queryBuilder = this.formRepository
+      .createQueryBuilder('form')
+      .leftJoinAndSelect('form.school', 'school')
+      .leftJoinAndSelect('form.fields', 'field');
+
+    // Restrict to the given schools; platform-wide templates have no school
+    if (options.schoolIds) {
+      if (!options.schoolIds.length && !options.includeTemplates) {
+        return { data: [], total: 0 };
+      }
+
+      const conditions: string[] = [];
+      if (options.schoolIds.length) {
+        conditions.push('form.school_id IN (:...schoolIds)');
+      }
+      if (options.includeTemplates) {
+        conditions.push('form.school_id IS NULL');
+      }
+      queryBuilder.andWhere(`(${conditions.join(' OR ')})`, {
+        schoolIds: options.schoolIds,
+      });
+    }
+
+    if (options.status) {
+      queryBuilder.andWhere('form.status = :status', {
+        status: options.status,
+      });
+    }
+
+    if (options.formType) {
+      queryBuilder.andWhere('form.form_type = :formType', {
+        formType: options.formType,
+      });
+    }
+
+    queryBuilder
+      .orderBy('form.createdAt', 'DESC')
+      .addOrderBy('field.fieldOrder', 'ASC');
+
+    if (options.limit !== undefined) {
+      queryBuilder.take(options.limit);
+    }
+    if (options.offset !== undefined) {
+      queryBuilder.skip(options.offset);
+    }
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return { data, total };
+  }
+
+  /**
+   * Find a form with its fields in display order
+   */
+  async findOne(id: string): Promise<CustomForm> {
+    const form = await this.formRepository.findOne({
+      where: { id },
+      relations: ['school', 'fields'],
+      order: { fields: { fieldOrder: 'ASC' } },
+    });
+
+    if (!form) {
+      throw new NotFoundException(`Form with ID "${id}" not found`);
+    }
+
+    return form;
+  }
+
+  /**
+   * Find a published public form for anonymous rendering
+   */
+  async findPublicForm(id: string): Promise<CustomForm> {
+    const form = await this.findOne(id);
+
+    if (!form.isPublic || form.status !== FormStatus.ACTIVE) {
+      throw new NotFoundException(`Form with ID "${id}" not found`);
+    }
+
+    return form;
+  }
+
+  /**
+   * List every version of a form, oldest first
+   */
+  async findVersions(id: string): Promise<CustomForm[]> {
+    const form = await this.findOne(id);
+    const rootId = form.parentFormId ?? form.id;
+
+    return this.formRepository.find({
+      where: [{ id: rootId }, { parentFormId: rootId }],
+      relations: ['school', 'fields'],
+      order: { version: 'ASC', fields: { fieldOrder: 'ASC' } },
+    });
+  }
+
+  /**
+   * Update form metadata. Published and archived versions are read-only apart from isPublic.
+   */
+  async update(id: string, updateFormDto: UpdateFormDto): Promise<CustomForm> {
+    const form = await this.findOne(id);
+
+    const changesStructure = Object.keys(updateFormDto).some(
+      (key) => key !== 'isPublic',
+    );
+    if (changesStructure) {
+      this.ensureDraft(form);
+    }
+
+    Object.assign(form, updateFormDto);
+    await this.formRepository.save(form);
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const form = await this.findOne(id);
+
+    const submissionCount = await this.submissionRepository.count({
+      where: { formId: id },
+    });
+    if (submissionCount > 0) {
+      throw new BadRequestException(
+        'Forms with submissions cannot be deleted. Archive the form instead.',
+      );
+    }
+
+    await this.formRepository.remove(form);
+  }
+
+  /**
+   * Publish a draft form. Any other active version of the same form is archived.
+   */
+  async publish(id: string): Promise<CustomForm> {
+    const form = await this.findOne(id);
+    this.ensureDraft(form);
+
+    if (!form.fields?.length) {
+      throw new BadRequestException(
+        'A form needs at least one field before it can be published',
+      );
+    }
+
+    this.formValidationService.validateFormDefinition(form.fields);
+
+    const rootId = form.parentFormId ?? form.id;
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .update(CustomForm)
+        .set({ status: FormStatus.ARCHIVED })
+        .where('(id = :rootId OR parent_form_id = :rootId)', { rootId })
+        .andWhere('id != :id', { id })
+        .andWhere('status = :status', { status: FormStatus.ACTIVE })
+        .execute();
+
+      await manager.update(CustomForm, id, {
+        status: FormStatus.ACTIVE,
+        publishedAt: new Date(),
+      });
+    });
+
+    this.logger.log(`Published form ${id} (version ${form.version})`);
+    return this.findOne(id);
+  }
+
+  async archive(id: string): Promise<CustomForm> {
+    const form = await this.findOne(id);
+
+    if (form.status === FormStatus.ARCHIVED) {
+      throw new BadRequestException('Form is already archived');
+    }
+
+    form.status = FormStatus.ARCHIVED;
+    await this.formRepository.save(form);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Copy a form and its fields into a new draft version
+   */
+  async createVersion(id: string, userId: string): Promise<CustomForm> {
+    const source = await this.findOne(id);
+    const rootId = source.parentFormId ?? source.id;
+
+    const latest = await this.formRepository
+      .createQueryBuilder('form')
+      .select('MAX(form.version)', 'maxVersion')
+      .where('(form.id = :rootId OR form.parent_form_id = :rootId)', { rootId })
+      .getRawOne<{ maxVersion: number | null }>();
+
+    const formId = await this.dataSource.transaction(async (manager) => {
+      const version = await manager.save(
+        manager.create(CustomForm, {
+          schoolId: source.schoolId,
+          formName: source.formName,
+          formDescription: source.formDescription,
+          formType: source.formType,
+          isPublic: source.isPublic,
+          leadFieldMapping: source.leadFieldMapping ?? {},
+          status: FormStatus.DRAFT,
+          version: Number(latest?.maxVersion ?? source.version) + 1,
+          parentFormId: rootId,
+          createdBy: userId,
+        }),
+      );
+
+      if (source.fields?.length) {
+        await manager.save(
+          source.fields.map((field) =>
+            manager.create(CustomFormField, {
+              formId: version.id,
+              fieldName: field.fieldName,
+              fieldLabel: field.fieldLabel,
+              fieldType: field.fieldType,
+              fieldOptions: field.fieldOptions,
+              isRequired: field.isRequired,
+              fieldOrder: field.fieldOrder,
+              placeholder: field.placeholder,
+              helpText: field.helpText,
+              validationRules: field.validationRules,
+            }),
+          ),
+        );
+      }
+
+      return version.id;
+    });
+
+    return this.findOne(formId);
+  }
+
+  /**
+   * Replace the field to lead column mapping. Allowed in any status since it does not change the form itself.
+   */
+  async updateLeadMapping(
+    id: string,
+    mapping: Record<string, string>,
+  ): Promise<CustomForm> {
+    const form = await this.findOne(id);
+
+    this.formLeadMappingService.validateMapping(form.fields || [], mapping);
+
+    form.leadFieldMapping = mapping;
+    await this.formRepository.save(form);
+
+    return this.findOne(id);
+  }
+
+  async addField(
+    formId: string,
+    createFieldDto: CreateFormFieldDto,
+  ): Promise<CustomFormField> {
+    const form = await this.findOne(formId);
+    this.ensureDraft(form);
+
+    this.ensureUniqueFieldNames([
+      ...(form.fields || []).map((field) => field.fieldName),
+      createFieldDto.fieldName,
+    ]);
+    this.formValidationService.validateFieldDefinition(
+      this.toFieldDefinition(createFieldDto),
+    );
+
+    const nextOrder = (form.fields || []).reduce(
+      (max, field) => Math.max(max, field.fieldOrder + 1),
+      0,
+    );
+
+    const field = this.fieldRepository.create({
+      ...this.toFieldDefinition(createFieldDto),
+      formId,
+      fieldOrder: createFieldDto.fieldOrder ?? nextOrder,
+    });
+
+    return this.fieldRepository.save(field);
+  }
+
+  async updateField(
+    formId: string,
+    fieldId: string,
+    updateFieldDto: UpdateFormFieldDto,
+  ): Promise<CustomFormField> {
+    const form = await this.findOne(formId);
+    this.ensureDraft(form);
+
+    const field = this.findField(form, fieldId);
+
+    if (
+      updateFieldDto.fieldName &&
+      updateFieldDto.fieldName !== field.fieldName
+    ) {
+      this.ensureUniqueFieldNames(
+        form.fields.map((existing) =>
+          existing.id === fieldId
+            ? updateFieldDto.fieldName!
+            : existing.fieldName,
+        ),
+      );
+    }
+
+    Object.assign(field, updateFieldDto);
+    this.formValidationService.validateFieldDefinition(field);
+
+    return this.fieldRepository.save(field);
+  }
+
+  async removeField(formId: string, fieldId: string): Promise<void> {
+    const form = await this.findOne(formId);
+    this.ensureDraft(form);
+
+    const field = this.findField(form, fieldId);
+    await this.fieldRepository.remove(field);
+  }
+
+  /**
+   * Reorder fields. The list must contain every field of the form exactly once.
+   */
+  async reorderFields(formId: string, fieldIds: string[]): Promise<CustomForm> {
+    const form = await this.findOne(formId);
+    this.ensureDraft(form);
+
+    const existingIds = new Set((form.fields || []).map((field) => field.id));
+    const requestedIds = new Set(fieldIds);
+    const isCompleteList =
+      requestedIds.size === fieldIds.length &&
+      requestedIds.size === existingIds.size &&
+      fieldIds.every((id) => existingIds.has(id));
+
+    if (!isCompleteList) {
+      throw new BadRequestException(
+        'fieldIds must list every field of the form exactly once',
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      for (const [index, fieldId] of fieldIds.entries()) {
+        await manager.update(
+          CustomFormField,
+          { id: fieldId, formId },
+          { fieldOrder: index },
+        );
+      }
+    });
+
+    return this.findOne(formId);
+  }
+
+  /**
+   * Validate and store a submission for an active form
+   */
+  async submit(
+    formId: string,
+    submitFormDto: SubmitFormDto,
+    options: SubmitFormOptions = {},
+  ): Promise<CustomFormSubmission> {
+    const form = options.requirePublic
+      ? await this.findPublicForm(formId)
+      : await this.findOne(formId);
+
+    if (form.status !== FormStatus.ACTIVE) {
+      throw new BadRequestException('This form is not accepting submissions');
+    }
+
+    // Anyone can post to a public form, so the school of a template
+    // submission cannot be taken from the request
+    if (!form.schoolId && options.requirePublic) {
+      throw new BadRequestException(
+        'Template forms do not take public submissions',
+      );
+    }
+
+    const schoolId = form.schoolId ?? submitFormDto.schoolId;
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required for template forms');
+    }
+
+    const submissionData = this.formValidationService.validateSubmission(
+      form.fields || [],
+      submitFormDto.data,
+    );
+
+    const submission = this.submissionRepository.create({
+      formId,
+      schoolId,
+      submittedBy: options.submittedBy ?? null,
+      submissionData,
+      submittedAt: new Date(),
+      submitterEmail: submitFormDto.submitterEmail ?? null,
+      submitterName: submitFormDto.submitterName ?? null,
+    });
+
+    const savedSubmission = await this.submissionRepository.save(submission);
+
+    if (Object.keys(form.leadFieldMapping ?? {}).length) {
+      await this.syncLead(form, savedSubmission);
+    }
+
+    return savedSubmission;
+  }
+
+  async findSubmissions(
+    formId: string,
+    options: { limit?: number; offset?: number } = {},
+  ): Promise<{ data: CustomFormSubmission[]; total: number }> {
+    const [data, total] = await this.submissionRepository.findAndCount({
+      where: { formId },
+      order: { submittedAt: 'DESC' },
+      take: options.limit,
+      skip: options.offset,
+    });
+
+    return { data, total };
+  }
+
+  /**
+   * Create or update the lead mapped from a submission. Failures are logged so the submission itself is kept.
+   */
+  private async syncLead(
+    form: CustomForm,
+    submission: CustomFormSubmission,
+  ): Promise<void> {
+    const values = this.formLeadMappingService.toLeadValues(
+      form.leadFieldMapping,
+      submission.submissionData,
+      submission,
+    );
+
+    if (!values.parentEmail) {
+      this.logger.warn(
+        `Submission ${submission.id} for form ${form.id} has no parent email; skipping lead sync`,
+      );
+      return;
+    }
+
+    try {
+      const { lead, created } =
+        await this.leadsService.upsertFromFormSubmission(
+          submission.schoolId,
+          values,
+          {
+            formId: form.id,
+            submissionId: submission.id,
+            submittedBy: submission.submittedBy,
+          },
+        );
+
+      submission.leadId = lead.id;
+      await this.submissionRepository.update(submission.id, {
+        leadId: lead.id,
+      });
+
+      this.logger.log(
+        `${created ? 'Created' : 'Updated'} lead ${lead.id} from submission ${submission.id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to sync lead from submission ${submission.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private ensureDraft(form: CustomForm): void {
+    if (form.status !== FormStatus.DRAFT) {
+      throw new BadRequestException(
+        `Form is ${form.status} and can no longer be edited. Create a new version to make changes.`,
+      );
+    }
+  }
+
+  private ensureUniqueFieldNames(fieldNames: string[]): void {
+    const seen = new Set<string>();
+    for (const name of fieldNames) {
+      if (seen.has(name)) {
+        throw new BadRequestException(
+          `Field name "${name}" is used more than once`,
+        );
+      }
+      seen.add(name);
+    }
+  }
+
+  private findField(form: CustomForm, fieldId: string): CustomFormField {
+    const field = form.fields?.find((existing) => existing.id === fieldId);
+    if (!field) {
+      throw new NotFoundException(`Field with ID "${fieldId}" not found`);
+    }
+    return field;
+  }
+
+  private toFieldDefinition(field: CreateFormFieldDto): FormFieldDefinition {
+    return {
+      fieldName: field.fieldName,
+      fieldLabel: field.fieldLabel,
+      fieldType: field.fieldType,
+      fieldOptions: field.fieldOptions ?? [],
+      isRequired: field.isRequired ?? false,
+      fieldOrder: field.fieldOrder ?? 0,
+      placeholder: field.placeholder ?? null,
+      helpText: field.helpText ?? null,
+      validationRules: field.validationRules ?? {},
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { CustomFormField } from '../entities/custom-form-field.entity';
+
+export type FormFieldDefinition = Pick<
+  CustomFormField,
+  | 'fieldName'
+  | 'fieldLabel'
+  | 'fieldType'
+  | 'fieldOptions'
+  | 'isRequired'
+  | 'validationRules'
+>;
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+/**
+ * Compares the current value of another field, e.g. has_allergies equals "yes"
+ */
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: unknown;
+}
+
+/**
+ * Combines conditions; `all` requires every condition, `any` at least one
+ */
+export interface ConditionGroup {
+  all?: FormCondition[];
+  any?: FormCondition[];
+}
+
+export type FormCondition = FieldCondition | ConditionGroup;
+
+/**
+ * Jumps past the following pages when the condition matches.
+ * `end` skips every remaining page.
+ */
+export interface SkipRule {
+  when: FormCondition;
+  skipToPage: number | 'end';
+}
+
+export interface AgeCalculation {
+  type: 'age';
+  field: string;
+  unit?: 'years' | 'months';
+  asOf?: string;
+}
+
+/**
+ * Adds numeric values. For option fields the selected options' `price` is used.
+ */
+export interface SumCalculation {
+  type: 'sum';
+  fields: string[];
+  base?: number;
+}
+
+export type FieldCalculation = AgeCalculation | SumCalculation;
+
+/**
+ * Rules supported in CustomFormField.validationRules
+ */
+export interface FieldValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  minDate?: string;
+  maxDate?: string;
+  minSelections?: number;
+  maxSelections?: number;
+  allowedExtensions?: string[];
+  page?: number;
+  showIf?: FormCondition;
+  skipLogic?: SkipRule[];
+  calculation?: FieldCalculation;
+}
@@ -13,6 +13,7 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagg
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -26,6 +27,7 @@ import { IncidentReport } from './entities/incident-report.entity';
 @ApiTags('Incidents')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(IncidentReport)
 @Controller('incidents')
 export class IncidentsController {
   constructor(private readonly incidentsService: IncidentsService) {}
@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DiscountService } from './discount.service';
+import {
+  CreateDiscountRuleDto,
+  DiscountRedemptionResponseDto,
+  DiscountRuleQueryDto,
+  DiscountRuleResponseDto,
+  RedeemPromoCodeDto,
+  UpdateDiscountRuleDto,
+} from './dto/discount-rule.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { DiscountRule } from './entities/discount-rule.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Discount Rules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(DiscountRule)
+@Controller('discount-rules')
+export class DiscountRuleController {
+  constructor(
+    private readonly discountService: DiscountService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage discounts of your own school',
+      );
+    }
+  }
+
+  @Get()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: "List the school's discount rules" })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rules retrieved successfully',
+    type: [DiscountRuleResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: DiscountRuleQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: DiscountRuleResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.discountService.findAll(schoolId!, query);
+  }
+
+  @Post()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Create a discount rule',
+    description:
+      'Active rules are applied automatically when tuition invoices are generated and appear as negative invoice items. Sibling rules discount the second and later children of a family, ordered by tuition; staff-child rules apply to children of school staff; multi-program rules apply to children in several programs at once; promo code rules apply to enrollments the code was redeemed for; prepay rules apply when the family account credit covers the invoice.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Discount rule created',
+    type: DiscountRuleResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid discount rule' })
+  @ApiConflictResponse({ description: 'Promo code already in use' })
+  async create(
+    @Body() dto: CreateDiscountRuleDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DiscountRuleResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.discountService.create(schoolId!, dto);
+  }
+
+  @Post('promo-codes/redeem')
+  @HttpCode(HttpStatus.OK)
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.SCHOOL_OWNER,
+    AppRole.PARENT,
+  )
+  @ApiOperation({
+    summary: 'Redeem a promo code for an enrollment',
+    description:
+      'Parents can redeem codes for their own children. The discount applies from the next tuition invoice.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promo code redeemed',
+    type: DiscountRedemptionResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid or used up promo code' })
+  @ApiNotFoundResponse({ description: 'Enrollment not found' })
+  @ApiConflictResponse({ description: 'Already redeemed for the enrollment' })
+  async redeemPromoCode(
+    @Body() dto: RedeemPromoCodeDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DiscountRedemptionResponseDto> {
+    const enrollment = await this.discountService.findEnrollment(
+      dto.enrollmentId,
+    );
+    if (user.primaryRole === AppRole.PARENT) {
+      if (
+        enrollment.lead?.parentEmail?.toLowerCase() !== user.email.toLowerCase()
+      ) {
+        throw new ForbiddenException(
+          'You can only redeem promo codes for your own children',
+        );
+      }
+    } else {
+      await this.ensureUserCanManageSchool(user, enrollment.schoolId);
+    }
+
+    return this.discountService.redeemPromoCode(enrollment, dto.code, user.id);
+  }
+
+  @Patch(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Update a discount rule',
+    description: 'Invoices already generated are not changed.',
+  })
+  @ApiParam({ name: 'id', description: 'Discount rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rule updated',
+    type: DiscountRuleResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid discount rule' })
+  @ApiNotFoundResponse({ description: 'Discount rule not found' })
+  @ApiConflictResponse({ description: 'Promo code already in use' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateDiscountRuleDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<DiscountRuleResponseDto> {
+    const rule = await this.discountService.findOne(id);
+    await this.ensureUserCanManageSchool(user, rule.schoolId);
+    return this.discountService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Delete a discount rule',
+    description: 'Invoices already generated keep their discounts.',
+  })
+  @ApiParam({ name: 'id', description: 'Discount rule ID' })
+  @ApiResponse({ status: 204, description: 'Discount rule deleted' })
+  @ApiNotFoundResponse({ description: 'Discount rule not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const rule = await this.discountService.findOne(id);
+    await this.ensureUserCanManageSchool(user, rule.schoolId);
+    await this.discountService.remove(id);
+  }
+}
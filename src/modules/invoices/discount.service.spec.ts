@@ -0,0 +1,416 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { DiscountService } from './discount.service';
+import {
+  DiscountRule,
+  DiscountRuleType,
+  DiscountValueType,
+} from './entities/discount-rule.entity';
+import { DiscountRedemption } from './entities/discount-redemption.entity';
+import {
+  TuitionInvoiceLineDto,
+  TuitionInvoiceLineStatus,
+} from './dto/tuition-billing.dto';
+import {
+  BillingCycle,
+  EnrollmentEntity,
+} from '../enrollment/entities/enrollment.entity';
+import { Student } from '../students/entities/student.entity';
+import { ParentStudent } from '../checkinout/entities/parent-student.entity';
+import { UserRoleEntity } from '../users/entities/user-role.entity';
+import { LedgerService } from '../ledger/ledger.service';
+
+const SCHOOL_ID = 'school-1';
+
+function queryBuilder(result: unknown[]) {
+  const builder = {
+    innerJoinAndSelect: () => builder,
+    where: () => builder,
+    andWhere: () => builder,
+    getMany: jest.fn().mockResolvedValue(result),
+  };
+  return builder;
+}
+
+function makeRule(overrides: Partial<DiscountRule>): DiscountRule {
+  return {
+    id: `rule-${overrides.ruleType}`,
+    schoolId: SCHOOL_ID,
+    name: `${overrides.ruleType} discount`,
+    valueType: DiscountValueType.PERCENTAGE,
+    percentage: 10,
+    flatAmount: 0,
+    active: true,
+    stackable: true,
+    programs: null,
+    siblingPosition: null,
+    minPrograms: null,
+    promoCode: null,
+    maxRedemptions: null,
+    validFrom: null,
+    validUntil: null,
+    ...overrides,
+  } as DiscountRule;
+}
+
+interface Child {
+  id: string;
+  tuition: number;
+  parentEmail?: string;
+  program?: string;
+  status?: TuitionInvoiceLineStatus;
+}
+
+function makeChildren(children: Child[]): {
+  lines: TuitionInvoiceLineDto[];
+  enrollments: EnrollmentEntity[];
+} {
+  const enrollments = children.map(
+    (child, index) =>
+      ({
+        id: `enrollment-${child.id}-${index}`,
+        leadId: `lead-${child.id}`,
+        schoolId: SCHOOL_ID,
+        program: child.program ?? 'Preschool',
+        tuitionAmount: child.tuition / 100,
+        billingCycle: BillingCycle.MONTHLY,
+        createdAt: new Date(Date.UTC(2026, 0, index + 1)),
+        lead: {
+          childName: `Child ${child.id}`,
+          parentEmail: child.parentEmail ?? `${child.id}@example.com`,
+        },
+      }) as EnrollmentEntity,
+  );
+  const lines = children.map(
+    (child, index): TuitionInvoiceLineDto => ({
+      enrollmentId: enrollments[index].id,
+      leadId: enrollments[index].leadId,
+      schoolId: SCHOOL_ID,
+      childName: `Child ${child.id}`,
+      program: enrollments[index].program,
+      billingCycle: BillingCycle.MONTHLY,
+      periodStart: '2026-03-01',
+      periodEnd: '2026-03-31',
+      billedDays: 31,
+      periodDays: 31,
+      prorated: false,
+      subtotal: child.tuition,
+      discounts: [],
+      payerShares: [],
+      amount: child.tuition,
+      dueDate: '2026-03-08',
+      invoiceNumber: `TUI-20260301-${child.id}`,
+      invoiceId: null,
+      status: child.status ?? TuitionInvoiceLineStatus.PENDING,
+      error: null,
+    }),
+  );
+  return { lines, enrollments };
+}
+
+describe('DiscountService', () => {
+  let service: DiscountService;
+  let rules: DiscountRule[];
+  let redemptions: Partial<DiscountRedemption>[];
+  let staffRoles: unknown[];
+  const findAccountByEmail = jest.fn();
+  const getBalance = jest.fn();
+
+  beforeEach(async () => {
+    rules = [];
+    redemptions = [];
+    staffRoles = [];
+    findAccountByEmail.mockReset().mockResolvedValue(null);
+    getBalance.mockReset();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        DiscountService,
+        {
+          provide: getRepositoryToken(DiscountRule),
+          useValue: { find: () => Promise.resolve(rules) },
+        },
+        {
+          provide: getRepositoryToken(DiscountRedemption),
+          useValue: { find: () => Promise.resolve(redemptions) },
+        },
+        { provide: getRepositoryToken(EnrollmentEntity), useValue: {} },
+        {
+          provide: getRepositoryToken(Student),
+          useValue: { createQueryBuilder: () => queryBuilder([]) },
+        },
+        {
+          provide: getRepositoryToken(ParentStudent),
+          useValue: { find: () => Promise.resolve([]) },
+        },
+        {
+          provide: getRepositoryToken(UserRoleEntity),
+          useValue: { createQueryBuilder: () => queryBuilder(staffRoles) },
+        },
+        {
+          provide: LedgerService,
+          useValue: { findAccountByEmail, getBalance },
+        },
+        { provide: DataSource, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(DiscountService);
+  });
+
+  describe('combining rules', () => {
+    it('adds up stacking rules', async () => {
+      rules = [
+        makeRule({ ruleType: DiscountRuleType.STAFF_CHILD, percentage: 10 }),
+        makeRule({
+          ruleType: DiscountRuleType.PROMO_CODE,
+          valueType: DiscountValueType.FLAT,
+          flatAmount: 5000,
+        }),
+      ];
+      staffRoles = [
+        {
+          schoolId: SCHOOL_ID,
+          userId: 'staff-1',
+          profile: { email: 'a@example.com' },
+        },
+      ];
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000 },
+      ]);
+      redemptions = [
+        {
+          discountRuleId: 'rule-promo_code',
+          enrollmentId: enrollments[0].id,
+        },
+      ];
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts.map((discount) => discount.amount)).toEqual([
+        10000, 5000,
+      ]);
+      expect(lines[0].amount).toBe(85000);
+    });
+
+    it('uses a rule that does not stack when it is worth more', async () => {
+      rules = [
+        makeRule({
+          ruleType: DiscountRuleType.STAFF_CHILD,
+          percentage: 50,
+          stackable: false,
+        }),
+        makeRule({ ruleType: DiscountRuleType.MULTI_PROGRAM, percentage: 10 }),
+      ];
+      staffRoles = [
+        {
+          schoolId: SCHOOL_ID,
+          userId: 'staff-1',
+          profile: { email: 'a@example.com' },
+        },
+      ];
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000, program: 'Preschool' },
+        { id: 'a', tuition: 50000, program: 'Aftercare' },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts).toEqual([
+        expect.objectContaining({
+          ruleType: DiscountRuleType.STAFF_CHILD,
+          category: 'staff_child_discount',
+          amount: 50000,
+        }),
+      ]);
+      expect(lines[1].amount).toBe(25000);
+    });
+
+    it('keeps the stacking rules when they are worth more', async () => {
+      rules = [
+        makeRule({
+          ruleType: DiscountRuleType.STAFF_CHILD,
+          percentage: 15,
+          stackable: false,
+        }),
+        makeRule({ ruleType: DiscountRuleType.MULTI_PROGRAM, percentage: 10 }),
+        makeRule({
+          ruleType: DiscountRuleType.PROMO_CODE,
+          percentage: 10,
+        }),
+      ];
+      staffRoles = [
+        {
+          schoolId: SCHOOL_ID,
+          userId: 'staff-1',
+          profile: { email: 'a@example.com' },
+        },
+      ];
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000, program: 'Preschool' },
+        { id: 'a', tuition: 100000, program: 'Aftercare' },
+      ]);
+      redemptions = [
+        {
+          discountRuleId: 'rule-promo_code',
+          enrollmentId: enrollments[0].id,
+        },
+      ];
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts.map((discount) => discount.ruleType)).toEqual([
+        DiscountRuleType.MULTI_PROGRAM,
+        DiscountRuleType.PROMO_CODE,
+      ]);
+      expect(lines[0].amount).toBe(80000);
+      // Without the promo code the staff discount is worth more
+      expect(lines[1].discounts.map((discount) => discount.ruleType)).toEqual([
+        DiscountRuleType.STAFF_CHILD,
+      ]);
+      expect(lines[1].amount).toBe(85000);
+    });
+
+    it('never discounts more than the tuition', async () => {
+      rules = [
+        makeRule({
+          ruleType: DiscountRuleType.STAFF_CHILD,
+          valueType: DiscountValueType.FLAT,
+          flatAmount: 80000,
+        }),
+        makeRule({
+          ruleType: DiscountRuleType.PROMO_CODE,
+          valueType: DiscountValueType.FLAT,
+          flatAmount: 80000,
+        }),
+      ];
+      staffRoles = [
+        {
+          schoolId: SCHOOL_ID,
+          userId: 'staff-1',
+          profile: { email: 'a@example.com' },
+        },
+      ];
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000 },
+      ]);
+      redemptions = [
+        {
+          discountRuleId: 'rule-promo_code',
+          enrollmentId: enrollments[0].id,
+        },
+      ];
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts.map((discount) => discount.amount)).toEqual([
+        80000, 20000,
+      ]);
+      expect(lines[0].amount).toBe(0);
+    });
+
+    it('leaves lines already billed alone', async () => {
+      rules = [makeRule({ ruleType: DiscountRuleType.STAFF_CHILD })];
+      staffRoles = [
+        {
+          schoolId: SCHOOL_ID,
+          userId: 'staff-1',
+          profile: { email: 'a@example.com' },
+        },
+      ];
+      const { lines, enrollments } = makeChildren([
+        {
+          id: 'a',
+          tuition: 100000,
+          status: TuitionInvoiceLineStatus.ALREADY_BILLED,
+        },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts).toEqual([]);
+      expect(lines[0].amount).toBe(100000);
+    });
+  });
+
+  describe('sibling discounts', () => {
+    it('discounts children after the one with the highest tuition', async () => {
+      rules = [
+        makeRule({
+          id: 'rule-second',
+          ruleType: DiscountRuleType.SIBLING,
+          percentage: 10,
+          siblingPosition: 2,
+        }),
+        makeRule({
+          id: 'rule-third',
+          ruleType: DiscountRuleType.SIBLING,
+          percentage: 20,
+          siblingPosition: 3,
+        }),
+      ];
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 80000, parentEmail: 'family@example.com' },
+        { id: 'b', tuition: 100000, parentEmail: 'Family@Example.com ' },
+        { id: 'c', tuition: 60000, parentEmail: 'family@example.com' },
+        { id: 'd', tuition: 90000 },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines.map((line) => line.discounts.map((d) => d.ruleId))).toEqual([
+        ['rule-second'],
+        [],
+        ['rule-third'],
+        [],
+      ]);
+      expect(lines.map((line) => line.amount)).toEqual([
+        72000, 100000, 48000, 90000,
+      ]);
+    });
+  });
+
+  describe('prepay discounts', () => {
+    beforeEach(() => {
+      rules = [makeRule({ ruleType: DiscountRuleType.PREPAY, percentage: 5 })];
+      findAccountByEmail.mockResolvedValue({ id: 'account-1' });
+    });
+
+    it('applies when the account credit covers the invoice', async () => {
+      getBalance.mockResolvedValue({ balance: 0, availableCredit: 100000 });
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000 },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].amount).toBe(95000);
+    });
+
+    it('does not apply when the credit falls short', async () => {
+      getBalance.mockResolvedValue({ balance: 0, availableCredit: 99999 });
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000 },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines[0].discounts).toEqual([]);
+      expect(lines[0].amount).toBe(100000);
+    });
+
+    it('counts credit earlier lines of the run already use', async () => {
+      getBalance.mockResolvedValue({ balance: 0, availableCredit: 150000 });
+      const { lines, enrollments } = makeChildren([
+        { id: 'a', tuition: 100000, parentEmail: 'family@example.com' },
+        { id: 'b', tuition: 100000, parentEmail: 'family@example.com' },
+      ]);
+
+      await service.applyDiscounts(lines, enrollments);
+
+      expect(lines.map((line) => line.amount)).toEqual([95000, 100000]);
+      expect(getBalance).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,819 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import {
+  DiscountRule,
+  DiscountRuleType,
+  DiscountValueType,
+} from './entities/discount-rule.entity';
+import { DiscountRedemption } from './entities/discount-redemption.entity';
+import {
+  CreateDiscountRuleDto,
+  DiscountRedemptionResponseDto,
+  DiscountRuleQueryDto,
+  DiscountRuleResponseDto,
+  UpdateDiscountRuleDto,
+} from './dto/discount-rule.dto';
+import {
+  TuitionDiscountDto,
+  TuitionInvoiceLineDto,
+  TuitionInvoiceLineStatus,
+} from './dto/tuition-billing.dto';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { Student } from '../students/entities/student.entity';
+import { ParentStudent } from '../checkinout/entities/parent-student.entity';
+import { UserRoleEntity } from '../users/entities/user-role.entity';
+import { LedgerService } from '../ledger/ledger.service';
+import { AppRole } from '../../common/enums/app-role.enum';
+import {
+  toUtcDay,
+  toDateKey,
+  toColumnDate,
+} from '../../common/utils/date.util';
+
+/** Roles whose children get staff-child discounts at the school */
+const STAFF_ROLES = [
+  AppRole.SCHOOL_OWNER,
+  AppRole.SCHOOL_ADMIN,
+  AppRole.ADMISSIONS_STAFF,
+  AppRole.TEACHER,
+];
+
+const DEFAULT_SIBLING_POSITION = 2;
+const DEFAULT_MIN_PROGRAMS = 2;
+
+/** What the rules need to know about the child behind a tuition line */
+interface LineContext {
+  line: TuitionInvoiceLineDto;
+  enrollment: EnrollmentEntity;
+  childKey: string;
+  familyKey: string;
+  parentEmail: string | null;
+  siblingPosition: number;
+  childPrograms: string[];
+  isStaffChild: boolean;
+  redeemedRuleIds: Set<string>;
+}
+
+/** Groups keys that share a parent into families */
+class FamilyGroups {
+  private readonly parents = new Map<string, string>();
+
+  find(key: string): string {
+    let root = key;
+    while (this.parents.has(root) && this.parents.get(root) !== root) {
+      root = this.parents.get(root)!;
+    }
+    this.parents.set(key, root);
+    return root;
+  }
+
+  join(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parents.set(rootB, rootA);
+    }
+  }
+}
+
+/**
+ * Per-school discount rules and their application to tuition invoices.
+ * Families are the enrollments that share a parent email or, through
+ * linked students, a parent user. Every matching rule is worked out per
+ * invoice line: stacking rules add up, a rule that does not stack replaces
+ * them when it is worth more, and the total never exceeds the tuition.
+ */
+@Injectable()
+export class DiscountService {
+  private readonly logger = new Logger(DiscountService.name);
+
+  constructor(
+    @InjectRepository(DiscountRule)
+    private readonly ruleRepository: Repository<DiscountRule>,
+    @InjectRepository(DiscountRedemption)
+    private readonly redemptionRepository: Repository<DiscountRedemption>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+    @InjectRepository(ParentStudent)
+    private readonly parentStudentRepository: Repository<ParentStudent>,
+    @InjectRepository(UserRoleEntity)
+    private readonly userRoleRepository: Repository<UserRoleEntity>,
+    private readonly ledgerService: LedgerService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findAll(
+    schoolId: string,
+    query: DiscountRuleQueryDto = {},
+  ): Promise<{ data: DiscountRuleResponseDto[]; total: number }> {
+    const rules = await this.ruleRepository.find({
+      where: {
+        schoolId,
+        ...(query.ruleType ? { ruleType: query.ruleType } : {}),
+        ...(query.active !== undefined ? { active: query.active } : {}),
+      },
+      order: { createdAt: 'ASC' },
+    });
+    const redemptions = await this.countRedemptions(
+      rules.map((rule) => rule.id),
+    );
+
+    return {
+      data: rules.map((rule) =>
+        this.mapToResponseDto(rule, redemptions.get(rule.id) ?? 0),
+      ),
+      total: rules.length,
+    };
+  }
+
+  async findOne(id: string): Promise<DiscountRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Discount rule with ID "${id}" not found`);
+    }
+    return rule;
+  }
+
+  async create(
+    schoolId: string,
+    dto: CreateDiscountRuleDto,
+  ): Promise<DiscountRuleResponseDto> {
+    const rule = this.ruleRepository.create({
+      schoolId,
+      name: dto.name,
+      ruleType: dto.ruleType,
+    });
+    this.assignRule(rule, dto);
+    await this.validateRule(rule);
+
+    const saved = await this.ruleRepository.save(rule);
+    this.logger.log(
+      `Created ${saved.ruleType} discount rule ${saved.id} for school ${schoolId}`,
+    );
+    return this.mapToResponseDto(saved, 0);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateDiscountRuleDto,
+  ): Promise<DiscountRuleResponseDto> {
+    const rule = await this.findOne(id);
+    this.assignRule(rule, dto);
+    await this.validateRule(rule);
+
+    const saved = await this.ruleRepository.save(rule);
+    const redemptions = await this.countRedemptions([saved.id]);
+    return this.mapToResponseDto(saved, redemptions.get(saved.id) ?? 0);
+  }
+
+  /**
+   * Invoices already issued keep their discount items
+   */
+  async remove(id: string): Promise<void> {
+    const rule = await this.findOne(id);
+    await this.ruleRepository.remove(rule);
+    this.logger.log(`Removed discount rule ${id}`);
+  }
+
+  async findEnrollment(id: string): Promise<EnrollmentEntity> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { id },
+      relations: ['lead'],
+    });
+    if (!enrollment) {
+      throw new NotFoundException(`Enrollment with ID "${id}" not found`);
+    }
+    return enrollment;
+  }
+
+  /**
+   * Redeem a promo code for an enrollment; the discount applies from the
+   * next tuition invoice
+   */
+  async redeemPromoCode(
+    enrollment: EnrollmentEntity,
+    code: string,
+    redeemedBy: string,
+  ): Promise<DiscountRedemptionResponseDto> {
+    const rule = await this.ruleRepository.findOne({
+      where: {
+        schoolId: enrollment.schoolId,
+        ruleType: DiscountRuleType.PROMO_CODE,
+        promoCode: code.trim().toUpperCase(),
+        active: true,
+      },
+    });
+    const today = toUtcDay(new Date());
+    if (!rule || (rule.validUntil && toUtcDay(rule.validUntil) < today)) {
+      throw new BadRequestException('This promo code is not valid');
+    }
+
+    // Lock the rule so concurrent redemptions cannot exceed its limit
+    const redemption = await this.dataSource.transaction(async (manager) => {
+      const locked = await manager.findOne(DiscountRule, {
+        where: { id: rule.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!locked?.active) {
+        throw new BadRequestException('This promo code is not valid');
+      }
+
+      if (locked.maxRedemptions != null) {
+        const redeemed = await manager.count(DiscountRedemption, {
+          where: { discountRuleId: rule.id },
+        });
+        if (redeemed >= locked.maxRedemptions) {
+          throw new BadRequestException(
+            'This promo code has reached its redemption limit',
+          );
+        }
+      }
+
+      const existing = await manager.count(DiscountRedemption, {
+        where: { discountRuleId: rule.id, enrollmentId: enrollment.id },
+      });
+      if (existing > 0) {
+        throw new ConflictException(
+          'This promo code was already redeemed for the enrollment',
+        );
+      }
+
+      return manager.save(
+        manager.create(DiscountRedemption, {
+          discountRuleId: rule.id,
+          enrollmentId: enrollment.id,
+          schoolId: enrollment.schoolId,
+          redeemedBy,
+        }),
+      );
+    });
+    this.logger.log(
+      `Promo code ${rule.promoCode} redeemed for enrollment ${enrollment.id}`,
+    );
+
+    return {
+      id: redemption.id,
+      discountRuleId: rule.id,
+      enrollmentId: enrollment.id,
+      name: rule.name,
+      createdAt: redemption.createdAt,
+    };
+  }
+
+  /**
+   * Work out the discounts of each line still to be invoiced. Sets the
+   * line's discounts and lowers its amount by their total; lines already
+   * invoiced only count towards sibling order and bundles.
+   */
+  async applyDiscounts(
+    lines: TuitionInvoiceLineDto[],
+    enrollments: EnrollmentEntity[],
+  ): Promise<void> {
+    const schoolIds = [...new Set(lines.map((line) => line.schoolId))];
+    if (schoolIds.length === 0) {
+      return;
+    }
+
+    const rules = await this.ruleRepository.find({
+      where: { schoolId: In(schoolIds), active: true },
+    });
+    if (rules.length === 0) {
+      return;
+    }
+
+    const contexts = await this.buildContexts(lines, enrollments, rules);
+    const prepayFunds = new Map<string, number>();
+
+    for (const context of contexts) {
+      if (context.line.status === TuitionInvoiceLineStatus.ALREADY_BILLED) {
+        continue;
+      }
+
+      const schoolRules = rules.filter(
+        (rule) =>
+          rule.schoolId === context.line.schoolId &&
+          this.coversLine(rule, context.line),
+      );
+      const matching = schoolRules.filter(
+        (rule) =>
+          rule.ruleType !== DiscountRuleType.PREPAY &&
+          this.ruleMatches(rule, context, schoolRules),
+      );
+      let discounts = this.combine(context.line.subtotal, matching);
+
+      // Prepay is checked last, against what is left to pay
+      const prepayRules = schoolRules.filter(
+        (rule) => rule.ruleType === DiscountRuleType.PREPAY,
+      );
+      const net =
+        context.line.subtotal -
+        discounts.reduce((sum, discount) => sum + discount.amount, 0);
+      if (prepayRules.length > 0 && context.parentEmail && net > 0) {
+        const funds = await this.getPrepaidFunds(context, prepayFunds);
+        if (funds >= net) {
+          discounts = this.combine(context.line.subtotal, [
+            ...matching,
+            ...prepayRules,
+          ]);
+        }
+      }
+
+      const total = discounts.reduce(
+        (sum, discount) => sum + discount.amount,
+        0,
+      );
+      context.line.discounts = discounts;
+      context.line.amount = context.line.subtotal - total;
+      if (prepayFunds.has(context.familyKey)) {
+        prepayFunds.set(
+          context.familyKey,
+          prepayFunds.get(context.familyKey)! - context.line.amount,
+        );
+      }
+    }
+  }
+
+  private async buildContexts(
+    lines: TuitionInvoiceLineDto[],
+    enrollments: EnrollmentEntity[],
+    rules: DiscountRule[],
+  ): Promise<LineContext[]> {
+    const enrollmentById = new Map(
+      enrollments.map((enrollment) => [enrollment.id, enrollment]),
+    );
+    const emailOf = (enrollment: EnrollmentEntity): string | null =>
+      enrollment.lead?.parentEmail?.trim().toLowerCase() || null;
+
+    // Match enrollments to students the way enrollment creates them: by
+    // school, parent email and the child's first name
+    const emails = [
+      ...new Set(enrollments.map(emailOf).filter((email) => !!email)),
+    ] as string[];
+    const students = emails.length
+      ? await this.studentRepository
+          .createQueryBuilder('student')
+          .where('student.school_id IN (:...schoolIds)', {
+            schoolIds: [...new Set(lines.map((line) => line.schoolId))],
+          })
+          .andWhere('LOWER(student.parent_email) IN (:...emails)', { emails })
+          .getMany()
+      : [];
+    const studentByChild = new Map(
+      students.map((student) => [
+        `${student.schoolId}:${student.parentEmail!.toLowerCase()}:${student.firstName.toLowerCase()}`,
+        student,
+      ]),
+    );
+    const studentIdOf = (enrollment: EnrollmentEntity): string | null => {
+      const email = emailOf(enrollment);
+      const firstName = enrollment.lead?.childName?.trim().split(/\s+/)[0];
+      if (!email || !firstName) {
+        return null;
+      }
+      return (
+        studentByChild.get(
+          `${enrollment.schoolId}:${email}:${firstName.toLowerCase()}`,
+        )?.id ?? null
+      );
+    };
+
+    const links = students.length
+      ? await this.parentStudentRepository.find({
+          where: { studentId: In(students.map((student) => student.id)) },
+        })
+      : [];
+    const parentIdsByStudent = new Map<string, string[]>();
+    links.forEach((link) =>
+      parentIdsByStudent.set(link.studentId, [
+        ...(parentIdsByStudent.get(link.studentId) ?? []),
+        link.parentId,
+      ]),
+    );
+
+    // Children are keyed by student when matched, otherwise by lead; a
+    // family is every child reachable through a shared parent
+    const families = new FamilyGroups();
+    const childKeyOf = new Map<string, string>();
+    for (const line of lines) {
+      const enrollment = enrollmentById.get(line.enrollmentId)!;
+      const studentId = studentIdOf(enrollment);
+      const childKey = `${line.schoolId}:${studentId ? `student:${studentId}` : `lead:${line.leadId}`}`;
+      childKeyOf.set(line.enrollmentId, childKey);
+
+      const email = emailOf(enrollment);
+      families.find(childKey);
+      if (email) {
+        families.join(childKey, `${line.schoolId}:email:${email}`);
+      }
+      (studentId ? (parentIdsByStudent.get(studentId) ?? []) : []).forEach(
+        (parentId) =>
+          families.join(childKey, `${line.schoolId}:parent:${parentId}`),
+      );
+    }
+
+    const staffChildren = await this.findStaffChildren(
+      lines,
+      enrollmentById,
+      childKeyOf,
+      parentIdsByStudent,
+      studentIdOf,
+      rules,
+    );
+    const redemptions = await this.redemptionRepository.find({
+      where: { enrollmentId: In(lines.map((line) => line.enrollmentId)) },
+    });
+
+    // Sibling order: highest full tuition first, then the earliest enrolled
+    const children = new Map<
+      string,
+      { familyKey: string; tuition: number; enrolledAt: number }
+    >();
+    const programsByChild = new Map<string, Set<string>>();
+    for (const line of lines) {
+      const enrollment = enrollmentById.get(line.enrollmentId)!;
+      const childKey = childKeyOf.get(line.enrollmentId)!;
+      const child = children.get(childKey) ?? {
+        familyKey: families.find(childKey),
+        tuition: 0,
+        enrolledAt: Number.MAX_SAFE_INTEGER,
+      };
+      child.tuition = Math.max(child.tuition, Number(enrollment.tuitionAmount));
+      child.enrolledAt = Math.min(
+        child.enrolledAt,
+        new Date(enrollment.createdAt).getTime(),
+      );
+      children.set(childKey, child);
+      programsByChild.set(
+        childKey,
+        (programsByChild.get(childKey) ?? new Set()).add(line.program),
+      );
+    }
+
+    const positions = new Map<string, number>();
+    const byFamily = new Map<string, string[]>();
+    children.forEach((child, childKey) =>
+      byFamily.set(child.familyKey, [
+        ...(byFamily.get(child.familyKey) ?? []),
+        childKey,
+      ]),
+    );
+    byFamily.forEach((childKeys) =>
+      childKeys
+        .sort((a, b) => {
+          const childA = children.get(a)!;
+          const childB = children.get(b)!;
+          return (
+            childB.tuition - childA.tuition ||
+            childA.enrolledAt - childB.enrolledAt ||
+            a.localeCompare(b)
+          );
+        })
+        .forEach((childKey, index) => positions.set(childKey, index + 1)),
+    );
+
+    return lines.map((line) => {
+      const enrollment = enrollmentById.get(line.enrollmentId)!;
+      const childKey = childKeyOf.get(line.enrollmentId)!;
+      return {
+        line,
+        enrollment,
+        childKey,
+        familyKey: families.find(childKey),
+        parentEmail: emailOf(enrollment),
+        siblingPosition: positions.get(childKey) ?? 1,
+        childPrograms: [...(programsByChild.get(childKey) ?? [])],
+        isStaffChild: staffChildren.has(childKey),
+        redeemedRuleIds: new Set(
+          redemptions
+            .filter((redemption) => redemption.enrollmentId === enrollment.id)
+            .map((redemption) => redemption.discountRuleId),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Children whose parent email or linked parent user has a staff role at
+   * the school
+   */
+  private async findStaffChildren(
+    lines: TuitionInvoiceLineDto[],
+    enrollmentById: Map<string, EnrollmentEntity>,
+    childKeyOf: Map<string, string>,
+    parentIdsByStudent: Map<string, string[]>,
+    studentIdOf: (enrollment: EnrollmentEntity) => string | null,
+    rules: DiscountRule[],
+  ): Promise<Set<string>> {
+    const staffChildren = new Set<string>();
+    const staffSchools = new Set(
+      rules
+        .filter((rule) => rule.ruleType === DiscountRuleType.STAFF_CHILD)
+        .map((rule) => rule.schoolId),
+    );
+    if (staffSchools.size === 0) {
+      return staffChildren;
+    }
+
+    const staffRoles = await this.userRoleRepository
+      .createQueryBuilder('role')
+      .innerJoinAndSelect('role.profile', 'profile')
+      .where('role.school_id IN (:...schoolIds)', {
+        schoolIds: [...staffSchools],
+      })
+      .andWhere('role.role IN (:...roles)', { roles: STAFF_ROLES })
+      .getMany();
+    const staff = new Set(
+      staffRoles.flatMap((role) => [
+        `${role.schoolId}:${role.userId}`,
+        `${role.schoolId}:${role.profile.email.toLowerCase()}`,
+      ]),
+    );
+
+    for (const line of lines) {
+      const enrollment = enrollmentById.get(line.enrollmentId)!;
+      const studentId = studentIdOf(enrollment);
+      const parents = [
+        enrollment.lead?.parentEmail?.trim().toLowerCase(),
+        ...(studentId ? (parentIdsByStudent.get(studentId) ?? []) : []),
+      ];
+      if (
+        parents.some(
+          (parent) => parent && staff.has(`${line.schoolId}:${parent}`),
+        )
+      ) {
+        staffChildren.add(childKeyOf.get(line.enrollmentId)!);
+      }
+    }
+    return staffChildren;
+  }
+
+  /** Program and date conditions every rule type shares */
+  private coversLine(rule: DiscountRule, line: TuitionInvoiceLineDto): boolean {
+    const periodStart = toUtcDay(line.periodStart);
+    if (rule.validFrom && periodStart < toUtcDay(rule.validFrom)) {
+      return false;
+    }
+    if (rule.validUntil && periodStart > toUtcDay(rule.validUntil)) {
+      return false;
+    }
+    return !rule.programs?.length || rule.programs.includes(line.program);
+  }
+
+  private ruleMatches(
+    rule: DiscountRule,
+    context: LineContext,
+    schoolRules: DiscountRule[],
+  ): boolean {
+    switch (rule.ruleType) {
+      case DiscountRuleType.SIBLING: {
+        // Of the sibling rules the child has reached, the one for the
+        // latest position applies
+        const reached = schoolRules.filter(
+          (candidate) =>
+            candidate.ruleType === DiscountRuleType.SIBLING &&
+            this.siblingPositionOf(candidate) <= context.siblingPosition,
+        );
+        const latest = Math.max(
+          ...reached.map((candidate) => this.siblingPositionOf(candidate)),
+        );
+        return (
+          reached.includes(rule) && this.siblingPositionOf(rule) === latest
+        );
+      }
+      case DiscountRuleType.STAFF_CHILD:
+        return context.isStaffChild;
+      case DiscountRuleType.MULTI_PROGRAM: {
+        const bundled = context.childPrograms.filter(
+          (program) =>
+            !rule.programs?.length || rule.programs.includes(program),
+        );
+        return bundled.length >= (rule.minPrograms ?? DEFAULT_MIN_PROGRAMS);
+      }
+      case DiscountRuleType.PROMO_CODE:
+        return context.redeemedRuleIds.has(rule.id);
+      default:
+        return false;
+    }
+  }
+
+  private siblingPositionOf(rule: DiscountRule): number {
+    return rule.siblingPosition ?? DEFAULT_SIBLING_POSITION;
+  }
+
+  /**
+   * Stacking rules add up; the best rule that does not stack replaces them
+   * when it is worth more. The total is capped at the tuition.
+   */
+  private combine(
+    subtotal: number,
+    rules: DiscountRule[],
+  ): TuitionDiscountDto[] {
+    const candidates = rules
+      .map((rule) => ({ rule, amount: this.amountFor(rule, subtotal) }))
+      .filter((candidate) => candidate.amount > 0);
+
+    const stacking = candidates.filter((candidate) => candidate.rule.stackable);
+    const stackingTotal = stacking.reduce(
+      (sum, candidate) => sum + candidate.amount,
+      0,
+    );
+    const best = candidates
+      .filter((candidate) => !candidate.rule.stackable)
+      .sort((a, b) => b.amount - a.amount)[0];
+    const chosen = best && best.amount > stackingTotal ? [best] : stacking;
+
+    let remaining = subtotal;
+    return chosen
+      .map(({ rule, amount }) => {
+        const capped = Math.min(amount, remaining);
+        remaining -= capped;
+        return {
+          ruleId: rule.id,
+          name: rule.name,
+          ruleType: rule.ruleType,
+          category: `${rule.ruleType}_discount`,
+          amount: capped,
+        };
+      })
+      .filter((discount) => discount.amount > 0);
+  }
+
+  private amountFor(rule: DiscountRule, subtotal: number): number {
+    const amount =
+      rule.valueType === DiscountValueType.PERCENTAGE
+        ? Math.round((subtotal * Number(rule.percentage)) / 100)
+        : rule.flatAmount;
+    return Math.min(amount, subtotal);
+  }
+
+  /**
+   * Account credit the family has left after what it owes, less what
+   * earlier lines of this run already count on
+   */
+  private async getPrepaidFunds(
+    context: LineContext,
+    prepayFunds: Map<string, number>,
+  ): Promise<number> {
+    if (!prepayFunds.has(context.familyKey)) {
+      // Read only, so previews do not open accounts; a family without an
+      // account has nothing prepaid
+      const account = await this.ledgerService.findAccountByEmail(
+        context.line.schoolId,
+        context.parentEmail!,
+      );
+      if (!account) {
+        prepayFunds.set(context.familyKey, 0);
+      } else {
+        const { balance, availableCredit } =
+          await this.ledgerService.getBalance(account.id);
+        prepayFunds.set(
+          context.familyKey,
+          availableCredit - Math.max(balance, 0),
+        );
+      }
+    }
+    return prepayFunds.get(context.familyKey)!;
+  }
+
+  private assignRule(
+    rule: DiscountRule,
+    dto: CreateDiscountRuleDto | UpdateDiscountRuleDto,
+  ): void {
+    const dates: Partial<DiscountRule> = {};
+    if (dto.validFrom !== undefined) {
+      dates.validFrom = dto.validFrom ? toColumnDate(dto.validFrom) : null;
+    }
+    if (dto.validUntil !== undefined) {
+      dates.validUntil = dto.validUntil ? toColumnDate(dto.validUntil) : null;
+    }
+
+    Object.assign(rule, {
+      name: dto.name ?? rule.name,
+      valueType:
+        dto.valueType ?? rule.valueType ?? DiscountValueType.PERCENTAGE,
+      percentage: dto.percentage ?? rule.percentage ?? 0,
+      flatAmount: dto.flatAmount ?? rule.flatAmount ?? 0,
+      active: dto.active ?? rule.active ?? true,
+      stackable: dto.stackable ?? rule.stackable ?? true,
+      programs:
+        dto.programs !== undefined
+          ? dto.programs?.length
+            ? dto.programs
+            : null
+          : (rule.programs ?? null),
+      siblingPosition:
+        dto.siblingPosition !== undefined
+          ? dto.siblingPosition
+          : (rule.siblingPosition ?? null),
+      minPrograms:
+        dto.minPrograms !== undefined
+          ? dto.minPrograms
+          : (rule.minPrograms ?? null),
+      promoCode:
+        dto.promoCode !== undefined
+          ? (dto.promoCode?.trim().toUpperCase() ?? null)
+          : (rule.promoCode ?? null),
+      maxRedemptions:
+        dto.maxRedemptions !== undefined
+          ? dto.maxRedemptions
+          : (rule.maxRedemptions ?? null),
+      ...dates,
+    });
+  }
+
+  private async validateRule(rule: DiscountRule): Promise<void> {
+    if (
+      rule.valueType === DiscountValueType.PERCENTAGE &&
+      Number(rule.percentage) <= 0
+    ) {
+      throw new BadRequestException(
+        'percentage must be greater than 0 for percentage discounts',
+      );
+    }
+    if (rule.valueType === DiscountValueType.FLAT && rule.flatAmount <= 0) {
+      throw new BadRequestException(
+        'flatAmount must be greater than 0 for flat discounts',
+      );
+    }
+    if (
+      rule.validFrom &&
+      rule.validUntil &&
+      toUtcDay(rule.validUntil) < toUtcDay(rule.validFrom)
+    ) {
+      throw new BadRequestException('validUntil must not be before validFrom');
+    }
+
+    if (rule.ruleType !== DiscountRuleType.PROMO_CODE) {
+      rule.promoCode = null;
+      rule.maxRedemptions = null;
+      return;
+    }
+    if (!rule.promoCode) {
+      throw new BadRequestException('promoCode is required for promo codes');
+    }
+    const query = this.ruleRepository
+      .createQueryBuilder('rule')
+      .where('rule.school_id = :schoolId', { schoolId: rule.schoolId })
+      .andWhere('rule.promo_code = :promoCode', { promoCode: rule.promoCode });
+    if (rule.id) {
+      query.andWhere('rule.id != :id', { id: rule.id });
+    }
+    const duplicate = await query.getCount();
+    if (duplicate > 0) {
+      throw new ConflictException(
+        `Promo code ${rule.promoCode} is already used by another rule`,
+      );
+    }
+  }
+
+  private async countRedemptions(
+    ruleIds: string[],
+  ): Promise<Map<string, number>> {
+    if (ruleIds.length === 0) {
+      return new Map();
+    }
+    const rows = await this.redemptionRepository
+      .createQueryBuilder('redemption')
+      .select('redemption.discount_rule_id', 'ruleId')
+      .addSelect('COUNT(*)', 'count')
+      .where('redemption.discount_rule_id IN (:...ruleIds)', { ruleIds })
+      .groupBy('redemption.discount_rule_id')
+      .getRawMany<{ ruleId: string; count: string }>();
+    return new Map(rows.map((row) => [row.ruleId, Number(row.count)]));
+  }
+
+  private mapToResponseDto(
+    rule: DiscountRule,
+    redemptions: number,
+  ): DiscountRuleResponseDto {
+    return {
+      id: rule.id,
+      schoolId: rule.schoolId,
+      name: rule.name,
+      ruleType: rule.ruleType,
+      valueType: rule.valueType,
+      percentage: Number(rule.percentage),
+      flatAmount: rule.flatAmount,
+      active: rule.active,
+      stackable: rule.stackable,
+      programs: rule.programs,
+      siblingPosition: rule.siblingPosition,
+      minPrograms: rule.minPrograms,
+      promoCode: rule.promoCode,
+      maxRedemptions: rule.maxRedemptions,
+      redemptions,
+      validFrom: rule.validFrom ? toDateKey(rule.validFrom) : null,
+      validUntil: rule.validUntil ? toDateKey(rule.validUntil) : null,
+      createdAt: rule.createdAt,
+    };
+  }
+}
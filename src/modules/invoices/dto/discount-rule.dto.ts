@@ -0,0 +1,282 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  DiscountRuleType,
+  DiscountValueType,
+} from '../entities/discount-rule.entity';
+
+export class CreateDiscountRuleDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({
+    description: 'Name shown on the invoice line',
+    example: 'Sibling discount',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'When the rule applies', enum: DiscountRuleType })
+  @IsEnum(DiscountRuleType)
+  ruleType: DiscountRuleType;
+
+  @ApiProperty({ description: 'Discount type', enum: DiscountValueType })
+  @IsEnum(DiscountValueType)
+  valueType: DiscountValueType;
+
+  @ApiPropertyOptional({
+    description: 'Percent of the tuition',
+    example: 10,
+    default: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Amount off per billing period, in cents',
+    example: 5000,
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  flatAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the rule is used',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Combine with other discounts. A rule that does not stack is only used when it is worth more than the stacking rules together.',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  stackable?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Only discount tuition of these programs. For multi-program rules, the programs that make up the bundle.',
+    example: ['Full Day', 'After School'],
+    nullable: true,
+  })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @IsOptional()
+  programs?: string[] | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Sibling rules: the child, ordered by tuition from highest, the discount starts at. 2 discounts every child after the first.',
+    example: 2,
+    default: 2,
+  })
+  @IsInt()
+  @Min(2)
+  @Max(10)
+  @IsOptional()
+  siblingPosition?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Multi-program rules: programs a child must be enrolled in at once',
+    example: 2,
+    default: 2,
+  })
+  @IsInt()
+  @Min(2)
+  @Max(10)
+  @IsOptional()
+  minPrograms?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Promo code rules: the code families redeem',
+    example: 'SPRING26',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,50}$/, {
+    message: 'promoCode must be 3-50 letters, digits, dashes or underscores',
+  })
+  @IsOptional()
+  promoCode?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Promo code rules: enrollments the code can be redeemed for',
+    example: 25,
+    nullable: true,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRedemptions?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Billing periods starting before this date are not discounted',
+    example: '2026-03-01',
+    nullable: true,
+  })
+  @IsDateString()
+  @IsOptional()
+  validFrom?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Billing periods starting after this date are not discounted',
+    example: '2026-06-30',
+    nullable: true,
+  })
+  @IsDateString()
+  @IsOptional()
+  validUntil?: string | null;
+}
+
+export class UpdateDiscountRuleDto extends PartialType(
+  OmitType(CreateDiscountRuleDto, ['schoolId', 'ruleType'] as const),
+) {}
+
+export class DiscountRuleQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only rules of this type',
+    enum: DiscountRuleType,
+  })
+  @IsEnum(DiscountRuleType)
+  @IsOptional()
+  ruleType?: DiscountRuleType;
+
+  @ApiPropertyOptional({ description: 'Only active or inactive rules' })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value === 'true' || value === '1' : value,
+  )
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+export class RedeemPromoCodeDto {
+  @ApiProperty({ description: 'Enrollment the code is redeemed for' })
+  @IsUUID()
+  enrollmentId: string;
+
+  @ApiProperty({ description: 'Promo code', example: 'SPRING26' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code: string;
+}
+
+export class DiscountRuleResponseDto {
+  @ApiProperty({ description: 'Rule ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Name', example: 'Sibling discount' })
+  name: string;
+
+  @ApiProperty({ description: 'When the rule applies', enum: DiscountRuleType })
+  ruleType: DiscountRuleType;
+
+  @ApiProperty({ description: 'Discount type', enum: DiscountValueType })
+  valueType: DiscountValueType;
+
+  @ApiProperty({ description: 'Percent of the tuition', example: 10 })
+  percentage: number;
+
+  @ApiProperty({ description: 'Amount off in cents', example: 0 })
+  flatAmount: number;
+
+  @ApiProperty({ description: 'Whether the rule is used' })
+  active: boolean;
+
+  @ApiProperty({ description: 'Whether the rule combines with others' })
+  stackable: boolean;
+
+  @ApiPropertyOptional({ type: [String], nullable: true })
+  programs: string[] | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  siblingPosition: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  minPrograms: number | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  promoCode: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  maxRedemptions: number | null;
+
+  @ApiProperty({ description: 'Times the promo code was redeemed' })
+  redemptions: number;
+
+  @ApiPropertyOptional({ nullable: true, example: '2026-03-01' })
+  validFrom: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: '2026-06-30' })
+  validUntil: string | null;
+
+  @ApiProperty({ description: 'Created at' })
+  createdAt: Date;
+}
+
+export class DiscountRedemptionResponseDto {
+  @ApiProperty({ description: 'Redemption ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Discount rule ID' })
+  discountRuleId: string;
+
+  @ApiProperty({ description: 'Enrollment ID' })
+  enrollmentId: string;
+
+  @ApiProperty({ description: 'Rule name', example: 'Spring promotion' })
+  name: string;
+
+  @ApiProperty({ description: 'Redeemed at' })
+  createdAt: Date;
+}
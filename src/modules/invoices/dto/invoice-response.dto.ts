@@ -46,6 +46,15 @@ export class InvoiceResponseDto {
   @ApiPropertyOptional({ description: 'Lead ID' })
   leadId?: string;
 
+  @ApiPropertyOptional({ description: 'Enrollment billed by this tuition invoice' })
+  enrollmentId?: string;
+
+  @ApiPropertyOptional({ description: 'First day of the billed tuition period' })
+  billingPeriodStart?: Date;
+
+  @ApiPropertyOptional({ description: 'Last day of the billed tuition period' })
+  billingPeriodEnd?: Date;
+
   @ApiProperty({ description: 'Total amount in cents' })
   amount: number;
 
@@ -73,8 +82,8 @@ export class InvoiceResponseDto {
   @ApiPropertyOptional({ description: 'Transaction ID' })
   transactionId?: string;
 
-  @ApiProperty({ description: 'Created by user ID' })
-  createdBy: string;
+  @ApiPropertyOptional({ description: 'Created by user ID, empty for scheduled billing runs' })
+  createdBy?: string;
 
   @ApiPropertyOptional({ description: 'Notes' })
   notes?: string;
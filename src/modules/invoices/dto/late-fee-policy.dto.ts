@@ -0,0 +1,258 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { DunningLevel, LateFeeType } from '../entities/late-fee-policy.entity';
+
+export class DunningStepDto {
+  @ApiProperty({
+    description: 'Days past the due date the reminder is sent',
+    example: 7,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  daysOverdue: number;
+
+  @ApiProperty({ description: 'Reminder wording', enum: DunningLevel })
+  @IsEnum(DunningLevel)
+  level: DunningLevel;
+
+  @ApiPropertyOptional({
+    description: 'Flag the family account for follow-up at this step',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  flagAccount?: boolean;
+}
+
+export class UpsertLateFeePolicyDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({ description: 'Charge late fees on overdue invoices' })
+  @IsBoolean()
+  lateFeesEnabled: boolean;
+
+  @ApiProperty({ description: 'Fee type', enum: LateFeeType })
+  @IsEnum(LateFeeType)
+  feeType: LateFeeType;
+
+  @ApiPropertyOptional({
+    description: 'Flat fee in cents',
+    example: 2500,
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  flatAmount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Percent of the amount due',
+    example: 5,
+    default: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Days after the due date before the fee is charged',
+    example: 5,
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  graceDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Largest fee charged on one invoice, in cents',
+    example: 5000,
+    nullable: true,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxFeeAmount?: number | null;
+
+  @ApiProperty({ description: 'Send dunning reminders for overdue invoices' })
+  @IsBoolean()
+  dunningEnabled: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Reminders sent as an invoice ages. Each step is sent once per invoice.',
+    type: [DunningStepDto],
+    example: [
+      { daysOverdue: 1, level: DunningLevel.REMINDER },
+      { daysOverdue: 7, level: DunningLevel.WARNING },
+      { daysOverdue: 21, level: DunningLevel.FINAL, flagAccount: true },
+    ],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => DunningStepDto)
+  @IsOptional()
+  dunningSchedule?: DunningStepDto[];
+}
+
+export class LateFeePolicyResponseDto {
+  @ApiPropertyOptional({
+    description: 'Policy ID, null while the school uses the defaults',
+    nullable: true,
+  })
+  id: string | null;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Charge late fees on overdue invoices' })
+  lateFeesEnabled: boolean;
+
+  @ApiProperty({ description: 'Fee type', enum: LateFeeType })
+  feeType: LateFeeType;
+
+  @ApiProperty({ description: 'Flat fee in cents', example: 2500 })
+  flatAmount: number;
+
+  @ApiProperty({ description: 'Percent of the amount due', example: 5 })
+  percentage: number;
+
+  @ApiProperty({
+    description: 'Days after the due date before the fee is charged',
+    example: 5,
+  })
+  graceDays: number;
+
+  @ApiPropertyOptional({
+    description: 'Largest fee charged on one invoice, in cents',
+    nullable: true,
+  })
+  maxFeeAmount: number | null;
+
+  @ApiProperty({ description: 'Send dunning reminders for overdue invoices' })
+  dunningEnabled: boolean;
+
+  @ApiProperty({ type: [DunningStepDto] })
+  dunningSchedule: DunningStepDto[];
+
+  @ApiPropertyOptional({ description: 'Updated at', nullable: true })
+  updatedAt: Date | null;
+}
+
+export class OverdueInvoicesRunDto {
+  @ApiPropertyOptional({
+    description: "School to process (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
+
+export class OverdueInvoicesRunResponseDto {
+  @ApiProperty({ description: 'Invoices a late fee was added to' })
+  lateFeesApplied: number;
+
+  @ApiProperty({ description: 'Late fees added, in cents', example: 7500 })
+  lateFeeTotal: number;
+
+  @ApiProperty({ description: 'Dunning reminders sent' })
+  remindersSent: number;
+
+  @ApiProperty({ description: 'Family accounts flagged for follow-up' })
+  accountsFlagged: number;
+}
+
+export class DunningNoticeQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({ description: 'Only notices for this invoice' })
+  @IsUUID()
+  @IsOptional()
+  invoiceId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class DunningNoticeResponseDto {
+  @ApiProperty({ description: 'Notice ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Invoice ID' })
+  invoiceId: string;
+
+  @ApiPropertyOptional({ description: 'Invoice number' })
+  invoiceNumber?: string;
+
+  @ApiPropertyOptional({ description: 'Family account ID', nullable: true })
+  familyAccountId: string | null;
+
+  @ApiProperty({ description: 'Reminder wording', enum: DunningLevel })
+  level: DunningLevel;
+
+  @ApiProperty({ description: 'Schedule step, in days overdue', example: 7 })
+  daysOverdue: number;
+
+  @ApiPropertyOptional({ description: 'Recipient email', nullable: true })
+  recipientEmail: string | null;
+
+  @ApiProperty({ description: 'Amount due when sent, in cents' })
+  amountDue: number;
+
+  @ApiProperty({ description: 'Whether the email was sent' })
+  delivered: boolean;
+
+  @ApiProperty({
+    description:
+      'Whether the step was given up on because the invoice has no parent email',
+  })
+  skipped: boolean;
+
+  @ApiProperty({ description: 'Whether this step flagged the family account' })
+  accountFlagged: boolean;
+
+  @ApiProperty({ description: 'Sent at' })
+  createdAt: Date;
+}
@@ -0,0 +1,318 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaymentStatus } from '../../../common/enums/payment-status.enum';
+
+export class GeneratePayerInvoicesDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({ description: 'Year of the billing period', example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({
+    description: 'Month of the billing period (1-12)',
+    example: 3,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month: number;
+
+  @ApiPropertyOptional({ description: 'Only invoice this payer' })
+  @IsUUID()
+  @IsOptional()
+  payerAccountId?: string;
+}
+
+export class GeneratePayerInvoicesResultDto {
+  @ApiProperty({
+    description: 'First day of the billing period',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Last day of the billing period',
+    example: '2026-03-31',
+  })
+  periodEnd: string;
+
+  @ApiProperty({ description: 'Payer invoices created' })
+  invoicesCreated: number;
+
+  @ApiProperty({
+    description: 'Payer invoices of the period that had charges added',
+  })
+  invoicesUpdated: number;
+
+  @ApiProperty({ description: 'Charges billed to payers' })
+  chargesBilled: number;
+
+  @ApiProperty({ description: 'Amount billed in cents', example: 390000 })
+  totalAmount: number;
+}
+
+export class PayerInvoiceQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({ description: 'Only invoices of this payer' })
+  @IsUUID()
+  @IsOptional()
+  payerAccountId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only invoices with this status',
+    enum: PaymentStatus,
+  })
+  @IsEnum(PaymentStatus)
+  @IsOptional()
+  status?: PaymentStatus;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class RecordPayerPaymentDto {
+  @ApiProperty({ description: 'Amount received in cents', example: 390000 })
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Date received (defaults to now)',
+    example: '2026-04-15',
+  })
+  @IsDateString()
+  @IsOptional()
+  paymentDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Check number, remittance or EFT reference',
+    example: 'EFT 20260415-0032',
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  reference?: string;
+}
+
+export class PayerChargeResponseDto {
+  @ApiProperty({ description: 'Charge ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Enrollment ID' })
+  enrollmentId: string;
+
+  @ApiProperty({
+    description: "The family's tuition invoice the share was taken off",
+  })
+  invoiceId: string;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiProperty({ description: 'Program', example: 'Full Day' })
+  program: string;
+
+  @ApiProperty({
+    description: 'First day of the tuition period',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Last day of the tuition period',
+    example: '2026-03-31',
+  })
+  periodEnd: string;
+
+  @ApiProperty({ description: 'Amount in cents', example: 97500 })
+  amount: number;
+}
+
+export class PayerInvoiceResponseDto {
+  @ApiProperty({ description: 'Payer invoice ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'Invoice number',
+    example: 'AGY-202603-1A2B3C4D',
+  })
+  invoiceNumber: string;
+
+  @ApiProperty({ description: 'Payer account ID' })
+  payerAccountId: string;
+
+  @ApiPropertyOptional({ description: 'Payer name', nullable: true })
+  payerName: string | null;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'First day of the billing period',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Last day of the billing period',
+    example: '2026-03-31',
+  })
+  periodEnd: string;
+
+  @ApiProperty({ description: 'Amount billed in cents', example: 390000 })
+  amount: number;
+
+  @ApiProperty({ description: 'Amount received in cents', example: 0 })
+  paidAmount: number;
+
+  @ApiProperty({ description: 'Status', enum: PaymentStatus })
+  status: PaymentStatus;
+
+  @ApiProperty({ description: 'Due date', example: '2026-04-30' })
+  dueDate: string;
+
+  @ApiPropertyOptional({
+    description: 'Last payment received at',
+    nullable: true,
+  })
+  paymentDate: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  paymentReference: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  notes: string | null;
+
+  @ApiPropertyOptional({ type: [PayerChargeResponseDto] })
+  charges?: PayerChargeResponseDto[];
+
+  @ApiProperty({ description: 'Created at' })
+  createdAt: Date;
+}
+
+export class ClaimReportChildDto {
+  @ApiProperty({ description: 'Enrollment ID' })
+  enrollmentId: string;
+
+  @ApiPropertyOptional({
+    description: 'Student the attendance was read from; null when none matched',
+    nullable: true,
+  })
+  studentId: string | null;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiProperty({ description: 'Program', example: 'Full Day' })
+  program: string;
+
+  @ApiPropertyOptional({
+    description: "The payer's authorization or case number",
+    nullable: true,
+  })
+  authorizationNumber: string | null;
+
+  @ApiProperty({
+    description: 'Tuition periods claimed',
+    example: ['2026-03-01 to 2026-03-31'],
+  })
+  servicePeriods: string[];
+
+  @ApiProperty({ description: 'Amount claimed in cents', example: 97500 })
+  amount: number;
+
+  @ApiProperty({ description: 'Days marked present or late', example: 20 })
+  daysAttended: number;
+
+  @ApiProperty({ description: 'Days marked absent', example: 1 })
+  daysAbsent: number;
+
+  @ApiProperty({ description: 'Days marked excused', example: 1 })
+  daysExcused: number;
+
+  @ApiProperty({
+    description: 'Dates the child attended',
+    example: ['2026-03-02', '2026-03-03'],
+  })
+  attendedDates: string[];
+}
+
+export class ClaimReportResponseDto {
+  @ApiProperty({ description: 'Payer invoice ID' })
+  payerInvoiceId: string;
+
+  @ApiProperty({
+    description: 'Invoice number',
+    example: 'AGY-202603-1A2B3C4D',
+  })
+  invoiceNumber: string;
+
+  @ApiProperty({ description: 'Payer name' })
+  payerName: string;
+
+  @ApiPropertyOptional({
+    description: "The school's provider number",
+    nullable: true,
+  })
+  providerNumber: string | null;
+
+  @ApiProperty({ description: 'School name' })
+  schoolName: string;
+
+  @ApiProperty({
+    description: 'First day of the billing period',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Last day of the billing period',
+    example: '2026-03-31',
+  })
+  periodEnd: string;
+
+  @ApiProperty({ description: 'Amount claimed in cents', example: 390000 })
+  totalAmount: number;
+
+  @ApiProperty({ type: [ClaimReportChildDto] })
+  children: ClaimReportChildDto[];
+}
@@ -0,0 +1,299 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PayerType } from '../entities/payer-account.entity';
+import { PayerSplitType } from '../entities/enrollment-payer.entity';
+
+export class CreatePayerAccountDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({
+    description: 'Payer name',
+    example: 'County Childcare Assistance Program',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'Kind of payer', enum: PayerType })
+  @IsEnum(PayerType)
+  payerType: PayerType;
+
+  @ApiPropertyOptional({ description: 'Contact person', nullable: true })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  contactName?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Billing email',
+    example: 'claims@county.gov',
+    nullable: true,
+  })
+  @IsEmail()
+  @MaxLength(255)
+  @IsOptional()
+  email?: string | null;
+
+  @ApiPropertyOptional({ description: 'Phone', nullable: true })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  phone?: string | null;
+
+  @ApiPropertyOptional({ description: 'Mailing address', nullable: true })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  address?: string | null;
+
+  @ApiPropertyOptional({
+    description: "The school's provider or vendor number with the payer",
+    example: 'PRV-004512',
+    nullable: true,
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  providerNumber?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Days the payer has to pay its invoices',
+    example: 30,
+    default: 30,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  paymentTermsDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether tuition is split with the payer',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+export class UpdatePayerAccountDto extends PartialType(
+  OmitType(CreatePayerAccountDto, ['schoolId'] as const),
+) {}
+
+export class PayerAccountQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only payers of this kind',
+    enum: PayerType,
+  })
+  @IsEnum(PayerType)
+  @IsOptional()
+  payerType?: PayerType;
+
+  @ApiPropertyOptional({ description: 'Only active or inactive payers' })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value === 'true' || value === '1' : value,
+  )
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+export class PayerAccountResponseDto {
+  @ApiProperty({ description: 'Payer account ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Payer name',
+    example: 'County Childcare Assistance Program',
+  })
+  name: string;
+
+  @ApiProperty({ description: 'Kind of payer', enum: PayerType })
+  payerType: PayerType;
+
+  @ApiPropertyOptional({ nullable: true })
+  contactName: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  email: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  phone: string | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  address: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: 'PRV-004512' })
+  providerNumber: string | null;
+
+  @ApiProperty({ description: 'Days the payer has to pay', example: 30 })
+  paymentTermsDays: number;
+
+  @ApiProperty({ description: 'Whether tuition is split with the payer' })
+  active: boolean;
+
+  @ApiProperty({ description: 'Enrollments the payer covers part of' })
+  enrollments: number;
+
+  @ApiProperty({ description: 'Created at' })
+  createdAt: Date;
+}
+
+export class CreateEnrollmentPayerDto {
+  @ApiProperty({ description: 'Enrollment the payer covers part of' })
+  @IsUUID()
+  enrollmentId: string;
+
+  @ApiProperty({
+    description: 'How the share is worked out',
+    enum: PayerSplitType,
+  })
+  @IsEnum(PayerSplitType)
+  splitType: PayerSplitType;
+
+  @ApiPropertyOptional({
+    description: 'Percent of the tuition after discounts',
+    example: 75,
+    default: 0,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  percentage?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Amount per billing period, in cents. Prorated with the tuition for partial periods.',
+    example: 65000,
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  fixedAmount?: number;
+
+  @ApiPropertyOptional({
+    description: "The payer's authorization or case number for the child",
+    example: 'AUTH-2026-11873',
+    nullable: true,
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  authorizationNumber?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether tuition is split',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Billing periods starting before this date are not split',
+    example: '2026-01-01',
+    nullable: true,
+  })
+  @IsDateString()
+  @IsOptional()
+  validFrom?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Billing periods starting after this date are not split',
+    example: '2026-12-31',
+    nullable: true,
+  })
+  @IsDateString()
+  @IsOptional()
+  validUntil?: string | null;
+}
+
+export class UpdateEnrollmentPayerDto extends PartialType(
+  OmitType(CreateEnrollmentPayerDto, ['enrollmentId'] as const),
+) {}
+
+export class EnrollmentPayerResponseDto {
+  @ApiProperty({ description: 'Enrollment payer ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Payer account ID' })
+  payerAccountId: string;
+
+  @ApiProperty({ description: 'Enrollment ID' })
+  enrollmentId: string;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiPropertyOptional({ description: 'Program', nullable: true })
+  program: string | null;
+
+  @ApiProperty({
+    description: 'How the share is worked out',
+    enum: PayerSplitType,
+  })
+  splitType: PayerSplitType;
+
+  @ApiProperty({ description: 'Percent of the tuition', example: 75 })
+  percentage: number;
+
+  @ApiProperty({
+    description: 'Amount per billing period in cents',
+    example: 0,
+  })
+  fixedAmount: number;
+
+  @ApiPropertyOptional({ nullable: true, example: 'AUTH-2026-11873' })
+  authorizationNumber: string | null;
+
+  @ApiProperty({ description: 'Whether tuition is split' })
+  active: boolean;
+
+  @ApiPropertyOptional({ nullable: true, example: '2026-01-01' })
+  validFrom: string | null;
+
+  @ApiPropertyOptional({ nullable: true, example: '2026-12-31' })
+  validUntil: string | null;
+
+  @ApiProperty({ description: 'Created at' })
+  createdAt: Date;
+}
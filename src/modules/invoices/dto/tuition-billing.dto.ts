@@ -0,0 +1,201 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+import { BillingCycle } from '../../enrollment/entities/enrollment.entity';
+import { DiscountRuleType } from '../entities/discount-rule.entity';
+
+export enum TuitionInvoiceLineStatus {
+  /** Preview only: the run would create this invoice */
+  PENDING = 'pending',
+  CREATED = 'created',
+  ALREADY_BILLED = 'already_billed',
+  /** The invoice could not be saved; the next run tries again */
+  FAILED = 'failed',
+}
+
+export class TuitionBillingRunDto {
+  @ApiPropertyOptional({
+    description: "School to bill (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Bill the periods containing this date instead of today. Lets admins bill a period ahead of time.',
+    example: '2026-03-01',
+    type: String,
+    format: 'date',
+  })
+  @IsDateString()
+  @IsOptional()
+  billingDate?: string;
+}
+
+export class TuitionDiscountDto {
+  @ApiProperty({ description: 'Discount rule ID' })
+  ruleId: string;
+
+  @ApiProperty({ description: 'Rule name', example: 'Sibling discount' })
+  name: string;
+
+  @ApiProperty({ description: 'Rule type', enum: DiscountRuleType })
+  ruleType: DiscountRuleType;
+
+  @ApiProperty({
+    description: 'Category of the negative invoice item',
+    example: 'sibling_discount',
+  })
+  category: string;
+
+  @ApiProperty({ description: 'Amount off in cents', example: 12000 })
+  amount: number;
+}
+
+export class TuitionPayerShareDto {
+  @ApiProperty({ description: 'Enrollment payer ID' })
+  enrollmentPayerId: string;
+
+  @ApiProperty({ description: 'Payer account ID' })
+  payerAccountId: string;
+
+  @ApiProperty({
+    description: 'Payer name',
+    example: 'County Childcare Assistance Program',
+  })
+  payerName: string;
+
+  @ApiProperty({
+    description: 'Amount billed to the payer in cents',
+    example: 81000,
+  })
+  amount: number;
+}
+
+export class TuitionInvoiceLineDto {
+  @ApiProperty({ description: 'Enrollment ID' })
+  enrollmentId: string;
+
+  @ApiProperty({ description: 'Lead ID of the family' })
+  leadId: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiProperty({ description: 'Program', example: 'Full Day' })
+  program: string;
+
+  @ApiProperty({ description: 'Billing cycle', enum: BillingCycle })
+  billingCycle: BillingCycle;
+
+  @ApiProperty({
+    description: 'First day of the period',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({ description: 'Last day of the period', example: '2026-03-31' })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'Days of the period the child is enrolled',
+    example: 31,
+  })
+  billedDays: number;
+
+  @ApiProperty({ description: 'Days in the period', example: 31 })
+  periodDays: number;
+
+  @ApiProperty({
+    description:
+      'Whether the tuition was prorated for a mid-cycle start or end',
+  })
+  prorated: boolean;
+
+  @ApiProperty({
+    description: 'Tuition for the period before discounts, in cents',
+    example: 120000,
+  })
+  subtotal: number;
+
+  @ApiProperty({ type: [TuitionDiscountDto] })
+  discounts: TuitionDiscountDto[];
+
+  @ApiProperty({
+    description:
+      'Shares of the tuition billed to subsidy agencies or other payers',
+    type: [TuitionPayerShareDto],
+  })
+  payerShares: TuitionPayerShareDto[];
+
+  @ApiProperty({
+    description:
+      'Amount invoiced to the family for the period after discounts and payer shares, in cents',
+    example: 108000,
+  })
+  amount: number;
+
+  @ApiProperty({ description: 'Due date', example: '2026-03-08' })
+  dueDate: string;
+
+  @ApiProperty({
+    description: 'Invoice number',
+    example: 'TUI-20260301-123E4567-E89B-12D3-A456-426614174000',
+  })
+  invoiceNumber: string;
+
+  @ApiPropertyOptional({
+    description: 'Invoice of the period, once created',
+    nullable: true,
+  })
+  invoiceId: string | null;
+
+  @ApiProperty({ description: 'Line outcome', enum: TuitionInvoiceLineStatus })
+  status: TuitionInvoiceLineStatus;
+
+  @ApiPropertyOptional({
+    description: 'Why the invoice could not be saved',
+    nullable: true,
+  })
+  error: string | null;
+}
+
+export class TuitionBillingRunResponseDto {
+  @ApiProperty({
+    description: 'Date the periods were chosen by',
+    example: '2026-03-01',
+  })
+  billingDate: string;
+
+  @ApiProperty({ description: 'True when nothing was saved' })
+  preview: boolean;
+
+  @ApiProperty({
+    description: 'Invoices created, or that would be created in a preview',
+  })
+  invoicesCreated: number;
+
+  @ApiProperty({
+    description: 'Periods skipped because they were invoiced before',
+  })
+  alreadyBilled: number;
+
+  @ApiProperty({
+    description:
+      'Invoices that could not be saved and are left to the next run',
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Total of the created (or previewed) invoices in cents',
+    example: 480000,
+  })
+  totalAmount: number;
+
+  @ApiProperty({ type: [TuitionInvoiceLineDto] })
+  lines: TuitionInvoiceLineDto[];
+}
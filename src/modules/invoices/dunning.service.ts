@@ -0,0 +1,241 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Invoice } from './entities/invoice.entity';
+import { DunningNotice } from './entities/dunning-notice.entity';
+import { DunningStep, LateFeePolicy } from './entities/late-fee-policy.entity';
+import { DunningNoticeResponseDto } from './dto/late-fee-policy.dto';
+import type { OverdueRunOptions } from './late-fee.service';
+import { PaymentReminderService } from '../communications/payment-reminder.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { FamilyAccount } from '../ledger/entities/family-account.entity';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { DAY_MS, toUtcDay } from '../../common/utils/date.util';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Sends the reminders of each school's dunning schedule for pending
+ * invoices as they age past their due date. Every step is sent at most
+ * once per invoice and retried on later runs until it is delivered, unless
+ * the invoice has no parent email to send to; an invoice that skipped steps (for example because dunning was switched on
+ * late) only gets the latest step it has reached.
+ */
+@Injectable()
+export class DunningService {
+  private readonly logger = new Logger(DunningService.name);
+
+  constructor(
+    @InjectRepository(LateFeePolicy)
+    private readonly policyRepository: Repository<LateFeePolicy>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(DunningNotice)
+    private readonly noticeRepository: Repository<DunningNotice>,
+    private readonly paymentReminderService: PaymentReminderService,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  async sendReminders(
+    options: OverdueRunOptions = {},
+  ): Promise<{ remindersSent: number; accountsFlagged: number }> {
+    const today = toUtcDay(options.today ?? new Date());
+    const policies = await this.policyRepository.find({
+      where: {
+        dunningEnabled: true,
+        ...(options.schoolId ? { schoolId: options.schoolId } : {}),
+      },
+    });
+
+    let remindersSent = 0;
+    let accountsFlagged = 0;
+    for (const policy of policies) {
+      const schedule = [...(policy.dunningSchedule ?? [])].sort(
+        (a, b) => a.daysOverdue - b.daysOverdue,
+      );
+      if (schedule.length === 0) {
+        continue;
+      }
+
+      const firstStepDate = new Date(today - schedule[0].daysOverdue * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+      const invoices = await this.invoiceRepository
+        .createQueryBuilder('invoice')
+        .where('invoice.school_id = :schoolId', { schoolId: policy.schoolId })
+        .andWhere('invoice.status = :status', {
+          status: PaymentStatus.PENDING,
+        })
+        .andWhere('invoice.amount > 0')
+        .andWhere('invoice.due_date <= :firstStepDate', { firstStepDate })
+        .getMany();
+
+      for (const invoice of invoices) {
+        const daysOverdue = Math.round(
+          (today - toUtcDay(invoice.dueDate)) / DAY_MS,
+        );
+        const step = schedule
+          .filter((candidate) => candidate.daysOverdue <= daysOverdue)
+          .pop();
+        if (!step) {
+          continue;
+        }
+
+        const outcome = await this.sendStep(invoice, step);
+        remindersSent += outcome.sent ? 1 : 0;
+        accountsFlagged += outcome.flagged ? 1 : 0;
+      }
+    }
+
+    if (remindersSent > 0) {
+      this.logger.log(
+        `Sent ${remindersSent} dunning reminders, flagged ${accountsFlagged} family accounts`,
+      );
+    }
+    return { remindersSent, accountsFlagged };
+  }
+
+  async findNotices(
+    schoolId: string,
+    options: { invoiceId?: string; page?: number; limit?: number } = {},
+  ): Promise<{ data: DunningNoticeResponseDto[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const query = this.noticeRepository
+      .createQueryBuilder('notice')
+      .leftJoinAndSelect('notice.invoice', 'invoice')
+      .where('notice.school_id = :schoolId', { schoolId })
+      .orderBy('notice.created_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+    if (options.invoiceId) {
+      query.andWhere('notice.invoice_id = :invoiceId', {
+        invoiceId: options.invoiceId,
+      });
+    }
+
+    const [notices, total] = await query.getManyAndCount();
+    return {
+      data: notices.map((notice) => this.mapToResponseDto(notice)),
+      total,
+    };
+  }
+
+  private async sendStep(
+    invoice: Invoice,
+    step: DunningStep,
+  ): Promise<{ sent: boolean; flagged: boolean }> {
+    const account = await this.ledgerService.findInvoiceAccount(invoice);
+
+    const noticeId = await this.claimNotice(invoice, step, account);
+    if (!noticeId) {
+      return { sent: false, flagged: false };
+    }
+
+    if (!account) {
+      this.logger.warn(
+        `No parent email for overdue invoice ${invoice.invoiceNumber}; ${step.level} reminder not sent`,
+      );
+      await this.noticeRepository.update(noticeId, {
+        delivered: false,
+        skipped: true,
+      });
+      return { sent: false, flagged: false };
+    }
+
+    const sent = await this.paymentReminderService.sendOverdueInvoiceReminder({
+      recipientEmail: account.parentEmail,
+      schoolId: invoice.schoolId,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      amountDue: invoice.amount,
+      dueDate: new Date(toUtcDay(invoice.dueDate)).toISOString().slice(0, 10),
+      daysOverdue: step.daysOverdue,
+      level: step.level,
+    });
+
+    const flagged = step.flagAccount
+      ? await this.ledgerService.flagAccount(
+          account.id,
+          `Invoice ${invoice.invoiceNumber} is ${step.daysOverdue} days overdue`,
+        )
+      : false;
+
+    await this.noticeRepository.update(noticeId, {
+      delivered: sent,
+      // A retried step keeps the flag set by its earlier attempt
+      ...(flagged ? { accountFlagged: true } : {}),
+    });
+    return { sent, flagged };
+  }
+
+  /**
+   * Record the step as delivered before sending so that overlapping runs
+   * cannot both send it. A step whose earlier send failed is claimed again.
+   * Returns null when the step was already delivered, skipped or is being
+   * sent.
+   */
+  private async claimNotice(
+    invoice: Invoice,
+    step: DunningStep,
+    account: FamilyAccount | null,
+  ): Promise<string | null> {
+    const values = {
+      familyAccountId: account?.id ?? null,
+      recipientEmail: account?.parentEmail ?? null,
+      amountDue: invoice.amount,
+      delivered: true,
+    };
+
+    const inserted = await this.noticeRepository
+      .createQueryBuilder()
+      .insert()
+      .into(DunningNotice)
+      .values({
+        invoiceId: invoice.id,
+        schoolId: invoice.schoolId,
+        level: step.level,
+        daysOverdue: step.daysOverdue,
+        ...values,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+    const notice = (inserted.raw as Array<{ id: string }>)[0];
+    if (notice) {
+      return notice.id;
+    }
+
+    const retried = await this.noticeRepository
+      .createQueryBuilder()
+      .update(DunningNotice)
+      .set(values)
+      .where('invoice_id = :invoiceId', { invoiceId: invoice.id })
+      .andWhere('days_overdue = :daysOverdue', {
+        daysOverdue: step.daysOverdue,
+      })
+      .andWhere('delivered = false')
+      .andWhere('skipped = false')
+      .returning(['id'])
+      .execute();
+    return (retried.raw as Array<{ id: string }>)[0]?.id ?? null;
+  }
+
+  private mapToResponseDto(notice: DunningNotice): DunningNoticeResponseDto {
+    return {
+      id: notice.id,
+      invoiceId: notice.invoiceId,
+      invoiceNumber: notice.invoice?.invoiceNumber,
+      familyAccountId: notice.familyAccountId,
+      level: notice.level,
+      daysOverdue: notice.daysOverdue,
+      recipientEmail: notice.recipientEmail,
+      amountDue: notice.amountDue,
+      delivered: notice.delivered,
+      skipped: notice.skipped,
+      accountFlagged: notice.accountFlagged,
+      createdAt: notice.createdAt,
+    };
+  }
+}
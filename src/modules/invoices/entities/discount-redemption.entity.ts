@@ -0,0 +1,30 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { DiscountRule } from './discount-rule.entity';
+import { EnrollmentEntity } from '../../enrollment/entities/enrollment.entity';
+
+/** A promo code redeemed for an enrollment */
+@Entity('discount_redemptions')
+@Unique(['discountRuleId', 'enrollmentId'])
+export class DiscountRedemption extends BaseEntity {
+  @Column({ name: 'discount_rule_id', type: 'uuid' })
+  discountRuleId: string;
+
+  @Column({ name: 'enrollment_id', type: 'uuid' })
+  enrollmentId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'redeemed_by', type: 'uuid', nullable: true })
+  redeemedBy: string | null;
+
+  // Relations
+  @ManyToOne(() => DiscountRule, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'discount_rule_id' })
+  rule: DiscountRule;
+
+  @ManyToOne(() => EnrollmentEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'enrollment_id' })
+  enrollment: EnrollmentEntity;
+}
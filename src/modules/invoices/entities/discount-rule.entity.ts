@@ -0,0 +1,88 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+export enum DiscountRuleType {
+  /** Second and later children of a family */
+  SIBLING = 'sibling',
+  /** Children of the school's own staff */
+  STAFF_CHILD = 'staff_child',
+  /** A child enrolled in several programs at once */
+  MULTI_PROGRAM = 'multi_program',
+  /** Enrollments a promo code was redeemed for */
+  PROMO_CODE = 'promo_code',
+  /** Families whose account credit already covers the invoice */
+  PREPAY = 'prepay',
+}
+
+export enum DiscountValueType {
+  PERCENTAGE = 'percentage',
+  FLAT = 'flat',
+}
+
+/**
+ * A school's discount on tuition. Matching rules are applied when tuition
+ * invoices are generated and appear on the invoice as negative items.
+ */
+@Entity('discount_rules')
+export class DiscountRule extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'rule_type', type: 'varchar', length: 20 })
+  ruleType: DiscountRuleType;
+
+  @Column({
+    name: 'value_type',
+    type: 'varchar',
+    length: 20,
+    default: DiscountValueType.PERCENTAGE,
+  })
+  valueType: DiscountValueType;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2, default: 0 })
+  percentage: number; // Percent of the tuition
+
+  @Column({ name: 'flat_amount', type: 'integer', default: 0 })
+  flatAmount: number; // Amount in cents per billing period
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  // A rule that does not stack is only used when it beats the stacking rules combined
+  @Column({ type: 'boolean', default: true })
+  stackable: boolean;
+
+  // Only tuition of these programs is discounted; for bundles, the programs that count
+  @Column({ type: 'jsonb', nullable: true })
+  programs: string[] | null;
+
+  // Sibling rules: the child, by tuition from highest, the discount starts at
+  @Column({ name: 'sibling_position', type: 'integer', nullable: true })
+  siblingPosition: number | null;
+
+  // Multi-program rules: programs the child must be enrolled in
+  @Column({ name: 'min_programs', type: 'integer', nullable: true })
+  minPrograms: number | null;
+
+  @Column({ name: 'promo_code', type: 'varchar', length: 50, nullable: true })
+  promoCode: string | null; // Uppercased
+
+  @Column({ name: 'max_redemptions', type: 'integer', nullable: true })
+  maxRedemptions: number | null;
+
+  // Billing periods starting outside these dates are not discounted
+  @Column({ name: 'valid_from', type: 'date', nullable: true })
+  validFrom: Date | null;
+
+  @Column({ name: 'valid_until', type: 'date', nullable: true })
+  validUntil: Date | null;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
@@ -0,0 +1,50 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { Invoice } from './invoice.entity';
+import { DunningLevel } from './late-fee-policy.entity';
+
+/** A reminder sent for an overdue invoice at one step of the dunning schedule */
+@Entity('invoice_dunning_notices')
+@Unique(['invoiceId', 'daysOverdue'])
+export class DunningNotice extends BaseEntity {
+  @Column({ name: 'invoice_id', type: 'uuid' })
+  invoiceId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'family_account_id', type: 'uuid', nullable: true })
+  familyAccountId: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  level: DunningLevel;
+
+  @Column({ name: 'days_overdue', type: 'integer' })
+  daysOverdue: number; // The schedule step, not the invoice's age when sent
+
+  @Column({
+    name: 'recipient_email',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  recipientEmail: string | null;
+
+  @Column({ name: 'amount_due', type: 'integer' })
+  amountDue: number; // Amount in cents
+
+  @Column({ type: 'boolean', default: false })
+  delivered: boolean;
+
+  // No parent email to send to; the step is not retried
+  @Column({ type: 'boolean', default: false })
+  skipped: boolean;
+
+  @Column({ name: 'account_flagged', type: 'boolean', default: false })
+  accountFlagged: boolean;
+
+  // Relations
+  @ManyToOne(() => Invoice, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invoice_id' })
+  invoice: Invoice;
+}
@@ -0,0 +1,65 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { PayerAccount } from './payer-account.entity';
+import { EnrollmentEntity } from '../../enrollment/entities/enrollment.entity';
+
+export enum PayerSplitType {
+  /** Percent of the tuition after discounts */
+  PERCENTAGE = 'percentage',
+  /** Amount per billing period */
+  FIXED = 'fixed',
+}
+
+/**
+ * A payer's share of an enrollment's tuition, such as a subsidy
+ * authorization. When tuition is invoiced the share moves from the family
+ * invoice to a charge billed to the payer.
+ */
+@Entity('enrollment_payers')
+export class EnrollmentPayer extends BaseEntity {
+  @Column({ name: 'payer_account_id', type: 'uuid' })
+  payerAccountId: string;
+
+  @Column({ name: 'enrollment_id', type: 'uuid' })
+  enrollmentId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'split_type', type: 'varchar', length: 20 })
+  splitType: PayerSplitType;
+
+  @Column({ type: 'decimal', precision: 5, scale: 2, default: 0 })
+  percentage: number; // Percent of the tuition
+
+  @Column({ name: 'fixed_amount', type: 'integer', default: 0 })
+  fixedAmount: number; // Amount in cents per billing period
+
+  // The agency's authorization or case number for the child
+  @Column({
+    name: 'authorization_number',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  authorizationNumber: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  // Billing periods starting outside these dates are not split
+  @Column({ name: 'valid_from', type: 'date', nullable: true })
+  validFrom: Date | null;
+
+  @Column({ name: 'valid_until', type: 'date', nullable: true })
+  validUntil: Date | null;
+
+  // Relations
+  @ManyToOne(() => PayerAccount, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'payer_account_id' })
+  payerAccount: PayerAccount;
+
+  @ManyToOne(() => EnrollmentEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'enrollment_id' })
+  enrollment: EnrollmentEntity;
+}
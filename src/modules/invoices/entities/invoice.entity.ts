@@ -21,6 +21,16 @@ export class Invoice extends BaseEntity {
   @Column({ name: 'lead_id', type: 'uuid', nullable: true })
   leadId: string | null;
 
+  // Set on tuition invoices generated from an enrollment's billing cycle
+  @Column({ name: 'enrollment_id', type: 'uuid', nullable: true })
+  enrollmentId: string | null;
+
+  @Column({ name: 'billing_period_start', type: 'date', nullable: true })
+  billingPeriodStart: Date | null;
+
+  @Column({ name: 'billing_period_end', type: 'date', nullable: true })
+  billingPeriodEnd: Date | null;
+
   @Column({ type: 'integer' })
   amount: number; // Amount in cents
 
@@ -52,8 +62,8 @@ export class Invoice extends BaseEntity {
   @Column({ name: 'transaction_id', type: 'varchar', length: 255, nullable: true })
   transactionId: string | null;
 
-  @Column({ name: 'created_by', type: 'uuid' })
-  createdBy: string;
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdBy: string | null; // Null for invoices generated by scheduled billing runs
 
   @Column({ type: 'text', nullable: true })
   notes: string | null;
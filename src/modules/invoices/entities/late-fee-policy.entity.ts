@@ -0,0 +1,66 @@
+import { Column, Entity, JoinColumn, OneToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+export enum LateFeeType {
+  FLAT = 'flat',
+  PERCENTAGE = 'percentage',
+}
+
+/** How firmly a dunning reminder is worded */
+export enum DunningLevel {
+  REMINDER = 'reminder',
+  WARNING = 'warning',
+  FINAL = 'final',
+}
+
+export interface DunningStep {
+  daysOverdue: number;
+  level: DunningLevel;
+  /** Flag the family account for follow-up when this reminder goes out */
+  flagAccount?: boolean;
+}
+
+/**
+ * A school's rules for overdue invoices: the late fee charged once an
+ * invoice is past its grace period, and the reminders sent as it ages.
+ */
+@Entity('late_fee_policies')
+export class LateFeePolicy extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid', unique: true })
+  schoolId: string;
+
+  @Column({ name: 'late_fees_enabled', type: 'boolean', default: false })
+  lateFeesEnabled: boolean;
+
+  @Column({
+    name: 'fee_type',
+    type: 'varchar',
+    length: 20,
+    default: LateFeeType.FLAT,
+  })
+  feeType: LateFeeType;
+
+  @Column({ name: 'flat_amount', type: 'integer', default: 0 })
+  flatAmount: number; // Amount in cents
+
+  @Column({ type: 'decimal', precision: 5, scale: 2, default: 0 })
+  percentage: number; // Percent of the amount due
+
+  @Column({ name: 'grace_days', type: 'integer', default: 0 })
+  graceDays: number;
+
+  @Column({ name: 'max_fee_amount', type: 'integer', nullable: true })
+  maxFeeAmount: number | null; // Cap in cents
+
+  @Column({ name: 'dunning_enabled', type: 'boolean', default: false })
+  dunningEnabled: boolean;
+
+  @Column({ name: 'dunning_schedule', type: 'jsonb', default: [] })
+  dunningSchedule: DunningStep[];
+
+  // Relations
+  @OneToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
@@ -0,0 +1,64 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+export enum PayerType {
+  /** State or county childcare subsidy program */
+  SUBSIDY_AGENCY = 'subsidy_agency',
+  EMPLOYER = 'employer',
+  OTHER = 'other',
+}
+
+/**
+ * A third party that pays part of some families' tuition, such as a
+ * childcare subsidy agency or an employer. It is billed its share of
+ * tuition on agency invoices, one per billing period.
+ */
+@Entity('payer_accounts')
+export class PayerAccount extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ name: 'payer_type', type: 'varchar', length: 20 })
+  payerType: PayerType;
+
+  @Column({
+    name: 'contact_name',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  contactName: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  phone: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  address: string | null;
+
+  // The school's provider or vendor number with the agency, printed on claims
+  @Column({
+    name: 'provider_number',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  providerNumber: string | null;
+
+  @Column({ name: 'payment_terms_days', type: 'integer', default: 30 })
+  paymentTermsDays: number;
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
@@ -0,0 +1,61 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { PayerAccount } from './payer-account.entity';
+import { PayerInvoice } from './payer-invoice.entity';
+import { Invoice } from './invoice.entity';
+
+/**
+ * A payer's share of one tuition invoice. Charges are gathered onto the
+ * payer's invoice for the billing period they fall in.
+ */
+@Entity('payer_charges')
+@Unique(['invoiceId', 'enrollmentPayerId'])
+export class PayerCharge extends BaseEntity {
+  @Column({ name: 'payer_account_id', type: 'uuid' })
+  payerAccountId: string;
+
+  @Column({ name: 'enrollment_payer_id', type: 'uuid' })
+  enrollmentPayerId: string;
+
+  @Column({ name: 'enrollment_id', type: 'uuid' })
+  enrollmentId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  // The family's tuition invoice the share was taken off
+  @Column({ name: 'invoice_id', type: 'uuid' })
+  invoiceId: string;
+
+  // Null until the charge is billed to the payer
+  @Column({ name: 'payer_invoice_id', type: 'uuid', nullable: true })
+  payerInvoiceId: string | null;
+
+  @Column({ name: 'period_start', type: 'date' })
+  periodStart: Date;
+
+  @Column({ name: 'period_end', type: 'date' })
+  periodEnd: Date;
+
+  @Column({ type: 'integer' })
+  amount: number; // Amount in cents
+
+  @Column({ name: 'child_name', type: 'varchar', length: 255, nullable: true })
+  childName: string | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  program: string;
+
+  // Relations
+  @ManyToOne(() => PayerAccount, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'payer_account_id' })
+  payerAccount: PayerAccount;
+
+  @ManyToOne(() => PayerInvoice, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'payer_invoice_id' })
+  payerInvoice: PayerInvoice | null;
+
+  @ManyToOne(() => Invoice, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invoice_id' })
+  invoice: Invoice;
+}
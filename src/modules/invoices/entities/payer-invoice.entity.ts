@@ -0,0 +1,74 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { PayerAccount } from './payer-account.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+import { PaymentStatus } from '../../../common/enums/payment-status.enum';
+
+/**
+ * What a payer owes for a billing period: the total of its charges for
+ * tuition periods starting in that calendar month
+ */
+@Entity('payer_invoices')
+@Unique(['payerAccountId', 'periodStart'])
+export class PayerInvoice extends BaseEntity {
+  @Column({
+    name: 'invoice_number',
+    type: 'varchar',
+    length: 100,
+    unique: true,
+  })
+  invoiceNumber: string;
+
+  @Column({ name: 'payer_account_id', type: 'uuid' })
+  payerAccountId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'period_start', type: 'date' })
+  periodStart: Date;
+
+  @Column({ name: 'period_end', type: 'date' })
+  periodEnd: Date;
+
+  @Column({ type: 'integer' })
+  amount: number; // Amount in cents
+
+  @Column({ name: 'paid_amount', type: 'integer', default: 0 })
+  paidAmount: number; // Amount in cents
+
+  // Pending until paid in full
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: PaymentStatus.PENDING,
+  })
+  status: PaymentStatus;
+
+  @Column({ name: 'due_date', type: 'date' })
+  dueDate: Date;
+
+  @Column({ name: 'payment_date', type: 'timestamptz', nullable: true })
+  paymentDate: Date | null;
+
+  // Check number, remittance or EFT reference of the payer's payments
+  @Column({
+    name: 'payment_reference',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  paymentReference: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  // Relations
+  @ManyToOne(() => PayerAccount, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'payer_account_id' })
+  payerAccount: PayerAccount;
+
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
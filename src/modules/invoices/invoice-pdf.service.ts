@@ -0,0 +1,397 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceItem } from './entities/invoice-item.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { Student } from '../students/entities/student.entity';
+import { Refund, RefundStatus } from '../payments/entities/refund.entity';
+import { ACCOUNT_CREDIT_ITEM_CATEGORY } from '../ledger/ledger.service';
+import { MailerService } from '../mailer/mailer.service';
+import { EmailAttachment } from '../mailer/interfaces/email.interface';
+import {
+  MoneyFormatter,
+  PDF_MARGIN,
+  PDF_MUTED_COLOR,
+  PdfService,
+} from '../../shared/pdf.service';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+
+export type InvoiceDocumentKind = 'invoice' | 'receipt';
+
+export interface InvoicePdfFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface AppliedPayment {
+  label: string;
+  date: Date | null;
+  amount: number;
+}
+
+/**
+ * Renders invoices and receipts as PDFs branded with the school's logo and
+ * contact details. A receipt is the same document for a paid invoice, with
+ * the payment instead of the amount due up front.
+ */
+@Injectable()
+export class InvoicePdfService {
+  constructor(
+    @InjectRepository(InvoiceItem)
+    private readonly itemRepository: Repository<InvoiceItem>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+    @InjectRepository(Refund)
+    private readonly refundRepository: Repository<Refund>,
+    private readonly mailerService: MailerService,
+    private readonly pdfService: PdfService,
+  ) {}
+
+  /**
+   * Whether the invoice has been paid, and so has a receipt
+   */
+  hasReceipt(invoice: Invoice): boolean {
+    return (
+      invoice.status === PaymentStatus.PAID ||
+      invoice.status === PaymentStatus.REFUNDED
+    );
+  }
+
+  async render(
+    invoice: Invoice,
+    kind: InvoiceDocumentKind,
+  ): Promise<InvoicePdfFile> {
+    if (kind === 'receipt' && !this.hasReceipt(invoice)) {
+      throw new BadRequestException(
+        `Invoice ${invoice.invoiceNumber} is ${invoice.status}; only paid invoices have a receipt`,
+      );
+    }
+
+    const [school, loadedItems, parent, student, refunds] = await Promise.all([
+      invoice.school
+        ? Promise.resolve(invoice.school)
+        : this.schoolRepository.findOne({ where: { id: invoice.schoolId } }),
+      invoice.items
+        ? Promise.resolve(invoice.items)
+        : this.itemRepository.find({ where: { invoiceId: invoice.id } }),
+      invoice.parentId
+        ? this.profileRepository.findOne({ where: { id: invoice.parentId } })
+        : null,
+      invoice.studentId
+        ? this.studentRepository.findOne({ where: { id: invoice.studentId } })
+        : null,
+      this.refundRepository.find({
+        where: {
+          invoiceId: invoice.id,
+          invoiceSource: 'invoice',
+          status: RefundStatus.PROCESSED,
+        },
+        order: { processedAt: 'ASC' },
+      }),
+    ]);
+    // Items loaded as a relation come in no particular order
+    const items = [...loadedItems].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+    const logo = school?.logoUrl
+      ? await this.pdfService.fetchImage(school.logoUrl)
+      : null;
+    const money = this.pdfService.moneyFormatter(invoice.currency);
+    const lineItems = items.filter(
+      (item) => item.category !== ACCOUNT_CREDIT_ITEM_CATEGORY,
+    );
+
+    const buffer = await this.pdfService.render((doc) => {
+      this.pdfService.drawLetterhead(doc, {
+        name: school?.name ?? 'MyPreschoolPro',
+        lines: [school?.address, school?.phone, school?.email],
+        logo,
+      });
+      this.drawSummary(doc, invoice, kind, parent, student);
+      this.drawItems(doc, lineItems, money);
+      this.drawTotals(
+        doc,
+        lineItems.reduce((sum, item) => sum + item.total, 0),
+        this.findAppliedPayments(invoice, items, refunds),
+        this.hasReceipt(invoice) ? 0 : invoice.amount,
+        money,
+      );
+
+      if (invoice.notes) {
+        doc.moveDown(2);
+        doc.font('Helvetica-Bold').fontSize(10).text('Notes', PDF_MARGIN);
+        doc.font('Helvetica').fontSize(9).fillColor(PDF_MUTED_COLOR);
+        doc.text(invoice.notes, PDF_MARGIN);
+        doc.fillColor('black');
+      }
+
+      doc.moveDown(3);
+      doc
+        .fontSize(9)
+        .fillColor(PDF_MUTED_COLOR)
+        .text(
+          kind === 'receipt'
+            ? 'Thank you for your payment.'
+            : 'Thank you! Please pay by the due date shown above.',
+          PDF_MARGIN,
+          undefined,
+          { align: 'center', width: this.pdfService.contentWidth(doc) },
+        );
+    });
+
+    return {
+      buffer,
+      contentType: 'application/pdf',
+      fileName: `${kind}-${invoice.invoiceNumber}.pdf`,
+    };
+  }
+
+  async renderAttachment(
+    invoice: Invoice,
+    kind: InvoiceDocumentKind,
+  ): Promise<EmailAttachment> {
+    const file = await this.render(invoice, kind);
+    return {
+      filename: file.fileName,
+      content: file.buffer.toString('base64'),
+      contentType: file.contentType,
+    };
+  }
+
+  /**
+   * Email the invoice to its parent: the receipt once it is paid, the
+   * invoice until then
+   */
+  async emailToParent(invoice: Invoice): Promise<{
+    success: boolean;
+    emailId?: string;
+    kind: InvoiceDocumentKind;
+  }> {
+    const parent = invoice.parentId
+      ? await this.profileRepository.findOne({
+          where: { id: invoice.parentId },
+        })
+      : null;
+    if (!parent?.email) {
+      throw new BadRequestException(
+        `Invoice ${invoice.invoiceNumber} has no parent to email`,
+      );
+    }
+
+    const kind = this.hasReceipt(invoice) ? 'receipt' : 'invoice';
+    const school =
+      invoice.school ??
+      (await this.schoolRepository.findOne({
+        where: { id: invoice.schoolId },
+      }));
+    const result = await this.mailerService.sendPaymentEmail({
+      type: kind === 'receipt' ? 'confirmation' : 'invoice',
+      recipientEmail: parent.email,
+      recipientName:
+        [parent.firstName, parent.lastName].filter(Boolean).join(' ') ||
+        'Parent',
+      schoolName: school?.name ?? 'MyPreschoolPro',
+      amount: invoice.amount,
+      currency: invoice.currency,
+      invoiceNumber: invoice.invoiceNumber,
+      dueDate: new Date(invoice.dueDate).toISOString(),
+      paymentDate: invoice.paymentDate?.toISOString(),
+      schoolId: invoice.schoolId,
+      userId: parent.id,
+      metadata: { invoiceId: invoice.id },
+      attachments: [await this.renderAttachment(invoice, kind)],
+    });
+
+    return { success: result.success, emailId: result.emailId, kind };
+  }
+
+  private drawSummary(
+    doc: PDFKit.PDFDocument,
+    invoice: Invoice,
+    kind: InvoiceDocumentKind,
+    parent: ProfileEntity | null,
+    student: Student | null,
+  ): void {
+    const top = doc.y + 15;
+    const right = PDF_MARGIN + this.pdfService.contentWidth(doc) / 2;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .text(kind === 'receipt' ? 'RECEIPT' : 'INVOICE', PDF_MARGIN, top);
+    doc.font('Helvetica').fontSize(10);
+    doc.text(`Invoice number: ${invoice.invoiceNumber}`);
+    doc.text(`Issued: ${this.pdfService.formatDate(invoice.createdAt)}`);
+    if (kind === 'receipt') {
+      doc.text(`Paid: ${this.pdfService.formatDate(invoice.paymentDate)}`);
+    } else {
+      doc.text(`Due: ${this.pdfService.formatDate(invoice.dueDate)}`);
+    }
+    if (invoice.billingPeriodStart && invoice.billingPeriodEnd) {
+      doc.text(
+        `Billing period: ${this.pdfService.formatDate(invoice.billingPeriodStart)} - ${this.pdfService.formatDate(invoice.billingPeriodEnd)}`,
+      );
+    }
+    doc.text(`Status: ${this.humanize(invoice.status)}`);
+    const leftBottom = doc.y;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .text('Bill to', right, top + 5);
+    doc.font('Helvetica');
+    const parentName = parent
+      ? [parent.firstName, parent.lastName].filter(Boolean).join(' ')
+      : '';
+    for (const line of [parentName, parent?.email]) {
+      if (line) {
+        doc.text(line, right);
+      }
+    }
+    if (student) {
+      doc.text(`Student: ${student.firstName} ${student.lastName}`, right);
+    }
+
+    doc.y = Math.max(doc.y, leftBottom) + 20;
+  }
+
+  private drawItems(
+    doc: PDFKit.PDFDocument,
+    items: InvoiceItem[],
+    money: MoneyFormatter,
+  ): void {
+    const width = this.pdfService.contentWidth(doc);
+    // Description, quantity, unit price and amount columns
+    const columns = [
+      { x: PDF_MARGIN, width: width - 240, align: 'left' as const },
+      { x: PDF_MARGIN + width - 240, width: 60, align: 'right' as const },
+      { x: PDF_MARGIN + width - 180, width: 90, align: 'right' as const },
+      { x: PDF_MARGIN + width - 90, width: 90, align: 'right' as const },
+    ];
+    const drawRow = (cells: string[]): void => {
+      const top = doc.y;
+      let bottom = top;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        doc.text(cell, column.x, top, {
+          width: column.width,
+          align: column.align,
+        });
+        bottom = Math.max(bottom, doc.y);
+      });
+      doc.y = bottom + 4;
+    };
+
+    doc.font('Helvetica-Bold').fontSize(10);
+    drawRow(['Description', 'Qty', 'Unit price', 'Amount']);
+    this.pdfService.drawRule(doc);
+    doc.moveDown(0.5);
+
+    doc.font('Helvetica').fontSize(10);
+    if (items.length === 0) {
+      doc.fillColor(PDF_MUTED_COLOR).text('No line items', PDF_MARGIN);
+      doc.fillColor('black');
+    }
+    for (const item of items) {
+      if (doc.y > doc.page.height - PDF_MARGIN - 40) {
+        doc.addPage();
+      }
+      drawRow([
+        item.description,
+        String(item.quantity),
+        money.format(item.unitPrice),
+        money.format(item.total),
+      ]);
+    }
+    this.pdfService.drawRule(doc);
+  }
+
+  private drawTotals(
+    doc: PDFKit.PDFDocument,
+    subtotal: number,
+    payments: AppliedPayment[],
+    balanceDue: number,
+    money: MoneyFormatter,
+  ): void {
+    const width = this.pdfService.contentWidth(doc);
+    const labelX = PDF_MARGIN + width - 300;
+    const drawLine = (label: string, amount: number, bold = false): void => {
+      const top = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+      doc.text(label, labelX, top, { width: 200 });
+      doc.text(money.format(amount), PDF_MARGIN + width - 100, top, {
+        width: 100,
+        align: 'right',
+      });
+      doc.moveDown(0.3);
+    };
+
+    doc.moveDown(0.5);
+    drawLine('Subtotal', subtotal);
+    if (payments.length > 0) {
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(10).text('Payments applied', labelX);
+      doc.moveDown(0.3);
+      for (const payment of payments) {
+        drawLine(
+          payment.date
+            ? `${payment.label} (${this.pdfService.formatDate(payment.date)})`
+            : payment.label,
+          -payment.amount,
+        );
+      }
+    }
+    doc.moveDown(0.5);
+    drawLine('Balance due', balanceDue, true);
+  }
+
+  /**
+   * Account credit, the payment that settled the invoice and any refunds
+   * of it, in the order they happened. Refunds have negative amounts.
+   */
+  private findAppliedPayments(
+    invoice: Invoice,
+    items: InvoiceItem[],
+    refunds: Refund[],
+  ): AppliedPayment[] {
+    const payments: AppliedPayment[] = items
+      .filter((item) => item.category === ACCOUNT_CREDIT_ITEM_CATEGORY)
+      .map((item) => ({
+        label: 'Account credit',
+        date: item.createdAt,
+        amount: -item.total,
+      }));
+
+    // Account credit covering all of the invoice leaves nothing to pay
+    if (this.hasReceipt(invoice) && invoice.amount > 0) {
+      payments.push({
+        label: invoice.paymentMethod
+          ? `Payment - ${this.humanize(invoice.paymentMethod)}`
+          : 'Payment',
+        date: invoice.paymentDate,
+        amount: invoice.amount,
+      });
+    }
+
+    for (const refund of refunds) {
+      payments.push({
+        label: 'Refund',
+        date: refund.processedAt,
+        amount: -refund.amount,
+      });
+    }
+    return payments;
+  }
+
+  private humanize(value: string): string {
+    const words = value.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+}
@@ -0,0 +1,12 @@
+export const TUITION_BILLING_QUEUE = 'tuition-billing';
+
+/** Repeatable job that invoices the current billing period of every enrollment */
+export const GENERATE_TUITION_INVOICES_JOB = 'generate-tuition-invoices';
+
+export const OVERDUE_INVOICES_QUEUE = 'overdue-invoices';
+
+/** Repeatable job that charges late fees and sends dunning reminders */
+export const PROCESS_OVERDUE_INVOICES_JOB = 'process-overdue-invoices';
+
+/** InvoiceItem category of late fees */
+export const LATE_FEE_ITEM_CATEGORY = 'late_fee';
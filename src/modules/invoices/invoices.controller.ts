@@ -9,6 +9,10 @@ import {
   Query,
   UseGuards,
   ParseUUIDPipe,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,8 +20,13 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { InvoicesService } from './invoices.service';
+import { InvoiceDocumentKind, InvoicePdfService } from './invoice-pdf.service';
+import { Invoice } from './entities/invoice.entity';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
 import { CreateInvoiceItemDto } from './dto/create-invoice-item.dto';
@@ -25,16 +34,81 @@ import { InvoiceResponseDto } from './dto/invoice-response.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
 
 @ApiTags('Invoices')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(Invoice)
 @Controller('invoices')
 export class InvoicesController {
-  constructor(private readonly invoicesService: InvoicesService) {}
+  constructor(
+    private readonly invoicesService: InvoicesService,
+    private readonly invoicePdfService: InvoicePdfService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  /**
+   * Parents may read their own invoices; staff the invoices of their school
+   */
+  private async findAccessibleInvoice(
+    user: AuthUser,
+    id: string,
+  ): Promise<Invoice> {
+    const invoice = await this.invoicesService.findOne(id);
+
+    if (user.primaryRole === AppRole.PARENT) {
+      if (invoice.parentId !== user.id) {
+        throw new ForbiddenException('You can only view your own invoices');
+      }
+      return invoice;
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return invoice;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: invoice.schoolId, ownerId: user.id },
+    });
+
+    if (isOwner === 0 && !accessible.has(invoice.schoolId)) {
+      throw new ForbiddenException(
+        'You can only view invoices of your own school',
+      );
+    }
+    return invoice;
+  }
+
+  private async downloadDocument(
+    user: AuthUser,
+    id: string,
+    kind: InvoiceDocumentKind,
+  ): Promise<StreamableFile> {
+    const invoice = await this.findAccessibleInvoice(user, id);
+    const file = await this.invoicePdfService.render(invoice, kind);
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+      length: file.buffer.length,
+    });
+  }
 
   @Post()
   @Roles(AppRole.SCHOOL_ADMIN, AppRole.ADMISSIONS_STAFF, AppRole.SCHOOL_OWNER)
@@ -87,6 +161,79 @@ export class InvoicesController {
     return this.invoicesService.findOne(id);
   }
 
+  @Get(':id/pdf')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+    AppRole.PARENT,
+  )
+  @ApiOperation({
+    summary: 'Download invoice PDF',
+    description:
+      'Printable invoice with the school logo and address, line items, payments applied and balance due.',
+  })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'Invoice PDF' })
+  @ApiResponse({ status: 403, description: 'Not your invoice or school' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async downloadPdf(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<StreamableFile> {
+    return this.downloadDocument(user, id, 'invoice');
+  }
+
+  @Get(':id/receipt')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+    AppRole.PARENT,
+  )
+  @ApiOperation({ summary: 'Download payment receipt PDF of a paid invoice' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'Receipt PDF' })
+  @ApiResponse({ status: 400, description: 'Invoice is not paid' })
+  @ApiResponse({ status: 403, description: 'Not your invoice or school' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async downloadReceipt(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<StreamableFile> {
+    return this.downloadDocument(user, id, 'receipt');
+  }
+
+  @Post(':id/email')
+  @HttpCode(HttpStatus.OK)
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'Email invoice PDF to the parent',
+    description:
+      'Sends the invoice PDF, or the receipt PDF once the invoice is paid.',
+  })
+  @ApiResponse({ status: 200, description: 'Email sent' })
+  @ApiResponse({ status: 400, description: 'Invoice has no parent to email' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  async emailPdf(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{
+    success: boolean;
+    emailId?: string;
+    kind: InvoiceDocumentKind;
+  }> {
+    const invoice = await this.findAccessibleInvoice(user, id);
+    return this.invoicePdfService.emailToParent(invoice);
+  }
+
   @Get('number/:invoiceNumber')
   @Roles(AppRole.SCHOOL_ADMIN, AppRole.ADMISSIONS_STAFF, AppRole.SCHOOL_OWNER, AppRole.PARENT)
   @ApiOperation({ summary: 'Get invoice by invoice number' })
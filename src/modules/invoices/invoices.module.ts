@@ -1,18 +1,107 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { InvoicesService } from './invoices.service';
 import { InvoicesController } from './invoices.controller';
+import { TuitionBillingService } from './tuition-billing.service';
+import { TuitionBillingController } from './tuition-billing.controller';
+import { TuitionBillingProcessor } from './tuition-billing.processor';
+import { LateFeeService } from './late-fee.service';
+import { DunningService } from './dunning.service';
+import { LateFeeController } from './late-fee.controller';
+import { OverdueInvoicesProcessor } from './overdue-invoices.processor';
+import { DiscountService } from './discount.service';
+import { DiscountRuleController } from './discount-rule.controller';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { PayerService } from './payer.service';
+import { PayerInvoiceService } from './payer-invoice.service';
+import { PayerAccountController } from './payer-account.controller';
+import { PayerInvoiceController } from './payer-invoice.controller';
 import { Invoice } from './entities/invoice.entity';
 import { InvoiceItem } from './entities/invoice-item.entity';
+import { LateFeePolicy } from './entities/late-fee-policy.entity';
+import { DunningNotice } from './entities/dunning-notice.entity';
+import { DiscountRule } from './entities/discount-rule.entity';
+import { DiscountRedemption } from './entities/discount-redemption.entity';
+import { PayerAccount } from './entities/payer-account.entity';
+import { EnrollmentPayer } from './entities/enrollment-payer.entity';
+import { PayerCharge } from './entities/payer-charge.entity';
+import { PayerInvoice } from './entities/payer-invoice.entity';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { Student } from '../students/entities/student.entity';
+import { ParentStudent } from '../checkinout/entities/parent-student.entity';
+import { StudentAttendance } from '../students/entities/student-attendance.entity';
+import { UserRoleEntity } from '../users/entities/user-role.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { Refund } from '../payments/entities/refund.entity';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { CommunicationsModule } from '../communications/communications.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { SharedModule } from '../../shared/shared.module';
+import {
+  OVERDUE_INVOICES_QUEUE,
+  TUITION_BILLING_QUEUE,
+} from './invoices.constants';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Invoice, InvoiceItem]), RealtimeModule],
-  controllers: [InvoicesController],
-  providers: [InvoicesService],
-  exports: [InvoicesService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Invoice,
+      InvoiceItem,
+      LateFeePolicy,
+      DunningNotice,
+      DiscountRule,
+      DiscountRedemption,
+      PayerAccount,
+      EnrollmentPayer,
+      PayerCharge,
+      PayerInvoice,
+      EnrollmentEntity,
+      SchoolEntity,
+      Student,
+      ParentStudent,
+      StudentAttendance,
+      UserRoleEntity,
+      ProfileEntity,
+      Refund,
+    ]),
+    RealtimeModule,
+    CommunicationsModule,
+    LedgerModule,
+    MailerModule,
+    SharedModule,
+    BullModule.registerQueue(
+      { name: TUITION_BILLING_QUEUE },
+      { name: OVERDUE_INVOICES_QUEUE },
+    ),
+  ],
+  controllers: [
+    InvoicesController,
+    TuitionBillingController,
+    LateFeeController,
+    DiscountRuleController,
+    PayerAccountController,
+    PayerInvoiceController,
+  ],
+  providers: [
+    InvoicesService,
+    TuitionBillingService,
+    TuitionBillingProcessor,
+    LateFeeService,
+    DunningService,
+    OverdueInvoicesProcessor,
+    DiscountService,
+    InvoicePdfService,
+    PayerService,
+    PayerInvoiceService,
+  ],
+  exports: [
+    InvoicesService,
+    TuitionBillingService,
+    LateFeeService,
+    InvoicePdfService,
+  ],
 })
 export class InvoicesModule {}
-
-
-
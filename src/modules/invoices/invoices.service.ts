@@ -6,6 +6,7 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Invoice } from './entities/invoice.entity';
 import { InvoiceItem } from './entities/invoice-item.entity';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
@@ -13,6 +14,8 @@ import { UpdateInvoiceDto } from './dto/update-invoice.dto';
 import { CreateInvoiceItemDto } from './dto/create-invoice-item.dto';
 import { PaymentStatus } from '../../common/enums/payment-status.enum';
 import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { InvoiceEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class InvoicesService {
@@ -24,6 +27,7 @@ export class InvoicesService {
     @InjectRepository(InvoiceItem)
     private readonly invoiceItemRepository: Repository<InvoiceItem>,
     private readonly realtimeGateway: RealtimeGateway,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   /**
@@ -53,6 +57,7 @@ export class InvoicesService {
 
     const savedInvoice = await this.invoiceRepository.save(invoice);
     this.emitInvoiceStatsChange(savedInvoice.schoolId);
+    this.emitInvoiceEvent(DomainEvent.INVOICE_CREATED, savedInvoice, createdBy);
     return savedInvoice;
   }
 
@@ -139,6 +144,8 @@ export class InvoicesService {
    */
   async update(id: string, updateInvoiceDto: UpdateInvoiceDto): Promise<Invoice> {
     const invoice = await this.findOne(id);
+    const previousStatus = invoice.status;
+    const previousAmount = invoice.amount;
 
     const updateData: any = { ...updateInvoiceDto };
 
@@ -150,6 +157,17 @@ export class InvoicesService {
 
     const savedInvoice = await this.invoiceRepository.save(invoice);
     this.emitInvoiceStatsChange(savedInvoice.schoolId);
+    if (
+      previousStatus !== PaymentStatus.PAID &&
+      savedInvoice.status === PaymentStatus.PAID
+    ) {
+      this.emitInvoiceEvent(DomainEvent.INVOICE_PAID, savedInvoice);
+    } else if (
+      previousStatus !== savedInvoice.status ||
+      previousAmount !== savedInvoice.amount
+    ) {
+      this.emitInvoiceEvent(DomainEvent.INVOICE_UPDATED, savedInvoice);
+    }
     return savedInvoice;
   }
 
@@ -158,8 +176,13 @@ export class InvoicesService {
    */
   async remove(id: string): Promise<void> {
     const invoice = await this.findOne(id);
+    const { id: invoiceId } = invoice;
     await this.invoiceRepository.remove(invoice);
     this.emitInvoiceStatsChange(invoice.schoolId);
+    this.emitInvoiceEvent(DomainEvent.INVOICE_UPDATED, {
+      ...invoice,
+      id: invoiceId,
+    });
   }
 
   /**
@@ -179,6 +202,7 @@ export class InvoicesService {
     // Recalculate invoice total
     await this.recalculateTotal(invoiceId);
     this.emitInvoiceStatsChange(invoice.schoolId);
+    this.emitInvoiceEvent(DomainEvent.INVOICE_UPDATED, invoice);
 
     return savedItem;
   }
@@ -201,6 +225,7 @@ export class InvoicesService {
     // Recalculate invoice total
     await this.recalculateTotal(invoiceId);
     this.emitInvoiceStatsChange(invoice.schoolId);
+    this.emitInvoiceEvent(DomainEvent.INVOICE_UPDATED, invoice);
   }
 
   /**
@@ -227,6 +252,7 @@ export class InvoicesService {
     transactionId?: string,
   ): Promise<Invoice> {
     const invoice = await this.findOne(id);
+    const previousStatus = invoice.status;
 
     invoice.status = status;
 
@@ -244,6 +270,14 @@ export class InvoicesService {
 
     const savedInvoice = await this.invoiceRepository.save(invoice);
     this.emitInvoiceStatsChange(savedInvoice.schoolId);
+    if (
+      previousStatus !== PaymentStatus.PAID &&
+      status === PaymentStatus.PAID
+    ) {
+      this.emitInvoiceEvent(DomainEvent.INVOICE_PAID, savedInvoice);
+    } else if (previousStatus !== status) {
+      this.emitInvoiceEvent(DomainEvent.INVOICE_UPDATED, savedInvoice);
+    }
     return savedInvoice;
   }
 
@@ -276,5 +310,20 @@ export class InvoicesService {
       this.logger.warn(`Failed to emit invoice stats event for school ${schoolId}: ${(error as Error).message}`);
     }
   }
-}
 
+  private emitInvoiceEvent(
+    event:
+      | DomainEvent.INVOICE_CREATED
+      | DomainEvent.INVOICE_PAID
+      | DomainEvent.INVOICE_UPDATED,
+    invoice: Invoice,
+    userId?: string,
+  ): void {
+    this.eventEmitter.emit(event, {
+      invoiceId: invoice.id,
+      schoolId: invoice.schoolId,
+      source: 'invoice',
+      userId: userId ?? null,
+    } satisfies InvoiceEvent);
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LateFeeService } from './late-fee.service';
+import { DunningService } from './dunning.service';
+import {
+  DunningNoticeQueryDto,
+  DunningNoticeResponseDto,
+  LateFeePolicyResponseDto,
+  OverdueInvoicesRunDto,
+  OverdueInvoicesRunResponseDto,
+  UpsertLateFeePolicyDto,
+} from './dto/late-fee-policy.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Late Fees')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@Controller('late-fees')
+export class LateFeeController {
+  constructor(
+    private readonly lateFeeService: LateFeeService,
+    private readonly dunningService: DunningService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage late fees of your own school',
+      );
+    }
+  }
+
+  @Get('policy')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Get the late fee and dunning policy',
+    description:
+      'Returns the defaults (no late fees, no reminders) for schools that have not set a policy.',
+  })
+  @ApiQuery({ name: 'schoolId', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy retrieved successfully',
+    type: LateFeePolicyResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async getPolicy(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<LateFeePolicyResponseDto> {
+    const id = schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, id);
+    return this.lateFeeService.getPolicy(id!);
+  }
+
+  @Put('policy')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Set the late fee and dunning policy',
+    description:
+      'A late fee is charged once per invoice when it is still pending after the due date plus the grace days. Percentage fees are taken from the amount due and limited by the cap. Dunning steps send escalating reminders as the invoice ages and can flag the family account.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Policy saved',
+    type: LateFeePolicyResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid policy' })
+  async upsertPolicy(
+    @Body() dto: UpsertLateFeePolicyDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<LateFeePolicyResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.lateFeeService.upsertPolicy(schoolId!, dto);
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Process overdue invoices now',
+    description:
+      'Charges due late fees and sends due dunning reminders for the school. The same run happens automatically every morning; fees and reminders already sent are never repeated.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Overdue invoices processed',
+    type: OverdueInvoicesRunResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async run(
+    @Body() dto: OverdueInvoicesRunDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<OverdueInvoicesRunResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+
+    const fees = await this.lateFeeService.applyLateFees({ schoolId });
+    const reminders = await this.dunningService.sendReminders({ schoolId });
+    return { ...fees, ...reminders };
+  }
+
+  @Get('dunning-notices')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'List dunning reminders sent',
+    description: 'Newest first, optionally for one invoice.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dunning notices retrieved successfully',
+    type: [DunningNoticeResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findNotices(
+    @Query() query: DunningNoticeQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: DunningNoticeResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.dunningService.findNotices(schoolId!, query);
+  }
+}
@@ -0,0 +1,274 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceItem } from './entities/invoice-item.entity';
+import { LateFeePolicy, LateFeeType } from './entities/late-fee-policy.entity';
+import {
+  LateFeePolicyResponseDto,
+  UpsertLateFeePolicyDto,
+} from './dto/late-fee-policy.dto';
+import { LATE_FEE_ITEM_CATEGORY } from './invoices.constants';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { InvoiceEvent } from '../../common/interfaces/domain-event.interface';
+
+export interface OverdueRunOptions {
+  schoolId?: string;
+  today?: Date;
+}
+
+/**
+ * Charges the late fee of each school's policy on pending invoices past
+ * their due date and grace period. An invoice is charged one late fee,
+ * added as an invoice item so the amount due and the family ledger include
+ * it.
+ */
+@Injectable()
+export class LateFeeService {
+  private readonly logger = new Logger(LateFeeService.name);
+
+  constructor(
+    @InjectRepository(LateFeePolicy)
+    private readonly policyRepository: Repository<LateFeePolicy>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    private readonly dataSource: DataSource,
+    private readonly realtimeGateway: RealtimeGateway,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * The school's policy, or the defaults (no fees, no reminders) if it has
+   * not set one
+   */
+  async getPolicy(schoolId: string): Promise<LateFeePolicyResponseDto> {
+    const policy = await this.policyRepository.findOne({
+      where: { schoolId },
+    });
+    return policy
+      ? this.mapToResponseDto(policy)
+      : {
+          id: null,
+          schoolId,
+          lateFeesEnabled: false,
+          feeType: LateFeeType.FLAT,
+          flatAmount: 0,
+          percentage: 0,
+          graceDays: 0,
+          maxFeeAmount: null,
+          dunningEnabled: false,
+          dunningSchedule: [],
+          updatedAt: null,
+        };
+  }
+
+  async upsertPolicy(
+    schoolId: string,
+    dto: UpsertLateFeePolicyDto,
+  ): Promise<LateFeePolicyResponseDto> {
+    const schedule = [...(dto.dunningSchedule ?? [])].sort(
+      (a, b) => a.daysOverdue - b.daysOverdue,
+    );
+    if (
+      new Set(schedule.map((step) => step.daysOverdue)).size !== schedule.length
+    ) {
+      throw new BadRequestException(
+        'Each dunning step needs a different daysOverdue',
+      );
+    }
+
+    const policy =
+      (await this.policyRepository.findOne({ where: { schoolId } })) ??
+      this.policyRepository.create({ schoolId });
+
+    Object.assign(policy, {
+      lateFeesEnabled: dto.lateFeesEnabled,
+      feeType: dto.feeType,
+      flatAmount: dto.flatAmount ?? policy.flatAmount ?? 0,
+      percentage: dto.percentage ?? policy.percentage ?? 0,
+      graceDays: dto.graceDays ?? policy.graceDays ?? 0,
+      maxFeeAmount:
+        dto.maxFeeAmount !== undefined
+          ? dto.maxFeeAmount
+          : (policy.maxFeeAmount ?? null),
+      dunningEnabled: dto.dunningEnabled,
+      dunningSchedule: schedule.map((step) => ({
+        daysOverdue: step.daysOverdue,
+        level: step.level,
+        flagAccount: step.flagAccount ?? false,
+      })),
+    });
+
+    if (policy.lateFeesEnabled) {
+      if (policy.feeType === LateFeeType.FLAT && policy.flatAmount <= 0) {
+        throw new BadRequestException(
+          'flatAmount must be greater than 0 to charge flat late fees',
+        );
+      }
+      if (
+        policy.feeType === LateFeeType.PERCENTAGE &&
+        Number(policy.percentage) <= 0
+      ) {
+        throw new BadRequestException(
+          'percentage must be greater than 0 to charge percentage late fees',
+        );
+      }
+    }
+
+    const saved = await this.policyRepository.save(policy);
+    this.logger.log(`Saved late fee policy for school ${schoolId}`);
+    return this.mapToResponseDto(saved);
+  }
+
+  /**
+   * Add the late fee to every pending invoice past its grace period that
+   * has not been charged one
+   */
+  async applyLateFees(
+    options: OverdueRunOptions = {},
+  ): Promise<{ lateFeesApplied: number; lateFeeTotal: number }> {
+    const today = (options.today ?? new Date()).toISOString().slice(0, 10);
+    const policies = await this.policyRepository.find({
+      where: {
+        lateFeesEnabled: true,
+        ...(options.schoolId ? { schoolId: options.schoolId } : {}),
+      },
+    });
+
+    let lateFeesApplied = 0;
+    let lateFeeTotal = 0;
+    for (const policy of policies) {
+      const invoices = await this.invoiceRepository
+        .createQueryBuilder('invoice')
+        .where('invoice.school_id = :schoolId', { schoolId: policy.schoolId })
+        .andWhere('invoice.status = :status', {
+          status: PaymentStatus.PENDING,
+        })
+        .andWhere('invoice.amount > 0')
+        .andWhere('invoice.due_date + :graceDays::int < :today::date', {
+          graceDays: policy.graceDays,
+          today,
+        })
+        .andWhere(
+          `NOT EXISTS (SELECT 1 FROM invoice_items item WHERE item.invoice_id = invoice.id AND item.category = :category)`,
+          { category: LATE_FEE_ITEM_CATEGORY },
+        )
+        .getMany();
+
+      let schoolTotal = 0;
+      for (const invoice of invoices) {
+        const fee = await this.addLateFee(policy, invoice.id);
+        if (fee > 0) {
+          lateFeesApplied += 1;
+          schoolTotal += fee;
+        }
+      }
+
+      if (schoolTotal > 0) {
+        lateFeeTotal += schoolTotal;
+        this.emitInvoiceStatsChange(policy.schoolId);
+      }
+    }
+
+    if (lateFeesApplied > 0) {
+      this.logger.log(
+        `Added late fees to ${lateFeesApplied} invoices (${lateFeeTotal} cents)`,
+      );
+    }
+    return { lateFeesApplied, lateFeeTotal };
+  }
+
+  /**
+   * Returns the fee added, or 0 if the invoice was paid or charged a fee
+   * since it was selected
+   */
+  private async addLateFee(
+    policy: LateFeePolicy,
+    invoiceId: string,
+  ): Promise<number> {
+    const invoice = await this.dataSource.transaction(async (manager) => {
+      const locked = await manager.findOne(Invoice, {
+        where: { id: invoiceId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!locked || locked.status !== PaymentStatus.PENDING) {
+        return null;
+      }
+      const charged = await manager.count(InvoiceItem, {
+        where: { invoiceId, category: LATE_FEE_ITEM_CATEGORY },
+      });
+      const fee = this.feeFor(policy, locked.amount);
+      if (charged > 0 || fee <= 0) {
+        return null;
+      }
+
+      await manager.save(
+        manager.create(InvoiceItem, {
+          invoiceId,
+          description: 'Late fee',
+          quantity: 1,
+          unitPrice: fee,
+          total: fee,
+          category: LATE_FEE_ITEM_CATEGORY,
+          metadata: {
+            policyId: policy.id,
+            feeType: policy.feeType,
+            amountDue: locked.amount,
+          },
+        }),
+      );
+      locked.amount += fee;
+      return { ...(await manager.save(locked)), fee };
+    });
+
+    if (!invoice) {
+      return 0;
+    }
+
+    this.eventEmitter.emit(DomainEvent.INVOICE_LATE_FEE_ADDED, {
+      invoiceId: invoice.id,
+      schoolId: invoice.schoolId,
+      source: 'invoice',
+    } satisfies InvoiceEvent);
+    return invoice.fee;
+  }
+
+  private feeFor(policy: LateFeePolicy, amountDue: number): number {
+    const fee =
+      policy.feeType === LateFeeType.PERCENTAGE
+        ? Math.round((amountDue * Number(policy.percentage)) / 100)
+        : policy.flatAmount;
+    return policy.maxFeeAmount != null
+      ? Math.min(fee, policy.maxFeeAmount)
+      : fee;
+  }
+
+  private mapToResponseDto(policy: LateFeePolicy): LateFeePolicyResponseDto {
+    return {
+      id: policy.id,
+      schoolId: policy.schoolId,
+      lateFeesEnabled: policy.lateFeesEnabled,
+      feeType: policy.feeType,
+      flatAmount: policy.flatAmount,
+      percentage: Number(policy.percentage),
+      graceDays: policy.graceDays,
+      maxFeeAmount: policy.maxFeeAmount,
+      dunningEnabled: policy.dunningEnabled,
+      dunningSchedule: policy.dunningSchedule ?? [],
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  private emitInvoiceStatsChange(schoolId: string): void {
+    try {
+      this.realtimeGateway.emitInvoiceStatsChange(schoolId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to emit invoice stats event for school ${schoolId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
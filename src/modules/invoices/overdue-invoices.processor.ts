@@ -0,0 +1,51 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { LateFeeService } from './late-fee.service';
+import { DunningService } from './dunning.service';
+import {
+  OVERDUE_INVOICES_QUEUE,
+  PROCESS_OVERDUE_INVOICES_JOB,
+} from './invoices.constants';
+import { OverdueInvoicesRunResponseDto } from './dto/late-fee-policy.dto';
+
+// After the morning tuition billing run
+const OVERDUE_CRON = '0 7 * * *';
+
+/**
+ * Charges late fees and then sends dunning reminders each morning, so a
+ * reminder shows the amount due including any fee added that day.
+ */
+@Processor(OVERDUE_INVOICES_QUEUE)
+export class OverdueInvoicesProcessor implements OnModuleInit {
+  private readonly logger = new Logger(OverdueInvoicesProcessor.name);
+
+  constructor(
+    @InjectQueue(OVERDUE_INVOICES_QUEUE)
+    private readonly overdueQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly lateFeeService: LateFeeService,
+    private readonly dunningService: DunningService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.overdueQueue,
+      PROCESS_OVERDUE_INVOICES_JOB,
+      { cron: OVERDUE_CRON },
+    );
+  }
+
+  @Process(PROCESS_OVERDUE_INVOICES_JOB)
+  async processOverdueInvoices(): Promise<OverdueInvoicesRunResponseDto> {
+    const fees = await this.lateFeeService.applyLateFees();
+    const reminders = await this.dunningService.sendReminders();
+    if (fees.lateFeesApplied > 0 || reminders.remindersSent > 0) {
+      this.logger.log(
+        `Processed overdue invoices: ${fees.lateFeesApplied} late fees, ${reminders.remindersSent} reminders`,
+      );
+    }
+    return { ...fees, ...reminders };
+  }
+}
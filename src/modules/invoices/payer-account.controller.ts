@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PayerService } from './payer.service';
+import {
+  CreateEnrollmentPayerDto,
+  CreatePayerAccountDto,
+  EnrollmentPayerResponseDto,
+  PayerAccountQueryDto,
+  PayerAccountResponseDto,
+  UpdateEnrollmentPayerDto,
+  UpdatePayerAccountDto,
+} from './dto/payer.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { PayerAccount } from './entities/payer-account.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Payer Accounts')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(PayerAccount)
+@Controller('payer-accounts')
+export class PayerAccountController {
+  constructor(
+    private readonly payerService: PayerService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage payers of your own school',
+      );
+    }
+  }
+
+  @Get()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: "List the school's payer accounts",
+    description:
+      'Subsidy agencies, employers and other third parties that pay part of some families’ tuition.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer accounts retrieved successfully',
+    type: [PayerAccountResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: PayerAccountQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: PayerAccountResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.payerService.findAll(schoolId!, query);
+  }
+
+  @Post()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'Create a payer account' })
+  @ApiResponse({
+    status: 201,
+    description: 'Payer account created',
+    type: PayerAccountResponseDto,
+  })
+  async create(
+    @Body() dto: CreatePayerAccountDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PayerAccountResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.payerService.createAccount(schoolId!, dto);
+  }
+
+  @Patch('enrollments/:enrollmentPayerId')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: "Update a payer's split of an enrollment",
+    description: 'Invoices already generated are not changed.',
+  })
+  @ApiParam({ name: 'enrollmentPayerId', description: 'Enrollment payer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Split updated',
+    type: EnrollmentPayerResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid split' })
+  @ApiNotFoundResponse({ description: 'Enrollment payer not found' })
+  async updateEnrollmentPayer(
+    @Param('enrollmentPayerId', ParseUUIDPipe) enrollmentPayerId: string,
+    @Body() dto: UpdateEnrollmentPayerDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<EnrollmentPayerResponseDto> {
+    const payer =
+      await this.payerService.findEnrollmentPayer(enrollmentPayerId);
+    await this.ensureUserCanManageSchool(user, payer.schoolId);
+    return this.payerService.updateEnrollmentPayer(payer, dto);
+  }
+
+  @Delete('enrollments/:enrollmentPayerId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: "Remove a payer's split of an enrollment",
+    description:
+      'Only splits that were never billed can be removed; deactivate the others.',
+  })
+  @ApiParam({ name: 'enrollmentPayerId', description: 'Enrollment payer ID' })
+  @ApiResponse({ status: 204, description: 'Split removed' })
+  @ApiNotFoundResponse({ description: 'Enrollment payer not found' })
+  @ApiConflictResponse({ description: 'The split has been billed' })
+  async removeEnrollmentPayer(
+    @Param('enrollmentPayerId', ParseUUIDPipe) enrollmentPayerId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const payer =
+      await this.payerService.findEnrollmentPayer(enrollmentPayerId);
+    await this.ensureUserCanManageSchool(user, payer.schoolId);
+    await this.payerService.removeEnrollmentPayer(payer);
+  }
+
+  @Get(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'Get a payer account' })
+  @ApiParam({ name: 'id', description: 'Payer account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer account retrieved successfully',
+    type: PayerAccountResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payer account not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PayerAccountResponseDto> {
+    const account = await this.payerService.findAccount(id);
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    return this.payerService.getAccount(account);
+  }
+
+  @Patch(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Update a payer account',
+    description:
+      'Deactivating a payer stops splitting tuition with it from the next invoice.',
+  })
+  @ApiParam({ name: 'id', description: 'Payer account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer account updated',
+    type: PayerAccountResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payer account not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdatePayerAccountDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PayerAccountResponseDto> {
+    const account = await this.payerService.findAccount(id);
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    return this.payerService.updateAccount(account, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Delete a payer account',
+    description:
+      'Only payers that were never billed can be deleted; deactivate the others.',
+  })
+  @ApiParam({ name: 'id', description: 'Payer account ID' })
+  @ApiResponse({ status: 204, description: 'Payer account deleted' })
+  @ApiNotFoundResponse({ description: 'Payer account not found' })
+  @ApiConflictResponse({ description: 'The payer has been billed' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const account = await this.payerService.findAccount(id);
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    await this.payerService.removeAccount(account);
+  }
+
+  @Get(':id/enrollments')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'List the enrollments a payer covers part of' })
+  @ApiParam({ name: 'id', description: 'Payer account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollment splits retrieved successfully',
+    type: [EnrollmentPayerResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Payer account not found' })
+  async findEnrollmentPayers(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<EnrollmentPayerResponseDto[]> {
+    const account = await this.payerService.findAccount(id);
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    return this.payerService.findEnrollmentPayers(account);
+  }
+
+  @Post(':id/enrollments')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Attach the payer to an enrollment',
+    description:
+      "From the next tuition invoice, the payer's share (a percent of the tuition after discounts, or a fixed amount per billing period) comes off the family invoice and is billed to the payer.",
+  })
+  @ApiParam({ name: 'id', description: 'Payer account ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Payer attached to the enrollment',
+    type: EnrollmentPayerResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid split' })
+  @ApiNotFoundResponse({ description: 'Payer account or enrollment not found' })
+  async addEnrollmentPayer(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateEnrollmentPayerDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<EnrollmentPayerResponseDto> {
+    const account = await this.payerService.findAccount(id);
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    return this.payerService.addEnrollmentPayer(account, dto);
+  }
+}
@@ -0,0 +1,210 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PayerInvoiceService } from './payer-invoice.service';
+import {
+  ClaimReportResponseDto,
+  GeneratePayerInvoicesDto,
+  GeneratePayerInvoicesResultDto,
+  PayerInvoiceQueryDto,
+  PayerInvoiceResponseDto,
+  RecordPayerPaymentDto,
+} from './dto/payer-invoice.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { PayerInvoice } from './entities/payer-invoice.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Payer Invoices')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(PayerInvoice)
+@Controller('payer-invoices')
+export class PayerInvoiceController {
+  constructor(
+    private readonly payerInvoiceService: PayerInvoiceService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage payer invoices of your own school',
+      );
+    }
+  }
+
+  @Post('generate')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Generate payer invoices for a month',
+    description:
+      "Puts every payer's unbilled shares of tuition periods starting in the month on its invoice for the month. Safe to repeat: shares invoiced since are added to the month's invoice.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer invoices generated',
+    type: GeneratePayerInvoicesResultDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async generate(
+    @Body() dto: GeneratePayerInvoicesDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<GeneratePayerInvoicesResultDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.payerInvoiceService.generate(
+      schoolId!,
+      dto.year,
+      dto.month,
+      dto.payerAccountId,
+    );
+  }
+
+  @Get()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'List payer invoices' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer invoices retrieved successfully',
+    type: [PayerInvoiceResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: PayerInvoiceQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: PayerInvoiceResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.payerInvoiceService.findAll(schoolId!, query);
+  }
+
+  @Get(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'Get a payer invoice with its charges' })
+  @ApiParam({ name: 'id', description: 'Payer invoice ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payer invoice retrieved successfully',
+    type: PayerInvoiceResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payer invoice not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PayerInvoiceResponseDto> {
+    const invoice = await this.payerInvoiceService.findOne(id);
+    await this.ensureUserCanManageSchool(user, invoice.schoolId);
+    return this.payerInvoiceService.getWithCharges(invoice);
+  }
+
+  @Get(':id/claim-report')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Get the claim report of a payer invoice',
+    description:
+      "Each child claimed on the invoice with the payer's authorization number, the tuition periods and amount claimed, and the days attended, absent and excused in those periods.",
+  })
+  @ApiParam({ name: 'id', description: 'Payer invoice ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Claim report retrieved successfully',
+    type: ClaimReportResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payer invoice not found' })
+  async getClaimReport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ClaimReportResponseDto> {
+    const invoice = await this.payerInvoiceService.findOne(id);
+    await this.ensureUserCanManageSchool(user, invoice.schoolId);
+    return this.payerInvoiceService.getClaimReport(invoice);
+  }
+
+  @Post(':id/payments')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Record a payment from the payer',
+    description: 'The invoice is marked paid once payments cover it.',
+  })
+  @ApiParam({ name: 'id', description: 'Payer invoice ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment recorded',
+    type: PayerInvoiceResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Payment exceeds the balance' })
+  @ApiNotFoundResponse({ description: 'Payer invoice not found' })
+  async recordPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RecordPayerPaymentDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PayerInvoiceResponseDto> {
+    const invoice = await this.payerInvoiceService.findOne(id);
+    await this.ensureUserCanManageSchool(user, invoice.schoolId);
+    return this.payerInvoiceService.recordPayment(invoice, dto);
+  }
+}
@@ -0,0 +1,522 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { PayerInvoice } from './entities/payer-invoice.entity';
+import { PayerCharge } from './entities/payer-charge.entity';
+import { PayerAccount } from './entities/payer-account.entity';
+import { EnrollmentPayer } from './entities/enrollment-payer.entity';
+import {
+  ClaimReportChildDto,
+  ClaimReportResponseDto,
+  GeneratePayerInvoicesResultDto,
+  PayerChargeResponseDto,
+  PayerInvoiceQueryDto,
+  PayerInvoiceResponseDto,
+  RecordPayerPaymentDto,
+} from './dto/payer-invoice.dto';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { Student } from '../students/entities/student.entity';
+import {
+  AttendanceStatus,
+  StudentAttendance,
+} from '../students/entities/student-attendance.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import {
+  DAY_MS,
+  toUtcDay,
+  toDateKey,
+  toColumnDate,
+} from '../../common/utils/date.util';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Bills payers for their shares of tuition. The charges of tuition periods
+ * starting in a calendar month go on one invoice per payer for that month;
+ * charges recorded after the invoice was generated are added to it the
+ * next time the month is generated. Claim reports back each invoice with
+ * the children's attendance over the periods claimed.
+ */
+@Injectable()
+export class PayerInvoiceService {
+  private readonly logger = new Logger(PayerInvoiceService.name);
+
+  constructor(
+    @InjectRepository(PayerInvoice)
+    private readonly invoiceRepository: Repository<PayerInvoice>,
+    @InjectRepository(PayerCharge)
+    private readonly chargeRepository: Repository<PayerCharge>,
+    @InjectRepository(PayerAccount)
+    private readonly accountRepository: Repository<PayerAccount>,
+    @InjectRepository(EnrollmentPayer)
+    private readonly enrollmentPayerRepository: Repository<EnrollmentPayer>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+    @InjectRepository(StudentAttendance)
+    private readonly attendanceRepository: Repository<StudentAttendance>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Invoice every payer with unbilled charges for tuition periods starting
+   * in the month
+   */
+  async generate(
+    schoolId: string,
+    year: number,
+    month: number,
+    payerAccountId?: string,
+  ): Promise<GeneratePayerInvoicesResultDto> {
+    const periodStart = toDateKey(Date.UTC(year, month - 1, 1));
+    const periodEnd = toDateKey(Date.UTC(year, month, 0));
+
+    const query = this.chargeRepository
+      .createQueryBuilder('charge')
+      .where('charge.school_id = :schoolId', { schoolId })
+      .andWhere('charge.payer_invoice_id IS NULL')
+      .andWhere('charge.period_start BETWEEN :periodStart AND :periodEnd', {
+        periodStart,
+        periodEnd,
+      });
+    if (payerAccountId) {
+      query.andWhere('charge.payer_account_id = :payerAccountId', {
+        payerAccountId,
+      });
+    }
+    const charges = await query.getMany();
+
+    const chargesByPayer = new Map<string, PayerCharge[]>();
+    for (const charge of charges) {
+      chargesByPayer.set(charge.payerAccountId, [
+        ...(chargesByPayer.get(charge.payerAccountId) ?? []),
+        charge,
+      ]);
+    }
+    const accounts = chargesByPayer.size
+      ? await this.accountRepository.find({
+          where: { id: In([...chargesByPayer.keys()]) },
+        })
+      : [];
+
+    const result: GeneratePayerInvoicesResultDto = {
+      periodStart,
+      periodEnd,
+      invoicesCreated: 0,
+      invoicesUpdated: 0,
+      chargesBilled: 0,
+      totalAmount: 0,
+    };
+
+    for (const account of accounts) {
+      const payerCharges = chargesByPayer.get(account.id)!;
+      const billed = await this.billCharges(
+        account,
+        periodStart,
+        periodEnd,
+        payerCharges,
+      );
+      if (!billed) {
+        continue;
+      }
+      if (billed.created) {
+        result.invoicesCreated += 1;
+      } else {
+        result.invoicesUpdated += 1;
+      }
+      result.chargesBilled += billed.charges;
+      result.totalAmount += billed.amount;
+    }
+
+    if (result.chargesBilled > 0) {
+      this.logger.log(
+        `Billed ${result.chargesBilled} payer charges of school ${schoolId} for ${periodStart}`,
+      );
+    }
+    return result;
+  }
+
+  async findAll(
+    schoolId: string,
+    query: PayerInvoiceQueryDto,
+  ): Promise<{ data: PayerInvoiceResponseDto[]; total: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const [invoices, total] = await this.invoiceRepository.findAndCount({
+      where: {
+        schoolId,
+        ...(query.payerAccountId
+          ? { payerAccountId: query.payerAccountId }
+          : {}),
+        ...(query.status ? { status: query.status } : {}),
+      },
+      relations: ['payerAccount'],
+      order: { periodStart: 'DESC', createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: invoices.map((invoice) => this.mapToResponseDto(invoice)),
+      total,
+    };
+  }
+
+  async findOne(id: string): Promise<PayerInvoice> {
+    const invoice = await this.invoiceRepository.findOne({
+      where: { id },
+      relations: ['payerAccount'],
+    });
+    if (!invoice) {
+      throw new NotFoundException(`Payer invoice with ID "${id}" not found`);
+    }
+    return invoice;
+  }
+
+  async getWithCharges(
+    invoice: PayerInvoice,
+  ): Promise<PayerInvoiceResponseDto> {
+    const charges = await this.findCharges(invoice);
+    return this.mapToResponseDto(invoice, charges);
+  }
+
+  /**
+   * Record money received from the payer. The invoice is paid once the
+   * payments cover it.
+   */
+  async recordPayment(
+    invoice: PayerInvoice,
+    dto: RecordPayerPaymentDto,
+  ): Promise<PayerInvoiceResponseDto> {
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const locked = await manager.findOneOrFail(PayerInvoice, {
+        where: { id: invoice.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const balance = locked.amount - locked.paidAmount;
+      if (dto.amount > balance) {
+        throw new BadRequestException(
+          `Payment exceeds the balance of ${balance} cents on invoice ${locked.invoiceNumber}`,
+        );
+      }
+
+      locked.paidAmount += dto.amount;
+      locked.paymentDate = dto.paymentDate
+        ? new Date(dto.paymentDate)
+        : new Date();
+      if (dto.reference) {
+        locked.paymentReference = locked.paymentReference
+          ? `${locked.paymentReference}; ${dto.reference}`
+          : dto.reference;
+      }
+      locked.status =
+        locked.paidAmount >= locked.amount
+          ? PaymentStatus.PAID
+          : PaymentStatus.PENDING;
+      return manager.save(locked);
+    });
+
+    this.logger.log(
+      `Recorded payment of ${dto.amount} cents on payer invoice ${saved.invoiceNumber}`,
+    );
+    saved.payerAccount = invoice.payerAccount;
+    return this.getWithCharges(saved);
+  }
+
+  /**
+   * The children claimed on the invoice with their attendance over the
+   * tuition periods claimed, for agencies that pay by attendance
+   */
+  async getClaimReport(invoice: PayerInvoice): Promise<ClaimReportResponseDto> {
+    const [charges, school] = await Promise.all([
+      this.findCharges(invoice),
+      this.schoolRepository.findOne({ where: { id: invoice.schoolId } }),
+    ]);
+    const enrollmentIds = [
+      ...new Set(charges.map((charge) => charge.enrollmentId)),
+    ];
+    const [enrollments, payers] = enrollmentIds.length
+      ? await Promise.all([
+          this.enrollmentRepository.find({
+            where: { id: In(enrollmentIds) },
+            relations: ['lead'],
+          }),
+          this.enrollmentPayerRepository.find({
+            where: {
+              payerAccountId: invoice.payerAccountId,
+              enrollmentId: In(enrollmentIds),
+            },
+            order: { createdAt: 'ASC' },
+          }),
+        ])
+      : [[], []];
+    const studentIds = await this.matchStudents(enrollments);
+    const attendance = await this.findAttendance(
+      [...new Set(studentIds.values())],
+      charges,
+    );
+
+    const children = new Map<string, ClaimReportChildDto>();
+    for (const charge of charges) {
+      const studentId = studentIds.get(charge.enrollmentId) ?? null;
+      const child = children.get(charge.enrollmentId) ?? {
+        enrollmentId: charge.enrollmentId,
+        studentId,
+        childName: charge.childName,
+        program: charge.program,
+        authorizationNumber:
+          payers.find((payer) => payer.enrollmentId === charge.enrollmentId)
+            ?.authorizationNumber ?? null,
+        servicePeriods: [],
+        amount: 0,
+        daysAttended: 0,
+        daysAbsent: 0,
+        daysExcused: 0,
+        attendedDates: [],
+      };
+      children.set(charge.enrollmentId, child);
+
+      const start = toDateKey(charge.periodStart);
+      const end = toDateKey(charge.periodEnd);
+      child.servicePeriods.push(`${start} to ${end}`);
+      child.amount += charge.amount;
+
+      for (const record of attendance.get(studentId ?? '') ?? []) {
+        const date = toDateKey(record.date);
+        if (date < start || date > end) {
+          continue;
+        }
+        if (
+          record.status === AttendanceStatus.PRESENT ||
+          record.status === AttendanceStatus.LATE
+        ) {
+          child.daysAttended += 1;
+          child.attendedDates.push(date);
+        } else if (record.status === AttendanceStatus.ABSENT) {
+          child.daysAbsent += 1;
+        } else {
+          child.daysExcused += 1;
+        }
+      }
+    }
+
+    return {
+      payerInvoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      payerName: invoice.payerAccount?.name ?? '',
+      providerNumber: invoice.payerAccount?.providerNumber ?? null,
+      schoolName: school?.name ?? '',
+      periodStart: toDateKey(invoice.periodStart),
+      periodEnd: toDateKey(invoice.periodEnd),
+      totalAmount: invoice.amount,
+      children: [...children.values()].sort((a, b) =>
+        (a.childName ?? '').localeCompare(b.childName ?? ''),
+      ),
+    };
+  }
+
+  /**
+   * Put the charges on the payer's invoice for the month, creating it if
+   * needed. Only charges still unbilled when the invoice is locked are
+   * added, so overlapping runs cannot bill a charge twice. Returns null
+   * when another run billed them all first.
+   */
+  private async billCharges(
+    account: PayerAccount,
+    periodStart: string,
+    periodEnd: string,
+    charges: PayerCharge[],
+  ): Promise<{ created: boolean; charges: number; amount: number } | null> {
+    return this.dataSource.transaction(async (manager) => {
+      let invoice = await manager.findOne(PayerInvoice, {
+        where: {
+          payerAccountId: account.id,
+          periodStart: toColumnDate(periodStart),
+        },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const created = !invoice;
+
+      if (!invoice) {
+        const today = toUtcDay(new Date());
+        invoice = await manager.save(
+          manager.create(PayerInvoice, {
+            invoiceNumber: `AGY-${periodStart.slice(0, 7).replace('-', '')}-${account.id.slice(0, 8).toUpperCase()}`,
+            payerAccountId: account.id,
+            schoolId: account.schoolId,
+            periodStart: toColumnDate(periodStart),
+            periodEnd: toColumnDate(periodEnd),
+            amount: 0,
+            paidAmount: 0,
+            dueDate: toColumnDate(
+              toDateKey(today + account.paymentTermsDays * DAY_MS),
+            ),
+          }),
+        );
+      }
+
+      const result = await manager
+        .createQueryBuilder()
+        .update(PayerCharge)
+        .set({ payerInvoiceId: invoice.id })
+        .where('id IN (:...ids)', { ids: charges.map((charge) => charge.id) })
+        .andWhere('payer_invoice_id IS NULL')
+        .returning(['amount'])
+        .execute();
+      const rows = result.raw as Array<{ amount: number }>;
+      if (rows.length === 0) {
+        if (created) {
+          await manager.delete(PayerInvoice, invoice.id);
+        }
+        return null;
+      }
+
+      const amount = rows.reduce((sum, row) => sum + row.amount, 0);
+      invoice.amount += amount;
+      // Charges added after the payer paid reopen the invoice
+      invoice.status =
+        invoice.paidAmount >= invoice.amount
+          ? PaymentStatus.PAID
+          : PaymentStatus.PENDING;
+      await manager.save(invoice);
+      return { created, charges: rows.length, amount };
+    });
+  }
+
+  private async findCharges(invoice: PayerInvoice): Promise<PayerCharge[]> {
+    return this.chargeRepository.find({
+      where: { payerInvoiceId: invoice.id },
+      order: { periodStart: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Match enrollments to students the way enrollment creates them: by
+   * school, parent email and the child's first name
+   */
+  private async matchStudents(
+    enrollments: EnrollmentEntity[],
+  ): Promise<Map<string, string>> {
+    const emailOf = (enrollment: EnrollmentEntity): string | null =>
+      enrollment.lead?.parentEmail?.trim().toLowerCase() || null;
+    const emails = [
+      ...new Set(enrollments.map(emailOf).filter((email) => !!email)),
+    ] as string[];
+    if (emails.length === 0) {
+      return new Map();
+    }
+
+    const students = await this.studentRepository
+      .createQueryBuilder('student')
+      .where('student.school_id IN (:...schoolIds)', {
+        schoolIds: [...new Set(enrollments.map((e) => e.schoolId))],
+      })
+      .andWhere('LOWER(student.parent_email) IN (:...emails)', { emails })
+      .getMany();
+    const studentByChild = new Map(
+      students.map((student) => [
+        `${student.schoolId}:${student.parentEmail!.toLowerCase()}:${student.firstName.toLowerCase()}`,
+        student.id,
+      ]),
+    );
+
+    const studentIds = new Map<string, string>();
+    for (const enrollment of enrollments) {
+      const email = emailOf(enrollment);
+      const firstName = enrollment.lead?.childName?.trim().split(/\s+/)[0];
+      const studentId =
+        email && firstName
+          ? studentByChild.get(
+              `${enrollment.schoolId}:${email}:${firstName.toLowerCase()}`,
+            )
+          : undefined;
+      if (studentId) {
+        studentIds.set(enrollment.id, studentId);
+      }
+    }
+    return studentIds;
+  }
+
+  private async findAttendance(
+    studentIds: string[],
+    charges: PayerCharge[],
+  ): Promise<Map<string, StudentAttendance[]>> {
+    if (studentIds.length === 0 || charges.length === 0) {
+      return new Map();
+    }
+
+    const starts = charges.map((charge) => toUtcDay(charge.periodStart));
+    const ends = charges.map((charge) => toUtcDay(charge.periodEnd));
+    const records = await this.attendanceRepository
+      .createQueryBuilder('attendance')
+      .where('attendance.student_id IN (:...studentIds)', { studentIds })
+      .andWhere('attendance.date BETWEEN :from AND :to', {
+        from: toDateKey(Math.min(...starts)),
+        to: toDateKey(Math.max(...ends)),
+      })
+      .orderBy('attendance.date', 'ASC')
+      .getMany();
+
+    const byStudent = new Map<string, StudentAttendance[]>();
+    for (const record of records) {
+      byStudent.set(record.studentId, [
+        ...(byStudent.get(record.studentId) ?? []),
+        record,
+      ]);
+    }
+    return byStudent;
+  }
+
+  private mapChargeToResponseDto(charge: PayerCharge): PayerChargeResponseDto {
+    return {
+      id: charge.id,
+      enrollmentId: charge.enrollmentId,
+      invoiceId: charge.invoiceId,
+      childName: charge.childName,
+      program: charge.program,
+      periodStart: toDateKey(charge.periodStart),
+      periodEnd: toDateKey(charge.periodEnd),
+      amount: charge.amount,
+    };
+  }
+
+  private mapToResponseDto(
+    invoice: PayerInvoice,
+    charges?: PayerCharge[],
+  ): PayerInvoiceResponseDto {
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      payerAccountId: invoice.payerAccountId,
+      payerName: invoice.payerAccount?.name ?? null,
+      schoolId: invoice.schoolId,
+      periodStart: toDateKey(invoice.periodStart),
+      periodEnd: toDateKey(invoice.periodEnd),
+      amount: invoice.amount,
+      paidAmount: invoice.paidAmount,
+      status: invoice.status,
+      dueDate: toDateKey(invoice.dueDate),
+      paymentDate: invoice.paymentDate,
+      paymentReference: invoice.paymentReference,
+      notes: invoice.notes,
+      ...(charges
+        ? {
+            charges: charges.map((charge) =>
+              this.mapChargeToResponseDto(charge),
+            ),
+          }
+        : {}),
+      createdAt: invoice.createdAt,
+    };
+  }
+}
@@ -0,0 +1,432 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { PayerAccount } from './entities/payer-account.entity';
+import {
+  EnrollmentPayer,
+  PayerSplitType,
+} from './entities/enrollment-payer.entity';
+import { PayerCharge } from './entities/payer-charge.entity';
+import {
+  CreateEnrollmentPayerDto,
+  CreatePayerAccountDto,
+  EnrollmentPayerResponseDto,
+  PayerAccountQueryDto,
+  PayerAccountResponseDto,
+  UpdateEnrollmentPayerDto,
+  UpdatePayerAccountDto,
+} from './dto/payer.dto';
+import {
+  TuitionInvoiceLineDto,
+  TuitionInvoiceLineStatus,
+} from './dto/tuition-billing.dto';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import {
+  toUtcDay,
+  toDateKey,
+  toColumnDate,
+} from '../../common/utils/date.util';
+
+/** Category of the negative invoice items for shares billed to payers */
+export const PAYER_SHARE_ITEM_CATEGORY = 'payer_share';
+
+/**
+ * Third-party payers, such as subsidy agencies and employers, and their
+ * shares of enrollments' tuition. When tuition is invoiced each payer's
+ * share comes off the family invoice as a negative item and is recorded as
+ * a charge the payer is billed for.
+ */
+@Injectable()
+export class PayerService {
+  private readonly logger = new Logger(PayerService.name);
+
+  constructor(
+    @InjectRepository(PayerAccount)
+    private readonly accountRepository: Repository<PayerAccount>,
+    @InjectRepository(EnrollmentPayer)
+    private readonly enrollmentPayerRepository: Repository<EnrollmentPayer>,
+    @InjectRepository(PayerCharge)
+    private readonly chargeRepository: Repository<PayerCharge>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+  ) {}
+
+  async findAll(
+    schoolId: string,
+    query: PayerAccountQueryDto = {},
+  ): Promise<{ data: PayerAccountResponseDto[]; total: number }> {
+    const accounts = await this.accountRepository.find({
+      where: {
+        schoolId,
+        ...(query.payerType ? { payerType: query.payerType } : {}),
+        ...(query.active !== undefined ? { active: query.active } : {}),
+      },
+      order: { name: 'ASC' },
+    });
+    const enrollments = await this.countEnrollments(
+      accounts.map((account) => account.id),
+    );
+
+    return {
+      data: accounts.map((account) =>
+        this.mapAccountToResponseDto(account, enrollments.get(account.id) ?? 0),
+      ),
+      total: accounts.length,
+    };
+  }
+
+  async findAccount(id: string): Promise<PayerAccount> {
+    const account = await this.accountRepository.findOne({ where: { id } });
+    if (!account) {
+      throw new NotFoundException(`Payer account with ID "${id}" not found`);
+    }
+    return account;
+  }
+
+  async getAccount(account: PayerAccount): Promise<PayerAccountResponseDto> {
+    const enrollments = await this.countEnrollments([account.id]);
+    return this.mapAccountToResponseDto(
+      account,
+      enrollments.get(account.id) ?? 0,
+    );
+  }
+
+  async createAccount(
+    schoolId: string,
+    dto: CreatePayerAccountDto,
+  ): Promise<PayerAccountResponseDto> {
+    const account = this.accountRepository.create({
+      schoolId,
+      name: dto.name,
+      payerType: dto.payerType,
+    });
+    this.assignAccount(account, dto);
+
+    const saved = await this.accountRepository.save(account);
+    this.logger.log(
+      `Created ${saved.payerType} payer account ${saved.id} for school ${schoolId}`,
+    );
+    return this.mapAccountToResponseDto(saved, 0);
+  }
+
+  async updateAccount(
+    account: PayerAccount,
+    dto: UpdatePayerAccountDto,
+  ): Promise<PayerAccountResponseDto> {
+    this.assignAccount(account, dto);
+    const saved = await this.accountRepository.save(account);
+    return this.getAccount(saved);
+  }
+
+  /**
+   * Payers that have been billed keep their history; deactivate them instead
+   */
+  async removeAccount(account: PayerAccount): Promise<void> {
+    const charges = await this.chargeRepository.count({
+      where: { payerAccountId: account.id },
+    });
+    if (charges > 0) {
+      throw new ConflictException(
+        'This payer has been billed for tuition; deactivate it instead',
+      );
+    }
+    await this.accountRepository.remove(account);
+    this.logger.log(`Removed payer account ${account.id}`);
+  }
+
+  async findEnrollmentPayers(
+    account: PayerAccount,
+  ): Promise<EnrollmentPayerResponseDto[]> {
+    const payers = await this.enrollmentPayerRepository.find({
+      where: { payerAccountId: account.id },
+      relations: ['enrollment', 'enrollment.lead'],
+      order: { createdAt: 'ASC' },
+    });
+    return payers.map((payer) => this.mapEnrollmentPayerToResponseDto(payer));
+  }
+
+  async findEnrollmentPayer(id: string): Promise<EnrollmentPayer> {
+    const payer = await this.enrollmentPayerRepository.findOne({
+      where: { id },
+      relations: ['enrollment', 'enrollment.lead'],
+    });
+    if (!payer) {
+      throw new NotFoundException(`Enrollment payer with ID "${id}" not found`);
+    }
+    return payer;
+  }
+
+  /**
+   * Attach the payer to an enrollment. The split applies from the next
+   * tuition invoice.
+   */
+  async addEnrollmentPayer(
+    account: PayerAccount,
+    dto: CreateEnrollmentPayerDto,
+  ): Promise<EnrollmentPayerResponseDto> {
+    const enrollment = await this.enrollmentRepository.findOne({
+      where: { id: dto.enrollmentId },
+      relations: ['lead'],
+    });
+    if (!enrollment) {
+      throw new NotFoundException(
+        `Enrollment with ID "${dto.enrollmentId}" not found`,
+      );
+    }
+    if (enrollment.schoolId !== account.schoolId) {
+      throw new BadRequestException(
+        'The enrollment is at a different school than the payer',
+      );
+    }
+
+    const payer = this.enrollmentPayerRepository.create({
+      payerAccountId: account.id,
+      enrollmentId: enrollment.id,
+      schoolId: account.schoolId,
+      splitType: dto.splitType,
+    });
+    this.assignEnrollmentPayer(payer, dto);
+    this.validateEnrollmentPayer(payer);
+
+    const saved = await this.enrollmentPayerRepository.save(payer);
+    saved.enrollment = enrollment;
+    this.logger.log(
+      `Payer ${account.id} now covers part of enrollment ${enrollment.id}`,
+    );
+    return this.mapEnrollmentPayerToResponseDto(saved);
+  }
+
+  async updateEnrollmentPayer(
+    payer: EnrollmentPayer,
+    dto: UpdateEnrollmentPayerDto,
+  ): Promise<EnrollmentPayerResponseDto> {
+    this.assignEnrollmentPayer(payer, dto);
+    this.validateEnrollmentPayer(payer);
+    const saved = await this.enrollmentPayerRepository.save(payer);
+    return this.mapEnrollmentPayerToResponseDto(saved);
+  }
+
+  /**
+   * Invoices already issued keep their payer shares and charges
+   */
+  async removeEnrollmentPayer(payer: EnrollmentPayer): Promise<void> {
+    const charges = await this.chargeRepository.count({
+      where: { enrollmentPayerId: payer.id },
+    });
+    if (charges > 0) {
+      throw new ConflictException(
+        'This split has been billed for tuition; deactivate it instead',
+      );
+    }
+    await this.enrollmentPayerRepository.remove(payer);
+    this.logger.log(`Removed enrollment payer ${payer.id}`);
+  }
+
+  /**
+   * Work out the payer shares of each line still to be invoiced, after its
+   * discounts. Sets the line's payer shares and lowers its amount by their
+   * total; shares never add up to more than the discounted tuition.
+   */
+  async applySplits(lines: TuitionInvoiceLineDto[]): Promise<void> {
+    const pending = lines.filter(
+      (line) => line.status !== TuitionInvoiceLineStatus.ALREADY_BILLED,
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    const payers = await this.enrollmentPayerRepository.find({
+      where: {
+        enrollmentId: In([
+          ...new Set(pending.map((line) => line.enrollmentId)),
+        ]),
+        active: true,
+        payerAccount: { active: true },
+      },
+      relations: ['payerAccount'],
+      order: { createdAt: 'ASC' },
+    });
+    if (payers.length === 0) {
+      return;
+    }
+
+    for (const line of pending) {
+      const periodStart = toUtcDay(line.periodStart);
+      const discounted = line.amount;
+      let remaining = discounted;
+
+      for (const payer of payers) {
+        if (
+          payer.enrollmentId !== line.enrollmentId ||
+          (payer.validFrom && toUtcDay(payer.validFrom) > periodStart) ||
+          (payer.validUntil && toUtcDay(payer.validUntil) < periodStart)
+        ) {
+          continue;
+        }
+
+        const share =
+          payer.splitType === PayerSplitType.PERCENTAGE
+            ? Math.round((discounted * Number(payer.percentage)) / 100)
+            : // A fixed share is prorated like the tuition it pays for
+              Math.round(
+                (payer.fixedAmount * line.billedDays) / line.periodDays,
+              );
+        const amount = Math.min(share, remaining);
+        if (amount <= 0) {
+          continue;
+        }
+
+        line.payerShares.push({
+          enrollmentPayerId: payer.id,
+          payerAccountId: payer.payerAccountId,
+          payerName: payer.payerAccount.name,
+          amount,
+        });
+        remaining -= amount;
+      }
+      line.amount = remaining;
+    }
+  }
+
+  private async countEnrollments(
+    accountIds: string[],
+  ): Promise<Map<string, number>> {
+    if (accountIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.enrollmentPayerRepository
+      .createQueryBuilder('payer')
+      .select('payer.payer_account_id', 'payerAccountId')
+      .addSelect('COUNT(*)', 'count')
+      .where('payer.payer_account_id IN (:...accountIds)', { accountIds })
+      .andWhere('payer.active = true')
+      .groupBy('payer.payer_account_id')
+      .getRawMany<{ payerAccountId: string; count: string }>();
+    return new Map(rows.map((row) => [row.payerAccountId, Number(row.count)]));
+  }
+
+  private assignAccount(
+    account: PayerAccount,
+    dto: CreatePayerAccountDto | UpdatePayerAccountDto,
+  ): void {
+    Object.assign(account, {
+      name: dto.name ?? account.name,
+      payerType: dto.payerType ?? account.payerType,
+      contactName:
+        dto.contactName !== undefined
+          ? dto.contactName
+          : (account.contactName ?? null),
+      email:
+        dto.email !== undefined
+          ? (dto.email?.trim().toLowerCase() ?? null)
+          : (account.email ?? null),
+      phone: dto.phone !== undefined ? dto.phone : (account.phone ?? null),
+      address:
+        dto.address !== undefined ? dto.address : (account.address ?? null),
+      providerNumber:
+        dto.providerNumber !== undefined
+          ? dto.providerNumber
+          : (account.providerNumber ?? null),
+      paymentTermsDays: dto.paymentTermsDays ?? account.paymentTermsDays ?? 30,
+      active: dto.active ?? account.active ?? true,
+    });
+  }
+
+  private assignEnrollmentPayer(
+    payer: EnrollmentPayer,
+    dto: CreateEnrollmentPayerDto | UpdateEnrollmentPayerDto,
+  ): void {
+    const dates: Partial<EnrollmentPayer> = {};
+    if (dto.validFrom !== undefined) {
+      dates.validFrom = dto.validFrom ? toColumnDate(dto.validFrom) : null;
+    }
+    if (dto.validUntil !== undefined) {
+      dates.validUntil = dto.validUntil ? toColumnDate(dto.validUntil) : null;
+    }
+
+    Object.assign(payer, {
+      splitType: dto.splitType ?? payer.splitType,
+      percentage: dto.percentage ?? payer.percentage ?? 0,
+      fixedAmount: dto.fixedAmount ?? payer.fixedAmount ?? 0,
+      authorizationNumber:
+        dto.authorizationNumber !== undefined
+          ? dto.authorizationNumber
+          : (payer.authorizationNumber ?? null),
+      active: dto.active ?? payer.active ?? true,
+      validFrom: payer.validFrom ?? null,
+      validUntil: payer.validUntil ?? null,
+      ...dates,
+    });
+  }
+
+  private validateEnrollmentPayer(payer: EnrollmentPayer): void {
+    if (
+      payer.splitType === PayerSplitType.PERCENTAGE &&
+      Number(payer.percentage) <= 0
+    ) {
+      throw new BadRequestException(
+        'percentage must be greater than 0 for percentage splits',
+      );
+    }
+    if (payer.splitType === PayerSplitType.FIXED && payer.fixedAmount <= 0) {
+      throw new BadRequestException(
+        'fixedAmount must be greater than 0 for fixed splits',
+      );
+    }
+    if (
+      payer.validFrom &&
+      payer.validUntil &&
+      toUtcDay(payer.validUntil) < toUtcDay(payer.validFrom)
+    ) {
+      throw new BadRequestException('validUntil must not be before validFrom');
+    }
+  }
+
+  private mapAccountToResponseDto(
+    account: PayerAccount,
+    enrollments: number,
+  ): PayerAccountResponseDto {
+    return {
+      id: account.id,
+      schoolId: account.schoolId,
+      name: account.name,
+      payerType: account.payerType,
+      contactName: account.contactName,
+      email: account.email,
+      phone: account.phone,
+      address: account.address,
+      providerNumber: account.providerNumber,
+      paymentTermsDays: account.paymentTermsDays,
+      active: account.active,
+      enrollments,
+      createdAt: account.createdAt,
+    };
+  }
+
+  private mapEnrollmentPayerToResponseDto(
+    payer: EnrollmentPayer,
+  ): EnrollmentPayerResponseDto {
+    return {
+      id: payer.id,
+      payerAccountId: payer.payerAccountId,
+      enrollmentId: payer.enrollmentId,
+      childName: payer.enrollment?.lead?.childName ?? null,
+      program: payer.enrollment?.program ?? null,
+      splitType: payer.splitType,
+      percentage: Number(payer.percentage),
+      fixedAmount: payer.fixedAmount,
+      authorizationNumber: payer.authorizationNumber,
+      active: payer.active,
+      validFrom: payer.validFrom ? toDateKey(payer.validFrom) : null,
+      validUntil: payer.validUntil ? toDateKey(payer.validUntil) : null,
+      createdAt: payer.createdAt,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TuitionBillingService } from './tuition-billing.service';
+import {
+  TuitionBillingRunDto,
+  TuitionBillingRunResponseDto,
+} from './dto/tuition-billing.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Tuition Billing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('tuition-billing')
+export class TuitionBillingController {
+  constructor(
+    private readonly tuitionBillingService: TuitionBillingService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException('You can only bill your own school');
+    }
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Preview a tuition billing run',
+    description:
+      'Lists the tuition invoices a run would create for the billing periods containing the billing date, with prorated amounts, without saving anything. Periods invoiced before are listed as already_billed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing run previewed',
+    type: TuitionBillingRunResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async preview(
+    @Body() dto: TuitionBillingRunDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<TuitionBillingRunResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+
+    return this.tuitionBillingService.run({
+      schoolId,
+      billingDate: dto.billingDate ? new Date(dto.billingDate) : undefined,
+      preview: true,
+    });
+  }
+
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Run tuition billing',
+    description:
+      'Creates the tuition invoices shown by the preview. Safe to repeat: a period already invoiced for an enrollment is never billed again. The same run happens automatically every morning.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing run completed',
+    type: TuitionBillingRunResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async run(
+    @Body() dto: TuitionBillingRunDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<TuitionBillingRunResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+
+    return this.tuitionBillingService.run({
+      schoolId,
+      billingDate: dto.billingDate ? new Date(dto.billingDate) : undefined,
+      createdBy: user.id,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { TuitionBillingService } from './tuition-billing.service';
+import {
+  GENERATE_TUITION_INVOICES_JOB,
+  TUITION_BILLING_QUEUE,
+} from './invoices.constants';
+
+const BILLING_CRON = '0 6 * * *';
+
+/**
+ * Invoices the current billing period of every school's enrollments each
+ * morning. Periods invoiced before are skipped, so only new periods and
+ * new enrollments produce invoices.
+ */
+@Processor(TUITION_BILLING_QUEUE)
+export class TuitionBillingProcessor implements OnModuleInit {
+  private readonly logger = new Logger(TuitionBillingProcessor.name);
+
+  constructor(
+    @InjectQueue(TUITION_BILLING_QUEUE)
+    private readonly billingQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly tuitionBillingService: TuitionBillingService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.billingQueue,
+      GENERATE_TUITION_INVOICES_JOB,
+      { cron: BILLING_CRON },
+    );
+  }
+
+  @Process(GENERATE_TUITION_INVOICES_JOB)
+  async generateInvoices(): Promise<{
+    invoicesCreated: number;
+    totalAmount: number;
+  }> {
+    const { invoicesCreated, totalAmount } =
+      await this.tuitionBillingService.run();
+    if (invoicesCreated > 0) {
+      this.logger.log(`Generated ${invoicesCreated} tuition invoices`);
+    }
+    return { invoicesCreated, totalAmount };
+  }
+}
@@ -0,0 +1,313 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { TuitionBillingService } from './tuition-billing.service';
+import { Invoice } from './entities/invoice.entity';
+import {
+  BillingCycle,
+  EnrollmentEntity,
+  EnrollmentStatus,
+} from '../enrollment/entities/enrollment.entity';
+import { DiscountService } from './discount.service';
+import { PayerService } from './payer.service';
+import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { TuitionInvoiceLineStatus } from './dto/tuition-billing.dto';
+
+function queryBuilder(result: unknown[]) {
+  const builder = {
+    select: () => builder,
+    leftJoinAndSelect: () => builder,
+    where: () => builder,
+    andWhere: () => builder,
+    orderBy: () => builder,
+    getMany: jest.fn().mockResolvedValue(result),
+  };
+  return builder;
+}
+
+function makeEnrollment(
+  overrides: Partial<EnrollmentEntity> = {},
+): EnrollmentEntity {
+  return {
+    id: 'a1b2c3d4-0000-4000-8000-000000000001',
+    leadId: 'lead-1',
+    schoolId: 'school-1',
+    program: 'Preschool',
+    status: EnrollmentStatus.ACTIVE,
+    startDate: new Date('2026-01-05T00:00:00Z'),
+    endDate: null,
+    tuitionAmount: 1200,
+    billingCycle: BillingCycle.MONTHLY,
+    lead: { childName: 'Ava' },
+    ...overrides,
+  } as EnrollmentEntity;
+}
+
+describe('TuitionBillingService', () => {
+  let service: TuitionBillingService;
+  let enrollments: EnrollmentEntity[];
+  let existingInvoices: Partial<Invoice>[];
+  const transaction = jest.fn();
+  const emit = jest.fn();
+
+  beforeEach(async () => {
+    enrollments = [];
+    existingInvoices = [];
+    transaction.mockReset();
+    emit.mockReset();
+
+    const manager = {
+      create: (_entity: unknown, data: object) => ({ ...data }),
+      save: (entity: object) =>
+        Promise.resolve({ id: 'invoice-new', ...entity }),
+    };
+    transaction.mockImplementation(
+      (work: (entityManager: typeof manager) => Promise<string>) =>
+        work(manager),
+    );
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TuitionBillingService,
+        {
+          provide: getRepositoryToken(Invoice),
+          useValue: {
+            createQueryBuilder: () => queryBuilder(existingInvoices),
+          },
+        },
+        {
+          provide: getRepositoryToken(EnrollmentEntity),
+          useValue: { createQueryBuilder: () => queryBuilder(enrollments) },
+        },
+        { provide: DataSource, useValue: { transaction } },
+        {
+          provide: RealtimeGateway,
+          useValue: { emitInvoiceStatsChange: jest.fn() },
+        },
+        { provide: EventEmitter2, useValue: { emit } },
+        {
+          provide: DiscountService,
+          useValue: { applyDiscounts: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: PayerService,
+          useValue: { applySplits: jest.fn().mockResolvedValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TuitionBillingService);
+  });
+
+  describe('proration', () => {
+    it('bills a full month at the full tuition', async () => {
+      enrollments = [makeEnrollment()];
+
+      const result = await service.run({
+        billingDate: new Date('2026-03-01T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines[0]).toMatchObject({
+        periodStart: '2026-03-01',
+        periodEnd: '2026-03-31',
+        billedDays: 31,
+        periodDays: 31,
+        prorated: false,
+        amount: 120000,
+        dueDate: '2026-03-08',
+      });
+    });
+
+    it('prorates a month the child starts partway through', async () => {
+      enrollments = [
+        makeEnrollment({ startDate: new Date('2026-03-16T00:00:00Z') }),
+      ];
+
+      const result = await service.run({
+        billingDate: new Date('2026-03-01T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines[0]).toMatchObject({
+        billedDays: 16,
+        periodDays: 31,
+        prorated: true,
+        amount: Math.round((120000 * 16) / 31),
+      });
+    });
+
+    it('prorates the final period of a withdrawn enrollment', async () => {
+      enrollments = [
+        makeEnrollment({
+          status: EnrollmentStatus.WITHDRAWN,
+          endDate: new Date('2026-02-10T00:00:00Z'),
+        }),
+      ];
+
+      const result = await service.run({
+        billingDate: new Date('2026-02-01T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines[0]).toMatchObject({
+        periodStart: '2026-02-01',
+        periodEnd: '2026-02-28',
+        billedDays: 10,
+        periodDays: 28,
+        amount: Math.round((120000 * 10) / 28),
+      });
+    });
+
+    it('skips enrollments that start after the period', async () => {
+      enrollments = [
+        makeEnrollment({ startDate: new Date('2026-04-01T00:00:00Z') }),
+      ];
+
+      const result = await service.run({
+        billingDate: new Date('2026-03-01T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines).toHaveLength(0);
+    });
+
+    it('bills weekly tuition Monday to Sunday', async () => {
+      enrollments = [
+        makeEnrollment({
+          billingCycle: BillingCycle.WEEKLY,
+          tuitionAmount: 300,
+          startDate: new Date('2026-03-19T00:00:00Z'),
+        }),
+      ];
+
+      const result = await service.run({
+        billingDate: new Date('2026-03-18T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines[0]).toMatchObject({
+        periodStart: '2026-03-16',
+        periodEnd: '2026-03-22',
+        billedDays: 4,
+        periodDays: 7,
+        amount: Math.round((30000 * 4) / 7),
+      });
+    });
+
+    it('counts biweekly periods from the week the child started', async () => {
+      enrollments = [
+        makeEnrollment({
+          billingCycle: BillingCycle.BIWEEKLY,
+          tuitionAmount: 600,
+          startDate: new Date('2026-03-04T00:00:00Z'),
+        }),
+      ];
+
+      const result = await service.run({
+        billingDate: new Date('2026-03-17T00:00:00Z'),
+        preview: true,
+      });
+
+      expect(result.lines[0]).toMatchObject({
+        periodStart: '2026-03-16',
+        periodEnd: '2026-03-29',
+        prorated: false,
+        amount: 60000,
+      });
+    });
+  });
+
+  describe('idempotency', () => {
+    const billingDate = new Date('2026-03-01T00:00:00Z');
+
+    it('does not create invoices when previewing', async () => {
+      enrollments = [makeEnrollment()];
+
+      const result = await service.run({ billingDate, preview: true });
+
+      expect(transaction).not.toHaveBeenCalled();
+      expect(result.lines[0].status).toBe(TuitionInvoiceLineStatus.PENDING);
+      expect(result.invoicesCreated).toBe(1);
+    });
+
+    it('skips periods that already have an invoice', async () => {
+      enrollments = [makeEnrollment()];
+      existingInvoices = [
+        {
+          id: 'invoice-existing',
+          enrollmentId: enrollments[0].id,
+          billingPeriodStart: new Date('2026-03-01T00:00:00Z'),
+        },
+      ];
+
+      const result = await service.run({ billingDate });
+
+      expect(transaction).not.toHaveBeenCalled();
+      expect(result.lines[0]).toMatchObject({
+        invoiceId: 'invoice-existing',
+        status: TuitionInvoiceLineStatus.ALREADY_BILLED,
+      });
+      expect(result).toMatchObject({
+        invoicesCreated: 0,
+        alreadyBilled: 1,
+        totalAmount: 0,
+      });
+    });
+
+    it('treats a period another run invoiced first as already billed', async () => {
+      enrollments = [makeEnrollment()];
+      transaction.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'idx_invoices_enrollment_billing_period',
+        }),
+      );
+
+      const result = await service.run({ billingDate });
+
+      expect(result.lines[0].status).toBe(
+        TuitionInvoiceLineStatus.ALREADY_BILLED,
+      );
+      expect(result).toMatchObject({ invoicesCreated: 0, alreadyBilled: 1 });
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('keeps billing other enrollments when one fails', async () => {
+      enrollments = [
+        makeEnrollment(),
+        makeEnrollment({ id: 'a1b2c3d4-0000-4000-8000-000000000002' }),
+      ];
+      transaction.mockRejectedValueOnce(new Error('connection reset'));
+
+      const result = await service.run({ billingDate });
+
+      expect(result.lines.map((line) => line.status)).toEqual([
+        TuitionInvoiceLineStatus.FAILED,
+        TuitionInvoiceLineStatus.CREATED,
+      ]);
+      expect(result.lines[0].error).toBe('connection reset');
+      expect(result).toMatchObject({
+        invoicesCreated: 1,
+        alreadyBilled: 0,
+        failed: 1,
+        totalAmount: 120000,
+      });
+    });
+
+    it('gives each enrollment its own invoice number for a period', async () => {
+      enrollments = [
+        makeEnrollment(),
+        makeEnrollment({ id: 'a1b2c3d4-0000-4000-8000-000000000002' }),
+      ];
+
+      const result = await service.run({ billingDate, preview: true });
+
+      expect(result.lines.map((line) => line.invoiceNumber)).toEqual([
+        'TUI-20260301-A1B2C3D4-0000-4000-8000-000000000001',
+        'TUI-20260301-A1B2C3D4-0000-4000-8000-000000000002',
+      ]);
+    });
+  });
+});
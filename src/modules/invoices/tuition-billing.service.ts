@@ -0,0 +1,446 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, DataSource, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Invoice } from './entities/invoice.entity';
+import { InvoiceItem } from './entities/invoice-item.entity';
+import {
+  BillingCycle,
+  EnrollmentEntity,
+  EnrollmentStatus,
+} from '../enrollment/entities/enrollment.entity';
+import {
+  TuitionBillingRunResponseDto,
+  TuitionInvoiceLineDto,
+  TuitionInvoiceLineStatus,
+} from './dto/tuition-billing.dto';
+import { DiscountService } from './discount.service';
+import { PAYER_SHARE_ITEM_CATEGORY, PayerService } from './payer.service';
+import { PayerCharge } from './entities/payer-charge.entity';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { RealtimeGateway } from '../realtime/realtime.gateway';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { InvoiceEvent } from '../../common/interfaces/domain-event.interface';
+import {
+  DAY_MS,
+  toUtcDay,
+  toDateKey,
+  toColumnDate,
+} from '../../common/utils/date.util';
+
+/** Tuition invoices are due a week after the billing date */
+const TUITION_DUE_DAYS = 7;
+
+/** Biweekly periods of enrollments without a start date count from this Monday */
+const BIWEEKLY_EPOCH = Date.UTC(1970, 0, 5);
+
+const UNIQUE_VIOLATION = '23505';
+
+/** Violated when another run invoiced the period first */
+const BILLING_PERIOD_INDEX = 'idx_invoices_enrollment_billing_period';
+
+interface BillingPeriod {
+  start: number;
+  end: number;
+}
+
+export interface TuitionBillingOptions {
+  schoolId?: string;
+  billingDate?: Date;
+  preview?: boolean;
+  createdBy?: string | null;
+}
+
+function startOfWeek(day: number): number {
+  // Weeks run Monday to Sunday
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/**
+ * Generates tuition invoices from active enrollments. Each enrollment is
+ * billed its tuition once per billing cycle: calendar months, Monday to
+ * Sunday weeks, or two-week periods counted from the week the child
+ * started. A start or end date inside the period prorates the tuition by
+ * enrolled days. The school's discount rules are then applied and listed
+ * as negative items, followed by the shares subsidy agencies and other
+ * payers cover, which are recorded as charges to bill the payer. Invoices
+ * carry the enrollment and period, and a unique index on both makes every
+ * run safe to repeat.
+ */
+@Injectable()
+export class TuitionBillingService {
+  private readonly logger = new Logger(TuitionBillingService.name);
+
+  constructor(
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    private readonly dataSource: DataSource,
+    private readonly realtimeGateway: RealtimeGateway,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly discountService: DiscountService,
+    private readonly payerService: PayerService,
+  ) {}
+
+  /**
+   * Invoice the period containing the billing date for every billable
+   * enrollment, or only work out the invoices when previewing
+   */
+  async run(
+    options: TuitionBillingOptions = {},
+  ): Promise<TuitionBillingRunResponseDto> {
+    const billingDay = toUtcDay(options.billingDate ?? new Date());
+    const preview = options.preview ?? false;
+
+    const enrollments = await this.findBillableEnrollments(
+      billingDay,
+      options.schoolId,
+    );
+    const lines = enrollments
+      .map((enrollment) => this.buildLine(enrollment, billingDay))
+      .filter((line): line is TuitionInvoiceLineDto => !!line);
+
+    await this.markAlreadyBilled(lines);
+    await this.discountService.applyDiscounts(lines, enrollments);
+    await this.payerService.applySplits(lines);
+
+    const billedSchools = new Set<string>();
+    for (const line of lines) {
+      if (preview || line.status === TuitionInvoiceLineStatus.ALREADY_BILLED) {
+        continue;
+      }
+
+      try {
+        line.invoiceId = await this.createInvoice(line, options.createdBy);
+        line.status = TuitionInvoiceLineStatus.CREATED;
+        billedSchools.add(line.schoolId);
+        this.eventEmitter.emit(DomainEvent.INVOICE_CREATED, {
+          invoiceId: line.invoiceId,
+          schoolId: line.schoolId,
+          source: 'invoice',
+          userId: options.createdBy ?? null,
+        } satisfies InvoiceEvent);
+      } catch (error) {
+        const { code, constraint } = error as {
+          code?: string;
+          constraint?: string;
+        };
+        if (code === UNIQUE_VIOLATION && constraint === BILLING_PERIOD_INDEX) {
+          line.status = TuitionInvoiceLineStatus.ALREADY_BILLED;
+          continue;
+        }
+
+        // One enrollment failing should not stop the rest being billed
+        line.status = TuitionInvoiceLineStatus.FAILED;
+        line.error = (error as Error).message;
+        this.logger.error(
+          `Failed to create tuition invoice for enrollment ${line.enrollmentId}: ${line.error}`,
+        );
+      }
+    }
+
+    billedSchools.forEach((schoolId) => this.emitInvoiceStatsChange(schoolId));
+
+    const billed = lines.filter(
+      (line) =>
+        line.status === TuitionInvoiceLineStatus.PENDING ||
+        line.status === TuitionInvoiceLineStatus.CREATED,
+    );
+    const failed = lines.filter(
+      (line) => line.status === TuitionInvoiceLineStatus.FAILED,
+    ).length;
+    const result: TuitionBillingRunResponseDto = {
+      billingDate: toDateKey(billingDay),
+      preview,
+      invoicesCreated: billed.length,
+      alreadyBilled: lines.length - billed.length - failed,
+      failed,
+      totalAmount: billed.reduce((sum, line) => sum + line.amount, 0),
+      lines,
+    };
+
+    if (!preview && result.invoicesCreated > 0) {
+      this.logger.log(
+        `Created ${result.invoicesCreated} tuition invoices for ${result.billingDate}`,
+      );
+    }
+    if (failed > 0) {
+      this.logger.warn(
+        `${failed} tuition invoices for ${result.billingDate} could not be created`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Active enrollments with tuition, plus ones that ended recently so their
+   * final partial period is still billed
+   */
+  private async findBillableEnrollments(
+    billingDay: number,
+    schoolId?: string,
+  ): Promise<EnrollmentEntity[]> {
+    // No billing period is longer than a month
+    const earliestEnd = toDateKey(billingDay - 31 * DAY_MS);
+
+    const query = this.enrollmentRepository
+      .createQueryBuilder('enrollment')
+      .leftJoinAndSelect('enrollment.lead', 'lead')
+      .where('enrollment.tuition_amount > 0')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('enrollment.status = :active', {
+            active: EnrollmentStatus.ACTIVE,
+          }).orWhere(
+            'enrollment.status IN (:...ended) AND enrollment.end_date >= :earliestEnd',
+            {
+              ended: [EnrollmentStatus.COMPLETED, EnrollmentStatus.WITHDRAWN],
+              earliestEnd,
+            },
+          );
+        }),
+      )
+      .orderBy('enrollment.created_at', 'ASC');
+
+    if (schoolId) {
+      query.andWhere('enrollment.school_id = :schoolId', { schoolId });
+    }
+
+    return query.getMany();
+  }
+
+  private buildLine(
+    enrollment: EnrollmentEntity,
+    billingDay: number,
+  ): TuitionInvoiceLineDto | null {
+    const startDay = enrollment.startDate
+      ? toUtcDay(enrollment.startDate)
+      : null;
+    const endDay = enrollment.endDate ? toUtcDay(enrollment.endDate) : null;
+    const period = this.getPeriod(
+      enrollment.billingCycle,
+      billingDay,
+      startDay,
+    );
+
+    const activeStart = Math.max(period.start, startDay ?? period.start);
+    const activeEnd = Math.min(period.end, endDay ?? period.end);
+    if (activeEnd < activeStart) {
+      return null;
+    }
+
+    const periodDays = (period.end - period.start) / DAY_MS + 1;
+    const billedDays = (activeEnd - activeStart) / DAY_MS + 1;
+    const fullAmount = Math.round(Number(enrollment.tuitionAmount) * 100);
+    const amount =
+      billedDays === periodDays
+        ? fullAmount
+        : Math.round((fullAmount * billedDays) / periodDays);
+    const periodStart = toDateKey(period.start);
+
+    return {
+      enrollmentId: enrollment.id,
+      leadId: enrollment.leadId,
+      schoolId: enrollment.schoolId,
+      childName: enrollment.lead?.childName ?? null,
+      program: enrollment.program,
+      billingCycle: enrollment.billingCycle,
+      periodStart,
+      periodEnd: toDateKey(period.end),
+      billedDays,
+      periodDays,
+      prorated: billedDays < periodDays,
+      subtotal: amount,
+      discounts: [],
+      payerShares: [],
+      amount,
+      dueDate: toDateKey(billingDay + TUITION_DUE_DAYS * DAY_MS),
+      // The whole enrollment ID keeps numbers unique across enrollments
+      invoiceNumber: `TUI-${periodStart.replace(/-/g, '')}-${enrollment.id.toUpperCase()}`,
+      invoiceId: null,
+      status: TuitionInvoiceLineStatus.PENDING,
+      error: null,
+    };
+  }
+
+  private getPeriod(
+    cycle: BillingCycle,
+    day: number,
+    startDay: number | null,
+  ): BillingPeriod {
+    const date = new Date(day);
+
+    switch (cycle) {
+      case BillingCycle.WEEKLY: {
+        const start = startOfWeek(day);
+        return { start, end: start + 6 * DAY_MS };
+      }
+      case BillingCycle.BIWEEKLY: {
+        const anchor = startOfWeek(startDay ?? BIWEEKLY_EPOCH);
+        const length = 14 * DAY_MS;
+        const start = anchor + Math.floor((day - anchor) / length) * length;
+        return { start, end: start + length - DAY_MS };
+      }
+      case BillingCycle.MONTHLY:
+      default:
+        return {
+          start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+          end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+        };
+    }
+  }
+
+  private async markAlreadyBilled(
+    lines: TuitionInvoiceLineDto[],
+  ): Promise<void> {
+    if (lines.length === 0) {
+      return;
+    }
+
+    const existing = await this.invoiceRepository
+      .createQueryBuilder('invoice')
+      .select([
+        'invoice.id',
+        'invoice.enrollmentId',
+        'invoice.billingPeriodStart',
+      ])
+      .where('invoice.enrollment_id IN (:...enrollmentIds)', {
+        enrollmentIds: lines.map((line) => line.enrollmentId),
+      })
+      .andWhere('invoice.billing_period_start IN (:...periodStarts)', {
+        periodStarts: [...new Set(lines.map((line) => line.periodStart))],
+      })
+      .getMany();
+    const invoiceIds = new Map(
+      existing.map((invoice) => [
+        `${invoice.enrollmentId}:${toDateKey(toUtcDay(invoice.billingPeriodStart!))}`,
+        invoice.id,
+      ]),
+    );
+
+    for (const line of lines) {
+      const invoiceId = invoiceIds.get(
+        `${line.enrollmentId}:${line.periodStart}`,
+      );
+      if (invoiceId) {
+        line.invoiceId = invoiceId;
+        line.status = TuitionInvoiceLineStatus.ALREADY_BILLED;
+      }
+    }
+  }
+
+  private async createInvoice(
+    line: TuitionInvoiceLineDto,
+    createdBy?: string | null,
+  ): Promise<string> {
+    const period = `${line.periodStart} to ${line.periodEnd}`;
+    const description = line.prorated
+      ? `${line.program} tuition, ${period} (prorated ${line.billedDays} of ${line.periodDays} days)`
+      : `${line.program} tuition, ${period}`;
+
+    return this.dataSource.transaction(async (manager) => {
+      const invoice = await manager.save(
+        manager.create(Invoice, {
+          invoiceNumber: line.invoiceNumber,
+          schoolId: line.schoolId,
+          leadId: line.leadId,
+          enrollmentId: line.enrollmentId,
+          billingPeriodStart: toColumnDate(line.periodStart),
+          billingPeriodEnd: toColumnDate(line.periodEnd),
+          amount: line.amount,
+          currency: 'usd',
+          // Tuition fully discounted or covered by payers has nothing left to pay
+          status: line.amount > 0 ? PaymentStatus.PENDING : PaymentStatus.PAID,
+          paymentDate: line.amount > 0 ? null : new Date(),
+          paymentMethod:
+            line.amount > 0
+              ? null
+              : line.payerShares.length > 0
+                ? 'third_party'
+                : 'discount',
+          dueDate: toColumnDate(line.dueDate),
+          createdBy: createdBy ?? null,
+          notes: line.childName
+            ? `Tuition for ${line.childName}, ${period}`
+            : `Tuition, ${period}`,
+        }),
+      );
+
+      await manager.save(
+        manager.create(InvoiceItem, {
+          invoiceId: invoice.id,
+          description,
+          quantity: 1,
+          unitPrice: line.subtotal,
+          total: line.subtotal,
+          category: 'tuition',
+          metadata: {
+            enrollmentId: line.enrollmentId,
+            billingCycle: line.billingCycle,
+            billedDays: line.billedDays,
+            periodDays: line.periodDays,
+          },
+        }),
+      );
+
+      for (const discount of line.discounts) {
+        await manager.save(
+          manager.create(InvoiceItem, {
+            invoiceId: invoice.id,
+            description: discount.name,
+            quantity: 1,
+            unitPrice: -discount.amount,
+            total: -discount.amount,
+            category: discount.category,
+            metadata: { ruleId: discount.ruleId, ruleType: discount.ruleType },
+          }),
+        );
+      }
+
+      for (const share of line.payerShares) {
+        await manager.save(
+          manager.create(InvoiceItem, {
+            invoiceId: invoice.id,
+            description: `Paid by ${share.payerName}`,
+            quantity: 1,
+            unitPrice: -share.amount,
+            total: -share.amount,
+            category: PAYER_SHARE_ITEM_CATEGORY,
+            metadata: {
+              enrollmentPayerId: share.enrollmentPayerId,
+              payerAccountId: share.payerAccountId,
+            },
+          }),
+        );
+        await manager.save(
+          manager.create(PayerCharge, {
+            payerAccountId: share.payerAccountId,
+            enrollmentPayerId: share.enrollmentPayerId,
+            enrollmentId: line.enrollmentId,
+            schoolId: line.schoolId,
+            invoiceId: invoice.id,
+            periodStart: toColumnDate(line.periodStart),
+            periodEnd: toColumnDate(line.periodEnd),
+            amount: share.amount,
+            childName: line.childName,
+            program: line.program,
+          }),
+        );
+      }
+
+      return invoice.id;
+    });
+  }
+
+  private emitInvoiceStatsChange(schoolId: string): void {
+    try {
+      this.realtimeGateway.emitInvoiceStatsChange(schoolId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to emit invoice stats event for school ${schoolId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export enum JobState {
+  WAITING = 'waiting',
+  ACTIVE = 'active',
+  DELAYED = 'delayed',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  PAUSED = 'paused',
+}
+
+export class JobQueryDto {
+  @ApiPropertyOptional({
+    description: 'Job state to list',
+    enum: JobState,
+    default: JobState.FAILED,
+  })
+  @IsEnum(JobState)
+  @IsOptional()
+  status?: JobState;
+
+  @ApiPropertyOptional({
+    description: 'Page number (1-indexed)',
+    default: 1,
+    example: 1,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of jobs per page',
+    default: 50,
+    maximum: 200,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,139 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class JobCountsDto {
+  @ApiProperty({ example: 0 })
+  waiting: number;
+
+  @ApiProperty({ example: 0 })
+  active: number;
+
+  @ApiProperty({ example: 0 })
+  delayed: number;
+
+  @ApiProperty({ example: 12 })
+  completed: number;
+
+  @ApiProperty({ example: 1 })
+  failed: number;
+}
+
+export class RepeatableJobDto {
+  @ApiProperty({ description: 'Job name', example: 'send-due-reminders' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Cron pattern',
+    example: '*/5 * * * *',
+    nullable: true,
+  })
+  cron: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Interval in milliseconds',
+    example: 60000,
+    nullable: true,
+  })
+  every: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Next run',
+    example: '2024-01-15T10:30:00Z',
+    nullable: true,
+  })
+  nextRunAt: string | null;
+}
+
+export class QueueSummaryDto {
+  @ApiProperty({ description: 'Queue name', example: 'email' })
+  name: string;
+
+  @ApiProperty({ description: 'Whether the queue is paused' })
+  paused: boolean;
+
+  @ApiProperty({ description: 'Jobs per state', type: JobCountsDto })
+  counts: JobCountsDto;
+
+  @ApiProperty({
+    description: 'Repeatable jobs scheduled on the queue',
+    type: [RepeatableJobDto],
+  })
+  repeatableJobs: RepeatableJobDto[];
+}
+
+export class JobResponseDto {
+  @ApiProperty({ description: 'Job ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Queue name', example: 'email' })
+  queue: string;
+
+  @ApiProperty({ description: 'Job name', example: 'send-email' })
+  name: string;
+
+  @ApiProperty({ description: 'Job payload' })
+  data: unknown;
+
+  @ApiProperty({ description: 'Attempts made so far', example: 3 })
+  attemptsMade: number;
+
+  @ApiPropertyOptional({
+    description: 'Error of the last failed attempt',
+    nullable: true,
+  })
+  failedReason: string | null;
+
+  @ApiProperty({
+    description: 'Stack traces of the failed attempts',
+    type: [String],
+  })
+  stacktrace: string[];
+
+  @ApiProperty({ description: 'Created at', example: '2024-01-15T10:30:00Z' })
+  createdAt: string;
+
+  @ApiPropertyOptional({ description: 'Last started at', nullable: true })
+  processedAt: string | null;
+
+  @ApiPropertyOptional({ description: 'Finished at', nullable: true })
+  finishedAt: string | null;
+}
+
+export class DeadLetterJobResponseDto {
+  @ApiProperty({ description: 'Dead-letter entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Queue the job failed on', example: 'email' })
+  queue: string;
+
+  @ApiProperty({ description: 'Job name', example: 'send-email' })
+  name: string;
+
+  @ApiProperty({ description: 'ID of the failed job' })
+  jobId: string;
+
+  @ApiProperty({ description: 'Job payload' })
+  data: unknown;
+
+  @ApiProperty({ description: 'Attempts made', example: 3 })
+  attemptsMade: number;
+
+  @ApiProperty({ description: 'Error of the last attempt' })
+  failedReason: string;
+
+  @ApiProperty({
+    description: 'Stack traces of the failed attempts',
+    type: [String],
+  })
+  stacktrace: string[];
+
+  @ApiProperty({ description: 'Failed at', example: '2024-01-15T10:30:00Z' })
+  failedAt: string;
+}
+
+export class RetriedJobResponseDto {
+  @ApiProperty({ description: 'Queue the job runs on', example: 'email' })
+  queue: string;
+
+  @ApiProperty({ description: 'ID of the job that will run' })
+  jobId: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Payload of a dead-letter job: a copy of a job that failed every attempt
+ */
+export interface DeadLetterJobData {
+  queue: string;
+  name: string;
+  jobId: string;
+  data: unknown;
+  attemptsMade: number;
+  failedReason: string;
+  stacktrace: string[];
+  failedAt: string;
+}
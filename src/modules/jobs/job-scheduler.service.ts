@@ -0,0 +1,60 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { CronRepeatOptions, EveryRepeatOptions, Queue } from 'bull';
+
+/**
+ * Registers repeatable jobs for processors. Redis keeps repeatable jobs
+ * across restarts, so an earlier schedule of the same job is removed when
+ * its cron pattern or interval changes instead of running side by side.
+ */
+@Injectable()
+export class JobSchedulerService {
+  private readonly logger = new Logger(JobSchedulerService.name);
+
+  /**
+   * Schedule a job without payload on the queue. Call from onModuleInit;
+   * it returns at once because Bull waits for Redis, which must not block
+   * application startup.
+   */
+  scheduleRepeatable(
+    queue: Queue,
+    jobName: string,
+    repeat: CronRepeatOptions | EveryRepeatOptions,
+  ): void {
+    this.replaceSchedule(queue, jobName, repeat).catch((error: Error) =>
+      this.logger.error(
+        `Failed to schedule ${queue.name}/${jobName}: ${error.message}`,
+      ),
+    );
+  }
+
+  private async replaceSchedule(
+    queue: Queue,
+    jobName: string,
+    repeat: CronRepeatOptions | EveryRepeatOptions,
+  ): Promise<void> {
+    const existing = await queue.getRepeatableJobs();
+    const stale = existing.filter(
+      (job) =>
+        job.name === jobName &&
+        ('cron' in repeat
+          ? job.cron !== repeat.cron || (job.tz ?? null) !== (repeat.tz ?? null)
+          : String(job.every) !== String(repeat.every)),
+    );
+    for (const job of stale) {
+      await queue.removeRepeatableByKey(job.key);
+    }
+
+    // A failed run is not retried: the next scheduled run does the same work
+    await queue.add(
+      jobName,
+      {},
+      {
+        jobId: jobName,
+        repeat,
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: 100,
+      },
+    );
+  }
+}
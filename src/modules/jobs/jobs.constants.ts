@@ -0,0 +1,55 @@
+import type { JobOptions } from 'bull';
+import { BLOG_PUBLISHING_QUEUE } from '../blogs/blogs.constants';
+import { CAMPAIGN_DELIVERY_QUEUE } from '../campaigns/campaigns.constants';
+import { WAITLIST_OFFERS_QUEUE } from '../enrollment/enrollment.constants';
+import {
+  LEAD_AUTOMATION_QUEUE,
+  LEAD_REMINDERS_QUEUE,
+} from '../leads/leads.constants';
+import { EMAIL_QUEUE } from '../mailer/mailer.constants';
+import {
+  OVERDUE_INVOICES_QUEUE,
+  TUITION_BILLING_QUEUE,
+} from '../invoices/invoices.constants';
+import {
+  AUTOPAY_QUEUE,
+  PAYMENT_WEBHOOKS_QUEUE,
+  SCHOOL_BILLING_QUEUE,
+} from '../payments/payments.constants';
+import { LEDGER_QUEUE, TAX_STATEMENTS_QUEUE } from '../ledger/ledger.constants';
+
+/** Holds jobs that failed every attempt until an admin retries or removes them */
+export const DEAD_LETTER_QUEUE = 'dead-letter';
+
+export const DEAD_LETTER_JOB = 'dead-letter';
+
+/**
+ * Defaults for every job added to any queue (BullModule.forRootAsync):
+ * three attempts with exponential backoff starting at 30 seconds
+ */
+export const DEFAULT_JOB_OPTIONS: JobOptions = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 30_000 },
+  removeOnComplete: 100,
+  removeOnFail: 500,
+};
+
+/**
+ * Queues shown by the jobs admin API. Jobs that exhaust their attempts on
+ * these queues are copied to the dead-letter queue.
+ */
+export const MANAGED_QUEUES = [
+  EMAIL_QUEUE,
+  CAMPAIGN_DELIVERY_QUEUE,
+  LEAD_AUTOMATION_QUEUE,
+  LEAD_REMINDERS_QUEUE,
+  WAITLIST_OFFERS_QUEUE,
+  BLOG_PUBLISHING_QUEUE,
+  TUITION_BILLING_QUEUE,
+  OVERDUE_INVOICES_QUEUE,
+  AUTOPAY_QUEUE,
+  PAYMENT_WEBHOOKS_QUEUE,
+  TAX_STATEMENTS_QUEUE,
+  SCHOOL_BILLING_QUEUE,
+  LEDGER_QUEUE,
+];
@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { JobQueryDto } from './dto/job-query.dto';
+import {
+  DeadLetterJobResponseDto,
+  JobResponseDto,
+  QueueSummaryDto,
+  RetriedJobResponseDto,
+} from './dto/job-response.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+
+@ApiTags('Jobs')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(AppRole.SUPER_ADMIN)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Super admins only' })
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  @Get('queues')
+  @ApiOperation({
+    summary: 'List job queues',
+    description:
+      'Job counts per state and the repeatable jobs of every background queue, including the dead-letter queue.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Queues retrieved successfully',
+    type: [QueueSummaryDto],
+  })
+  async getQueues(): Promise<QueueSummaryDto[]> {
+    return this.jobsService.getQueues();
+  }
+
+  @Get('queues/:queue/jobs')
+  @ApiOperation({
+    summary: 'List jobs of a queue',
+    description: 'Lists the jobs of a queue in one state, failed by default.',
+  })
+  @ApiParam({ name: 'queue', description: 'Queue name', example: 'email' })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs retrieved successfully',
+    type: [JobResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Queue not found' })
+  async findJobs(
+    @Param('queue') queue: string,
+    @Query() query: JobQueryDto,
+  ): Promise<{ data: JobResponseDto[]; total: number }> {
+    return this.jobsService.findJobs(queue, query);
+  }
+
+  @Post('queues/:queue/jobs/:jobId/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retry a failed job',
+    description: 'Runs a failed job again with the same ID and payload.',
+  })
+  @ApiParam({ name: 'queue', description: 'Queue name', example: 'email' })
+  @ApiParam({ name: 'jobId', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job queued for retry',
+    type: RetriedJobResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Job has not failed' })
+  @ApiNotFoundResponse({ description: 'Queue or job not found' })
+  async retryJob(
+    @Param('queue') queue: string,
+    @Param('jobId') jobId: string,
+  ): Promise<RetriedJobResponseDto> {
+    return this.jobsService.retryJob(queue, jobId);
+  }
+
+  @Get('dead-letter')
+  @ApiOperation({
+    summary: 'List dead-lettered jobs',
+    description:
+      'Jobs that failed every attempt, with the queue they failed on and the last error.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dead-lettered jobs retrieved successfully',
+    type: [DeadLetterJobResponseDto],
+  })
+  async findDeadLetters(
+    @Query() query: JobQueryDto,
+  ): Promise<{ data: DeadLetterJobResponseDto[]; total: number }> {
+    return this.jobsService.findDeadLetters(query);
+  }
+
+  @Post('dead-letter/:id/retry')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Retry a dead-lettered job',
+    description:
+      'Adds the job back to its queue with fresh attempts and removes it from the dead-letter queue.',
+  })
+  @ApiParam({ name: 'id', description: 'Dead-letter entry ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job requeued',
+    type: RetriedJobResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Dead-letter entry not found' })
+  async retryDeadLetter(
+    @Param('id') id: string,
+  ): Promise<RetriedJobResponseDto> {
+    return this.jobsService.retryDeadLetter(id);
+  }
+
+  @Delete('dead-letter/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Discard a dead-lettered job' })
+  @ApiParam({ name: 'id', description: 'Dead-letter entry ID' })
+  @ApiResponse({ status: 204, description: 'Dead-letter entry removed' })
+  @ApiNotFoundResponse({ description: 'Dead-letter entry not found' })
+  async removeDeadLetter(@Param('id') id: string): Promise<void> {
+    await this.jobsService.removeDeadLetter(id);
+  }
+}
@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { JobsService } from './jobs.service';
+import { JobSchedulerService } from './job-scheduler.service';
+import { JobsController } from './jobs.controller';
+import { DEAD_LETTER_QUEUE } from './jobs.constants';
+
+/**
+ * Global so every processor can schedule its repeatable jobs through
+ * JobSchedulerService without importing this module
+ */
+@Global()
+@Module({
+  imports: [BullModule.registerQueue({ name: DEAD_LETTER_QUEUE })],
+  controllers: [JobsController],
+  providers: [JobsService, JobSchedulerService],
+  exports: [JobSchedulerService],
+})
+export class JobsModule {}
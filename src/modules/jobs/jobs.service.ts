@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { InjectQueue, getQueueToken } from '@nestjs/bull';
+import type { Job, Queue } from 'bull';
+import {
+  DEAD_LETTER_JOB,
+  DEAD_LETTER_QUEUE,
+  MANAGED_QUEUES,
+} from './jobs.constants';
+import { DeadLetterJobData } from './interfaces/dead-letter-job.interface';
+import { JobQueryDto, JobState } from './dto/job-query.dto';
+import {
+  DeadLetterJobResponseDto,
+  JobResponseDto,
+  QueueSummaryDto,
+  RetriedJobResponseDto,
+} from './dto/job-response.dto';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Inspection and recovery of the background job queues. Jobs that fail
+ * every attempt on a managed queue are copied to the dead-letter queue,
+ * which has no processor, so they wait there until an admin retries or
+ * removes them. Repeatable jobs are left out: their next run does the work.
+ */
+@Injectable()
+export class JobsService implements OnModuleInit {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly queues = new Map<string, Queue>();
+
+  constructor(
+    @InjectQueue(DEAD_LETTER_QUEUE)
+    private readonly deadLetterQueue: Queue<DeadLetterJobData>,
+    private readonly moduleRef: ModuleRef,
+  ) {}
+
+  onModuleInit(): void {
+    for (const name of MANAGED_QUEUES) {
+      let queue: Queue;
+      try {
+        // Queues are registered by their feature modules
+        queue = this.moduleRef.get<Queue>(getQueueToken(name), {
+          strict: false,
+        });
+      } catch {
+        this.logger.warn(`Queue ${name} is not registered by any module`);
+        continue;
+      }
+
+      this.queues.set(name, queue);
+      queue.on('failed', (job: Job, error: Error) => {
+        this.moveToDeadLetter(queue, job, error).catch((moveError: Error) =>
+          this.logger.error(
+            `Failed to dead-letter job ${name}/${job.id}: ${moveError.message}`,
+          ),
+        );
+      });
+    }
+  }
+
+  async getQueues(): Promise<QueueSummaryDto[]> {
+    return Promise.all(
+      [...this.queues.values(), this.deadLetterQueue].map(async (queue) => {
+        const [counts, paused, repeatableJobs] = await Promise.all([
+          queue.getJobCounts(),
+          queue.isPaused(),
+          queue.getRepeatableJobs(),
+        ]);
+
+        return {
+          name: queue.name,
+          paused,
+          counts: {
+            waiting: counts.waiting,
+            active: counts.active,
+            delayed: counts.delayed,
+            completed: counts.completed,
+            failed: counts.failed,
+          },
+          repeatableJobs: repeatableJobs.map((job) => ({
+            name: job.name,
+            cron: job.cron || null,
+            every: job.every ? Number(job.every) : null,
+            nextRunAt: job.next ? new Date(job.next).toISOString() : null,
+          })),
+        };
+      }),
+    );
+  }
+
+  async findJobs(
+    queueName: string,
+    query: JobQueryDto,
+  ): Promise<{ data: JobResponseDto[]; total: number }> {
+    const queue = this.getQueue(queueName);
+    const status = query.status ?? JobState.FAILED;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const start = ((query.page ?? 1) - 1) * limit;
+
+    const [jobs, counts] = await Promise.all([
+      queue.getJobs([status], start, start + limit - 1),
+      queue.getJobCountByTypes([status]),
+    ]);
+
+    return {
+      data: jobs
+        .filter((job): job is Job => !!job)
+        .map((job) => this.mapToResponseDto(queue, job)),
+      total: counts,
+    };
+  }
+
+  /**
+   * Run a failed job again, keeping its ID and payload
+   */
+  async retryJob(
+    queueName: string,
+    jobId: string,
+  ): Promise<RetriedJobResponseDto> {
+    const queue = this.getQueue(queueName);
+    const job = await queue.getJob(jobId);
+
+    if (!job) {
+      throw new NotFoundException(
+        `Job with ID "${jobId}" not found in queue "${queueName}"`,
+      );
+    }
+    if (!(await job.isFailed())) {
+      throw new BadRequestException('Only failed jobs can be retried');
+    }
+
+    await job.retry();
+    this.logger.log(`Retrying job ${queueName}/${jobId}`);
+    return { queue: queueName, jobId: String(job.id) };
+  }
+
+  async findDeadLetters(
+    query: Pick<JobQueryDto, 'page' | 'limit'>,
+  ): Promise<{ data: DeadLetterJobResponseDto[]; total: number }> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const start = ((query.page ?? 1) - 1) * limit;
+
+    const [jobs, total] = await Promise.all([
+      this.deadLetterQueue.getWaiting(start, start + limit - 1),
+      this.deadLetterQueue.getWaitingCount(),
+    ]);
+
+    return {
+      data: jobs
+        .filter((job): job is Job<DeadLetterJobData> => !!job)
+        .map((job) => ({ id: String(job.id), ...job.data })),
+      total,
+    };
+  }
+
+  /**
+   * Add a dead-lettered job back to its queue as a new job with fresh
+   * attempts, and drop the dead-letter entry
+   */
+  async retryDeadLetter(id: string): Promise<RetriedJobResponseDto> {
+    const entry = await this.findDeadLetter(id);
+    const queue = this.getQueue(entry.data.queue);
+
+    const job = await queue.add(entry.data.name, entry.data.data);
+    await entry.remove();
+
+    this.logger.log(
+      `Requeued dead-lettered job ${entry.data.queue}/${entry.data.jobId} as ${job.id}`,
+    );
+    return { queue: queue.name, jobId: String(job.id) };
+  }
+
+  async removeDeadLetter(id: string): Promise<void> {
+    const entry = await this.findDeadLetter(id);
+    await entry.remove();
+  }
+
+  private async moveToDeadLetter(
+    queue: Queue,
+    job: Job,
+    error: Error,
+  ): Promise<void> {
+    if (job.opts.repeat || job.attemptsMade < (job.opts.attempts ?? 1)) {
+      return;
+    }
+
+    await this.deadLetterQueue.add(
+      DEAD_LETTER_JOB,
+      {
+        queue: queue.name,
+        name: job.name,
+        jobId: String(job.id),
+        data: job.data as unknown,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason ?? error.message,
+        stacktrace: job.stacktrace ?? [],
+        failedAt: new Date().toISOString(),
+      },
+      { attempts: 1, removeOnComplete: false, removeOnFail: false },
+    );
+    this.logger.warn(
+      `Job ${queue.name}/${job.name} (${job.id}) failed ${job.attemptsMade} times and was moved to the dead-letter queue: ${error.message}`,
+    );
+  }
+
+  private async findDeadLetter(id: string): Promise<Job<DeadLetterJobData>> {
+    const entry = await this.deadLetterQueue.getJob(id);
+
+    if (!entry) {
+      throw new NotFoundException(`Dead-letter job with ID "${id}" not found`);
+    }
+
+    return entry;
+  }
+
+  private getQueue(name: string): Queue {
+    const queue = this.queues.get(name);
+
+    if (!queue) {
+      throw new NotFoundException(`Queue "${name}" not found`);
+    }
+
+    return queue;
+  }
+
+  private mapToResponseDto(queue: Queue, job: Job): JobResponseDto {
+    return {
+      id: String(job.id),
+      queue: queue.name,
+      name: job.name,
+      data: job.data as unknown,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason ?? null,
+      stacktrace: job.stacktrace ?? [],
+      createdAt: new Date(job.timestamp).toISOString(),
+      processedAt: job.processedOn
+        ? new Date(job.processedOn).toISOString()
+        : null,
+      finishedAt: job.finishedOn
+        ? new Date(job.finishedOn).toISOString()
+        : null,
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { LeadStatusType } from '../../../common/enums/lead-status-type.enum';
+import { TaskPriorityType } from '../../../common/enums/task-priority-type.enum';
+import {
+  LeadAutomationReminderAction,
+  LeadAutomationTaskAction,
+  LeadAutomationTriggerCondition,
+} from '../interfaces/lead-automation-trigger.interface';
+
+export class LeadAutomationReminderActionDto
+  implements LeadAutomationReminderAction
+{
+  @ApiProperty({
+    description: 'Reminder title ({childName} and {parentName} are replaced)',
+    example: 'Follow up with {parentName}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Reminder description' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reminder type',
+    default: 'follow_up',
+    example: 'follow_up',
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  reminderType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hours until the reminder is due',
+    default: 0,
+    example: 24,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(8760)
+  @IsOptional()
+  dueInHours?: number;
+}
+
+export class LeadAutomationTaskActionDto implements LeadAutomationTaskAction {
+  @ApiProperty({
+    description: 'Task title ({childName} and {parentName} are replaced)',
+    example: 'Call {parentName} about {childName}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Task description' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Task priority',
+    enum: TaskPriorityType,
+    default: TaskPriorityType.MEDIUM,
+  })
+  @IsEnum(TaskPriorityType)
+  @IsOptional()
+  priority?: TaskPriorityType;
+
+  @ApiPropertyOptional({
+    description: 'Days until the task is due',
+    default: 1,
+    example: 2,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  @IsOptional()
+  dueInDays?: number;
+}
+
+export class LeadAutomationTriggerConditionDto
+  implements LeadAutomationTriggerCondition
+{
+  @ApiPropertyOptional({
+    description: 'Only leads interested in these programs',
+    type: [String],
+    example: ['Preschool'],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  programs?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only leads scoring at most this value',
+    example: 40,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  maxScore?: number;
+
+  @ApiPropertyOptional({
+    description: 'Reminder for the assigned staff member',
+    type: LeadAutomationReminderActionDto,
+  })
+  @ValidateNested()
+  @Type(() => LeadAutomationReminderActionDto)
+  @IsOptional()
+  reminder?: LeadAutomationReminderActionDto;
+
+  @ApiPropertyOptional({
+    description: 'Task for the assigned staff member',
+    type: LeadAutomationTaskActionDto,
+  })
+  @ValidateNested()
+  @Type(() => LeadAutomationTaskActionDto)
+  @IsOptional()
+  task?: LeadAutomationTaskActionDto;
+
+  @ApiPropertyOptional({
+    description: 'Send an in-app notification to the assigned staff member',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyAssignee?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Also email the assigned staff member',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  notifyByEmail?: boolean;
+}
+
+export class CreateLeadAutomationRuleDto {
+  @ApiPropertyOptional({
+    description: 'School ID. Omit for a global rule (super admins only).',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({
+    description: 'Rule name',
+    example: 'Cold contacted leads',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  ruleName: string;
+
+  @ApiPropertyOptional({
+    description: 'Extra filters and the actions taken when the rule matches',
+    type: LeadAutomationTriggerConditionDto,
+    example: {
+      reminder: { title: 'Follow up with {parentName}', dueInHours: 4 },
+      notifyAssignee: true,
+    },
+  })
+  @ValidateNested()
+  @Type(() => LeadAutomationTriggerConditionDto)
+  @IsOptional()
+  triggerCondition?: LeadAutomationTriggerConditionDto;
+
+  @ApiPropertyOptional({
+    description: 'Match leads scoring at least this value',
+    example: 80,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  scoreThreshold?: number;
+
+  @ApiPropertyOptional({
+    description: 'Match leads without activity for this many days',
+    example: 7,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  daysInactive?: number;
+
+  @ApiPropertyOptional({
+    description: 'Match leads in this status',
+    enum: LeadStatusType,
+    example: LeadStatusType.CONTACTED,
+  })
+  @IsEnum(LeadStatusType)
+  @IsOptional()
+  fromStatus?: LeadStatusType;
+
+  @ApiPropertyOptional({
+    description: 'Move matching leads to this status',
+    enum: LeadStatusType,
+    example: LeadStatusType.LOST,
+  })
+  @IsEnum(LeadStatusType)
+  @IsOptional()
+  toStatus?: LeadStatusType;
+
+  @ApiPropertyOptional({
+    description: 'Whether the rule is evaluated',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
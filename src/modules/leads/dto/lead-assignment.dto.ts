@@ -0,0 +1,139 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { LeadAssignmentMethod } from '../../../common/enums/lead-assignment-method.enum';
+
+export class LeadAssignmentMemberDto {
+  @ApiProperty({
+    description: 'Staff user ID (school admin, admissions staff or owner)',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @IsUUID()
+  userId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Position in the rotation. Defaults to the position in the list.',
+    example: 1,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  assignmentOrder?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Leads this member takes per cycle with the weighted strategy. 0 skips the member.',
+    default: 10,
+    example: 10,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  maxLeadsPerCycle?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the member receives new leads',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class UpdateLeadAssignmentDto {
+  @ApiPropertyOptional({
+    description:
+      'How new public and parent portal leads are assigned. manual turns auto-assignment off.',
+    enum: LeadAssignmentMethod,
+    example: LeadAssignmentMethod.ROUND_ROBIN,
+  })
+  @IsEnum(LeadAssignmentMethod)
+  @IsOptional()
+  strategy?: LeadAssignmentMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'The full rotation. Members left out are removed; counters of kept members are preserved.',
+    type: [LeadAssignmentMemberDto],
+  })
+  @IsArray()
+  @ArrayUnique((member: LeadAssignmentMemberDto) => member.userId)
+  @ValidateNested({ each: true })
+  @Type(() => LeadAssignmentMemberDto)
+  @IsOptional()
+  members?: LeadAssignmentMemberDto[];
+}
+
+export class LeadAssignmentMemberResponseDto {
+  @ApiProperty({ description: 'Rotation entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Staff user ID' })
+  userId: string;
+
+  @ApiPropertyOptional({ description: 'First name', nullable: true })
+  firstName: string | null;
+
+  @ApiPropertyOptional({ description: 'Last name', nullable: true })
+  lastName: string | null;
+
+  @ApiPropertyOptional({ description: 'Email', nullable: true })
+  email: string | null;
+
+  @ApiProperty({ description: 'Position in the rotation', example: 1 })
+  assignmentOrder: number;
+
+  @ApiProperty({ description: 'Whether the member receives new leads' })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Leads per cycle (weighted)', example: 10 })
+  maxLeadsPerCycle: number;
+
+  @ApiProperty({
+    description: 'Leads assigned in the current cycle',
+    example: 3,
+  })
+  currentLeadCount: number;
+
+  @ApiPropertyOptional({
+    description: 'When the member last received a lead',
+    nullable: true,
+  })
+  lastAssignedAt: string | null;
+
+  @ApiProperty({ description: 'Open leads assigned to the member', example: 7 })
+  openLeads: number;
+}
+
+export class LeadAssignmentSettingsResponseDto {
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Assignment strategy',
+    enum: LeadAssignmentMethod,
+  })
+  strategy: LeadAssignmentMethod;
+
+  @ApiPropertyOptional({
+    description: 'When the current cycle started',
+    nullable: true,
+  })
+  cycleStartedAt: string | null;
+
+  @ApiProperty({ type: [LeadAssignmentMemberResponseDto] })
+  members: LeadAssignmentMemberResponseDto[];
+}
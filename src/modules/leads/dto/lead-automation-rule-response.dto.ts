@@ -0,0 +1,75 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadStatusType } from '../../../common/enums/lead-status-type.enum';
+
+export class LeadAutomationRuleResponseDto {
+  @ApiProperty({
+    description: 'Rule ID',
+    example: '123e4567-e89b-12d3-a456-426614174040',
+  })
+  id: string;
+
+  @ApiPropertyOptional({
+    description: 'School ID (null for a global rule)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+  })
+  schoolId: string | null;
+
+  @ApiProperty({ description: 'Rule name', example: 'Cold contacted leads' })
+  ruleName: string;
+
+  @ApiProperty({
+    description: 'Extra filters and actions',
+    example: { reminder: { title: 'Follow up with {parentName}' } },
+  })
+  triggerCondition: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Minimum lead score', nullable: true })
+  scoreThreshold: number | null;
+
+  @ApiPropertyOptional({ description: 'Days without activity', nullable: true })
+  daysInactive: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Status the lead must be in',
+    enum: LeadStatusType,
+    nullable: true,
+  })
+  fromStatus: LeadStatusType | null;
+
+  @ApiPropertyOptional({
+    description: 'Status the lead is moved to',
+    enum: LeadStatusType,
+    nullable: true,
+  })
+  toStatus: LeadStatusType | null;
+
+  @ApiProperty({ description: 'Whether the rule is evaluated', example: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Created at', example: '2024-01-15T10:30:00Z' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Updated at', example: '2024-01-15T10:30:00Z' })
+  updatedAt: string;
+}
+
+export class LeadAutomationRunResponseDto {
+  @ApiProperty({ example: 3 })
+  rulesEvaluated: number;
+
+  @ApiProperty({ example: 12 })
+  leadsMatched: number;
+
+  @ApiProperty({ example: 4 })
+  statusChanges: number;
+
+  @ApiProperty({ example: 8 })
+  remindersCreated: number;
+
+  @ApiProperty({ example: 0 })
+  tasksCreated: number;
+
+  @ApiProperty({ example: 12 })
+  notificationsSent: number;
+}
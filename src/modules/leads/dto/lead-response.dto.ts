@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { LeadStatus, LeadSource } from '../entities/lead.entity';
+import type { LeadScoreBreakdown } from '../interfaces/lead-score-breakdown.interface';
 
 export class LeadResponseDto {
   @ApiProperty({
@@ -158,6 +159,14 @@ export class LeadResponseDto {
   })
   assignedTo: string | null;
 
+  @ApiPropertyOptional({
+    description:
+      'How the lead was assigned: manual, round_robin, weighted or least_loaded',
+    example: 'round_robin',
+    nullable: true,
+  })
+  assignmentMethod: string | null;
+
   @ApiPropertyOptional({
     description: 'Lead score used for prioritization',
     example: 85,
@@ -165,6 +174,32 @@ export class LeadResponseDto {
   })
   leadScore: number | null;
 
+  @ApiPropertyOptional({
+    description:
+      'How the lead score was computed: weighted proximity, income and age components plus matched scoring rules',
+    example: {
+      baseScore: 72.5,
+      components: {
+        proximity: { score: 80, weight: 0.3, value: 5 },
+        income: { score: 45, weight: 0.4, value: 90000 },
+        age: { score: 100, weight: 0.3, value: 3.4 },
+      },
+      rules: [
+        {
+          ruleId: '123e4567-e89b-12d3-a456-426614174010',
+          ruleName: 'Referral bonus',
+          fieldName: 'lead_source_new',
+          conditionType: 'equals',
+          scoreImpact: 10,
+        },
+      ],
+      ruleImpact: 10,
+      total: 83,
+    },
+    nullable: true,
+  })
+  scoreBreakdown: LeadScoreBreakdown | null;
+
   @ApiPropertyOptional({
     description: 'Priority score used for ranking',
     example: 120,
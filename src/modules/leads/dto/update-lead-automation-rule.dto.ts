@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLeadAutomationRuleDto } from './create-lead-automation-rule.dto';
+
+export class UpdateLeadAutomationRuleDto extends PartialType(
+  OmitType(CreateLeadAutomationRuleDto, ['schoolId'] as const),
+) {}
@@ -0,0 +1,25 @@
+import { Column, Entity, JoinColumn, OneToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+import { LeadAssignmentMethod } from '../../../common/enums/lead-assignment-method.enum';
+
+@Entity('lead_assignment_config')
+export class LeadAssignmentConfig extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid', unique: true })
+  schoolId: string;
+
+  @Column({
+    type: 'varchar',
+    length: 50,
+    default: LeadAssignmentMethod.MANUAL,
+  })
+  strategy: LeadAssignmentMethod;
+
+  @Column({ name: 'cycle_started_at', type: 'timestamptz', nullable: true })
+  cycleStartedAt: Date | null;
+
+  // Relations
+  @OneToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
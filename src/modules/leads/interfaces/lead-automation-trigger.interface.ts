@@ -0,0 +1,46 @@
+import { TaskPriorityType } from '../../../common/enums/task-priority-type.enum';
+
+/** Reminder created for the assigned staff member when the rule matches */
+export interface LeadAutomationReminderAction {
+  title: string;
+  description?: string;
+  reminderType?: string;
+  /** Hours from the match until the reminder is due (default 0) */
+  dueInHours?: number;
+}
+
+/** Task created for the assigned staff member when the rule matches */
+export interface LeadAutomationTaskAction {
+  title: string;
+  description?: string;
+  priority?: TaskPriorityType;
+  /** Days from the match until the task is due (default 1) */
+  dueInDays?: number;
+}
+
+/**
+ * Stored in LeadAutomationRule.triggerCondition. The rule's own columns
+ * (fromStatus, scoreThreshold, daysInactive) select the leads; these add
+ * further filters and the actions taken besides the move to toStatus.
+ * "{childName}" and "{parentName}" in titles and descriptions are replaced.
+ */
+export interface LeadAutomationTriggerCondition {
+  programs?: string[];
+  /** Only leads whose score is at most this value, e.g. for cold leads */
+  maxScore?: number;
+  reminder?: LeadAutomationReminderAction;
+  task?: LeadAutomationTaskAction;
+  /** In-app notification to the assigned staff member (default true) */
+  notifyAssignee?: boolean;
+  /** Also email the assigned staff member (default false) */
+  notifyByEmail?: boolean;
+}
+
+export interface LeadAutomationRunResult {
+  rulesEvaluated: number;
+  leadsMatched: number;
+  statusChanges: number;
+  remindersCreated: number;
+  tasksCreated: number;
+  notificationsSent: number;
+}
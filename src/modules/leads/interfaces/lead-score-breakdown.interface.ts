@@ -0,0 +1,57 @@
+/**
+ * Condition types supported by LeadScoringRule.conditionType. The shape of
+ * conditionValue depends on the type:
+ * - equals / not_equals / contains / greater_than / less_than: { value }
+ * - in / not_in: { values: [] }
+ * - between: { min?, max? } (inclusive)
+ * - is_empty / is_not_empty: {}
+ */
+export enum ScoringConditionType {
+  EQUALS = 'equals',
+  NOT_EQUALS = 'not_equals',
+  IN = 'in',
+  NOT_IN = 'not_in',
+  CONTAINS = 'contains',
+  GREATER_THAN = 'greater_than',
+  LESS_THAN = 'less_than',
+  BETWEEN = 'between',
+  IS_EMPTY = 'is_empty',
+  IS_NOT_EMPTY = 'is_not_empty',
+}
+
+/** One weighted factor of the base score; score is 0-100, or null when the data is missing */
+export interface ScoreComponent {
+  score: number | null;
+  weight: number;
+  value: number | null;
+}
+
+export interface AppliedScoringRule {
+  ruleId: string;
+  ruleName: string;
+  fieldName: string;
+  conditionType: string;
+  scoreImpact: number;
+}
+
+/**
+ * Explanation of a lead score, stored in LeadEntity.scoreBreakdown.
+ * total = clamp(baseScore + sum of rule impacts, 0, 100).
+ */
+export interface LeadScoreBreakdown {
+  configId: string | null;
+  /** Weighted average of the components with data; 50 when none have data */
+  baseScore: number;
+  components: {
+    /** value: distance from the school in miles */
+    proximity: ScoreComponent;
+    /** value: median household income of the zip code */
+    income: ScoreComponent;
+    /** value: child age in years */
+    age: ScoreComponent;
+  };
+  rules: AppliedScoringRule[];
+  ruleImpact: number;
+  total: number;
+  scoredAt: string;
+}
@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LeadAssignmentService } from './lead-assignment.service';
+import {
+  LeadAssignmentSettingsResponseDto,
+  UpdateLeadAssignmentDto,
+} from './dto/lead-assignment.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Lead Assignment')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lead-assignment')
+export class LeadAssignmentController {
+  constructor(
+    private readonly leadAssignmentService: LeadAssignmentService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException('You can only manage your own school');
+    }
+  }
+
+  @Get()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Get lead assignment settings',
+    description:
+      'Returns the auto-assignment strategy and the staff rotation with per-cycle counters and open lead counts.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: "School ID (defaults to the user's school)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings retrieved successfully',
+    type: LeadAssignmentSettingsResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async getSettings(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    const targetSchoolId = schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, targetSchoolId);
+    return this.leadAssignmentService.getSettings(targetSchoolId!);
+  }
+
+  @Patch()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Update lead assignment settings',
+    description:
+      'Set the strategy used for new public, parent portal and form leads (round_robin, weighted, least_loaded, or manual to turn it off) and/or replace the staff rotation.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: "School ID (defaults to the user's school)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Settings updated successfully',
+    type: LeadAssignmentSettingsResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or user is not staff of the school',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async updateSettings(
+    @Body() updateLeadAssignmentDto: UpdateLeadAssignmentDto,
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    const targetSchoolId = schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, targetSchoolId);
+    return this.leadAssignmentService.updateSettings(
+      targetSchoolId!,
+      updateLeadAssignmentDto,
+    );
+  }
+
+  @Post('reset-cycle')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start a new assignment cycle',
+    description: "Reset every rotation member's per-cycle lead count to zero.",
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: "School ID (defaults to the user's school)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cycle reset successfully',
+    type: LeadAssignmentSettingsResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async resetCycle(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    const targetSchoolId = schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, targetSchoolId);
+    return this.leadAssignmentService.resetCycle(targetSchoolId!);
+  }
+}
@@ -0,0 +1,424 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, Repository } from 'typeorm';
+import { LeadEntity, LeadStatus } from './entities/lead.entity';
+import { LeadAssignmentConfig } from './entities/lead-assignment-config.entity';
+import {
+  LeadAssignmentMemberResponseDto,
+  LeadAssignmentSettingsResponseDto,
+  UpdateLeadAssignmentDto,
+} from './dto/lead-assignment.dto';
+import { StaffAssignmentRotation } from '../users/entities/staff-assignment-rotation.entity';
+import { UserRoleEntity } from '../users/entities/user-role.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { AppRole } from '../../common/enums/app-role.enum';
+import { LeadAssignmentMethod } from '../../common/enums/lead-assignment-method.enum';
+
+const ASSIGNABLE_ROLES = [
+  AppRole.SCHOOL_ADMIN,
+  AppRole.ADMISSIONS_STAFF,
+  AppRole.SCHOOL_OWNER,
+];
+
+// Leads in these statuses no longer count towards a member's load
+const CLOSED_STATUSES = [
+  LeadStatus.CONVERTED,
+  LeadStatus.ENROLLED,
+  LeadStatus.LOST,
+  LeadStatus.NOT_INTERESTED,
+  LeadStatus.DECLINED,
+  LeadStatus.DROPPED,
+];
+
+/**
+ * Assigns new leads to staff from the school's StaffAssignmentRotation using
+ * the strategy in LeadAssignmentConfig. A cycle ends once every active member
+ * has taken their share; the per-cycle counters are then reset.
+ */
+@Injectable()
+export class LeadAssignmentService {
+  private readonly logger = new Logger(LeadAssignmentService.name);
+
+  constructor(
+    @InjectRepository(LeadAssignmentConfig)
+    private readonly configRepository: Repository<LeadAssignmentConfig>,
+    @InjectRepository(StaffAssignmentRotation)
+    private readonly rotationRepository: Repository<StaffAssignmentRotation>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    @InjectRepository(UserRoleEntity)
+    private readonly userRoleRepository: Repository<UserRoleEntity>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async getSettings(
+    schoolId: string,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    const config = await this.configRepository.findOne({
+      where: { schoolId },
+    });
+    const members = await this.rotationRepository.find({
+      where: { schoolId },
+      order: { assignmentOrder: 'ASC', createdAt: 'ASC' },
+    });
+
+    const userIds = members.map((member) => member.userId);
+    const [profiles, openLeads] = await Promise.all([
+      userIds.length
+        ? this.profileRepository.find({ where: { id: In(userIds) } })
+        : Promise.resolve([] as ProfileEntity[]),
+      this.countOpenLeads(this.leadRepository.manager, schoolId, userIds),
+    ]);
+    const profileMap = new Map(profiles.map((p) => [p.id, p]));
+
+    return {
+      schoolId,
+      strategy: config?.strategy ?? LeadAssignmentMethod.MANUAL,
+      cycleStartedAt: config?.cycleStartedAt?.toISOString() ?? null,
+      members: members.map(
+        (member): LeadAssignmentMemberResponseDto => ({
+          id: member.id,
+          userId: member.userId,
+          firstName: profileMap.get(member.userId)?.firstName ?? null,
+          lastName: profileMap.get(member.userId)?.lastName ?? null,
+          email: profileMap.get(member.userId)?.email ?? null,
+          assignmentOrder: member.assignmentOrder,
+          isActive: member.isActive,
+          maxLeadsPerCycle: member.maxLeadsPerCycle,
+          currentLeadCount: member.currentLeadCount,
+          lastAssignedAt: member.lastAssignedAt?.toISOString() ?? null,
+          openLeads: openLeads.get(member.userId) ?? 0,
+        }),
+      ),
+    };
+  }
+
+  /**
+   * Change the strategy and/or replace the rotation. Counters of members that
+   * stay in the rotation are kept so the current cycle is not disturbed.
+   */
+  async updateSettings(
+    schoolId: string,
+    dto: UpdateLeadAssignmentDto,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    if (dto.members?.length) {
+      await this.ensureAssignableStaff(
+        schoolId,
+        dto.members.map((member) => member.userId),
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      const config =
+        (await manager.findOne(LeadAssignmentConfig, {
+          where: { schoolId },
+          lock: { mode: 'pessimistic_write' },
+        })) ??
+        manager.create(LeadAssignmentConfig, {
+          schoolId,
+          strategy: LeadAssignmentMethod.MANUAL,
+          cycleStartedAt: new Date(),
+        });
+      if (dto.strategy !== undefined) {
+        config.strategy = dto.strategy;
+      }
+      await manager.save(config);
+
+      if (!dto.members) {
+        return;
+      }
+
+      const existing = await manager.find(StaffAssignmentRotation, {
+        where: { schoolId },
+      });
+      const existingByUser = new Map(
+        existing.map((member) => [member.userId, member]),
+      );
+      const keptUserIds = new Set(dto.members.map((member) => member.userId));
+
+      const removed = existing.filter(
+        (member) => !keptUserIds.has(member.userId),
+      );
+      if (removed.length) {
+        await manager.remove(removed);
+      }
+
+      await manager.save(
+        dto.members.map((member, index) => {
+          const entry =
+            existingByUser.get(member.userId) ??
+            manager.create(StaffAssignmentRotation, {
+              schoolId,
+              userId: member.userId,
+              currentLeadCount: 0,
+              lastAssignedAt: null,
+            });
+          entry.assignmentOrder = member.assignmentOrder ?? index;
+          entry.maxLeadsPerCycle =
+            member.maxLeadsPerCycle ?? entry.maxLeadsPerCycle ?? 10;
+          entry.isActive = member.isActive ?? entry.isActive ?? true;
+          return entry;
+        }),
+      );
+    });
+
+    return this.getSettings(schoolId);
+  }
+
+  /**
+   * Start a new cycle: every member's per-cycle counter goes back to zero
+   */
+  async resetCycle(
+    schoolId: string,
+  ): Promise<LeadAssignmentSettingsResponseDto> {
+    await this.dataSource.transaction(async (manager) => {
+      await this.startNewCycle(manager, schoolId);
+    });
+    return this.getSettings(schoolId);
+  }
+
+  /**
+   * Pick a staff member for a new unassigned lead and set assignedTo and
+   * assignmentMethod on it (the caller saves the lead). Leaves the lead
+   * unassigned when the school has no strategy or no eligible members.
+   * Never throws, so a rotation problem cannot block lead capture.
+   */
+  async assignNewLead(lead: LeadEntity): Promise<void> {
+    if (lead.assignedTo || !lead.schoolId) {
+      return;
+    }
+
+    try {
+      await this.dataSource.transaction(async (manager) => {
+        // The config row lock serializes assignments within a school
+        const config = await manager.findOne(LeadAssignmentConfig, {
+          where: { schoolId: lead.schoolId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!config || config.strategy === LeadAssignmentMethod.MANUAL) {
+          return;
+        }
+
+        const members = await this.findEligibleMembers(manager, lead.schoolId);
+        if (!members.length) {
+          this.logger.warn(
+            `No eligible staff in the assignment rotation of school ${lead.schoolId}`,
+          );
+          return;
+        }
+
+        const member = await this.pickMember(
+          manager,
+          config.strategy,
+          lead.schoolId,
+          members,
+        );
+        if (!member) {
+          return;
+        }
+
+        member.currentLeadCount += 1;
+        member.lastAssignedAt = new Date();
+        await manager.save(member);
+
+        lead.assignedTo = member.userId;
+        lead.assignmentMethod = config.strategy;
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to auto-assign lead for school ${lead.schoolId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async pickMember(
+    manager: EntityManager,
+    strategy: LeadAssignmentMethod,
+    schoolId: string,
+    members: StaffAssignmentRotation[],
+  ): Promise<StaffAssignmentRotation | null> {
+    switch (strategy) {
+      case LeadAssignmentMethod.ROUND_ROBIN:
+        return this.pickRoundRobin(manager, schoolId, members);
+      case LeadAssignmentMethod.WEIGHTED:
+        return this.pickWeighted(manager, schoolId, members);
+      case LeadAssignmentMethod.LEAST_LOADED:
+        return this.pickLeastLoaded(manager, schoolId, members);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * The member after the one who was assigned last; wrapping around to the
+   * first member starts a new cycle
+   */
+  private async pickRoundRobin(
+    manager: EntityManager,
+    schoolId: string,
+    members: StaffAssignmentRotation[],
+  ): Promise<StaffAssignmentRotation> {
+    const last = members.reduce<StaffAssignmentRotation | null>(
+      (latest, member) =>
+        member.lastAssignedAt &&
+        (!latest?.lastAssignedAt ||
+          member.lastAssignedAt > latest.lastAssignedAt)
+          ? member
+          : latest,
+      null,
+    );
+    const nextIndex = last ? members.indexOf(last) + 1 : 0;
+
+    if (nextIndex >= members.length) {
+      await this.startNewCycle(manager, schoolId, members);
+      return members[0];
+    }
+    return members[nextIndex];
+  }
+
+  /**
+   * The member furthest from their per-cycle share, so leads interleave in
+   * proportion to maxLeadsPerCycle. A new cycle starts when every share is used.
+   */
+  private async pickWeighted(
+    manager: EntityManager,
+    schoolId: string,
+    members: StaffAssignmentRotation[],
+  ): Promise<StaffAssignmentRotation | null> {
+    const weighted = members.filter((member) => member.maxLeadsPerCycle > 0);
+    if (!weighted.length) {
+      return null;
+    }
+
+    let candidates = weighted.filter(
+      (member) => member.currentLeadCount < member.maxLeadsPerCycle,
+    );
+    if (!candidates.length) {
+      await this.startNewCycle(manager, schoolId, members);
+      candidates = weighted;
+    }
+
+    return candidates.reduce((best, member) =>
+      member.currentLeadCount / member.maxLeadsPerCycle <
+      best.currentLeadCount / best.maxLeadsPerCycle
+        ? member
+        : best,
+    );
+  }
+
+  /**
+   * The member with the fewest open leads; ties go to whoever waited longest
+   */
+  private async pickLeastLoaded(
+    manager: EntityManager,
+    schoolId: string,
+    members: StaffAssignmentRotation[],
+  ): Promise<StaffAssignmentRotation> {
+    const openLeads = await this.countOpenLeads(
+      manager,
+      schoolId,
+      members.map((member) => member.userId),
+    );
+    const waitedSince = (member: StaffAssignmentRotation) =>
+      member.lastAssignedAt?.getTime() ?? 0;
+
+    return members.reduce((best, member) => {
+      const load = openLeads.get(member.userId) ?? 0;
+      const bestLoad = openLeads.get(best.userId) ?? 0;
+      if (load !== bestLoad) {
+        return load < bestLoad ? member : best;
+      }
+      return waitedSince(member) < waitedSince(best) ? member : best;
+    });
+  }
+
+  /**
+   * Active rotation members that still hold a staff role at the school,
+   * in assignment order
+   */
+  private async findEligibleMembers(
+    manager: EntityManager,
+    schoolId: string,
+  ): Promise<StaffAssignmentRotation[]> {
+    const members = await manager.find(StaffAssignmentRotation, {
+      where: { schoolId, isActive: true },
+      order: { assignmentOrder: 'ASC', createdAt: 'ASC' },
+    });
+    if (!members.length) {
+      return [];
+    }
+
+    const roles = await manager.find(UserRoleEntity, {
+      select: { userId: true },
+      where: {
+        schoolId,
+        userId: In(members.map((member) => member.userId)),
+        role: In(ASSIGNABLE_ROLES),
+      },
+    });
+    const staff = new Set(roles.map((role) => role.userId));
+    return members.filter((member) => staff.has(member.userId));
+  }
+
+  private async countOpenLeads(
+    manager: EntityManager,
+    schoolId: string,
+    userIds: string[],
+  ): Promise<Map<string, number>> {
+    if (!userIds.length) {
+      return new Map();
+    }
+
+    const rows = await manager
+      .createQueryBuilder(LeadEntity, 'lead')
+      .select('lead.assigned_to', 'userId')
+      .addSelect('COUNT(*)', 'count')
+      .where('lead.school_id = :schoolId', { schoolId })
+      .andWhere('lead.assigned_to IN (:...userIds)', { userIds })
+      .andWhere('lead.lead_status NOT IN (:...closed)', {
+        closed: CLOSED_STATUSES,
+      })
+      .groupBy('lead.assigned_to')
+      .getRawMany<{ userId: string; count: string }>();
+
+    return new Map(rows.map((row) => [row.userId, Number(row.count)]));
+  }
+
+  private async startNewCycle(
+    manager: EntityManager,
+    schoolId: string,
+    members: StaffAssignmentRotation[] = [],
+  ): Promise<void> {
+    await manager.update(
+      StaffAssignmentRotation,
+      { schoolId },
+      { currentLeadCount: 0 },
+    );
+    await manager.update(
+      LeadAssignmentConfig,
+      { schoolId },
+      { cycleStartedAt: new Date() },
+    );
+    members.forEach((member) => (member.currentLeadCount = 0));
+  }
+
+  private async ensureAssignableStaff(
+    schoolId: string,
+    userIds: string[],
+  ): Promise<void> {
+    const roles = await this.userRoleRepository.find({
+      select: { userId: true },
+      where: { schoolId, userId: In(userIds), role: In(ASSIGNABLE_ROLES) },
+    });
+    const staff = new Set(roles.map((role) => role.userId));
+    const invalid = userIds.filter((userId) => !staff.has(userId));
+
+    if (invalid.length) {
+      throw new BadRequestException(
+        `Users are not staff of this school: ${invalid.join(', ')}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAutomationRule } from './entities/lead-automation-rule.entity';
+import { CreateLeadAutomationRuleDto } from './dto/create-lead-automation-rule.dto';
+import { UpdateLeadAutomationRuleDto } from './dto/update-lead-automation-rule.dto';
+import {
+  LeadAutomationRuleResponseDto,
+  LeadAutomationRunResponseDto,
+} from './dto/lead-automation-rule-response.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Lead Automation Rules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(LeadAutomationRule)
+@Controller('lead-automation-rules')
+export class LeadAutomationRulesController {
+  constructor(
+    private readonly leadAutomationService: LeadAutomationService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException('You can only manage your own school');
+    }
+  }
+
+  /**
+   * Global rules (no school) apply to every school, so only super admins manage them
+   */
+  private async ensureUserCanManageRule(
+    user: AuthUser,
+    schoolId: string | null | undefined,
+  ): Promise<void> {
+    if (!schoolId) {
+      if (user.primaryRole !== AppRole.SUPER_ADMIN) {
+        throw new ForbiddenException(
+          'Only super admins can manage global rules',
+        );
+      }
+      return;
+    }
+
+    await this.ensureUserCanManageSchool(user, schoolId);
+  }
+
+  @Post()
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Create a lead automation rule',
+    description:
+      'Match leads by status, minimum score and days without activity, then move their status, create a reminder or task and notify the assigned staff member. Rules are evaluated every hour.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Rule created successfully',
+    type: LeadAutomationRuleResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid input or rule without a match condition',
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async create(
+    @Body() createLeadAutomationRuleDto: CreateLeadAutomationRuleDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<LeadAutomationRuleResponseDto> {
+    await this.ensureUserCanManageRule(
+      user,
+      createLeadAutomationRuleDto.schoolId,
+    );
+
+    const rule = await this.leadAutomationService.create(
+      createLeadAutomationRuleDto,
+    );
+    return this.mapToResponseDto(rule);
+  }
+
+  @Get()
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({
+    summary: 'List lead automation rules',
+    description:
+      'List the rules of a school, including global rules. Super admins may omit schoolId to list every rule.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'School ID (required unless super admin)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules retrieved successfully',
+    type: [LeadAutomationRuleResponseDto],
+  })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findAll(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<{ data: LeadAutomationRuleResponseDto[]; total: number }> {
+    const isSuperAdmin = user.primaryRole === AppRole.SUPER_ADMIN;
+    const filterSchoolId =
+      schoolId ?? (isSuperAdmin ? undefined : (user.schoolId ?? undefined));
+    if (!isSuperAdmin) {
+      await this.ensureUserCanManageSchool(user, filterSchoolId);
+    }
+
+    const rules = await this.leadAutomationService.findAll(filterSchoolId);
+    return {
+      data: rules.map((rule) => this.mapToResponseDto(rule)),
+      total: rules.length,
+    };
+  }
+
+  @Post('run')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run lead automation rules now',
+    description:
+      'Evaluate the active rules of a school, global rules included, without waiting for the hourly run. A rule acts on a lead once until the lead has new activity.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: true,
+    type: String,
+    description: 'School ID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rules evaluated successfully',
+    type: LeadAutomationRunResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async run(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<LeadAutomationRunResponseDto> {
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.leadAutomationService.evaluateSchool(schoolId!);
+  }
+
+  @Get(':id')
+  @Roles(
+    AppRole.SUPER_ADMIN,
+    AppRole.SCHOOL_ADMIN,
+    AppRole.ADMISSIONS_STAFF,
+    AppRole.SCHOOL_OWNER,
+  )
+  @ApiOperation({ summary: 'Get a lead automation rule by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+    example: '123e4567-e89b-12d3-a456-426614174040',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule retrieved successfully',
+    type: LeadAutomationRuleResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Rule not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<LeadAutomationRuleResponseDto> {
+    const rule = await this.leadAutomationService.findOne(id);
+    if (rule.schoolId) {
+      await this.ensureUserCanManageSchool(user, rule.schoolId);
+    }
+    return this.mapToResponseDto(rule);
+  }
+
+  @Patch(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Update a lead automation rule',
+    description:
+      'Change the match conditions or actions, or switch the rule on or off.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+    example: '123e4567-e89b-12d3-a456-426614174040',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rule updated successfully',
+    type: LeadAutomationRuleResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid input' })
+  @ApiNotFoundResponse({ description: 'Rule not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateLeadAutomationRuleDto: UpdateLeadAutomationRuleDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<LeadAutomationRuleResponseDto> {
+    const rule = await this.leadAutomationService.findOne(id);
+    await this.ensureUserCanManageRule(user, rule.schoolId);
+
+    const updated = await this.leadAutomationService.update(
+      id,
+      updateLeadAutomationRuleDto,
+    );
+    return this.mapToResponseDto(updated);
+  }
+
+  @Delete(':id')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a lead automation rule' })
+  @ApiParam({
+    name: 'id',
+    description: 'Rule ID',
+    example: '123e4567-e89b-12d3-a456-426614174040',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Rule deleted successfully',
+  })
+  @ApiNotFoundResponse({ description: 'Rule not found' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const rule = await this.leadAutomationService.findOne(id);
+    await this.ensureUserCanManageRule(user, rule.schoolId);
+    await this.leadAutomationService.remove(id);
+  }
+
+  private mapToResponseDto(
+    rule: LeadAutomationRule,
+  ): LeadAutomationRuleResponseDto {
+    return {
+      id: rule.id,
+      schoolId: rule.schoolId,
+      ruleName: rule.ruleName,
+      triggerCondition: rule.triggerCondition ?? {},
+      scoreThreshold: rule.scoreThreshold,
+      daysInactive: rule.daysInactive,
+      fromStatus: rule.fromStatus,
+      toStatus: rule.toStatus,
+      isActive: rule.isActive,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAutomationRunResult } from './interfaces/lead-automation-trigger.interface';
+import {
+  EVALUATE_LEAD_RULES_JOB,
+  LEAD_AUTOMATION_QUEUE,
+} from './leads.constants';
+
+// Inactivity is measured in days, so an hourly run is precise enough
+const EVALUATION_INTERVAL_MS = 60 * 60_000;
+
+/**
+ * Evaluates the lead automation rules every hour
+ */
+@Processor(LEAD_AUTOMATION_QUEUE)
+export class LeadAutomationProcessor implements OnModuleInit {
+  private readonly logger = new Logger(LeadAutomationProcessor.name);
+
+  constructor(
+    @InjectQueue(LEAD_AUTOMATION_QUEUE)
+    private readonly automationQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly leadAutomationService: LeadAutomationService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.automationQueue,
+      EVALUATE_LEAD_RULES_JOB,
+      { every: EVALUATION_INTERVAL_MS },
+    );
+  }
+
+  @Process(EVALUATE_LEAD_RULES_JOB)
+  async evaluateRules(): Promise<LeadAutomationRunResult> {
+    const result = await this.leadAutomationService.evaluateAll();
+    if (result.leadsMatched > 0) {
+      this.logger.log(
+        `Lead automation rules matched ${result.leadsMatched} leads`,
+      );
+    }
+    return result;
+  }
+}
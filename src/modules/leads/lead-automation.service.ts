@@ -0,0 +1,503 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { LeadsService } from './leads.service';
+import { LeadEntity, LeadStatus } from './entities/lead.entity';
+import { LeadAutomationRule } from './entities/lead-automation-rule.entity';
+import { LeadAuditLog } from './entities/lead-audit-log.entity';
+import { LeadReminder } from './entities/lead-reminder.entity';
+import { CreateLeadAutomationRuleDto } from './dto/create-lead-automation-rule.dto';
+import { UpdateLeadAutomationRuleDto } from './dto/update-lead-automation-rule.dto';
+import {
+  LeadAutomationRunResult,
+  LeadAutomationTriggerCondition,
+} from './interfaces/lead-automation-trigger.interface';
+import { Task } from '../tasks/entities/task.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { MailerService } from '../mailer/mailer.service';
+import { LeadStatusType } from '../../common/enums/lead-status-type.enum';
+import { ReminderStatusType } from '../../common/enums/reminder-status-type.enum';
+import { TaskPriorityType } from '../../common/enums/task-priority-type.enum';
+import { TaskStatusType } from '../../common/enums/task-status-type.enum';
+import { EmailType } from '../../common/enums/email-type.enum';
+
+// Most leads a rule acts on per run, so a new rule cannot flood staff at once
+const MAX_LEADS_PER_RULE = 500;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const LEAD_STATUSES = Object.values(LeadStatus) as string[];
+const AUDIT_STATUSES = Object.values(LeadStatusType) as string[];
+
+type RuleAction = 'status' | 'reminder' | 'task' | 'notification';
+
+const emptyResult = (): LeadAutomationRunResult => ({
+  rulesEvaluated: 0,
+  leadsMatched: 0,
+  statusChanges: 0,
+  remindersCreated: 0,
+  tasksCreated: 0,
+  notificationsSent: 0,
+});
+
+/**
+ * Manages lead automation rules and evaluates them on a schedule. A rule
+ * matches leads in fromStatus, scoring at least scoreThreshold and/or inactive
+ * for daysInactive days. Matching leads are moved to toStatus and the assigned
+ * staff member (or the school owner) gets the configured reminder, task and
+ * notification. Every change is written to LeadAuditLog, which also keeps a
+ * rule from acting on the same lead again until the lead has new activity.
+ */
+@Injectable()
+export class LeadAutomationService {
+  private readonly logger = new Logger(LeadAutomationService.name);
+
+  constructor(
+    @InjectRepository(LeadAutomationRule)
+    private readonly ruleRepository: Repository<LeadAutomationRule>,
+    @InjectRepository(LeadAuditLog)
+    private readonly auditLogRepository: Repository<LeadAuditLog>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    @InjectRepository(LeadReminder)
+    private readonly reminderRepository: Repository<LeadReminder>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    private readonly leadsService: LeadsService,
+    private readonly mailerService: MailerService,
+  ) {}
+
+  /**
+   * Rules of a school, including the global rules that apply to every school
+   */
+  async findAll(schoolId?: string): Promise<LeadAutomationRule[]> {
+    return this.ruleRepository.find({
+      where: schoolId ? [{ schoolId }, { schoolId: IsNull() }] : {},
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string): Promise<LeadAutomationRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id } });
+
+    if (!rule) {
+      throw new NotFoundException(
+        `Lead automation rule with ID "${id}" not found`,
+      );
+    }
+
+    return rule;
+  }
+
+  async create(dto: CreateLeadAutomationRuleDto): Promise<LeadAutomationRule> {
+    const rule = this.ruleRepository.create({
+      schoolId: dto.schoolId ?? null,
+      ruleName: dto.ruleName,
+      triggerCondition: dto.triggerCondition ?? {},
+      scoreThreshold: dto.scoreThreshold ?? null,
+      daysInactive: dto.daysInactive ?? null,
+      fromStatus: dto.fromStatus ?? null,
+      toStatus: dto.toStatus ?? null,
+      isActive: dto.isActive ?? true,
+    });
+    this.validateRule(rule);
+
+    return this.ruleRepository.save(rule);
+  }
+
+  async update(
+    id: string,
+    dto: UpdateLeadAutomationRuleDto,
+  ): Promise<LeadAutomationRule> {
+    const rule = await this.findOne(id);
+    Object.assign(rule, dto);
+    this.validateRule(rule);
+
+    return this.ruleRepository.save(rule);
+  }
+
+  async remove(id: string): Promise<void> {
+    const rule = await this.findOne(id);
+    await this.ruleRepository.remove(rule);
+  }
+
+  /**
+   * Evaluate every active rule. Called by the scheduled job.
+   */
+  async evaluateAll(): Promise<LeadAutomationRunResult> {
+    const rules = await this.ruleRepository.find({
+      where: { isActive: true },
+      order: { createdAt: 'ASC' },
+    });
+    return this.evaluateRules(rules);
+  }
+
+  /**
+   * Evaluate the active rules of one school now, global rules included
+   */
+  async evaluateSchool(schoolId: string): Promise<LeadAutomationRunResult> {
+    const rules = await this.ruleRepository.find({
+      where: [
+        { schoolId, isActive: true },
+        { schoolId: IsNull(), isActive: true },
+      ],
+      order: { createdAt: 'ASC' },
+    });
+    return this.evaluateRules(rules, schoolId);
+  }
+
+  private async evaluateRules(
+    rules: LeadAutomationRule[],
+    schoolId?: string,
+  ): Promise<LeadAutomationRunResult> {
+    const result = emptyResult();
+
+    for (const rule of rules) {
+      try {
+        await this.evaluateRule(rule, result, schoolId);
+        result.rulesEvaluated++;
+      } catch (error) {
+        this.logger.error(
+          `Lead automation rule ${rule.id} failed: ${(error as Error).message}`,
+          (error as Error).stack,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private async evaluateRule(
+    rule: LeadAutomationRule,
+    result: LeadAutomationRunResult,
+    schoolId?: string,
+  ): Promise<void> {
+    try {
+      this.validateRule(rule);
+    } catch (error) {
+      this.logger.warn(
+        `Skipping lead automation rule ${rule.id}: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    const leads = await this.findMatchingLeads(rule, schoolId);
+    for (const lead of leads) {
+      try {
+        await this.applyRule(rule, lead, result);
+        result.leadsMatched++;
+      } catch (error) {
+        this.logger.error(
+          `Lead automation rule ${rule.id} failed for lead ${lead.id}: ${(error as Error).message}`,
+          (error as Error).stack,
+        );
+      }
+    }
+
+    if (leads.length) {
+      this.logger.log(
+        `Lead automation rule ${rule.id} matched ${leads.length} leads`,
+      );
+    }
+  }
+
+  private async findMatchingLeads(
+    rule: LeadAutomationRule,
+    schoolId?: string,
+  ): Promise<LeadEntity[]> {
+    const condition = (rule.triggerCondition ??
+      {}) as LeadAutomationTriggerCondition;
+    const lastActivity = 'COALESCE(lead.last_activity_at, lead.created_at)';
+
+    const queryBuilder = this.leadRepository
+      .createQueryBuilder('lead')
+      .where('lead.is_active IS NOT FALSE')
+      // Act once per lead until the lead has new activity
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM lead_audit_log audit
+          WHERE audit.lead_id = lead.id
+            AND audit.automation_rule_id = :ruleId
+            AND audit.created_at >= ${lastActivity}
+        )`,
+        { ruleId: rule.id },
+      );
+
+    const targetSchoolId = rule.schoolId ?? schoolId;
+    if (targetSchoolId) {
+      queryBuilder.andWhere('lead.school_id = :schoolId', {
+        schoolId: targetSchoolId,
+      });
+    }
+    if (rule.fromStatus) {
+      queryBuilder.andWhere('lead.lead_status = :fromStatus', {
+        fromStatus: rule.fromStatus,
+      });
+    } else if (rule.toStatus) {
+      queryBuilder.andWhere('lead.lead_status IS DISTINCT FROM :toStatus', {
+        toStatus: rule.toStatus,
+      });
+    }
+    if (typeof rule.scoreThreshold === 'number') {
+      queryBuilder.andWhere('COALESCE(lead.lead_score, 0) >= :minScore', {
+        minScore: rule.scoreThreshold,
+      });
+    }
+    if (typeof condition.maxScore === 'number') {
+      queryBuilder.andWhere('COALESCE(lead.lead_score, 0) <= :maxScore', {
+        maxScore: condition.maxScore,
+      });
+    }
+    if (typeof rule.daysInactive === 'number') {
+      queryBuilder.andWhere(
+        `${lastActivity} <= NOW() - make_interval(days => :daysInactive)`,
+        { daysInactive: rule.daysInactive },
+      );
+    }
+    if (condition.programs?.length) {
+      queryBuilder.andWhere('lead.program IN (:...programs)', {
+        programs: condition.programs,
+      });
+    }
+
+    return queryBuilder
+      .orderBy(lastActivity, 'ASC')
+      .take(MAX_LEADS_PER_RULE)
+      .getMany();
+  }
+
+  private async applyRule(
+    rule: LeadAutomationRule,
+    lead: LeadEntity,
+    result: LeadAutomationRunResult,
+  ): Promise<void> {
+    const condition = (rule.triggerCondition ??
+      {}) as LeadAutomationTriggerCondition;
+    const assigneeId = lead.assignedTo ?? (await this.getSchoolOwnerId(lead));
+    const applied: RuleAction[] = [];
+
+    if (
+      rule.toStatus &&
+      (rule.toStatus as string) !== (lead.leadStatus as string)
+    ) {
+      const oldStatus = lead.leadStatus;
+      await this.leadsService.updateStatus(
+        lead.id,
+        rule.toStatus as unknown as LeadStatus,
+      );
+      await this.audit(rule, lead, 'status_changed', {
+        oldStatus,
+        newStatus: rule.toStatus,
+        notes: `Moved from ${oldStatus} to ${rule.toStatus}`,
+      });
+      applied.push('status');
+      result.statusChanges++;
+    }
+
+    if (condition.reminder && assigneeId) {
+      const reminder = await this.reminderRepository.save(
+        this.reminderRepository.create({
+          leadId: lead.id,
+          assignedTo: assigneeId,
+          reminderType: condition.reminder.reminderType || 'follow_up',
+          title: this.render(condition.reminder.title, lead),
+          description: condition.reminder.description
+            ? this.render(condition.reminder.description, lead)
+            : null,
+          scheduledFor: new Date(
+            Date.now() +
+              Math.max(0, condition.reminder.dueInHours ?? 0) * MS_PER_HOUR,
+          ),
+          status: ReminderStatusType.PENDING,
+          metadata: { automationRuleId: rule.id, isAutomated: true },
+        }),
+      );
+      await this.audit(rule, lead, 'reminder_created', {
+        notes: `Reminder "${reminder.title}" created for ${assigneeId}`,
+      });
+      applied.push('reminder');
+      result.remindersCreated++;
+    }
+
+    if (condition.task && assigneeId) {
+      const dueInDays = condition.task.dueInDays ?? 1;
+      const task = await this.taskRepository.save(
+        this.taskRepository.create({
+          title: this.render(condition.task.title, lead),
+          description: [
+            condition.task.description
+              ? this.render(condition.task.description, lead)
+              : null,
+            `Lead: ${lead.childName} (${lead.parentName}, ${lead.parentEmail})`,
+          ]
+            .filter(Boolean)
+            .join('\n\n'),
+          priority: condition.task.priority ?? TaskPriorityType.MEDIUM,
+          status: TaskStatusType.PENDING,
+          dueDate: new Date(
+            Date.now() + Math.max(0, dueInDays) * 24 * MS_PER_HOUR,
+          ),
+          assignedTo: assigneeId,
+          schoolId: lead.schoolId,
+          createdBy: assigneeId,
+        }),
+      );
+      await this.audit(rule, lead, 'task_created', {
+        notes: `Task "${task.title}" (${task.id}) created for ${assigneeId}`,
+      });
+      applied.push('task');
+      result.tasksCreated++;
+    }
+
+    if (condition.notifyAssignee !== false && assigneeId) {
+      await this.notifyAssignee(rule, lead, assigneeId, condition);
+      await this.audit(rule, lead, 'staff_notified', {
+        notes: `Notified ${assigneeId}`,
+      });
+      applied.push('notification');
+      result.notificationsSent++;
+    }
+
+    // Record the match even without changes so the rule does not fire again
+    if (!applied.length) {
+      await this.audit(rule, lead, 'rule_matched', {
+        notes: 'Rule matched but had no action to take',
+      });
+    }
+  }
+
+  private async notifyAssignee(
+    rule: LeadAutomationRule,
+    lead: LeadEntity,
+    assigneeId: string,
+    condition: LeadAutomationTriggerCondition,
+  ): Promise<void> {
+    const title = `${rule.ruleName}: ${lead.childName}`;
+    const message = this.describeMatch(rule, lead);
+
+    // lead_notifications has no updated_at column, so insert without the base entity
+    await this.leadRepository.query(
+      `INSERT INTO lead_notifications (lead_id, user_id, notification_type, title, message, sent_via_email)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        lead.id,
+        assigneeId,
+        'lead_automation',
+        title,
+        message,
+        !!condition.notifyByEmail,
+      ],
+    );
+
+    if (!condition.notifyByEmail) {
+      return;
+    }
+
+    const profile = await this.profileRepository.findOne({
+      where: { id: assigneeId },
+      select: ['id', 'email', 'firstName'],
+    });
+    if (!profile?.email) {
+      return;
+    }
+
+    await this.mailerService.sendEmail({
+      to: profile.email,
+      subject: title,
+      html: `<p>Hi ${profile.firstName || 'there'},</p><p>${message}</p><p>Parent: ${lead.parentName} (${lead.parentEmail}${lead.parentPhone ? `, ${lead.parentPhone}` : ''})</p>`,
+      emailType: EmailType.LEAD_NOTIFICATION,
+      userId: profile.id,
+      schoolId: lead.schoolId,
+      metadata: { leadId: lead.id, automationRuleId: rule.id },
+    });
+  }
+
+  private describeMatch(rule: LeadAutomationRule, lead: LeadEntity): string {
+    const reasons: string[] = [];
+    if (typeof rule.daysInactive === 'number') {
+      reasons.push(`has had no activity for ${rule.daysInactive}+ days`);
+    }
+    if (typeof rule.scoreThreshold === 'number') {
+      reasons.push(
+        `has a lead score of ${lead.leadScore ?? 0} (threshold ${rule.scoreThreshold})`,
+      );
+    }
+    if (rule.fromStatus) {
+      reasons.push(`is in status "${rule.fromStatus}"`);
+    }
+
+    const moved = rule.toStatus ? ` It was moved to "${rule.toStatus}".` : '';
+    return `The lead for ${lead.childName} ${reasons.join(' and ')}.${moved}`;
+  }
+
+  private async audit(
+    rule: LeadAutomationRule,
+    lead: LeadEntity,
+    actionType: string,
+    details: { oldStatus?: string; newStatus?: string; notes: string },
+  ): Promise<void> {
+    // The audit columns use the wider LeadStatusType enum
+    const toAuditStatus = (status?: string): LeadStatusType | null =>
+      status && AUDIT_STATUSES.includes(status)
+        ? (status as LeadStatusType)
+        : null;
+
+    await this.auditLogRepository.save(
+      this.auditLogRepository.create({
+        leadId: lead.id,
+        userId: null,
+        actionType,
+        automationRuleId: rule.id,
+        isAutomated: true,
+        notes: details.notes,
+        oldStatus: toAuditStatus(details.oldStatus),
+        newStatus: toAuditStatus(details.newStatus),
+      }),
+    );
+  }
+
+  private async getSchoolOwnerId(lead: LeadEntity): Promise<string | null> {
+    const school = await this.schoolRepository.findOne({
+      where: { id: lead.schoolId },
+      select: ['id', 'ownerId'],
+    });
+    return school?.ownerId ?? null;
+  }
+
+  private render(template: string, lead: LeadEntity): string {
+    return template
+      .replace(/\{childName\}/g, lead.childName ?? '')
+      .replace(/\{parentName\}/g, lead.parentName ?? '');
+  }
+
+  private validateRule(rule: LeadAutomationRule): void {
+    if (
+      !rule.fromStatus &&
+      typeof rule.scoreThreshold !== 'number' &&
+      typeof rule.daysInactive !== 'number'
+    ) {
+      throw new BadRequestException(
+        'A rule needs at least one of fromStatus, scoreThreshold or daysInactive',
+      );
+    }
+
+    // Leads use the narrower LeadStatus enum
+    for (const status of [rule.fromStatus, rule.toStatus]) {
+      if (status && !LEAD_STATUSES.includes(status)) {
+        throw new BadRequestException(
+          `Status "${status}" cannot be used on leads`,
+        );
+      }
+    }
+  }
+}
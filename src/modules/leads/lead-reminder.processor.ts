@@ -0,0 +1,48 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import {
+  LeadReminderRunResult,
+  LeadReminderService,
+} from './lead-reminder.service';
+import {
+  LEAD_REMINDERS_QUEUE,
+  SEND_DUE_REMINDERS_JOB,
+} from './leads.constants';
+
+const REMINDER_CRON = '*/5 * * * *';
+
+/**
+ * Sends lead reminders that came due, every five minutes
+ */
+@Processor(LEAD_REMINDERS_QUEUE)
+export class LeadReminderProcessor implements OnModuleInit {
+  private readonly logger = new Logger(LeadReminderProcessor.name);
+
+  constructor(
+    @InjectQueue(LEAD_REMINDERS_QUEUE)
+    private readonly remindersQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly leadReminderService: LeadReminderService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.remindersQueue,
+      SEND_DUE_REMINDERS_JOB,
+      { cron: REMINDER_CRON },
+    );
+  }
+
+  @Process(SEND_DUE_REMINDERS_JOB)
+  async sendDueReminders(): Promise<LeadReminderRunResult> {
+    const result = await this.leadReminderService.sendDueReminders();
+    if (result.remindersSent > 0 || result.remindersFailed > 0) {
+      this.logger.log(
+        `Sent ${result.remindersSent} lead reminders, ${result.remindersFailed} failed`,
+      );
+    }
+    return result;
+  }
+}
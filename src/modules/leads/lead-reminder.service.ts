@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { LeadReminder } from './entities/lead-reminder.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { MailerService } from '../mailer/mailer.service';
+import { ReminderStatusType } from '../../common/enums/reminder-status-type.enum';
+import { EmailType } from '../../common/enums/email-type.enum';
+
+const REMINDER_BATCH_SIZE = 200;
+
+/** Days until the next occurrence for each LeadReminder.recurringInterval */
+const RECURRING_INTERVAL_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+};
+
+export interface LeadReminderRunResult {
+  remindersSent: number;
+  remindersFailed: number;
+}
+
+/**
+ * Delivers lead reminders when they come due: the assignee gets an in-app
+ * lead notification and an email, and recurring reminders get their next
+ * occurrence. Called by the scheduled job.
+ */
+@Injectable()
+export class LeadReminderService {
+  private readonly logger = new Logger(LeadReminderService.name);
+
+  constructor(
+    @InjectRepository(LeadReminder)
+    private readonly reminderRepository: Repository<LeadReminder>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    private readonly mailerService: MailerService,
+  ) {}
+
+  async sendDueReminders(): Promise<LeadReminderRunResult> {
+    const due = await this.reminderRepository.find({
+      where: {
+        status: ReminderStatusType.PENDING,
+        scheduledFor: LessThanOrEqual(new Date()),
+      },
+      relations: ['lead'],
+      order: { scheduledFor: 'ASC' },
+      take: REMINDER_BATCH_SIZE,
+    });
+
+    const result: LeadReminderRunResult = {
+      remindersSent: 0,
+      remindersFailed: 0,
+    };
+    for (const reminder of due) {
+      // Claiming the reminder first keeps concurrent runs from sending it twice
+      const claimed = await this.reminderRepository.update(
+        { id: reminder.id, status: ReminderStatusType.PENDING },
+        { status: ReminderStatusType.SENT },
+      );
+      if (!claimed.affected) {
+        continue;
+      }
+
+      try {
+        await this.deliver(reminder);
+        await this.scheduleNextOccurrence(reminder);
+        result.remindersSent++;
+      } catch (error) {
+        // Released so the next run tries again
+        await this.reminderRepository.update(reminder.id, {
+          status: ReminderStatusType.PENDING,
+        });
+        result.remindersFailed++;
+        this.logger.error(
+          `Failed to send lead reminder ${reminder.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private async deliver(reminder: LeadReminder): Promise<void> {
+    const lead = reminder.lead;
+    const message = [
+      reminder.description,
+      lead
+        ? `Lead: ${lead.childName} (${lead.parentName}, ${lead.parentEmail})`
+        : null,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const profile = await this.profileRepository.findOne({
+      where: { id: reminder.assignedTo },
+      select: ['id', 'email', 'firstName'],
+    });
+
+    if (profile?.email) {
+      const result = await this.mailerService.sendEmail({
+        to: profile.email,
+        subject: `Reminder: ${reminder.title}`,
+        html: `<p>Hi ${profile.firstName || 'there'},</p><p>${reminder.title}</p>${message
+          .split('\n\n')
+          .map((paragraph) => `<p>${paragraph}</p>`)
+          .join('')}`,
+        emailType: EmailType.LEAD_NOTIFICATION,
+        userId: profile.id,
+        schoolId: lead?.schoolId,
+        metadata: { leadId: reminder.leadId, leadReminderId: reminder.id },
+      });
+      if (!result.success && !result.skipped) {
+        throw new Error(result.error ?? 'Email could not be sent');
+      }
+    }
+
+    // lead_notifications has no updated_at column, so insert without the base entity
+    await this.reminderRepository.query(
+      `INSERT INTO lead_notifications (lead_id, user_id, notification_type, title, message, sent_via_email)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        reminder.leadId,
+        reminder.assignedTo,
+        'lead_reminder',
+        reminder.title,
+        message || reminder.title,
+        !!profile?.email,
+      ],
+    );
+  }
+
+  private async scheduleNextOccurrence(reminder: LeadReminder): Promise<void> {
+    if (!reminder.recurringInterval) {
+      return;
+    }
+
+    const days =
+      RECURRING_INTERVAL_DAYS[reminder.recurringInterval.toLowerCase()];
+    if (!days) {
+      this.logger.warn(
+        `Lead reminder ${reminder.id} has unknown recurring interval "${reminder.recurringInterval}"`,
+      );
+      return;
+    }
+
+    const scheduledFor = new Date(reminder.scheduledFor);
+    scheduledFor.setDate(scheduledFor.getDate() + days);
+    await this.reminderRepository.save(
+      this.reminderRepository.create({
+        leadId: reminder.leadId,
+        assignedTo: reminder.assignedTo,
+        reminderType: reminder.reminderType,
+        title: reminder.title,
+        description: reminder.description,
+        scheduledFor,
+        status: ReminderStatusType.PENDING,
+        recurringInterval: reminder.recurringInterval,
+        metadata: { ...reminder.metadata, previousReminderId: reminder.id },
+      }),
+    );
+  }
+}
@@ -0,0 +1,568 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { In, IsNull, Repository } from 'typeorm';
+import { LeadEntity } from './entities/lead.entity';
+import { LeadScoringConfig } from './entities/lead-scoring-config.entity';
+import { LeadScoringRule } from './entities/lead-scoring-rule.entity';
+import {
+  AppliedScoringRule,
+  LeadScoreBreakdown,
+  ScoreComponent,
+  ScoringConditionType,
+} from './interfaces/lead-score-breakdown.interface';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { ZipCodeDemographics } from '../schools/entities/zip-code-demographics.entity';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { LeadScoreUpdatedEvent } from '../../common/interfaces/domain-event.interface';
+
+const NEUTRAL_SCORE = 50;
+const EARTH_RADIUS_MILES = 3958.8;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+// Points lost per year the child is outside the ideal age range
+const AGE_PENALTY_PER_YEAR = 50;
+const RESCORE_BATCH_SIZE = 200;
+
+/** Defaults of the lead_scoring_config columns, used when no config row exists */
+const DEFAULT_CONFIG = {
+  id: null,
+  proximityWeight: 0.3,
+  incomeWeight: 0.4,
+  ageWeight: 0.3,
+  maxDistanceMiles: 25,
+  minIncomeThreshold: 0,
+  maxIncomeThreshold: 200000,
+  idealAgeMin: 2,
+  idealAgeMax: 5,
+};
+
+type ScoringConfig = Omit<typeof DEFAULT_CONFIG, 'id'> & { id: string | null };
+
+interface ScoringContext {
+  config: ScoringConfig;
+  rules: LeadScoringRule[];
+  school: Pick<SchoolEntity, 'id' | 'latitude' | 'longitude'> | null;
+  demographics: Map<string, ZipCodeDemographics | null>;
+}
+
+export interface LeadScoreResult {
+  leadScore: number;
+  scoreBreakdown: LeadScoreBreakdown;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 2): number =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+const toCamelCase = (field: string): string =>
+  field.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const normalizeZip = (zipCode: string | null | undefined): string | null => {
+  const match = (zipCode ?? '').trim().match(/^\d{5}/);
+  return match ? match[0] : null;
+};
+
+/**
+ * Deterministic lead scoring. The base score is a weighted average of
+ * proximity to the school, zip code median income and child age, using the
+ * school's LeadScoringConfig (or the global one). Active LeadScoringRules then
+ * add or subtract their scoreImpact. The result is clamped to 0-100 and
+ * explained in LeadEntity.scoreBreakdown.
+ */
+@Injectable()
+export class LeadScoringService {
+  private readonly logger = new Logger(LeadScoringService.name);
+
+  constructor(
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    @InjectRepository(LeadScoringConfig)
+    private readonly configRepository: Repository<LeadScoringConfig>,
+    @InjectRepository(LeadScoringRule)
+    private readonly ruleRepository: Repository<LeadScoringRule>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectRepository(ZipCodeDemographics)
+    private readonly demographicsRepository: Repository<ZipCodeDemographics>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async scoreLead(lead: LeadEntity): Promise<LeadScoreResult> {
+    const context = await this.loadContext(lead.schoolId);
+    return this.computeScore(lead, context);
+  }
+
+  /**
+   * Set leadScore and scoreBreakdown on a lead before it is saved. Scoring
+   * errors are logged and leave the current score in place.
+   */
+  async applyScore(lead: LeadEntity): Promise<void> {
+    try {
+      const { leadScore, scoreBreakdown } = await this.scoreLead(lead);
+      lead.leadScore = leadScore;
+      lead.scoreBreakdown = { ...scoreBreakdown };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to score lead ${lead.id ?? '(new)'}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Recompute the score of every lead in a school, e.g. after its scoring rules changed
+   */
+  async rescoreSchool(
+    schoolId: string,
+    userId?: string | null,
+  ): Promise<{ processed: number; updated: number }> {
+    const context = await this.loadContext(schoolId);
+    let processed = 0;
+    let updated = 0;
+
+    for (let skip = 0; ; skip += RESCORE_BATCH_SIZE) {
+      const leads = await this.leadRepository.find({
+        where: { schoolId },
+        order: { id: 'ASC' },
+        skip,
+        take: RESCORE_BATCH_SIZE,
+      });
+      if (!leads.length) {
+        break;
+      }
+
+      await this.preloadDemographics(leads, context);
+      for (const lead of leads) {
+        processed++;
+        const previousScore = lead.leadScore ?? null;
+        const { leadScore, scoreBreakdown } = await this.computeScore(
+          lead,
+          context,
+        );
+
+        const hasBreakdown = Object.keys(lead.scoreBreakdown ?? {}).length > 0;
+        if (previousScore === leadScore && hasBreakdown) {
+          continue;
+        }
+
+        await this.leadRepository.update(lead.id, {
+          leadScore,
+          scoreBreakdown: { ...scoreBreakdown } as Record<string, any>,
+        });
+        updated++;
+
+        if (previousScore !== leadScore) {
+          this.eventEmitter.emit(DomainEvent.LEAD_SCORE_UPDATED, {
+            leadId: lead.id,
+            schoolId,
+            userId: userId ?? null,
+            previousScore,
+            score: leadScore,
+          } satisfies LeadScoreUpdatedEvent);
+        }
+      }
+
+      if (leads.length < RESCORE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    this.logger.log(
+      `Rescored ${processed} leads for school ${schoolId} (${updated} updated)`,
+    );
+    return { processed, updated };
+  }
+
+  private async loadContext(schoolId: string): Promise<ScoringContext> {
+    const [schoolConfig, school, rules] = await Promise.all([
+      this.configRepository.findOne({ where: { schoolId } }),
+      this.schoolRepository.findOne({
+        where: { id: schoolId },
+        select: ['id', 'latitude', 'longitude'],
+      }),
+      this.ruleRepository.find({
+        where: [
+          { schoolId, isActive: true },
+          { schoolId: IsNull(), isActive: true },
+        ],
+        order: { createdAt: 'ASC' },
+      }),
+    ]);
+    const configRow =
+      schoolConfig ??
+      (await this.configRepository.findOne({
+        where: { schoolId: IsNull() },
+        order: { createdAt: 'ASC' },
+      }));
+
+    return {
+      config: this.toScoringConfig(configRow),
+      rules,
+      school,
+      demographics: new Map(),
+    };
+  }
+
+  private toScoringConfig(row: LeadScoringConfig | null): ScoringConfig {
+    if (!row) {
+      return DEFAULT_CONFIG;
+    }
+
+    // Decimal columns are returned as strings
+    const pick = (value: unknown, fallback: number): number =>
+      toNumber(value) ?? fallback;
+    return {
+      id: row.id,
+      proximityWeight: pick(
+        row.proximityWeight,
+        DEFAULT_CONFIG.proximityWeight,
+      ),
+      incomeWeight: pick(row.incomeWeight, DEFAULT_CONFIG.incomeWeight),
+      ageWeight: pick(row.ageWeight, DEFAULT_CONFIG.ageWeight),
+      maxDistanceMiles: pick(
+        row.maxDistanceMiles,
+        DEFAULT_CONFIG.maxDistanceMiles,
+      ),
+      minIncomeThreshold: pick(
+        row.minIncomeThreshold,
+        DEFAULT_CONFIG.minIncomeThreshold,
+      ),
+      maxIncomeThreshold: pick(
+        row.maxIncomeThreshold,
+        DEFAULT_CONFIG.maxIncomeThreshold,
+      ),
+      idealAgeMin: pick(row.idealAgeMin, DEFAULT_CONFIG.idealAgeMin),
+      idealAgeMax: pick(row.idealAgeMax, DEFAULT_CONFIG.idealAgeMax),
+    };
+  }
+
+  private async preloadDemographics(
+    leads: LeadEntity[],
+    context: ScoringContext,
+  ): Promise<void> {
+    const zipCodes = [
+      ...new Set(
+        leads
+          .map((lead) => normalizeZip(lead.zipCode))
+          .filter(
+            (zip): zip is string => !!zip && !context.demographics.has(zip),
+          ),
+      ),
+    ];
+    if (!zipCodes.length) {
+      return;
+    }
+
+    const rows = await this.demographicsRepository.find({
+      where: { zipCode: In(zipCodes) },
+    });
+    zipCodes.forEach((zip) =>
+      context.demographics.set(
+        zip,
+        rows.find((row) => row.zipCode === zip) ?? null,
+      ),
+    );
+  }
+
+  private async getDemographics(
+    zipCode: string | null,
+    context: ScoringContext,
+  ): Promise<ZipCodeDemographics | null> {
+    if (!zipCode) {
+      return null;
+    }
+    if (!context.demographics.has(zipCode)) {
+      context.demographics.set(
+        zipCode,
+        await this.demographicsRepository.findOne({ where: { zipCode } }),
+      );
+    }
+    return context.demographics.get(zipCode) ?? null;
+  }
+
+  private async computeScore(
+    lead: LeadEntity,
+    context: ScoringContext,
+  ): Promise<LeadScoreResult> {
+    const { config } = context;
+    const demographics = await this.getDemographics(
+      normalizeZip(lead.zipCode),
+      context,
+    );
+
+    const distanceMiles = this.getDistanceMiles(context.school, demographics);
+    const medianIncome =
+      toNumber(lead.medianIncome) ?? toNumber(demographics?.medianIncome);
+    const ageYears = lead.childBirthdate
+      ? (Date.now() - new Date(lead.childBirthdate).getTime()) / MS_PER_YEAR
+      : null;
+
+    const components: LeadScoreBreakdown['components'] = {
+      proximity: {
+        weight: config.proximityWeight,
+        value: distanceMiles === null ? null : round(distanceMiles),
+        score:
+          distanceMiles === null || config.maxDistanceMiles <= 0
+            ? null
+            : round(
+                clamp(1 - distanceMiles / config.maxDistanceMiles, 0, 1) * 100,
+              ),
+      },
+      income: {
+        weight: config.incomeWeight,
+        value: medianIncome,
+        score:
+          medianIncome === null || medianIncome <= 0
+            ? null
+            : round(this.scoreIncome(medianIncome, config)),
+      },
+      age: {
+        weight: config.ageWeight,
+        value: ageYears === null ? null : round(ageYears),
+        score:
+          ageYears === null || ageYears < 0
+            ? null
+            : round(this.scoreAge(ageYears, config)),
+      },
+    };
+
+    const baseScore = this.weightedAverage(Object.values(components));
+    const derived: Record<string, unknown> = {
+      distanceMiles,
+      medianIncome,
+      childAgeYears: ageYears === null ? null : Math.floor(ageYears),
+      childAgeMonths:
+        ageYears === null ? null : Math.floor(ageYears * 12 + 1e-9),
+    };
+
+    const rules: AppliedScoringRule[] = context.rules
+      .filter((rule) => this.matchesRule(rule, lead, derived))
+      .map((rule) => ({
+        ruleId: rule.id,
+        ruleName: rule.ruleName,
+        fieldName: rule.fieldName,
+        conditionType: rule.conditionType,
+        scoreImpact: rule.scoreImpact,
+      }));
+    const ruleImpact = rules.reduce((sum, rule) => sum + rule.scoreImpact, 0);
+    const total = Math.round(clamp(baseScore + ruleImpact, 0, 100));
+
+    return {
+      leadScore: total,
+      scoreBreakdown: {
+        configId: config.id,
+        baseScore: round(baseScore),
+        components,
+        rules,
+        ruleImpact,
+        total,
+        scoredAt: new Date().toISOString(),
+      },
+    };
+  }
+
+  private weightedAverage(components: ScoreComponent[]): number {
+    const scored = components.filter(
+      (component) => component.score !== null && component.weight > 0,
+    );
+    const totalWeight = scored.reduce((sum, { weight }) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      return NEUTRAL_SCORE;
+    }
+    return (
+      scored.reduce(
+        (sum, { score, weight }) => sum + (score ?? 0) * weight,
+        0,
+      ) / totalWeight
+    );
+  }
+
+  private scoreIncome(income: number, config: ScoringConfig): number {
+    const range = config.maxIncomeThreshold - config.minIncomeThreshold;
+    if (range <= 0) {
+      return income >= config.minIncomeThreshold ? 100 : 0;
+    }
+    return clamp((income - config.minIncomeThreshold) / range, 0, 1) * 100;
+  }
+
+  /**
+   * Full score inside the ideal range (a child counts as N until their N+1 birthday)
+   */
+  private scoreAge(ageYears: number, config: ScoringConfig): number {
+    const upper = config.idealAgeMax + 1;
+    const yearsOutside =
+      ageYears < config.idealAgeMin
+        ? config.idealAgeMin - ageYears
+        : ageYears >= upper
+          ? ageYears - upper
+          : 0;
+    return clamp(100 - yearsOutside * AGE_PENALTY_PER_YEAR, 0, 100);
+  }
+
+  private getDistanceMiles(
+    school: ScoringContext['school'],
+    demographics: ZipCodeDemographics | null,
+  ): number | null {
+    const schoolLat = toNumber(school?.latitude);
+    const schoolLng = toNumber(school?.longitude);
+    const leadLat = toNumber(demographics?.latitude);
+    const leadLng = toNumber(demographics?.longitude);
+    if (
+      schoolLat === null ||
+      schoolLng === null ||
+      leadLat === null ||
+      leadLng === null
+    ) {
+      return null;
+    }
+
+    // Haversine distance between the school and the center of the lead's zip code
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(leadLat - schoolLat);
+    const dLng = toRadians(leadLng - schoolLng);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(schoolLat)) *
+        Math.cos(toRadians(leadLat)) *
+        Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+  }
+
+  /**
+   * Resolve the rule's field from the derived values, custom fields
+   * ("custom_fields.<key>") or lead columns (camelCase or snake_case)
+   */
+  private resolveField(
+    fieldName: string,
+    lead: LeadEntity,
+    derived: Record<string, unknown>,
+  ): unknown {
+    const customPrefix = /^custom_?fields\./i;
+    if (customPrefix.test(fieldName)) {
+      return lead.customFields?.[fieldName.replace(customPrefix, '')];
+    }
+
+    const key = toCamelCase(fieldName);
+    if (key in derived) {
+      return derived[key];
+    }
+    return (lead as unknown as Record<string, unknown>)[key];
+  }
+
+  private matchesRule(
+    rule: LeadScoringRule,
+    lead: LeadEntity,
+    derived: Record<string, unknown>,
+  ): boolean {
+    const actual = this.resolveField(rule.fieldName, lead, derived);
+    const condition = rule.conditionValue ?? {};
+    const expected: unknown = condition.value;
+    const isEmpty =
+      actual === null ||
+      actual === undefined ||
+      (typeof actual === 'string' && actual.trim() === '') ||
+      (Array.isArray(actual) && actual.length === 0);
+
+    switch (rule.conditionType as ScoringConditionType) {
+      case ScoringConditionType.EQUALS:
+        return !isEmpty && this.isEqual(actual, expected);
+      case ScoringConditionType.NOT_EQUALS:
+        return !this.isEqual(actual, expected);
+      case ScoringConditionType.IN:
+        return (
+          !isEmpty &&
+          this.toArray(condition.values).some((value) =>
+            this.isEqual(actual, value),
+          )
+        );
+      case ScoringConditionType.NOT_IN:
+        return !this.toArray(condition.values).some((value) =>
+          this.isEqual(actual, value),
+        );
+      case ScoringConditionType.CONTAINS:
+        if (Array.isArray(actual)) {
+          return actual.some((item) => this.isEqual(item, expected));
+        }
+        return (
+          typeof actual === 'string' &&
+          typeof expected === 'string' &&
+          actual.toLowerCase().includes(expected.toLowerCase())
+        );
+      case ScoringConditionType.GREATER_THAN: {
+        const number = this.toComparable(actual);
+        const threshold = this.toComparable(expected);
+        return number !== null && threshold !== null && number > threshold;
+      }
+      case ScoringConditionType.LESS_THAN: {
+        const number = this.toComparable(actual);
+        const threshold = this.toComparable(expected);
+        return number !== null && threshold !== null && number < threshold;
+      }
+      case ScoringConditionType.BETWEEN: {
+        const number = this.toComparable(actual);
+        const min = this.toComparable(condition.min);
+        const max = this.toComparable(condition.max);
+        return (
+          number !== null &&
+          (min === null || number >= min) &&
+          (max === null || number <= max)
+        );
+      }
+      case ScoringConditionType.IS_EMPTY:
+        return isEmpty;
+      case ScoringConditionType.IS_NOT_EMPTY:
+        return !isEmpty;
+      default:
+        this.logger.warn(
+          `Scoring rule ${rule.id} has unsupported condition type "${rule.conditionType}"`,
+        );
+        return false;
+    }
+  }
+
+  private isEqual(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+      return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+    }
+    const actualNumber = this.toComparable(actual);
+    const expectedNumber = this.toComparable(expected);
+    if (actualNumber !== null && expectedNumber !== null) {
+      return actualNumber === expectedNumber;
+    }
+    return actual === expected;
+  }
+
+  /**
+   * Numbers, numeric strings and dates (as timestamps) compare numerically
+   */
+  private toComparable(value: unknown): number | null {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    if (typeof value === 'number' || typeof value === 'string') {
+      const number = toNumber(value);
+      if (number !== null) {
+        return number;
+      }
+      const date = typeof value === 'string' ? Date.parse(value) : NaN;
+      return Number.isNaN(date) ? null : date;
+    }
+    return null;
+  }
+
+  private toArray(value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+      return value as unknown[];
+    }
+    return value === undefined || value === null ? [] : [value];
+  }
+}
@@ -0,0 +1,9 @@
+export const LEAD_AUTOMATION_QUEUE = 'lead-automation';
+
+/** Repeatable job that evaluates the active lead automation rules */
+export const EVALUATE_LEAD_RULES_JOB = 'evaluate-lead-rules';
+
+export const LEAD_REMINDERS_QUEUE = 'lead-reminders';
+
+/** Repeatable job that notifies staff of lead reminders that are due */
+export const SEND_DUE_REMINDERS_JOB = 'send-due-reminders';
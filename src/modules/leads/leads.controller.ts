@@ -27,6 +27,8 @@ import {
   ApiBadRequestResponse,
 } from '@nestjs/swagger';
 import { LeadsService } from './leads.service';
+import { LeadScoringService } from './lead-scoring.service';
+import type { LeadScoreBreakdown } from './interfaces/lead-score-breakdown.interface';
 import { CreateLeadDto } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
 import { UpdateLeadStatusDto } from './dto/update-lead-status.dto';
@@ -40,6 +42,7 @@ import { LeadReminder } from './entities/lead-reminder.entity';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -62,10 +65,12 @@ import { ProfileEntity } from '../users/entities/profile.entity';
 @ApiTags('Leads')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(LeadEntity)
 @Controller('leads')
 export class LeadsController {
   constructor(
     private readonly leadsService: LeadsService,
+    private readonly leadScoringService: LeadScoringService,
     @InjectRepository(ProfileEntity)
     private readonly profileRepository: Repository<ProfileEntity>,
   ) {}
@@ -495,6 +500,51 @@ export class LeadsController {
     return this.leadsService.getStatistics(filterSchoolId);
   }
 
+  @Post('rescore')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rescore all leads of a school',
+    description: 'Recompute the score and score breakdown of every lead in the school from its lead scoring config and rules. Use after changing scoring rules or demographics data.',
+  })
+  @ApiQuery({
+    name: 'schoolId',
+    required: false,
+    type: String,
+    description: 'School ID (required for super admins, defaults to the user\'s school otherwise)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Leads rescored',
+    schema: {
+      type: 'object',
+      properties: {
+        processed: { type: 'number', example: 150 },
+        updated: { type: 'number', example: 42 },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiUnauthorizedResponse({ description: 'Unauthorized' })
+  @ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+  async rescoreLeads(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<{ processed: number; updated: number }> {
+    const targetSchoolId = schoolId || user.schoolId;
+
+    if (!targetSchoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    // Non-super admins can only rescore their own school's leads
+    if (user.primaryRole !== AppRole.SUPER_ADMIN && targetSchoolId !== user.schoolId) {
+      throw new ForbiddenException('You can only rescore leads for your own school');
+    }
+
+    return this.leadScoringService.rescoreSchool(targetSchoolId, user.id);
+  }
+
   @Get('activities')
   @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.ADMISSIONS_STAFF, AppRole.SCHOOL_OWNER)
   @ApiOperation({
@@ -1126,7 +1176,11 @@ export class LeadsController {
       followUpDate: lead.followUpDate,
       nextFollowUpAt: lead.nextFollowUpAt,
       assignedTo: lead.assignedTo,
+      assignmentMethod: lead.assignmentMethod ?? null,
       leadScore: lead.leadScore ?? null,
+      scoreBreakdown: Object.keys(lead.scoreBreakdown ?? {}).length
+        ? (lead.scoreBreakdown as LeadScoreBreakdown)
+        : null,
       priorityScore: lead.priorityScore ?? null,
       urgency: lead.urgency ?? null,
       convertedToEnrollmentId: null, // Not in database schema
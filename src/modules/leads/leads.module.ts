@@ -1,9 +1,19 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { LeadsService } from './leads.service';
+import { LeadScoringService } from './lead-scoring.service';
+import { LeadAutomationService } from './lead-automation.service';
+import { LeadAssignmentService } from './lead-assignment.service';
+import { LeadAutomationProcessor } from './lead-automation.processor';
+import { LeadReminderService } from './lead-reminder.service';
+import { LeadReminderProcessor } from './lead-reminder.processor';
 import { LeadsController } from './leads.controller';
+import { LeadAutomationRulesController } from './lead-automation-rules.controller';
+import { LeadAssignmentController } from './lead-assignment.controller';
 import { LeadEntity } from './entities/lead.entity';
 import { LeadActivity } from './entities/lead-activity.entity';
+import { LeadAssignmentConfig } from './entities/lead-assignment-config.entity';
 import { LeadAuditLog } from './entities/lead-audit-log.entity';
 import { LeadAutomationRule } from './entities/lead-automation-rule.entity';
 import { LeadInteraction } from './entities/lead-interaction.entity';
@@ -15,20 +25,26 @@ import { LeadScoringConfig } from './entities/lead-scoring-config.entity';
 import { LeadWorkflowNotification } from './entities/lead-workflow-notification.entity';
 import { LeadScoringRule } from './entities/lead-scoring-rule.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
+import { ZipCodeDemographics } from '../schools/entities/zip-code-demographics.entity';
 import { Waitlist } from '../enrollment/entities/waitlist.entity';
 import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
 import { ClassEntity } from '../classes/entities/class.entity';
 import { StudentDocument } from '../students/entities/student-document.entity';
 import { ProfileEntity } from '../users/entities/profile.entity';
 import { UserRoleEntity } from '../users/entities/user-role.entity';
+import { StaffAssignmentRotation } from '../users/entities/staff-assignment-rotation.entity';
 import { Student } from '../students/entities/student.entity';
+import { Task } from '../tasks/entities/task.entity';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { MailerModule } from '../mailer/mailer.module';
+import { LEAD_AUTOMATION_QUEUE, LEAD_REMINDERS_QUEUE } from './leads.constants';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       LeadEntity,
       LeadActivity,
+      LeadAssignmentConfig,
       LeadAuditLog,
       LeadAutomationRule,
       LeadInteraction,
@@ -40,18 +56,36 @@ import { RealtimeModule } from '../realtime/realtime.module';
       LeadWorkflowNotification,
       LeadScoringRule,
       SchoolEntity,
+      ZipCodeDemographics,
       Waitlist,
       EnrollmentEntity,
       ClassEntity,
       StudentDocument,
       ProfileEntity,
       UserRoleEntity,
+      StaffAssignmentRotation,
       Student,
+      Task,
     ]),
     RealtimeModule,
+    MailerModule,
+    BullModule.registerQueue({ name: LEAD_AUTOMATION_QUEUE }),
+    BullModule.registerQueue({ name: LEAD_REMINDERS_QUEUE }),
   ],
-  controllers: [LeadsController],
-  providers: [LeadsService],
-  exports: [LeadsService],
+  controllers: [
+    LeadsController,
+    LeadAutomationRulesController,
+    LeadAssignmentController,
+  ],
+  providers: [
+    LeadsService,
+    LeadScoringService,
+    LeadAssignmentService,
+    LeadAutomationService,
+    LeadAutomationProcessor,
+    LeadReminderService,
+    LeadReminderProcessor,
+  ],
+  exports: [LeadsService, LeadScoringService, LeadAssignmentService],
 })
 export class LeadsModule {}
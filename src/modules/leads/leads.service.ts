@@ -6,6 +6,7 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { LeadEntity, LeadSource, LeadStatus } from './entities/lead.entity';
 import { CreateLeadDto } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
@@ -29,17 +30,32 @@ import { CreateLeadInteractionDto } from './dto/create-lead-interaction.dto';
 import { UpdateLeadDetailsDto } from './dto/update-lead-details.dto';
 import { ConvertLeadDto } from './dto/convert-lead.dto';
 import { DataSource } from 'typeorm';
+import { LeadScoringService } from './lead-scoring.service';
+import { LeadAssignmentService } from './lead-assignment.service';
 import { Student } from '../students/entities/student.entity';
 import { AppRole } from '../../common/enums/app-role.enum';
+import { LeadAssignmentMethod } from '../../common/enums/lead-assignment-method.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import {
+  EnrollmentCompletedEvent,
+  InvoiceEvent,
+  LeadEventPayload,
+  LeadScoreUpdatedEvent,
+  LeadStatusChangedEvent,
+  LeadTourScheduledEvent,
+  WaitlistEvent,
+} from '../../common/interfaces/domain-event.interface';
 
 interface LeadCreationContext {
   createdBy?: string | null;
-  entryPoint: 'internal' | 'public_form' | 'parent_portal';
+  entryPoint: 'internal' | 'public_form' | 'parent_portal' | 'custom_form';
   // metadataOverrides removed - metadata column doesn't exist in database schema
   statusOverride?: LeadStatus;
   sourceFallback?: LeadSource | null;
 }
 
+type LeadEventFields = Pick<LeadEntity, 'leadStatus' | 'tourDate' | 'leadScore'>;
+
 interface LeadActivityLogPayload {
   leadId: string;
   activityType: string;
@@ -83,6 +99,9 @@ export class LeadsService {
     private readonly studentRepository: Repository<Student>,
     private readonly realtimeGateway: RealtimeGateway,
     private readonly dataSource: DataSource,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly leadScoringService: LeadScoringService,
+    private readonly leadAssignmentService: LeadAssignmentService,
   ) { }
 
   /**
@@ -277,7 +296,14 @@ export class LeadsService {
       status: LeadStatusType.WAITLISTED,
     });
 
-    return this.waitlistRepository.save(waitlistEntry);
+    const savedEntry = await this.waitlistRepository.save(waitlistEntry);
+    this.eventEmitter.emit(DomainEvent.WAITLIST_ADDED, {
+      leadId: lead.id,
+      schoolId: lead.schoolId,
+      waitlistId: savedEntry.id,
+      program,
+    } satisfies WaitlistEvent);
+    return savedEntry;
   }
 
   /**
@@ -466,9 +492,11 @@ export class LeadsService {
 
     const lead = await this.findOne(id);
     const beforeSnapshot = this.snapshotLead(lead);
+    const beforeEventFields = this.pickEventFields(lead);
     const updateData = this.buildUpdatePayload(updateLeadDto);
 
     Object.assign(lead, updateData);
+    await this.leadScoringService.applyScore(lead);
     const savedLead = await this.leadRepository.save(lead);
 
     await this.recordActivity({
@@ -481,6 +509,7 @@ export class LeadsService {
     });
 
     this.emitLeadRealtimeEvent(savedLead, 'updated', { fields: Object.keys(updateData) });
+    this.publishLeadEvents(beforeEventFields, savedLead, updatedBy);
     return savedLead;
   }
 
@@ -497,7 +526,9 @@ export class LeadsService {
 
     const lead = await this.findOne(id);
     const beforeSnapshot = this.snapshotLead(lead);
+    const beforeEventFields = this.pickEventFields(lead);
     lead.leadStatus = status;
+    let enrollmentId: string | null = null;
 
     if (followUpDate) {
       lead.nextFollowUpAt = followUpDate;
@@ -561,6 +592,9 @@ export class LeadsService {
         });
         await this.enrollmentRepository.save(enrollment);
         this.logger.log(`Created enrollment record ${enrollment.id} for enrolled lead ${id}`);
+        enrollmentId = enrollment.id;
+      } else {
+        enrollmentId = existingEnrollment.id;
       }
 
       // Set conversion date if not already set
@@ -569,6 +603,7 @@ export class LeadsService {
       }
     }
 
+    await this.leadScoringService.applyScore(lead);
     const savedLead = await this.leadRepository.save(lead);
     await this.recordActivity({
       leadId: id,
@@ -580,6 +615,10 @@ export class LeadsService {
     });
 
     this.emitLeadRealtimeEvent(savedLead, 'status_changed', { status, followUpDate });
+    this.publishLeadEvents(beforeEventFields, savedLead, updatedBy);
+    if (status === LeadStatus.ENROLLED && beforeEventFields.leadStatus !== status) {
+      this.publishEnrollmentCompleted(savedLead, enrollmentId, updatedBy);
+    }
     return savedLead;
   }
 
@@ -592,6 +631,7 @@ export class LeadsService {
     const lead = await this.findOne(id);
     const beforeSnapshot = this.snapshotLead(lead);
     lead.assignedTo = userId;
+    lead.assignmentMethod = LeadAssignmentMethod.MANUAL;
 
     const savedLead = await this.leadRepository.save(lead);
     await this.recordActivity({
@@ -619,6 +659,7 @@ export class LeadsService {
     this.logger.log(`Converting lead ${id} to enrollment ${enrollmentId}`);
 
     const lead = await this.findOne(id);
+    const beforeEventFields = this.pickEventFields(lead);
     lead.leadStatus = LeadStatus.CONVERTED;
     // convertedToEnrollmentId doesn't exist in schema - can't store it
     lead.conversionDate = new Date();
@@ -634,9 +675,88 @@ export class LeadsService {
     });
 
     this.emitLeadRealtimeEvent(savedLead, 'status_changed', { status: LeadStatus.CONVERTED, enrollmentId });
+    this.publishLeadEvents(beforeEventFields, savedLead, convertedBy);
+    this.publishEnrollmentCompleted(savedLead, enrollmentId, convertedBy);
     return savedLead;
   }
 
+  /**
+   * Create or update a lead from a custom form submission.
+   * An existing lead in the school is matched by parent email, and by child name when the form provides one.
+   */
+  async upsertFromFormSubmission(
+    schoolId: string,
+    values: Partial<LeadEntity>,
+    source: { formId: string; submissionId: string; submittedBy?: string | null },
+  ): Promise<{ lead: LeadEntity; created: boolean }> {
+    if (!values.parentEmail) {
+      throw new BadRequestException('A parent email is required to create a lead from a form');
+    }
+
+    const parentEmail = values.parentEmail.toLowerCase();
+    const queryBuilder = this.leadRepository
+      .createQueryBuilder('lead')
+      .where('lead.school_id = :schoolId', { schoolId })
+      .andWhere('LOWER(lead.parent_email) = :parentEmail', { parentEmail });
+
+    if (values.childName) {
+      queryBuilder.andWhere('LOWER(lead.child_name) = LOWER(:childName)', { childName: values.childName });
+    }
+
+    const existing = await queryBuilder.orderBy('lead.created_at', 'DESC').getOne();
+    const activityMetadata = { formId: source.formId, submissionId: source.submissionId };
+
+    if (!existing) {
+      await this.ensureSchoolExists(schoolId);
+      const lead = await this.saveNewLead(
+        {
+          parentName: '',
+          childName: '',
+          zipCode: '00000',
+          leadStatus: LeadStatus.NEW,
+          leadSource: LeadSource.WEBSITE,
+          leadSourceText: 'custom_form',
+          ...values,
+          parentEmail,
+          schoolId,
+        },
+        { createdBy: source.submittedBy ?? null, entryPoint: 'custom_form' },
+        activityMetadata,
+      );
+      return { lead, created: true };
+    }
+
+    const beforeSnapshot = this.snapshotLead(existing);
+    const beforeEventFields = this.pickEventFields(existing);
+    const { customFields, ...columns } = values;
+
+    Object.assign(existing, columns, { parentEmail });
+    if (customFields) {
+      existing.customFields = { ...(existing.customFields ?? {}), ...customFields };
+    }
+    existing.lastActivityAt = new Date();
+    await this.leadScoringService.applyScore(existing);
+
+    const savedLead = await this.leadRepository.save(existing);
+
+    await this.recordActivity({
+      leadId: savedLead.id,
+      userId: source.submittedBy ?? null,
+      activityType: 'lead_updated',
+      oldValue: beforeSnapshot,
+      newValue: this.snapshotLead(savedLead),
+      metadata: {
+        ...activityMetadata,
+        entryPoint: 'custom_form',
+        updatedFields: Object.keys(values),
+      },
+    });
+
+    this.emitLeadRealtimeEvent(savedLead, 'updated', { fields: Object.keys(values) });
+    this.publishLeadEvents(beforeEventFields, savedLead, source.submittedBy);
+    return { lead: savedLead, created: false };
+  }
+
   /**
    * Delete a lead (hard delete for now, but recorded in activity log)
    */
@@ -801,7 +921,20 @@ export class LeadsService {
   private async persistLead(dto: CreateLeadDto, context: LeadCreationContext): Promise<LeadEntity> {
     await this.ensureSchoolExists(dto.schoolId);
     const payload = this.buildLeadEntityPayload(dto, context);
+    return this.saveNewLead(payload, context);
+  }
+
+  private async saveNewLead(
+    payload: Partial<LeadEntity>,
+    context: LeadCreationContext,
+    activityMetadata: Record<string, any> = {},
+  ): Promise<LeadEntity> {
     const lead = this.leadRepository.create(payload);
+    // Leads captured from outside arrive unassigned; staff-created ones keep their choice
+    if (context.entryPoint !== 'internal') {
+      await this.leadAssignmentService.assignNewLead(lead);
+    }
+    await this.leadScoringService.applyScore(lead);
     const savedLead = await this.leadRepository.save(lead);
 
     await this.recordActivity({
@@ -812,10 +945,14 @@ export class LeadsService {
         entryPoint: context.entryPoint,
         schoolId: savedLead.schoolId,
         source: savedLead.leadSource,
+        assignedTo: savedLead.assignedTo,
+        assignmentMethod: savedLead.assignmentMethod,
+        ...activityMetadata,
       },
     });
 
     this.emitLeadRealtimeEvent(savedLead, 'created');
+    this.publishLeadEvents(null, savedLead, context.createdBy);
     return savedLead;
   }
 
@@ -951,7 +1088,10 @@ export class LeadsService {
     if (updateLeadDto.schoolId !== undefined) payload.schoolId = updateLeadDto.schoolId;
     if (updateLeadDto.notes !== undefined) payload.notes = updateLeadDto.notes;
     // internalNotes doesn't exist in database schema
-    if (updateLeadDto.assignedTo !== undefined) payload.assignedTo = updateLeadDto.assignedTo;
+    if (updateLeadDto.assignedTo !== undefined) {
+      payload.assignedTo = updateLeadDto.assignedTo;
+      payload.assignmentMethod = LeadAssignmentMethod.MANUAL;
+    }
     // metadata column doesn't exist in database schema
 
     return payload;
@@ -1051,6 +1191,57 @@ export class LeadsService {
     }
   }
 
+  private pickEventFields(lead: LeadEntity): LeadEventFields {
+    return {
+      leadStatus: lead.leadStatus,
+      tourDate: lead.tourDate,
+      leadScore: lead.leadScore,
+    };
+  }
+
+  /**
+   * Publish domain events for whatever changed on the lead. Pass null as `before` for a new lead.
+   */
+  private publishLeadEvents(before: LeadEventFields | null, lead: LeadEntity, userId?: string | null): void {
+    const base: LeadEventPayload = { leadId: lead.id, schoolId: lead.schoolId, userId: userId ?? null };
+
+    if (!before) {
+      this.eventEmitter.emit(DomainEvent.LEAD_CREATED, base);
+    } else if (before.leadStatus !== lead.leadStatus) {
+      this.eventEmitter.emit(DomainEvent.LEAD_STATUS_CHANGED, {
+        ...base,
+        previousStatus: before.leadStatus ?? null,
+        status: lead.leadStatus,
+      } satisfies LeadStatusChangedEvent);
+    }
+
+    const tourTime = lead.tourDate ? new Date(lead.tourDate).getTime() : null;
+    const previousTourTime = before?.tourDate ? new Date(before.tourDate).getTime() : null;
+    if (tourTime !== null && tourTime !== previousTourTime) {
+      this.eventEmitter.emit(DomainEvent.LEAD_TOUR_SCHEDULED, {
+        ...base,
+        tourDate: new Date(tourTime),
+      } satisfies LeadTourScheduledEvent);
+    }
+
+    if (before && (before.leadScore ?? null) !== (lead.leadScore ?? null)) {
+      this.eventEmitter.emit(DomainEvent.LEAD_SCORE_UPDATED, {
+        ...base,
+        previousScore: before.leadScore ?? null,
+        score: lead.leadScore ?? null,
+      } satisfies LeadScoreUpdatedEvent);
+    }
+  }
+
+  private publishEnrollmentCompleted(lead: LeadEntity, enrollmentId: string | null, userId?: string | null): void {
+    this.eventEmitter.emit(DomainEvent.ENROLLMENT_COMPLETED, {
+      leadId: lead.id,
+      schoolId: lead.schoolId,
+      userId: userId ?? null,
+      enrollmentId,
+    } satisfies EnrollmentCompletedEvent);
+  }
+
   /**
    * Count leads with optional filtering
    */
@@ -1131,10 +1322,18 @@ export class LeadsService {
     });
 
     const savedInvoice = await this.leadInvoiceRepository.save(invoice);
+    this.eventEmitter.emit(DomainEvent.INVOICE_CREATED, {
+      invoiceId: savedInvoice.id,
+      schoolId: savedInvoice.schoolId,
+      source: 'lead_invoice',
+      userId: userId ?? null,
+    } satisfies InvoiceEvent);
 
     // Update lead status to invoice_sent
+    const beforeEventFields = this.pickEventFields(lead);
     lead.leadStatus = LeadStatus.INVOICE_SENT;
     await this.leadRepository.save(lead);
+    this.publishLeadEvents(beforeEventFields, lead, userId);
 
     // Log activity
     await this.logActivity(lead.id, {
@@ -1501,12 +1700,20 @@ export class LeadsService {
     }
     if (dto.assigned_to !== undefined) {
       updateData.assignedTo = dto.assigned_to;
+      updateData.assignmentMethod = LeadAssignmentMethod.MANUAL;
     }
     if (dto.follow_up_date !== undefined) {
       updateData.followUpDate = dto.follow_up_date ? new Date(dto.follow_up_date) : null;
     }
 
-    await this.leadRepository.update(leadId, updateData);
+    // Score a copy so `lead` keeps the previous values for the events below
+    const scored = { ...lead, ...updateData } as LeadEntity;
+    await this.leadScoringService.applyScore(scored);
+    await this.leadRepository.update(leadId, {
+      ...updateData,
+      leadScore: scored.leadScore,
+      scoreBreakdown: scored.scoreBreakdown,
+    });
 
     // Log activity for status changes
     if (dto.lead_status && dto.lead_status !== lead.leadStatus) {
@@ -1520,7 +1727,9 @@ export class LeadsService {
       } as LeadInteraction);
     }
 
-    return this.findOne(leadId);
+    const updatedLead = await this.findOne(leadId);
+    this.publishLeadEvents(this.pickEventFields(lead), updatedLead, userId);
+    return updatedLead;
   }
 
   /**
@@ -1559,6 +1768,10 @@ export class LeadsService {
       throw new BadRequestException('Enrollment not found after conversion');
     }
 
+    const convertedLead = await this.findOne(leadId);
+    this.publishLeadEvents(this.pickEventFields(lead), convertedLead, userId);
+    this.publishEnrollmentCompleted(convertedLead, enrollment.id, userId);
+
     return {
       studentId,
       enrollmentId: enrollment.id,
@@ -0,0 +1,243 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  LedgerAccount,
+  LedgerEntryType,
+  LedgerSourceType,
+} from '../entities/ledger-entry.entity';
+
+export class OpenFamilyAccountDto {
+  @ApiProperty({
+    description: 'School ID',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Parent email the family is known by',
+    example: 'parent@example.com',
+  })
+  @IsEmail()
+  parentEmail: string;
+}
+
+export class IssueAccountCreditDto {
+  @ApiProperty({ description: 'Credit in cents', example: 5000 })
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Why the credit was issued, shown on statements',
+    example: 'Closed for snow day on Feb 12',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class FamilyAccountQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class LedgerEntryQueryDto {
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class StatementQueryDto {
+  @ApiProperty({ description: 'Statement year', example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({ description: 'Statement month (1-12)', example: 3 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month: number;
+}
+
+export class FamilyAccountResponseDto {
+  @ApiProperty({ description: 'Family account ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Parent email', example: 'parent@example.com' })
+  parentEmail: string;
+
+  @ApiPropertyOptional({ description: 'Parent user ID', nullable: true })
+  parentId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'When the account was flagged for follow-up',
+    nullable: true,
+  })
+  flaggedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Why the account was flagged',
+    nullable: true,
+    example: 'Invoice TUI-20260301-1A2B3C4D is 30 days overdue',
+  })
+  flagReason: string | null;
+
+  @ApiProperty({
+    description:
+      'What the family owes in cents. Negative when the family has overpaid.',
+    example: 42500,
+  })
+  balance: number;
+
+  @ApiProperty({
+    description: 'Account credit in cents applied to the next invoice',
+    example: 5000,
+  })
+  availableCredit: number;
+
+  @ApiProperty({ description: 'Created at' })
+  createdAt: Date;
+}
+
+export class LedgerEntryResponseDto {
+  @ApiProperty({ description: 'Entry ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Entry type', enum: LedgerEntryType })
+  entryType: LedgerEntryType;
+
+  @ApiProperty({ description: 'Account debited', enum: LedgerAccount })
+  debitAccount: LedgerAccount;
+
+  @ApiProperty({ description: 'Account credited', enum: LedgerAccount })
+  creditAccount: LedgerAccount;
+
+  @ApiProperty({ description: 'Amount in cents', example: 120000 })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Description',
+    example: 'Invoice TUI-20260301-1A2B3C4D',
+  })
+  description: string;
+
+  @ApiPropertyOptional({
+    description: 'Kind of document the entry was posted from',
+    enum: LedgerSourceType,
+    nullable: true,
+  })
+  sourceType: LedgerSourceType | null;
+
+  @ApiPropertyOptional({ description: 'Source document ID', nullable: true })
+  sourceId: string | null;
+
+  @ApiProperty({ description: 'When the entry takes effect' })
+  effectiveAt: Date;
+
+  @ApiPropertyOptional({ description: 'User who posted it', nullable: true })
+  createdBy: string | null;
+
+  @ApiProperty({
+    description: 'Balance owed in cents after this entry',
+    example: 42500,
+  })
+  balanceAfter: number;
+}
+
+export class FamilyStatementResponseDto {
+  @ApiProperty({ type: FamilyAccountResponseDto })
+  account: FamilyAccountResponseDto;
+
+  @ApiProperty({
+    description: 'First day of the statement',
+    example: '2026-03-01',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Last day of the statement',
+    example: '2026-03-31',
+  })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'Balance owed at the start of the month in cents',
+  })
+  openingBalance: number;
+
+  @ApiProperty({ description: 'Charges posted in the month in cents' })
+  charges: number;
+
+  @ApiProperty({ description: 'Payments received in the month in cents' })
+  payments: number;
+
+  @ApiProperty({ description: 'Refunds paid out in the month in cents' })
+  refunds: number;
+
+  @ApiProperty({ description: 'Account credit applied in the month in cents' })
+  creditsApplied: number;
+
+  @ApiProperty({ description: 'Charges voided in the month in cents' })
+  voided: number;
+
+  @ApiProperty({ description: 'Balance owed at the end of the month in cents' })
+  closingBalance: number;
+
+  @ApiProperty({
+    description: 'Account credit left at the end of the month in cents',
+  })
+  availableCredit: number;
+
+  @ApiProperty({ type: [LedgerEntryResponseDto] })
+  entries: LedgerEntryResponseDto[];
+}
@@ -0,0 +1,185 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { TaxStatementSource } from '../entities/tax-statement.entity';
+
+export class GenerateTaxStatementsDto {
+  @ApiProperty({ description: 'School ID' })
+  @IsUUID()
+  schoolId: string;
+
+  @ApiProperty({ description: 'Calendar year', example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+}
+
+export class EmailTaxStatementsDto extends GenerateTaxStatementsDto {
+  @ApiPropertyOptional({
+    description:
+      'Only these statements; every statement of the year when omitted',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  statementIds?: string[];
+}
+
+export class TaxStatementQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiProperty({ description: 'Calendar year', example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class TaxStatementLineDto {
+  @ApiProperty({
+    description: 'Where the payment was recorded',
+    enum: TaxStatementSource,
+  })
+  source: TaxStatementSource;
+
+  @ApiProperty({ description: 'ID of the invoice, payment or transaction' })
+  sourceId: string;
+
+  @ApiProperty({ description: 'Date paid', example: '2026-03-01' })
+  paidAt: string;
+
+  @ApiProperty({ description: 'Description', example: 'Invoice INV-2026-0042' })
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Student ID', nullable: true })
+  studentId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Child the payment was for',
+    nullable: true,
+  })
+  childName: string | null;
+
+  @ApiProperty({
+    description: 'Amount paid in cents, net of refunds',
+    example: 125000,
+  })
+  amount: number;
+}
+
+export class TaxStatementChildDto {
+  @ApiPropertyOptional({ description: 'Student ID', nullable: true })
+  studentId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Child name; null for payments not tied to a child',
+    nullable: true,
+  })
+  childName: string | null;
+
+  @ApiProperty({
+    description: 'Total paid for the child in cents',
+    example: 1500000,
+  })
+  amount: number;
+}
+
+export class TaxStatementResponseDto {
+  @ApiProperty({ description: 'Statement ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({ description: 'Calendar year', example: 2026 })
+  year: number;
+
+  @ApiProperty({ description: 'Parent email', example: 'parent@example.com' })
+  parentEmail: string;
+
+  @ApiPropertyOptional({ description: 'Parent user ID', nullable: true })
+  parentId: string | null;
+
+  @ApiPropertyOptional({ description: 'Parent name', nullable: true })
+  parentName: string | null;
+
+  @ApiProperty({
+    description: 'Total paid in the year in cents',
+    example: 1500000,
+  })
+  totalAmount: number;
+
+  @ApiProperty({
+    description: 'Totals per child',
+    type: [TaxStatementChildDto],
+  })
+  children: TaxStatementChildDto[];
+
+  @ApiPropertyOptional({
+    description: 'Payments on the statement',
+    type: [TaxStatementLineDto],
+  })
+  lines?: TaxStatementLineDto[];
+
+  @ApiPropertyOptional({ description: 'Last emailed at', nullable: true })
+  emailedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Why the last email failed',
+    nullable: true,
+  })
+  emailError: string | null;
+
+  @ApiProperty({ description: 'Generated at' })
+  updatedAt: Date;
+}
+
+export class GenerateTaxStatementsResultDto {
+  @ApiProperty({ description: 'Statements generated', example: 42 })
+  generated: number;
+
+  @ApiProperty({
+    description:
+      'Earlier statements removed because the family no longer has payments in the year',
+    example: 0,
+  })
+  removed: number;
+}
+
+export class EmailTaxStatementsResultDto {
+  @ApiProperty({ description: 'Statements queued for emailing', example: 42 })
+  queued: number;
+}
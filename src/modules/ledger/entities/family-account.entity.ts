@@ -0,0 +1,32 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+/**
+ * A family's billing account at a school. Families are identified by the
+ * parent email that leads, lead invoices and students carry.
+ */
+@Entity('family_accounts')
+@Unique(['schoolId', 'parentEmail'])
+export class FamilyAccount extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'parent_email', type: 'varchar', length: 255 })
+  parentEmail: string; // Lowercased
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  // Set by dunning, or by staff, when the family needs follow-up
+  @Column({ name: 'flagged_at', type: 'timestamptz', nullable: true })
+  flaggedAt: Date | null;
+
+  @Column({ name: 'flag_reason', type: 'text', nullable: true })
+  flagReason: string | null;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
@@ -0,0 +1,125 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { FamilyAccount } from './family-account.entity';
+
+export enum LedgerEntryType {
+  CHARGE = 'charge',
+  PAYMENT = 'payment',
+  REFUND = 'refund',
+  /** Account credit issued to the family */
+  CREDIT = 'credit',
+  /** Account credit used to pay down an invoice */
+  CREDIT_APPLIED = 'credit_applied',
+  /** Reverses a charge that was cancelled or refunded */
+  VOID = 'void',
+  /** Takes back a payment of an invoice that is no longer paid */
+  PAYMENT_REVERSED = 'payment_reversed',
+}
+
+export enum LedgerAccount {
+  /** What the family owes the school */
+  RECEIVABLE = 'receivable',
+  /** Credit the family holds for future invoices */
+  ACCOUNT_CREDIT = 'account_credit',
+  CASH = 'cash',
+  REVENUE = 'revenue',
+}
+
+export enum LedgerSourceType {
+  INVOICE = 'invoice',
+  LEAD_INVOICE = 'lead_invoice',
+  AD_HOC_CHARGE = 'ad_hoc_charge',
+  /** A line added to an invoice after it was posted, such as a late fee */
+  INVOICE_ITEM = 'invoice_item',
+  REFUND = 'refund',
+  /**
+   * A correction to an invoice edited, cancelled or deleted after it was
+   * posted. An invoice can have any number of these.
+   */
+  INVOICE_ADJUSTMENT = 'invoice_adjustment',
+}
+
+/** The accounts every entry type debits and credits */
+export const LEDGER_POSTINGS: Record<
+  LedgerEntryType,
+  { debit: LedgerAccount; credit: LedgerAccount }
+> = {
+  [LedgerEntryType.CHARGE]: {
+    debit: LedgerAccount.RECEIVABLE,
+    credit: LedgerAccount.REVENUE,
+  },
+  [LedgerEntryType.PAYMENT]: {
+    debit: LedgerAccount.CASH,
+    credit: LedgerAccount.RECEIVABLE,
+  },
+  [LedgerEntryType.REFUND]: {
+    debit: LedgerAccount.RECEIVABLE,
+    credit: LedgerAccount.CASH,
+  },
+  [LedgerEntryType.CREDIT]: {
+    debit: LedgerAccount.REVENUE,
+    credit: LedgerAccount.ACCOUNT_CREDIT,
+  },
+  [LedgerEntryType.CREDIT_APPLIED]: {
+    debit: LedgerAccount.ACCOUNT_CREDIT,
+    credit: LedgerAccount.RECEIVABLE,
+  },
+  [LedgerEntryType.VOID]: {
+    debit: LedgerAccount.REVENUE,
+    credit: LedgerAccount.RECEIVABLE,
+  },
+  [LedgerEntryType.PAYMENT_REVERSED]: {
+    debit: LedgerAccount.RECEIVABLE,
+    credit: LedgerAccount.CASH,
+  },
+};
+
+/**
+ * One double-entry posting: the amount moves from the credit account to
+ * the debit account. Entries are never edited; corrections are new entries.
+ */
+@Entity('family_ledger_entries')
+export class LedgerEntry extends BaseEntity {
+  @Column({ name: 'family_account_id', type: 'uuid' })
+  familyAccountId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'entry_type', type: 'varchar', length: 50 })
+  entryType: LedgerEntryType;
+
+  @Column({ name: 'debit_account', type: 'varchar', length: 50 })
+  debitAccount: LedgerAccount;
+
+  @Column({ name: 'credit_account', type: 'varchar', length: 50 })
+  creditAccount: LedgerAccount;
+
+  @Column({ type: 'integer' })
+  amount: number; // Amount in cents, always positive
+
+  @Column({ type: 'text' })
+  description: string;
+
+  // A source document is posted once per entry type, apart from invoice
+  // adjustments
+  @Column({ name: 'source_type', type: 'varchar', length: 50, nullable: true })
+  sourceType: LedgerSourceType | null;
+
+  @Column({ name: 'source_id', type: 'uuid', nullable: true })
+  sourceId: string | null;
+
+  @Column({ name: 'effective_at', type: 'timestamptz' })
+  effectiveAt: Date;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdBy: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  // Relations
+  @ManyToOne(() => FamilyAccount, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'family_account_id' })
+  familyAccount: FamilyAccount;
+}
@@ -0,0 +1,70 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+/** Where a payment on a tax statement was recorded */
+export enum TaxStatementSource {
+  INVOICE = 'invoice',
+  PAYMENT = 'payment',
+  TRANSACTION = 'transaction',
+}
+
+export interface TaxStatementLine {
+  source: TaxStatementSource;
+  sourceId: string;
+  paidAt: string; // ISO date
+  description: string;
+  studentId: string | null;
+  childName: string | null;
+  amount: number; // Cents, net of refunds
+}
+
+export interface TaxStatementChild {
+  studentId: string | null;
+  childName: string | null;
+  amount: number; // Cents
+}
+
+/**
+ * A family's childcare payments to a school over a calendar year, for
+ * dependent care FSA and tax credit claims. Generated statements are a
+ * snapshot; generating the year again replaces them.
+ */
+@Entity('tax_statements')
+@Unique(['schoolId', 'year', 'parentEmail'])
+export class TaxStatement extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ type: 'integer' })
+  year: number;
+
+  @Column({ name: 'parent_email', type: 'varchar', length: 255 })
+  parentEmail: string; // Lowercased
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @Column({ name: 'parent_name', type: 'varchar', length: 255, nullable: true })
+  parentName: string | null;
+
+  @Column({ name: 'total_amount', type: 'integer' })
+  totalAmount: number; // Cents
+
+  @Column({ type: 'jsonb', default: [] })
+  children: TaxStatementChild[];
+
+  @Column({ type: 'jsonb', default: [] })
+  lines: TaxStatementLine[];
+
+  @Column({ name: 'emailed_at', type: 'timestamptz', nullable: true })
+  emailedAt: Date | null;
+
+  @Column({ name: 'email_error', type: 'text', nullable: true })
+  emailError: string | null;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
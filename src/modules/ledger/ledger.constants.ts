@@ -0,0 +1,9 @@
+export const TAX_STATEMENTS_QUEUE = 'tax-statements';
+
+/** Emails one family's year-end tax statement; failures are retried with backoff */
+export const SEND_TAX_STATEMENT_JOB = 'send-tax-statement';
+
+export const LEDGER_QUEUE = 'ledger';
+
+/** Repeatable job that posts what the ledger missed of every family's invoices and charges */
+export const RECONCILE_FAMILY_ACCOUNTS_JOB = 'reconcile-family-accounts';
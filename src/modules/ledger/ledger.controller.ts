@@ -0,0 +1,308 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LedgerService } from './ledger.service';
+import { FamilyAccount } from './entities/family-account.entity';
+import {
+  FamilyAccountQueryDto,
+  FamilyAccountResponseDto,
+  FamilyStatementResponseDto,
+  IssueAccountCreditDto,
+  LedgerEntryQueryDto,
+  LedgerEntryResponseDto,
+  OpenFamilyAccountDto,
+  StatementQueryDto,
+} from './dto/family-account.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+const STAFF_ROLES = [
+  AppRole.SUPER_ADMIN,
+  AppRole.SCHOOL_ADMIN,
+  AppRole.SCHOOL_OWNER,
+  AppRole.ADMISSIONS_STAFF,
+];
+
+@ApiTags('Family Accounts')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(FamilyAccount)
+@Controller('family-accounts')
+export class LedgerController {
+  constructor(
+    private readonly ledgerService: LedgerService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only view family accounts of your own school',
+      );
+    }
+  }
+
+  /**
+   * Parents may read their own accounts; staff the accounts of their school
+   */
+  private async findAccessibleAccount(
+    user: AuthUser,
+    id: string,
+  ): Promise<FamilyAccount> {
+    const account = await this.ledgerService.findAccount(id);
+
+    if (user.primaryRole === AppRole.PARENT) {
+      if (account.parentEmail !== user.email?.toLowerCase()) {
+        throw new ForbiddenException('You can only view your own account');
+      }
+      return account;
+    }
+
+    await this.ensureUserCanManageSchool(user, account.schoolId);
+    return account;
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'List family accounts',
+    description: 'Family accounts of a school with their balances.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Family accounts retrieved successfully',
+    type: [FamilyAccountResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: FamilyAccountQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: FamilyAccountResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.ledgerService.findAll(schoolId!, query);
+  }
+
+  @Post()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Open a family account',
+    description:
+      "Finds or opens the account of the family with this parent email and posts the family's existing invoices and charges to it.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Family account opened',
+    type: FamilyAccountResponseDto,
+  })
+  async open(
+    @Body() dto: OpenFamilyAccountDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FamilyAccountResponseDto> {
+    await this.ensureUserCanManageSchool(user, dto.schoolId);
+    const account = await this.ledgerService.findOrCreateAccount(
+      dto.schoolId,
+      dto.parentEmail,
+    );
+    await this.ledgerService.reconcile(account);
+    return this.ledgerService.getAccountSummary(account);
+  }
+
+  @Get('mine')
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Get my family accounts',
+    description:
+      'Balance and account credit of the signed-in parent at each school.',
+  })
+  @ApiQuery({ name: 'schoolId', required: false, type: String })
+  @ApiResponse({
+    status: 200,
+    description: 'Family accounts retrieved successfully',
+    type: [FamilyAccountResponseDto],
+  })
+  async findMine(
+    @CurrentUser() user: AuthUser,
+    @Query('schoolId') schoolId?: string,
+  ): Promise<FamilyAccountResponseDto[]> {
+    if (!user.email) {
+      throw new BadRequestException('Parent email is required');
+    }
+    return this.ledgerService.findParentAccounts(user.email, schoolId);
+  }
+
+  @Get(':id')
+  @Roles(...STAFF_ROLES, AppRole.PARENT)
+  @ApiOperation({ summary: 'Get a family account with its balance' })
+  @ApiParam({ name: 'id', description: 'Family account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Family account retrieved successfully',
+    type: FamilyAccountResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Family account not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FamilyAccountResponseDto> {
+    const account = await this.findAccessibleAccount(user, id);
+    return this.ledgerService.getAccountSummary(account);
+  }
+
+  @Get(':id/entries')
+  @Roles(...STAFF_ROLES, AppRole.PARENT)
+  @ApiOperation({
+    summary: 'List ledger entries',
+    description:
+      'Entries of the account, newest first, with the balance owed after each one.',
+  })
+  @ApiParam({ name: 'id', description: 'Family account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Ledger entries retrieved successfully',
+    type: [LedgerEntryResponseDto],
+  })
+  @ApiNotFoundResponse({ description: 'Family account not found' })
+  async findEntries(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: LedgerEntryQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: LedgerEntryResponseDto[]; total: number }> {
+    const account = await this.findAccessibleAccount(user, id);
+    return this.ledgerService.findEntries(account, query);
+  }
+
+  @Get(':id/statement')
+  @Roles(...STAFF_ROLES, AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Get a monthly statement',
+    description:
+      "Opening balance, the month's charges, payments, refunds and credits, and the closing balance.",
+  })
+  @ApiParam({ name: 'id', description: 'Family account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Statement retrieved successfully',
+    type: FamilyStatementResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Family account not found' })
+  async getStatement(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: StatementQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<FamilyStatementResponseDto> {
+    const account = await this.findAccessibleAccount(user, id);
+    return this.ledgerService.getStatement(account, query.year, query.month);
+  }
+
+  @Post(':id/credits')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Issue account credit',
+    description:
+      "Adds credit to the family's account. It is applied automatically to their next invoice.",
+  })
+  @ApiParam({ name: 'id', description: 'Family account ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Credit issued',
+    type: LedgerEntryResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Family account not found' })
+  async issueCredit(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: IssueAccountCreditDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<LedgerEntryResponseDto> {
+    const account = await this.findAccessibleAccount(user, id);
+    return this.ledgerService.issueCredit(
+      account,
+      dto.amount,
+      dto.reason,
+      user.id,
+    );
+  }
+
+  @Delete(':id/flag')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Clear the follow-up flag',
+    description:
+      'Removes the flag that dunning or staff put on the account once the family has been followed up with.',
+  })
+  @ApiParam({ name: 'id', description: 'Family account ID' })
+  @ApiResponse({ status: 204, description: 'Flag cleared' })
+  @ApiNotFoundResponse({ description: 'Family account not found' })
+  async clearFlag(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const account = await this.findAccessibleAccount(user, id);
+    await this.ledgerService.clearFlag(account);
+  }
+}
@@ -0,0 +1,62 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+import { TaxStatementService } from './tax-statement.service';
+import { TaxStatementsController } from './tax-statements.controller';
+import { TaxStatementsProcessor } from './tax-statements.processor';
+import { LedgerProcessor } from './ledger.processor';
+import { FamilyAccount } from './entities/family-account.entity';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { TaxStatement } from './entities/tax-statement.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { InvoiceItem } from '../invoices/entities/invoice-item.entity';
+import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { AdHocCharge } from '../payments/entities/ad-hoc-charge.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { Transaction } from '../payments/entities/transaction.entity';
+import { Refund } from '../payments/entities/refund.entity';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { Student } from '../students/entities/student.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { MailerModule } from '../mailer/mailer.module';
+import { SharedModule } from '../../shared/shared.module';
+import { LEDGER_QUEUE, TAX_STATEMENTS_QUEUE } from './ledger.constants';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      FamilyAccount,
+      LedgerEntry,
+      TaxStatement,
+      Invoice,
+      InvoiceItem,
+      LeadInvoice,
+      LeadEntity,
+      AdHocCharge,
+      Payment,
+      Transaction,
+      Refund,
+      EnrollmentEntity,
+      Student,
+      ProfileEntity,
+      SchoolEntity,
+    ]),
+    BullModule.registerQueue({ name: TAX_STATEMENTS_QUEUE }),
+    BullModule.registerQueue({ name: LEDGER_QUEUE }),
+    MailerModule,
+    SharedModule,
+  ],
+  controllers: [LedgerController, TaxStatementsController],
+  providers: [
+    LedgerService,
+    TaxStatementService,
+    TaxStatementsProcessor,
+    LedgerProcessor,
+  ],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
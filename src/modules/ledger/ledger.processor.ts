@@ -0,0 +1,43 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { LedgerService } from './ledger.service';
+import {
+  LEDGER_QUEUE,
+  RECONCILE_FAMILY_ACCOUNTS_JOB,
+} from './ledger.constants';
+
+// Overnight, before the morning tuition billing run
+const RECONCILE_CRON = '0 3 * * *';
+
+/**
+ * Posts anything the ledger missed once a night, such as lead invoices and
+ * ad hoc charges that are not posted as they happen
+ */
+@Processor(LEDGER_QUEUE)
+export class LedgerProcessor implements OnModuleInit {
+  private readonly logger = new Logger(LedgerProcessor.name);
+
+  constructor(
+    @InjectQueue(LEDGER_QUEUE)
+    private readonly ledgerQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.ledgerQueue,
+      RECONCILE_FAMILY_ACCOUNTS_JOB,
+      { cron: RECONCILE_CRON },
+    );
+  }
+
+  @Process(RECONCILE_FAMILY_ACCOUNTS_JOB)
+  async reconcileAccounts(): Promise<{ accounts: number }> {
+    const accounts = await this.ledgerService.reconcileAll();
+    this.logger.log(`Reconciled ${accounts} family accounts`);
+    return { accounts };
+  }
+}
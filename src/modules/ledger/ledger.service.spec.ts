@@ -0,0 +1,320 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { LedgerService } from './ledger.service';
+import { FamilyAccount } from './entities/family-account.entity';
+import {
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerSourceType,
+} from './entities/ledger-entry.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { InvoiceItem } from '../invoices/entities/invoice-item.entity';
+import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { AdHocCharge } from '../payments/entities/ad-hoc-charge.entity';
+import { Student } from '../students/entities/student.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { LATE_FEE_ITEM_CATEGORY } from '../invoices/invoices.constants';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import type { InvoiceEvent } from '../../common/interfaces/domain-event.interface';
+
+const INVOICE_ID = 'invoice-1';
+
+const account = {
+  id: 'account-1',
+  schoolId: 'school-1',
+  parentEmail: 'parent@example.com',
+  parentId: null,
+} as FamilyAccount;
+
+const event: InvoiceEvent = {
+  invoiceId: INVOICE_ID,
+  schoolId: 'school-1',
+  source: 'invoice',
+};
+
+/**
+ * Ledger entries kept in memory, with the unique index on entry type and
+ * source that makes posting a source document twice a no-op
+ */
+class EntryStore {
+  entries: LedgerEntry[] = [];
+
+  insert(entry: LedgerEntry): { raw: { id: string }[] } {
+    const duplicate =
+      entry.sourceId &&
+      entry.sourceType !== LedgerSourceType.INVOICE_ADJUSTMENT &&
+      this.entries.some(
+        (existing) =>
+          existing.entryType === entry.entryType &&
+          existing.sourceType === entry.sourceType &&
+          existing.sourceId === entry.sourceId,
+      );
+    if (duplicate) {
+      return { raw: [] };
+    }
+    const id = `entry-${this.entries.length + 1}`;
+    this.entries.push({ ...entry, id });
+    return { raw: [{ id }] };
+  }
+
+  ofType(entryType: LedgerEntryType): number[] {
+    return this.entries
+      .filter((entry) => entry.entryType === entryType)
+      .map((entry) => entry.amount);
+  }
+
+  get balance(): number {
+    return this.entries.reduce(
+      (sum, entry) =>
+        entry.debitAccount === LedgerAccount.RECEIVABLE
+          ? sum + entry.amount
+          : entry.creditAccount === LedgerAccount.RECEIVABLE
+            ? sum - entry.amount
+            : sum,
+      0,
+    );
+  }
+}
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let store: EntryStore;
+  let invoice: Invoice | null;
+
+  function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+    return {
+      id: INVOICE_ID,
+      invoiceNumber: 'INV-1001',
+      schoolId: 'school-1',
+      leadId: 'lead-1',
+      parentId: null,
+      studentId: null,
+      amount: 50000,
+      status: PaymentStatus.PENDING,
+      items: [],
+      transactionId: null,
+      paymentDate: null,
+      createdAt: new Date('2026-03-01T00:00:00Z'),
+      updatedAt: new Date('2026-03-01T00:00:00Z'),
+      ...overrides,
+    } as Invoice;
+  }
+
+  beforeEach(async () => {
+    store = new EntryStore();
+    invoice = makeInvoice();
+
+    const chain = <T extends object>(target: T, methods: string[]): T => {
+      methods.forEach((method) => {
+        (target as Record<string, unknown>)[method] = () => target;
+      });
+      return target;
+    };
+    const manager = {
+      create: (_entity: unknown, data: object) => ({ ...data }),
+      save: (entity: object) => Promise.resolve(entity),
+      findOne: (entity: unknown) =>
+        Promise.resolve(
+          entity === FamilyAccount
+            ? account
+            : invoice && { ...invoice, items: [...(invoice.items ?? [])] },
+        ),
+      createQueryBuilder: (entity?: unknown) => {
+        if (entity === LedgerEntry) {
+          return chain(
+            {
+              getMany: () =>
+                Promise.resolve(
+                  store.entries.filter(
+                    (entry) =>
+                      entry.sourceId === INVOICE_ID ||
+                      entry.metadata?.invoiceId === INVOICE_ID,
+                  ),
+                ),
+              getRawOne: () =>
+                Promise.resolve({ balance: store.balance, availableCredit: 0 }),
+            },
+            ['select', 'addSelect', 'where', 'andWhere', 'setParameters'],
+          );
+        }
+        let values: LedgerEntry;
+        const insert = chain(
+          {
+            values: (entry: LedgerEntry) => {
+              values = entry;
+              return insert;
+            },
+            execute: () => Promise.resolve(store.insert(values)),
+          },
+          ['insert', 'into', 'orIgnore', 'returning'],
+        );
+        return insert;
+      },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        {
+          provide: getRepositoryToken(FamilyAccount),
+          useValue: {
+            createQueryBuilder: () =>
+              chain({ execute: () => Promise.resolve({}) }, [
+                'insert',
+                'into',
+                'values',
+                'orIgnore',
+              ]),
+            findOne: () => Promise.resolve(account),
+            findOneOrFail: () => Promise.resolve(account),
+          },
+        },
+        {
+          provide: getRepositoryToken(LedgerEntry),
+          useValue: {
+            findOne: ({ where }: { where: Partial<LedgerEntry> }) =>
+              Promise.resolve(
+                store.entries.find(
+                  (entry) =>
+                    entry.sourceType === where.sourceType &&
+                    entry.sourceId === where.sourceId,
+                ) ?? null,
+              ),
+          },
+        },
+        {
+          provide: getRepositoryToken(Invoice),
+          useValue: {
+            findOne: () =>
+              Promise.resolve(
+                invoice && { ...invoice, items: [...(invoice.items ?? [])] },
+              ),
+          },
+        },
+        { provide: getRepositoryToken(LeadInvoice), useValue: {} },
+        { provide: getRepositoryToken(AdHocCharge), useValue: {} },
+        {
+          provide: getRepositoryToken(LeadEntity),
+          useValue: {
+            findOne: () =>
+              Promise.resolve({
+                id: 'lead-1',
+                parentEmail: account.parentEmail,
+              }),
+          },
+        },
+        { provide: getRepositoryToken(Student), useValue: {} },
+        { provide: getRepositoryToken(ProfileEntity), useValue: {} },
+        {
+          provide: DataSource,
+          useValue: {
+            manager,
+            transaction: (work: (entityManager: typeof manager) => unknown) =>
+              work(manager),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LedgerService);
+  });
+
+  it('posts an invoice charge once however often it is announced', async () => {
+    await service.handleInvoiceCreated(event);
+    await service.handleInvoiceCreated(event);
+    await service.handleInvoiceUpdated(event);
+
+    expect(store.ofType(LedgerEntryType.CHARGE)).toEqual([50000]);
+    expect(store.balance).toBe(50000);
+  });
+
+  it('posts a payment once however often it is announced', async () => {
+    await service.handleInvoiceCreated(event);
+    invoice = makeInvoice({ status: PaymentStatus.PAID });
+    await service.handleInvoicePaid(event);
+    await service.handleInvoicePaid(event);
+
+    expect(store.ofType(LedgerEntryType.PAYMENT)).toEqual([50000]);
+    expect(store.balance).toBe(0);
+  });
+
+  it('posts each late fee as its own charge once', async () => {
+    await service.handleInvoiceCreated(event);
+    invoice = makeInvoice({
+      amount: 52500,
+      items: [
+        {
+          id: 'item-late-fee',
+          category: LATE_FEE_ITEM_CATEGORY,
+          description: 'Late fee',
+          total: 2500,
+          createdAt: new Date('2026-03-20T00:00:00Z'),
+        } as InvoiceItem,
+      ],
+    });
+    await service.handleInvoiceLateFeeAdded(event);
+    await service.handleInvoiceLateFeeAdded(event);
+
+    expect(store.ofType(LedgerEntryType.CHARGE)).toEqual([50000, 2500]);
+    expect(store.ofType(LedgerEntryType.VOID)).toEqual([]);
+    expect(store.balance).toBe(52500);
+  });
+
+  it('adjusts the charge of an edited invoice once per change', async () => {
+    await service.handleInvoiceCreated(event);
+
+    invoice = makeInvoice({ amount: 60000 });
+    await service.handleInvoiceUpdated(event);
+    await service.handleInvoiceUpdated(event);
+    expect(store.balance).toBe(60000);
+
+    invoice = makeInvoice({ amount: 45000 });
+    await service.handleInvoiceUpdated(event);
+    await service.handleInvoiceUpdated(event);
+
+    expect(store.ofType(LedgerEntryType.CHARGE)).toEqual([50000, 10000]);
+    expect(store.ofType(LedgerEntryType.VOID)).toEqual([15000]);
+    expect(store.balance).toBe(45000);
+  });
+
+  it('reverses the payment of an invoice that is no longer paid', async () => {
+    invoice = makeInvoice({ status: PaymentStatus.PAID });
+    await service.handleInvoicePaid(event);
+
+    invoice = makeInvoice({ status: PaymentStatus.PENDING });
+    await service.handleInvoiceUpdated(event);
+    await service.handleInvoiceUpdated(event);
+    expect(store.ofType(LedgerEntryType.PAYMENT_REVERSED)).toEqual([50000]);
+    expect(store.balance).toBe(50000);
+
+    // Paid again: the payment is posted again as an adjustment
+    invoice = makeInvoice({ status: PaymentStatus.PAID });
+    await service.handleInvoicePaid(event);
+    await service.handleInvoicePaid(event);
+    expect(store.ofType(LedgerEntryType.PAYMENT)).toEqual([50000, 50000]);
+    expect(store.balance).toBe(0);
+  });
+
+  it('reverses a deleted invoice in full once', async () => {
+    invoice = makeInvoice({ status: PaymentStatus.PAID });
+    await service.handleInvoicePaid(event);
+
+    invoice = null;
+    await service.handleInvoiceUpdated(event);
+    await service.handleInvoiceUpdated(event);
+
+    expect(store.ofType(LedgerEntryType.VOID)).toEqual([50000]);
+    expect(store.ofType(LedgerEntryType.PAYMENT_REVERSED)).toEqual([50000]);
+    expect(store.balance).toBe(0);
+  });
+
+  it('does nothing for an invoice that was never posted and is gone', async () => {
+    invoice = null;
+    await service.handleInvoiceUpdated(event);
+
+    expect(store.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,1104 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, DataSource, EntityManager, Repository } from 'typeorm';
+import { FamilyAccount } from './entities/family-account.entity';
+import {
+  LEDGER_POSTINGS,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerSourceType,
+} from './entities/ledger-entry.entity';
+import {
+  FamilyAccountResponseDto,
+  FamilyStatementResponseDto,
+  LedgerEntryResponseDto,
+} from './dto/family-account.dto';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { InvoiceItem } from '../invoices/entities/invoice-item.entity';
+import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import {
+  AdHocCharge,
+  AdHocChargePaymentStatus,
+} from '../payments/entities/ad-hoc-charge.entity';
+import { Student } from '../students/entities/student.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { LATE_FEE_ITEM_CATEGORY } from '../invoices/invoices.constants';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type {
+  InvoiceEvent,
+  RefundProcessedEvent,
+} from '../../common/interfaces/domain-event.interface';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** InvoiceItem category of the negative line that applies account credit */
+export const ACCOUNT_CREDIT_ITEM_CATEGORY = 'account_credit';
+
+/** LeadInvoice statuses that cancel the charge */
+const CANCELLED_LEAD_INVOICE_STATUSES = ['cancelled', 'void'];
+
+interface LedgerPosting {
+  entryType: LedgerEntryType;
+  amount: number;
+  description: string;
+  sourceType?: LedgerSourceType | null;
+  sourceId?: string | null;
+  effectiveAt?: Date;
+  createdBy?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+interface LedgerBalance {
+  balance: number;
+  availableCredit: number;
+}
+
+/**
+ * Double-entry ledger per family account. Charges, payments, refunds and
+ * credits are posted as entries between the receivable, account credit,
+ * cash and revenue accounts, so the balance owed and the credit held are
+ * sums over the entries. Invoices are posted as they are created, paid and
+ * changed; an invoice edited, cancelled or deleted after it was posted gets
+ * adjustment entries that bring its charge and payment in line. Anything
+ * else a family's documents recorded is posted by the nightly reconcile,
+ * which is safe to repeat because a source document is posted at most once
+ * per entry type. Reading an account never posts.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectRepository(FamilyAccount)
+    private readonly accountRepository: Repository<FamilyAccount>,
+    @InjectRepository(LedgerEntry)
+    private readonly entryRepository: Repository<LedgerEntry>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(LeadInvoice)
+    private readonly leadInvoiceRepository: Repository<LeadInvoice>,
+    @InjectRepository(AdHocCharge)
+    private readonly adHocChargeRepository: Repository<AdHocCharge>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  @OnEvent(DomainEvent.INVOICE_CREATED, { async: true })
+  async handleInvoiceCreated(event: InvoiceEvent): Promise<void> {
+    try {
+      await this.postInvoiceEvent(event);
+      if (event.source === 'invoice') {
+        await this.applyAccountCredit(event.invoiceId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to post ${event.source} ${event.invoiceId} to the ledger: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent(DomainEvent.INVOICE_PAID, { async: true })
+  async handleInvoicePaid(event: InvoiceEvent): Promise<void> {
+    try {
+      await this.postInvoiceEvent(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to post the payment of ${event.source} ${event.invoiceId} to the ledger: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent(DomainEvent.INVOICE_UPDATED, { async: true })
+  async handleInvoiceUpdated(event: InvoiceEvent): Promise<void> {
+    try {
+      await this.postInvoiceEvent(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to post the changes of ${event.source} ${event.invoiceId} to the ledger: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent(DomainEvent.INVOICE_LATE_FEE_ADDED, { async: true })
+  async handleInvoiceLateFeeAdded(event: InvoiceEvent): Promise<void> {
+    try {
+      await this.postInvoiceEvent(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to post the late fee of invoice ${event.invoiceId} to the ledger: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent(DomainEvent.REFUND_PROCESSED, { async: true })
+  async handleRefundProcessed(event: RefundProcessedEvent): Promise<void> {
+    try {
+      await this.postRefund(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to post refund ${event.refundId} to the ledger: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Find the family's account at the school, opening it on first use
+   */
+  async findOrCreateAccount(
+    schoolId: string,
+    parentEmail: string,
+    parentId?: string | null,
+  ): Promise<FamilyAccount> {
+    const email = parentEmail.trim().toLowerCase();
+
+    await this.accountRepository
+      .createQueryBuilder()
+      .insert()
+      .into(FamilyAccount)
+      .values({ schoolId, parentEmail: email, parentId: parentId ?? null })
+      .orIgnore()
+      .execute();
+
+    const account = await this.accountRepository.findOneOrFail({
+      where: { schoolId, parentEmail: email },
+    });
+    if (!account.parentId && parentId) {
+      account.parentId = parentId;
+      await this.accountRepository.update(account.id, { parentId });
+    }
+
+    return account;
+  }
+
+  /**
+   * Find the family's account at the school without opening one
+   */
+  async findAccountByEmail(
+    schoolId: string,
+    parentEmail: string,
+  ): Promise<FamilyAccount | null> {
+    return this.accountRepository.findOne({
+      where: { schoolId, parentEmail: parentEmail.trim().toLowerCase() },
+    });
+  }
+
+  async findAccount(id: string): Promise<FamilyAccount> {
+    const account = await this.accountRepository.findOne({ where: { id } });
+
+    if (!account) {
+      throw new NotFoundException(`Family account with ID "${id}" not found`);
+    }
+
+    return account;
+  }
+
+  async findAll(
+    schoolId: string,
+    options: { page?: number; limit?: number } = {},
+  ): Promise<{ data: FamilyAccountResponseDto[]; total: number }> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const [accounts, total] = await this.accountRepository.findAndCount({
+      where: { schoolId },
+      order: { parentEmail: 'ASC' },
+      skip: ((options.page ?? 1) - 1) * limit,
+      take: limit,
+    });
+
+    const data = await Promise.all(
+      accounts.map(async (account) =>
+        this.mapToResponseDto(account, await this.getBalance(account.id)),
+      ),
+    );
+
+    return { data, total };
+  }
+
+  /**
+   * Accounts of the parent at every school that has posted to their ledger
+   */
+  async findParentAccounts(
+    parentEmail: string,
+    schoolId?: string,
+  ): Promise<FamilyAccountResponseDto[]> {
+    const accounts = await this.accountRepository.find({
+      where: {
+        parentEmail: parentEmail.trim().toLowerCase(),
+        ...(schoolId && { schoolId }),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    return Promise.all(
+      accounts.map((account) => this.getAccountSummary(account)),
+    );
+  }
+
+  async getAccountSummary(
+    account: FamilyAccount,
+  ): Promise<FamilyAccountResponseDto> {
+    return this.mapToResponseDto(account, await this.getBalance(account.id));
+  }
+
+  async findEntries(
+    account: FamilyAccount,
+    options: { page?: number; limit?: number } = {},
+  ): Promise<{ data: LedgerEntryResponseDto[]; total: number }> {
+    // Running balances need every earlier entry, so page after computing them
+    const entries = this.withRunningBalance(
+      await this.findAccountEntries(account.id),
+      0,
+    ).reverse();
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const start = ((options.page ?? 1) - 1) * limit;
+
+    return {
+      data: entries.slice(start, start + limit),
+      total: entries.length,
+    };
+  }
+
+  /**
+   * Monthly statement: opening balance, the month's entries with running
+   * balance, totals per entry type and the closing balance
+   */
+  async getStatement(
+    account: FamilyAccount,
+    year: number,
+    month: number,
+  ): Promise<FamilyStatementResponseDto> {
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+    const periodEnd = new Date(Date.UTC(year, month, 1));
+    const entries = await this.findAccountEntries(account.id, periodEnd);
+
+    const before = entries.filter((entry) => entry.effectiveAt < periodStart);
+    const opening = this.sumBalance(before);
+    const inPeriod = this.withRunningBalance(
+      entries.filter((entry) => entry.effectiveAt >= periodStart),
+      opening.balance,
+    );
+    const closing = this.sumBalance(entries);
+    const total = (entryType: LedgerEntryType) =>
+      inPeriod
+        .filter((entry) => entry.entryType === entryType)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+      account: this.mapToResponseDto(
+        account,
+        await this.getBalance(account.id),
+      ),
+      periodStart: periodStart.toISOString().slice(0, 10),
+      periodEnd: new Date(periodEnd.getTime() - 1).toISOString().slice(0, 10),
+      openingBalance: opening.balance,
+      charges: total(LedgerEntryType.CHARGE),
+      payments:
+        total(LedgerEntryType.PAYMENT) -
+        total(LedgerEntryType.PAYMENT_REVERSED),
+      refunds: total(LedgerEntryType.REFUND),
+      creditsApplied: total(LedgerEntryType.CREDIT_APPLIED),
+      voided: total(LedgerEntryType.VOID),
+      closingBalance: closing.balance,
+      availableCredit: closing.availableCredit,
+      entries: inPeriod,
+    };
+  }
+
+  /**
+   * Give the family account credit. It is applied to their next invoice.
+   */
+  async issueCredit(
+    account: FamilyAccount,
+    amount: number,
+    reason: string,
+    userId: string,
+  ): Promise<LedgerEntryResponseDto> {
+    const entry = await this.post(this.dataSource.manager, account, {
+      entryType: LedgerEntryType.CREDIT,
+      amount,
+      description: reason,
+      createdBy: userId,
+    });
+    const { balance } = await this.getBalance(account.id);
+
+    this.logger.log(
+      `Issued ${amount} cents of account credit to family account ${account.id}`,
+    );
+    return this.mapEntryToResponseDto(entry!, balance);
+  }
+
+  /**
+   * Mark the account for follow-up. An account that is already flagged keeps
+   * its original reason.
+   */
+  async flagAccount(accountId: string, reason: string): Promise<boolean> {
+    const result = await this.accountRepository
+      .createQueryBuilder()
+      .update(FamilyAccount)
+      .set({ flaggedAt: () => 'now()', flagReason: reason })
+      .where('id = :accountId', { accountId })
+      .andWhere('flagged_at IS NULL')
+      .execute();
+
+    const flagged = (result.affected ?? 0) > 0;
+    if (flagged) {
+      this.logger.log(`Flagged family account ${accountId}: ${reason}`);
+    }
+    return flagged;
+  }
+
+  async clearFlag(account: FamilyAccount): Promise<void> {
+    account.flaggedAt = null;
+    account.flagReason = null;
+    await this.accountRepository.save(account);
+  }
+
+  async getBalance(
+    accountId: string,
+    manager: EntityManager = this.dataSource.manager,
+  ): Promise<LedgerBalance> {
+    const totals = await manager
+      .createQueryBuilder(LedgerEntry, 'entry')
+      .select(
+        `COALESCE(SUM(CASE WHEN entry.debit_account = :receivable THEN entry.amount WHEN entry.credit_account = :receivable THEN -entry.amount ELSE 0 END), 0)`,
+        'balance',
+      )
+      .addSelect(
+        `COALESCE(SUM(CASE WHEN entry.credit_account = :accountCredit THEN entry.amount WHEN entry.debit_account = :accountCredit THEN -entry.amount ELSE 0 END), 0)`,
+        'availableCredit',
+      )
+      .where('entry.family_account_id = :accountId', { accountId })
+      .setParameters({
+        receivable: LedgerAccount.RECEIVABLE,
+        accountCredit: LedgerAccount.ACCOUNT_CREDIT,
+      })
+      .getRawOne<{ balance: string; availableCredit: string }>();
+
+    return {
+      balance: Number(totals?.balance ?? 0),
+      availableCredit: Number(totals?.availableCredit ?? 0),
+    };
+  }
+
+  /**
+   * Resolve the family an invoice belongs to: the lead's parent, the parent
+   * user, or the student's parent
+   */
+  async findInvoiceAccount(invoice: Invoice): Promise<FamilyAccount | null> {
+    let email: string | null = null;
+
+    if (invoice.leadId) {
+      const lead = await this.leadRepository.findOne({
+        where: { id: invoice.leadId },
+        select: ['id', 'parentEmail'],
+      });
+      email = lead?.parentEmail ?? null;
+    }
+    if (!email && invoice.parentId) {
+      const profile = await this.profileRepository.findOne({
+        where: { id: invoice.parentId },
+        select: ['id', 'email'],
+      });
+      email = profile?.email ?? null;
+    }
+    if (!email && invoice.studentId) {
+      const student = await this.studentRepository.findOne({
+        where: { id: invoice.studentId },
+        select: ['id', 'parentEmail'],
+      });
+      email = student?.parentEmail ?? null;
+    }
+
+    return email
+      ? this.findOrCreateAccount(invoice.schoolId, email, invoice.parentId)
+      : null;
+  }
+
+  private async postInvoiceEvent(event: InvoiceEvent): Promise<void> {
+    if (event.source === 'lead_invoice') {
+      const leadInvoice = await this.leadInvoiceRepository.findOne({
+        where: { id: event.invoiceId },
+      });
+      if (leadInvoice) {
+        const account = await this.findOrCreateAccount(
+          leadInvoice.schoolId,
+          leadInvoice.parentEmail,
+        );
+        await this.postLeadInvoice(account, leadInvoice);
+      }
+      return;
+    }
+
+    const invoice = await this.invoiceRepository.findOne({
+      where: { id: event.invoiceId },
+      relations: ['items'],
+    });
+    if (!invoice) {
+      // Deleted: reverse whatever was posted for it
+      const posted = await this.entryRepository.findOne({
+        where: {
+          sourceType: LedgerSourceType.INVOICE,
+          sourceId: event.invoiceId,
+        },
+      });
+      if (posted) {
+        await this.postInvoiceAdjustments(
+          await this.findAccount(posted.familyAccountId),
+          event.invoiceId,
+        );
+      }
+      return;
+    }
+
+    const account = await this.findInvoiceAccount(invoice);
+    if (!account) {
+      this.logger.debug(
+        `Invoice ${event.invoiceId} has no family to post it to`,
+      );
+      return;
+    }
+
+    await this.postInvoice(account, invoice);
+  }
+
+  /**
+   * Post money paid back to the family. The refunded part of the charge is
+   * voided with it, so the balance owed stays as it was.
+   */
+  private async postRefund(event: RefundProcessedEvent): Promise<void> {
+    const target = await this.findRefundedInvoice(event);
+    if (!target) {
+      this.logger.debug(`Refund ${event.refundId} has no family to post it to`);
+      return;
+    }
+
+    const { account, invoiceNumber } = target;
+    const source = {
+      sourceType: LedgerSourceType.REFUND,
+      sourceId: event.refundId,
+      createdBy: event.userId ?? null,
+      metadata: { invoiceId: event.invoiceId },
+    };
+    await this.dataSource.transaction(async (manager) => {
+      await this.post(manager, account, {
+        ...source,
+        entryType: LedgerEntryType.REFUND,
+        amount: event.amount,
+        description: `Refund for invoice ${invoiceNumber}`,
+      });
+      await this.post(manager, account, {
+        ...source,
+        entryType: LedgerEntryType.VOID,
+        amount: event.amount,
+        description: `Refunded charge on invoice ${invoiceNumber}`,
+      });
+    });
+  }
+
+  private async findRefundedInvoice(
+    event: RefundProcessedEvent,
+  ): Promise<{ account: FamilyAccount; invoiceNumber: string } | null> {
+    if (event.source === 'lead_invoice') {
+      const leadInvoice = await this.leadInvoiceRepository.findOne({
+        where: { id: event.invoiceId },
+      });
+      return leadInvoice
+        ? {
+            account: await this.findOrCreateAccount(
+              leadInvoice.schoolId,
+              leadInvoice.parentEmail,
+            ),
+            invoiceNumber: leadInvoice.invoiceNumber,
+          }
+        : null;
+    }
+
+    const invoice = await this.invoiceRepository.findOne({
+      where: { id: event.invoiceId },
+    });
+    const account = invoice ? await this.findInvoiceAccount(invoice) : null;
+    return invoice && account
+      ? { account, invoiceNumber: invoice.invoiceNumber }
+      : null;
+  }
+
+  /**
+   * Pay down a new pending invoice with the family's account credit. The
+   * credit is added to the invoice as a negative line, and an invoice it
+   * covers in full is marked paid.
+   */
+  private async applyAccountCredit(invoiceId: string): Promise<void> {
+    const pending = await this.invoiceRepository.findOne({
+      where: { id: invoiceId },
+    });
+    const account = pending ? await this.findInvoiceAccount(pending) : null;
+    if (!account) {
+      return;
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      // Locking the account keeps two invoices from spending the same credit
+      await manager.findOne(FamilyAccount, {
+        where: { id: account.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const invoice = await manager.findOne(Invoice, {
+        where: { id: invoiceId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (
+        !invoice ||
+        invoice.status !== PaymentStatus.PENDING ||
+        invoice.amount <= 0
+      ) {
+        return;
+      }
+
+      const { availableCredit } = await this.getBalance(account.id, manager);
+      const applied = Math.min(availableCredit, invoice.amount);
+      if (applied <= 0) {
+        return;
+      }
+
+      const entry = await this.post(manager, account, {
+        entryType: LedgerEntryType.CREDIT_APPLIED,
+        amount: applied,
+        description: `Account credit applied to invoice ${invoice.invoiceNumber}`,
+        sourceType: LedgerSourceType.INVOICE,
+        sourceId: invoice.id,
+      });
+      if (!entry) {
+        return;
+      }
+
+      await manager.save(
+        manager.create(InvoiceItem, {
+          invoiceId: invoice.id,
+          description: 'Account credit applied',
+          quantity: 1,
+          unitPrice: -applied,
+          total: -applied,
+          category: ACCOUNT_CREDIT_ITEM_CATEGORY,
+          metadata: { ledgerEntryId: entry.id },
+        }),
+      );
+
+      invoice.amount -= applied;
+      if (invoice.amount === 0) {
+        invoice.status = PaymentStatus.PAID;
+        invoice.paymentDate = new Date();
+        invoice.paymentMethod = 'account_credit';
+      }
+      await manager.save(invoice);
+
+      this.logger.log(
+        `Applied ${applied} cents of account credit to invoice ${invoice.id}`,
+      );
+    });
+  }
+
+  /**
+   * Reconcile every family account, one at a time so a failing account does
+   * not stop the rest. Returns the number of accounts reconciled.
+   */
+  async reconcileAll(): Promise<number> {
+    const accounts = await this.accountRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+
+    let reconciled = 0;
+    for (const account of accounts) {
+      try {
+        await this.reconcile(account);
+        reconciled++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to reconcile family account ${account.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return reconciled;
+  }
+
+  /**
+   * Post everything the family's invoices, lead invoices and ad hoc charges
+   * recorded that the ledger does not have yet
+   */
+  async reconcile(account: FamilyAccount): Promise<void> {
+    const [leads, students] = await Promise.all([
+      this.leadRepository
+        .createQueryBuilder('lead')
+        .select(['lead.id'])
+        .where('lead.school_id = :schoolId', { schoolId: account.schoolId })
+        .andWhere('LOWER(lead.parent_email) = :email', {
+          email: account.parentEmail,
+        })
+        .getMany(),
+      this.studentRepository
+        .createQueryBuilder('student')
+        .select(['student.id'])
+        .where('student.school_id = :schoolId', {
+          schoolId: account.schoolId,
+        })
+        .andWhere('LOWER(student.parent_email) = :email', {
+          email: account.parentEmail,
+        })
+        .getMany(),
+    ]);
+    const leadIds = leads.map((lead) => lead.id);
+    const studentIds = students.map((student) => student.id);
+
+    const invoiceQuery = this.invoiceRepository
+      .createQueryBuilder('invoice')
+      .leftJoinAndSelect('invoice.items', 'items')
+      .where('invoice.school_id = :schoolId', { schoolId: account.schoolId })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('invoice.parent_id = :parentId', {
+            parentId: account.parentId,
+          });
+          if (leadIds.length > 0) {
+            qb.orWhere('invoice.lead_id IN (:...leadIds)', { leadIds });
+          }
+          if (studentIds.length > 0) {
+            qb.orWhere('invoice.student_id IN (:...studentIds)', {
+              studentIds,
+            });
+          }
+        }),
+      );
+
+    const [invoices, leadInvoices, adHocCharges] = await Promise.all([
+      account.parentId || leadIds.length > 0 || studentIds.length > 0
+        ? invoiceQuery.getMany()
+        : Promise.resolve([]),
+      this.leadInvoiceRepository
+        .createQueryBuilder('invoice')
+        .where('invoice.school_id = :schoolId', {
+          schoolId: account.schoolId,
+        })
+        .andWhere('LOWER(invoice.parent_email) = :email', {
+          email: account.parentEmail,
+        })
+        .getMany(),
+      studentIds.length > 0
+        ? this.adHocChargeRepository
+            .createQueryBuilder('charge')
+            .where('charge.student_id IN (:...studentIds)', { studentIds })
+            // Charges billed on an invoice are posted with the invoice
+            .andWhere('charge.invoice_id IS NULL')
+            .getMany()
+        : Promise.resolve([]),
+    ]);
+
+    for (const invoice of invoices) {
+      await this.postInvoice(account, invoice);
+    }
+    for (const leadInvoice of leadInvoices) {
+      await this.postLeadInvoice(account, leadInvoice);
+    }
+    for (const charge of adHocCharges) {
+      await this.postAdHocCharge(account, charge);
+    }
+  }
+
+  private async postInvoice(
+    account: FamilyAccount,
+    invoice: Invoice,
+  ): Promise<void> {
+    const manager = this.dataSource.manager;
+    const source = {
+      sourceType: LedgerSourceType.INVOICE,
+      sourceId: invoice.id,
+    };
+    // Late fees are added after the invoice is posted, so each is its own charge
+    const lateFees = (invoice.items ?? []).filter(
+      (item) => item.category === LATE_FEE_ITEM_CATEGORY,
+    );
+
+    await this.post(manager, account, {
+      ...source,
+      entryType: LedgerEntryType.CHARGE,
+      amount:
+        this.getInvoiceCharge(invoice) -
+        lateFees.reduce((sum, item) => sum + item.total, 0),
+      description: `Invoice ${invoice.invoiceNumber}`,
+      effectiveAt: invoice.createdAt,
+    });
+
+    for (const item of lateFees) {
+      await this.post(manager, account, {
+        sourceType: LedgerSourceType.INVOICE_ITEM,
+        sourceId: item.id,
+        entryType: LedgerEntryType.CHARGE,
+        amount: item.total,
+        description: `${item.description} on invoice ${invoice.invoiceNumber}`,
+        effectiveAt: item.createdAt,
+        metadata: { invoiceId: invoice.id },
+      });
+    }
+
+    if (
+      invoice.status === PaymentStatus.PAID ||
+      invoice.status === PaymentStatus.REFUNDED
+    ) {
+      await this.post(manager, account, {
+        ...source,
+        entryType: LedgerEntryType.PAYMENT,
+        amount: invoice.amount,
+        description: `Payment for invoice ${invoice.invoiceNumber}`,
+        effectiveAt: invoice.paymentDate ?? invoice.updatedAt,
+        metadata: { transactionId: invoice.transactionId },
+      });
+    }
+
+    await this.postInvoiceAdjustments(account, invoice.id);
+  }
+
+  /**
+   * Bring what is posted for an invoice in line with the invoice as it is
+   * now: the charge moves to its current total, and its payment is taken
+   * back once it is no longer paid, or posted again when it is paid again.
+   * A deleted invoice is reversed in full.
+   */
+  private async postInvoiceAdjustments(
+    account: FamilyAccount,
+    invoiceId: string,
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      // Locking the account keeps two updates from posting the same change
+      await manager.findOne(FamilyAccount, {
+        where: { id: account.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const invoice = await manager.findOne(Invoice, {
+        where: { id: invoiceId },
+        relations: ['items'],
+      });
+      const entries = await manager
+        .createQueryBuilder(LedgerEntry, 'entry')
+        .where('entry.family_account_id = :accountId', {
+          accountId: account.id,
+        })
+        .andWhere(
+          new Brackets((qb) => {
+            qb.where(
+              'entry.source_id = :invoiceId AND entry.source_type IN (:...sourceTypes)',
+              {
+                invoiceId,
+                sourceTypes: [
+                  LedgerSourceType.INVOICE,
+                  LedgerSourceType.INVOICE_ADJUSTMENT,
+                ],
+              },
+            ).orWhere(
+              "entry.source_type = :itemSource AND entry.metadata ->> 'invoiceId' = :invoiceId",
+              { itemSource: LedgerSourceType.INVOICE_ITEM },
+            );
+          }),
+        )
+        .getMany();
+
+      const charge = invoice ? this.getInvoiceCharge(invoice) : 0;
+      const paid =
+        invoice?.status === PaymentStatus.PAID ||
+        invoice?.status === PaymentStatus.REFUNDED;
+      const sum = (entryTypes: LedgerEntryType[]) =>
+        entries
+          .filter((entry) => entryTypes.includes(entry.entryType))
+          .reduce((total, entry) => total + entry.amount, 0);
+      const postedCharge =
+        sum([LedgerEntryType.CHARGE]) - sum([LedgerEntryType.VOID]);
+      const postedPayment =
+        sum([LedgerEntryType.PAYMENT]) -
+        sum([LedgerEntryType.PAYMENT_REVERSED]);
+      if (postedCharge === 0 && postedPayment === 0) {
+        return;
+      }
+
+      const invoiceNumber = invoice?.invoiceNumber ?? 'deleted';
+      const source = {
+        sourceType: LedgerSourceType.INVOICE_ADJUSTMENT,
+        sourceId: invoiceId,
+      };
+      if (charge > postedCharge) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.CHARGE,
+          amount: charge - postedCharge,
+          description: `Invoice ${invoiceNumber} increased`,
+        });
+      } else if (charge < postedCharge) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.VOID,
+          amount: postedCharge - charge,
+          description: invoice
+            ? `Invoice ${invoiceNumber} reduced`
+            : 'Deleted invoice reversed',
+        });
+      }
+
+      if (!paid && postedPayment > 0) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.PAYMENT_REVERSED,
+          amount: postedPayment,
+          description: invoice
+            ? `Payment for invoice ${invoiceNumber} reversed`
+            : 'Payment for deleted invoice reversed',
+        });
+      } else if (paid && postedPayment === 0 && invoice) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.PAYMENT,
+          amount: invoice.amount,
+          description: `Payment for invoice ${invoiceNumber}`,
+          effectiveAt: invoice.paymentDate ?? invoice.updatedAt,
+          metadata: { transactionId: invoice.transactionId },
+        });
+      }
+    });
+  }
+
+  /**
+   * Everything the invoice charges, late fees included. Applied credit
+   * lowered the invoice total but not the charge.
+   */
+  private getInvoiceCharge(invoice: Invoice): number {
+    return (invoice.items ?? [])
+      .filter((item) => item.category === ACCOUNT_CREDIT_ITEM_CATEGORY)
+      .reduce((sum, item) => sum - item.total, invoice.amount);
+  }
+
+  private async postLeadInvoice(
+    account: FamilyAccount,
+    leadInvoice: LeadInvoice,
+  ): Promise<void> {
+    const manager = this.dataSource.manager;
+    const source = {
+      sourceType: LedgerSourceType.LEAD_INVOICE,
+      sourceId: leadInvoice.id,
+    };
+    // Lead invoice amounts are in dollars
+    const amount = Math.round(Number(leadInvoice.amount) * 100);
+
+    if (CANCELLED_LEAD_INVOICE_STATUSES.includes(leadInvoice.status)) {
+      if (await this.hasEntry(LedgerEntryType.CHARGE, source.sourceId)) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.VOID,
+          amount,
+          description: `Invoice ${leadInvoice.invoiceNumber} cancelled`,
+        });
+      }
+      return;
+    }
+
+    await this.post(manager, account, {
+      ...source,
+      entryType: LedgerEntryType.CHARGE,
+      amount,
+      description: `Invoice ${leadInvoice.invoiceNumber}`,
+      effectiveAt: leadInvoice.createdAt,
+    });
+
+    if (leadInvoice.status === 'paid' || leadInvoice.status === 'refunded') {
+      await this.post(manager, account, {
+        ...source,
+        entryType: LedgerEntryType.PAYMENT,
+        amount,
+        description: `Payment for invoice ${leadInvoice.invoiceNumber}`,
+        effectiveAt: leadInvoice.paidAt ?? leadInvoice.updatedAt,
+      });
+    }
+  }
+
+  private async postAdHocCharge(
+    account: FamilyAccount,
+    charge: AdHocCharge,
+  ): Promise<void> {
+    const manager = this.dataSource.manager;
+    const source = {
+      sourceType: LedgerSourceType.AD_HOC_CHARGE,
+      sourceId: charge.id,
+    };
+
+    if (charge.paymentStatus === AdHocChargePaymentStatus.CANCELLED) {
+      if (await this.hasEntry(LedgerEntryType.CHARGE, source.sourceId)) {
+        await this.post(manager, account, {
+          ...source,
+          entryType: LedgerEntryType.VOID,
+          amount: charge.chargeAmount,
+          description: `${charge.chargeDescription} cancelled`,
+        });
+      }
+      return;
+    }
+
+    await this.post(manager, account, {
+      ...source,
+      entryType: LedgerEntryType.CHARGE,
+      amount: charge.chargeAmount,
+      description: charge.chargeDescription,
+      effectiveAt: charge.createdAt,
+    });
+
+    if (charge.paymentStatus === AdHocChargePaymentStatus.PAID) {
+      await this.post(manager, account, {
+        ...source,
+        entryType: LedgerEntryType.PAYMENT,
+        amount: charge.chargeAmount,
+        description: `Payment for ${charge.chargeDescription}`,
+        effectiveAt: charge.paymentDate ?? charge.updatedAt,
+      });
+    }
+  }
+
+  /**
+   * Insert an entry. Returns null for empty amounts and for source
+   * documents already posted with this entry type.
+   */
+  private async post(
+    manager: EntityManager,
+    account: FamilyAccount,
+    posting: LedgerPosting,
+  ): Promise<LedgerEntry | null> {
+    if (posting.amount <= 0) {
+      return null;
+    }
+
+    const { debit, credit } = LEDGER_POSTINGS[posting.entryType];
+    const entry = manager.create(LedgerEntry, {
+      familyAccountId: account.id,
+      schoolId: account.schoolId,
+      entryType: posting.entryType,
+      debitAccount: debit,
+      creditAccount: credit,
+      amount: posting.amount,
+      description: posting.description,
+      sourceType: posting.sourceType ?? null,
+      sourceId: posting.sourceId ?? null,
+      effectiveAt: posting.effectiveAt ?? new Date(),
+      createdBy: posting.createdBy ?? null,
+      metadata: posting.metadata ?? null,
+    });
+
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(LedgerEntry)
+      .values(entry)
+      .orIgnore()
+      .returning('*')
+      .execute();
+
+    const row = (result.raw as Array<{ id: string }>)[0];
+    return row ? { ...entry, id: row.id } : null;
+  }
+
+  private async hasEntry(
+    entryType: LedgerEntryType,
+    sourceId: string,
+  ): Promise<boolean> {
+    return (
+      (await this.entryRepository.count({ where: { entryType, sourceId } })) > 0
+    );
+  }
+
+  private async findAccountEntries(
+    accountId: string,
+    before?: Date,
+  ): Promise<LedgerEntry[]> {
+    const query = this.entryRepository
+      .createQueryBuilder('entry')
+      .where('entry.family_account_id = :accountId', { accountId })
+      .orderBy('entry.effective_at', 'ASC')
+      .addOrderBy('entry.created_at', 'ASC');
+    if (before) {
+      query.andWhere('entry.effective_at < :before', { before });
+    }
+    return query.getMany();
+  }
+
+  private sumBalance(entries: LedgerEntry[]): LedgerBalance {
+    return entries.reduce(
+      (totals, entry) => ({
+        balance: totals.balance + this.receivableChange(entry),
+        availableCredit:
+          totals.availableCredit +
+          (entry.creditAccount === LedgerAccount.ACCOUNT_CREDIT
+            ? entry.amount
+            : entry.debitAccount === LedgerAccount.ACCOUNT_CREDIT
+              ? -entry.amount
+              : 0),
+      }),
+      { balance: 0, availableCredit: 0 },
+    );
+  }
+
+  private receivableChange(entry: LedgerEntry): number {
+    if (entry.debitAccount === LedgerAccount.RECEIVABLE) {
+      return entry.amount;
+    }
+    if (entry.creditAccount === LedgerAccount.RECEIVABLE) {
+      return -entry.amount;
+    }
+    return 0;
+  }
+
+  private withRunningBalance(
+    entries: LedgerEntry[],
+    openingBalance: number,
+  ): LedgerEntryResponseDto[] {
+    let balance = openingBalance;
+    return entries.map((entry) => {
+      balance += this.receivableChange(entry);
+      return this.mapEntryToResponseDto(entry, balance);
+    });
+  }
+
+  private mapToResponseDto(
+    account: FamilyAccount,
+    balance: LedgerBalance,
+  ): FamilyAccountResponseDto {
+    return {
+      id: account.id,
+      schoolId: account.schoolId,
+      parentEmail: account.parentEmail,
+      parentId: account.parentId,
+      flaggedAt: account.flaggedAt,
+      flagReason: account.flagReason,
+      balance: balance.balance,
+      availableCredit: balance.availableCredit,
+      createdAt: account.createdAt,
+    };
+  }
+
+  private mapEntryToResponseDto(
+    entry: LedgerEntry,
+    balanceAfter: number,
+  ): LedgerEntryResponseDto {
+    return {
+      id: entry.id,
+      entryType: entry.entryType,
+      debitAccount: entry.debitAccount,
+      creditAccount: entry.creditAccount,
+      amount: entry.amount,
+      description: entry.description,
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      effectiveAt: entry.effectiveAt,
+      createdBy: entry.createdBy,
+      balanceAfter,
+    };
+  }
+}
@@ -0,0 +1,740 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import type { Queue } from 'bull';
+import { In, Repository } from 'typeorm';
+import {
+  TaxStatement,
+  TaxStatementChild,
+  TaxStatementLine,
+  TaxStatementSource,
+} from './entities/tax-statement.entity';
+import {
+  EmailTaxStatementsDto,
+  GenerateTaxStatementsResultDto,
+  TaxStatementQueryDto,
+  TaxStatementResponseDto,
+} from './dto/tax-statement.dto';
+import {
+  SEND_TAX_STATEMENT_JOB,
+  TAX_STATEMENTS_QUEUE,
+} from './ledger.constants';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { Transaction } from '../payments/entities/transaction.entity';
+import { Refund, RefundStatus } from '../payments/entities/refund.entity';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { Student } from '../students/entities/student.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { MailerService } from '../mailer/mailer.service';
+import {
+  MoneyFormatter,
+  PDF_MARGIN,
+  PDF_MUTED_COLOR,
+  PdfService,
+} from '../../shared/pdf.service';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { EmailType } from '../../common/enums/email-type.enum';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Statuses of invoices and transactions that were paid, even if refunded since */
+const PAID_STATUSES = [PaymentStatus.PAID, PaymentStatus.REFUNDED];
+
+/** Transaction payment types that are not childcare paid by a family */
+const EXCLUDED_TRANSACTION_TYPES = ['subscription', 'refund'];
+
+export interface SendTaxStatementJobData {
+  taxStatementId: string;
+}
+
+export interface TaxStatementPdfFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+interface FamilyPayments {
+  parentEmail: string;
+  parentId: string | null;
+  parentName: string | null;
+  lines: TaxStatementLine[];
+}
+
+/**
+ * Year-end childcare statements for families: what each family paid the
+ * school in a calendar year, per child, with the school's tax ID, for
+ * dependent care FSA and tax credit claims.
+ *
+ * Payments are gathered from paid invoices, recorded payments and provider
+ * transactions not tied to an invoice, net of refunds, and grouped by parent
+ * email like family accounts are.
+ */
+@Injectable()
+export class TaxStatementService {
+  private readonly logger = new Logger(TaxStatementService.name);
+
+  constructor(
+    @InjectRepository(TaxStatement)
+    private readonly statementRepository: Repository<TaxStatement>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    @InjectRepository(Refund)
+    private readonly refundRepository: Repository<Refund>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    @InjectRepository(Student)
+    private readonly studentRepository: Repository<Student>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectQueue(TAX_STATEMENTS_QUEUE)
+    private readonly statementsQueue: Queue<SendTaxStatementJobData>,
+    private readonly mailerService: MailerService,
+    private readonly pdfService: PdfService,
+  ) {}
+
+  /**
+   * Generate the statements of every family that paid the school in the
+   * year, replacing any generated before
+   */
+  async generate(
+    schoolId: string,
+    year: number,
+  ): Promise<GenerateTaxStatementsResultDto> {
+    const school = await this.findSchool(schoolId);
+    if (!school.taxId) {
+      throw new BadRequestException(
+        "Add the school's tax ID before generating tax statements",
+      );
+    }
+
+    const families = await this.collectFamilyPayments(schoolId, year);
+    const existing = await this.statementRepository.find({
+      where: { schoolId, year },
+    });
+    const existingByEmail = new Map(
+      existing.map((statement) => [statement.parentEmail, statement]),
+    );
+
+    const statements = [...families.values()].map((family) => {
+      const statement =
+        existingByEmail.get(family.parentEmail) ??
+        this.statementRepository.create({
+          schoolId,
+          year,
+          parentEmail: family.parentEmail,
+        });
+      const lines = [...family.lines].sort((a, b) =>
+        a.paidAt.localeCompare(b.paidAt),
+      );
+      statement.parentId = family.parentId;
+      statement.parentName = family.parentName;
+      statement.lines = lines;
+      statement.children = this.totalByChild(lines);
+      statement.totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+      return statement;
+    });
+    await this.statementRepository.save(statements, { chunk: 100 });
+
+    const stale = existing.filter(
+      (statement) => !families.has(statement.parentEmail),
+    );
+    if (stale.length > 0) {
+      await this.statementRepository.remove(stale);
+    }
+
+    this.logger.log(
+      `Generated ${statements.length} tax statements of school ${schoolId} for ${year}`,
+    );
+    return { generated: statements.length, removed: stale.length };
+  }
+
+  /**
+   * Queue the statements of the year to be emailed to their families
+   */
+  async queueEmails(dto: EmailTaxStatementsDto): Promise<{ queued: number }> {
+    const statements = await this.statementRepository.find({
+      select: { id: true },
+      where: {
+        schoolId: dto.schoolId,
+        year: dto.year,
+        ...(dto.statementIds ? { id: In(dto.statementIds) } : {}),
+      },
+    });
+
+    await this.statementsQueue.addBulk(
+      statements.map((statement) => ({
+        name: SEND_TAX_STATEMENT_JOB,
+        data: { taxStatementId: statement.id },
+      })),
+    );
+    return { queued: statements.length };
+  }
+
+  /**
+   * Email a statement to its family with the PDF attached. Throws when the
+   * email fails so the queue retries it.
+   */
+  async send(id: string): Promise<void> {
+    const statement = await this.findOne(id);
+    const school = await this.findSchool(statement.schoolId);
+    const file = await this.render(statement, school);
+
+    const result = await this.mailerService.sendEmail({
+      to: statement.parentEmail,
+      subject: `Your ${statement.year} childcare payment statement from ${school.name}`,
+      html: this.getStatementEmailHTML(statement, school),
+      emailType: EmailType.PAYMENT_CONFIRMATION,
+      schoolId: statement.schoolId,
+      metadata: { taxStatementId: statement.id, year: statement.year },
+      attachments: [
+        {
+          filename: file.fileName,
+          content: file.buffer.toString('base64'),
+          contentType: file.contentType,
+        },
+      ],
+    });
+
+    if (!result.success) {
+      statement.emailError = result.skipped
+        ? `Skipped: ${result.reason ?? 'unknown reason'}`
+        : (result.error ?? 'unknown error');
+      await this.statementRepository.save(statement);
+      if (result.skipped) {
+        return;
+      }
+      throw new Error(
+        `Failed to email tax statement ${statement.id}: ${statement.emailError}`,
+      );
+    }
+
+    statement.emailedAt = new Date();
+    statement.emailError = null;
+    await this.statementRepository.save(statement);
+  }
+
+  async render(
+    statement: TaxStatement,
+    loadedSchool?: SchoolEntity,
+  ): Promise<TaxStatementPdfFile> {
+    const school = loadedSchool ?? (await this.findSchool(statement.schoolId));
+    const logo = school.logoUrl
+      ? await this.pdfService.fetchImage(school.logoUrl)
+      : null;
+    // Statements are for US dependent care claims
+    const money = this.pdfService.moneyFormatter('usd');
+
+    const buffer = await this.pdfService.render((doc) => {
+      this.pdfService.drawLetterhead(doc, {
+        name: school.name,
+        lines: [school.address, school.phone, school.email],
+        logo,
+      });
+      this.drawSummary(doc, statement, school);
+      this.drawChildren(doc, statement, money);
+      this.drawLines(doc, statement, money);
+
+      doc.moveDown(2);
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .fillColor(PDF_MUTED_COLOR)
+        .text(
+          `Payments received by ${school.name} for childcare in ${statement.year}, net of refunds. Keep this statement for dependent care FSA reimbursement or the Child and Dependent Care Credit (IRS Form 2441).`,
+          PDF_MARGIN,
+          undefined,
+          { width: this.pdfService.contentWidth(doc) },
+        );
+      doc.fillColor('black');
+    });
+
+    const emailName = statement.parentEmail.split('@')[0].replace(/\W+/g, '-');
+    return {
+      buffer,
+      contentType: 'application/pdf',
+      fileName: `childcare-statement-${statement.year}-${emailName}.pdf`,
+    };
+  }
+
+  async findAll(
+    schoolId: string,
+    query: TaxStatementQueryDto,
+  ): Promise<{ data: TaxStatementResponseDto[]; total: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const [statements, total] = await this.statementRepository.findAndCount({
+      where: { schoolId, year: query.year },
+      order: { parentEmail: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: statements.map((statement) =>
+        this.mapToResponseDto(statement, false),
+      ),
+      total,
+    };
+  }
+
+  /**
+   * Statements of the signed-in parent, newest year first
+   */
+  async findParentStatements(
+    parentEmail: string,
+    year?: number,
+  ): Promise<TaxStatementResponseDto[]> {
+    const statements = await this.statementRepository.find({
+      where: {
+        parentEmail: parentEmail.toLowerCase(),
+        ...(year ? { year } : {}),
+      },
+      order: { year: 'DESC' },
+    });
+    return statements.map((statement) =>
+      this.mapToResponseDto(statement, true),
+    );
+  }
+
+  async findOne(id: string): Promise<TaxStatement> {
+    const statement = await this.statementRepository.findOne({
+      where: { id },
+    });
+
+    if (!statement) {
+      throw new NotFoundException(`Tax statement with ID "${id}" not found`);
+    }
+
+    return statement;
+  }
+
+  mapToResponseDto(
+    statement: TaxStatement,
+    withLines: boolean,
+  ): TaxStatementResponseDto {
+    return {
+      id: statement.id,
+      schoolId: statement.schoolId,
+      year: statement.year,
+      parentEmail: statement.parentEmail,
+      parentId: statement.parentId,
+      parentName: statement.parentName,
+      totalAmount: statement.totalAmount,
+      children: statement.children,
+      ...(withLines ? { lines: statement.lines } : {}),
+      emailedAt: statement.emailedAt,
+      emailError: statement.emailError,
+      updatedAt: statement.updatedAt,
+    };
+  }
+
+  private async findSchool(id: string): Promise<SchoolEntity> {
+    const school = await this.schoolRepository.findOne({ where: { id } });
+
+    if (!school) {
+      throw new NotFoundException(`School with ID "${id}" not found`);
+    }
+
+    return school;
+  }
+
+  /**
+   * What each family paid in the year, keyed by lowercased parent email
+   */
+  private async collectFamilyPayments(
+    schoolId: string,
+    year: number,
+  ): Promise<Map<string, FamilyPayments>> {
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const nextYearStart = new Date(Date.UTC(year + 1, 0, 1));
+
+    const [invoices, payments, transactions] = await Promise.all([
+      this.invoiceRepository
+        .createQueryBuilder('invoice')
+        .where('invoice.school_id = :schoolId', { schoolId })
+        .andWhere('invoice.status IN (:...statuses)', {
+          statuses: PAID_STATUSES,
+        })
+        .andWhere('invoice.payment_date >= :yearStart', { yearStart })
+        .andWhere('invoice.payment_date < :nextYearStart', { nextYearStart })
+        .getMany(),
+      this.paymentRepository
+        .createQueryBuilder('payment')
+        .where('payment.school_id = :schoolId', { schoolId })
+        .andWhere('payment.payment_status = :paid', {
+          paid: PaymentStatus.PAID,
+        })
+        .andWhere('payment.payment_date >= :yearStart', {
+          yearStart: `${year}-01-01`,
+        })
+        .andWhere('payment.payment_date < :nextYearStart', {
+          nextYearStart: `${year + 1}-01-01`,
+        })
+        .getMany(),
+      this.transactionRepository
+        .createQueryBuilder('transaction')
+        .where('transaction.school_id = :schoolId', { schoolId })
+        .andWhere('transaction.status IN (:...statuses)', {
+          statuses: PAID_STATUSES,
+        })
+        .andWhere('transaction.payment_type NOT IN (:...excludedTypes)', {
+          excludedTypes: EXCLUDED_TRANSACTION_TYPES,
+        })
+        .andWhere('transaction.created_at >= :yearStart', { yearStart })
+        .andWhere('transaction.created_at < :nextYearStart', { nextYearStart })
+        .getMany(),
+    ]);
+
+    const invoiceIds = invoices.map((invoice) => invoice.id);
+    const studentIds = invoices
+      .map((invoice) => invoice.studentId)
+      .filter((id): id is string => !!id);
+    const enrollmentIds = payments
+      .map((payment) => payment.enrollmentId)
+      .filter((id): id is string => !!id);
+    const parentIds = [
+      ...invoices.map((invoice) => invoice.parentId),
+      ...payments.map((payment) => payment.parentId),
+      ...transactions.map((transaction) => transaction.userId),
+    ].filter((id): id is string => !!id);
+
+    const [refunds, students, enrollments, profiles] = await Promise.all([
+      invoiceIds.length > 0
+        ? this.refundRepository.find({
+            where: {
+              invoiceId: In(invoiceIds),
+              invoiceSource: 'invoice',
+              status: RefundStatus.PROCESSED,
+            },
+          })
+        : ([] as Refund[]),
+      studentIds.length > 0
+        ? this.studentRepository.find({
+            where: { id: In([...new Set(studentIds)]) },
+          })
+        : ([] as Student[]),
+      enrollmentIds.length > 0
+        ? this.enrollmentRepository.find({
+            where: { id: In([...new Set(enrollmentIds)]) },
+            relations: ['lead'],
+          })
+        : ([] as EnrollmentEntity[]),
+      parentIds.length > 0
+        ? this.profileRepository.find({
+            where: { id: In([...new Set(parentIds)]) },
+          })
+        : ([] as ProfileEntity[]),
+    ]);
+
+    const refundedByInvoice = new Map<string, number>();
+    for (const refund of refunds) {
+      refundedByInvoice.set(
+        refund.invoiceId!,
+        (refundedByInvoice.get(refund.invoiceId!) ?? 0) + refund.amount,
+      );
+    }
+    const studentsById = new Map(
+      students.map((student) => [student.id, student]),
+    );
+    const enrollmentsById = new Map(
+      enrollments.map((enrollment) => [enrollment.id, enrollment]),
+    );
+    const profilesById = new Map(
+      profiles.map((profile) => [profile.id, profile]),
+    );
+
+    const families = new Map<string, FamilyPayments>();
+    const addLine = (
+      parent: ProfileEntity | undefined,
+      fallbackEmail: string | null | undefined,
+      line: TaxStatementLine,
+    ): void => {
+      const email = (parent?.email ?? fallbackEmail)?.trim().toLowerCase();
+      if (!email || line.amount <= 0) {
+        return;
+      }
+      let family = families.get(email);
+      if (!family) {
+        family = {
+          parentEmail: email,
+          parentId: parent?.id ?? null,
+          parentName: parent
+            ? [parent.firstName, parent.lastName].filter(Boolean).join(' ') ||
+              null
+            : null,
+          lines: [],
+        };
+        families.set(email, family);
+      }
+      family.lines.push(line);
+    };
+
+    for (const invoice of invoices) {
+      const student = invoice.studentId
+        ? studentsById.get(invoice.studentId)
+        : undefined;
+      addLine(
+        invoice.parentId ? profilesById.get(invoice.parentId) : undefined,
+        student?.parentEmail,
+        {
+          source: TaxStatementSource.INVOICE,
+          sourceId: invoice.id,
+          paidAt: this.toIsoDate(invoice.paymentDate!),
+          description: `Invoice ${invoice.invoiceNumber}`,
+          studentId: student?.id ?? null,
+          childName: student
+            ? `${student.firstName} ${student.lastName}`
+            : null,
+          amount: invoice.amount - (refundedByInvoice.get(invoice.id) ?? 0),
+        },
+      );
+    }
+
+    // Recorded payments may point at the provider transaction that settled them
+    const recordedTransactionIds = new Set<string>();
+    for (const payment of payments) {
+      if (payment.transactionId) {
+        recordedTransactionIds.add(payment.transactionId);
+      }
+      const lead = payment.enrollmentId
+        ? enrollmentsById.get(payment.enrollmentId)?.lead
+        : undefined;
+      addLine(profilesById.get(payment.parentId), lead?.parentEmail, {
+        source: TaxStatementSource.PAYMENT,
+        sourceId: payment.id,
+        paidAt: this.toIsoDate(payment.paymentDate!),
+        description: payment.paymentMethod
+          ? `${this.humanize(payment.paymentType)} payment - ${this.humanize(payment.paymentMethod)}`
+          : `${this.humanize(payment.paymentType)} payment`,
+        studentId: null,
+        childName: lead?.childName ?? null,
+        // Recorded payments are in dollars
+        amount: Math.round(Number(payment.amount) * 100),
+      });
+    }
+
+    for (const transaction of transactions) {
+      const metadata = transaction.metadata ?? {};
+      // Invoice payments are counted from the invoice, as of its payment date
+      const paysInvoice =
+        !!metadata.invoiceId &&
+        (metadata.paymentType === 'invoice' || !metadata.paymentType);
+      const recorded = [
+        transaction.id,
+        transaction.stripePaymentIntentId,
+        transaction.cardconnectTransactionId,
+      ].some((id) => !!id && recordedTransactionIds.has(id));
+      if (paysInvoice || recorded) {
+        continue;
+      }
+
+      addLine(
+        transaction.userId ? profilesById.get(transaction.userId) : undefined,
+        (metadata.userEmail ?? metadata.email) as string | undefined,
+        {
+          source: TaxStatementSource.TRANSACTION,
+          sourceId: transaction.id,
+          paidAt: this.toIsoDate(transaction.createdAt),
+          description:
+            transaction.description ??
+            `${this.humanize(transaction.paymentType)} payment`,
+          studentId: (metadata.studentId as string | undefined) ?? null,
+          childName:
+            ((metadata.childName ?? metadata.studentName) as
+              | string
+              | undefined) ?? null,
+          amount: transaction.amount - Number(metadata.refundedAmount ?? 0),
+        },
+      );
+    }
+
+    return families;
+  }
+
+  /**
+   * Totals per child. Lines are matched by child name, since recorded
+   * payments only know the child's name; payments for no particular child
+   * are totalled together.
+   */
+  private totalByChild(lines: TaxStatementLine[]): TaxStatementChild[] {
+    const children = new Map<string, TaxStatementChild>();
+    for (const line of lines) {
+      const key = line.childName?.trim().toLowerCase() ?? line.studentId ?? '';
+      const child = children.get(key);
+      if (child) {
+        child.amount += line.amount;
+        child.studentId ??= line.studentId;
+      } else {
+        children.set(key, {
+          studentId: line.studentId,
+          childName: line.childName,
+          amount: line.amount,
+        });
+      }
+    }
+    return [...children.values()];
+  }
+
+  private drawSummary(
+    doc: PDFKit.PDFDocument,
+    statement: TaxStatement,
+    school: SchoolEntity,
+  ): void {
+    const top = doc.y + 15;
+    const right = PDF_MARGIN + this.pdfService.contentWidth(doc) / 2;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(18)
+      .text(`${statement.year} CHILDCARE PAYMENT STATEMENT`, PDF_MARGIN, top);
+    doc.moveDown(0.5);
+    const columnsTop = doc.y;
+
+    doc.font('Helvetica-Bold').fontSize(10).text('Care provider', PDF_MARGIN);
+    doc.font('Helvetica');
+    for (const line of [school.name, school.address]) {
+      if (line) {
+        doc.text(line, PDF_MARGIN);
+      }
+    }
+    doc.text(`Tax ID (EIN): ${school.taxId ?? '-'}`, PDF_MARGIN);
+    const leftBottom = doc.y;
+
+    doc.font('Helvetica-Bold').text('Paid by', right, columnsTop);
+    doc.font('Helvetica');
+    for (const line of [statement.parentName, statement.parentEmail]) {
+      if (line) {
+        doc.text(line, right);
+      }
+    }
+    doc.text(
+      `Issued: ${this.pdfService.formatDate(statement.updatedAt ?? new Date())}`,
+      right,
+    );
+
+    doc.y = Math.max(doc.y, leftBottom) + 20;
+  }
+
+  private drawChildren(
+    doc: PDFKit.PDFDocument,
+    statement: TaxStatement,
+    money: MoneyFormatter,
+  ): void {
+    const width = this.pdfService.contentWidth(doc);
+    const drawLine = (label: string, amount: number, bold = false): void => {
+      const top = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+      doc.text(label, PDF_MARGIN, top, { width: width - 120 });
+      doc.text(money.format(amount), PDF_MARGIN + width - 120, top, {
+        width: 120,
+        align: 'right',
+      });
+      doc.moveDown(0.3);
+    };
+
+    doc.font('Helvetica-Bold').fontSize(12).text('Total paid', PDF_MARGIN);
+    doc.moveDown(0.3);
+    this.pdfService.drawRule(doc);
+    doc.moveDown(0.5);
+    for (const child of statement.children) {
+      drawLine(child.childName ?? 'Other childcare payments', child.amount);
+    }
+    this.pdfService.drawRule(doc);
+    doc.moveDown(0.5);
+    drawLine(`Total paid in ${statement.year}`, statement.totalAmount, true);
+    doc.moveDown(1.5);
+  }
+
+  private drawLines(
+    doc: PDFKit.PDFDocument,
+    statement: TaxStatement,
+    money: MoneyFormatter,
+  ): void {
+    const width = this.pdfService.contentWidth(doc);
+    // Date, description, child and amount columns
+    const columns = [
+      { x: PDF_MARGIN, width: 80, align: 'left' as const },
+      { x: PDF_MARGIN + 80, width: width - 300, align: 'left' as const },
+      { x: PDF_MARGIN + width - 220, width: 130, align: 'left' as const },
+      { x: PDF_MARGIN + width - 90, width: 90, align: 'right' as const },
+    ];
+    const drawRow = (cells: string[]): void => {
+      const top = doc.y;
+      let bottom = top;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        doc.text(cell, column.x, top, {
+          width: column.width,
+          align: column.align,
+        });
+        bottom = Math.max(bottom, doc.y);
+      });
+      doc.y = bottom + 4;
+    };
+
+    doc.font('Helvetica-Bold').fontSize(12).text('Payments', PDF_MARGIN);
+    doc.moveDown(0.3);
+    doc.fontSize(9);
+    drawRow(['Date', 'Description', 'Child', 'Amount']);
+    this.pdfService.drawRule(doc);
+    doc.moveDown(0.5);
+
+    doc.font('Helvetica').fontSize(9);
+    for (const line of statement.lines) {
+      if (doc.y > doc.page.height - PDF_MARGIN - 40) {
+        doc.addPage();
+      }
+      drawRow([
+        this.pdfService.formatDate(line.paidAt),
+        line.description,
+        line.childName ?? '-',
+        money.format(line.amount),
+      ]);
+    }
+    this.pdfService.drawRule(doc);
+  }
+
+  private toIsoDate(value: Date | string): string {
+    // Date columns come back as YYYY-MM-DD strings
+    return typeof value === 'string'
+      ? value.slice(0, 10)
+      : value.toISOString().slice(0, 10);
+  }
+
+  private humanize(value: string): string {
+    const words = value.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private getStatementEmailHTML(
+    statement: TaxStatement,
+    school: SchoolEntity,
+  ): string {
+    const total = this.pdfService
+      .moneyFormatter('usd')
+      .format(statement.totalAmount);
+
+    return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1f2937;">
+        <h2 style="color: #2563eb;">Your ${statement.year} childcare payment statement</h2>
+        <p>Hello ${statement.parentName || 'there'},</p>
+        <p>Attached is your statement of childcare payments to <strong>${school.name}</strong> in ${statement.year}: <strong>${total}</strong> in total, with our tax ID (EIN) ${school.taxId ?? ''}.</p>
+        <p>Keep it for your dependent care FSA reimbursement or Child and Dependent Care Credit claim. If anything looks wrong, please contact the school.</p>
+      </div>
+    `;
+  }
+}
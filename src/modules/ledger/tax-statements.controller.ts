@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaxStatementService } from './tax-statement.service';
+import {
+  EmailTaxStatementsDto,
+  EmailTaxStatementsResultDto,
+  GenerateTaxStatementsDto,
+  GenerateTaxStatementsResultDto,
+  TaxStatementQueryDto,
+  TaxStatementResponseDto,
+} from './dto/tax-statement.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { TaxStatement } from './entities/tax-statement.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+const STAFF_ROLES = [
+  AppRole.SUPER_ADMIN,
+  AppRole.SCHOOL_ADMIN,
+  AppRole.SCHOOL_OWNER,
+  AppRole.ADMISSIONS_STAFF,
+];
+
+@ApiTags('Tax Statements')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(TaxStatement)
+@Controller('tax-statements')
+export class TaxStatementsController {
+  constructor(
+    private readonly taxStatementService: TaxStatementService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage tax statements of your own school',
+      );
+    }
+  }
+
+  @Post('generate')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Generate tax statements',
+    description:
+      "Totals what every family paid the school in the calendar year, per child and net of refunds, from paid invoices, recorded payments and transactions. Replaces the year's statements generated before. The school's tax ID is required.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax statements generated',
+    type: GenerateTaxStatementsResultDto,
+  })
+  @ApiBadRequestResponse({ description: 'The school has no tax ID' })
+  async generate(
+    @Body() dto: GenerateTaxStatementsDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<GenerateTaxStatementsResultDto> {
+    await this.ensureUserCanManageSchool(user, dto.schoolId);
+    return this.taxStatementService.generate(dto.schoolId, dto.year);
+  }
+
+  @Post('email')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Email tax statements',
+    description:
+      "Queues the year's statements, or the ones given, to be emailed to their families with the PDF attached.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax statements queued for emailing',
+    type: EmailTaxStatementsResultDto,
+  })
+  async email(
+    @Body() dto: EmailTaxStatementsDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<EmailTaxStatementsResultDto> {
+    await this.ensureUserCanManageSchool(user, dto.schoolId);
+    return this.taxStatementService.queueEmails(dto);
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'List tax statements',
+    description: 'Statements of a school for a year, by parent email.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax statements retrieved successfully',
+    type: [TaxStatementResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: TaxStatementQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: TaxStatementResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.taxStatementService.findAll(schoolId!, query);
+  }
+
+  @Get('mine')
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Get my tax statements',
+    description:
+      'Year-end childcare payment statements of the signed-in parent at each school.',
+  })
+  @ApiQuery({ name: 'year', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax statements retrieved successfully',
+    type: [TaxStatementResponseDto],
+  })
+  async findMine(
+    @CurrentUser() user: AuthUser,
+    @Query('year') year?: string,
+  ): Promise<TaxStatementResponseDto[]> {
+    if (!user.email) {
+      throw new BadRequestException('Parent email is required');
+    }
+    return this.taxStatementService.findParentStatements(
+      user.email,
+      year ? parseInt(year, 10) : undefined,
+    );
+  }
+
+  @Get(':id')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get a tax statement with its payments' })
+  @ApiParam({ name: 'id', description: 'Tax statement ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tax statement retrieved successfully',
+    type: TaxStatementResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Tax statement not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<TaxStatementResponseDto> {
+    const statement = await this.taxStatementService.findOne(id);
+    await this.ensureUserCanManageSchool(user, statement.schoolId);
+    return this.taxStatementService.mapToResponseDto(statement, true);
+  }
+
+  @Get(':id/pdf')
+  @Roles(...STAFF_ROLES, AppRole.PARENT)
+  @ApiOperation({ summary: 'Download a tax statement PDF' })
+  @ApiParam({ name: 'id', description: 'Tax statement ID' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'Tax statement PDF' })
+  @ApiNotFoundResponse({ description: 'Tax statement not found' })
+  async downloadPdf(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<StreamableFile> {
+    const statement = await this.taxStatementService.findOne(id);
+    if (user.primaryRole === AppRole.PARENT) {
+      if (statement.parentEmail !== user.email?.toLowerCase()) {
+        throw new ForbiddenException(
+          'You can only download your own tax statements',
+        );
+      }
+    } else {
+      await this.ensureUserCanManageSchool(user, statement.schoolId);
+    }
+
+    const file = await this.taxStatementService.render(statement);
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+      length: file.buffer.length,
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import {
+  SendTaxStatementJobData,
+  TaxStatementService,
+} from './tax-statement.service';
+import {
+  SEND_TAX_STATEMENT_JOB,
+  TAX_STATEMENTS_QUEUE,
+} from './ledger.constants';
+
+/**
+ * Emails tax statements one per job, so a failed email is retried on its
+ * own without holding up the rest of a bulk send
+ */
+@Processor(TAX_STATEMENTS_QUEUE)
+export class TaxStatementsProcessor {
+  constructor(private readonly taxStatementService: TaxStatementService) {}
+
+  @Process(SEND_TAX_STATEMENT_JOB)
+  async sendStatement(job: Job<SendTaxStatementJobData>): Promise<void> {
+    await this.taxStatementService.send(job.data.taxStatementId);
+  }
+}
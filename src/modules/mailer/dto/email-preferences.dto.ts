@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  ValidateNested,
+} from 'class-validator';
+import {
+  EmailCategory,
+  EmailType,
+} from '../../../common/enums/email-type.enum';
+
+export class EmailCategoryPreferenceDto {
+  @ApiProperty({
+    description: 'Email category',
+    enum: EmailCategory,
+    example: EmailCategory.MARKETING,
+  })
+  @IsEnum(EmailCategory)
+  category: EmailCategory;
+
+  @ApiProperty({
+    description: 'Whether emails of this category are received',
+    example: false,
+  })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateEmailPreferencesDto {
+  @ApiProperty({
+    description:
+      'Categories to change. Transactional emails cannot be turned off.',
+    type: [EmailCategoryPreferenceDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => EmailCategoryPreferenceDto)
+  preferences: EmailCategoryPreferenceDto[];
+}
+
+export class EmailCategoryPreferenceResponseDto {
+  @ApiProperty({
+    description: 'Email category',
+    enum: EmailCategory,
+    example: EmailCategory.MARKETING,
+  })
+  category: EmailCategory;
+
+  @ApiProperty({
+    description: 'Whether emails of this category are received',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: 'Required categories are always sent and cannot be changed',
+    example: false,
+  })
+  required: boolean;
+
+  @ApiProperty({
+    description: 'Email types in the category',
+    enum: EmailType,
+    isArray: true,
+    example: [EmailType.MARKETING],
+  })
+  emailTypes: EmailType[];
+}
+
+export class EmailPreferencesResponseDto {
+  @ApiProperty({
+    description: 'Recipient email address',
+    example: 'parent@example.com',
+  })
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'School the preferences apply to (null for all schools)',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  schoolId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'School name',
+    example: 'ABC Preschool',
+  })
+  schoolName: string | null;
+
+  @ApiProperty({
+    description: 'Category of the email the link came from',
+    enum: EmailCategory,
+    example: EmailCategory.MARKETING,
+  })
+  sourceCategory: EmailCategory;
+
+  @ApiProperty({
+    description: 'Preferences per category',
+    type: [EmailCategoryPreferenceResponseDto],
+  })
+  categories: EmailCategoryPreferenceResponseDto[];
+}
@@ -13,6 +13,8 @@ export enum EmailType {
   DOCUMENT_REMINDER = 'document_reminder',
   INVOICE_REMINDER = 'invoice_reminder',
   STAFF_INVITATION = 'staff_invitation',
+  WAITLIST_OFFER = 'waitlist_offer',
+  MARKETING = 'marketing',
 }
 
 export class SendEmailDto {
@@ -0,0 +1,357 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, IsNull, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EmailPreference } from '../email/entities/email-preference.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { EmailTrackingService } from './email-tracking.service';
+import {
+  EMAIL_TYPE_CATEGORIES,
+  EmailCategory,
+  EmailType,
+} from '../../common/enums/email-type.enum';
+import {
+  EmailPreferencesResponseDto,
+  UpdateEmailPreferencesDto,
+} from './dto/email-preferences.dto';
+
+/**
+ * Contents of a signed unsubscribe token
+ */
+export interface UnsubscribeTokenPayload {
+  email: string;
+  schoolId: string | null;
+  emailType: EmailType;
+  emailLogId: string | null;
+}
+
+/**
+ * Recipient-managed email preferences. Unsubscribe links carry a signed token
+ * for the recipient address, school and email type, so the preference API
+ * needs no login. Preferences are stored per EmailType and changed per
+ * EmailCategory; transactional emails are always sent.
+ */
+@Injectable()
+export class EmailPreferenceService {
+  private readonly logger = new Logger(EmailPreferenceService.name);
+  private readonly secret: string | null;
+  private readonly preferencesApiUrl: string;
+  private readonly preferencesPageUrl: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(EmailPreference)
+    private readonly preferenceRepository: Repository<EmailPreference>,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    private readonly emailTrackingService: EmailTrackingService,
+  ) {
+    this.secret =
+      this.configService.get<string>('email.trackingSecret') ||
+      this.configService.get<string>('jwt.secret') ||
+      null;
+    if (!this.secret) {
+      this.logger.warn(
+        'No EMAIL_TRACKING_SECRET or JWT secret configured. Unsubscribe links are disabled.',
+      );
+    }
+
+    const apiUrl = (
+      this.configService.get<string>('app.apiUrl') || 'http://localhost:3001'
+    ).replace(/\/+$/, '');
+    const apiPrefix = (
+      this.configService.get<string>('app.apiPrefix') || ''
+    ).replace(/^\/+|\/+$/g, '');
+    this.preferencesApiUrl = [apiUrl, apiPrefix, 'email-preferences']
+      .filter(Boolean)
+      .join('/');
+
+    const frontendUrl = (
+      this.configService.get<string>('app.frontendUrl') ||
+      'http://localhost:8080'
+    ).replace(/\/+$/, '');
+    this.preferencesPageUrl = `${frontendUrl}/email-preferences`;
+  }
+
+  /**
+   * Whether recipients may opt out of the email type
+   */
+  canUnsubscribe(emailType: string): boolean {
+    const category = EMAIL_TYPE_CATEGORIES[emailType as EmailType];
+    return !!category && category !== EmailCategory.TRANSACTIONAL;
+  }
+
+  /**
+   * Whether the recipient turned the email type off, either for the school or
+   * for all schools. A school-level preference wins over the global one.
+   */
+  async isSuppressed(
+    email: string,
+    schoolId: string | null | undefined,
+    emailType: string,
+    userId?: string | null,
+  ): Promise<boolean> {
+    if (!this.canUnsubscribe(emailType)) {
+      return false;
+    }
+
+    const preference = await this.findPreference(
+      email,
+      schoolId ?? null,
+      emailType as EmailType,
+      userId,
+    );
+    return preference?.enabled === false;
+  }
+
+  createToken(payload: UnsubscribeTokenPayload): string | null {
+    if (!this.secret) {
+      return null;
+    }
+
+    const body = Buffer.from(
+      JSON.stringify({
+        e: payload.email.trim().toLowerCase(),
+        s: payload.schoolId,
+        t: payload.emailType,
+        l: payload.emailLogId,
+      }),
+    ).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * List-Unsubscribe headers for one-click unsubscribe (RFC 8058)
+   */
+  getListUnsubscribeHeaders(token: string): Record<string, string> {
+    return {
+      'List-Unsubscribe': `<${this.preferencesApiUrl}/${token}/unsubscribe>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Append a footer linking to the preference page. The link is excluded from
+   * click tracking.
+   */
+  appendUnsubscribeFooter(html: string, token: string): string {
+    const footer = `<p style="margin:24px 0 0;font-size:12px;line-height:18px;color:#6b7280;text-align:center;">Don't want these emails? <a href="${this.preferencesPageUrl}/${token}" data-no-track style="color:#6b7280;text-decoration:underline;">Unsubscribe or manage your email preferences</a>.</p>`;
+    return /<\/body>/i.test(html)
+      ? html.replace(/<\/body>/i, `${footer}</body>`)
+      : `${html}${footer}`;
+  }
+
+  async getPreferences(token: string): Promise<EmailPreferencesResponseDto> {
+    const payload = this.verifyToken(token);
+    return this.buildResponse(payload);
+  }
+
+  async updatePreferences(
+    token: string,
+    dto: UpdateEmailPreferencesDto,
+  ): Promise<EmailPreferencesResponseDto> {
+    const payload = this.verifyToken(token);
+
+    for (const { category, enabled } of dto.preferences) {
+      if (category === EmailCategory.TRANSACTIONAL) {
+        throw new BadRequestException(
+          'Transactional emails cannot be turned off',
+        );
+      }
+      await this.setCategory(payload, category, enabled);
+    }
+
+    if (dto.preferences.some((preference) => !preference.enabled)) {
+      await this.recordUnsubscribe(payload);
+    }
+
+    return this.buildResponse(payload);
+  }
+
+  /**
+   * One-click unsubscribe from the category of the email the link came from
+   */
+  async unsubscribe(token: string): Promise<EmailPreferencesResponseDto> {
+    const payload = this.verifyToken(token);
+    const category = EMAIL_TYPE_CATEGORIES[payload.emailType];
+    if (category === EmailCategory.TRANSACTIONAL) {
+      throw new BadRequestException(
+        'Transactional emails cannot be turned off',
+      );
+    }
+
+    await this.setCategory(payload, category, false);
+    await this.recordUnsubscribe(payload);
+    this.logger.log(
+      `${payload.email} unsubscribed from ${category} emails${payload.schoolId ? ` of school ${payload.schoolId}` : ''}`,
+    );
+
+    return this.buildResponse(payload);
+  }
+
+  private verifyToken(token: string): UnsubscribeTokenPayload {
+    const [body, signature] = (token ?? '').split('.');
+    if (!this.secret || !body || !signature) {
+      throw new BadRequestException('Invalid unsubscribe link');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new BadRequestException('Invalid unsubscribe link');
+    }
+
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(body, 'base64url').toString('utf8'),
+      ) as { e?: string; s?: string | null; t?: string; l?: string | null };
+      if (!decoded.e || !decoded.t || !(decoded.t in EMAIL_TYPE_CATEGORIES)) {
+        throw new Error('Incomplete token');
+      }
+
+      return {
+        email: decoded.e,
+        schoolId: decoded.s ?? null,
+        emailType: decoded.t as EmailType,
+        emailLogId: decoded.l ?? null,
+      };
+    } catch {
+      throw new BadRequestException('Invalid unsubscribe link');
+    }
+  }
+
+  private async setCategory(
+    payload: UnsubscribeTokenPayload,
+    category: EmailCategory,
+    enabled: boolean,
+  ): Promise<void> {
+    const emailTypes = this.getCategoryTypes(category);
+    const existing = await this.preferenceRepository.find({
+      where: {
+        email: payload.email,
+        schoolId: payload.schoolId ?? IsNull(),
+        emailType: In(emailTypes),
+      },
+    });
+
+    const preferences = emailTypes.map((emailType) => {
+      const preference =
+        existing.find((row) => row.emailType === emailType) ??
+        this.preferenceRepository.create({
+          userId: null,
+          email: payload.email,
+          schoolId: payload.schoolId,
+          emailType,
+        });
+      preference.enabled = enabled;
+      return preference;
+    });
+
+    await this.preferenceRepository.save(preferences);
+  }
+
+  private async buildResponse(
+    payload: UnsubscribeTokenPayload,
+  ): Promise<EmailPreferencesResponseDto> {
+    const school = payload.schoolId
+      ? await this.schoolRepository.findOne({
+          where: { id: payload.schoolId },
+          select: ['id', 'name'],
+        })
+      : null;
+
+    const categories = await Promise.all(
+      Object.values(EmailCategory).map(async (category) => {
+        const emailTypes = this.getCategoryTypes(category);
+        const required = category === EmailCategory.TRANSACTIONAL;
+        const suppressed = required
+          ? []
+          : await Promise.all(
+              emailTypes.map((emailType) =>
+                this.isSuppressed(payload.email, payload.schoolId, emailType),
+              ),
+            );
+
+        return {
+          category,
+          enabled: !suppressed.some(Boolean),
+          required,
+          emailTypes,
+        };
+      }),
+    );
+
+    return {
+      email: payload.email,
+      schoolId: payload.schoolId,
+      schoolName: school?.name ?? null,
+      sourceCategory: EMAIL_TYPE_CATEGORIES[payload.emailType],
+      categories,
+    };
+  }
+
+  private async findPreference(
+    email: string,
+    schoolId: string | null,
+    emailType: EmailType,
+    userId?: string | null,
+  ): Promise<EmailPreference | null> {
+    const queryBuilder = this.preferenceRepository
+      .createQueryBuilder('preference')
+      .where('preference.email_type = :emailType', { emailType })
+      .andWhere(
+        new Brackets((recipient) => {
+          recipient.where('preference.email = :email', {
+            email: email.trim().toLowerCase(),
+          });
+          if (userId) {
+            recipient.orWhere('preference.user_id = :userId', { userId });
+          }
+        }),
+      );
+
+    if (schoolId) {
+      queryBuilder.andWhere(
+        '(preference.school_id = :schoolId OR preference.school_id IS NULL)',
+        { schoolId },
+      );
+    } else {
+      queryBuilder.andWhere('preference.school_id IS NULL');
+    }
+
+    return queryBuilder
+      .orderBy('preference.school_id', 'ASC', 'NULLS LAST')
+      .addOrderBy('preference.updated_at', 'DESC')
+      .getOne();
+  }
+
+  private async recordUnsubscribe(
+    payload: UnsubscribeTokenPayload,
+  ): Promise<void> {
+    if (!payload.emailLogId) {
+      return;
+    }
+
+    await this.emailTrackingService
+      .recordUnsubscribe(payload.emailLogId)
+      .catch((error: Error) =>
+        this.logger.warn(`Failed to record unsubscribe: ${error.message}`),
+      );
+  }
+
+  private getCategoryTypes(category: EmailCategory): EmailType[] {
+    return Object.values(EmailType).filter(
+      (emailType) => EMAIL_TYPE_CATEGORIES[emailType] === category,
+    );
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret ?? '')
+      .update(`unsubscribe:${body}`)
+      .digest('base64url');
+  }
+}
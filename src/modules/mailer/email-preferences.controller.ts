@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EmailPreferenceService } from './email-preference.service';
+import {
+  EmailPreferencesResponseDto,
+  UpdateEmailPreferencesDto,
+} from './dto/email-preferences.dto';
+import { Public } from '../../common/decorators/public.decorator';
+
+@ApiTags('Email Preferences')
+@Controller('email-preferences')
+export class EmailPreferencesController {
+  constructor(
+    private readonly emailPreferenceService: EmailPreferenceService,
+  ) {}
+
+  @Public()
+  @Get(':token')
+  @ApiOperation({
+    summary: 'Get email preferences',
+    description:
+      'Returns the preferences of the recipient identified by the signed token from an email footer.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed unsubscribe token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Preferences retrieved successfully',
+    type: EmailPreferencesResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid unsubscribe link' })
+  async getPreferences(
+    @Param('token') token: string,
+  ): Promise<EmailPreferencesResponseDto> {
+    return this.emailPreferenceService.getPreferences(token);
+  }
+
+  @Public()
+  @Patch(':token')
+  @ApiOperation({
+    summary: 'Update email preferences',
+    description:
+      'Turn email categories on or off for the recipient. Applies to the school the email came from.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed unsubscribe token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Preferences updated successfully',
+    type: EmailPreferencesResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid link or transactional category',
+  })
+  async updatePreferences(
+    @Param('token') token: string,
+    @Body() updateEmailPreferencesDto: UpdateEmailPreferencesDto,
+  ): Promise<EmailPreferencesResponseDto> {
+    return this.emailPreferenceService.updatePreferences(
+      token,
+      updateEmailPreferencesDto,
+    );
+  }
+
+  @Public()
+  @Post(':token/unsubscribe')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'One-click unsubscribe',
+    description:
+      'Target of the List-Unsubscribe header (RFC 8058). Turns off the category of the email the link came from. The List-Unsubscribe=One-Click form body sent by mail clients is ignored.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed unsubscribe token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Unsubscribed successfully',
+    type: EmailPreferencesResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid link or transactional email',
+  })
+  async unsubscribe(
+    @Param('token') token: string,
+  ): Promise<EmailPreferencesResponseDto> {
+    return this.emailPreferenceService.unsubscribe(token);
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Request, Response } from 'express';
+import { EmailTrackingService } from './email-tracking.service';
+import { Public } from '../../common/decorators/public.decorator';
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64',
+);
+
+@ApiTags('Email Tracking')
+@Controller('email-tracking')
+export class EmailTrackingController {
+  private readonly logger = new Logger(EmailTrackingController.name);
+
+  constructor(private readonly emailTrackingService: EmailTrackingService) {}
+
+  @Public()
+  @Get('open/:token')
+  @ApiOperation({
+    summary: 'Email open pixel',
+    description:
+      'Returns a 1x1 GIF and records the first open of the tracked email.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed tracking token' })
+  @ApiResponse({ status: 200, description: 'Tracking pixel' })
+  async trackOpen(
+    @Param('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const emailLogId = this.emailTrackingService.verifyToken('open', token);
+    if (emailLogId) {
+      await this.emailTrackingService
+        .recordOpen(emailLogId)
+        .catch((error: Error) =>
+          this.logger.warn(`Failed to record email open: ${error.message}`),
+        );
+    }
+
+    // Always answer with the pixel so a bad token is not visible in the email
+    res
+      .status(HttpStatus.OK)
+      .set({
+        'Content-Type': 'image/gif',
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+      })
+      .send(TRACKING_PIXEL);
+  }
+
+  @Public()
+  @Get('click/:token')
+  @ApiOperation({
+    summary: 'Email click redirect',
+    description:
+      'Records a click on a tracked email link and redirects to the original URL. The token is signed for that URL, so the endpoint cannot be used as an open redirect.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed tracking token' })
+  @ApiQuery({ name: 'url', description: 'Original link URL' })
+  @ApiResponse({ status: 302, description: 'Redirect to the original URL' })
+  @ApiBadRequestResponse({ description: 'Invalid tracking link' })
+  async trackClick(
+    @Param('token') token: string,
+    @Query('url') url: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const emailLogId = url
+      ? this.emailTrackingService.verifyToken('click', token, url)
+      : null;
+    if (!emailLogId) {
+      throw new BadRequestException('Invalid tracking link');
+    }
+
+    await this.emailTrackingService
+      .recordClick(emailLogId)
+      .catch((error: Error) =>
+        this.logger.warn(`Failed to record email click: ${error.message}`),
+      );
+
+    res.redirect(HttpStatus.FOUND, url);
+  }
+
+  @Public()
+  @Post('webhooks/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resend webhook endpoint',
+    description:
+      'Receives delivered, bounced, complained, opened and clicked events from Resend. Requires a valid Svix signature.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook processed successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        received: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiBadRequestResponse({ description: 'Invalid webhook signature' })
+  async handleResendWebhook(
+    @Headers('svix-id') id: string,
+    @Headers('svix-timestamp') timestamp: string,
+    @Headers('svix-signature') signature: string,
+    @Req() request: RawBodyRequest<Request>,
+  ): Promise<{ received: boolean }> {
+    await this.emailTrackingService.handleResendWebhook(
+      request.rawBody?.toString('utf8') ?? '',
+      { id, timestamp, signature },
+    );
+    return { received: true };
+  }
+}
@@ -0,0 +1,313 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { Resend } from 'resend';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EmailLog } from '../email/entities/email-log.entity';
+import { EmailStatus } from '../../common/enums/email-status.enum';
+import { EmailTrackingEvent } from '../../common/enums/email-tracking-event.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { EmailTrackedEvent } from '../../common/interfaces/domain-event.interface';
+import { ResendWebhookPayload } from './interfaces/email.interface';
+
+type TrackingKind = 'open' | 'click';
+
+// Links in <a href="http..."> tags, unless the tag opts out with data-no-track
+const LINK_PATTERN =
+  /<a\b([^>]*?)\bhref\s*=\s*(["'])(https?:\/\/[^"']+)\2([^>]*)>/gi;
+
+const RESEND_EVENTS: Record<string, EmailTrackingEvent> = {
+  'email.delivered': EmailTrackingEvent.DELIVERED,
+  'email.bounced': EmailTrackingEvent.BOUNCED,
+  'email.complained': EmailTrackingEvent.COMPLAINED,
+  'email.opened': EmailTrackingEvent.OPENED,
+  'email.clicked': EmailTrackingEvent.CLICKED,
+};
+
+/**
+ * Adds open/click tracking to outgoing emails and records engagement and
+ * provider delivery events on the email log. Each recorded event is published
+ * as DomainEvent.EMAIL_TRACKED so other modules (campaigns) can roll it up.
+ */
+@Injectable()
+export class EmailTrackingService {
+  private readonly logger = new Logger(EmailTrackingService.name);
+  private readonly secret: string | null;
+  private readonly trackingBaseUrl: string;
+  private readonly enabled: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(EmailLog)
+    private readonly emailLogRepository: Repository<EmailLog>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {
+    this.secret =
+      this.configService.get<string>('email.trackingSecret') ||
+      this.configService.get<string>('jwt.secret') ||
+      null;
+
+    const apiUrl = (
+      this.configService.get<string>('app.apiUrl') || 'http://localhost:3001'
+    ).replace(/\/+$/, '');
+    const apiPrefix = (
+      this.configService.get<string>('app.apiPrefix') || ''
+    ).replace(/^\/+|\/+$/g, '');
+    this.trackingBaseUrl = [apiUrl, apiPrefix, 'email-tracking']
+      .filter(Boolean)
+      .join('/');
+
+    this.enabled =
+      this.configService.get<boolean>('email.trackingEnabled') !== false &&
+      !!this.secret;
+    if (!this.secret) {
+      this.logger.warn(
+        'No EMAIL_TRACKING_SECRET or JWT secret configured. Email tracking is disabled.',
+      );
+    }
+  }
+
+  /**
+   * Add an open pixel and rewrite links to go through the click redirect
+   */
+  instrumentHtml(html: string, emailLogId: string): string {
+    if (!this.enabled) {
+      return html;
+    }
+
+    const tracked = html.replace(
+      LINK_PATTERN,
+      (
+        tag: string,
+        before: string,
+        quote: string,
+        href: string,
+        after: string,
+      ) => {
+        if (/\bdata-no-track\b/i.test(tag)) {
+          return tag;
+        }
+        const url = href.replace(/&amp;/g, '&');
+        const token = this.createToken('click', emailLogId, url);
+        const trackedHref = `${this.trackingBaseUrl}/click/${token}?url=${encodeURIComponent(url)}`;
+        return `<a${before}href=${quote}${trackedHref}${quote}${after}>`;
+      },
+    );
+
+    const pixel = `<img src="${this.trackingBaseUrl}/open/${this.createToken('open', emailLogId)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`;
+    return /<\/body>/i.test(tracked)
+      ? tracked.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${tracked}${pixel}`;
+  }
+
+  /**
+   * Return the email log ID of a valid token, or null
+   */
+  verifyToken(kind: TrackingKind, token: string, url?: string): string | null {
+    if (!this.secret) {
+      return null;
+    }
+
+    const [emailLogId, signature] = token.split('.');
+    if (!emailLogId || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(kind, emailLogId, url));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+      ? emailLogId
+      : null;
+  }
+
+  async recordOpen(emailLogId: string): Promise<void> {
+    await this.recordFirst(emailLogId, EmailTrackingEvent.OPENED);
+  }
+
+  /**
+   * A click also counts as an open, since many clients block the pixel
+   */
+  async recordClick(emailLogId: string): Promise<void> {
+    await this.recordFirst(emailLogId, EmailTrackingEvent.CLICKED);
+  }
+
+  /**
+   * Record an unsubscribe made through a link in the email
+   */
+  async recordUnsubscribe(emailLogId: string): Promise<void> {
+    const emailLog = await this.emailLogRepository.findOne({
+      where: { id: emailLogId },
+    });
+    if (!emailLog || emailLog.metadata?.unsubscribed_at) {
+      return;
+    }
+
+    const occurredAt = new Date();
+    emailLog.metadata = {
+      ...(emailLog.metadata ?? {}),
+      unsubscribed_at: occurredAt.toISOString(),
+    };
+    await this.emailLogRepository.save(emailLog);
+    this.publish(emailLog, EmailTrackingEvent.UNSUBSCRIBED, occurredAt);
+  }
+
+  /**
+   * Verify and apply a Resend webhook (delivered, bounced, complained, opened, clicked)
+   */
+  async handleResendWebhook(
+    payload: string,
+    headers: { id?: string; timestamp?: string; signature?: string },
+  ): Promise<void> {
+    const event = this.verifyResendWebhook(payload, headers);
+    const trackingEvent = RESEND_EVENTS[event.type];
+    if (!trackingEvent || !event.data?.email_id) {
+      this.logger.debug(`Ignoring Resend webhook ${event.type}`);
+      return;
+    }
+
+    const emailLog = await this.emailLogRepository
+      .createQueryBuilder('log')
+      .where("log.metadata->>'resend_id' = :resendId", {
+        resendId: event.data.email_id,
+      })
+      .getOne();
+    if (!emailLog) {
+      this.logger.warn(
+        `Resend webhook ${event.type} for unknown email ${event.data.email_id}`,
+      );
+      return;
+    }
+
+    const occurredAt = event.created_at
+      ? new Date(event.created_at)
+      : new Date();
+    const reason = event.data.bounce?.message ?? null;
+
+    switch (trackingEvent) {
+      case EmailTrackingEvent.OPENED:
+        await this.recordOpen(emailLog.id);
+        return;
+      case EmailTrackingEvent.CLICKED:
+        await this.recordClick(emailLog.id);
+        return;
+      case EmailTrackingEvent.BOUNCED:
+        emailLog.status = EmailStatus.BOUNCED;
+        emailLog.errorMessage = reason ?? 'Bounced';
+        break;
+      default:
+        break;
+    }
+
+    emailLog.metadata = {
+      ...(emailLog.metadata ?? {}),
+      [`${trackingEvent}_at`]: occurredAt.toISOString(),
+      ...(event.data.bounce ? { bounce: event.data.bounce } : {}),
+    };
+    await this.emailLogRepository.save(emailLog);
+    this.publish(emailLog, trackingEvent, occurredAt, reason);
+  }
+
+  private verifyResendWebhook(
+    payload: string,
+    headers: { id?: string; timestamp?: string; signature?: string },
+  ): ResendWebhookPayload {
+    const apiKey =
+      this.configService.get<string>('email.resendApiKey') ||
+      this.configService.get<string>('RESEND_API_KEY');
+    const webhookSecret =
+      this.configService.get<string>('email.resendWebhookSecret') ||
+      this.configService.get<string>('RESEND_WEBHOOK_SECRET');
+
+    if (!apiKey || !webhookSecret) {
+      throw new BadRequestException('Resend webhooks are not configured');
+    }
+    if (!payload || !headers.id || !headers.timestamp || !headers.signature) {
+      throw new BadRequestException('Missing webhook signature');
+    }
+
+    try {
+      new Resend(apiKey).webhooks.verify({
+        payload,
+        headers: {
+          id: headers.id,
+          timestamp: headers.timestamp,
+          signature: headers.signature,
+        },
+        webhookSecret,
+      });
+    } catch {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    return JSON.parse(payload) as ResendWebhookPayload;
+  }
+
+  /**
+   * Stamp the open or click on the email log unless it was already recorded,
+   * and publish it only the first time
+   */
+  private async recordFirst(
+    emailLogId: string,
+    event: EmailTrackingEvent.OPENED | EmailTrackingEvent.CLICKED,
+  ): Promise<void> {
+    const clicked = event === EmailTrackingEvent.CLICKED;
+    const result = await this.emailLogRepository
+      .createQueryBuilder()
+      .update(EmailLog)
+      .set(
+        clicked
+          ? {
+              clickedAt: () => 'NOW()',
+              openedAt: () => 'COALESCE(opened_at, NOW())',
+            }
+          : { openedAt: () => 'NOW()' },
+      )
+      .where('id = :emailLogId', { emailLogId })
+      .andWhere(clicked ? 'clicked_at IS NULL' : 'opened_at IS NULL')
+      .execute();
+    if (!result.affected) {
+      return;
+    }
+
+    const emailLog = await this.emailLogRepository.findOne({
+      where: { id: emailLogId },
+    });
+    if (emailLog) {
+      this.publish(emailLog, event, new Date());
+    }
+  }
+
+  private publish(
+    emailLog: EmailLog,
+    event: EmailTrackingEvent,
+    occurredAt: Date,
+    reason: string | null = null,
+  ): void {
+    this.eventEmitter.emit(DomainEvent.EMAIL_TRACKED, {
+      emailLogId: emailLog.id,
+      event,
+      occurredAt,
+      recipientEmail: emailLog.recipientEmail,
+      schoolId: emailLog.schoolId,
+      metadata: emailLog.metadata ?? {},
+      reason,
+    } satisfies EmailTrackedEvent);
+  }
+
+  private createToken(
+    kind: TrackingKind,
+    emailLogId: string,
+    url?: string,
+  ): string {
+    return `${emailLogId}.${this.sign(kind, emailLogId, url)}`;
+  }
+
+  private sign(kind: TrackingKind, emailLogId: string, url?: string): string {
+    return createHmac('sha256', this.secret ?? '')
+      .update([kind, emailLogId, url ?? ''].join(':'))
+      .digest('base64url');
+  }
+}
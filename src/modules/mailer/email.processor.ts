@@ -0,0 +1,24 @@
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import { MailerService } from './mailer.service';
+import { EmailOptions } from './interfaces/email.interface';
+import { EMAIL_QUEUE, SEND_EMAIL_JOB } from './mailer.constants';
+
+/**
+ * Sends queued emails. A failed send throws so Bull retries it with backoff.
+ */
+@Processor(EMAIL_QUEUE)
+export class EmailProcessor {
+  constructor(private readonly mailerService: MailerService) {}
+
+  @Process(SEND_EMAIL_JOB)
+  async sendEmail(
+    job: Job<EmailOptions>,
+  ): Promise<{ emailId: string | null; skipped: boolean }> {
+    const result = await this.mailerService.sendEmail(job.data);
+    if (!result.success && !result.skipped) {
+      throw new Error(result.error ?? 'Email could not be sent');
+    }
+    return { emailId: result.emailId ?? null, skipped: !!result.skipped };
+  }
+}
@@ -11,6 +11,16 @@ export interface EmailOptions {
   userId?: string;
   schoolId?: string;
   metadata?: Record<string, any>;
+  /** Add an open pixel and click-tracking links to the HTML (default true) */
+  trackEngagement?: boolean;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64, so the attachment survives being queued */
+  content: string;
+  contentType?: string;
 }
 
 export interface WelcomeEmailData {
@@ -53,6 +63,8 @@ export interface PaymentEmailData {
   userId?: string;
   schoolId: string;
   metadata?: Record<string, any>;
+  /** Invoice or receipt PDF */
+  attachments?: EmailAttachment[];
 }
 
 // Legacy interfaces for backward compatibility with old template files
@@ -82,4 +94,21 @@ export interface EmailLogData {
   metadata?: Record<string, any>;
   error_message?: string;
   sent_at?: string;
-}
\ No newline at end of file
+}
+export interface ResendWebhookPayload {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    subject?: string;
+    bounce?: {
+      message?: string;
+      type?: string;
+      subType?: string;
+    };
+    click?: {
+      link?: string;
+    };
+  };
+}
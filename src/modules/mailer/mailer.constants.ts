@@ -0,0 +1,4 @@
+export const EMAIL_QUEUE = 'email';
+
+/** Sends one email; bulk sends add one job per recipient so retries never resend to others */
+export const SEND_EMAIL_JOB = 'send-email';
@@ -1,4 +1,12 @@
-import { Controller, Post, Body, UseGuards, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Logger,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -255,20 +263,21 @@ export class MailerController {
   }
 
   @Post('bulk')
+  @HttpCode(HttpStatus.ACCEPTED)
   @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN)
   @ApiOperation({
     summary: 'Send bulk emails',
-    description: 'Send emails to multiple recipients in batches. Rate-limited for API protection. Admin only.',
+    description:
+      'Queue one email per recipient on the rate-limited email queue. Failed sends are retried with backoff and end up under /jobs/dead-letter after the last attempt. Recipients who unsubscribed from the email type are skipped. Admin only.',
   })
   @ApiResponse({
-    status: 201,
-    description: 'Bulk email sending initiated',
+    status: 202,
+    description: 'Bulk emails queued',
     schema: {
       type: 'object',
       properties: {
         success: { type: 'boolean', example: true },
-        sent: { type: 'number', example: 95 },
-        failed: { type: 'number', example: 5 },
+        queued: { type: 'number', example: 100 },
       },
     },
   })
@@ -285,21 +294,24 @@ export class MailerController {
       subject: string;
       html: string;
       emailType: string;
+      schoolId?: string;
     },
   ) {
-    this.logger.log(`Sending bulk email to ${dto.recipients.length} recipients`);
+    this.logger.log(
+      `Queueing bulk email to ${dto.recipients.length} recipients`,
+    );
 
-    const result = await this.mailerService.sendBulkEmails(
+    const result = await this.mailerService.queueBulkEmails(
       dto.recipients,
       dto.subject,
       dto.html,
       dto.emailType,
+      dto.schoolId,
     );
 
     return {
-      success: result.success,
-      sent: result.sent,
-      failed: result.failed,
+      success: true,
+      queued: result.queued,
     };
   }
 }
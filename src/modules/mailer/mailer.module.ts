@@ -1,12 +1,39 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { MailerService } from './mailer.service';
 import { MailerController } from './mailer.controller';
+import { EmailProcessor } from './email.processor';
+import { EmailTrackingService } from './email-tracking.service';
+import { EmailTrackingController } from './email-tracking.controller';
+import { EmailPreferenceService } from './email-preference.service';
+import { EmailPreferencesController } from './email-preferences.controller';
+import { EmailLog } from '../email/entities/email-log.entity';
+import { EmailPreference } from '../email/entities/email-preference.entity';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { EMAIL_QUEUE } from './mailer.constants';
+
+// Paces sending to the provider's rate limit
+const EMAIL_RATE_LIMIT = { max: 50, duration: 1000 };
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [MailerController],
-  providers: [MailerService],
-  exports: [MailerService],
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forFeature([EmailLog, EmailPreference, SchoolEntity]),
+    BullModule.registerQueue({ name: EMAIL_QUEUE, limiter: EMAIL_RATE_LIMIT }),
+  ],
+  controllers: [
+    MailerController,
+    EmailTrackingController,
+    EmailPreferencesController,
+  ],
+  providers: [
+    MailerService,
+    EmailTrackingService,
+    EmailPreferenceService,
+    EmailProcessor,
+  ],
+  exports: [MailerService, EmailTrackingService, EmailPreferenceService],
 })
-export class MailerModule {}
\ No newline at end of file
+export class MailerModule {}
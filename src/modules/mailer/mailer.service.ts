@@ -4,6 +4,8 @@ import { Resend } from 'resend';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import type { Cache } from 'cache-manager';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
 import {
   EmailOptions,
   WelcomeEmailData,
@@ -11,6 +13,10 @@ import {
   PaymentEmailData,
   EmailLogData,
 } from './interfaces/email.interface';
+import { EmailTrackingService } from './email-tracking.service';
+import { EmailPreferenceService } from './email-preference.service';
+import { EmailType } from '../../common/enums/email-type.enum';
+import { EMAIL_QUEUE, SEND_EMAIL_JOB } from './mailer.constants';
 
 @Injectable()
 export class MailerService {
@@ -25,6 +31,9 @@ export class MailerService {
   constructor(
     private configService: ConfigService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private emailTrackingService: EmailTrackingService,
+    private emailPreferenceService: EmailPreferenceService,
+    @InjectQueue(EMAIL_QUEUE) private emailQueue: Queue<EmailOptions>,
   ) {
     const apiKey = this.configService.get<string>('email.resendApiKey') || this.configService.get<string>('RESEND_API_KEY');
     const supabaseUrl = this.configService.get<string>('SUPABASE_URL');
@@ -84,6 +93,9 @@ export class MailerService {
   ): Promise<{ success: boolean; emailId?: string; skipped?: boolean; reason?: string; error?: string }> {
     try {
       let recipientEmail = Array.isArray(options.to) ? options.to[0] : options.to;
+      // Preferences and unsubscribe links belong to the real recipient, even in test mode
+      const intendedRecipient = recipientEmail;
+      const emailType = options.emailType || 'system_alert';
       
       // Development mode: Override recipient if test mode is enabled
       // This allows testing with Resend test domains without domain verification
@@ -125,6 +137,26 @@ export class MailerService {
         }
       }
 
+      // Check unsubscribes from marketing, reminder and notification emails
+      if (
+        await this.emailPreferenceService.isSuppressed(intendedRecipient, options.schoolId, emailType, options.userId)
+      ) {
+        this.logger.log(`${intendedRecipient} has unsubscribed from ${emailType} emails`);
+
+        await this.logEmail({
+          recipient_email: recipientEmail,
+          email_type: emailType,
+          subject: options.subject,
+          status: 'skipped',
+          user_id: options.userId,
+          school_id: options.schoolId,
+          metadata: { ...options.metadata, skipped: true, reason: 'unsubscribed' },
+          sent_at: new Date().toISOString(),
+        });
+
+        return { success: true, skipped: true, reason: 'Recipient unsubscribed' };
+      }
+
       // Log email attempt
       const emailLogId = await this.logEmail({
         recipient_email: recipientEmail,
@@ -194,15 +226,38 @@ export class MailerService {
         throw new Error('Invalid from email address: cannot be null or empty');
       }
       
+      // Emails recipients can opt out of carry an unsubscribe footer and RFC 8058 headers
+      let html = options.html;
+      let headers: Record<string, string> | undefined;
+      const unsubscribeToken = this.emailPreferenceService.canUnsubscribe(emailType)
+        ? this.emailPreferenceService.createToken({
+            email: intendedRecipient,
+            schoolId: options.schoolId ?? null,
+            emailType: emailType as EmailType,
+            emailLogId,
+          })
+        : null;
+      if (unsubscribeToken) {
+        headers = this.emailPreferenceService.getListUnsubscribeHeaders(unsubscribeToken);
+        html = html && this.emailPreferenceService.appendUnsubscribeFooter(html, unsubscribeToken);
+      }
+
+      // Tracking links point at the email log, so they need its ID
+      if (html && emailLogId && options.trackEngagement !== false) {
+        html = this.emailTrackingService.instrumentHtml(html, emailLogId);
+      }
+
       const emailPayload = {
         from: fromEmail,
         to: finalRecipients,
         subject: options.subject,
-        html: options.html || undefined,
+        html: html || undefined,
         text: options.text || undefined,
         reply_to: options.replyTo || undefined,
         cc: options.cc || undefined,
         bcc: options.bcc || undefined,
+        headers,
+        attachments: options.attachments,
       } as any;
       
       this.logger.debug(`Sending email from: ${fromEmail}, to: ${finalRecipients.join(', ')}, subject: ${options.subject}`);
@@ -289,6 +344,8 @@ export class MailerService {
       html,
       emailType: 'staff_invitation',
       schoolId: data.schoolId,
+      // Invitation links carry a token, keep them out of the click redirect
+      trackEngagement: false,
       metadata: {
         role: data.role,
         invitationToken: data.invitationToken,
@@ -321,6 +378,7 @@ export class MailerService {
       emailType: emailTypeMap[data.type],
       userId: data.userId,
       schoolId: data.schoolId,
+      attachments: data.attachments,
       metadata: {
         paymentType: data.type,
         amount: data.amount,
@@ -334,44 +392,34 @@ export class MailerService {
   }
 
   /**
-   * Send bulk emails (rate-limited)
+   * Queue an email to be sent in the background. Failed sends are retried
+   * with backoff and end up in the dead-letter queue when every attempt fails.
+   */
+  async queueEmail(options: EmailOptions): Promise<string> {
+    const job = await this.emailQueue.add(SEND_EMAIL_JOB, options);
+    return String(job.id);
+  }
+
+  /**
+   * Queue one email per recipient, so a retry never resends to the others.
+   * The email queue's rate limiter paces the sending.
    */
-  async sendBulkEmails(
+  async queueBulkEmails(
     recipients: string[],
     subject: string,
     html: string,
     emailType: string,
-  ): Promise<{ success: boolean; sent: number; failed: number }> {
-    this.logger.log(`Sending bulk email to ${recipients.length} recipients`);
-
-    let sent = 0;
-    let failed = 0;
-
-    // Send in batches of 50 (Resend limit)
-    const batchSize = 50;
-    for (let i = 0; i < recipients.length; i += batchSize) {
-      const batch = recipients.slice(i, i + batchSize);
-
-      const results = await Promise.allSettled(
-        batch.map((to) => this.sendEmail({ to, subject, html, emailType })),
-      );
-
-      results.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value.success) {
-          sent++;
-        } else {
-          failed++;
-        }
-      });
-
-      // Rate limiting - wait 1 second between batches
-      if (i + batchSize < recipients.length) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
-    }
-
-    this.logger.log(`Bulk email complete: ${sent} sent, ${failed} failed`);
-    return { success: true, sent, failed };
+    schoolId?: string,
+  ): Promise<{ queued: number }> {
+    const jobs = await this.emailQueue.addBulk(
+      recipients.map((to) => ({
+        name: SEND_EMAIL_JOB,
+        data: { to, subject, html, emailType, schoolId },
+      })),
+    );
+
+    this.logger.log(`Queued bulk email to ${jobs.length} recipients`);
+    return { queued: jobs.length };
   }
 
   /**
@@ -1,6 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { LeadStatusType } from '../../../common/enums/lead-status-type.enum';
 import { PaymentStatus } from '../../../common/enums/payment-status.enum';
+import { FamilyAccountResponseDto } from '../../ledger/dto/family-account.dto';
 
 export class ParentWaitlistItemDto {
   @ApiProperty()
@@ -135,7 +136,25 @@ export class ParentInvoiceDto {
   transaction_id?: string | null;
 }
 
+export class ParentBalanceResponseDto {
+  @ApiProperty({
+    description: 'What the family owes across its accounts, in cents',
+  })
+  balance: number;
 
+  @ApiProperty({
+    description: 'Account credit available for the next invoice, in cents',
+  })
+  account_credit: number;
 
+  @ApiProperty({ type: [FamilyAccountResponseDto] })
+  accounts: FamilyAccountResponseDto[];
+}
 
+export class ParentInvoicesResponseDto {
+  @ApiProperty({ type: [ParentInvoiceDto] })
+  invoices: ParentInvoiceDto[];
 
+  @ApiProperty({ type: ParentBalanceResponseDto })
+  balance: ParentBalanceResponseDto;
+}
@@ -1,5 +1,13 @@
 import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
-import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiExtraModels,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiQuery,
+  getSchemaPath,
+} from '@nestjs/swagger';
 import { ParentDashboardService } from './parent-dashboard.service';
 import { ParentDashboardSummaryDto } from './dto/parent-dashboard-summary.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
@@ -11,7 +19,10 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
 import { LeadStatus } from '../leads/entities/lead.entity';
 import { ParentChildDto, ParentDailyReportDto, SendParentMessageDto, ParentAttendanceDto, ParentProgressDto, ParentMediaDto, ParentReportsQueryDto, ParentReportsResponseDto } from './dto/parent-children.dto';
-import { ParentInvoiceDto } from './dto/parent-dashboard-summary.dto';
+import {
+  ParentInvoiceDto,
+  ParentInvoicesResponseDto,
+} from './dto/parent-dashboard-summary.dto';
 import { TeachersService } from '../teachers/teachers.service';
 import { ScheduleEventResponseDto } from '../teachers/dto/schedule-event-response.dto';
 
@@ -95,15 +106,40 @@ export class ParentDashboardController {
   @Roles(AppRole.PARENT)
   @ApiOperation({
     summary: 'Fetch all invoices for the authenticated parent',
-    description: 'Returns both standard invoices and lead invoices for the parent, combined and sorted by creation date.',
+    description:
+      'Returns both standard invoices and lead invoices for the parent, combined and sorted by creation date. ' +
+      'With includeBalance=true the invoices come wrapped as { invoices, balance }, where balance is what the family owes and its account credit from the family ledger.',
+  })
+  @ApiQuery({ name: 'includeBalance', required: false, type: Boolean })
+  @ApiExtraModels(ParentInvoiceDto, ParentInvoicesResponseDto)
+  @ApiResponse({
+    status: 200,
+    schema: {
+      oneOf: [
+        { type: 'array', items: { $ref: getSchemaPath(ParentInvoiceDto) } },
+        { $ref: getSchemaPath(ParentInvoicesResponseDto) },
+      ],
+    },
   })
-  @ApiResponse({ status: 200, type: [ParentInvoiceDto] })
   async getInvoices(
     @CurrentUser() user: AuthUser,
     @Query('schoolId') schoolId?: string,
     @Query('limit') limit?: number,
-  ): Promise<ParentInvoiceDto[]> {
-    return this.parentDashboardService.getInvoices(user, schoolId, limit ? parseInt(limit.toString(), 10) : 50);
+    @Query('includeBalance') includeBalance?: string,
+  ): Promise<ParentInvoiceDto[] | ParentInvoicesResponseDto> {
+    const invoices = await this.parentDashboardService.getInvoices(
+      user,
+      schoolId,
+      limit ? parseInt(limit.toString(), 10) : 50,
+    );
+    if (includeBalance !== 'true') {
+      return invoices;
+    }
+
+    return {
+      invoices,
+      balance: await this.parentDashboardService.getBalance(user, schoolId),
+    };
   }
 
   @Get('media')
@@ -19,11 +19,13 @@ import { CheckInOutRecord } from '../checkinout/entities/check-in-out-record.ent
 import { ProfileEntity } from '../users/entities/profile.entity';
 import { LeadsModule } from '../leads/leads.module';
 import { TeachersModule } from '../teachers/teachers.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
   imports: [
     LeadsModule,
     TeachersModule,
+    LedgerModule,
     TypeOrmModule.forFeature([
       Waitlist,
       EnrollmentEntity,
@@ -2,11 +2,19 @@ import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { DataSource, In, IsNull, MoreThanOrEqual, Repository } from 'typeorm';
 import { LeadsService } from '../leads/leads.service';
+import { LedgerService } from '../ledger/ledger.service';
 import { Waitlist } from '../enrollment/entities/waitlist.entity';
 import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
 import { Invoice } from '../invoices/entities/invoice.entity';
 import { Message } from '../communications/entities/message.entity';
-import { ParentDashboardSummaryDto, ParentMessageDto, ParentPaymentDto, ParentWaitlistItemDto, ParentInvoiceDto } from './dto/parent-dashboard-summary.dto';
+import {
+  ParentDashboardSummaryDto,
+  ParentMessageDto,
+  ParentPaymentDto,
+  ParentWaitlistItemDto,
+  ParentInvoiceDto,
+  ParentBalanceResponseDto,
+} from './dto/parent-dashboard-summary.dto';
 import {
   ParentChildActivityDto,
   ParentChildDto,
@@ -68,6 +76,7 @@ export class ParentDashboardService {
     @InjectRepository(ProfileEntity)
     private readonly profileRepository: Repository<ProfileEntity>,
     private readonly dataSource: DataSource,
+    private readonly ledgerService: LedgerService,
   ) { }
 
   async getSummary(user: AuthUser): Promise<ParentDashboardSummaryDto> {
@@ -845,6 +854,32 @@ export class ParentDashboardService {
     return allInvoices.slice(0, limit);
   }
 
+  /**
+   * What the family owes and the credit it has across its ledger accounts
+   */
+  async getBalance(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<ParentBalanceResponseDto> {
+    if (!user.email) {
+      throw new BadRequestException('Parent email is required');
+    }
+
+    const accounts = await this.ledgerService.findParentAccounts(
+      user.email,
+      schoolId,
+    );
+
+    return {
+      balance: accounts.reduce((sum, account) => sum + account.balance, 0),
+      account_credit: accounts.reduce(
+        (sum, account) => sum + account.availableCredit,
+        0,
+      ),
+      accounts,
+    };
+  }
+
   private async getLeadInvoicesForParent(
     parentEmail: string,
     schoolId?: string,
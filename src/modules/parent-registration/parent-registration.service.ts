@@ -2,6 +2,7 @@ import { BadRequestException, Injectable, Logger, NotFoundException } from '@nes
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import Stripe from 'stripe';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { randomUUID } from 'crypto';
@@ -23,6 +24,8 @@ import {
   DocumentCategory,
 } from '../students/entities/student-document.entity';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { WaitlistEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class ParentRegistrationService {
@@ -45,6 +48,7 @@ export class ParentRegistrationService {
     private readonly transactionRepository: Repository<Transaction>,
     @InjectRepository(StudentDocument)
     private readonly studentDocumentRepository: Repository<StudentDocument>,
+    private readonly eventEmitter: EventEmitter2,
   ) {
     const stripeSecret =
       this.configService.get<string>('payments.stripeSecretKey') ||
@@ -176,7 +180,14 @@ export class ParentRegistrationService {
       status: LeadStatusType.WAITLISTED,
     });
 
-    return this.waitlistRepository.save(entry);
+    const savedEntry = await this.waitlistRepository.save(entry);
+    this.eventEmitter.emit(DomainEvent.WAITLIST_ADDED, {
+      leadId: savedEntry.leadId,
+      schoolId: savedEntry.schoolId,
+      waitlistId: savedEntry.id,
+      program: savedEntry.program,
+    } satisfies WaitlistEvent);
+    return savedEntry;
   }
 
   async createWaitlistPaymentSession(
@@ -0,0 +1,48 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { AutopayService } from './autopay.service';
+import {
+  AUTOPAY_QUEUE,
+  CHARGE_AUTOPAY_INVOICES_JOB,
+} from './payments.constants';
+import { AutopayRunResponseDto } from './dto/payment-method.dto';
+
+// After tuition billing, before overdue invoices get late fees
+const AUTOPAY_CRON = '30 6 * * *';
+
+/**
+ * Charges autopay invoices that fall due and retries failed charges once
+ * a day.
+ */
+@Processor(AUTOPAY_QUEUE)
+export class AutopayProcessor implements OnModuleInit {
+  private readonly logger = new Logger(AutopayProcessor.name);
+
+  constructor(
+    @InjectQueue(AUTOPAY_QUEUE)
+    private readonly autopayQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly autopayService: AutopayService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.autopayQueue,
+      CHARGE_AUTOPAY_INVOICES_JOB,
+      { cron: AUTOPAY_CRON },
+    );
+  }
+
+  @Process(CHARGE_AUTOPAY_INVOICES_JOB)
+  async chargeAutopayInvoices(): Promise<AutopayRunResponseDto> {
+    const result = await this.autopayService.run();
+    if (result.charged > 0 || result.failed > 0) {
+      this.logger.log(
+        `Autopay run: ${result.charged} charged, ${result.failed} failed`,
+      );
+    }
+    return result;
+  }
+}
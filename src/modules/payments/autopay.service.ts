@@ -0,0 +1,423 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { PaymentsService } from './payments.service';
+import { PaymentMethodsService } from './payment-methods.service';
+import { AutopayEnrollment } from './entities/autopay-enrollment.entity';
+import {
+  AutopayAttempt,
+  AutopayAttemptStatus,
+} from './entities/autopay-attempt.entity';
+import { SavedPaymentMethodEntity } from './entities/saved-payment-method.entity';
+import { Transaction } from './entities/transaction.entity';
+import {
+  PaymentIntent,
+  PaymentProvider,
+  PaymentStatus as ProviderPaymentStatus,
+} from './interfaces/payment.interface';
+import {
+  AutopayAttemptResponseDto,
+  AutopayRunResponseDto,
+} from './dto/payment-method.dto';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { MailerService } from '../mailer/mailer.service';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { DAY_MS } from '../../common/utils/date.util';
+
+/** Days after each failed charge before the next try; no retry after the last */
+const AUTOPAY_RETRY_DAYS = [1, 3];
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface AutopayRunOptions {
+  schoolId?: string;
+  now?: Date;
+}
+
+type AttemptOutcome = 'succeeded' | 'failed' | null;
+
+/**
+ * Charges the pending invoices of parents enrolled in autopay to their
+ * saved card once the invoice is due. A failed charge is retried on the
+ * days of the retry schedule and the parent is told each time. Every
+ * attempt is recorded before the card is charged, so overlapping runs
+ * cannot charge an invoice twice. A charge still processing is settled
+ * when the provider's webhook reports its outcome.
+ */
+@Injectable()
+export class AutopayService {
+  private readonly logger = new Logger(AutopayService.name);
+
+  constructor(
+    @InjectRepository(AutopayEnrollment)
+    private readonly autopayRepository: Repository<AutopayEnrollment>,
+    @InjectRepository(AutopayAttempt)
+    private readonly attemptRepository: Repository<AutopayAttempt>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentMethodsService: PaymentMethodsService,
+    private readonly mailerService: MailerService,
+  ) {}
+
+  async run(options: AutopayRunOptions = {}): Promise<AutopayRunResponseDto> {
+    const now = options.now ?? new Date();
+    const today = now.toISOString().slice(0, 10);
+    const enrollments = await this.autopayRepository.find({
+      where: {
+        active: true,
+        ...(options.schoolId ? { schoolId: options.schoolId } : {}),
+      },
+    });
+
+    const result: AutopayRunResponseDto = {
+      charged: 0,
+      failed: 0,
+      amountCharged: 0,
+    };
+    for (const enrollment of enrollments) {
+      const invoices = await this.invoiceRepository
+        .createQueryBuilder('invoice')
+        .leftJoinAndSelect('invoice.school', 'school')
+        .leftJoin(LeadEntity, 'lead', 'lead.id = invoice.lead_id')
+        .where('invoice.school_id = :schoolId', {
+          schoolId: enrollment.schoolId,
+        })
+        .andWhere('invoice.status = :status', {
+          status: PaymentStatus.PENDING,
+        })
+        .andWhere('invoice.amount > 0')
+        .andWhere('invoice.due_date <= :today', { today })
+        .andWhere('invoice.due_date >= :enrolledOn', {
+          enrolledOn: enrollment.enrolledAt.toISOString().slice(0, 10),
+        })
+        .andWhere(
+          new Brackets((qb) => {
+            qb.where('invoice.parent_id = :userId', {
+              userId: enrollment.userId,
+            }).orWhere('LOWER(lead.parent_email) = :email', {
+              email: enrollment.email,
+            });
+          }),
+        )
+        .orderBy('invoice.due_date', 'ASC')
+        .getMany();
+
+      for (const invoice of invoices) {
+        const outcome = await this.chargeInvoice(enrollment, invoice, now);
+        if (outcome === 'succeeded') {
+          result.charged += 1;
+          result.amountCharged += invoice.amount;
+        } else if (outcome === 'failed') {
+          result.failed += 1;
+        }
+      }
+    }
+
+    if (result.charged > 0 || result.failed > 0) {
+      this.logger.log(
+        `Autopay charged ${result.charged} invoices (${result.amountCharged} cents), ${result.failed} charges failed`,
+      );
+    }
+    return result;
+  }
+
+  async findAttempts(
+    schoolId: string,
+    options: {
+      invoiceId?: string;
+      status?: AutopayAttemptStatus;
+      page?: number;
+      limit?: number;
+    } = {},
+  ): Promise<{ data: AutopayAttemptResponseDto[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const query = this.attemptRepository
+      .createQueryBuilder('attempt')
+      .leftJoinAndSelect('attempt.invoice', 'invoice')
+      .where('attempt.school_id = :schoolId', { schoolId })
+      .orderBy('attempt.created_at', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+    if (options.invoiceId) {
+      query.andWhere('attempt.invoice_id = :invoiceId', {
+        invoiceId: options.invoiceId,
+      });
+    }
+    if (options.status) {
+      query.andWhere('attempt.status = :status', { status: options.status });
+    }
+
+    const [attempts, total] = await query.getManyAndCount();
+    return {
+      data: attempts.map((attempt) => this.mapToResponseDto(attempt)),
+      total,
+    };
+  }
+
+  /**
+   * Settle the attempt of a charge that was still processing once the
+   * provider reports it succeeded or failed. A failed charge is handled
+   * like one that failed right away: the retry is scheduled and the
+   * parent is told.
+   */
+  async settleAttempt(
+    provider: PaymentProvider,
+    payment: PaymentIntent,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const failed =
+      payment.status === ProviderPaymentStatus.FAILED ||
+      payment.status === ProviderPaymentStatus.CANCELED;
+    if (payment.status !== ProviderPaymentStatus.SUCCEEDED && !failed) {
+      return;
+    }
+
+    const attempt = await this.attemptRepository
+      .createQueryBuilder('attempt')
+      .innerJoin(
+        Transaction,
+        'transaction',
+        'transaction.id = attempt.transaction_id',
+      )
+      .leftJoinAndSelect('attempt.invoice', 'invoice')
+      .leftJoinAndSelect('invoice.school', 'school')
+      .where(
+        provider === PaymentProvider.STRIPE
+          ? 'transaction.stripe_payment_intent_id = :paymentId'
+          : 'transaction.cardconnect_transaction_id = :paymentId',
+        { paymentId: payment.id },
+      )
+      .andWhere('attempt.status = :processing', {
+        processing: AutopayAttemptStatus.PROCESSING,
+      })
+      .getOne();
+    if (!attempt) {
+      return;
+    }
+
+    // Claim the attempt so a repeated webhook does not settle it twice
+    const claimed = await this.attemptRepository.update(
+      { id: attempt.id, status: AutopayAttemptStatus.PROCESSING },
+      {
+        status: failed
+          ? AutopayAttemptStatus.FAILED
+          : AutopayAttemptStatus.SUCCEEDED,
+      },
+    );
+    if (!claimed.affected) {
+      return;
+    }
+
+    if (!failed) {
+      this.logger.log(
+        `Autopay charge of invoice ${attempt.invoice.invoiceNumber} settled`,
+      );
+      return;
+    }
+
+    const enrollment = await this.autopayRepository.findOne({
+      where: { id: attempt.autopayEnrollmentId },
+    });
+    if (!enrollment) {
+      return;
+    }
+    await this.recordFailure(
+      attempt.id,
+      attempt.attempt,
+      enrollment,
+      attempt.invoice,
+      now,
+      `Payment ${payment.status}`,
+    );
+  }
+
+  /**
+   * Charge the invoice if it has not been tried yet or its retry is due
+   */
+  private async chargeInvoice(
+    enrollment: AutopayEnrollment,
+    invoice: Invoice,
+    now: Date,
+  ): Promise<AttemptOutcome> {
+    const last = await this.attemptRepository.findOne({
+      where: { invoiceId: invoice.id },
+      order: { attempt: 'DESC' },
+    });
+    if (
+      last &&
+      (last.status !== AutopayAttemptStatus.FAILED ||
+        !last.nextRetryAt ||
+        last.nextRetryAt > now)
+    ) {
+      return null;
+    }
+
+    const method =
+      await this.paymentMethodsService.resolveAutopayMethod(enrollment);
+    const attempt = (last?.attempt ?? 0) + 1;
+    const inserted = await this.attemptRepository
+      .createQueryBuilder()
+      .insert()
+      .into(AutopayAttempt)
+      .values({
+        invoiceId: invoice.id,
+        schoolId: invoice.schoolId,
+        autopayEnrollmentId: enrollment.id,
+        paymentMethodId: method?.id ?? null,
+        attempt,
+        amount: invoice.amount,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+    const row = (inserted.raw as Array<{ id: string }>)[0];
+    if (!row) {
+      return null;
+    }
+
+    try {
+      if (!method) {
+        throw new Error('No saved payment method');
+      }
+      return await this.charge(row.id, enrollment, invoice, method);
+    } catch (error) {
+      await this.recordFailure(
+        row.id,
+        attempt,
+        enrollment,
+        invoice,
+        now,
+        (error as Error).message,
+      );
+      return 'failed';
+    }
+  }
+
+  private async charge(
+    attemptId: string,
+    enrollment: AutopayEnrollment,
+    invoice: Invoice,
+    method: SavedPaymentMethodEntity,
+  ): Promise<AttemptOutcome> {
+    const { payment, transaction } =
+      await this.paymentsService.chargeSavedPaymentMethod(method.provider, {
+        amount: invoice.amount,
+        currency: invoice.currency,
+        customerId: method.providerCustomerId,
+        paymentMethodId: method.providerPaymentMethodId,
+        description: `Autopay for invoice ${invoice.invoiceNumber}`,
+        metadata: {
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          paymentType: 'invoice',
+          schoolId: invoice.schoolId,
+          userId: enrollment.userId,
+          email: enrollment.email,
+          autopay: true,
+        },
+      });
+
+    if (
+      payment.status === ProviderPaymentStatus.FAILED ||
+      payment.status === ProviderPaymentStatus.CANCELED
+    ) {
+      await this.attemptRepository.update(attemptId, {
+        transactionId: transaction.id,
+      });
+      throw new Error(`Payment ${payment.status}`);
+    }
+
+    // A charge still processing stays claimed until settleAttempt is called
+    // with the provider's outcome
+    await this.attemptRepository.update(attemptId, {
+      status:
+        payment.status === ProviderPaymentStatus.SUCCEEDED
+          ? AutopayAttemptStatus.SUCCEEDED
+          : AutopayAttemptStatus.PROCESSING,
+      transactionId: transaction.id,
+    });
+    if (payment.status !== ProviderPaymentStatus.SUCCEEDED) {
+      return null;
+    }
+
+    this.logger.log(
+      `Autopay charged invoice ${invoice.invoiceNumber} to payment method ${method.id}`,
+    );
+    return 'succeeded';
+  }
+
+  private async recordFailure(
+    attemptId: string,
+    attempt: number,
+    enrollment: AutopayEnrollment,
+    invoice: Invoice,
+    now: Date,
+    errorMessage: string,
+  ): Promise<void> {
+    const retryDays = AUTOPAY_RETRY_DAYS[attempt - 1];
+    // Retries fall on a day boundary so the next daily run picks them up
+    const nextRetryAt =
+      retryDays !== undefined
+        ? new Date(
+            Date.UTC(
+              now.getUTCFullYear(),
+              now.getUTCMonth(),
+              now.getUTCDate(),
+            ) +
+              retryDays * DAY_MS,
+          )
+        : null;
+
+    await this.attemptRepository.update(attemptId, {
+      status: AutopayAttemptStatus.FAILED,
+      errorMessage,
+      nextRetryAt,
+    });
+    this.logger.warn(
+      `Autopay attempt ${attempt} for invoice ${invoice.invoiceNumber} failed: ${errorMessage}`,
+    );
+
+    try {
+      await this.mailerService.sendPaymentEmail({
+        type: 'failure',
+        recipientEmail: enrollment.email,
+        recipientName: 'Parent',
+        schoolName: invoice.school?.name ?? 'MyPreschoolPro',
+        amount: invoice.amount,
+        currency: invoice.currency,
+        invoiceNumber: invoice.invoiceNumber,
+        dueDate: new Date(invoice.dueDate).toISOString(),
+        schoolId: invoice.schoolId,
+        userId: enrollment.userId,
+        metadata: {
+          autopay: true,
+          attempt,
+          nextRetryAt: nextRetryAt?.toISOString() ?? null,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send autopay failure email for invoice ${invoice.invoiceNumber}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private mapToResponseDto(attempt: AutopayAttempt): AutopayAttemptResponseDto {
+    return {
+      id: attempt.id,
+      invoiceId: attempt.invoiceId,
+      invoiceNumber: attempt.invoice?.invoiceNumber,
+      attempt: attempt.attempt,
+      amount: attempt.amount,
+      status: attempt.status,
+      transactionId: attempt.transactionId,
+      errorMessage: attempt.errorMessage,
+      nextRetryAt: attempt.nextRetryAt,
+      createdAt: attempt.createdAt,
+    };
+  }
+}
@@ -0,0 +1,223 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaymentProvider } from '../interfaces/payment.interface';
+import { AutopayAttemptStatus } from '../entities/autopay-attempt.entity';
+
+export class SavePaymentMethodDto {
+  @ApiProperty({
+    description: 'Payment provider that tokenized the card',
+    enum: PaymentProvider,
+    example: PaymentProvider.STRIPE,
+  })
+  @IsEnum(PaymentProvider)
+  provider: PaymentProvider;
+
+  @ApiProperty({
+    description:
+      'Stripe payment method ID from Stripe Elements, or the CardConnect iframe tokenizer token',
+    example: 'pm_1NqWxYZ2eZvKYlo2abc',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  token: string;
+
+  @ApiPropertyOptional({
+    description: 'Card expiry as MMYY (required for CardConnect)',
+    example: '1228',
+  })
+  @Matches(/^\d{2}\/?\d{2}$/, { message: 'expiry must be MMYY' })
+  @IsOptional()
+  expiry?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name on the card',
+    example: 'Jane Doe',
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  cardholderName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Make this the default card. The first card saved always becomes the default.',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  makeDefault?: boolean;
+}
+
+export class PaymentMethodResponseDto {
+  @ApiProperty({ description: 'Saved payment method ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Payment provider', enum: PaymentProvider })
+  provider: PaymentProvider;
+
+  @ApiPropertyOptional({ description: 'Card brand', example: 'visa' })
+  brand: string | null;
+
+  @ApiPropertyOptional({ description: 'Last four digits', example: '4242' })
+  last4: string | null;
+
+  @ApiPropertyOptional({ description: 'Expiry month', example: 12 })
+  expMonth: number | null;
+
+  @ApiPropertyOptional({ description: 'Expiry year', example: 2028 })
+  expYear: number | null;
+
+  @ApiProperty({ description: 'Whether autopay charges this card by default' })
+  isDefault: boolean;
+
+  @ApiProperty({ description: 'Saved at' })
+  createdAt: Date;
+}
+
+export class UpdateAutopayDto {
+  @ApiProperty({
+    description: 'School whose invoices are charged',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  schoolId: string;
+
+  @ApiProperty({ description: 'Charge invoices automatically on the due date' })
+  @IsBoolean()
+  active: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Saved card to charge; the default card when omitted or null',
+    nullable: true,
+  })
+  @IsUUID()
+  @IsOptional()
+  paymentMethodId?: string | null;
+}
+
+export class AutopayEnrollmentResponseDto {
+  @ApiProperty({ description: 'Autopay enrollment ID' })
+  id: string;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiPropertyOptional({ description: 'School name' })
+  schoolName?: string;
+
+  @ApiProperty({ description: 'Whether autopay is on' })
+  active: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Card charged; the default card when null',
+    nullable: true,
+  })
+  paymentMethodId: string | null;
+
+  @ApiProperty({ description: 'Invoices due from this date are charged' })
+  enrolledAt: Date;
+}
+
+export class AutopayRunDto {
+  @ApiPropertyOptional({
+    description: "School to charge (defaults to the user's school)",
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
+
+export class AutopayRunResponseDto {
+  @ApiProperty({ description: 'Invoices charged successfully' })
+  charged: number;
+
+  @ApiProperty({ description: 'Charges that failed' })
+  failed: number;
+
+  @ApiProperty({ description: 'Amount charged, in cents', example: 120000 })
+  amountCharged: number;
+}
+
+export class AutopayAttemptQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({ description: 'Only attempts for this invoice' })
+  @IsUUID()
+  @IsOptional()
+  invoiceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only attempts with this outcome',
+    enum: AutopayAttemptStatus,
+  })
+  @IsEnum(AutopayAttemptStatus)
+  @IsOptional()
+  status?: AutopayAttemptStatus;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class AutopayAttemptResponseDto {
+  @ApiProperty({ description: 'Attempt ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Invoice ID' })
+  invoiceId: string;
+
+  @ApiPropertyOptional({ description: 'Invoice number' })
+  invoiceNumber?: string;
+
+  @ApiProperty({ description: 'Attempt number, 1 on the due date' })
+  attempt: number;
+
+  @ApiProperty({ description: 'Amount charged, in cents' })
+  amount: number;
+
+  @ApiProperty({ description: 'Outcome', enum: AutopayAttemptStatus })
+  status: AutopayAttemptStatus;
+
+  @ApiPropertyOptional({ description: 'Transaction ID', nullable: true })
+  transactionId: string | null;
+
+  @ApiPropertyOptional({ description: 'Why the charge failed', nullable: true })
+  errorMessage: string | null;
+
+  @ApiPropertyOptional({ description: 'Next retry', nullable: true })
+  nextRetryAt: Date | null;
+
+  @ApiProperty({ description: 'Attempted at' })
+  createdAt: Date;
+}
@@ -0,0 +1,111 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaymentProvider } from '../interfaces/payment.interface';
+import { WebhookEventStatus } from '../entities/payment-webhook-event.entity';
+
+export class WebhookEventQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only this provider',
+    enum: PaymentProvider,
+  })
+  @IsEnum(PaymentProvider)
+  @IsOptional()
+  provider?: PaymentProvider;
+
+  @ApiPropertyOptional({
+    description: 'Only events with this status',
+    enum: WebhookEventStatus,
+  })
+  @IsEnum(WebhookEventStatus)
+  @IsOptional()
+  status?: WebhookEventStatus;
+
+  @ApiPropertyOptional({
+    description: 'Only events of this type',
+    example: 'payment_intent.succeeded',
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  eventType?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only events about this payment or other provider object',
+    example: 'pi_123456789',
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  objectId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class WebhookEventResponseDto {
+  @ApiProperty({ description: 'Stored event ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Provider', enum: PaymentProvider })
+  provider: PaymentProvider;
+
+  @ApiProperty({ description: 'Provider event ID', example: 'evt_1NqWxY' })
+  eventId: string;
+
+  @ApiProperty({
+    description: 'Event type',
+    example: 'payment_intent.succeeded',
+  })
+  eventType: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment or other provider object the event is about',
+    nullable: true,
+  })
+  objectId: string | null;
+
+  @ApiProperty({ description: 'When the provider says the event happened' })
+  occurredAt: Date;
+
+  @ApiProperty({ description: 'Status', enum: WebhookEventStatus })
+  status: WebhookEventStatus;
+
+  @ApiProperty({ description: 'Processing attempts so far' })
+  attempts: number;
+
+  @ApiPropertyOptional({
+    description: 'Error of the last failed attempt, or why it was ignored',
+    nullable: true,
+  })
+  lastError: string | null;
+
+  @ApiPropertyOptional({ description: 'Processed at', nullable: true })
+  processedAt: Date | null;
+
+  @ApiProperty({ description: 'Received at' })
+  createdAt: Date;
+
+  @ApiPropertyOptional({ description: 'Event as the provider sent it' })
+  payload?: Record<string, any>;
+}
@@ -0,0 +1,176 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { RefundStatus } from '../entities/refund.entity';
+import { PaymentProvider } from '../interfaces/payment.interface';
+
+export class CreateRefundRequestDto {
+  @ApiProperty({
+    description: 'Transaction to refund',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  transactionId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Amount to refund in cents; omit to refund all that is left of the transaction',
+    example: 2500,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Why the family is being refunded',
+    example: 'Withdrew before the start of the month',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class ApproveRefundDto {
+  @ApiPropertyOptional({
+    description: 'Note kept with the approval',
+    example: 'Approved per withdrawal policy',
+  })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  note?: string;
+}
+
+export class RejectRefundDto {
+  @ApiProperty({
+    description: 'Why the refund was rejected',
+    example: 'Outside the refund window',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note: string;
+}
+
+export class RefundQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only refunds with this status',
+    enum: RefundStatus,
+  })
+  @IsEnum(RefundStatus)
+  @IsOptional()
+  status?: RefundStatus;
+
+  @ApiPropertyOptional({ description: 'Only refunds of this transaction' })
+  @IsUUID()
+  @IsOptional()
+  transactionId?: string;
+
+  @ApiPropertyOptional({ description: 'Page number', default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Page size', default: 50, maximum: 200 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number;
+}
+
+export class RefundRequestResponseDto {
+  @ApiProperty({ description: 'Refund ID' })
+  id: string;
+
+  @ApiPropertyOptional({ description: 'School ID', nullable: true })
+  schoolId: string | null;
+
+  @ApiPropertyOptional({ description: 'Refunded transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Invoice or lead invoice the transaction paid',
+    nullable: true,
+  })
+  invoiceId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether invoiceId is an invoice or a lead invoice',
+    enum: ['invoice', 'lead_invoice'],
+    nullable: true,
+  })
+  invoiceSource: 'invoice' | 'lead_invoice' | null;
+
+  @ApiPropertyOptional({
+    description: 'Provider that took the payment',
+    enum: PaymentProvider,
+    nullable: true,
+  })
+  provider: PaymentProvider | null;
+
+  @ApiProperty({ description: 'Amount in cents', example: 2500 })
+  amount: number;
+
+  @ApiPropertyOptional({ description: 'Reason given by staff', nullable: true })
+  reason: string | null;
+
+  @ApiProperty({ description: 'Status', enum: RefundStatus })
+  status: RefundStatus;
+
+  @ApiPropertyOptional({ description: 'Staff who asked', nullable: true })
+  requestedBy: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Owner or admin who approved or rejected it',
+    nullable: true,
+  })
+  processedBy: string | null;
+
+  @ApiPropertyOptional({ description: 'Decided at', nullable: true })
+  processedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Approval note or rejection reason',
+    nullable: true,
+  })
+  reviewNote: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Provider refund ID once processed',
+    nullable: true,
+  })
+  providerRefundId: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Why the provider refused the refund',
+    nullable: true,
+  })
+  errorMessage: string | null;
+
+  @ApiProperty({ description: 'Requested at' })
+  createdAt: Date;
+}
@@ -0,0 +1,129 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { SchoolSubscriptionStatus } from '../../schools/entities/school.entity';
+import { SchoolBillingNoticeLevel } from '../entities/school-billing-notice.entity';
+
+export class SchoolBillingQueryDto {
+  @ApiPropertyOptional({
+    description: "School ID (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
+
+export class SchoolDunningRunDto {
+  @ApiPropertyOptional({
+    description: 'Only this school (defaults to every overdue school)',
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
+
+export class PaySchoolSubscriptionDto {
+  @ApiPropertyOptional({
+    description: "School to pay for (defaults to the user's school)",
+  })
+  @IsUUID()
+  @IsOptional()
+  schoolId?: string;
+}
+
+export class SchoolDunningRunResponseDto {
+  @ApiProperty({ description: 'Subscription charges retried' })
+  retried: number;
+
+  @ApiProperty({ description: 'Retried charges that succeeded' })
+  recovered: number;
+
+  @ApiProperty({ description: 'Notices sent to school owners' })
+  noticesSent: number;
+
+  @ApiProperty({ description: 'Schools whose access was disabled' })
+  schoolsDisabled: number;
+}
+
+export class SchoolBillingNoticeResponseDto {
+  @ApiProperty({ description: 'Notice ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Notice level', enum: SchoolBillingNoticeLevel })
+  level: SchoolBillingNoticeLevel;
+
+  @ApiProperty({ description: 'Days past the due date it was sent' })
+  daysOverdue: number;
+
+  @ApiProperty({ description: 'The missed due date' })
+  dueDate: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  recipientEmail: string | null;
+
+  @ApiProperty({ description: 'Amount due in cents', example: 70000 })
+  amountDue: number;
+
+  @ApiProperty({ description: 'Whether the email was sent' })
+  delivered: boolean;
+
+  @ApiProperty({ description: 'Sent at' })
+  createdAt: Date;
+}
+
+export class SchoolBillingStatusResponseDto {
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiProperty({
+    description: 'Subscription status',
+    enum: SchoolSubscriptionStatus,
+  })
+  subscriptionStatus: SchoolSubscriptionStatus;
+
+  @ApiProperty({
+    description: 'Whether staff are locked out until the subscription is paid',
+  })
+  accessDisabled: boolean;
+
+  @ApiProperty({ description: 'Monthly subscription in cents', example: 70000 })
+  amountDue: number;
+
+  @ApiPropertyOptional({ description: 'Next payment due', nullable: true })
+  nextPaymentDue: Date | null;
+
+  @ApiPropertyOptional({ description: 'Last payment', nullable: true })
+  lastPaymentDate: Date | null;
+
+  @ApiProperty({ description: 'Days past the due date', example: 0 })
+  daysOverdue: number;
+
+  @ApiProperty({
+    description: "Charges of the owner's card tried since the due date",
+  })
+  paymentRetryCount: number;
+
+  @ApiPropertyOptional({
+    description: "Next charge of the owner's card, if one is scheduled",
+    example: '2026-03-04',
+    nullable: true,
+  })
+  nextRetryDate: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Day access is disabled if the subscription is still unpaid',
+    example: '2026-03-15',
+    nullable: true,
+  })
+  accessDisabledOn: string | null;
+
+  @ApiProperty({
+    description: 'Whether the owner has a default card to charge',
+  })
+  hasPaymentMethod: boolean;
+
+  @ApiProperty({
+    description: 'Notices sent about the missed due date',
+    type: [SchoolBillingNoticeResponseDto],
+  })
+  notices: SchoolBillingNoticeResponseDto[];
+}
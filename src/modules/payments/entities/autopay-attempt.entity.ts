@@ -0,0 +1,54 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { Invoice } from '../../invoices/entities/invoice.entity';
+
+export enum AutopayAttemptStatus {
+  PROCESSING = 'processing',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/** One charge of an invoice by autopay */
+@Entity('autopay_attempts')
+@Unique(['invoiceId', 'attempt'])
+export class AutopayAttempt extends BaseEntity {
+  @Column({ name: 'invoice_id', type: 'uuid' })
+  invoiceId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ name: 'autopay_enrollment_id', type: 'uuid' })
+  autopayEnrollmentId: string;
+
+  @Column({ name: 'payment_method_id', type: 'uuid', nullable: true })
+  paymentMethodId: string | null;
+
+  @Column({ type: 'integer' })
+  attempt: number; // 1 for the charge on the due date
+
+  @Column({ type: 'integer' })
+  amount: number; // Amount in cents
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: AutopayAttemptStatus.PROCESSING,
+  })
+  status: AutopayAttemptStatus;
+
+  @Column({ name: 'transaction_id', type: 'uuid', nullable: true })
+  transactionId: string | null;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  // When the next attempt is due; null once the invoice is paid or retries are used up
+  @Column({ name: 'next_retry_at', type: 'timestamptz', nullable: true })
+  nextRetryAt: Date | null;
+
+  // Relations
+  @ManyToOne(() => Invoice, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invoice_id' })
+  invoice: Invoice;
+}
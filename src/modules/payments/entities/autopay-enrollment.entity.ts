@@ -0,0 +1,44 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+import { SavedPaymentMethodEntity } from './saved-payment-method.entity';
+
+/**
+ * A parent's consent to have their invoices at a school charged to a saved
+ * card on the due date
+ */
+@Entity('autopay_enrollments')
+@Unique(['userId', 'schoolId'])
+export class AutopayEnrollment extends BaseEntity {
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  email: string; // Lowercased; matches the parent email of lead invoices
+
+  // Card to charge; the parent's default card when null
+  @Column({ name: 'payment_method_id', type: 'uuid', nullable: true })
+  paymentMethodId: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  // Invoices due before this date are not charged
+  @Column({ name: 'enrolled_at', type: 'timestamptz' })
+  enrolledAt: Date;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+
+  @ManyToOne(() => SavedPaymentMethodEntity, {
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'payment_method_id' })
+  paymentMethod: SavedPaymentMethodEntity | null;
+}
@@ -0,0 +1,55 @@
+import { Column, Entity, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { PaymentProvider } from '../interfaces/payment.interface';
+
+export enum WebhookEventStatus {
+  /** Stored and queued for processing */
+  PENDING = 'pending',
+  PROCESSED = 'processed',
+  /** The last attempt failed; the queue retries it */
+  FAILED = 'failed',
+  /** Nothing to do: an unhandled type, or older than an event already processed */
+  IGNORED = 'ignored',
+}
+
+/** A webhook event received from a payment provider */
+@Entity('payment_webhook_events')
+@Unique(['provider', 'eventId'])
+export class PaymentWebhookEvent extends BaseEntity {
+  @Column({ type: 'varchar', length: 20 })
+  provider: PaymentProvider;
+
+  // Provider event ID; repeated deliveries of an event share it
+  @Column({ name: 'event_id', type: 'varchar', length: 255 })
+  eventId: string;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 100 })
+  eventType: string;
+
+  // The payment or other provider object the event is about
+  @Column({ name: 'object_id', type: 'varchar', length: 255, nullable: true })
+  objectId: string | null;
+
+  // When the provider says it happened, which can differ from delivery order
+  @Column({ name: 'occurred_at', type: 'timestamptz' })
+  occurredAt: Date;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: WebhookEventStatus.PENDING,
+  })
+  status: WebhookEventStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'processed_at', type: 'timestamptz', nullable: true })
+  processedAt: Date | null;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+}
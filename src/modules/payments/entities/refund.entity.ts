@@ -1,24 +1,61 @@
 import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
 import { BaseEntity } from '../../../common/entities/base.entity';
 import { Transaction } from './transaction.entity';
+import { PaymentProvider } from '../interfaces/payment.interface';
 
 export enum RefundStatus {
+  /** Requested by staff, waiting for an owner or admin */
   PENDING = 'pending',
+  /** Approved; the provider refund is in flight */
+  APPROVED = 'approved',
   PROCESSED = 'processed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  REJECTED = 'rejected',
 }
 
+/** Statuses whose amount counts against what is left to refund */
+export const OPEN_REFUND_STATUSES = [
+  RefundStatus.PENDING,
+  RefundStatus.APPROVED,
+  RefundStatus.PROCESSED,
+];
+
 @Entity('refunds')
 export class Refund extends BaseEntity {
   @Column({ name: 'transaction_id', type: 'uuid', nullable: true })
   transactionId: string | null;
 
-  @Column({ name: 'stripe_refund_id', type: 'varchar', length: 255, unique: true })
-  stripeRefundId: string;
+  @Column({ name: 'school_id', type: 'uuid', nullable: true })
+  schoolId: string | null;
+
+  // Invoice or lead invoice the refunded payment paid, per invoiceSource
+  @Column({ name: 'invoice_id', type: 'uuid', nullable: true })
+  invoiceId: string | null;
+
+  @Column({
+    name: 'invoice_source',
+    type: 'varchar',
+    length: 20,
+    nullable: true,
+  })
+  invoiceSource: 'invoice' | 'lead_invoice' | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  provider: PaymentProvider | null;
+
+  // Refund ID from the provider, set once the refund is processed
+  @Column({
+    name: 'stripe_refund_id',
+    type: 'varchar',
+    length: 255,
+    unique: true,
+    nullable: true,
+  })
+  stripeRefundId: string | null;
 
   @Column({ type: 'integer' })
-  amount: number;
+  amount: number; // Amount in cents
 
   @Column({ type: 'text', nullable: true })
   reason: string | null;
@@ -36,10 +73,17 @@ export class Refund extends BaseEntity {
   @Column({ name: 'processed_by', type: 'uuid', nullable: true })
   processedBy: string | null;
 
+  @Column({ name: 'processed_at', type: 'timestamptz', nullable: true })
+  processedAt: Date | null;
+
+  @Column({ name: 'review_note', type: 'text', nullable: true })
+  reviewNote: string | null;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage: string | null;
+
   // Relations
   @ManyToOne(() => Transaction, { nullable: true })
   @JoinColumn({ name: 'transaction_id' })
   transaction: Transaction | null;
 }
-
-
@@ -0,0 +1,46 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { ProfileEntity } from '../../users/entities/profile.entity';
+import { PaymentProvider } from '../interfaces/payment.interface';
+
+/**
+ * A parent's or school owner's card stored with the payment provider. Only
+ * the provider's references and display details are kept here.
+ */
+@Entity('saved_payment_methods')
+@Index(['userId', 'provider', 'providerPaymentMethodId'], { unique: true })
+export class SavedPaymentMethodEntity extends BaseEntity {
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  provider: PaymentProvider;
+
+  // Stripe customer ID or CardConnect profile ID
+  @Column({ name: 'provider_customer_id', type: 'varchar', length: 255 })
+  providerCustomerId: string;
+
+  // Stripe payment method ID or CardConnect account ID
+  @Column({ name: 'provider_payment_method_id', type: 'varchar', length: 255 })
+  providerPaymentMethodId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  brand: string | null;
+
+  @Column({ type: 'varchar', length: 4, nullable: true })
+  last4: string | null;
+
+  @Column({ name: 'exp_month', type: 'integer', nullable: true })
+  expMonth: number | null;
+
+  @Column({ name: 'exp_year', type: 'integer', nullable: true })
+  expYear: number | null;
+
+  @Column({ name: 'is_default', type: 'boolean', default: false })
+  isDefault: boolean;
+
+  // Relations
+  @ManyToOne(() => ProfileEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: ProfileEntity;
+}
@@ -0,0 +1,47 @@
+import { Column, Entity, JoinColumn, ManyToOne, Unique } from 'typeorm';
+import { BaseEntity } from '../../../common/entities/base.entity';
+import { SchoolEntity } from '../../schools/entities/school.entity';
+
+export enum SchoolBillingNoticeLevel {
+  REMINDER = 'reminder',
+  WARNING = 'warning',
+  FINAL = 'final',
+  SUSPENDED = 'suspended',
+}
+
+/** A notice sent to a school owner about an overdue subscription payment */
+@Entity('school_billing_notices')
+@Unique(['schoolId', 'dueDate', 'level'])
+export class SchoolBillingNotice extends BaseEntity {
+  @Column({ name: 'school_id', type: 'uuid' })
+  schoolId: string;
+
+  // The missed due date, so a later missed payment starts a new round
+  @Column({ name: 'due_date', type: 'timestamptz' })
+  dueDate: Date;
+
+  @Column({ type: 'varchar', length: 20 })
+  level: SchoolBillingNoticeLevel;
+
+  @Column({ name: 'days_overdue', type: 'integer' })
+  daysOverdue: number;
+
+  @Column({
+    name: 'recipient_email',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  recipientEmail: string | null;
+
+  @Column({ name: 'amount_due', type: 'integer' })
+  amountDue: number; // Amount in cents
+
+  @Column({ type: 'boolean', default: false })
+  delivered: boolean;
+
+  // Relations
+  @ManyToOne(() => SchoolEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'school_id' })
+  school: SchoolEntity;
+}
@@ -1,4 +1,10 @@
-import { PaymentIntent, PaymentCustomer, RefundResult } from './payment.interface';
+import {
+  PaymentIntent,
+  PaymentCustomer,
+  RefundResult,
+  SavedPaymentMethod,
+  WebhookEvent,
+} from './payment.interface';
 
 export interface CreatePaymentOptions {
   amount: number;
@@ -15,6 +21,22 @@ export interface CreateCustomerOptions {
   metadata?: Record<string, any>;
 }
 
+export interface SavePaymentMethodOptions {
+  /** Provider customer to attach to; CardConnect opens a profile when omitted */
+  customerId?: string;
+  /** Stripe payment method ID or CardConnect tokenizer token */
+  token: string;
+  /** Card expiry as MMYY, needed by CardConnect */
+  expiry?: string;
+  name?: string;
+  email?: string;
+}
+
+export interface ChargePaymentMethodOptions extends CreatePaymentOptions {
+  customerId: string;
+  paymentMethodId: string;
+}
+
 export interface IPaymentProvider {
   /**
    * Create a payment intent
@@ -36,6 +58,28 @@ export interface IPaymentProvider {
    */
   getCustomer(customerId: string): Promise<PaymentCustomer>;
 
+  /**
+   * Store a tokenized card on the customer for later charges
+   */
+  savePaymentMethod(
+    options: SavePaymentMethodOptions,
+  ): Promise<SavedPaymentMethod>;
+
+  /**
+   * Remove a stored card from the customer
+   */
+  removePaymentMethod(
+    customerId: string,
+    paymentMethodId: string,
+  ): Promise<void>;
+
+  /**
+   * Charge a stored card without the customer present
+   */
+  chargePaymentMethod(
+    options: ChargePaymentMethodOptions,
+  ): Promise<PaymentIntent>;
+
   /**
    * Refund a payment
    */
@@ -50,4 +94,9 @@ export interface IPaymentProvider {
    * Verify webhook signature and parse event
    */
   verifyWebhook(payload: any, signature: string): Promise<any>;
+
+  /**
+   * Normalize a verified webhook event
+   */
+  parseWebhookEvent(event: unknown): WebhookEvent;
 }
\ No newline at end of file
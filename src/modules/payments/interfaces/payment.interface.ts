@@ -31,6 +31,16 @@ export enum PaymentProvider {
     metadata?: Record<string, any>;
   }
   
+  export interface SavedPaymentMethod {
+    id: string;
+    provider: PaymentProvider;
+    customerId: string;
+    brand?: string;
+    last4?: string;
+    expMonth?: number;
+    expYear?: number;
+  }
+  
   export interface RefundResult {
     id: string;
     amount: number;
@@ -40,7 +50,14 @@ export enum PaymentProvider {
   
   export interface WebhookEvent {
     provider: PaymentProvider;
+    /** Provider event ID; repeated deliveries share it */
+    id: string;
     type: string;
+    /** The payment or other object the event is about */
+    objectId: string | null;
+    occurredAt: Date;
+    /** The payment the event reports, for payment events */
+    payment?: PaymentIntent;
     data: any;
     rawEvent: any;
   }
\ No newline at end of file
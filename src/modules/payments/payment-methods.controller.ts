@@ -0,0 +1,257 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PaymentMethodsService } from './payment-methods.service';
+import { AutopayService } from './autopay.service';
+import {
+  AutopayAttemptQueryDto,
+  AutopayAttemptResponseDto,
+  AutopayEnrollmentResponseDto,
+  AutopayRunDto,
+  AutopayRunResponseDto,
+  PaymentMethodResponseDto,
+  SavePaymentMethodDto,
+  UpdateAutopayDto,
+} from './dto/payment-method.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { BillingAccess } from '../../common/decorators/billing-access.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Payment Methods')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@Controller('payment-methods')
+export class PaymentMethodsController {
+  constructor(
+    private readonly paymentMethodsService: PaymentMethodsService,
+    private readonly autopayService: AutopayService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage autopay of your own school',
+      );
+    }
+  }
+
+  @Get()
+  @BillingAccess()
+  @Roles(AppRole.PARENT, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'List my saved payment methods',
+    description: 'The default card is listed first.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment methods retrieved successfully',
+    type: [PaymentMethodResponseDto],
+  })
+  async findMine(
+    @CurrentUser() user: AuthUser,
+  ): Promise<PaymentMethodResponseDto[]> {
+    return this.paymentMethodsService.findMine(user.id);
+  }
+
+  @Post()
+  @BillingAccess()
+  @Roles(AppRole.PARENT, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Save a payment method',
+    description:
+      "Stores a card tokenized on the client (a Stripe payment method ID from Stripe Elements, or a CardConnect iframe tokenizer token with its expiry) with the provider for later charges. Card numbers never reach this API. A school owner's default card is charged for overdue school subscriptions.",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment method saved',
+    type: PaymentMethodResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'The provider rejected the card' })
+  async save(
+    @Body() dto: SavePaymentMethodDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PaymentMethodResponseDto> {
+    return this.paymentMethodsService.save(user, dto);
+  }
+
+  @Get('autopay')
+  @Roles(AppRole.PARENT)
+  @ApiOperation({ summary: 'List my autopay settings per school' })
+  @ApiResponse({
+    status: 200,
+    description: 'Autopay settings retrieved successfully',
+    type: [AutopayEnrollmentResponseDto],
+  })
+  async findAutopay(
+    @CurrentUser() user: AuthUser,
+  ): Promise<AutopayEnrollmentResponseDto[]> {
+    return this.paymentMethodsService.findAutopay(user.id);
+  }
+
+  @Put('autopay')
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Turn autopay on or off for a school',
+    description:
+      'While on, invoices falling due from today are charged to the chosen card, or the default card, on their due date. A failed charge is retried after 1 and 3 more days and an email is sent after each failure.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Autopay updated',
+    type: AutopayEnrollmentResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'No saved payment method' })
+  @ApiNotFoundResponse({ description: 'Payment method not found' })
+  async updateAutopay(
+    @Body() dto: UpdateAutopayDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<AutopayEnrollmentResponseDto> {
+    return this.paymentMethodsService.updateAutopay(user, dto);
+  }
+
+  @Get('autopay/attempts')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'List autopay charges',
+    description: 'Newest first, with the reason for failed charges.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Autopay attempts retrieved successfully',
+    type: [AutopayAttemptResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAttempts(
+    @Query() query: AutopayAttemptQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: AutopayAttemptResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.autopayService.findAttempts(schoolId!, query);
+  }
+
+  @Post('autopay/run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Charge due autopay invoices now',
+    description:
+      'Runs the daily autopay charge for the school. Invoices already charged, or waiting for their retry date, are skipped.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Autopay run finished',
+    type: AutopayRunResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async run(
+    @Body() dto: AutopayRunDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<AutopayRunResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.autopayService.run({ schoolId });
+  }
+
+  @Post(':id/default')
+  @BillingAccess()
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.PARENT, AppRole.SCHOOL_OWNER)
+  @ApiOperation({ summary: 'Make a saved payment method the default' })
+  @ApiParam({ name: 'id', description: 'Saved payment method ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Default payment method set',
+    type: PaymentMethodResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payment method not found' })
+  async setDefault(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PaymentMethodResponseDto> {
+    return this.paymentMethodsService.setDefault(user.id, id);
+  }
+
+  @Delete(':id')
+  @BillingAccess()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(AppRole.PARENT, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Remove a saved payment method',
+    description:
+      'Autopay that charged this card falls back to the default card.',
+  })
+  @ApiParam({ name: 'id', description: 'Saved payment method ID' })
+  @ApiResponse({ status: 204, description: 'Payment method removed' })
+  @ApiNotFoundResponse({ description: 'Payment method not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    await this.paymentMethodsService.remove(user.id, id);
+  }
+}
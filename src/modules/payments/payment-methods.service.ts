@@ -0,0 +1,337 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { PaymentsService } from './payments.service';
+import { SavedPaymentMethodEntity } from './entities/saved-payment-method.entity';
+import { AutopayEnrollment } from './entities/autopay-enrollment.entity';
+import { StripeCustomer } from './entities/stripe-customer.entity';
+import { PaymentProvider } from './interfaces/payment.interface';
+import {
+  AutopayEnrollmentResponseDto,
+  PaymentMethodResponseDto,
+  SavePaymentMethodDto,
+  UpdateAutopayDto,
+} from './dto/payment-method.dto';
+import { LeadEntity } from '../leads/entities/lead.entity';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+/**
+ * Parents' saved cards and autopay enrollments. Cards are tokenized by the
+ * provider on the client; the provider stores them on the parent's
+ * customer (Stripe) or profile (CardConnect) and only references are kept
+ * here.
+ */
+@Injectable()
+export class PaymentMethodsService {
+  private readonly logger = new Logger(PaymentMethodsService.name);
+
+  constructor(
+    @InjectRepository(SavedPaymentMethodEntity)
+    private readonly methodRepository: Repository<SavedPaymentMethodEntity>,
+    @InjectRepository(AutopayEnrollment)
+    private readonly autopayRepository: Repository<AutopayEnrollment>,
+    @InjectRepository(StripeCustomer)
+    private readonly stripeCustomerRepository: Repository<StripeCustomer>,
+    @InjectRepository(LeadEntity)
+    private readonly leadRepository: Repository<LeadEntity>,
+    @InjectRepository(Invoice)
+    private readonly invoiceRepository: Repository<Invoice>,
+    private readonly paymentsService: PaymentsService,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findMine(userId: string): Promise<PaymentMethodResponseDto[]> {
+    const methods = await this.methodRepository.find({
+      where: { userId },
+      order: { isDefault: 'DESC', createdAt: 'DESC' },
+    });
+    return methods.map((method) => this.mapToResponseDto(method));
+  }
+
+  async save(
+    user: AuthUser,
+    dto: SavePaymentMethodDto,
+  ): Promise<PaymentMethodResponseDto> {
+    if (dto.provider === PaymentProvider.CARDCONNECT && !dto.expiry) {
+      throw new BadRequestException('expiry is required for CardConnect cards');
+    }
+
+    const customerId = await this.findCustomerId(user, dto);
+    const saved = await this.paymentsService.savePaymentMethod(dto.provider, {
+      customerId: customerId ?? undefined,
+      token: dto.token,
+      expiry: dto.expiry,
+      name: dto.cardholderName,
+      email: user.email,
+    });
+
+    const existing = await this.methodRepository.count({
+      where: { userId: user.id },
+    });
+    const method = await this.methodRepository.save(
+      this.methodRepository.create({
+        userId: user.id,
+        provider: dto.provider,
+        providerCustomerId: saved.customerId,
+        providerPaymentMethodId: saved.id,
+        brand: saved.brand ?? null,
+        last4: saved.last4 ?? null,
+        expMonth: saved.expMonth ?? null,
+        expYear: saved.expYear ?? null,
+        isDefault: false,
+      }),
+    );
+    this.logger.log(`Saved ${dto.provider} payment method for user ${user.id}`);
+
+    if (existing === 0 || dto.makeDefault) {
+      await this.makeDefault(user.id, method.id);
+      method.isDefault = true;
+    }
+    return this.mapToResponseDto(method);
+  }
+
+  async setDefault(
+    userId: string,
+    id: string,
+  ): Promise<PaymentMethodResponseDto> {
+    const method = await this.findOwned(userId, id);
+    await this.makeDefault(userId, method.id);
+    method.isDefault = true;
+    return this.mapToResponseDto(method);
+  }
+
+  /**
+   * Remove the card from the provider and forget it. Autopay falls back
+   * to the default card, which passes to the newest remaining card.
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const method = await this.findOwned(userId, id);
+
+    try {
+      await this.paymentsService.removePaymentMethod(
+        method.provider,
+        method.providerCustomerId,
+        method.providerPaymentMethodId,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove payment method ${id} from ${method.provider}: ${(error as Error).message}`,
+      );
+    }
+
+    await this.methodRepository.remove(method);
+    if (method.isDefault) {
+      const next = await this.methodRepository.findOne({
+        where: { userId },
+        order: { createdAt: 'DESC' },
+      });
+      if (next) {
+        await this.makeDefault(userId, next.id);
+      }
+    }
+    this.logger.log(`Removed payment method ${id} of user ${userId}`);
+  }
+
+  async findAutopay(userId: string): Promise<AutopayEnrollmentResponseDto[]> {
+    const enrollments = await this.autopayRepository.find({
+      where: { userId },
+      relations: ['school'],
+      order: { createdAt: 'ASC' },
+    });
+    return enrollments.map((enrollment) =>
+      this.mapAutopayToResponseDto(enrollment),
+    );
+  }
+
+  /**
+   * Turn autopay on or off for the parent's invoices at a school. Turning
+   * it on charges invoices due from that day on; earlier ones are left to
+   * be paid by hand.
+   */
+  async updateAutopay(
+    user: AuthUser,
+    dto: UpdateAutopayDto,
+  ): Promise<AutopayEnrollmentResponseDto> {
+    const email = user.email.trim().toLowerCase();
+    if (!(await this.isParentAtSchool(user.id, email, dto.schoolId))) {
+      throw new ForbiddenException(
+        'You can only set up autopay for schools your children attend',
+      );
+    }
+    if (dto.paymentMethodId) {
+      await this.findOwned(user.id, dto.paymentMethodId);
+    }
+    if (
+      dto.active &&
+      !dto.paymentMethodId &&
+      (await this.methodRepository.count({ where: { userId: user.id } })) === 0
+    ) {
+      throw new BadRequestException(
+        'Save a payment method before turning on autopay',
+      );
+    }
+
+    const existing = await this.autopayRepository.findOne({
+      where: { userId: user.id, schoolId: dto.schoolId },
+    });
+    const enrollment =
+      existing ??
+      this.autopayRepository.create({
+        userId: user.id,
+        schoolId: dto.schoolId,
+        enrolledAt: new Date(),
+      });
+    if (dto.active && existing && !existing.active) {
+      enrollment.enrolledAt = new Date();
+    }
+    enrollment.email = email;
+    enrollment.active = dto.active;
+    if (dto.paymentMethodId !== undefined) {
+      enrollment.paymentMethodId = dto.paymentMethodId;
+    }
+
+    const saved = await this.autopayRepository.save(enrollment);
+    this.logger.log(
+      `Autopay ${saved.active ? 'enabled' : 'disabled'} for user ${user.id} at school ${dto.schoolId}`,
+    );
+    return this.mapAutopayToResponseDto(saved);
+  }
+
+  /**
+   * The card autopay charges: the chosen card, else the parent's default
+   */
+  async resolveAutopayMethod(
+    enrollment: AutopayEnrollment,
+  ): Promise<SavedPaymentMethodEntity | null> {
+    if (enrollment.paymentMethodId) {
+      const chosen = await this.methodRepository.findOne({
+        where: { id: enrollment.paymentMethodId, userId: enrollment.userId },
+      });
+      if (chosen) {
+        return chosen;
+      }
+    }
+    return this.methodRepository.findOne({
+      where: { userId: enrollment.userId, isDefault: true },
+    });
+  }
+
+  private async findOwned(
+    userId: string,
+    id: string,
+  ): Promise<SavedPaymentMethodEntity> {
+    const method = await this.methodRepository.findOne({
+      where: { id, userId },
+    });
+    if (!method) {
+      throw new NotFoundException(`Payment method with ID "${id}" not found`);
+    }
+    return method;
+  }
+
+  private async makeDefault(userId: string, id: string): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await manager.update(
+        SavedPaymentMethodEntity,
+        { userId, isDefault: true },
+        { isDefault: false },
+      );
+      await manager.update(
+        SavedPaymentMethodEntity,
+        { id },
+        { isDefault: true },
+      );
+    });
+  }
+
+  /**
+   * The parent's customer with the provider: their Stripe customer, opened
+   * on first use, or the CardConnect profile of their earlier cards
+   */
+  private async findCustomerId(
+    user: AuthUser,
+    dto: SavePaymentMethodDto,
+  ): Promise<string | null> {
+    if (dto.provider === PaymentProvider.CARDCONNECT) {
+      const earlier = await this.methodRepository.findOne({
+        where: { userId: user.id, provider: PaymentProvider.CARDCONNECT },
+      });
+      return earlier?.providerCustomerId ?? null;
+    }
+
+    const customer = await this.stripeCustomerRepository.findOne({
+      where: { userId: user.id },
+    });
+    if (customer) {
+      return customer.stripeCustomerId;
+    }
+
+    const created = await this.paymentsService.createCustomer(dto.provider, {
+      email: user.email,
+      name: dto.cardholderName ?? user.email,
+      metadata: { userId: user.id },
+    });
+    await this.stripeCustomerRepository.save(
+      this.stripeCustomerRepository.create({
+        userId: user.id,
+        stripeCustomerId: created.id,
+        email: user.email,
+      }),
+    );
+    return created.id;
+  }
+
+  private async isParentAtSchool(
+    userId: string,
+    email: string,
+    schoolId: string,
+  ): Promise<boolean> {
+    const leads = await this.leadRepository
+      .createQueryBuilder('lead')
+      .where('lead.school_id = :schoolId', { schoolId })
+      .andWhere('LOWER(lead.parent_email) = :email', { email })
+      .getCount();
+    if (leads > 0) {
+      return true;
+    }
+    const invoices = await this.invoiceRepository.count({
+      where: { schoolId, parentId: userId },
+    });
+    return invoices > 0;
+  }
+
+  private mapToResponseDto(
+    method: SavedPaymentMethodEntity,
+  ): PaymentMethodResponseDto {
+    return {
+      id: method.id,
+      provider: method.provider,
+      brand: method.brand,
+      last4: method.last4,
+      expMonth: method.expMonth,
+      expYear: method.expYear,
+      isDefault: method.isDefault,
+      createdAt: method.createdAt,
+    };
+  }
+
+  private mapAutopayToResponseDto(
+    enrollment: AutopayEnrollment,
+  ): AutopayEnrollmentResponseDto {
+    return {
+      id: enrollment.id,
+      schoolId: enrollment.schoolId,
+      schoolName: enrollment.school?.name,
+      active: enrollment.active,
+      paymentMethodId: enrollment.paymentMethodId,
+      enrolledAt: enrollment.enrolledAt,
+    };
+  }
+}
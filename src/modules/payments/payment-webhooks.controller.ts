@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import {
+  WebhookEventQueryDto,
+  WebhookEventResponseDto,
+} from './dto/payment-webhook-event.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+
+@ApiTags('Payment Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(AppRole.SUPER_ADMIN)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Super admins only' })
+@Controller('payments/webhook-events')
+export class PaymentWebhooksController {
+  constructor(
+    private readonly paymentWebhooksService: PaymentWebhooksService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List received payment webhook events',
+    description:
+      'Newest first. Filter by status=failed for events whose processing keeps failing.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook events retrieved successfully',
+    type: [WebhookEventResponseDto],
+  })
+  async findAll(
+    @Query() query: WebhookEventQueryDto,
+  ): Promise<{ data: WebhookEventResponseDto[]; total: number }> {
+    return this.paymentWebhooksService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook event with its payload' })
+  @ApiParam({ name: 'id', description: 'Stored webhook event ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event retrieved successfully',
+    type: WebhookEventResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Webhook event not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookEventResponseDto> {
+    return this.paymentWebhooksService.findOneWithPayload(id);
+  }
+
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay a webhook event',
+    description:
+      'Queues the event to be applied again, whatever its status. Applying an event twice changes nothing, and an event older than one already applied for the same payment is ignored.',
+  })
+  @ApiParam({ name: 'id', description: 'Stored webhook event ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook event queued',
+    type: WebhookEventResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Webhook event not found' })
+  async replay(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookEventResponseDto> {
+    return this.paymentWebhooksService.replay(id);
+  }
+}
@@ -0,0 +1,33 @@
+import { Process, Processor } from '@nestjs/bull';
+import type { Job } from 'bull';
+import {
+  PaymentWebhooksService,
+  ProcessWebhookEventJobData,
+} from './payment-webhooks.service';
+import {
+  PAYMENT_WEBHOOKS_QUEUE,
+  PROCESS_WEBHOOK_EVENT_JOB,
+} from './payments.constants';
+import { WebhookEventStatus } from './entities/payment-webhook-event.entity';
+
+/**
+ * Applies stored payment webhook events. A failed event throws so Bull
+ * retries it with backoff; one that fails every attempt moves to the
+ * dead-letter queue and can be replayed by an admin.
+ */
+@Processor(PAYMENT_WEBHOOKS_QUEUE)
+export class PaymentWebhooksProcessor {
+  constructor(
+    private readonly paymentWebhooksService: PaymentWebhooksService,
+  ) {}
+
+  @Process(PROCESS_WEBHOOK_EVENT_JOB)
+  async processEvent(
+    job: Job<ProcessWebhookEventJobData>,
+  ): Promise<{ status: WebhookEventStatus }> {
+    const status = await this.paymentWebhooksService.process(
+      job.data.webhookEventId,
+    );
+    return { status };
+  }
+}
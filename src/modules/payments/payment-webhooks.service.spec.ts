@@ -0,0 +1,317 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import { PaymentsService } from './payments.service';
+import { AutopayService } from './autopay.service';
+import {
+  PaymentWebhookEvent,
+  WebhookEventStatus,
+} from './entities/payment-webhook-event.entity';
+import {
+  PaymentIntent,
+  PaymentProvider,
+  PaymentStatus,
+  WebhookEvent,
+} from './interfaces/payment.interface';
+import {
+  PAYMENT_WEBHOOKS_QUEUE,
+  PROCESS_WEBHOOK_EVENT_JOB,
+} from './payments.constants';
+
+const PROVIDER = PaymentProvider.STRIPE;
+
+interface RawEvent {
+  id: string;
+  type: string;
+  objectId: string | null;
+  occurredAt: string;
+  /** Status of the payment reported, null for events about no payment */
+  status: PaymentStatus | null;
+}
+
+function rawEvent(
+  id: string,
+  occurredAt: string,
+  status: PaymentStatus | null = PaymentStatus.SUCCEEDED,
+): RawEvent {
+  return {
+    id,
+    type: 'payment_intent.succeeded',
+    objectId: 'pi_1',
+    occurredAt,
+    status,
+  };
+}
+
+describe('PaymentWebhooksService', () => {
+  let service: PaymentWebhooksService;
+  let events: PaymentWebhookEvent[];
+  const add = jest.fn();
+  const applyWebhookPayment = jest.fn();
+  const settleAttempt = jest.fn();
+
+  /** Parses the test events the way a provider parses its own */
+  const parseWebhookEvent = (
+    provider: PaymentProvider,
+    raw: RawEvent,
+  ): WebhookEvent => ({
+    provider,
+    id: raw.id,
+    type: raw.type,
+    objectId: raw.objectId,
+    occurredAt: new Date(raw.occurredAt),
+    payment: raw.status
+      ? ({
+          id: raw.objectId,
+          provider,
+          amount: 5000,
+          currency: 'usd',
+          status: raw.status,
+          createdAt: new Date(raw.occurredAt),
+        } as PaymentIntent)
+      : undefined,
+    data: raw,
+    rawEvent: raw,
+  });
+
+  async function deliver(raw: RawEvent): Promise<PaymentWebhookEvent> {
+    await service.receive(PROVIDER, raw);
+    return events.find((event) => event.eventId === raw.id)!;
+  }
+
+  beforeEach(async () => {
+    events = [];
+    add.mockReset();
+    applyWebhookPayment.mockReset().mockResolvedValue(true);
+    settleAttempt.mockReset().mockResolvedValue(undefined);
+
+    const insertBuilder = () => {
+      let values: Partial<PaymentWebhookEvent>;
+      const builder = {
+        insert: () => builder,
+        into: () => builder,
+        values: (row: Partial<PaymentWebhookEvent>) => {
+          values = row;
+          return builder;
+        },
+        orIgnore: () => builder,
+        returning: () => builder,
+        execute: () => {
+          const duplicate = events.some(
+            (event) =>
+              event.provider === values.provider &&
+              event.eventId === values.eventId,
+          );
+          if (duplicate) {
+            return Promise.resolve({ raw: [] });
+          }
+          const id = `event-${events.length + 1}`;
+          events.push({
+            ...values,
+            id,
+            status: WebhookEventStatus.PENDING,
+            attempts: 0,
+            lastError: null,
+            processedAt: null,
+          } as PaymentWebhookEvent);
+          return Promise.resolve({ raw: [{ id }] });
+        },
+      };
+      return builder;
+    };
+
+    // Counts processed events for the same object that occurred later
+    const newerBuilder = () => {
+      const params: Record<string, unknown> = {};
+      const builder = {
+        where: (_sql: string, values: object) => {
+          Object.assign(params, values);
+          return builder;
+        },
+        andWhere: (_sql: string, values: object) => {
+          Object.assign(params, values);
+          return builder;
+        },
+        getCount: () =>
+          Promise.resolve(
+            events.filter(
+              (event) =>
+                event.provider === params.provider &&
+                event.objectId === params.objectId &&
+                event.status === params.processed &&
+                event.occurredAt > (params.occurredAt as Date) &&
+                event.id !== params.id,
+            ).length,
+          ),
+      };
+      return builder;
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentWebhooksService,
+        {
+          provide: getRepositoryToken(PaymentWebhookEvent),
+          useValue: {
+            createQueryBuilder: (alias?: string) =>
+              alias ? newerBuilder() : insertBuilder(),
+            findOne: ({ where }: { where: { id: string } }) =>
+              Promise.resolve(
+                events.find((event) => event.id === where.id) ?? null,
+              ),
+            findOneOrFail: ({ where }: { where: { eventId: string } }) =>
+              Promise.resolve(
+                events.find((event) => event.eventId === where.eventId)!,
+              ),
+            save: (event: PaymentWebhookEvent) => Promise.resolve(event),
+          },
+        },
+        { provide: getQueueToken(PAYMENT_WEBHOOKS_QUEUE), useValue: { add } },
+        {
+          provide: PaymentsService,
+          useValue: {
+            parseWebhookEvent,
+            confirmWebhookPayment: (_provider, payment: PaymentIntent) =>
+              Promise.resolve(payment),
+            applyWebhookPayment,
+          },
+        },
+        { provide: AutopayService, useValue: { settleAttempt } },
+      ],
+    }).compile();
+
+    service = module.get(PaymentWebhooksService);
+  });
+
+  describe('repeated deliveries', () => {
+    it('stores and queues an event once', async () => {
+      const raw = rawEvent('evt_1', '2026-03-01T10:00:00Z');
+
+      await expect(service.receive(PROVIDER, raw)).resolves.toEqual({
+        duplicate: false,
+      });
+      expect(add).toHaveBeenCalledWith(
+        PROCESS_WEBHOOK_EVENT_JOB,
+        { webhookEventId: 'event-1' },
+        { jobId: 'event-1' },
+      );
+
+      await service.process('event-1');
+      await expect(service.receive(PROVIDER, raw)).resolves.toEqual({
+        duplicate: true,
+      });
+      expect(events).toHaveLength(1);
+      expect(add).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues a repeated event again while it is still pending', async () => {
+      const raw = rawEvent('evt_1', '2026-03-01T10:00:00Z');
+      await service.receive(PROVIDER, raw);
+
+      await expect(service.receive(PROVIDER, raw)).resolves.toEqual({
+        duplicate: true,
+      });
+      expect(add).toHaveBeenCalledTimes(2);
+      expect(add).toHaveBeenLastCalledWith(
+        PROCESS_WEBHOOK_EVENT_JOB,
+        { webhookEventId: 'event-1' },
+        { jobId: 'event-1' },
+      );
+    });
+
+    it('applies an event once however often it is processed', async () => {
+      const event = await deliver(rawEvent('evt_1', '2026-03-01T10:00:00Z'));
+
+      await service.process(event.id);
+      await expect(service.process(event.id)).resolves.toBe(
+        WebhookEventStatus.PROCESSED,
+      );
+      expect(applyWebhookPayment).toHaveBeenCalledTimes(1);
+      expect(settleAttempt).toHaveBeenCalledTimes(1);
+      expect(event.attempts).toBe(1);
+    });
+  });
+
+  describe('out-of-order events', () => {
+    it('ignores an event older than one already applied', async () => {
+      const failed = await deliver(
+        rawEvent('evt_failed', '2026-03-01T10:00:00Z', PaymentStatus.FAILED),
+      );
+      const paid = await deliver(rawEvent('evt_paid', '2026-03-01T10:05:00Z'));
+
+      await service.process(paid.id);
+      await expect(service.process(failed.id)).resolves.toBe(
+        WebhookEventStatus.IGNORED,
+      );
+      expect(failed.lastError).toBe(
+        'A newer event for the same object was already processed',
+      );
+      expect(applyWebhookPayment).toHaveBeenCalledTimes(1);
+      expect(applyWebhookPayment).toHaveBeenCalledWith(
+        PROVIDER,
+        expect.objectContaining({ status: PaymentStatus.SUCCEEDED }),
+      );
+    });
+
+    it('applies events that arrive in order', async () => {
+      const failed = await deliver(
+        rawEvent('evt_failed', '2026-03-01T10:00:00Z', PaymentStatus.FAILED),
+      );
+      const paid = await deliver(rawEvent('evt_paid', '2026-03-01T10:05:00Z'));
+
+      await service.process(failed.id);
+      await service.process(paid.id);
+
+      expect(events.map((event) => event.status)).toEqual([
+        WebhookEventStatus.PROCESSED,
+        WebhookEventStatus.PROCESSED,
+      ]);
+      expect(applyWebhookPayment).toHaveBeenCalledTimes(2);
+    });
+
+    it('compares events of the same object only', async () => {
+      const other = await deliver({
+        ...rawEvent('evt_other', '2026-03-01T10:00:00Z'),
+        objectId: 'pi_2',
+      });
+      const paid = await deliver(rawEvent('evt_paid', '2026-03-01T10:05:00Z'));
+
+      await service.process(paid.id);
+      await expect(service.process(other.id)).resolves.toBe(
+        WebhookEventStatus.PROCESSED,
+      );
+    });
+  });
+
+  it('ignores events without a payment', async () => {
+    const event = await deliver(
+      rawEvent('evt_1', '2026-03-01T10:00:00Z', null),
+    );
+
+    await expect(service.process(event.id)).resolves.toBe(
+      WebhookEventStatus.IGNORED,
+    );
+    expect(event.lastError).toBe(
+      'No handler for payment_intent.succeeded events',
+    );
+    expect(applyWebhookPayment).not.toHaveBeenCalled();
+  });
+
+  it('marks a failed event for the queue to retry', async () => {
+    const event = await deliver(rawEvent('evt_1', '2026-03-01T10:00:00Z'));
+    applyWebhookPayment.mockRejectedValueOnce(new Error('database down'));
+
+    await expect(service.process(event.id)).rejects.toThrow('database down');
+    expect(event).toMatchObject({
+      status: WebhookEventStatus.FAILED,
+      lastError: 'database down',
+      attempts: 1,
+    });
+
+    await expect(service.process(event.id)).resolves.toBe(
+      WebhookEventStatus.PROCESSED,
+    );
+    expect(event).toMatchObject({ lastError: null, attempts: 2 });
+  });
+});
@@ -0,0 +1,267 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { InjectRepository } from '@nestjs/typeorm';
+import type { Queue } from 'bull';
+import { Repository } from 'typeorm';
+import { PaymentsService } from './payments.service';
+import { AutopayService } from './autopay.service';
+import {
+  PaymentWebhookEvent,
+  WebhookEventStatus,
+} from './entities/payment-webhook-event.entity';
+import { PaymentIntent, PaymentProvider } from './interfaces/payment.interface';
+import {
+  WebhookEventQueryDto,
+  WebhookEventResponseDto,
+} from './dto/payment-webhook-event.dto';
+import {
+  PAYMENT_WEBHOOKS_QUEUE,
+  PROCESS_WEBHOOK_EVENT_JOB,
+} from './payments.constants';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export interface ProcessWebhookEventJobData {
+  webhookEventId: string;
+}
+
+/**
+ * Stores every payment provider webhook event before acting on it. An event
+ * is stored once per provider event ID, so repeated deliveries are
+ * acknowledged without being applied again, and it is applied from a queue
+ * that retries failures. Events can arrive out of order: one older than an
+ * event already applied for the same payment is ignored.
+ */
+@Injectable()
+export class PaymentWebhooksService {
+  private readonly logger = new Logger(PaymentWebhooksService.name);
+
+  constructor(
+    @InjectRepository(PaymentWebhookEvent)
+    private readonly eventRepository: Repository<PaymentWebhookEvent>,
+    @InjectQueue(PAYMENT_WEBHOOKS_QUEUE)
+    private readonly webhooksQueue: Queue<ProcessWebhookEventJobData>,
+    private readonly paymentsService: PaymentsService,
+    private readonly autopayService: AutopayService,
+  ) {}
+
+  /**
+   * Store a verified event and queue it. Returns whether it was a repeated
+   * delivery of an event already stored.
+   */
+  async receive(
+    provider: PaymentProvider,
+    rawEvent: unknown,
+  ): Promise<{ duplicate: boolean }> {
+    const event = this.paymentsService.parseWebhookEvent(provider, rawEvent);
+    const inserted = await this.eventRepository
+      .createQueryBuilder()
+      .insert()
+      .into(PaymentWebhookEvent)
+      .values({
+        provider,
+        eventId: event.id,
+        eventType: event.type,
+        objectId: event.objectId,
+        occurredAt: event.occurredAt,
+        payload: event.rawEvent as Record<string, any>,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+
+    const row = (inserted.raw as Array<{ id: string }>)[0];
+    if (row) {
+      await this.enqueue(row.id);
+      return { duplicate: false };
+    }
+
+    const existing = await this.eventRepository.findOneOrFail({
+      where: { provider, eventId: event.id },
+    });
+    this.logger.log(
+      `Repeated ${provider} webhook ${event.id} (${existing.status})`,
+    );
+    // The first delivery may have been stored without reaching the queue
+    if (existing.status === WebhookEventStatus.PENDING) {
+      await this.enqueue(existing.id);
+    }
+    return { duplicate: true };
+  }
+
+  /**
+   * Apply a stored event. Throws when it fails so the queue retries it.
+   */
+  async process(id: string): Promise<WebhookEventStatus> {
+    const event = await this.findOne(id);
+    if (
+      event.status === WebhookEventStatus.PROCESSED ||
+      event.status === WebhookEventStatus.IGNORED
+    ) {
+      return event.status;
+    }
+
+    event.attempts += 1;
+    try {
+      const { payment } = this.paymentsService.parseWebhookEvent(
+        event.provider,
+        event.payload,
+      );
+      const skipReason = payment
+        ? await this.findSkipReason(event)
+        : `No handler for ${event.eventType} events`;
+      if (skipReason || !payment) {
+        event.status = WebhookEventStatus.IGNORED;
+        event.lastError = skipReason;
+      } else {
+        await this.apply(event, payment);
+        event.status = WebhookEventStatus.PROCESSED;
+        event.lastError = null;
+      }
+      event.processedAt = new Date();
+      await this.eventRepository.save(event);
+      return event.status;
+    } catch (error) {
+      event.status = WebhookEventStatus.FAILED;
+      event.lastError = (error as Error).message;
+      await this.eventRepository.save(event);
+      this.logger.error(
+        `Failed to process ${event.provider} webhook ${event.eventId}: ${event.lastError}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Apply an event again, whatever its status. It is still ignored if a
+   * newer event for the same payment has been applied since.
+   */
+  async replay(id: string): Promise<WebhookEventResponseDto> {
+    const event = await this.findOne(id);
+    event.status = WebhookEventStatus.PENDING;
+    event.processedAt = null;
+    await this.eventRepository.save(event);
+
+    // A new job: Bull would drop a job reusing the ID of one it still holds
+    await this.webhooksQueue.add(PROCESS_WEBHOOK_EVENT_JOB, {
+      webhookEventId: event.id,
+    });
+    this.logger.log(`Replaying ${event.provider} webhook ${event.eventId}`);
+    return this.mapToResponseDto(event, true);
+  }
+
+  async findAll(
+    query: WebhookEventQueryDto,
+  ): Promise<{ data: WebhookEventResponseDto[]; total: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const [events, total] = await this.eventRepository.findAndCount({
+      where: {
+        ...(query.provider ? { provider: query.provider } : {}),
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.eventType ? { eventType: query.eventType } : {}),
+        ...(query.objectId ? { objectId: query.objectId } : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: events.map((event) => this.mapToResponseDto(event, false)),
+      total,
+    };
+  }
+
+  async findOneWithPayload(id: string): Promise<WebhookEventResponseDto> {
+    return this.mapToResponseDto(await this.findOne(id), true);
+  }
+
+  private async findOne(id: string): Promise<PaymentWebhookEvent> {
+    const event = await this.eventRepository.findOne({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundException(`Webhook event with ID "${id}" not found`);
+    }
+
+    return event;
+  }
+
+  private async enqueue(id: string): Promise<void> {
+    // The event ID as job ID keeps a repeated delivery from queueing it twice
+    await this.webhooksQueue.add(
+      PROCESS_WEBHOOK_EVENT_JOB,
+      { webhookEventId: id },
+      { jobId: id },
+    );
+  }
+
+  /**
+   * Why the event should not be applied, if it should not
+   */
+  private async findSkipReason(
+    event: PaymentWebhookEvent,
+  ): Promise<string | null> {
+    if (!event.objectId) {
+      return null;
+    }
+
+    const newer = await this.eventRepository
+      .createQueryBuilder('event')
+      .where('event.provider = :provider', { provider: event.provider })
+      .andWhere('event.object_id = :objectId', { objectId: event.objectId })
+      .andWhere('event.status = :processed', {
+        processed: WebhookEventStatus.PROCESSED,
+      })
+      .andWhere('event.occurred_at > :occurredAt', {
+        occurredAt: event.occurredAt,
+      })
+      .andWhere('event.id != :id', { id: event.id })
+      .getCount();
+
+    return newer > 0
+      ? 'A newer event for the same object was already processed'
+      : null;
+  }
+
+  private async apply(
+    event: PaymentWebhookEvent,
+    payment: PaymentIntent,
+  ): Promise<void> {
+    const confirmed = await this.paymentsService.confirmWebhookPayment(
+      event.provider,
+      payment,
+    );
+    const changed = await this.paymentsService.applyWebhookPayment(
+      event.provider,
+      confirmed,
+    );
+    if (!changed) {
+      this.logger.log(
+        `${event.provider} webhook ${event.eventId} found payment ${payment.id} already up to date`,
+      );
+    }
+    await this.autopayService.settleAttempt(event.provider, confirmed);
+  }
+
+  private mapToResponseDto(
+    event: PaymentWebhookEvent,
+    withPayload: boolean,
+  ): WebhookEventResponseDto {
+    return {
+      id: event.id,
+      provider: event.provider,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      objectId: event.objectId,
+      occurredAt: event.occurredAt,
+      status: event.status,
+      attempts: event.attempts,
+      lastError: event.lastError,
+      processedAt: event.processedAt,
+      createdAt: event.createdAt,
+      ...(withPayload ? { payload: event.payload } : {}),
+    };
+  }
+}
@@ -0,0 +1,14 @@
+export const AUTOPAY_QUEUE = 'autopay';
+
+/** Repeatable job that charges autopay invoices due today and retries failed charges */
+export const CHARGE_AUTOPAY_INVOICES_JOB = 'charge-autopay-invoices';
+
+export const PAYMENT_WEBHOOKS_QUEUE = 'payment-webhooks';
+
+/** Applies one stored webhook event; failures are retried with backoff */
+export const PROCESS_WEBHOOK_EVENT_JOB = 'process-webhook-event';
+
+export const SCHOOL_BILLING_QUEUE = 'school-billing';
+
+/** Repeatable job that retries overdue school subscriptions, sends notices and disables access */
+export const RUN_SCHOOL_DUNNING_JOB = 'run-school-dunning';
@@ -1,4 +1,22 @@
-import { Controller, Post, Get, Patch, Body, Param, Query, Headers, RawBodyRequest, Req, UseGuards, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Req,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -11,8 +29,11 @@ import {
   ApiUnauthorizedResponse,
   ApiForbiddenResponse,
   ApiInternalServerErrorResponse,
+  ApiNotFoundResponse,
 } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { PaymentWebhooksService } from './payment-webhooks.service';
 import { CreatePaymentDto, CreateCustomerDto, RefundPaymentDto, VoidPaymentDto } from './dto/create-payment.dto';
 import {
   PaymentResponseDto,
@@ -33,12 +54,22 @@ import { Transaction } from './entities/transaction.entity';
 import { SchoolPayment } from '../schools/entities/school-payment.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
 import { Public } from '../../common/decorators/public.decorator';
+import { BillingAccess } from '../../common/decorators/billing-access.decorator';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
 import { AppRole } from '../../common/enums/app-role.enum';
 
+/** Staff of a school locked out for not paying can still pay its subscription */
+function isSubscriptionPayment(request: Request): boolean {
+  const body = request.body as CreatePaymentDto | undefined;
+  const paymentType: unknown = body?.metadata?.paymentType;
+  return (
+    typeof paymentType === 'string' && paymentType.startsWith('subscription')
+  );
+}
+
 @ApiTags('Payments')
 @Controller('payments')
 export class PaymentsController {
@@ -46,6 +77,8 @@ export class PaymentsController {
 
   constructor(
     private paymentsService: PaymentsService,
+    private readonly refundsService: RefundsService,
+    private readonly paymentWebhooksService: PaymentWebhooksService,
     @InjectRepository(Subscription)
     private readonly subscriptionRepository: Repository<Subscription>,
     @InjectRepository(Transaction)
@@ -56,11 +89,49 @@ export class PaymentsController {
     private readonly schoolRepository: Repository<SchoolEntity>,
   ) {}
 
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string | null,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage payments of your own school',
+      );
+    }
+  }
+
   /**
    * Create a payment intent
    * POST /api/payments/create
    */
   @Post('create')
+  @BillingAccess(isSubscriptionPayment)
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
@@ -486,7 +557,7 @@ export class PaymentsController {
   }
 
   /**
-   * Refund a payment
+   * Request a refund of a payment
    * POST /api/payments/refund
    */
   @Post('refund')
@@ -494,42 +565,42 @@ export class PaymentsController {
   @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN)
   @ApiBearerAuth()
   @ApiOperation({
-    summary: 'Refund payment',
-    description: 'Process a full or partial refund for a completed payment. Admin only.',
+    summary: 'Request payment refund',
+    description:
+      'Request a full or partial refund for a completed payment. The refund is only sent to the provider once an owner or admin approves it through /refunds/{id}/approve. Admin only.',
   })
   @ApiBody({ type: RefundPaymentDto })
   @ApiResponse({
     status: 201,
-    description: 'Refund processed successfully',
+    description:
+      'Refund requested successfully. As before, a refund that cannot be requested also answers 201, with { success: false, error }, for example when the payment is not found or not paid, or the amount is more than is left to refund.',
     type: RefundResponseDto,
   })
-  @ApiBadRequestResponse({
-    description: 'Invalid refund data or payment cannot be refunded',
-    schema: {
-      type: 'object',
-      properties: {
-        success: { type: 'boolean', example: false },
-        error: { type: 'string', example: 'Payment already refunded' },
-      },
-    },
-  })
   @ApiUnauthorizedResponse({
     description: 'Authentication required',
   })
   @ApiForbiddenResponse({
-    description: 'Insufficient permissions. Admin role required.',
+    description:
+      "Insufficient permissions. Admin role of the payment's school required.",
   })
   async refundPayment(
     @Body() refundDto: RefundPaymentDto,
     @CurrentUser() user: AuthUser,
   ) {
-    try {
-      this.logger.log(`User ${user.email} initiating refund for ${refundDto.paymentId}`);
+    this.logger.log(
+      `User ${user.email} requesting refund for ${refundDto.paymentId}`,
+    );
 
-      const refund = await this.paymentsService.refundPayment(
+    try {
+      const transaction = await this.refundsService.findProviderTransaction(
         refundDto.provider,
         refundDto.paymentId,
-        refundDto.amount,
+      );
+      await this.ensureUserCanManageSchool(user, transaction.schoolId);
+      const refund = await this.refundsService.request(
+        transaction.id,
+        { amount: refundDto.amount, reason: refundDto.reason },
+        user.id,
       );
 
       return {
@@ -537,10 +608,14 @@ export class PaymentsController {
         data: refund,
       };
     } catch (error) {
-      this.logger.error(`Refund failed: ${error.message}`);
+      // Access is still refused with 403; other failures keep the old response
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      this.logger.error(`Refund request failed: ${(error as Error).message}`);
       return {
         success: false,
-        error: error.message,
+        error: (error as Error).message,
       };
     }
   }
@@ -551,59 +626,40 @@ export class PaymentsController {
    */
   @Public()
   @Post('webhooks/stripe')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Stripe webhook endpoint',
-    description: 'Receive and process webhook events from Stripe. This endpoint is public but requires valid Stripe signature verification.',
+    description:
+      'Receive webhook events from Stripe. This endpoint is public but requires valid Stripe signature verification. Events are stored and applied in the background; an event delivered again is acknowledged without being applied twice.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Webhook processed successfully',
+    description: 'Webhook stored',
     schema: {
       type: 'object',
       properties: {
         received: { type: 'boolean', example: true },
+        duplicate: { type: 'boolean', example: false },
       },
     },
   })
   @ApiBadRequestResponse({
     description: 'Invalid webhook signature or payload',
-    schema: {
-      type: 'object',
-      properties: {
-        received: { type: 'boolean', example: false },
-        error: { type: 'string', example: 'Invalid signature' },
-      },
-    },
   })
   async handleStripeWebhook(
     @Headers('stripe-signature') signature: string,
-    @Req() request: any,
-  ) {
-    try {
-      const event = await this.paymentsService.verifyWebhook(
-        'stripe' as any,
-        request.rawBody,
-        signature,
-      );
-
-      this.logger.log(`Stripe webhook: ${event.type}`);
-
-      // Handle different event types
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          await this.handlePaymentSuccess(event.data.object, 'stripe');
-          break;
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailed(event.data.object, 'stripe');
-          break;
-        // Add more event handlers
-      }
-
-      return { received: true };
-    } catch (error) {
-      this.logger.error(`Stripe webhook error: ${error.message}`);
-      return { received: false, error: error.message };
-    }
+    @Req() request: RawBodyRequest<Request>,
+  ): Promise<{ received: boolean; duplicate: boolean }> {
+    const event: unknown = await this.verifyWebhook(
+      PaymentProvider.STRIPE,
+      request.rawBody,
+      signature,
+    );
+    const { duplicate } = await this.paymentWebhooksService.receive(
+      PaymentProvider.STRIPE,
+      event,
+    );
+    return { received: true, duplicate };
   }
 
   /**
@@ -612,74 +668,70 @@ export class PaymentsController {
    */
   @Public()
   @Post('webhooks/cardconnect')
+  @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'CardConnect webhook endpoint',
-    description: 'Receive and process webhook events from CardConnect. This endpoint is public but requires valid CardConnect signature verification.',
+    description:
+      'Receive webhook events from CardConnect. This endpoint is public; when CARDCONNECT_WEBHOOK_SECRET is set, the x-cardconnect-signature header must carry it. A notification needs a retref and an ISO 8601 timestamp. Events are stored and applied in the background after the transaction is looked up again with CardConnect; an event delivered again is acknowledged without being applied twice.',
   })
   @ApiResponse({
     status: 200,
-    description: 'Webhook processed successfully',
+    description: 'Webhook stored',
     schema: {
       type: 'object',
       properties: {
         received: { type: 'boolean', example: true },
+        duplicate: { type: 'boolean', example: false },
       },
     },
   })
   @ApiBadRequestResponse({
     description: 'Invalid webhook signature or payload',
-    schema: {
-      type: 'object',
-      properties: {
-        received: { type: 'boolean', example: false },
-        error: { type: 'string', example: 'Invalid signature' },
-      },
-    },
   })
   async handleCardConnectWebhook(
     @Headers('x-cardconnect-signature') signature: string,
-    @Body() payload: any,
-  ) {
+    @Body() payload: Record<string, unknown>,
+  ): Promise<{ received: boolean; duplicate: boolean }> {
+    const event: unknown = await this.verifyWebhook(
+      PaymentProvider.CARDCONNECT,
+      payload,
+      signature,
+    );
+    const { duplicate } = await this.paymentWebhooksService.receive(
+      PaymentProvider.CARDCONNECT,
+      event,
+    );
+    return { received: true, duplicate };
+  }
+
+  /**
+   * Verify a webhook signature. Only a bad signature or payload is answered
+   * with 400; failing to store the event answers 5xx so the provider retries.
+   */
+  private async verifyWebhook(
+    provider: PaymentProvider,
+    payload: unknown,
+    signature: string,
+  ): Promise<unknown> {
     try {
-      const event = await this.paymentsService.verifyWebhook(
-        'cardconnect' as any,
+      return (await this.paymentsService.verifyWebhook(
+        provider,
         payload,
         signature,
-      );
-
-      this.logger.log(`CardConnect webhook received`);
-
-      // Handle CardConnect webhook events
-      await this.handlePaymentSuccess(event, 'cardconnect');
-
-      return { received: true };
+      )) as unknown;
     } catch (error) {
-      this.logger.error(`CardConnect webhook error: ${error.message}`);
-      return { received: false, error: error.message };
+      const message = (error as Error).message;
+      this.logger.error(`${provider} webhook verification failed: ${message}`);
+      throw new BadRequestException(`Invalid webhook: ${message}`);
     }
   }
 
-  /**
-   * Handle successful payment (called by webhooks)
-   */
-  private async handlePaymentSuccess(paymentData: any, provider: string) {
-    this.logger.log(`Payment succeeded via ${provider}: ${paymentData.id}`);
-    // TODO: Update database, send confirmation email, etc.
-  }
-
-  /**
-   * Handle failed payment (called by webhooks)
-   */
-  private async handlePaymentFailed(paymentData: any, provider: string) {
-    this.logger.log(`Payment failed via ${provider}: ${paymentData.id}`);
-    // TODO: Notify user, update status, etc.
-  }
-
   /**
    * Get subscriptions
    * GET /api/payments/subscriptions
    */
   @Get('subscriptions')
+  @BillingAccess()
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
@@ -830,6 +882,7 @@ export class PaymentsController {
    * GET /api/payments/school-payments
    */
   @Get('school-payments')
+  @BillingAccess()
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
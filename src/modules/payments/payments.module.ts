@@ -1,7 +1,20 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
 import { PaymentsService } from './payments.service';
 import { PaymentsController } from './payments.controller';
+import { PaymentMethodsService } from './payment-methods.service';
+import { PaymentMethodsController } from './payment-methods.controller';
+import { AutopayService } from './autopay.service';
+import { AutopayProcessor } from './autopay.processor';
+import { RefundsService } from './refunds.service';
+import { RefundsController } from './refunds.controller';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import { PaymentWebhooksController } from './payment-webhooks.controller';
+import { PaymentWebhooksProcessor } from './payment-webhooks.processor';
+import { SchoolBillingService } from './school-billing.service';
+import { SchoolBillingController } from './school-billing.controller';
+import { SchoolBillingProcessor } from './school-billing.processor';
 import { StripeProvider } from './providers/stripe.provider';
 import { CardConnectProvider } from './providers/cardconnect.provider';
 import { Transaction } from './entities/transaction.entity';
@@ -10,12 +23,25 @@ import { StripeCustomer } from './entities/stripe-customer.entity';
 import { Refund } from './entities/refund.entity';
 import { AdHocCharge } from './entities/ad-hoc-charge.entity';
 import { Payment } from './entities/payment.entity';
+import { SavedPaymentMethodEntity } from './entities/saved-payment-method.entity';
+import { AutopayEnrollment } from './entities/autopay-enrollment.entity';
+import { AutopayAttempt } from './entities/autopay-attempt.entity';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
+import { SchoolBillingNotice } from './entities/school-billing-notice.entity';
 import { SchoolPayment } from '../schools/entities/school-payment.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
 import { DatabaseService } from '../../database/database.service';
 import { Invoice } from '../invoices/entities/invoice.entity';
 import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
+import { LeadEntity } from '../leads/entities/lead.entity';
 import { MailerModule } from '../mailer/mailer.module';
+import { InvoicesModule } from '../invoices/invoices.module';
+import {
+  AUTOPAY_QUEUE,
+  PAYMENT_WEBHOOKS_QUEUE,
+  SCHOOL_BILLING_QUEUE,
+} from './payments.constants';
 
 @Module({
   imports: [
@@ -26,15 +52,47 @@ import { MailerModule } from '../mailer/mailer.module';
       Refund,
       AdHocCharge,
       Payment,
+      SavedPaymentMethodEntity,
+      AutopayEnrollment,
+      AutopayAttempt,
+      PaymentWebhookEvent,
+      SchoolBillingNotice,
       SchoolPayment,
       SchoolEntity,
+      ProfileEntity,
       Invoice,
       LeadInvoice,
+      LeadEntity,
     ]),
     MailerModule,
+    InvoicesModule,
+    BullModule.registerQueue(
+      { name: AUTOPAY_QUEUE },
+      { name: PAYMENT_WEBHOOKS_QUEUE },
+      { name: SCHOOL_BILLING_QUEUE },
+    ),
+  ],
+  controllers: [
+    PaymentsController,
+    PaymentMethodsController,
+    RefundsController,
+    PaymentWebhooksController,
+    SchoolBillingController,
+  ],
+  providers: [
+    PaymentsService,
+    StripeProvider,
+    CardConnectProvider,
+    DatabaseService,
+    PaymentMethodsService,
+    AutopayService,
+    AutopayProcessor,
+    RefundsService,
+    PaymentWebhooksService,
+    PaymentWebhooksProcessor,
+    SchoolBillingService,
+    SchoolBillingProcessor,
   ],
-  controllers: [PaymentsController],
-  providers: [PaymentsService, StripeProvider, CardConnectProvider, DatabaseService],
   exports: [PaymentsService],
 })
-export class PaymentsModule { }
\ No newline at end of file
+export class PaymentsModule {}
@@ -1,16 +1,20 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { StripeProvider } from './providers/stripe.provider';
 import { CardConnectProvider } from './providers/cardconnect.provider';
 import {
   PaymentProvider,
   PaymentStatus as ProviderPaymentStatus,
   PaymentIntent,
+  WebhookEvent,
 } from './interfaces/payment.interface';
 import {
   CreatePaymentOptions,
   CreateCustomerOptions,
+  SavePaymentMethodOptions,
+  ChargePaymentMethodOptions,
 } from './interfaces/payment-provider.interface';
 import { Transaction } from './entities/transaction.entity';
 import { Subscription } from './entities/subscription.entity';
@@ -22,6 +26,10 @@ import { SchoolEntity, SchoolSubscriptionStatus } from '../schools/entities/scho
 import { Invoice } from '../invoices/entities/invoice.entity';
 import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
 import { MailerService } from '../mailer/mailer.service';
+import { EmailAttachment } from '../mailer/interfaces/email.interface';
+import { InvoicePdfService } from '../invoices/invoice-pdf.service';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { InvoiceEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class PaymentsService {
@@ -42,6 +50,8 @@ export class PaymentsService {
     private readonly leadInvoiceRepository: Repository<LeadInvoice>,
     private readonly mailerService: MailerService,
     private readonly databaseService: DatabaseService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly invoicePdfService: InvoicePdfService,
   ) {
     this.logger.log('Payments service initialized with multiple providers');
   }
@@ -125,15 +135,170 @@ export class PaymentsService {
     return this.cardConnectProvider.voidTransaction(paymentId);
   }
 
+  /**
+   * Store a tokenized card with the provider
+   */
+  async savePaymentMethod(
+    provider: PaymentProvider,
+    options: SavePaymentMethodOptions,
+  ) {
+    this.logger.log(`Saving payment method with ${provider}`);
+    const paymentProvider = this.getProvider(provider);
+    return paymentProvider.savePaymentMethod(options);
+  }
+
+  /**
+   * Remove a stored card from the provider
+   */
+  async removePaymentMethod(
+    provider: PaymentProvider,
+    customerId: string,
+    paymentMethodId: string,
+  ) {
+    this.logger.log(
+      `Removing payment method ${paymentMethodId} from ${provider}`,
+    );
+    const paymentProvider = this.getProvider(provider);
+    return paymentProvider.removePaymentMethod(customerId, paymentMethodId);
+  }
+
+  /**
+   * Charge a stored card and record the transaction. A successful charge
+   * for an invoice marks it paid and sends the payment confirmation.
+   */
+  async chargeSavedPaymentMethod(
+    provider: PaymentProvider,
+    options: ChargePaymentMethodOptions,
+  ): Promise<{ payment: PaymentIntent; transaction: Transaction }> {
+    this.logger.log(`Charging saved payment method with ${provider}`);
+    const paymentProvider = this.getProvider(provider);
+    const payment = await paymentProvider.chargePaymentMethod(options);
+    const transaction = await this.recordTransaction(
+      provider,
+      payment,
+      options,
+    );
+
+    if (payment.status === ProviderPaymentStatus.SUCCEEDED) {
+      await this.applySubscriptionPayment(
+        options.metadata ?? {},
+        payment.amount,
+        transaction.id,
+      );
+      const invoiceId = options.metadata?.invoiceId as string | undefined;
+      const invoiceNumber = invoiceId
+        ? await this.updateInvoiceStatus(invoiceId, transaction.id)
+        : null;
+      await this.sendPaymentConfirmationEmail(
+        payment,
+        options,
+        transaction,
+        invoiceNumber ?? undefined,
+      );
+    }
+
+    return { payment, transaction };
+  }
+
   /**
    * Verify webhook from provider
    */
-  async verifyWebhook(provider: PaymentProvider, payload: any, signature: string) {
+  async verifyWebhook(
+    provider: PaymentProvider,
+    payload: any,
+    signature: string,
+  ): Promise<unknown> {
     this.logger.log(`Verifying webhook from ${provider}`);
     const paymentProvider = this.getProvider(provider);
     return paymentProvider.verifyWebhook(payload, signature);
   }
 
+  /**
+   * Normalize a verified webhook event from provider
+   */
+  parseWebhookEvent(provider: PaymentProvider, event: unknown): WebhookEvent {
+    return this.getProvider(provider).parseWebhookEvent(event);
+  }
+
+  /**
+   * The payment a webhook reported, as the provider has it now. CardConnect
+   * notifications are not signed, so their status and amount are looked up
+   * again; a failed lookup throws and the webhook is retried.
+   */
+  async confirmWebhookPayment(
+    provider: PaymentProvider,
+    payment: PaymentIntent,
+  ): Promise<PaymentIntent> {
+    if (provider !== PaymentProvider.CARDCONNECT) {
+      return payment;
+    }
+
+    const current = await this.getProvider(provider).getPayment(payment.id);
+    return { ...payment, amount: current.amount, status: current.status };
+  }
+
+  /**
+   * Bring the transaction and its invoice up to date with a payment a
+   * webhook reported. A paid or refunded transaction is never moved back,
+   * so repeated and late events change nothing. Returns whether anything
+   * changed.
+   */
+  async applyWebhookPayment(
+    provider: PaymentProvider,
+    payment: PaymentIntent,
+  ): Promise<boolean> {
+    const status = this.mapIntentStatusToDb(payment.status);
+    let transaction = await this.transactionRepository.findOne({
+      where:
+        provider === PaymentProvider.STRIPE
+          ? { stripePaymentIntentId: payment.id }
+          : { cardconnectTransactionId: payment.id },
+    });
+
+    if (transaction) {
+      if (
+        transaction.status === status ||
+        transaction.status === DbPaymentStatus.PAID ||
+        transaction.status === DbPaymentStatus.REFUNDED
+      ) {
+        return false;
+      }
+      transaction.status = status;
+      transaction = await this.transactionRepository.save(transaction);
+    } else {
+      transaction = await this.recordTransaction(provider, payment, {
+        amount: payment.amount,
+        currency: payment.currency,
+        metadata: payment.metadata,
+      });
+    }
+    this.logger.log(
+      `Transaction ${transaction.id} is ${status} after ${provider} webhook`,
+    );
+
+    if (status !== DbPaymentStatus.PAID) {
+      return true;
+    }
+    const metadata: Record<string, any> = {
+      ...payment.metadata,
+      ...transaction.metadata,
+    };
+    // A subscription paid after its due date re-enables the school's access
+    await this.applySubscriptionPayment(
+      metadata,
+      payment.amount,
+      transaction.id,
+    );
+    const invoiceId = metadata.invoiceId as string | undefined;
+    const paymentType = metadata.paymentType as string | undefined;
+    if (invoiceId && paymentType === 'lead_invoice') {
+      await this.updateLeadInvoiceStatus(invoiceId, transaction.id);
+    } else if (invoiceId && (paymentType === 'invoice' || !paymentType)) {
+      await this.updateInvoiceStatus(invoiceId, transaction.id);
+    }
+    return true;
+  }
+
   private sanitizeMetadata(metadata: Record<string, any> = {}) {
     const { cardNumber, cvv, expiry, ...rest } = metadata;
     return rest;
@@ -229,19 +394,11 @@ export class PaymentsService {
     }
 
     // Handle subscription payments - update school subscription status
-    if (metadata.paymentType && metadata.paymentType.startsWith('subscription') && metadata.schoolId) {
-      // Extract subscription type from paymentType (e.g., "subscription_monthly" -> "monthly")
-      const subscriptionType = metadata.paymentType.includes('_')
-        ? metadata.paymentType.split('_')[1]
-        : 'monthly'; // Default to monthly if not specified
-
-      await this.updateSchoolSubscriptionAfterPayment(
-        metadata.schoolId,
-        options.amount,
-        subscriptionType,
-        transaction.id,
-      );
-    }
+    await this.applySubscriptionPayment(
+      metadata,
+      options.amount,
+      transaction.id,
+    );
 
     // Handle standard invoice payments
     let invoiceNumber = metadata.invoiceNumber;
@@ -267,11 +424,23 @@ export class PaymentsService {
     try {
       const invoice = await this.invoiceRepository.findOne({ where: { id: invoiceId } });
       if (invoice) {
+        // A repeated payment notice must not mark the invoice paid again
+        if (
+          invoice.status === DbPaymentStatus.PAID ||
+          invoice.status === DbPaymentStatus.REFUNDED
+        ) {
+          return invoice.invoiceNumber;
+        }
         invoice.status = DbPaymentStatus.PAID;
         invoice.paymentDate = new Date();
         invoice.transactionId = transactionId;
         await this.invoiceRepository.save(invoice);
         this.logger.log(`Invoice ${invoiceId} marked as paid`);
+        this.eventEmitter.emit(DomainEvent.INVOICE_PAID, {
+          invoiceId,
+          schoolId: invoice.schoolId,
+          source: 'invoice',
+        } satisfies InvoiceEvent);
         return invoice.invoiceNumber;
       }
     } catch (error) {
@@ -284,11 +453,19 @@ export class PaymentsService {
     try {
       const leadInvoice = await this.leadInvoiceRepository.findOne({ where: { id: invoiceId } });
       if (leadInvoice) {
+        if (leadInvoice.status === 'paid' || leadInvoice.status === 'refunded') {
+          return leadInvoice.invoiceNumber;
+        }
         leadInvoice.status = 'paid';
         leadInvoice.paidAt = new Date();
         // Assuming there's a way to store transaction ID or just mark as paid
         await this.leadInvoiceRepository.save(leadInvoice);
         this.logger.log(`Lead Invoice ${invoiceId} marked as paid`);
+        this.eventEmitter.emit(DomainEvent.INVOICE_PAID, {
+          invoiceId,
+          schoolId: leadInvoice.schoolId,
+          source: 'lead_invoice',
+        } satisfies InvoiceEvent);
         return leadInvoice.invoiceNumber;
       }
     } catch (error) {
@@ -336,6 +513,7 @@ export class PaymentsService {
         invoiceNumber: invoiceNumber || metadata.invoiceNumber || metadata.invoiceId,
         schoolId: metadata.schoolId,
         userId: metadata.userId,
+        attachments: await this.findReceiptAttachments(metadata),
       });
 
       this.logger.log(`Payment confirmation email sent to ${recipientEmail}`);
@@ -344,6 +522,63 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Receipt PDF of the invoice a payment paid. The confirmation goes out
+   * without it if it cannot be rendered.
+   */
+  private async findReceiptAttachments(
+    metadata: Record<string, any>,
+  ): Promise<EmailAttachment[]> {
+    const invoiceId = metadata.invoiceId as string | undefined;
+    if (!invoiceId || metadata.paymentType === 'lead_invoice') {
+      return [];
+    }
+
+    try {
+      const invoice = await this.invoiceRepository.findOne({
+        where: { id: invoiceId },
+        relations: ['items', 'school'],
+      });
+      if (!invoice || !this.invoicePdfService.hasReceipt(invoice)) {
+        return [];
+      }
+      return [
+        await this.invoicePdfService.renderAttachment(invoice, 'receipt'),
+      ];
+    } catch (error) {
+      this.logger.error(
+        `Failed to render receipt of invoice ${invoiceId}: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Extend the school's subscription when the payment was for one
+   */
+  private async applySubscriptionPayment(
+    metadata: Record<string, any>,
+    amount: number,
+    transactionId: string,
+  ): Promise<void> {
+    const paymentType = metadata.paymentType as string | undefined;
+    if (!paymentType?.startsWith('subscription') || !metadata.schoolId) {
+      return;
+    }
+
+    // Extract subscription type from paymentType (e.g., "subscription_monthly" -> "monthly")
+    const subscriptionType = paymentType.includes('_')
+      ? paymentType.split('_')[1]
+      : 'monthly'; // Default to monthly if not specified
+
+    await this.updateSchoolSubscriptionAfterPayment(
+      metadata.schoolId as string,
+      amount,
+      subscriptionType,
+      transactionId,
+    );
+  }
+
   /**
    * Update school subscription after successful payment
    * Extends the existing subscription period or creates a new one
@@ -412,6 +647,7 @@ export class PaymentsService {
       }
 
       // Update school subscription
+      const wasDisabled = school.accessDisabled;
       school.subscriptionStatus = SchoolSubscriptionStatus.ACTIVE;
       school.lastPaymentDate = now;
       school.nextPaymentDue = nextPaymentDue;
@@ -422,6 +658,11 @@ export class PaymentsService {
 
       await this.schoolRepository.save(school);
 
+      if (wasDisabled) {
+        this.logger.log(
+          `Re-enabled access of school ${schoolId} after payment`,
+        );
+      }
       this.logger.log(
         `Updated school ${schoolId} subscription: ${months} months (${paymentType}), next payment due: ${nextPaymentDue.toISOString()}, last payment: ${now.toISOString()}`,
       );
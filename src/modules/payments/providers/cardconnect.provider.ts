@@ -1,7 +1,22 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { createHash, timingSafeEqual } from 'crypto';
 import { ConfigService } from '@nestjs/config';
-import { IPaymentProvider, CreatePaymentOptions, CreateCustomerOptions } from '../interfaces/payment-provider.interface';
-import { PaymentIntent, PaymentCustomer, PaymentProvider, PaymentStatus, RefundResult } from '../interfaces/payment.interface';
+import {
+  IPaymentProvider,
+  CreatePaymentOptions,
+  CreateCustomerOptions,
+  SavePaymentMethodOptions,
+  ChargePaymentMethodOptions,
+} from '../interfaces/payment-provider.interface';
+import {
+  PaymentIntent,
+  PaymentCustomer,
+  PaymentProvider,
+  PaymentStatus,
+  RefundResult,
+  SavedPaymentMethod,
+  WebhookEvent,
+} from '../interfaces/payment.interface';
 
 interface CardConnectConfig {
   apiUrl: string;
@@ -30,6 +45,22 @@ interface CardConnectResponse {
   invoiceid?: string;
 }
 
+/** A transaction update CardConnect posts to the webhook */
+interface CardConnectNotification extends CardConnectResponse {
+  retref: string;
+  timestamp: string; // ISO 8601 time the update was sent
+}
+
+interface CardConnectProfileResponse {
+  profileid?: string;
+  acctid?: string;
+  respstat?: string;
+  resptext?: string;
+  token?: string;
+  expiry?: string; // MMYY
+  accttype?: string; // Card brand, e.g. VISA
+}
+
 @Injectable()
 export class CardConnectProvider implements IPaymentProvider {
   private readonly logger = new Logger(CardConnectProvider.name);
@@ -370,6 +401,168 @@ export class CardConnectProvider implements IPaymentProvider {
     }
   }
 
+  /**
+   * Store a tokenized card as an account of the customer's profile,
+   * opening the profile for the first card
+   */
+  async savePaymentMethod(
+    options: SavePaymentMethodOptions,
+  ): Promise<SavedPaymentMethod> {
+    try {
+      const payload = {
+        merchid: this.config.mid,
+        account: options.token,
+        expiry: options.expiry?.replace(/\D/g, '').slice(0, 4),
+        name: options.name,
+        email: options.email,
+        ...(options.customerId
+          ? { profile: options.customerId, profileupdate: 'Y' }
+          : {}),
+      };
+
+      const response = await fetch(this.getEndpoint('profile'), {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `CardConnect profile error: ${response.status} - ${errorText}`,
+        );
+      }
+
+      const data = (await response.json()) as CardConnectProfileResponse;
+      if (data.respstat !== 'A' || !data.profileid || !data.acctid) {
+        throw new Error(data.resptext || 'Card could not be saved');
+      }
+
+      const expiry = data.expiry ?? payload.expiry;
+      return {
+        id: data.acctid,
+        provider: PaymentProvider.CARDCONNECT,
+        customerId: data.profileid,
+        brand: data.accttype?.toLowerCase(),
+        // Tokens keep the card's last four digits
+        last4: (data.token ?? options.token).slice(-4),
+        expMonth: expiry ? Number(expiry.slice(0, 2)) : undefined,
+        expYear: expiry ? 2000 + Number(expiry.slice(2, 4)) : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `CardConnect save card failed: ${(error as Error).message}`,
+      );
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  /**
+   * Delete a stored account from the customer's profile
+   */
+  async removePaymentMethod(
+    customerId: string,
+    paymentMethodId: string,
+  ): Promise<void> {
+    try {
+      const response = await fetch(
+        this.getEndpoint(
+          `profile/${customerId}/${paymentMethodId}/${this.config.mid}`,
+        ),
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: this.getAuthHeader(),
+          },
+        },
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `CardConnect profile error: ${response.status} - ${errorText}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `CardConnect remove card failed: ${(error as Error).message}`,
+      );
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  /**
+   * Charge a stored account as a scheduled card-on-file payment
+   */
+  async chargePaymentMethod(
+    options: ChargePaymentMethodOptions,
+  ): Promise<PaymentIntent> {
+    try {
+      const metadata: Record<string, unknown> = options.metadata || {};
+      const payload = {
+        merchid: this.config.mid,
+        profile: `${options.customerId}/${options.paymentMethodId}`,
+        amount: (options.amount / 100).toFixed(2),
+        currency: (options.currency || 'USD').toUpperCase(),
+        capture: 'Y',
+        ecomind: 'R', // Recurring
+        cof: 'M', // Merchant-initiated card-on-file charge
+        cofscheduled: 'Y',
+        invoiceid: metadata.invoiceId as string | undefined,
+        orderid:
+          (metadata.orderId as string | undefined) || this.generateOrderId(),
+      };
+
+      const response = await fetch(this.getEndpoint('auth'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: this.getAuthHeader(),
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `CardConnect API error: ${response.status} - ${errorText}`,
+        );
+      }
+
+      const data = (await response.json()) as CardConnectResponse;
+      if (data.respstat !== 'A') {
+        throw new Error(data.resptext || data.respmsg || 'Payment declined');
+      }
+
+      return {
+        id: data.retref || '',
+        provider: PaymentProvider.CARDCONNECT,
+        amount: options.amount,
+        currency: options.currency || 'usd',
+        status: this.mapStatus(data.respstat),
+        metadata: {
+          ...metadata,
+          orderId: payload.orderid,
+          respstat: data.respstat,
+          respcode: data.respcode,
+          resptext: data.resptext,
+          authcode: data.authcode,
+          retref: data.retref,
+          account: data.account,
+        },
+        createdAt: new Date(),
+      };
+    } catch (error) {
+      this.logger.error(
+        `CardConnect stored card charge failed: ${(error as Error).message}`,
+      );
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
   /**
    * Refund payment
    */
@@ -451,13 +644,86 @@ export class CardConnectProvider implements IPaymentProvider {
   }
 
   /**
-   * Verify webhook (CardConnect doesn't have webhook signature verification)
+   * CardConnect does not sign its notifications. When
+   * CARDCONNECT_WEBHOOK_SECRET is set, a notification must send the same
+   * secret in its signature header. Either way the payment it reports is
+   * looked up again before it changes anything.
+   */
+  verifyWebhook(
+    payload: unknown,
+    signature: string,
+  ): Promise<CardConnectNotification> {
+    const secret = this.configService.get<string>('CARDCONNECT_WEBHOOK_SECRET');
+    if (secret && !this.matchesSecret(signature, secret)) {
+      return Promise.reject(new Error('Webhook secret does not match'));
+    }
+    try {
+      return Promise.resolve(this.toNotification(payload));
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  /**
+   * CardConnect notifications carry no event ID, so a delivery is
+   * identified by the transaction, the status it reports and when it was
+   * sent
+   */
+  parseWebhookEvent(event: unknown): WebhookEvent {
+    const payload = this.toNotification(event);
+    const status = this.mapStatus(payload.respstat);
+    const occurredAt = new Date(payload.timestamp);
+
+    return {
+      provider: PaymentProvider.CARDCONNECT,
+      id: `${payload.retref}:${payload.respstat ?? 'none'}:${occurredAt.getTime()}`,
+      type: `transaction.${status}`,
+      objectId: payload.retref,
+      occurredAt,
+      payment: {
+        id: payload.retref,
+        provider: PaymentProvider.CARDCONNECT,
+        amount: Math.round(parseFloat(payload.amount || '0') * 100),
+        currency: 'usd',
+        status,
+        metadata: { orderId: payload.orderid },
+        createdAt: occurredAt,
+      },
+      data: payload,
+      rawEvent: payload,
+    };
+  }
+
+  /**
+   * Check a notification has the transaction and send time it is
+   * identified by
    */
-  async verifyWebhook(payload: any, signature: string): Promise<any> {
-    this.logger.log('CardConnect webhook received');
-    // CardConnect doesn't provide signature verification
-    // You may want to implement IP whitelisting or other security measures
-    return payload;
+  private toNotification(payload: unknown): CardConnectNotification {
+    if (typeof payload !== 'object' || payload === null) {
+      throw new BadRequestException(
+        'CardConnect webhook payload must be an object',
+      );
+    }
+    const { retref, timestamp } = payload as Record<string, unknown>;
+    if (typeof retref !== 'string' || retref.length === 0) {
+      throw new BadRequestException('CardConnect webhook has no retref');
+    }
+    if (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp))) {
+      throw new BadRequestException(
+        'CardConnect webhook has no valid timestamp',
+      );
+    }
+    return payload as CardConnectNotification;
+  }
+
+  private matchesSecret(
+    signature: string | undefined,
+    secret: string,
+  ): boolean {
+    // Comparing digests keeps the comparison constant-time whatever the length
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(signature ?? ''), digest(secret));
   }
 
   /**
@@ -476,6 +742,16 @@ export class CardConnectProvider implements IPaymentProvider {
     }
   }
 
+  /**
+   * API URL for a path, without doubled slashes
+   */
+  private getEndpoint(path: string): string {
+    const apiUrl = this.config.apiUrl.endsWith('/')
+      ? this.config.apiUrl.slice(0, -1)
+      : this.config.apiUrl;
+    return `${apiUrl}/${path}`;
+  }
+
   /**
    * Generate unique order ID
    */
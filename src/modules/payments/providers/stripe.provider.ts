@@ -1,8 +1,22 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Stripe from 'stripe';
-import { IPaymentProvider, CreatePaymentOptions, CreateCustomerOptions } from '../interfaces/payment-provider.interface';
-import { PaymentIntent, PaymentCustomer, PaymentProvider, PaymentStatus, RefundResult } from '../interfaces/payment.interface';
+import {
+  IPaymentProvider,
+  CreatePaymentOptions,
+  CreateCustomerOptions,
+  SavePaymentMethodOptions,
+  ChargePaymentMethodOptions,
+} from '../interfaces/payment-provider.interface';
+import {
+  PaymentIntent,
+  PaymentCustomer,
+  PaymentProvider,
+  PaymentStatus,
+  RefundResult,
+  SavedPaymentMethod,
+  WebhookEvent,
+} from '../interfaces/payment.interface';
 
 @Injectable()
 export class StripeProvider implements IPaymentProvider {
@@ -114,6 +128,86 @@ export class StripeProvider implements IPaymentProvider {
     }
   }
 
+  async savePaymentMethod(
+    options: SavePaymentMethodOptions,
+  ): Promise<SavedPaymentMethod> {
+    if (!options.customerId) {
+      throw new Error('A Stripe customer is required to save a payment method');
+    }
+
+    try {
+      const paymentMethod = await this.stripe.paymentMethods.attach(
+        options.token,
+        { customer: options.customerId },
+      );
+
+      return {
+        id: paymentMethod.id,
+        provider: PaymentProvider.STRIPE,
+        customerId: options.customerId,
+        brand: paymentMethod.card?.brand,
+        last4: paymentMethod.card?.last4,
+        expMonth: paymentMethod.card?.exp_month,
+        expYear: paymentMethod.card?.exp_year,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Stripe payment method attach failed: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  async removePaymentMethod(
+    customerId: string,
+    paymentMethodId: string,
+  ): Promise<void> {
+    try {
+      await this.stripe.paymentMethods.detach(paymentMethodId);
+    } catch (error) {
+      this.logger.error(
+        `Stripe payment method detach failed for customer ${customerId}: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Confirms immediately; a card that needs the customer to authenticate
+   * fails rather than waiting for them
+   */
+  async chargePaymentMethod(
+    options: ChargePaymentMethodOptions,
+  ): Promise<PaymentIntent> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.create({
+        amount: options.amount,
+        currency: options.currency || 'usd',
+        customer: options.customerId,
+        payment_method: options.paymentMethodId,
+        off_session: true,
+        confirm: true,
+        metadata: options.metadata || {},
+        description: options.description,
+      });
+
+      return {
+        id: paymentIntent.id,
+        provider: PaymentProvider.STRIPE,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: this.mapStripeStatus(paymentIntent.status),
+        metadata: paymentIntent.metadata,
+        createdAt: new Date(paymentIntent.created * 1000),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Stripe off-session charge failed: ${(error as Error).message}`,
+      );
+      throw error;
+    }
+  }
+
   async refundPayment(paymentId: string, amount?: number): Promise<RefundResult> {
     try {
       const refund = await this.stripe.refunds.create({
@@ -145,6 +239,59 @@ export class StripeProvider implements IPaymentProvider {
     }
   }
 
+  parseWebhookEvent(rawEvent: unknown): WebhookEvent {
+    const event = this.toStripeEvent(rawEvent);
+    const object = event.data.object as { id?: string };
+    let payment: PaymentIntent | undefined;
+    if (event.type.startsWith('payment_intent.')) {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent;
+      payment = {
+        id: paymentIntent.id,
+        provider: PaymentProvider.STRIPE,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        // A failed attempt leaves the intent waiting for another payment method
+        status:
+          event.type === 'payment_intent.payment_failed'
+            ? PaymentStatus.FAILED
+            : this.mapStripeStatus(paymentIntent.status),
+        metadata: paymentIntent.metadata,
+        createdAt: new Date(paymentIntent.created * 1000),
+      };
+    }
+
+    return {
+      provider: PaymentProvider.STRIPE,
+      id: event.id,
+      type: event.type,
+      objectId: object.id ?? null,
+      occurredAt: new Date(event.created * 1000),
+      payment,
+      data: event.data.object,
+      rawEvent: event,
+    };
+  }
+
+  /**
+   * Check a verified or stored event has the fields it is parsed by
+   */
+  private toStripeEvent(event: unknown): Stripe.Event {
+    const { id, type, created, data } = (event ?? {}) as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof id !== 'string' ||
+      typeof type !== 'string' ||
+      typeof created !== 'number' ||
+      typeof data !== 'object' ||
+      data === null
+    ) {
+      throw new BadRequestException('Not a Stripe event');
+    }
+    return event as Stripe.Event;
+  }
+
   private mapStripeStatus(status: string): PaymentStatus {
     const statusMap = {
       'requires_payment_method': PaymentStatus.PENDING,
@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RefundsService } from './refunds.service';
+import {
+  ApproveRefundDto,
+  CreateRefundRequestDto,
+  RefundQueryDto,
+  RefundRequestResponseDto,
+  RejectRefundDto,
+} from './dto/refund-request.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
+import { Refund } from './entities/refund.entity';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+const STAFF_ROLES = [
+  AppRole.SUPER_ADMIN,
+  AppRole.SCHOOL_OWNER,
+  AppRole.SCHOOL_ADMIN,
+  AppRole.ADMISSIONS_STAFF,
+];
+
+@ApiTags('Refunds')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@SchoolResource(Refund)
+@Controller('refunds')
+export class RefundsController {
+  constructor(
+    private readonly refundsService: RefundsService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string | null,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only manage refunds of your own school',
+      );
+    }
+  }
+
+  /**
+   * Refunds need a second person to approve them, unless the requester is
+   * the school's owner or a super admin
+   */
+  private async ensureUserCanApprove(
+    user: AuthUser,
+    requestedBy: string | null,
+    schoolId: string | null,
+  ): Promise<void> {
+    if (requestedBy !== user.id || user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    // A refund outside any school has no owner who may approve their own
+    const isOwner = schoolId
+      ? await this.schoolRepository.count({
+          where: { id: schoolId, ownerId: user.id },
+        })
+      : 0;
+    if (isOwner === 0) {
+      throw new ForbiddenException(
+        'A refund must be approved by someone other than its requester',
+      );
+    }
+  }
+
+  @Get()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'List refunds',
+    description:
+      'Newest first. Filter by status=pending for the requests waiting for approval.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refunds retrieved successfully',
+    type: [RefundRequestResponseDto],
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  async findAll(
+    @Query() query: RefundQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ data: RefundRequestResponseDto[]; total: number }> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.refundsService.findAll(schoolId!, query);
+  }
+
+  @Post()
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({
+    summary: 'Request a refund',
+    description:
+      'Asks for a full or partial refund of a paid transaction. Nothing is paid back until an owner or admin approves the request.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund requested',
+    type: RefundRequestResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description:
+      'Transaction is not paid or the amount is more than is left to refund',
+  })
+  @ApiNotFoundResponse({ description: 'Transaction not found' })
+  async request(
+    @Body() dto: CreateRefundRequestDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RefundRequestResponseDto> {
+    const transaction = await this.refundsService.findTransaction(
+      dto.transactionId,
+    );
+    await this.ensureUserCanManageSchool(user, transaction.schoolId);
+    return this.refundsService.request(transaction.id, dto, user.id);
+  }
+
+  @Get(':id')
+  @Roles(...STAFF_ROLES)
+  @ApiOperation({ summary: 'Get a refund' })
+  @ApiParam({ name: 'id', description: 'Refund ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund retrieved successfully',
+    type: RefundRequestResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Refund not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.refundsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, refund.schoolId);
+    return this.refundsService.getDetails(refund);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_OWNER, AppRole.SCHOOL_ADMIN)
+  @ApiOperation({
+    summary: 'Approve a refund',
+    description:
+      'Sends the refund to the payment provider. Once the whole transaction is refunded, the transaction and its invoice are marked refunded; the refund is posted to the family ledger either way. Only the school owner or a super admin can approve a refund they requested.',
+  })
+  @ApiParam({ name: 'id', description: 'Refund ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund processed',
+    type: RefundRequestResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Refund is not pending or the provider refused it',
+  })
+  @ApiNotFoundResponse({ description: 'Refund not found' })
+  async approve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ApproveRefundDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.refundsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, refund.schoolId);
+    await this.ensureUserCanApprove(user, refund.requestedBy, refund.schoolId);
+    return this.refundsService.approve(id, user.id, dto.note);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_OWNER, AppRole.SCHOOL_ADMIN)
+  @ApiOperation({ summary: 'Reject a refund' })
+  @ApiParam({ name: 'id', description: 'Refund ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund rejected',
+    type: RefundRequestResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Refund is not pending' })
+  @ApiNotFoundResponse({ description: 'Refund not found' })
+  async reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RejectRefundDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.refundsService.findOne(id);
+    await this.ensureUserCanManageSchool(user, refund.schoolId);
+    return this.refundsService.reject(id, user.id, dto.note);
+  }
+}
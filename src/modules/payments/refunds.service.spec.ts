@@ -0,0 +1,242 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource, FindOperator } from 'typeorm';
+import { RefundsService } from './refunds.service';
+import { PaymentsService } from './payments.service';
+import { Refund, RefundStatus } from './entities/refund.entity';
+import { Transaction } from './entities/transaction.entity';
+import { PaymentProvider } from './interfaces/payment.interface';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+
+const TRANSACTION_ID = 'transaction-1';
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let refunds: Refund[];
+  let transaction: Transaction | null;
+  const refundPayment = jest.fn();
+
+  beforeEach(async () => {
+    refunds = [];
+    transaction = {
+      id: TRANSACTION_ID,
+      schoolId: 'school-1',
+      amount: 10000,
+      status: PaymentStatus.PAID,
+      stripePaymentIntentId: 'pi_123',
+      cardconnectTransactionId: null,
+      metadata: { invoiceId: 'invoice-1' },
+    } as unknown as Transaction;
+    refundPayment.mockReset();
+
+    type RefundFilter = { transactionId: string; status: unknown };
+    const matches = (refund: Refund, where: RefundFilter) => {
+      const statuses =
+        where.status instanceof FindOperator
+          ? (where.status.value as RefundStatus[])
+          : [where.status as RefundStatus];
+      return (
+        refund.transactionId === where.transactionId &&
+        statuses.includes(refund.status)
+      );
+    };
+    const sum = (where: RefundFilter) => {
+      const amounts = refunds
+        .filter((refund) => matches(refund, where))
+        .map((refund) => refund.amount);
+      return Promise.resolve(
+        amounts.length ? amounts.reduce((a, b) => a + b, 0) : null,
+      );
+    };
+    const manager = {
+      findOne: () => Promise.resolve(transaction),
+      sum: (_entity: unknown, _column: string, where: RefundFilter) =>
+        sum(where),
+      create: (_entity: unknown, data: Partial<Refund>) => ({ ...data }),
+      save: (entity: Refund | Transaction) => {
+        if ('requestedBy' in entity && !entity.id) {
+          entity.id = `refund-${refunds.length + 1}`;
+          refunds.push(entity);
+        }
+        return Promise.resolve(entity);
+      },
+      update: () => Promise.resolve({}),
+    };
+
+    let update: Partial<Refund> = {};
+    let updateId: string;
+    const updateBuilder = {
+      update: () => updateBuilder,
+      set: (values: Partial<Refund>) => {
+        update = values;
+        return updateBuilder;
+      },
+      where: (_sql: string, params: { id: string }) => {
+        updateId = params.id;
+        return updateBuilder;
+      },
+      andWhere: () => updateBuilder,
+      execute: () => {
+        const refund = refunds.find(
+          (candidate) =>
+            candidate.id === updateId &&
+            candidate.status === RefundStatus.PENDING,
+        );
+        if (refund) {
+          Object.assign(refund, { ...update, processedAt: new Date() });
+        }
+        return Promise.resolve({ affected: refund ? 1 : 0 });
+      },
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        {
+          provide: getRepositoryToken(Refund),
+          useValue: {
+            createQueryBuilder: () => updateBuilder,
+            findOne: ({ where }: { where: { id: string } }) =>
+              Promise.resolve(
+                refunds.find((refund) => refund.id === where.id) ?? null,
+              ),
+            update: (id: string, values: Partial<Refund>) => {
+              Object.assign(
+                refunds.find((refund) => refund.id === id)!,
+                values,
+              );
+              return Promise.resolve({});
+            },
+            save: (refund: Refund) => Promise.resolve(refund),
+            sum: (_column: string, where: RefundFilter) => sum(where),
+          },
+        },
+        {
+          provide: getRepositoryToken(Transaction),
+          useValue: { findOne: () => Promise.resolve(transaction) },
+        },
+        { provide: PaymentsService, useValue: { refundPayment } },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        {
+          provide: DataSource,
+          useValue: {
+            transaction: (work: (entityManager: typeof manager) => unknown) =>
+              work(manager),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RefundsService);
+  });
+
+  describe('reserving the amount', () => {
+    it('refunds the whole transaction by default', async () => {
+      const refund = await service.request(TRANSACTION_ID, {}, 'staff-1');
+
+      expect(refund).toMatchObject({
+        amount: 10000,
+        status: RefundStatus.PENDING,
+        provider: PaymentProvider.STRIPE,
+        invoiceId: 'invoice-1',
+      });
+    });
+
+    it('counts pending requests against the amount left', async () => {
+      await service.request(TRANSACTION_ID, { amount: 3000 }, 'staff-1');
+
+      await expect(
+        service.request(TRANSACTION_ID, { amount: 8000 }, 'staff-2'),
+      ).rejects.toThrow(
+        'Only 7000 cents of the transaction can still be refunded',
+      );
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-2'),
+      ).resolves.toMatchObject({ amount: 7000 });
+      await expect(
+        service.request(TRANSACTION_ID, { amount: 1 }, 'staff-3'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('frees the amount of rejected requests', async () => {
+      const first = await service.request(TRANSACTION_ID, {}, 'staff-1');
+      await service.reject(first.id, 'owner-1', 'Not eligible');
+
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).resolves.toMatchObject({ amount: 10000 });
+    });
+
+    it('frees the amount of refunds the provider refuses', async () => {
+      refundPayment.mockResolvedValue({ id: 're_1', status: 'failed' });
+      const first = await service.request(TRANSACTION_ID, {}, 'staff-1');
+
+      await expect(service.approve(first.id, 'owner-1')).rejects.toThrow(
+        'Refund failed: Refund failed',
+      );
+      expect(refunds[0].status).toBe(RefundStatus.FAILED);
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).resolves.toMatchObject({ amount: 10000 });
+    });
+
+    it('keeps processed refunds reserved', async () => {
+      refundPayment.mockResolvedValue({ id: 're_1', status: 'succeeded' });
+      const first = await service.request(
+        TRANSACTION_ID,
+        { amount: 4000 },
+        'staff-1',
+      );
+      await service.approve(first.id, 'owner-1');
+
+      expect(refundPayment).toHaveBeenCalledWith(
+        PaymentProvider.STRIPE,
+        'pi_123',
+        4000,
+      );
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).resolves.toMatchObject({ amount: 6000 });
+    });
+  });
+
+  describe('eligibility', () => {
+    it('rejects unknown transactions', async () => {
+      transaction = null;
+
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('rejects transactions that are not paid', async () => {
+      transaction!.status = PaymentStatus.PENDING;
+
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).rejects.toThrow('Only paid transactions can be refunded');
+    });
+
+    it('rejects transactions paid outside a provider', async () => {
+      transaction!.stripePaymentIntentId = null;
+
+      await expect(
+        service.request(TRANSACTION_ID, {}, 'staff-1'),
+      ).rejects.toThrow(
+        'The transaction was not paid through a payment provider',
+      );
+    });
+  });
+
+  it('lets only one reviewer decide a refund', async () => {
+    const refund = await service.request(TRANSACTION_ID, {}, 'staff-1');
+    await service.reject(refund.id, 'owner-1', 'Duplicate');
+
+    await expect(service.approve(refund.id, 'admin-1')).rejects.toThrow(
+      'Refund is rejected; only pending refunds can be approved or rejected',
+    );
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+});
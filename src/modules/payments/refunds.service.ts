@@ -0,0 +1,385 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource, In, Repository } from 'typeorm';
+import { PaymentsService } from './payments.service';
+import {
+  OPEN_REFUND_STATUSES,
+  Refund,
+  RefundStatus,
+} from './entities/refund.entity';
+import { Transaction } from './entities/transaction.entity';
+import { PaymentProvider, RefundResult } from './interfaces/payment.interface';
+import { RefundRequestResponseDto } from './dto/refund-request.dto';
+import { Invoice } from '../invoices/entities/invoice.entity';
+import { LeadInvoice } from '../leads/entities/lead-invoice.entity';
+import { PaymentStatus } from '../../common/enums/payment-status.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { RefundProcessedEvent } from '../../common/interfaces/domain-event.interface';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Provider refund statuses that mean no money moved */
+const FAILED_PROVIDER_REFUND_STATUSES = ['failed', 'canceled'];
+
+/**
+ * Refunds go through an approval step: staff request a full or partial
+ * refund of a paid transaction, and an owner or admin approves or rejects
+ * it. The provider is only called on approval, after which the
+ * transaction, its invoice and the family ledger are updated.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    @InjectRepository(Refund)
+    private readonly refundRepository: Repository<Refund>,
+    @InjectRepository(Transaction)
+    private readonly transactionRepository: Repository<Transaction>,
+    private readonly paymentsService: PaymentsService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async findAll(
+    schoolId: string,
+    options: {
+      status?: RefundStatus;
+      transactionId?: string;
+      page?: number;
+      limit?: number;
+    } = {},
+  ): Promise<{ data: RefundRequestResponseDto[]; total: number }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const [refunds, total] = await this.refundRepository.findAndCount({
+      where: {
+        schoolId,
+        ...(options.status ? { status: options.status } : {}),
+        ...(options.transactionId
+          ? { transactionId: options.transactionId }
+          : {}),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data: refunds.map((refund) => this.mapToResponseDto(refund)),
+      total,
+    };
+  }
+
+  async findOne(id: string): Promise<Refund> {
+    const refund = await this.refundRepository.findOne({ where: { id } });
+
+    if (!refund) {
+      throw new NotFoundException(`Refund with ID "${id}" not found`);
+    }
+
+    return refund;
+  }
+
+  getDetails(refund: Refund): RefundRequestResponseDto {
+    return this.mapToResponseDto(refund);
+  }
+
+  async findTransaction(id: string): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { id },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(`Transaction with ID "${id}" not found`);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Find the transaction a provider payment was recorded as
+   */
+  async findProviderTransaction(
+    provider: PaymentProvider,
+    paymentId: string,
+  ): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findOne({
+      where:
+        provider === PaymentProvider.STRIPE
+          ? { stripePaymentIntentId: paymentId }
+          : { cardconnectTransactionId: paymentId },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException(
+        `Transaction for ${provider} payment "${paymentId}" not found`,
+      );
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Ask for a refund. Requests waiting for approval count against the
+   * amount left to refund, so two requests cannot refund the same money.
+   */
+  async request(
+    transactionId: string,
+    options: { amount?: number; reason?: string | null },
+    userId: string,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.dataSource.transaction(async (manager) => {
+      const transaction = await manager.findOne(Transaction, {
+        where: { id: transactionId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!transaction) {
+        throw new NotFoundException(
+          `Transaction with ID "${transactionId}" not found`,
+        );
+      }
+      if (transaction.status !== PaymentStatus.PAID) {
+        throw new BadRequestException('Only paid transactions can be refunded');
+      }
+      const provider = this.findProvider(transaction);
+      if (!provider) {
+        throw new BadRequestException(
+          'The transaction was not paid through a payment provider',
+        );
+      }
+
+      const reserved = await manager.sum(Refund, 'amount', {
+        transactionId,
+        status: In(OPEN_REFUND_STATUSES),
+      });
+      const remaining = transaction.amount - (reserved ?? 0);
+      const amount = options.amount ?? remaining;
+      if (remaining <= 0 || amount > remaining) {
+        throw new BadRequestException(
+          `Only ${Math.max(remaining, 0)} cents of the transaction can still be refunded`,
+        );
+      }
+
+      const invoiceId = transaction.metadata?.invoiceId as string | undefined;
+      return manager.save(
+        manager.create(Refund, {
+          transactionId,
+          schoolId: transaction.schoolId,
+          invoiceId: invoiceId ?? null,
+          invoiceSource: invoiceId
+            ? transaction.metadata.paymentType === 'lead_invoice'
+              ? 'lead_invoice'
+              : 'invoice'
+            : null,
+          provider,
+          amount,
+          reason: options.reason ?? null,
+          status: RefundStatus.PENDING,
+          requestedBy: userId,
+        }),
+      );
+    });
+
+    this.logger.log(
+      `Refund of ${refund.amount} cents requested for transaction ${transactionId} by user ${userId}`,
+    );
+    return this.mapToResponseDto(refund);
+  }
+
+  /**
+   * Approve a pending refund and send it to the provider. A refund the
+   * provider refuses is marked failed and can be requested again.
+   */
+  async approve(
+    id: string,
+    userId: string,
+    note?: string,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.claim(id, RefundStatus.APPROVED, userId, note);
+    const transaction = refund.transactionId
+      ? await this.transactionRepository.findOne({
+          where: { id: refund.transactionId },
+        })
+      : null;
+    const paymentId = transaction
+      ? (transaction.stripePaymentIntentId ??
+        transaction.cardconnectTransactionId)
+      : null;
+
+    if (!transaction || !refund.provider || !paymentId) {
+      return this.markFailed(
+        refund,
+        'The transaction has no provider payment to refund',
+      );
+    }
+
+    let result: RefundResult;
+    try {
+      result = await this.paymentsService.refundPayment(
+        refund.provider,
+        paymentId,
+        refund.amount,
+      );
+    } catch (error) {
+      return this.markFailed(refund, (error as Error).message);
+    }
+    if (FAILED_PROVIDER_REFUND_STATUSES.includes(result.status)) {
+      return this.markFailed(refund, `Refund ${result.status}`);
+    }
+
+    refund.status = RefundStatus.PROCESSED;
+    refund.stripeRefundId = result.id || null;
+    refund.processedAt = new Date();
+    await this.refundRepository.save(refund);
+
+    await this.applyToTransaction(transaction, refund);
+    this.logger.log(
+      `Refund ${refund.id} of ${refund.amount} cents approved by user ${userId}`,
+    );
+    return this.mapToResponseDto(refund);
+  }
+
+  async reject(
+    id: string,
+    userId: string,
+    note: string,
+  ): Promise<RefundRequestResponseDto> {
+    const refund = await this.claim(id, RefundStatus.REJECTED, userId, note);
+    this.logger.log(`Refund ${refund.id} rejected by user ${userId}`);
+    return this.mapToResponseDto(refund);
+  }
+
+  private async markFailed(refund: Refund, message: string): Promise<never> {
+    await this.refundRepository.update(refund.id, {
+      status: RefundStatus.FAILED,
+      errorMessage: message,
+      processedAt: new Date(),
+    });
+    this.logger.error(`Refund ${refund.id} failed: ${message}`);
+    throw new BadRequestException(`Refund failed: ${message}`);
+  }
+
+  /**
+   * Move a pending refund to its decision. Only one reviewer wins when two
+   * decide at once.
+   */
+  private async claim(
+    id: string,
+    status: RefundStatus.APPROVED | RefundStatus.REJECTED,
+    userId: string,
+    note?: string,
+  ): Promise<Refund> {
+    const result = await this.refundRepository
+      .createQueryBuilder()
+      .update(Refund)
+      .set({
+        status,
+        processedBy: userId,
+        reviewNote: note ?? null,
+        ...(status === RefundStatus.REJECTED
+          ? { processedAt: () => 'now()' }
+          : {}),
+      })
+      .where('id = :id', { id })
+      .andWhere('status = :pending', { pending: RefundStatus.PENDING })
+      .execute();
+
+    const refund = await this.findOne(id);
+    if ((result.affected ?? 0) === 0) {
+      throw new BadRequestException(
+        `Refund is ${refund.status}; only pending refunds can be approved or rejected`,
+      );
+    }
+    return refund;
+  }
+
+  /**
+   * Mark the transaction and its invoice refunded once all of it has been
+   * paid back, and post the refund to the family's ledger
+   */
+  private async applyToTransaction(
+    transaction: Transaction,
+    refund: Refund,
+  ): Promise<void> {
+    const refunded =
+      (await this.refundRepository.sum('amount', {
+        transactionId: transaction.id,
+        status: RefundStatus.PROCESSED,
+      })) ?? 0;
+    const fullyRefunded = refunded >= transaction.amount;
+
+    await this.dataSource.transaction(async (manager) => {
+      if (fullyRefunded) {
+        transaction.status = PaymentStatus.REFUNDED;
+      }
+      transaction.metadata = {
+        ...transaction.metadata,
+        refundedAmount: refunded,
+      };
+      await manager.save(transaction);
+
+      if (!fullyRefunded || !refund.invoiceId) {
+        return;
+      }
+      if (refund.invoiceSource === 'lead_invoice') {
+        await manager.update(LeadInvoice, refund.invoiceId, {
+          status: 'refunded',
+        });
+      } else {
+        await manager.update(Invoice, refund.invoiceId, {
+          status: PaymentStatus.REFUNDED,
+        });
+      }
+    });
+
+    if (refund.invoiceId && refund.schoolId) {
+      this.eventEmitter.emit(DomainEvent.REFUND_PROCESSED, {
+        refundId: refund.id,
+        schoolId: refund.schoolId,
+        invoiceId: refund.invoiceId,
+        source: refund.invoiceSource ?? 'invoice',
+        amount: refund.amount,
+        userId: refund.processedBy,
+      } satisfies RefundProcessedEvent);
+    }
+  }
+
+  private findProvider(transaction: Transaction): PaymentProvider | null {
+    if (transaction.stripePaymentIntentId) {
+      return PaymentProvider.STRIPE;
+    }
+    if (transaction.cardconnectTransactionId) {
+      return PaymentProvider.CARDCONNECT;
+    }
+    return null;
+  }
+
+  private mapToResponseDto(refund: Refund): RefundRequestResponseDto {
+    return {
+      id: refund.id,
+      schoolId: refund.schoolId,
+      transactionId: refund.transactionId,
+      invoiceId: refund.invoiceId,
+      invoiceSource: refund.invoiceSource,
+      provider: refund.provider,
+      amount: refund.amount,
+      reason: refund.reason,
+      status: refund.status,
+      requestedBy: refund.requestedBy,
+      processedBy: refund.processedBy,
+      processedAt: refund.processedAt,
+      reviewNote: refund.reviewNote,
+      providerRefundId: refund.stripeRefundId,
+      errorMessage: refund.errorMessage,
+      createdAt: refund.createdAt,
+    };
+  }
+}
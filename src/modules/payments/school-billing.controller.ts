@@ -0,0 +1,160 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SchoolBillingService } from './school-billing.service';
+import {
+  PaySchoolSubscriptionDto,
+  SchoolBillingQueryDto,
+  SchoolBillingStatusResponseDto,
+  SchoolDunningRunDto,
+  SchoolDunningRunResponseDto,
+} from './dto/school-billing.dto';
+import { SchoolEntity } from '../schools/entities/school.entity';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { BillingAccess } from '../../common/decorators/billing-access.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('School Billing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@BillingAccess()
+@ApiUnauthorizedResponse({ description: 'Unauthorized' })
+@ApiForbiddenResponse({ description: 'Forbidden - Insufficient permissions' })
+@Controller('school-billing')
+export class SchoolBillingController {
+  constructor(
+    private readonly schoolBillingService: SchoolBillingService,
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+  ) {}
+
+  private async ensureUserCanManageSchool(
+    user: AuthUser,
+    schoolId?: string,
+  ): Promise<void> {
+    if (!schoolId) {
+      throw new BadRequestException('schoolId is required');
+    }
+
+    if (user.primaryRole === AppRole.SUPER_ADMIN) {
+      return;
+    }
+
+    const accessible = new Set<string>();
+    if (user.schoolId) {
+      accessible.add(user.schoolId);
+    }
+    user.roles?.forEach((role) => {
+      if (role.schoolId) {
+        accessible.add(role.schoolId);
+      }
+    });
+
+    const isOwner = await this.schoolRepository.count({
+      where: { id: schoolId, ownerId: user.id },
+    });
+
+    if (isOwner > 0) {
+      return;
+    }
+
+    if (!accessible.has(schoolId)) {
+      throw new ForbiddenException(
+        'You can only view billing of your own school',
+      );
+    }
+  }
+
+  @Get('status')
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: "Get the school's subscription billing status",
+    description:
+      'Whether the subscription is overdue, the next charge of the owner’s card, the day access will be disabled, and the notices sent. Available while access is disabled.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing status retrieved successfully',
+    type: SchoolBillingStatusResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'schoolId is required' })
+  @ApiNotFoundResponse({ description: 'School not found' })
+  async getStatus(
+    @Query() query: SchoolBillingQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<SchoolBillingStatusResponseDto> {
+    const schoolId = query.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.schoolBillingService.getStatus(schoolId!);
+  }
+
+  @Post('pay')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_OWNER)
+  @ApiOperation({
+    summary: 'Pay the overdue subscription now',
+    description:
+      "Charges one month of subscription to the owner's default saved card. A successful payment restores access right away.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment made or still processing',
+    type: SchoolBillingStatusResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Not due, no saved card, or the payment failed',
+  })
+  @ApiNotFoundResponse({ description: 'School not found' })
+  async pay(
+    @Body() dto: PaySchoolSubscriptionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<SchoolBillingStatusResponseDto> {
+    const schoolId = dto.schoolId ?? user.schoolId ?? undefined;
+    await this.ensureUserCanManageSchool(user, schoolId);
+    return this.schoolBillingService.payNow(schoolId!);
+  }
+
+  @Post('dunning/run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(AppRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Run school subscription dunning now',
+    description:
+      'Runs the daily retries, notices and lockouts. Retries not yet due and notices already delivered are skipped; undelivered notices are sent again.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dunning run finished',
+    type: SchoolDunningRunResponseDto,
+  })
+  async runDunning(
+    @Body() dto: SchoolDunningRunDto,
+  ): Promise<SchoolDunningRunResponseDto> {
+    return this.schoolBillingService.run({ schoolId: dto.schoolId });
+  }
+}
@@ -0,0 +1,48 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { InjectQueue, Process, Processor } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { JobSchedulerService } from '../jobs/job-scheduler.service';
+import { SchoolBillingService } from './school-billing.service';
+import {
+  RUN_SCHOOL_DUNNING_JOB,
+  SCHOOL_BILLING_QUEUE,
+} from './payments.constants';
+import { SchoolDunningRunResponseDto } from './dto/school-billing.dto';
+
+// Mid-morning UTC, so notices and lockouts land in US working hours
+const SCHOOL_DUNNING_CRON = '0 14 * * *';
+
+/**
+ * Retries overdue school subscriptions, sends the owner notices and
+ * disables access after the grace period once a day.
+ */
+@Processor(SCHOOL_BILLING_QUEUE)
+export class SchoolBillingProcessor implements OnModuleInit {
+  private readonly logger = new Logger(SchoolBillingProcessor.name);
+
+  constructor(
+    @InjectQueue(SCHOOL_BILLING_QUEUE)
+    private readonly schoolBillingQueue: Queue,
+    private readonly jobSchedulerService: JobSchedulerService,
+    private readonly schoolBillingService: SchoolBillingService,
+  ) {}
+
+  onModuleInit(): void {
+    this.jobSchedulerService.scheduleRepeatable(
+      this.schoolBillingQueue,
+      RUN_SCHOOL_DUNNING_JOB,
+      { cron: SCHOOL_DUNNING_CRON },
+    );
+  }
+
+  @Process(RUN_SCHOOL_DUNNING_JOB)
+  async runSchoolDunning(): Promise<SchoolDunningRunResponseDto> {
+    const result = await this.schoolBillingService.run();
+    if (result.schoolsDisabled > 0) {
+      this.logger.warn(
+        `School dunning disabled ${result.schoolsDisabled} schools`,
+      );
+    }
+    return result;
+  }
+}
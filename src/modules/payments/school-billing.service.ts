@@ -0,0 +1,585 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { PaymentsService } from './payments.service';
+import {
+  SchoolBillingNotice,
+  SchoolBillingNoticeLevel,
+} from './entities/school-billing-notice.entity';
+import { SavedPaymentMethodEntity } from './entities/saved-payment-method.entity';
+import { PaymentStatus as ProviderPaymentStatus } from './interfaces/payment.interface';
+import {
+  SchoolBillingNoticeResponseDto,
+  SchoolBillingStatusResponseDto,
+  SchoolDunningRunResponseDto,
+} from './dto/school-billing.dto';
+import {
+  SchoolEntity,
+  SchoolSubscriptionStatus,
+} from '../schools/entities/school.entity';
+import { ProfileEntity } from '../users/entities/profile.entity';
+import { MailerService } from '../mailer/mailer.service';
+import { DAY_MS, toUtcDay, toDateKey } from '../../common/utils/date.util';
+
+/** Days past the due date on which the owner's default card is charged */
+const SUBSCRIPTION_RETRY_DAYS = [0, 3, 7];
+
+/** Days past the due date after which staff lose access to the school */
+const GRACE_PERIOD_DAYS = 14;
+
+/** Notices by days past the due date; only the latest step reached is sent */
+const NOTICE_SCHEDULE = [
+  { daysOverdue: 0, level: SchoolBillingNoticeLevel.REMINDER },
+  { daysOverdue: 7, level: SchoolBillingNoticeLevel.WARNING },
+  { daysOverdue: 11, level: SchoolBillingNoticeLevel.FINAL },
+];
+
+const NOTICES: Record<
+  SchoolBillingNoticeLevel,
+  { subject: string; content: string }
+> = {
+  [SchoolBillingNoticeLevel.REMINDER]: {
+    subject:
+      'Your MyPreschoolPro subscription payment for {{school_name}} failed',
+    content:
+      '<p>Hi {{owner_name}},</p><p>We could not collect the {{amount}} subscription payment for {{school_name}} that was due on {{due_date}}. We will try your default card again over the next days. Please check your card or pay from the billing page.</p><p>If the subscription is still unpaid on {{disable_date}}, staff access to {{school_name}} will be disabled.</p><p>The MyPreschoolPro team</p>',
+  },
+  [SchoolBillingNoticeLevel.WARNING]: {
+    subject: 'Overdue: MyPreschoolPro subscription for {{school_name}}',
+    content:
+      '<p>Hi {{owner_name}},</p><p>The {{amount}} subscription payment for {{school_name}} is {{days_overdue}} days overdue. Please pay from the billing page or update your card.</p><p>Staff access to {{school_name}} will be disabled on {{disable_date}} if the subscription is still unpaid.</p><p>The MyPreschoolPro team</p>',
+  },
+  [SchoolBillingNoticeLevel.FINAL]: {
+    subject:
+      'Final notice: {{school_name}} will be disabled on {{disable_date}}',
+    content:
+      '<p>Hi {{owner_name}},</p><p>The {{amount}} subscription payment for {{school_name}} is {{days_overdue}} days overdue. This is our final notice: staff access to {{school_name}} will be disabled on {{disable_date}} unless the subscription is paid.</p><p>The MyPreschoolPro team</p>',
+  },
+  [SchoolBillingNoticeLevel.SUSPENDED]: {
+    subject: 'Access to {{school_name}} has been disabled',
+    content:
+      '<p>Hi {{owner_name}},</p><p>The {{amount}} subscription payment for {{school_name}} due on {{due_date}} is still unpaid, so staff access to {{school_name}} has been disabled. Parents are not affected.</p><p>Sign in and pay from the billing page to restore access right away.</p><p>The MyPreschoolPro team</p>',
+  },
+};
+
+export interface SchoolDunningRunOptions {
+  schoolId?: string;
+  now?: Date;
+}
+
+type ChargeOutcome = 'succeeded' | 'processing' | 'failed';
+
+/**
+ * Collects overdue school subscriptions. Once the next payment is due the
+ * school is overdue and its grace period starts: the owner's default card
+ * is charged on the days of the retry schedule and the owner gets
+ * escalating notices. At the end of the grace period staff access is
+ * disabled. Any successful subscription payment, including one reported
+ * by a Stripe webhook, makes the school active again.
+ */
+@Injectable()
+export class SchoolBillingService {
+  private readonly logger = new Logger(SchoolBillingService.name);
+
+  constructor(
+    @InjectRepository(SchoolEntity)
+    private readonly schoolRepository: Repository<SchoolEntity>,
+    @InjectRepository(SchoolBillingNotice)
+    private readonly noticeRepository: Repository<SchoolBillingNotice>,
+    @InjectRepository(SavedPaymentMethodEntity)
+    private readonly methodRepository: Repository<SavedPaymentMethodEntity>,
+    @InjectRepository(ProfileEntity)
+    private readonly profileRepository: Repository<ProfileEntity>,
+    private readonly paymentsService: PaymentsService,
+    private readonly mailerService: MailerService,
+  ) {}
+
+  async run(
+    options: SchoolDunningRunOptions = {},
+  ): Promise<SchoolDunningRunResponseDto> {
+    const now = options.now ?? new Date();
+    const query = this.schoolRepository
+      .createQueryBuilder('school')
+      .where('school.next_payment_due <= :now', { now })
+      // Disabled schools only come back while their suspension notice is
+      // still undelivered
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('school.access_disabled = false').orWhere(
+            `EXISTS (SELECT 1 FROM school_billing_notices notice
+              WHERE notice.school_id = school.id
+                AND notice.due_date = school.next_payment_due
+                AND notice.level = :suspended
+                AND notice.delivered = false)`,
+            { suspended: SchoolBillingNoticeLevel.SUSPENDED },
+          );
+        }),
+      )
+      .andWhere(
+        'COALESCE(school.discounted_amount, school.subscription_amount) > 0',
+      );
+    if (options.schoolId) {
+      query.andWhere('school.id = :schoolId', { schoolId: options.schoolId });
+    }
+    const schools = await query.getMany();
+
+    const result: SchoolDunningRunResponseDto = {
+      retried: 0,
+      recovered: 0,
+      noticesSent: 0,
+      schoolsDisabled: 0,
+    };
+    for (const school of schools) {
+      try {
+        await this.collect(school, now, result);
+      } catch (error) {
+        this.logger.error(
+          `School dunning failed for school ${school.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (result.retried > 0 || result.noticesSent > 0) {
+      this.logger.log(
+        `School dunning: ${result.recovered}/${result.retried} retries recovered, ${result.noticesSent} notices, ${result.schoolsDisabled} schools disabled`,
+      );
+    }
+    return result;
+  }
+
+  async getStatus(schoolId: string): Promise<SchoolBillingStatusResponseDto> {
+    const school = await this.findSchool(schoolId);
+    const [method, notices] = await Promise.all([
+      school.ownerId ? this.findOwnerMethod(school.ownerId) : null,
+      school.nextPaymentDue
+        ? this.noticeRepository.find({
+            where: { schoolId, dueDate: school.nextPaymentDue },
+            order: { createdAt: 'DESC' },
+          })
+        : ([] as SchoolBillingNotice[]),
+    ]);
+
+    const dueDay = school.nextPaymentDue
+      ? toUtcDay(school.nextPaymentDue)
+      : null;
+    const overdue =
+      school.nextPaymentDue !== null && school.nextPaymentDue <= new Date();
+    const retryDays = SUBSCRIPTION_RETRY_DAYS[school.paymentRetryCount];
+
+    return {
+      schoolId: school.id,
+      subscriptionStatus: school.subscriptionStatus,
+      accessDisabled: school.accessDisabled,
+      amountDue: this.amountDue(school),
+      nextPaymentDue: school.nextPaymentDue,
+      lastPaymentDate: school.lastPaymentDate,
+      daysOverdue:
+        overdue && dueDay !== null
+          ? Math.floor((toUtcDay(new Date()) - dueDay) / DAY_MS)
+          : 0,
+      paymentRetryCount: school.paymentRetryCount,
+      nextRetryDate:
+        overdue &&
+        dueDay !== null &&
+        retryDays !== undefined &&
+        !school.accessDisabled
+          ? toDateKey(dueDay + retryDays * DAY_MS)
+          : null,
+      accessDisabledOn:
+        overdue && dueDay !== null && !school.accessDisabled
+          ? toDateKey(dueDay + GRACE_PERIOD_DAYS * DAY_MS)
+          : null,
+      hasPaymentMethod: method !== null,
+      notices: notices.map((notice) => this.mapToResponseDto(notice)),
+    };
+  }
+
+  /**
+   * Charge the owner's default card for the overdue subscription now. Does
+   * not count against the retry schedule.
+   */
+  async payNow(schoolId: string): Promise<SchoolBillingStatusResponseDto> {
+    const school = await this.findSchool(schoolId);
+    if (!school.nextPaymentDue || school.nextPaymentDue > new Date()) {
+      throw new BadRequestException('The subscription is not due yet');
+    }
+    const owner = school.ownerId
+      ? await this.profileRepository.findOne({ where: { id: school.ownerId } })
+      : null;
+    const method = owner ? await this.findOwnerMethod(owner.id) : null;
+    if (!method) {
+      throw new BadRequestException(
+        'The school owner has no saved card to charge',
+      );
+    }
+
+    const outcome = await this.charge(school, method, owner);
+    if (outcome === 'failed') {
+      throw new BadRequestException(
+        'The payment failed; check the card or try another one',
+      );
+    }
+    return this.getStatus(schoolId);
+  }
+
+  private async collect(
+    school: SchoolEntity,
+    now: Date,
+    result: SchoolDunningRunResponseDto,
+  ): Promise<void> {
+    const dueDay = toUtcDay(school.nextPaymentDue!);
+    const daysOverdue = Math.floor((toUtcDay(now) - dueDay) / DAY_MS);
+
+    if (school.subscriptionStatus === SchoolSubscriptionStatus.ACTIVE) {
+      await this.schoolRepository.update(school.id, {
+        subscriptionStatus: SchoolSubscriptionStatus.OVERDUE,
+      });
+      school.subscriptionStatus = SchoolSubscriptionStatus.OVERDUE;
+      this.logger.log(
+        `School ${school.id} subscription is overdue; grace period ends ${toDateKey(dueDay + GRACE_PERIOD_DAYS * DAY_MS)}`,
+      );
+    }
+
+    const owner = school.ownerId
+      ? await this.profileRepository.findOne({ where: { id: school.ownerId } })
+      : null;
+    if (school.accessDisabled) {
+      if (
+        await this.sendNotice(
+          school,
+          owner,
+          SchoolBillingNoticeLevel.SUSPENDED,
+          daysOverdue,
+        )
+      ) {
+        result.noticesSent += 1;
+      }
+      return;
+    }
+
+    const retryDays = SUBSCRIPTION_RETRY_DAYS[school.paymentRetryCount];
+    if (retryDays !== undefined && daysOverdue >= retryDays) {
+      const outcome = await this.retry(school, owner);
+      if (outcome) {
+        result.retried += 1;
+      }
+      if (outcome === 'succeeded') {
+        result.recovered += 1;
+        return;
+      }
+      // A charge still processing is settled by the provider's webhook
+      if (outcome === 'processing') {
+        return;
+      }
+    }
+
+    if (daysOverdue >= GRACE_PERIOD_DAYS) {
+      if (await this.disableAccess(school)) {
+        result.schoolsDisabled += 1;
+      }
+      if (
+        await this.sendNotice(
+          school,
+          owner,
+          SchoolBillingNoticeLevel.SUSPENDED,
+          daysOverdue,
+        )
+      ) {
+        result.noticesSent += 1;
+      }
+      return;
+    }
+
+    const step = [...NOTICE_SCHEDULE]
+      .reverse()
+      .find((candidate) => candidate.daysOverdue <= daysOverdue);
+    if (
+      step &&
+      (await this.sendNotice(school, owner, step.level, daysOverdue))
+    ) {
+      result.noticesSent += 1;
+    }
+  }
+
+  /**
+   * Charge the scheduled retry. The retry count is claimed first, so
+   * overlapping runs cannot charge the same retry twice.
+   */
+  private async retry(
+    school: SchoolEntity,
+    owner: ProfileEntity | null,
+  ): Promise<ChargeOutcome | null> {
+    const claimed = await this.schoolRepository
+      .createQueryBuilder()
+      .update(SchoolEntity)
+      .set({ paymentRetryCount: () => 'payment_retry_count + 1' })
+      .where('id = :id', { id: school.id })
+      .andWhere('payment_retry_count = :count', {
+        count: school.paymentRetryCount,
+      })
+      .execute();
+    if (!claimed.affected) {
+      return null;
+    }
+    school.paymentRetryCount += 1;
+
+    const method = owner ? await this.findOwnerMethod(owner.id) : null;
+    if (!method) {
+      this.logger.warn(
+        `Subscription retry ${school.paymentRetryCount} for school ${school.id} skipped: the owner has no saved card`,
+      );
+      return 'failed';
+    }
+    return this.charge(school, method, owner);
+  }
+
+  /**
+   * One month of subscription charged to the card. A successful charge
+   * extends the subscription and restores access (PaymentsService).
+   */
+  private async charge(
+    school: SchoolEntity,
+    method: SavedPaymentMethodEntity,
+    owner: ProfileEntity | null,
+  ): Promise<ChargeOutcome> {
+    try {
+      const { payment } = await this.paymentsService.chargeSavedPaymentMethod(
+        method.provider,
+        {
+          amount: this.amountDue(school),
+          currency: 'usd',
+          customerId: method.providerCustomerId,
+          paymentMethodId: method.providerPaymentMethodId,
+          description: `MyPreschoolPro subscription for ${school.name}`,
+          metadata: {
+            paymentType: 'subscription_monthly',
+            schoolId: school.id,
+            userId: method.userId,
+            // Receives the payment confirmation
+            email: owner?.email,
+            subscriptionRetry: school.paymentRetryCount,
+          },
+        },
+      );
+
+      if (
+        payment.status === ProviderPaymentStatus.FAILED ||
+        payment.status === ProviderPaymentStatus.CANCELED
+      ) {
+        throw new Error(`Payment ${payment.status}`);
+      }
+      if (payment.status !== ProviderPaymentStatus.SUCCEEDED) {
+        return 'processing';
+      }
+
+      this.logger.log(
+        `Collected overdue subscription of school ${school.id} from payment method ${method.id}`,
+      );
+      return 'succeeded';
+    } catch (error) {
+      this.logger.warn(
+        `Subscription charge for school ${school.id} failed: ${(error as Error).message}`,
+      );
+      return 'failed';
+    }
+  }
+
+  private async disableAccess(school: SchoolEntity): Promise<boolean> {
+    const updated = await this.schoolRepository.update(
+      { id: school.id, accessDisabled: false },
+      {
+        accessDisabled: true,
+        subscriptionStatus: SchoolSubscriptionStatus.DISABLED,
+      },
+    );
+    if (!updated.affected) {
+      return false;
+    }
+
+    school.accessDisabled = true;
+    school.subscriptionStatus = SchoolSubscriptionStatus.DISABLED;
+    this.logger.warn(
+      `Disabled access to school ${school.id}: subscription unpaid since ${school.nextPaymentDue!.toISOString()}`,
+    );
+    return true;
+  }
+
+  /**
+   * Send the notice unless it was already delivered for this due date
+   */
+  private async sendNotice(
+    school: SchoolEntity,
+    owner: ProfileEntity | null,
+    level: SchoolBillingNoticeLevel,
+    daysOverdue: number,
+  ): Promise<boolean> {
+    const recipientEmail = owner?.email ?? school.email ?? null;
+    const amountDue = this.amountDue(school);
+    const noticeId = await this.claimNotice(school, level, {
+      daysOverdue,
+      recipientEmail,
+      amountDue,
+    });
+    if (!noticeId) {
+      return false;
+    }
+
+    if (!recipientEmail) {
+      this.logger.warn(
+        `No email to send the ${level} subscription notice of school ${school.id} to`,
+      );
+      await this.noticeRepository.update(noticeId, { delivered: false });
+      return false;
+    }
+
+    const dueDay = toUtcDay(school.nextPaymentDue!);
+    const ownerName = [owner?.firstName, owner?.lastName]
+      .filter(Boolean)
+      .join(' ');
+    const variables = {
+      owner_name: ownerName || 'there',
+      school_name: school.name,
+      amount: `$${(amountDue / 100).toFixed(2)}`,
+      due_date: toDateKey(dueDay),
+      days_overdue: String(daysOverdue),
+      disable_date: toDateKey(dueDay + GRACE_PERIOD_DAYS * DAY_MS),
+    };
+    const template = NOTICES[level];
+    const result = await this.mailerService.sendEmail({
+      to: recipientEmail,
+      subject: this.replaceVariables(template.subject, variables),
+      html: this.replaceVariables(template.content, variables, true),
+      emailType: 'payment_reminder',
+      userId: owner?.id,
+      schoolId: school.id,
+      metadata: {
+        schoolBillingNoticeId: noticeId,
+        level,
+        amount: amountDue,
+        dueDate: variables.due_date,
+      },
+    });
+
+    if (!result.success) {
+      this.logger.error(
+        `Failed to send ${level} subscription notice of school ${school.id} to ${recipientEmail}: ${result.error ?? result.reason}`,
+      );
+      await this.noticeRepository.update(noticeId, { delivered: false });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Record the notice as delivered before sending so that overlapping runs
+   * cannot both send it. A notice whose earlier send failed is claimed
+   * again. Returns null when the notice was already delivered or is being
+   * sent.
+   */
+  private async claimNotice(
+    school: SchoolEntity,
+    level: SchoolBillingNoticeLevel,
+    details: Pick<
+      SchoolBillingNotice,
+      'daysOverdue' | 'recipientEmail' | 'amountDue'
+    >,
+  ): Promise<string | null> {
+    const inserted = await this.noticeRepository
+      .createQueryBuilder()
+      .insert()
+      .into(SchoolBillingNotice)
+      .values({
+        schoolId: school.id,
+        dueDate: school.nextPaymentDue!,
+        level,
+        ...details,
+        delivered: true,
+      })
+      .orIgnore()
+      .returning(['id'])
+      .execute();
+    const row = (inserted.raw as Array<{ id: string }>)[0];
+    if (row) {
+      return row.id;
+    }
+
+    const retried = await this.noticeRepository
+      .createQueryBuilder()
+      .update(SchoolBillingNotice)
+      .set({ ...details, delivered: true })
+      .where('school_id = :schoolId', { schoolId: school.id })
+      .andWhere('due_date = :dueDate', { dueDate: school.nextPaymentDue })
+      .andWhere('level = :level', { level })
+      .andWhere('delivered = false')
+      .returning(['id'])
+      .execute();
+    return (retried.raw as Array<{ id: string }>)[0]?.id ?? null;
+  }
+
+  private async findSchool(id: string): Promise<SchoolEntity> {
+    const school = await this.schoolRepository.findOne({ where: { id } });
+
+    if (!school) {
+      throw new NotFoundException(`School with ID "${id}" not found`);
+    }
+
+    return school;
+  }
+
+  private findOwnerMethod(
+    ownerId: string,
+  ): Promise<SavedPaymentMethodEntity | null> {
+    return this.methodRepository.findOne({
+      where: { userId: ownerId, isDefault: true },
+    });
+  }
+
+  private amountDue(school: SchoolEntity): number {
+    return school.discountedAmount ?? school.subscriptionAmount;
+  }
+
+  private replaceVariables(
+    text: string,
+    variables: Record<string, string>,
+    escapeHtml = false,
+  ): string {
+    let result = text;
+    for (const [key, value] of Object.entries(variables)) {
+      const replacement = escapeHtml ? this.escapeHtml(value) : value;
+      result = result.replace(
+        new RegExp(`\\{\\{${key}\\}\\}`, 'g'),
+        () => replacement,
+      );
+    }
+    return result;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private mapToResponseDto(
+    notice: SchoolBillingNotice,
+  ): SchoolBillingNoticeResponseDto {
+    return {
+      id: notice.id,
+      level: notice.level,
+      daysOverdue: notice.daysOverdue,
+      dueDate: notice.dueDate,
+      recipientEmail: notice.recipientEmail,
+      amountDue: notice.amountDue,
+      delivered: notice.delivered,
+      createdAt: notice.createdAt,
+    };
+  }
+}
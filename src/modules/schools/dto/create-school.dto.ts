@@ -10,6 +10,8 @@ import {
   IsBoolean,
   IsNumber,
   IsDateString,
+  IsUrl,
+  MaxLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { SchoolStatus, SchoolSubscriptionStatus } from '../entities/school.entity';
@@ -49,6 +51,24 @@ export class CreateSchoolDto {
   @IsOptional()
   email?: string;
 
+  @ApiPropertyOptional({
+    description: 'Logo shown on invoices and receipts (PNG or JPEG)',
+    example: 'https://cdn.littlestars.com/logo.png',
+  })
+  @IsUrl()
+  @IsOptional()
+  logoUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax ID (EIN) printed on year-end childcare tax statements',
+    example: '12-3456789',
+    maxLength: 20,
+  })
+  @IsString()
+  @MaxLength(20)
+  @IsOptional()
+  taxId?: string;
+
   @ApiPropertyOptional({
     description: 'Owner user ID',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -35,6 +35,20 @@ export class SchoolResponseDto {
   })
   email: string | null;
 
+  @ApiPropertyOptional({
+    description: 'Logo shown on invoices and receipts',
+    example: 'https://cdn.littlestars.com/logo.png',
+    nullable: true,
+  })
+  logoUrl: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Tax ID (EIN) printed on year-end childcare tax statements',
+    example: '12-3456789',
+    nullable: true,
+  })
+  taxId: string | null;
+
   @ApiPropertyOptional({
     description: 'Owner user ID',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -34,6 +34,14 @@ export class SchoolEntity extends BaseEntity {
   @Column({ type: 'text', nullable: true })
   email: string | null;
 
+  // PNG or JPEG shown on invoices and receipts
+  @Column({ type: 'text', nullable: true, name: 'logo_url' })
+  logoUrl: string | null;
+
+  // EIN printed on year-end childcare tax statements
+  @Column({ type: 'text', nullable: true, name: 'tax_id' })
+  taxId: string | null;
+
   @Column({ type: 'uuid', nullable: true, name: 'owner_id' })
   ownerId: string | null;
 
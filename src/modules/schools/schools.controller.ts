@@ -36,6 +36,7 @@ import { SchoolEntity, SchoolStatus } from './entities/school.entity';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -47,6 +48,7 @@ import { Repository } from 'typeorm';
 @ApiTags('Schools')
 @ApiBearerAuth()
 // @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(SchoolEntity, { schoolProperty: 'id' })
 @Controller('schools')
 export class SchoolsController {
   constructor(
@@ -600,6 +602,8 @@ export class SchoolsController {
       address: school.address,
       phone: school.phone,
       email: school.email,
+      logoUrl: school.logoUrl,
+      taxId: school.taxId,
       ownerId: school.ownerId,
       capacity: school.capacity,
       programsOffered: school.programsOffered,
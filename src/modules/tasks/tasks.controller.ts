@@ -27,6 +27,7 @@ import { TaskResponseDto } from './dto/task-response.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { SchoolResource } from '../../common/decorators/school-resource.decorator';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { AppRole } from '../../common/enums/app-role.enum';
 import type { AuthUser } from '../auth/interfaces/auth-user.interface';
@@ -40,6 +41,7 @@ import { ProfileEntity } from '../users/entities/profile.entity';
 @ApiTags('Tasks')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard, RolesGuard)
+@SchoolResource(Task)
 @Controller('tasks')
 export class TasksController {
   constructor(
@@ -0,0 +1,142 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaymentProvider } from '../../payments/interfaces/payment.interface';
+import { EnrollmentQueueStatus } from '../../enrollment/entities/enrollment-queue.entity';
+
+export enum WaitlistOfferDecision {
+  ENROLLED = 'enrolled',
+  PAYMENT_REQUIRED = 'payment_required',
+  DECLINED = 'declined',
+}
+
+export class AcceptWaitlistOfferDto {
+  @ApiPropertyOptional({
+    description:
+      'Provider used to pay the registration fee. Required when the program charges one.',
+    enum: PaymentProvider,
+    example: PaymentProvider.STRIPE,
+  })
+  @IsEnum(PaymentProvider)
+  @IsOptional()
+  provider?: PaymentProvider;
+
+  @ApiPropertyOptional({
+    description: 'Card token from the CardConnect iframe tokenizer',
+    example: '9418594164541111',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  paymentToken?: string;
+}
+
+export class ConfirmWaitlistOfferPaymentDto {
+  @ApiProperty({
+    description: 'Stripe payment intent returned when the offer was accepted',
+    example: 'pi_3Nk8W2L5f1n0',
+  })
+  @IsString()
+  @IsNotEmpty()
+  paymentId: string;
+}
+
+export class DeclineWaitlistOfferDto {
+  @ApiPropertyOptional({
+    description: 'Why the family declined',
+    example: 'We found a spot closer to home',
+  })
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Keep the family on the waitlist for other classes of the program',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  remainOnWaitlist?: boolean;
+}
+
+export class WaitlistOfferDetailsDto {
+  @ApiProperty({ description: 'Enrollment queue entry ID of the offer' })
+  id: string;
+
+  @ApiProperty({ description: 'Offer status', enum: EnrollmentQueueStatus })
+  status: EnrollmentQueueStatus;
+
+  @ApiPropertyOptional({ description: 'Child name', nullable: true })
+  childName: string | null;
+
+  @ApiPropertyOptional({ description: 'Parent name', nullable: true })
+  parentName: string | null;
+
+  @ApiPropertyOptional({ description: 'Program', nullable: true })
+  program: string | null;
+
+  @ApiProperty({ description: 'Class ID' })
+  classId: string;
+
+  @ApiPropertyOptional({ description: 'Class name', nullable: true })
+  className: string | null;
+
+  @ApiProperty({ description: 'School ID' })
+  schoolId: string;
+
+  @ApiPropertyOptional({ description: 'School name', nullable: true })
+  schoolName: string | null;
+
+  @ApiPropertyOptional({
+    description: 'When the offer was made',
+    nullable: true,
+  })
+  offerDate: string | null;
+
+  @ApiPropertyOptional({ description: 'When the offer lapses', nullable: true })
+  offerExpiresAt: string | null;
+
+  @ApiProperty({
+    description: 'Registration fee in dollars due on acceptance',
+    example: 150,
+  })
+  registrationFee: number;
+}
+
+export class WaitlistOfferDecisionResponseDto {
+  @ApiProperty({
+    description: 'Outcome of the response',
+    enum: WaitlistOfferDecision,
+  })
+  status: WaitlistOfferDecision;
+
+  @ApiPropertyOptional({
+    description: 'Enrollment created for the family',
+    nullable: true,
+  })
+  enrollmentId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Payment to complete before the enrollment is created',
+  })
+  paymentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Stripe client secret for completing the payment',
+  })
+  clientSecret?: string;
+
+  @ApiPropertyOptional({
+    description: 'Registration fee in dollars',
+    example: 150,
+  })
+  amount?: number;
+}
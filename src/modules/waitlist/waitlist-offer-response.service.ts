@@ -0,0 +1,597 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DataSource, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WaitlistService } from './waitlist.service';
+import { Waitlist } from '../enrollment/entities/waitlist.entity';
+import {
+  EnrollmentQueue,
+  EnrollmentQueueStatus,
+} from '../enrollment/entities/enrollment-queue.entity';
+import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { WaitlistAutomationConfig } from '../enrollment/entities/waitlist-automation-config.entity';
+import { WaitlistPriorityCriteria } from '../enrollment/interfaces/waitlist-priority-criteria.interface';
+import { LeadStatus } from '../leads/entities/lead.entity';
+import { LeadsService } from '../leads/leads.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  PaymentIntent,
+  PaymentProvider,
+  PaymentStatus,
+} from '../payments/interfaces/payment.interface';
+import {
+  AcceptWaitlistOfferDto,
+  ConfirmWaitlistOfferPaymentDto,
+  DeclineWaitlistOfferDto,
+  WaitlistOfferDecision,
+  WaitlistOfferDecisionResponseDto,
+  WaitlistOfferDetailsDto,
+} from './dto/waitlist-offer-response.dto';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { LeadStatusType } from '../../common/enums/lead-status-type.enum';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import type { ClassSeatOpenedEvent } from '../../common/interfaces/domain-event.interface';
+
+/** Transaction paymentType of registration fees paid on acceptance */
+export const WAITLIST_REGISTRATION_FEE_PAYMENT_TYPE =
+  'waitlist_registration_fee';
+
+interface OfferContext {
+  queueEntry: EnrollmentQueue;
+  waitlistEntry: Waitlist;
+  registrationFee: number;
+}
+
+/**
+ * Who answered an offer: a parent signed in to the portal, or anyone holding
+ * the signed link from the offer email (userId null)
+ */
+interface OfferResponder {
+  userId: string | null;
+}
+
+/**
+ * Parent responses to waitlist seat offers. Offer emails carry a signed link
+ * for the EnrollmentQueue row, so families can answer without logging in;
+ * signed-in parents answer the same offers from the portal. Accepting
+ * collects the program's registration fee and enrolls the child, declining
+ * releases the seat to the next family. Every response is logged as a lead
+ * activity.
+ */
+@Injectable()
+export class WaitlistOfferResponseService {
+  private readonly logger = new Logger(WaitlistOfferResponseService.name);
+  private readonly secret: string | null;
+  private readonly offerPageUrl: string;
+
+  constructor(
+    @InjectRepository(EnrollmentQueue)
+    private readonly queueRepository: Repository<EnrollmentQueue>,
+    @InjectRepository(Waitlist)
+    private readonly waitlistRepository: Repository<Waitlist>,
+    @InjectRepository(WaitlistAutomationConfig)
+    private readonly configRepository: Repository<WaitlistAutomationConfig>,
+    @InjectRepository(EnrollmentEntity)
+    private readonly enrollmentRepository: Repository<EnrollmentEntity>,
+    private readonly dataSource: DataSource,
+    private readonly waitlistService: WaitlistService,
+    private readonly leadsService: LeadsService,
+    private readonly paymentsService: PaymentsService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+  ) {
+    this.secret = this.configService.get<string>('jwt.secret') || null;
+    if (!this.secret) {
+      this.logger.warn(
+        'No JWT secret configured. Waitlist offer links are disabled.',
+      );
+    }
+
+    const frontendUrl = (
+      this.configService.get<string>('app.frontendUrl') ||
+      this.configService.get<string>('APP_URL', 'http://localhost:5173')
+    ).replace(/\/+$/, '');
+    this.offerPageUrl = `${frontendUrl}/waitlist-offers`;
+  }
+
+  /**
+   * Link to the offer page for the offer email, or null when links are disabled
+   */
+  createOfferLink(queueEntryId: string): string | null {
+    if (!this.secret) {
+      return null;
+    }
+
+    const body = Buffer.from(JSON.stringify({ q: queueEntryId })).toString(
+      'base64url',
+    );
+    return `${this.offerPageUrl}/${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * Offer ID of a signed offer link token
+   */
+  verifyToken(token: string): string {
+    const [body, signature] = (token ?? '').split('.');
+    if (!this.secret || !body || !signature) {
+      throw new BadRequestException('Invalid offer link');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new BadRequestException('Invalid offer link');
+    }
+
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(body, 'base64url').toString('utf8'),
+      ) as { q?: string };
+      if (!decoded.q) {
+        throw new Error('Incomplete token');
+      }
+      return decoded.q;
+    } catch {
+      throw new BadRequestException('Invalid offer link');
+    }
+  }
+
+  /**
+   * Open offers made to the children of the signed-in parent
+   */
+  async findParentOffers(user: AuthUser): Promise<WaitlistOfferDetailsDto[]> {
+    if (!user.email) {
+      throw new BadRequestException(
+        'Parent email is required to view seat offers',
+      );
+    }
+
+    const offers = await this.queueRepository
+      .createQueryBuilder('queue')
+      .innerJoinAndSelect('queue.lead', 'lead')
+      .leftJoinAndSelect('queue.class', 'class')
+      .leftJoinAndSelect('queue.school', 'school')
+      .where('LOWER(lead.parent_email) = LOWER(:email)', { email: user.email })
+      .andWhere('queue.status = :offered', {
+        offered: EnrollmentQueueStatus.OFFERED,
+      })
+      .orderBy('queue.offer_expires_at', 'ASC')
+      .getMany();
+
+    return Promise.all(
+      offers.map(async (queueEntry) =>
+        this.mapToDetailsDto(
+          queueEntry,
+          await this.findRegistrationFee(queueEntry),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Throws unless the offer was made to a child of the signed-in parent
+   */
+  async ensureParentOwnsOffer(user: AuthUser, id: string): Promise<void> {
+    const queueEntry = await this.queueRepository.findOne({
+      where: { id },
+      relations: ['lead'],
+    });
+
+    if (!queueEntry) {
+      throw new NotFoundException(`Seat offer with ID "${id}" not found`);
+    }
+    if (
+      !user.email ||
+      queueEntry.lead?.parentEmail?.toLowerCase() !== user.email.toLowerCase()
+    ) {
+      throw new ForbiddenException(
+        'This seat offer was made to another family',
+      );
+    }
+  }
+
+  async getOffer(id: string): Promise<WaitlistOfferDetailsDto> {
+    const queueEntry = await this.findQueueEntry(id);
+    return this.mapToDetailsDto(
+      queueEntry,
+      await this.findRegistrationFee(queueEntry),
+    );
+  }
+
+  /**
+   * Accept an open offer. Without a registration fee the child is enrolled
+   * right away. CardConnect fees are captured here; Stripe fees return a
+   * client secret and the enrollment is created by confirmPayment.
+   */
+  async acceptOffer(
+    id: string,
+    dto: AcceptWaitlistOfferDto,
+    responder: OfferResponder,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    const offer = await this.loadOpenOffer(id);
+
+    if (offer.registrationFee <= 0) {
+      return this.enroll(offer, null, responder);
+    }
+    if (!dto.provider) {
+      throw new BadRequestException(
+        'A payment provider is required to pay the registration fee',
+      );
+    }
+    if (dto.provider === PaymentProvider.CARDCONNECT && !dto.paymentToken) {
+      throw new BadRequestException(
+        'A CardConnect payment token is required to pay the registration fee',
+      );
+    }
+
+    let payment: PaymentIntent;
+    try {
+      ({ payment } = await this.paymentsService.createPayment(dto.provider, {
+        amount: Math.round(offer.registrationFee * 100),
+        currency: 'usd',
+        description: `Registration fee for ${offer.queueEntry.lead?.childName || 'waitlist offer'}`,
+        metadata: this.buildPaymentMetadata(offer, dto, responder),
+      }));
+    } catch (error) {
+      await this.recordResponse(offer, responder, {
+        activityType: 'waitlist_offer_payment_failed',
+        notes: `Registration fee payment failed: ${(error as Error).message}`,
+        metadata: { provider: dto.provider },
+      });
+      throw new BadRequestException('The registration fee payment failed');
+    }
+
+    if (payment.status === PaymentStatus.SUCCEEDED) {
+      return this.enroll(offer, payment, responder);
+    }
+    if (
+      payment.status === PaymentStatus.FAILED ||
+      payment.status === PaymentStatus.CANCELED
+    ) {
+      await this.recordResponse(offer, responder, {
+        activityType: 'waitlist_offer_payment_failed',
+        notes: 'Registration fee payment was declined',
+        metadata: { provider: dto.provider, paymentId: payment.id },
+      });
+      throw new BadRequestException('The registration fee payment failed');
+    }
+
+    await this.recordResponse(offer, responder, {
+      activityType: 'waitlist_offer_accepted',
+      notes: `Accepted the seat offer. Registration fee of $${offer.registrationFee} pending`,
+      metadata: { provider: dto.provider, paymentId: payment.id },
+    });
+
+    return {
+      status: WaitlistOfferDecision.PAYMENT_REQUIRED,
+      paymentId: payment.id,
+      clientSecret: payment.clientSecret,
+      amount: offer.registrationFee,
+    };
+  }
+
+  /**
+   * Enroll the child once the Stripe registration fee payment has succeeded.
+   * A fee paid after the offer was closed is refunded.
+   */
+  async confirmPayment(
+    id: string,
+    dto: ConfirmWaitlistOfferPaymentDto,
+    responder: OfferResponder,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    const payment = await this.paymentsService.getPayment(
+      PaymentProvider.STRIPE,
+      dto.paymentId,
+    );
+    if (payment.metadata?.enrollmentQueueId !== id) {
+      throw new BadRequestException('The payment is not for this seat offer');
+    }
+    if (payment.status !== PaymentStatus.SUCCEEDED) {
+      throw new BadRequestException(
+        'The registration fee has not been paid yet',
+      );
+    }
+
+    const queueEntry = await this.findQueueEntry(id);
+    if (queueEntry.status === EnrollmentQueueStatus.ENROLLED) {
+      const enrollment = await this.enrollmentRepository.findOne({
+        where: { leadId: queueEntry.leadId, classId: queueEntry.classId },
+        order: { createdAt: 'DESC' },
+      });
+      return {
+        status: WaitlistOfferDecision.ENROLLED,
+        enrollmentId: enrollment?.id ?? null,
+      };
+    }
+
+    if (queueEntry.status !== EnrollmentQueueStatus.OFFERED) {
+      await this.paymentsService.refundPayment(
+        PaymentProvider.STRIPE,
+        payment.id,
+      );
+      const offer = await this.buildOfferContext(queueEntry);
+      await this.recordResponse(offer, responder, {
+        activityType: 'waitlist_offer_payment_refunded',
+        notes: `Registration fee refunded because the seat offer was ${queueEntry.status}`,
+        metadata: { paymentId: payment.id },
+      });
+      throw new BadRequestException(
+        'This seat offer is no longer open. The registration fee has been refunded.',
+      );
+    }
+
+    return this.enroll(
+      await this.buildOfferContext(queueEntry),
+      payment,
+      responder,
+    );
+  }
+
+  /**
+   * Decline an open offer and release its seat to the next family
+   */
+  async declineOffer(
+    id: string,
+    dto: DeclineWaitlistOfferDto,
+    responder: OfferResponder,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    const queueEntry = await this.findQueueEntry(id);
+    const remainOnWaitlist = dto.remainOnWaitlist ?? false;
+
+    const waitlistEntry = await this.dataSource.transaction(async (manager) => {
+      const locked = await manager.findOne(EnrollmentQueue, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (locked?.status !== EnrollmentQueueStatus.OFFERED) {
+        throw new BadRequestException('This seat offer is no longer open');
+      }
+
+      locked.status = EnrollmentQueueStatus.DECLINED;
+      if (dto.reason) {
+        locked.notes = [locked.notes, `Declined: ${dto.reason}`]
+          .filter(Boolean)
+          .join('\n');
+      }
+      await manager.save(locked);
+
+      const entry = await manager.findOne(Waitlist, {
+        where: { leadId: queueEntry.leadId, schoolId: queueEntry.schoolId },
+      });
+      if (entry?.status === LeadStatusType.OFFER_SENT) {
+        entry.status = remainOnWaitlist
+          ? LeadStatusType.WAITLISTED
+          : LeadStatusType.DECLINED;
+        entry.offerDate = null;
+        entry.offerExpiresAt = null;
+        await manager.save(entry);
+      }
+      return entry;
+    });
+
+    try {
+      await this.leadsService.updateStatus(
+        queueEntry.leadId,
+        remainOnWaitlist ? LeadStatus.WAITLISTED : LeadStatus.DECLINED,
+        undefined,
+        responder.userId ?? undefined,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update lead ${queueEntry.leadId} after declining offer ${id}: ${(error as Error).message}`,
+      );
+    }
+
+    this.eventEmitter.emit(DomainEvent.CLASS_SEAT_OPENED, {
+      classId: queueEntry.classId,
+      schoolId: queueEntry.schoolId,
+      reason: 'offer_declined',
+    } satisfies ClassSeatOpenedEvent);
+
+    await this.recordResponse(
+      { queueEntry, waitlistEntry, registrationFee: 0 },
+      responder,
+      {
+        activityType: 'waitlist_offer_declined',
+        notes: dto.reason
+          ? `Declined the seat offer: ${dto.reason}`
+          : 'Declined the seat offer',
+        metadata: { remainOnWaitlist },
+      },
+    );
+
+    return { status: WaitlistOfferDecision.DECLINED };
+  }
+
+  private async enroll(
+    offer: OfferContext,
+    payment: PaymentIntent | null,
+    responder: OfferResponder,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    const enrollment = await this.waitlistService.enrollLead(
+      offer.waitlistEntry.id,
+      {
+        registrationFee: payment ? offer.registrationFee : null,
+        userId: responder.userId,
+      },
+    );
+
+    await this.recordResponse(offer, responder, {
+      activityType: 'waitlist_offer_accepted',
+      notes: payment
+        ? `Accepted the seat offer and paid the $${offer.registrationFee} registration fee`
+        : 'Accepted the seat offer',
+      metadata: {
+        enrollmentId: enrollment.id,
+        paymentId: payment?.id ?? null,
+        provider: payment?.provider ?? null,
+      },
+    });
+
+    return {
+      status: WaitlistOfferDecision.ENROLLED,
+      enrollmentId: enrollment.id,
+    };
+  }
+
+  private async loadOpenOffer(id: string): Promise<OfferContext> {
+    const queueEntry = await this.findQueueEntry(id);
+
+    if (
+      queueEntry.status !== EnrollmentQueueStatus.OFFERED ||
+      (queueEntry.offerExpiresAt && queueEntry.offerExpiresAt < new Date())
+    ) {
+      throw new BadRequestException('This seat offer is no longer open');
+    }
+
+    return this.buildOfferContext(queueEntry);
+  }
+
+  private async buildOfferContext(
+    queueEntry: EnrollmentQueue,
+  ): Promise<OfferContext> {
+    const waitlistEntry = await this.waitlistRepository.findOne({
+      where: { leadId: queueEntry.leadId, schoolId: queueEntry.schoolId },
+    });
+    if (!waitlistEntry) {
+      throw new NotFoundException('Waitlist entry not found');
+    }
+
+    return {
+      queueEntry,
+      waitlistEntry,
+      registrationFee: await this.findRegistrationFee(queueEntry),
+    };
+  }
+
+  private async findQueueEntry(id: string): Promise<EnrollmentQueue> {
+    const queueEntry = await this.queueRepository.findOne({
+      where: { id },
+      relations: ['lead', 'class', 'school'],
+    });
+
+    if (!queueEntry) {
+      throw new NotFoundException(`Seat offer with ID "${id}" not found`);
+    }
+
+    return queueEntry;
+  }
+
+  private async findRegistrationFee(
+    queueEntry: EnrollmentQueue,
+  ): Promise<number> {
+    if (!queueEntry.class?.program) {
+      return 0;
+    }
+
+    const config = await this.configRepository.findOne({
+      where: {
+        schoolId: queueEntry.schoolId,
+        program: queueEntry.class.program,
+      },
+    });
+    const criteria = (config?.priorityCriteria ??
+      {}) as WaitlistPriorityCriteria;
+    return Number(criteria.registrationFee ?? 0);
+  }
+
+  private buildPaymentMetadata(
+    offer: OfferContext,
+    dto: AcceptWaitlistOfferDto,
+    responder: OfferResponder,
+  ): Record<string, any> {
+    const { queueEntry, waitlistEntry } = offer;
+    const metadata: Record<string, any> = {
+      paymentType: WAITLIST_REGISTRATION_FEE_PAYMENT_TYPE,
+      leadId: queueEntry.leadId,
+      schoolId: queueEntry.schoolId,
+      waitlistId: waitlistEntry.id,
+      enrollmentQueueId: queueEntry.id,
+      classId: queueEntry.classId,
+    };
+
+    if (responder.userId) {
+      metadata.userId = responder.userId;
+    }
+    if (dto.provider === PaymentProvider.CARDCONNECT) {
+      metadata.token = dto.paymentToken;
+      metadata.name = queueEntry.lead?.parentName;
+      metadata.cardholderName = queueEntry.lead?.parentName;
+      metadata.email = queueEntry.lead?.parentEmail;
+      metadata.userEmail = queueEntry.lead?.parentEmail;
+    }
+
+    return metadata;
+  }
+
+  private async recordResponse(
+    {
+      queueEntry,
+      waitlistEntry,
+    }: Omit<OfferContext, 'waitlistEntry'> & {
+      waitlistEntry: Waitlist | null;
+    },
+    responder: OfferResponder,
+    activity: {
+      activityType: string;
+      notes: string;
+      metadata: Record<string, any>;
+    },
+  ): Promise<void> {
+    try {
+      await this.leadsService.logActivity(queueEntry.leadId, {
+        activityType: activity.activityType,
+        userId: responder.userId,
+        notes: activity.notes,
+        metadata: {
+          ...activity.metadata,
+          enrollmentQueueId: queueEntry.id,
+          waitlistId: waitlistEntry?.id ?? null,
+          classId: queueEntry.classId,
+          respondedVia: responder.userId ? 'parent_portal' : 'offer_link',
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record ${activity.activityType} for lead ${queueEntry.leadId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private mapToDetailsDto(
+    queueEntry: EnrollmentQueue,
+    registrationFee: number,
+  ): WaitlistOfferDetailsDto {
+    return {
+      id: queueEntry.id,
+      status: queueEntry.status,
+      childName: queueEntry.lead?.childName ?? null,
+      parentName: queueEntry.lead?.parentName ?? null,
+      program: queueEntry.class?.program ?? null,
+      classId: queueEntry.classId,
+      className: queueEntry.class?.name ?? null,
+      schoolId: queueEntry.schoolId,
+      schoolName: queueEntry.school?.name ?? null,
+      offerDate: queueEntry.offerDate?.toISOString() ?? null,
+      offerExpiresAt: queueEntry.offerExpiresAt?.toISOString() ?? null,
+      registrationFee,
+    };
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret ?? '')
+      .update(`waitlist-offer:${body}`)
+      .digest('base64url');
+  }
+}
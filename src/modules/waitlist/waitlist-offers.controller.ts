@@ -0,0 +1,268 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WaitlistOfferResponseService } from './waitlist-offer-response.service';
+import {
+  AcceptWaitlistOfferDto,
+  ConfirmWaitlistOfferPaymentDto,
+  DeclineWaitlistOfferDto,
+  WaitlistOfferDecisionResponseDto,
+  WaitlistOfferDetailsDto,
+} from './dto/waitlist-offer-response.dto';
+import { Public } from '../../common/decorators/public.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AppRole } from '../../common/enums/app-role.enum';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+@ApiTags('Waitlist Offers')
+@Controller('waitlist-offers')
+export class WaitlistOffersController {
+  constructor(
+    private readonly waitlistOfferResponseService: WaitlistOfferResponseService,
+  ) {}
+
+  @Get()
+  @ApiBearerAuth()
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'List open seat offers',
+    description:
+      'Returns the open seat offers made to the children of the signed-in parent.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Seat offers retrieved successfully',
+    type: [WaitlistOfferDetailsDto],
+  })
+  async findParentOffers(
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistOfferDetailsDto[]> {
+    return this.waitlistOfferResponseService.findParentOffers(user);
+  }
+
+  @Public()
+  @Get('respond/:token')
+  @ApiOperation({
+    summary: 'Get a seat offer from its link',
+    description:
+      'Returns the seat offer identified by the signed token from the offer email.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed offer token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seat offer retrieved successfully',
+    type: WaitlistOfferDetailsDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid offer link' })
+  async getOfferByToken(
+    @Param('token') token: string,
+  ): Promise<WaitlistOfferDetailsDto> {
+    return this.waitlistOfferResponseService.getOffer(
+      this.waitlistOfferResponseService.verifyToken(token),
+    );
+  }
+
+  @Public()
+  @Post('respond/:token/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept a seat offer from its link',
+    description:
+      'Accepts the offer and collects the registration fee. Enrolls the child when no fee is due or the CardConnect charge succeeds; Stripe payments return a client secret to complete before confirming.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed offer token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Offer accepted',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid link, closed offer or failed payment',
+  })
+  async acceptByToken(
+    @Param('token') token: string,
+    @Body() acceptWaitlistOfferDto: AcceptWaitlistOfferDto,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    return this.waitlistOfferResponseService.acceptOffer(
+      this.waitlistOfferResponseService.verifyToken(token),
+      acceptWaitlistOfferDto,
+      { userId: null },
+    );
+  }
+
+  @Public()
+  @Post('respond/:token/confirm-payment')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm the registration fee from an offer link',
+    description:
+      'Enrolls the child once the Stripe registration fee payment has succeeded.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed offer token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Child enrolled',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid link, unpaid or mismatched payment, or closed offer',
+  })
+  async confirmPaymentByToken(
+    @Param('token') token: string,
+    @Body() confirmWaitlistOfferPaymentDto: ConfirmWaitlistOfferPaymentDto,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    return this.waitlistOfferResponseService.confirmPayment(
+      this.waitlistOfferResponseService.verifyToken(token),
+      confirmWaitlistOfferPaymentDto,
+      { userId: null },
+    );
+  }
+
+  @Public()
+  @Post('respond/:token/decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Decline a seat offer from its link',
+    description: 'Declines the offer and releases the seat to the next family.',
+  })
+  @ApiParam({ name: 'token', description: 'Signed offer token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Offer declined',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid link or closed offer' })
+  async declineByToken(
+    @Param('token') token: string,
+    @Body() declineWaitlistOfferDto: DeclineWaitlistOfferDto,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    return this.waitlistOfferResponseService.declineOffer(
+      this.waitlistOfferResponseService.verifyToken(token),
+      declineWaitlistOfferDto,
+      { userId: null },
+    );
+  }
+
+  @Get(':id')
+  @ApiBearerAuth()
+  @Roles(AppRole.PARENT)
+  @ApiOperation({ summary: 'Get a seat offer' })
+  @ApiParam({ name: 'id', description: 'Seat offer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Seat offer retrieved successfully',
+    type: WaitlistOfferDetailsDto,
+  })
+  @ApiResponse({ status: 404, description: 'Seat offer not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistOfferDetailsDto> {
+    await this.waitlistOfferResponseService.ensureParentOwnsOffer(user, id);
+    return this.waitlistOfferResponseService.getOffer(id);
+  }
+
+  @Post(':id/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Accept a seat offer',
+    description:
+      'Accepts the offer and collects the registration fee. Enrolls the child when no fee is due or the CardConnect charge succeeds; Stripe payments return a client secret to complete before confirming.',
+  })
+  @ApiParam({ name: 'id', description: 'Seat offer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Offer accepted',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Closed offer or failed payment' })
+  async accept(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() acceptWaitlistOfferDto: AcceptWaitlistOfferDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    await this.waitlistOfferResponseService.ensureParentOwnsOffer(user, id);
+    return this.waitlistOfferResponseService.acceptOffer(
+      id,
+      acceptWaitlistOfferDto,
+      { userId: user.id },
+    );
+  }
+
+  @Post(':id/confirm-payment')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Confirm the registration fee',
+    description:
+      'Enrolls the child once the Stripe registration fee payment has succeeded.',
+  })
+  @ApiParam({ name: 'id', description: 'Seat offer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Child enrolled',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Unpaid or mismatched payment, or closed offer',
+  })
+  async confirmPayment(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() confirmWaitlistOfferPaymentDto: ConfirmWaitlistOfferPaymentDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    await this.waitlistOfferResponseService.ensureParentOwnsOffer(user, id);
+    return this.waitlistOfferResponseService.confirmPayment(
+      id,
+      confirmWaitlistOfferPaymentDto,
+      { userId: user.id },
+    );
+  }
+
+  @Post(':id/decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @Roles(AppRole.PARENT)
+  @ApiOperation({
+    summary: 'Decline a seat offer',
+    description: 'Declines the offer and releases the seat to the next family.',
+  })
+  @ApiParam({ name: 'id', description: 'Seat offer ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Offer declined',
+    type: WaitlistOfferDecisionResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Closed offer' })
+  async decline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() declineWaitlistOfferDto: DeclineWaitlistOfferDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WaitlistOfferDecisionResponseDto> {
+    await this.waitlistOfferResponseService.ensureParentOwnsOffer(user, id);
+    return this.waitlistOfferResponseService.declineOffer(
+      id,
+      declineWaitlistOfferDto,
+      { userId: user.id },
+    );
+  }
+}
@@ -125,10 +125,13 @@ export class WaitlistController {
   @Roles(AppRole.SUPER_ADMIN, AppRole.SCHOOL_ADMIN, AppRole.ADMISSIONS_STAFF)
   @ApiOperation({
     summary: 'Enroll waitlisted lead',
-    description: 'Marks a waitlisted lead as enrolled/declined and triggers downstream workflows.',
+    description: 'Creates the enrollment for a waitlisted lead, in the class of its open seat offer if any, and triggers downstream workflows.',
   })
-  async enrollLead(@Param('id') waitlistId: string): Promise<{ success: true }> {
-    await this.waitlistService.enrollLead(waitlistId);
+  async enrollLead(
+    @Param('id') waitlistId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<{ success: true }> {
+    await this.waitlistService.enrollLead(waitlistId, { userId: user.id });
     return { success: true };
   }
 
@@ -1,17 +1,31 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WaitlistService } from './waitlist.service';
+import { WaitlistOfferResponseService } from './waitlist-offer-response.service';
 import { WaitlistController } from './waitlist.controller';
+import { WaitlistOffersController } from './waitlist-offers.controller';
 import { Waitlist } from '../enrollment/entities/waitlist.entity';
 import { EnrollmentEntity } from '../enrollment/entities/enrollment.entity';
+import { EnrollmentQueue } from '../enrollment/entities/enrollment-queue.entity';
+import { WaitlistAutomationConfig } from '../enrollment/entities/waitlist-automation-config.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
+import { LeadsModule } from '../leads/leads.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Waitlist, EnrollmentEntity, SchoolEntity])],
-  controllers: [WaitlistController],
-  providers: [WaitlistService],
-  exports: [WaitlistService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Waitlist,
+      EnrollmentEntity,
+      EnrollmentQueue,
+      WaitlistAutomationConfig,
+      SchoolEntity,
+    ]),
+    LeadsModule,
+    PaymentsModule,
+  ],
+  controllers: [WaitlistController, WaitlistOffersController],
+  providers: [WaitlistService, WaitlistOfferResponseService],
+  exports: [WaitlistService, WaitlistOfferResponseService],
 })
 export class WaitlistModule {}
-
-
@@ -8,9 +8,13 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Waitlist } from '../enrollment/entities/waitlist.entity';
 import { EnrollmentEntity, EnrollmentStatus } from '../enrollment/entities/enrollment.entity';
+import { EnrollmentQueue, EnrollmentQueueStatus } from '../enrollment/entities/enrollment-queue.entity';
 import { SchoolEntity } from '../schools/entities/school.entity';
+import { LeadStatus } from '../leads/entities/lead.entity';
+import { LeadsService } from '../leads/leads.service';
 import { WaitlistQueryDto } from './dto/waitlist-query.dto';
 import {
   WaitlistLeadDto,
@@ -25,6 +29,8 @@ import { UpdateWaitlistStatusDto } from './dto/update-waitlist-status.dto';
 import { AuthUser } from '../auth/interfaces/auth-user.interface';
 import { AppRole } from '../../common/enums/app-role.enum';
 import { ParentWaitlistEntryDto } from './dto/parent-waitlist-entry.dto';
+import { DomainEvent } from '../../common/enums/domain-event.enum';
+import { WaitlistEvent } from '../../common/interfaces/domain-event.interface';
 
 @Injectable()
 export class WaitlistService {
@@ -37,6 +43,8 @@ export class WaitlistService {
     private readonly enrollmentRepository: Repository<EnrollmentEntity>,
     @InjectRepository(SchoolEntity)
     private readonly schoolRepository: Repository<SchoolEntity>,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly leadsService: LeadsService,
   ) { }
 
   async getWaitlist(user: AuthUser, query: WaitlistQueryDto): Promise<WaitlistResponseDto> {
@@ -230,8 +238,18 @@ export class WaitlistService {
       throw new NotFoundException('Waitlist entry not found');
     }
 
+    const previousStatus = waitlistEntry.status;
     waitlistEntry.status = payload.status;
     await this.waitlistRepository.save(waitlistEntry);
+
+    if (payload.status === LeadStatusType.OFFER_SENT && previousStatus !== LeadStatusType.OFFER_SENT) {
+      this.eventEmitter.emit(DomainEvent.WAITLIST_OFFER_SENT, {
+        leadId: waitlistEntry.leadId,
+        schoolId: waitlistEntry.schoolId,
+        waitlistId: waitlistEntry.id,
+        program: waitlistEntry.program,
+      } satisfies WaitlistEvent);
+    }
   }
 
   async updatePosition(
@@ -324,7 +342,14 @@ export class WaitlistService {
     await this.waitlistRepository.save(waitlistEntry);
   }
 
-  async enrollLead(waitlistId: string): Promise<void> {
+  /**
+   * Enroll the family of a waitlist entry. The class comes from the family's
+   * outstanding seat offer when there is one, otherwise from the entry itself.
+   */
+  async enrollLead(
+    waitlistId: string,
+    options: { registrationFee?: number | null; userId?: string | null } = {},
+  ): Promise<EnrollmentEntity> {
     const waitlistEntry = await this.waitlistRepository.findOne({
       where: { id: waitlistId },
       relations: ['lead', 'school'],
@@ -334,8 +359,67 @@ export class WaitlistService {
       throw new NotFoundException('Waitlist entry not found');
     }
 
-    waitlistEntry.status = LeadStatusType.DECLINED;
-    await this.waitlistRepository.save(waitlistEntry);
+    const enrollment = await this.waitlistRepository.manager.transaction(
+      async (manager) => {
+        const offer = await manager.findOne(EnrollmentQueue, {
+          where: {
+            leadId: waitlistEntry.leadId,
+            status: EnrollmentQueueStatus.OFFERED,
+          },
+          order: { offerDate: 'DESC' },
+          lock: { mode: 'pessimistic_write' },
+        });
+
+        const existing = await manager.findOne(EnrollmentEntity, {
+          where: {
+            leadId: waitlistEntry.leadId,
+            status: EnrollmentStatus.ACTIVE,
+          },
+        });
+        const saved =
+          existing ??
+          (await manager.save(
+            manager.create(EnrollmentEntity, {
+              leadId: waitlistEntry.leadId,
+              schoolId: waitlistEntry.schoolId,
+              classId: offer?.classId ?? waitlistEntry.classId,
+              program: waitlistEntry.program,
+              startDate: new Date(),
+              registrationFee: options.registrationFee ?? null,
+              status: EnrollmentStatus.ACTIVE,
+              notes: offer
+                ? 'Enrolled from a waitlist seat offer'
+                : 'Enrolled from the waitlist',
+            }),
+          ));
+
+        if (offer) {
+          offer.status = EnrollmentQueueStatus.ENROLLED;
+          await manager.save(offer);
+        }
+
+        await manager.update(Waitlist, waitlistEntry.id, {
+          status: LeadStatusType.ENROLLED,
+        });
+        return saved;
+      },
+    );
+
+    // Creates the student record and publishes enrollment.completed
+    try {
+      await this.leadsService.updateStatus(
+        waitlistEntry.leadId,
+        LeadStatus.ENROLLED,
+        undefined,
+        options.userId ?? undefined,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Enrolled waitlist entry ${waitlistId} but failed to update lead ${waitlistEntry.leadId}: ${(error as Error).message}`,
+      );
+    }
+
+    return enrollment;
   }
 
   private async resolveSchoolFilters(user: AuthUser, requestedSchoolId?: string, requestedSchoolIds?: string): Promise<string[] | undefined> {
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import PDFDocument from 'pdfkit';
+
+export const PDF_MARGIN = 50;
+export const PDF_MUTED_COLOR = '#6b7280';
+
+const RULE_COLOR = '#d1d5db';
+const IMAGE_FETCH_TIMEOUT_MS = 5000;
+// PDFKit can only embed PNG and JPEG images
+const IMAGE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/jpg'];
+
+export interface PdfLetterhead {
+  name: string;
+  /** Address, phone, email and the like, one per line */
+  lines: Array<string | null | undefined>;
+  logo: Buffer | null;
+}
+
+export interface MoneyFormatter {
+  /** Format an amount in cents */
+  format(cents: number): string;
+}
+
+/**
+ * Building blocks for the PDFs the API renders: letter-size documents with
+ * a school letterhead, rules and money and date formatting.
+ */
+@Injectable()
+export class PdfService {
+  private readonly logger = new Logger(PdfService.name);
+
+  /**
+   * Draw a letter-size document and return its bytes
+   */
+  async render(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'LETTER', margin: PDF_MARGIN });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    draw(doc);
+    doc.end();
+    return done;
+  }
+
+  /**
+   * Download an image, such as a school logo. A missing or unusable image
+   * returns null so the PDF is rendered without it rather than failing.
+   */
+  async fetchImage(url: string): Promise<Buffer | null> {
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+      });
+      const contentType = response.headers.get('content-type') ?? '';
+      if (
+        !response.ok ||
+        !IMAGE_CONTENT_TYPES.some((type) => contentType.startsWith(type))
+      ) {
+        this.logger.warn(
+          `Skipping image ${url}: ${response.status} ${contentType}`,
+        );
+        return null;
+      }
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      this.logger.warn(
+        `Could not fetch image ${url}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Logo, name and contact lines at the top of the page, then a rule
+   */
+  drawLetterhead(doc: PDFKit.PDFDocument, letterhead: PdfLetterhead): void {
+    const top = doc.y;
+    let textLeft = PDF_MARGIN;
+    if (letterhead.logo) {
+      try {
+        doc.image(letterhead.logo, PDF_MARGIN, top, { fit: [120, 60] });
+        textLeft = PDF_MARGIN + 135;
+      } catch (error) {
+        this.logger.warn(
+          `Could not draw logo of ${letterhead.name}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .text(letterhead.name, textLeft, top);
+    doc.font('Helvetica').fontSize(9).fillColor(PDF_MUTED_COLOR);
+    for (const line of letterhead.lines) {
+      if (line) {
+        doc.text(line, textLeft);
+      }
+    }
+    doc.fillColor('black');
+
+    doc.y = Math.max(doc.y, top + 60) + 20;
+    this.drawRule(doc);
+  }
+
+  drawRule(doc: PDFKit.PDFDocument): void {
+    doc
+      .moveTo(PDF_MARGIN, doc.y)
+      .lineTo(PDF_MARGIN + this.contentWidth(doc), doc.y)
+      .strokeColor(RULE_COLOR)
+      .lineWidth(1)
+      .stroke();
+  }
+
+  contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - PDF_MARGIN * 2;
+  }
+
+  moneyFormatter(currency: string): MoneyFormatter {
+    let formatter: Intl.NumberFormat;
+    try {
+      formatter = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: currency.toUpperCase(),
+      });
+    } catch {
+      formatter = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+      });
+    }
+    return { format: (cents) => formatter.format(cents / 100) };
+  }
+
+  formatDate(value: Date | string | null): string {
+    if (!value) {
+      return '-';
+    }
+    // Date columns come back as YYYY-MM-DD strings; read them as calendar dates
+    const date =
+      typeof value === 'string'
+        ? new Date(
+            /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value,
+          )
+        : value;
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  }
+}
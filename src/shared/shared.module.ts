@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { CardConnectService } from './cardconnect.service';
+import { PdfService } from './pdf.service';
 
 @Module({
   imports: [ConfigModule],
-  providers: [CardConnectService],
-  exports: [CardConnectService],
+  providers: [CardConnectService, PdfService],
+  exports: [CardConnectService, PdfService],
 })
 export class SharedModule {}
 